@@ -0,0 +1,72 @@
+// Service worker for the installed app: keeps the app shell cached so it opens offline, and
+// wakes open windows to send changes queued while offline. Data itself is cached by the app.
+const SHELL_CACHE = 'dragontask-shell-v1';
+const SHELL_FILES = ['/', '/index.html', '/manifest.webmanifest', '/dragon-icon.svg'];
+const FLUSH_QUEUE_TAG = 'flush-queue';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(SHELL_FILES);
+
+    // The built scripts and styles have hashed names, so pick them out of the page
+    const html = await (await fetch('/index.html', { cache: 'no-store' })).text();
+    const assets = [...new Set(html.match(/\/assets\/[^"']+/g) || [])];
+    await cache.addAll(assets);
+
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== SHELL_CACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // API calls go straight to the network; the app handles them being offline
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Every route is the same single page, so serve the cached one when there's no network
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        const cache = await caches.open(SHELL_CACHE);
+        cache.put('/index.html', response.clone());
+        return response;
+      } catch {
+        return (await caches.match('/index.html')) || Response.error();
+      }
+    })());
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok && url.pathname.startsWith('/assets/')) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  })());
+});
+
+// Queued changes need the signed-in session, which only the app has, so ask open windows to send them
+self.addEventListener('sync', (event) => {
+  if (event.tag !== FLUSH_QUEUE_TAG) return;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window' });
+    windows.forEach(client => client.postMessage({ type: FLUSH_QUEUE_TAG }));
+  })());
+});
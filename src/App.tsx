@@ -12,11 +12,14 @@ import { Clients } from './pages/Clients';
 import { ClientDashboard } from './pages/ClientDashboard';
 import { Users } from './pages/Users';
 import { Tasks } from './pages/Tasks';
+import { MyWork } from './pages/MyWork';
+import { Timesheet } from './pages/Timesheet';
 import { Settings } from './pages/Settings';
 import { SOPs } from './pages/SOPs';
 import { SopDetails } from './pages/SopDetails';
 import { SopCreate } from './pages/SopCreate';
 import { Reports } from './pages/Reports';
+import { Templates } from './pages/Templates';
 import { useAppContext } from './lib/AppContext';
 import { DebugRouter } from './lib/debugRouter';
 import { DebugButton } from './components/DebugButton';
@@ -240,6 +243,10 @@ function App() {
               <Route path="clients/:id" element={<ClientDashboard />} />
               <Route path="users" element={<Users />} />
               <Route path="tasks" element={<Tasks />} />
+              <Route path="my-work" element={<MyWork />} />
+              <Route path="timesheet" element={<Timesheet />} />
+              {/* Where the installed app opens */}
+              <Route path="my-tasks" element={<Navigate to="/my-work" replace />} />
               <Route path="project-managers" element={<ProjectManagers />} />
               <Route path="settings" element={
                 role === 'system_admin' ? <Settings /> : <Navigate to="/dashboard" replace />
@@ -247,6 +254,7 @@ function App() {
               <Route path="sops" element={<SOPs />} />
               <Route path="sops/new" element={<SopCreate />} />
               <Route path="sops/:id" element={<SopDetails />} />
+              <Route path="templates" element={<Templates />} />
               <Route path="reports" element={<Reports />} />
               <Route path="profile" element={<UserProfile />} />
               <Route path="email-testing" element={<EmailTesting />} />
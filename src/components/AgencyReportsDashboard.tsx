@@ -4,6 +4,7 @@ import { supabase } from '../lib/supabase';
 import { Building2, Users, Briefcase, ArrowRight, CheckSquare, FileText, BarChart2, Calendar, Clock, DollarSign } from 'lucide-react';
 import clsx from 'clsx';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
+import { isTaskCompleted } from '../lib/workflow';
 
 interface AgencyReportsProps {
   agencyId: string;
@@ -113,11 +114,13 @@ export function AgencyReportsDashboard({ agencyId }: AgencyReportsProps) {
           estimated_hours,
           estimated_cost,
           status,
+          status_category,
           finish_date,
           start_date,
           client:clients(name)
         `)
         .eq('agency_id', agencyId)
+        .is('deleted_at', null)
         .gte('created_at', startDate.toISOString())
         .lte('created_at', endDate.toISOString());
 
@@ -146,7 +149,8 @@ export function AgencyReportsDashboard({ agencyId }: AgencyReportsProps) {
             agency_id,
             estimated_hours,
             estimated_cost,
-            status
+            status,
+            status_category
           )
         `)
         .eq('task.agency_id', agencyId)
@@ -339,7 +343,7 @@ export function AgencyReportsDashboard({ agencyId }: AgencyReportsProps) {
         client.total_hours_estimated += task.estimated_hours || 0;
         client.total_cost_estimated += task.estimated_cost || 0;
         
-        if (task.status === 'done') {
+        if (isTaskCompleted(task)) {
           client.completed_tasks++;
         }
       });
@@ -410,9 +414,10 @@ export function AgencyReportsDashboard({ agencyId }: AgencyReportsProps) {
       for (const userId of userMap.keys()) {
         const { data: userTasks, error: userTasksError } = await supabase
           .from('tasks')
-          .select('id, status, estimated_hours')
+          .select('id, status, status_category, estimated_hours')
           .eq('agency_id', agencyId)
-          .eq('assigned_to', userId);
+          .eq('assigned_to', userId)
+          .is('deleted_at', null);
           
         if (userTasksError) {
           logApiCall('tasks.select (user tasks)', false, { error: userTasksError });
@@ -422,7 +427,7 @@ export function AgencyReportsDashboard({ agencyId }: AgencyReportsProps) {
         if (userTasks) {
           const user = userMap.get(userId)!;
           user.assigned_tasks = userTasks.length;
-          user.completed_tasks = userTasks.filter(t => t.status === 'done').length;
+          user.completed_tasks = userTasks.filter(t => isTaskCompleted(t)).length;
           
           const estimatedHours = userTasks.reduce((sum, task) => sum + (task.estimated_hours || 0), 0);
           if (estimatedHours > 0) {
@@ -0,0 +1,550 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Dialog } from '@headlessui/react';
+import { format } from 'date-fns';
+import { X, Plus, Pencil, Trash2, History, Power } from 'lucide-react';
+import { AutomationAction, AutomationActionType, AutomationRule, AutomationRuleRun, AutomationTriggerConfig, AutomationTriggerType, BoardColumn, SOP, Task } from '../lib/types';
+import { useAuthStore } from '../lib/store';
+import { useAppContext } from '../lib/AppContext';
+import {
+  AUTOMATION_ACTIONS,
+  AUTOMATION_TRIGGERS,
+  createAutomationAction,
+  describeAutomationTrigger,
+  getAutomationActionLabel,
+  isAutomationActionComplete
+} from '../lib/automations';
+import {
+  createAutomationRule,
+  deleteAutomationRule,
+  fetchAutomationRuleRuns,
+  fetchAutomationRules,
+  updateAutomationRule
+} from '../lib/services/automationService';
+import { fetchUsers } from '../lib/services/taskDetailsService';
+import { fetchSOPs } from '../lib/services/sopService';
+
+interface AutomationRulesModalProps {
+  clientId: string;
+  agencyId: string;
+  boardId: string;
+  columns: BoardColumn[];
+  onClose: () => void;
+}
+
+const emptyForm = {
+  name: '',
+  isClientWide: false,
+  trigger_type: 'status_changed' as AutomationTriggerType,
+  trigger_config: {} as AutomationTriggerConfig,
+  actions: [] as AutomationAction[]
+};
+
+export function AutomationRulesModal({ clientId, agencyId, boardId, columns, onClose }: AutomationRulesModalProps) {
+  const { user } = useAuthStore();
+  const { systemSettings } = useAppContext();
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [users, setUsers] = useState<{ id: string; email: string }[]>([]);
+  const [sops, setSops] = useState<SOP[]>([]);
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [newActionType, setNewActionType] = useState<AutomationActionType>('assign_user');
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<AutomationRuleRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  const sortedColumns = [...columns].sort((a, b) => a.position - b.position);
+
+  useEffect(() => {
+    Promise.all([
+      fetchAutomationRules(clientId, boardId),
+      fetchUsers(),
+      fetchSOPs({ status: ['approved'] })
+    ])
+      .then(([rulesData, usersData, sopsData]) => {
+        setRules(rulesData);
+        setUsers(usersData);
+        // Same SOPs a task of this client can link to
+        setSops(sopsData.filter(sop =>
+          sop.client_id === clientId ||
+          (sop.access_level === 'agency' && sop.agency_id === agencyId) ||
+          sop.access_level === 'system'
+        ));
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'))
+      .finally(() => setIsLoading(false));
+  }, [clientId, agencyId, boardId]);
+
+  const startEditing = (rule: AutomationRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      isClientWide: rule.board_id === null,
+      trigger_type: rule.trigger_type,
+      trigger_config: rule.trigger_config,
+      actions: rule.actions
+    });
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditingRule(null);
+    setFormData(emptyForm);
+  };
+
+  const isComplete = !!formData.name.trim() &&
+    formData.actions.length > 0 &&
+    formData.actions.every(isAutomationActionComplete);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!isComplete) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    const details = {
+      name: formData.name.trim(),
+      trigger_type: formData.trigger_type,
+      trigger_config: formData.trigger_config,
+      // Drop the blank lines of a checklist before saving
+      actions: formData.actions.map(action => action.type === 'add_checklist'
+        ? { ...action, items: action.items.map(item => item.trim()).filter(Boolean) }
+        : action
+      )
+    };
+    const ruleBoardId = formData.isClientWide ? null : boardId;
+
+    try {
+      if (editingRule) {
+        await updateAutomationRule(editingRule.id, { ...details, board_id: ruleBoardId });
+        setRules(rules.map(rule =>
+          rule.id === editingRule.id ? { ...rule, ...details, board_id: ruleBoardId } : rule
+        ));
+      } else {
+        const rule = await createAutomationRule(clientId, ruleBoardId, details, user?.id);
+        setRules([...rules, rule]);
+      }
+
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (rule: AutomationRule) => {
+    setError(null);
+
+    try {
+      await updateAutomationRule(rule.id, { is_enabled: !rule.is_enabled });
+      setRules(rules.map(r => r.id === rule.id ? { ...r, is_enabled: !rule.is_enabled } : r));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleDelete = async (rule: AutomationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}" and its history?`)) return;
+    setError(null);
+
+    try {
+      await deleteAutomationRule(rule.id);
+      setRules(rules.filter(r => r.id !== rule.id));
+      if (editingRule?.id === rule.id) resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleToggleHistory = async (ruleId: string) => {
+    if (historyRuleId === ruleId) {
+      setHistoryRuleId(null);
+      return;
+    }
+
+    setHistoryRuleId(ruleId);
+    setRuns([]);
+    setError(null);
+
+    try {
+      setRuns(await fetchAutomationRuleRuns(ruleId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleTriggerChange = (triggerType: AutomationTriggerType) => {
+    setFormData({ ...formData, trigger_type: triggerType, trigger_config: {} });
+  };
+
+  const updateAction = (index: number, action: AutomationAction) => {
+    setFormData({
+      ...formData,
+      actions: formData.actions.map((a, i) => i === index ? action : a)
+    });
+  };
+
+  const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+
+  const renderActionInput = (action: AutomationAction, index: number) => {
+    switch (action.type) {
+      case 'assign_user':
+        return (
+          <select
+            value={action.user_id}
+            onChange={(e) => updateAction(index, { ...action, user_id: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Select user...</option>
+            {users.map(u => (
+              <option key={u.id} value={u.id}>{u.email}</option>
+            ))}
+          </select>
+        );
+      case 'set_priority':
+        return (
+          <select
+            value={action.priority}
+            onChange={(e) => updateAction(index, { ...action, priority: e.target.value as Task['priority'] })}
+            className={inputClassName}
+          >
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+        );
+      case 'move_to_column':
+        return (
+          <select
+            value={action.status}
+            onChange={(e) => updateAction(index, { ...action, status: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Select column...</option>
+            {sortedColumns.map(column => (
+              <option key={column.id} value={column.key}>{column.name}</option>
+            ))}
+          </select>
+        );
+      case 'add_checklist':
+        return (
+          <textarea
+            value={action.items.join('\n')}
+            onChange={(e) => updateAction(index, { ...action, items: e.target.value.split('\n') })}
+            rows={3}
+            placeholder="One item per line"
+            className={inputClassName}
+          />
+        );
+      case 'link_sop':
+        return (
+          <select
+            value={action.sop_id}
+            onChange={(e) => updateAction(index, { ...action, sop_id: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Select SOP...</option>
+            {sops.map(sop => (
+              <option key={sop.id} value={sop.id}>{sop.title}</option>
+            ))}
+          </select>
+        );
+      case 'post_comment':
+        return (
+          <textarea
+            value={action.content}
+            onChange={(e) => updateAction(index, { ...action, content: e.target.value })}
+            rows={2}
+            placeholder="Posted as you"
+            className={inputClassName}
+          />
+        );
+      case 'notify':
+        return (
+          <>
+            <select
+              value={action.user_id || ''}
+              onChange={(e) => updateAction(index, { ...action, user_id: e.target.value || null })}
+              className={inputClassName}
+            >
+              <option value="">The task's assignee</option>
+              {users.map(u => (
+                <option key={u.id} value={u.id}>{u.email}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={action.message}
+              onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+              placeholder="Message"
+              className={inputClassName}
+            />
+          </>
+        );
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="mx-auto max-w-2xl w-full bg-white rounded-xl shadow-lg max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              Automations
+            </Dialog.Title>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : rules.length > 0 ? (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {rules.map(rule => (
+                  <li key={rule.id} className="px-3 py-2">
+                    <div className="flex items-center justify-between">
+                      <div className="min-w-0">
+                        <p className={`text-sm font-medium truncate ${rule.is_enabled ? 'text-gray-900' : 'text-gray-400'}`}>
+                          {rule.name}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {describeAutomationTrigger(rule, columns)}
+                          {' → '}
+                          {rule.actions.map(action => getAutomationActionLabel(action.type)).join(', ')}
+                          {rule.board_id === null && ' · All boards'}
+                          {!rule.is_enabled && ' · Paused'}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => handleToggleHistory(rule.id)}
+                          className="p-1 text-gray-400 hover:text-gray-600"
+                          title="History"
+                        >
+                          <History className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleToggleEnabled(rule)}
+                          className="p-1 text-gray-400 hover:text-gray-600"
+                          title={rule.is_enabled ? 'Pause' : 'Resume'}
+                        >
+                          <Power className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => startEditing(rule)}
+                          className="p-1 text-gray-400 hover:text-gray-600"
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(rule)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+
+                    {historyRuleId === rule.id && (
+                      <div className="mt-2 rounded-md bg-gray-50 p-2">
+                        {runs.length > 0 ? (
+                          <ul className="space-y-1">
+                            {runs.map(run => (
+                              <li key={run.id} className="flex items-start justify-between gap-4 text-xs">
+                                <span className="min-w-0">
+                                  <span className={run.status === 'success' ? 'text-green-700' : 'text-red-700'}>
+                                    {run.status === 'success' ? 'Ran' : 'Failed'}
+                                  </span>
+                                  {' on '}
+                                  <span className="text-gray-900">{run.task?.title || 'a deleted task'}</span>
+                                  {run.message && <span className="block text-red-700">{run.message}</span>}
+                                </span>
+                                <span className="whitespace-nowrap text-gray-500">
+                                  {format(new Date(run.created_at), 'MMM d, h:mm a')}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-xs text-gray-500">This rule hasn't run yet.</p>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">
+                No automations yet. Rules run on the server whenever their trigger happens, and every
+                change they make shows up in the task's activity.
+              </p>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4 border-t border-gray-200 pt-4">
+              <h4 className="text-sm font-medium text-gray-900">
+                {editingRule ? `Edit ${editingRule.name}` : 'New Rule'}
+              </h4>
+
+              <div>
+                <label htmlFor="rule_name" className="block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  id="rule_name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+
+              <div>
+                <label htmlFor="rule_scope" className="block text-sm font-medium text-gray-700">
+                  Applies to
+                </label>
+                <select
+                  id="rule_scope"
+                  value={formData.isClientWide ? 'client' : 'board'}
+                  onChange={(e) => setFormData({ ...formData, isClientWide: e.target.value === 'client' })}
+                  className={inputClassName}
+                >
+                  <option value="board">This board</option>
+                  <option value="client">Every board of this client</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="rule_trigger" className="block text-sm font-medium text-gray-700">
+                  When
+                </label>
+                <select
+                  id="rule_trigger"
+                  value={formData.trigger_type}
+                  onChange={(e) => handleTriggerChange(e.target.value as AutomationTriggerType)}
+                  className={inputClassName}
+                >
+                  {AUTOMATION_TRIGGERS.map(trigger => (
+                    <option key={trigger.id} value={trigger.id}>{trigger.label}</option>
+                  ))}
+                </select>
+
+                {formData.trigger_type === 'status_changed' && (
+                  <select
+                    value={formData.trigger_config.status || ''}
+                    onChange={(e) => setFormData({ ...formData, trigger_config: e.target.value ? { status: e.target.value } : {} })}
+                    className={inputClassName}
+                  >
+                    <option value="">To any column</option>
+                    {sortedColumns.map(column => (
+                      <option key={column.id} value={column.key}>To {column.name}</option>
+                    ))}
+                  </select>
+                )}
+
+                {formData.trigger_type === 'task_created' && (
+                  <input
+                    type="text"
+                    value={formData.trigger_config.tag || ''}
+                    onChange={(e) => setFormData({ ...formData, trigger_config: e.target.value ? { tag: e.target.value } : {} })}
+                    placeholder="Only with this tag (optional)"
+                    className={inputClassName}
+                  />
+                )}
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700">Then</span>
+                <div className="mt-1 space-y-3">
+                  {formData.actions.map((action, index) => (
+                    <div key={index} className="flex items-start gap-2">
+                      <div className="flex-1">
+                        <p className="text-sm text-gray-900">{getAutomationActionLabel(action.type)}</p>
+                        {renderActionInput(action, index)}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, actions: formData.actions.filter((_, i) => i !== index) })}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={newActionType}
+                      onChange={(e) => setNewActionType(e.target.value as AutomationActionType)}
+                      className="block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    >
+                      {AUTOMATION_ACTIONS.map(action => (
+                        <option key={action.id} value={action.id}>{action.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, actions: [...formData.actions, createAutomationAction(newActionType)] })}
+                      className="inline-flex items-center text-sm font-medium"
+                      style={{ color: primaryColor }}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Action
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                {editingRule && (
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={isSaving || !isComplete}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white border border-transparent rounded-md shadow-sm disabled:opacity-50"
+                  style={{ backgroundColor: primaryColor }}
+                >
+                  {isSaving ? 'Saving...' : editingRule ? 'Save Rule' : 'Add Rule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { Save, X, DollarSign } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { BillingRateScope } from '../lib/types';
+import { useAppContext } from '../lib/AppContext';
+import { setBillingRate } from '../lib/services/billingRateService';
+import { SCOPE_LABELS, RATE_ROLE_LABELS } from '../lib/billingRates';
+
+export interface BillingRateOption {
+  id: string;
+  label: string;
+}
+
+interface BillingRateFormProps {
+  agencyId: string;
+  clients: BillingRateOption[];
+  users: BillingRateOption[];
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+export function BillingRateForm({ agencyId, clients, users, onSave, onCancel }: BillingRateFormProps) {
+  const { systemSettings } = useAppContext();
+  const [scope, setScope] = useState<BillingRateScope>('agency');
+  const [clientId, setClientId] = useState('');
+  const [userId, setUserId] = useState('');
+  const [role, setRole] = useState('client_user');
+  const [taskKey, setTaskKey] = useState('');
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  const needsClient = scope === 'client' || scope === 'client_user';
+  const needsUser = scope === 'user' || scope === 'client_user';
+
+  const findTaskId = async () => {
+    const { data, error: taskError } = await supabase
+      .from('tasks')
+      .select('id')
+      .eq('task_key', taskKey.trim().toUpperCase())
+      .eq('agency_id', agencyId)
+      .maybeSingle();
+
+    if (taskError) throw taskError;
+    if (!data) throw new Error(`No task ${taskKey.trim().toUpperCase()} in this agency`);
+    return data.id as string;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const rate = parseFloat(hourlyRate);
+      if (isNaN(rate) || rate < 0) {
+        throw new Error('Hourly rate must be a number of 0 or more');
+      }
+      if (needsClient && !clientId) {
+        throw new Error('Choose a client');
+      }
+      if (needsUser && !userId) {
+        throw new Error('Choose a user');
+      }
+
+      await setBillingRate(agencyId, {
+        hourly_rate: rate,
+        effective_from: effectiveFrom,
+        task_id: scope === 'task' ? await findTaskId() : null,
+        client_id: needsClient ? clientId : null,
+        user_id: needsUser ? userId : null,
+        role: scope === 'role' ? role : null
+      });
+
+      onSave();
+    } catch (err) {
+      console.error('Error saving billing rate:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Set Billing Rate</h3>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4 mb-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="rate_scope" className="block text-sm font-medium text-gray-700">
+            Applies to
+          </label>
+          <select
+            id="rate_scope"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as BillingRateScope)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          >
+            {(Object.keys(SCOPE_LABELS) as BillingRateScope[]).map(key => (
+              <option key={key} value={key}>{SCOPE_LABELS[key]}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            The most specific rate wins: task, then client and user, then client, then user, then role, then the agency default.
+          </p>
+        </div>
+
+        {scope === 'task' && (
+          <div>
+            <label htmlFor="rate_task" className="block text-sm font-medium text-gray-700">
+              Task key
+            </label>
+            <input
+              type="text"
+              id="rate_task"
+              value={taskKey}
+              onChange={(e) => setTaskKey(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              placeholder="e.g. ACME-12"
+              required
+            />
+          </div>
+        )}
+
+        {needsClient && (
+          <div>
+            <label htmlFor="rate_client" className="block text-sm font-medium text-gray-700">
+              Client
+            </label>
+            <select
+              id="rate_client"
+              value={clientId}
+              onChange={(e) => setClientId(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="">Choose a client</option>
+              {clients.map(client => (
+                <option key={client.id} value={client.id}>{client.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {needsUser && (
+          <div>
+            <label htmlFor="rate_user" className="block text-sm font-medium text-gray-700">
+              User
+            </label>
+            <select
+              id="rate_user"
+              value={userId}
+              onChange={(e) => setUserId(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="">Choose a user</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {scope === 'role' && (
+          <div>
+            <label htmlFor="rate_role" className="block text-sm font-medium text-gray-700">
+              Role
+            </label>
+            <select
+              id="rate_role"
+              value={role}
+              onChange={(e) => setRole(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {Object.entries(RATE_ROLE_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="hourly_rate" className="block text-sm font-medium text-gray-700">
+              Hourly Rate
+            </label>
+            <div className="mt-1 relative rounded-md shadow-sm">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <DollarSign className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="number"
+                id="hourly_rate"
+                min="0"
+                step="0.01"
+                value={hourlyRate}
+                onChange={(e) => setHourlyRate(e.target.value)}
+                className="block w-full pl-10 pr-12 rounded-md border-gray-300 focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                placeholder="0.00"
+                required
+              />
+              <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                <span className="text-gray-500 sm:text-sm">/ hour</span>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="effective_from" className="block text-sm font-medium text-gray-700">
+              Effective From
+            </label>
+            <input
+              type="date"
+              id="effective_from"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              required
+            />
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Time already logged keeps the cost it was given. The rate this replaces ends the day before.
+        </p>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+          >
+            <X className="h-4 w-4 inline-block mr-1" />
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="px-4 py-2 text-sm font-medium text-white rounded-md shadow-sm disabled:opacity-50"
+            style={{ backgroundColor: primaryColor }}
+          >
+            <Save className="h-4 w-4 inline-block mr-1" />
+            {isLoading ? 'Saving...' : 'Save Rate'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
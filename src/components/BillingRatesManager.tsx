@@ -0,0 +1,237 @@
+import { useState, useEffect } from 'react';
+import { Plus, DollarSign, AlertCircle, CalendarX2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { BillingRate } from '../lib/types';
+import { useAppContext } from '../lib/AppContext';
+import { fetchBillingRates, endBillingRate } from '../lib/services/billingRateService';
+import { getBillingRateScope, SCOPE_LABELS, RATE_ROLE_LABELS } from '../lib/billingRates';
+import { BillingRateForm, BillingRateOption } from './BillingRateForm';
+
+interface BillingRatesManagerProps {
+  agencyId: string;
+}
+
+function describeRate(rate: BillingRate) {
+  switch (getBillingRateScope(rate)) {
+    case 'task':
+      return rate.task_key ? `${rate.task_key} ${rate.task_title || ''}` : rate.task_title || 'Task';
+    case 'client_user':
+      return `${rate.client_name} · ${rate.user_email}`;
+    case 'client':
+      return rate.client_name || 'Client';
+    case 'user':
+      return rate.user_email || 'User';
+    case 'role':
+      return RATE_ROLE_LABELS[rate.role || ''] || rate.role || 'Role';
+    case 'agency':
+      return 'Everyone';
+  }
+}
+
+export function BillingRatesManager({ agencyId }: BillingRatesManagerProps) {
+  const { systemSettings } = useAppContext();
+  const [rates, setRates] = useState<BillingRate[]>([]);
+  const [clients, setClients] = useState<BillingRateOption[]>([]);
+  const [users, setUsers] = useState<BillingRateOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [showPast, setShowPast] = useState(false);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  useEffect(() => {
+    fetchData();
+  }, [agencyId]);
+
+  const fetchData = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data: clientsData, error: clientsError } = await supabase
+        .from('clients')
+        .select('id, name')
+        .eq('agency_id', agencyId)
+        .order('name');
+
+      if (clientsError) throw clientsError;
+
+      const clientIds = (clientsData || []).map(client => client.id);
+      const { data: usersData, error: usersError } = await supabase
+        .from('user_roles')
+        .select('user_id, email')
+        .or(clientIds.length > 0
+          ? `agency_id.eq.${agencyId},client_id.in.(${clientIds.join(',')})`
+          : `agency_id.eq.${agencyId}`)
+        .order('email');
+
+      if (usersError) throw usersError;
+
+      setClients((clientsData || []).map(client => ({ id: client.id, label: client.name })));
+      setUsers((usersData || []).map(user => ({ id: user.user_id, label: user.email })));
+      setRates(await fetchBillingRates(agencyId));
+    } catch (err) {
+      console.error('Error fetching billing rates:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = () => {
+    setIsCreating(false);
+    fetchData();
+  };
+
+  const handleEnd = async (rate: BillingRate) => {
+    // Today's work stays at this rate; a rate that hasn't started yet only covers its first day
+    const effectiveTo = rate.effective_from > today ? rate.effective_from : today;
+    if (!window.confirm(`Stop using this rate after ${format(parseISO(effectiveTo), 'MMM d, yyyy')}?`)) return;
+
+    try {
+      setError(null);
+      await endBillingRate(rate.id, effectiveTo);
+      fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const visibleRates = showPast
+    ? rates
+    : rates.filter(rate => !rate.effective_to || rate.effective_to >= today);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2" style={{ borderColor: primaryColor }}></div>
+      </div>
+    );
+  }
+
+  if (isCreating) {
+    return (
+      <BillingRateForm
+        agencyId={agencyId}
+        clients={clients}
+        users={users}
+        onSave={handleSave}
+        onCancel={() => setIsCreating(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Billing Rates</h3>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showPast}
+              onChange={(e) => setShowPast(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 mr-2"
+            />
+            Show past rates
+          </label>
+          <button
+            onClick={() => setIsCreating(true)}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md shadow-sm text-white"
+            style={{ backgroundColor: primaryColor }}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Set Rate
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error</h3>
+              <div className="mt-2 text-sm text-red-700">{error}</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {visibleRates.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-6 text-center">
+          <DollarSign className="h-12 w-12 text-gray-400 mx-auto" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No billing rates</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Time is logged without a cost until this agency has a rate.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Scope
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Applies To
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Hourly Rate
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Effective
+                </th>
+                <th scope="col" className="relative px-6 py-3">
+                  <span className="sr-only">End</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleRates.map((rate) => {
+                const isPast = !!rate.effective_to && rate.effective_to < today;
+
+                return (
+                  <tr key={rate.id} className={isPast ? 'bg-gray-50' : undefined}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {SCOPE_LABELS[getBillingRateScope(rate)]}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {describeRate(rate)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      ${Number(rate.hourly_rate).toFixed(2)}/h
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {format(parseISO(rate.effective_from), 'MMM d, yyyy')}
+                      {' – '}
+                      {rate.effective_to ? format(parseISO(rate.effective_to), 'MMM d, yyyy') : 'ongoing'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {!rate.effective_to && (
+                        <button
+                          onClick={() => handleEnd(rate)}
+                          className="text-gray-400 hover:text-gray-600"
+                          title="End this rate"
+                        >
+                          <CalendarX2 className="h-4 w-4" />
+                          <span className="sr-only">End</span>
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
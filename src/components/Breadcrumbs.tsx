@@ -103,6 +103,8 @@ export function Breadcrumbs() {
       '/settings': 'Settings',
       '/users': 'Users',
       '/tasks': 'Tasks',
+      '/my-work': 'My Work',
+      '/timesheet': 'Timesheet',
       '/sops': 'SOPs',
       '/reports': 'Reports'
     };
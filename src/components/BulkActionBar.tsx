@@ -0,0 +1,314 @@
+import { useState, FormEvent } from 'react';
+import { CheckSquare, Trash2, X } from 'lucide-react';
+import { Board, BoardColumn, TaskBulkChanges, TaskTag } from '../lib/types';
+import { useAppContext } from '../lib/AppContext';
+
+type BulkAction = 'status' | 'priority' | 'assignee' | 'dates' | 'tags' | 'board';
+type DateMode = 'shift' | 'start_date' | 'finish_date';
+
+const ACTIONS: { id: BulkAction; label: string }[] = [
+  { id: 'status', label: 'Change status' },
+  { id: 'priority', label: 'Change priority' },
+  { id: 'assignee', label: 'Assign' },
+  { id: 'dates', label: 'Change dates' },
+  { id: 'tags', label: 'Edit tags' },
+  { id: 'board', label: 'Move to board' }
+];
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  visibleCount: number;
+  columns: BoardColumn[];
+  users: { id: string; email: string }[];
+  boards?: Board[];
+  boardId?: string;
+  tags?: TaskTag[];
+  onSelectAll: () => void;
+  onClear: () => void;
+  onApply: (changes: TaskBulkChanges) => Promise<void>;
+  onDelete?: () => Promise<void>; // Left out for roles that can't delete tasks
+}
+
+function splitTagNames(value: string): string[] {
+  return value.split(',').map(name => name.trim()).filter(Boolean);
+}
+
+export function BulkActionBar({
+  selectedCount,
+  visibleCount,
+  columns,
+  users,
+  boards = [],
+  boardId,
+  tags = [],
+  onSelectAll,
+  onClear,
+  onApply,
+  onDelete
+}: BulkActionBarProps) {
+  const { systemSettings } = useAppContext();
+  const [action, setAction] = useState<BulkAction>('status');
+  const [value, setValue] = useState('');
+  const [dateMode, setDateMode] = useState<DateMode>('shift');
+  const [removeTags, setRemoveTags] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  const otherBoards = boards.filter(board => board.id !== boardId);
+
+  const handleActionChange = (nextAction: BulkAction) => {
+    setAction(nextAction);
+    setValue('');
+    setRemoveTags('');
+    setError(null);
+  };
+
+  // Turn the chosen action into the changes sent to the server; null while the input is incomplete
+  const buildChanges = (): TaskBulkChanges | null => {
+    switch (action) {
+      case 'status':
+        return value ? { status: value } : null;
+      case 'priority':
+        return value ? { priority: value as TaskBulkChanges['priority'] } : null;
+      case 'assignee':
+        // Nothing picked yet is empty; "unassigned" clears the assignee
+        return value === '' ? null : { assigned_to: value === 'unassigned' ? null : value };
+      case 'dates':
+        if (dateMode === 'shift') {
+          const days = parseInt(value, 10);
+          return Number.isNaN(days) || days === 0 ? null : { shift_days: days };
+        }
+        // A blank date clears it
+        return { [dateMode]: value || null };
+      case 'tags': {
+        const add = splitTagNames(value);
+        const remove = splitTagNames(removeTags);
+        if (add.length === 0 && remove.length === 0) return null;
+        return {
+          ...(add.length > 0 && { add_tags: add }),
+          ...(remove.length > 0 && { remove_tags: remove })
+        };
+      }
+      case 'board':
+        return value ? { board_id: value } : null;
+    }
+  };
+
+  const changes = buildChanges();
+
+  const handleApply = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!changes) return;
+
+    setIsApplying(true);
+    setError(null);
+
+    try {
+      await onApply(changes);
+      setValue('');
+      setRemoveTags('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete || !confirm(`Move ${selectedCount} task${selectedCount === 1 ? '' : 's'} and their subtasks to the trash?`)) return;
+
+    setIsApplying(true);
+    setError(null);
+
+    try {
+      await onDelete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const inputClassName = 'block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+
+  const renderValueInput = () => {
+    switch (action) {
+      case 'status':
+        return (
+          <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName}>
+            <option value="">Select status...</option>
+            {[...columns].sort((a, b) => a.position - b.position).map(column => (
+              <option key={column.id} value={column.key}>{column.name}</option>
+            ))}
+          </select>
+        );
+      case 'priority':
+        return (
+          <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName}>
+            <option value="">Select priority...</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+        );
+      case 'assignee':
+        return (
+          <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName}>
+            <option value="">Select assignee...</option>
+            <option value="unassigned">Unassigned</option>
+            {users.map(user => (
+              <option key={user.id} value={user.id}>{user.email}</option>
+            ))}
+          </select>
+        );
+      case 'dates':
+        return (
+          <>
+            <select
+              value={dateMode}
+              onChange={(e) => {
+                setDateMode(e.target.value as DateMode);
+                setValue('');
+              }}
+              className={inputClassName}
+            >
+              <option value="shift">Shift both dates by</option>
+              <option value="start_date">Set start date</option>
+              <option value="finish_date">Set due date</option>
+            </select>
+            {dateMode === 'shift' ? (
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder="e.g. 7 or -2"
+                  className={`${inputClassName} w-28`}
+                />
+                <span className="text-sm text-gray-500">days</span>
+              </div>
+            ) : (
+              <input
+                type="date"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className={inputClassName}
+              />
+            )}
+          </>
+        );
+      case 'tags':
+        return (
+          <>
+            <input
+              type="text"
+              list="bulk-tag-names"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="Add tags, comma separated"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              list="bulk-tag-names"
+              value={removeTags}
+              onChange={(e) => setRemoveTags(e.target.value)}
+              placeholder="Remove tags"
+              className={inputClassName}
+            />
+            <datalist id="bulk-tag-names">
+              {tags.map(tag => (
+                <option key={tag.id} value={tag.name} />
+              ))}
+            </datalist>
+          </>
+        );
+      case 'board':
+        return (
+          <select value={value} onChange={(e) => setValue(e.target.value)} className={inputClassName}>
+            <option value="">Select board...</option>
+            {otherBoards.map(board => (
+              <option key={board.id} value={board.id}>{board.name}</option>
+            ))}
+          </select>
+        );
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-3 shadow-sm space-y-2">
+      <form onSubmit={handleApply} className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center text-sm font-medium text-gray-900">
+          <CheckSquare className="h-5 w-5 mr-2" style={{ color: primaryColor }} />
+          {selectedCount} selected
+        </div>
+        {selectedCount < visibleCount && (
+          <button
+            type="button"
+            onClick={onSelectAll}
+            className="text-sm font-medium"
+            style={{ color: primaryColor }}
+          >
+            Select all {visibleCount}
+          </button>
+        )}
+
+        <div className="h-6 border-l border-gray-200" />
+
+        <select
+          value={action}
+          onChange={(e) => handleActionChange(e.target.value as BulkAction)}
+          className={inputClassName}
+        >
+          {ACTIONS
+            .filter(option => option.id !== 'board' || otherBoards.length > 0)
+            .map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+        </select>
+
+        {renderValueInput()}
+
+        <button
+          type="submit"
+          disabled={!changes || isApplying}
+          className="px-3 py-2 text-sm font-medium text-white rounded-md disabled:opacity-50"
+          style={{ backgroundColor: primaryColor }}
+        >
+          {isApplying ? 'Applying...' : 'Apply'}
+        </button>
+
+        <div className="flex items-center gap-2 ml-auto">
+          {onDelete && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isApplying}
+              className="inline-flex items-center px-3 py-2 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClear}
+            className="p-2 text-gray-400 hover:text-gray-500"
+            title="Clear selection"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+    </div>
+  );
+}
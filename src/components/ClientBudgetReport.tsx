@@ -4,6 +4,8 @@ import { supabase } from '../lib/supabase';
 import { ClientBudget } from '../lib/types';
 import { useAppContext } from '../lib/AppContext';
 import { ChevronLeft, ChevronRight, DollarSign, Clock, AlertCircle } from 'lucide-react';
+import { fetchApprovedWeeks } from '../lib/services/timesheetService';
+import { isInApprovedWeek } from '../lib/timesheets';
 
 interface ClientBudgetReportProps {
   clientId: string;
@@ -12,6 +14,7 @@ interface ClientBudgetReportProps {
 export function ClientBudgetReport({ clientId }: ClientBudgetReportProps) {
   const { systemSettings } = useAppContext();
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [approvedOnly, setApprovedOnly] = useState(false);
   const [reportData, setReportData] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -39,7 +42,7 @@ export function ClientBudgetReport({ clientId }: ClientBudgetReportProps) {
   useEffect(() => {
     fetchBudgetReport();
     fetchCompletionData();
-  }, [clientId, currentDate]);
+  }, [clientId, currentDate, approvedOnly]);
 
   async function fetchBudgetReport() {
     try {
@@ -55,7 +58,8 @@ export function ClientBudgetReport({ clientId }: ClientBudgetReportProps) {
         {
           p_client_id: clientId,
           p_start_month: startMonth,
-          p_end_month: endMonth
+          p_end_month: endMonth,
+          p_approved_only: approvedOnly
         }
       );
 
@@ -84,16 +88,18 @@ export function ClientBudgetReport({ clientId }: ClientBudgetReportProps) {
           finish_date,
           start_date
         `)
-        .eq('client_id', clientId);
+        .eq('client_id', clientId)
+        .is('deleted_at', null);
 
       if (tasksError) throw tasksError;
 
-      // Fetch time entries for completed hours
+      // Fetch time entries for completed hours, including those of trashed tasks
       const { data: timeEntries, error: timeError } = await supabase
         .from('task_time_entries')
         .select(`
           id,
           task_id,
+          user_id,
           start_time,
           end_time,
           task:tasks!inner(
@@ -115,8 +121,16 @@ export function ClientBudgetReport({ clientId }: ClientBudgetReportProps) {
 
       if (budgetError) throw budgetError;
 
+      // Only time in approved timesheet weeks counts when the report is filtered to it
+      const approvedWeeks = approvedOnly
+        ? await fetchApprovedWeeks([...new Set(timeEntries.map(entry => entry.user_id))])
+        : [];
+      const countedEntries = approvedOnly
+        ? timeEntries.filter(entry => isInApprovedWeek(entry, approvedWeeks))
+        : timeEntries;
+
       // Calculate completed hours
-      const completedHours = timeEntries.reduce((acc, entry) => {
+      const completedHours = countedEntries.reduce((acc, entry) => {
         const duration = entry.end_time 
           ? (new Date(entry.end_time).getTime() - new Date(entry.start_time).getTime()) / (1000 * 60 * 60)
           : 0;
@@ -217,6 +231,15 @@ export function ClientBudgetReport({ clientId }: ClientBudgetReportProps) {
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-medium text-gray-900">Budget Report</h3>
         <div className="flex items-center space-x-2">
+          <label className="flex items-center mr-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={approvedOnly}
+              onChange={(e) => setApprovedOnly(e.target.checked)}
+              className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Approved time only
+          </label>
           <button
             type="button"
             onClick={handlePreviousMonth}
@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { Invoice, InvoiceGroupBy } from '../lib/types';
+import { fetchClientInvoices, createInvoice } from '../lib/services/invoiceService';
+import { formatInvoicePeriod, formatMoney, getInvoiceTitle, getInvoiceTotals } from '../lib/invoices';
+import { InvoiceEditor } from './InvoiceEditor';
+import { Plus, FileText, AlertCircle, Save, X } from 'lucide-react';
+import { format, parseISO, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { useAppContext } from '../lib/AppContext';
+
+interface ClientInvoicesProps {
+  clientId: string;
+}
+
+const STATUS_STYLES: Record<Invoice['status'], string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  issued: 'bg-green-100 text-green-800',
+  void: 'bg-gray-100 text-gray-500'
+};
+
+export function ClientInvoices({ clientId }: ClientInvoicesProps) {
+  const { systemSettings } = useAppContext();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [openInvoiceId, setOpenInvoiceId] = useState<string | null>(null);
+
+  // Default to last month, the usual billing period
+  const lastMonth = subMonths(new Date(), 1);
+  const [periodStart, setPeriodStart] = useState(format(startOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [periodEnd, setPeriodEnd] = useState(format(endOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [groupBy, setGroupBy] = useState<InvoiceGroupBy>('task');
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [clientId]);
+
+  const fetchInvoices = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setInvoices(await fetchClientInvoices(clientId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      if (periodEnd < periodStart) {
+        throw new Error('The period must end on or after its start');
+      }
+
+      const invoiceId = await createInvoice(clientId, periodStart, periodEnd, groupBy);
+      setIsCreating(false);
+      await fetchInvoices();
+      setOpenInvoiceId(invoiceId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2" style={{ borderColor: primaryColor }}></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-gray-900">Invoices</h3>
+        {!isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md shadow-sm text-white"
+            style={{ backgroundColor: primaryColor }}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New Invoice
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error</h3>
+              <div className="mt-2 text-sm text-red-700">{error}</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isCreating && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">New Draft Invoice</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            The draft takes every billable time entry in the period that isn't on another invoice yet.
+          </p>
+
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div>
+                <label htmlFor="period_start" className="block text-sm font-medium text-gray-700">
+                  From
+                </label>
+                <input
+                  type="date"
+                  id="period_start"
+                  value={periodStart}
+                  onChange={(e) => setPeriodStart(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="period_end" className="block text-sm font-medium text-gray-700">
+                  To
+                </label>
+                <input
+                  type="date"
+                  id="period_end"
+                  value={periodEnd}
+                  onChange={(e) => setPeriodEnd(e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="group_by" className="block text-sm font-medium text-gray-700">
+                  Group time by
+                </label>
+                <select
+                  id="group_by"
+                  value={groupBy}
+                  onChange={(e) => setGroupBy(e.target.value as InvoiceGroupBy)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="task">Task</option>
+                  <option value="user">Team member</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setIsCreating(false)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+                style={{ backgroundColor: primaryColor }}
+              >
+                <Save className="h-4 w-4 mr-1" />
+                {isSaving ? 'Creating...' : 'Create Draft'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {invoices.length === 0 ? (
+        !isCreating && (
+          <div className="bg-white shadow rounded-lg p-6 text-center">
+            <FileText className="h-12 w-12 text-gray-400 mx-auto" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No invoices yet</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Start a draft to bill this client's billable time for a period.
+            </p>
+          </div>
+        )
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Invoice
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Period
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Sent
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {invoices.map((invoice) => (
+                <tr
+                  key={invoice.id}
+                  onClick={() => setOpenInvoiceId(invoice.id)}
+                  className="cursor-pointer hover:bg-gray-50"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {getInvoiceTitle(invoice)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatInvoicePeriod(invoice)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[invoice.status]}`}>
+                      {invoice.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatMoney(getInvoiceTotals(invoice, invoice.lines || []).total)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {invoice.sent_at ? `${format(parseISO(invoice.sent_at), 'MMM d, yyyy')} to ${invoice.sent_to}` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {openInvoiceId && (
+        <InvoiceEditor
+          invoiceId={openInvoiceId}
+          onClose={() => setOpenInvoiceId(null)}
+          onChanged={fetchInvoices}
+        />
+      )}
+    </div>
+  );
+}
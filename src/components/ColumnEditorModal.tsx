@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { Dialog } from '@headlessui/react';
 import { X, Check, Trash2 } from 'lucide-react';
-import { BoardColumn } from '../lib/types';
+import { BoardColumn, ColumnCategory } from '../lib/types';
 import { supabase } from '../lib/supabase';
+import { COLUMN_CATEGORIES } from '../lib/workflow';
 
 interface ColumnEditorModalProps {
   column?: BoardColumn;
@@ -17,7 +18,8 @@ export function ColumnEditorModal({ column, boardId, onClose, onSave, onDelete }
     name: column?.name || '',
     key: column?.key || '',
     color: column?.color || '#94A3B8',
-    icon: column?.icon || '📋'
+    icon: column?.icon || '📋',
+    category: column?.category || 'active' as ColumnCategory
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -83,7 +85,7 @@ export function ColumnEditorModal({ column, boardId, onClose, onSave, onDelete }
   const handleDelete = async () => {
     if (!column || !onDelete) return;
     
-    if (!confirm('Are you sure you want to delete this column? All tasks in this column will be moved to the inbox.')) {
+    if (!confirm('Are you sure you want to delete this column? All tasks in this column will be moved to the first backlog column.')) {
       return;
     }
 
@@ -161,6 +163,27 @@ export function ColumnEditorModal({ column, boardId, onClose, onSave, onDelete }
               </div>
             </div>
 
+            <div>
+              <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+                Column Type
+              </label>
+              <select
+                id="category"
+                value={formData.category}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value as ColumnCategory })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                {COLUMN_CATEGORIES.map(category => (
+                  <option key={category.id} value={category.id}>
+                    {category.label} - {category.description}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                Tasks in completed columns count as done in reports and are never overdue
+              </p>
+            </div>
+
             <div>
               <label htmlFor="icon" className="block text-sm font-medium text-gray-700">
                 Column Icon
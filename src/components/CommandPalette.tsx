@@ -0,0 +1,256 @@
+import { useState, useEffect, useMemo, useRef, KeyboardEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Dialog } from '@headlessui/react';
+import { Search, CornerDownLeft } from 'lucide-react';
+import clsx from 'clsx';
+import { useCommands } from '../lib/commands';
+import { getTaskKeyPath } from '../lib/taskKeys';
+import { searchEverything, SearchResult, SearchResultKind } from '../lib/services/searchService';
+
+interface CommandPaletteProps {
+  pages: { name: string; href: string }[]; // The pages in the user's navigation
+}
+
+interface PaletteItem {
+  id: string;
+  section: string;
+  label: string;
+  hint?: string;
+  keywords?: string;
+  run: () => void | Promise<void>;
+}
+
+// How long typing has to pause before searching the server
+const SEARCH_DELAY_MS = 200;
+
+const SETTINGS_TABS = [
+  { id: 'general', label: 'General' },
+  { id: 'email', label: 'Email' },
+  { id: 'email-templates', label: 'Email templates' },
+  { id: 'email-logs', label: 'Email logs' },
+  { id: 'email-testing', label: 'Email testing' }
+];
+
+const RESULT_SECTIONS: Record<SearchResultKind, string> = {
+  client: 'Clients',
+  board: 'Boards',
+  task: 'Tasks',
+  sop: 'SOPs',
+  user: 'Users'
+};
+
+function getResultPath(result: SearchResult): string {
+  switch (result.kind) {
+    case 'client':
+      return `/clients/${result.id}`;
+    case 'board':
+      return `/tasks?client=${result.client_id}&board=${result.board_id}`;
+    case 'task':
+      return result.task_key ? getTaskKeyPath(result.task_key) : `/tasks?client=${result.client_id}&board=${result.board_id}`;
+    case 'sop':
+      return `/sops/${result.id}`;
+    case 'user':
+      return `/users?user=${result.id}`;
+  }
+}
+
+function matches(query: string, ...texts: (string | undefined)[]) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = texts.filter(Boolean).join(' ').toLowerCase();
+  return words.every(word => haystack.includes(word));
+}
+
+export function CommandPalette({ pages }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const { isPaletteOpen, closePalette, openCheatSheet, getCommands } = useCommands();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Commands are collected once per opening, from whatever is on screen underneath
+  const commands = useMemo(() => (isPaletteOpen ? getCommands() : []), [isPaletteOpen, getCommands]);
+
+  useEffect(() => {
+    if (!isPaletteOpen) {
+      setQuery('');
+      setResults([]);
+      setError(null);
+    }
+  }, [isPaletteOpen]);
+
+  useEffect(() => {
+    const term = query.trim();
+    if (term.length < 2) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let isCurrent = true;
+    setIsSearching(true);
+    const timeout = window.setTimeout(() => {
+      searchEverything(term)
+        .then(data => {
+          if (!isCurrent) return;
+          setResults(data);
+          setError(null);
+        })
+        .catch(err => {
+          if (isCurrent) setError(err instanceof Error ? err.message : 'An error occurred');
+        })
+        .finally(() => {
+          if (isCurrent) setIsSearching(false);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const items = useMemo(() => {
+    const go = (path: string) => () => navigate(path);
+    const hasSettings = pages.some(page => page.href === '/settings');
+
+    const actionItems: PaletteItem[] = [
+      ...commands.map(command => ({
+        id: `command:${command.id}`,
+        section: command.section,
+        label: command.label,
+        hint: command.shortcut,
+        run: command.run,
+        keywords: command.keywords
+      })),
+      { id: 'command:shortcuts', section: 'Help', label: 'Keyboard shortcuts', hint: '?', run: openCheatSheet, keywords: 'help cheat sheet keys' }
+    ].filter(item => matches(query, item.label, item.section, item.keywords));
+
+    const pageItems: PaletteItem[] = [
+      ...pages.map(page => ({ id: `page:${page.href}`, section: 'Go to', label: page.name, run: go(page.href) })),
+      ...(hasSettings
+        ? SETTINGS_TABS.map(tab => ({ id: `settings:${tab.id}`, section: 'Go to', label: `Settings: ${tab.label}`, run: go(`/settings?tab=${tab.id}`) }))
+        : [])
+    ].filter(item => matches(query, item.label));
+
+    const resultItems: PaletteItem[] = (Object.keys(RESULT_SECTIONS) as SearchResultKind[]).flatMap(kind =>
+      results
+        .filter(result => result.kind === kind)
+        .map(result => ({
+          id: `${kind}:${result.id}`,
+          section: RESULT_SECTIONS[kind],
+          label: result.task_key ? `${result.task_key} ${result.title}` : result.title,
+          hint: result.subtitle || undefined,
+          run: go(getResultPath(result))
+        }))
+    );
+
+    return [...actionItems, ...pageItems, ...resultItems];
+  }, [commands, pages, results, query, navigate, openCheatSheet]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [items]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runItem = async (item: PaletteItem) => {
+    closePalette();
+    try {
+      await item.run();
+    } catch (err) {
+      console.error('Error running command:', err);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && items[activeIndex]) {
+      e.preventDefault();
+      runItem(items[activeIndex]);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isPaletteOpen}
+      onClose={closePalette}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-start justify-center p-4 pt-[15vh]">
+        <Dialog.Panel className="mx-auto max-w-xl w-full bg-white rounded-xl shadow-lg overflow-hidden">
+          <Dialog.Title className="sr-only">Command palette</Dialog.Title>
+          <div className="flex items-center px-4 border-b border-gray-200">
+            <Search className="h-5 w-5 text-gray-400 flex-shrink-0" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search clients, boards, tasks, SOPs, users or run a command…"
+              className="w-full border-0 py-4 px-3 text-sm text-gray-900 placeholder-gray-400 focus:ring-0"
+            />
+            {isSearching && (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-400 flex-shrink-0"></div>
+            )}
+          </div>
+
+          {error && (
+            <div className="px-4 py-2 text-sm text-red-700 bg-red-50">{error}</div>
+          )}
+
+          <ul ref={listRef} className="max-h-96 overflow-y-auto py-2">
+            {items.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-gray-500">
+                {isSearching ? 'Searching…' : 'Nothing found'}
+              </li>
+            )}
+            {items.map((item, index) => (
+              <li key={item.id} data-index={index}>
+                {(index === 0 || items[index - 1].section !== item.section) && (
+                  <div className="px-4 pt-3 pb-1 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {item.section}
+                  </div>
+                )}
+                <button
+                  onClick={() => runItem(item)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={clsx(
+                    'flex w-full items-center justify-between px-4 py-2 text-left text-sm',
+                    index === activeIndex ? 'bg-gray-100 text-gray-900' : 'text-gray-700'
+                  )}
+                >
+                  <span className="truncate">{item.label}</span>
+                  <span className="ml-4 flex flex-shrink-0 items-center text-xs text-gray-400">
+                    {item.hint && <span className="truncate max-w-[12rem]">{item.hint}</span>}
+                    {index === activeIndex && <CornerDownLeft className="ml-2 h-3.5 w-3.5" />}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center justify-between px-4 py-2 border-t border-gray-200 text-xs text-gray-500">
+            <span>↑↓ to move · Enter to open · Esc to close</span>
+            <button onClick={openCheatSheet} className="hover:text-gray-700">
+              Press ? for shortcuts
+            </button>
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,309 @@
+import { useState, FormEvent } from 'react';
+import { Dialog } from '@headlessui/react';
+import { X, Plus, Pencil, Archive, ArchiveRestore, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+import { CustomField, CustomFieldOption, CustomFieldType } from '../lib/types';
+import { useAuthStore } from '../lib/store';
+import { useAppContext } from '../lib/AppContext';
+import { CUSTOM_FIELD_TYPES, hasFieldOptions } from '../lib/customFields';
+import { createCustomField, reorderCustomFields, updateCustomField } from '../lib/services/customFieldService';
+
+interface CustomFieldsModalProps {
+  boardId: string;
+  fields: CustomField[];
+  onClose: () => void;
+  onFieldsChanged: (fields: CustomField[]) => void;
+}
+
+const emptyForm = {
+  name: '',
+  field_type: 'text' as CustomFieldType,
+  options: [] as CustomFieldOption[]
+};
+
+export function CustomFieldsModal({ boardId, fields, onClose, onFieldsChanged }: CustomFieldsModalProps) {
+  const { user } = useAuthStore();
+  const { systemSettings } = useAppContext();
+  const [editingField, setEditingField] = useState<CustomField | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  const sortedFields = [...fields].sort((a, b) => a.position - b.position);
+
+  const startEditing = (field: CustomField) => {
+    setEditingField(field);
+    setFormData({ name: field.name, field_type: field.field_type, options: field.options });
+    setError(null);
+  };
+
+  const resetForm = () => {
+    setEditingField(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const options = hasFieldOptions(formData.field_type)
+        ? formData.options.filter(option => option.label.trim())
+        : [];
+
+      if (hasFieldOptions(formData.field_type) && options.length === 0) {
+        throw new Error('Add at least one option');
+      }
+
+      if (editingField) {
+        await updateCustomField(editingField.id, { name: formData.name.trim(), options });
+        onFieldsChanged(fields.map(field =>
+          field.id === editingField.id ? { ...field, name: formData.name.trim(), options } : field
+        ));
+      } else {
+        const field = await createCustomField(boardId, {
+          name: formData.name.trim(),
+          field_type: formData.field_type,
+          options
+        }, fields.length, user?.id);
+        onFieldsChanged([...fields, field]);
+      }
+
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleArchived = async (field: CustomField) => {
+    setError(null);
+
+    try {
+      await updateCustomField(field.id, { is_archived: !field.is_archived });
+      onFieldsChanged(fields.map(f => f.id === field.id ? { ...f, is_archived: !field.is_archived } : f));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sortedFields.length) return;
+
+    const reordered = [...sortedFields];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setError(null);
+
+    try {
+      await reorderCustomFields(reordered.map(field => field.id));
+      onFieldsChanged(reordered.map((field, position) => ({ ...field, position })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const updateOption = (index: number, updates: Partial<CustomFieldOption>) => {
+    setFormData({
+      ...formData,
+      options: formData.options.map((option, i) => i === index ? { ...option, ...updates } : option)
+    });
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="mx-auto max-w-lg w-full bg-white rounded-xl shadow-lg max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              Custom Fields
+            </Dialog.Title>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+
+            {sortedFields.length > 0 ? (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {sortedFields.map((field, index) => (
+                  <li key={field.id} className="flex items-center justify-between px-3 py-2">
+                    <div className="min-w-0">
+                      <p className={`text-sm font-medium truncate ${field.is_archived ? 'text-gray-400' : 'text-gray-900'}`}>
+                        {field.name}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {CUSTOM_FIELD_TYPES.find(type => type.id === field.field_type)?.label}
+                        {field.is_archived && ' · Archived'}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ChevronUp className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === sortedFields.length - 1}
+                        className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ChevronDown className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => startEditing(field)}
+                        className="p-1 text-gray-400 hover:text-gray-600"
+                        title="Edit"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleToggleArchived(field)}
+                        className="p-1 text-gray-400 hover:text-gray-600"
+                        title={field.is_archived ? 'Restore' : 'Archive'}
+                      >
+                        {field.is_archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">
+                No custom fields yet. Fields added here appear on every task of this board.
+              </p>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4 border-t border-gray-200 pt-4">
+              <h4 className="text-sm font-medium text-gray-900">
+                {editingField ? `Edit ${editingField.name}` : 'New Field'}
+              </h4>
+
+              <div>
+                <label htmlFor="field_name" className="block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  id="field_name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  required
+                />
+              </div>
+
+              <div>
+                <label htmlFor="field_type" className="block text-sm font-medium text-gray-700">
+                  Type
+                </label>
+                <select
+                  id="field_type"
+                  value={formData.field_type}
+                  onChange={(e) => setFormData({ ...formData, field_type: e.target.value as CustomFieldType })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-50"
+                  disabled={!!editingField}
+                >
+                  {CUSTOM_FIELD_TYPES.map(type => (
+                    <option key={type.id} value={type.id}>{type.label}</option>
+                  ))}
+                </select>
+                {editingField && (
+                  <p className="mt-1 text-sm text-gray-500">
+                    The type can't be changed once a field exists, so recorded values stay valid
+                  </p>
+                )}
+              </div>
+
+              {hasFieldOptions(formData.field_type) && (
+                <div>
+                  <span className="block text-sm font-medium text-gray-700">Options</span>
+                  <div className="mt-1 space-y-2">
+                    {formData.options.map((option, index) => (
+                      <div key={option.id} className="flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={option.color}
+                          onChange={(e) => updateOption(index, { color: e.target.value })}
+                          className="h-8 w-8 rounded border border-gray-300 cursor-pointer"
+                        />
+                        <input
+                          type="text"
+                          value={option.label}
+                          onChange={(e) => updateOption(index, { label: e.target.value })}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setFormData({ ...formData, options: formData.options.filter((_, i) => i !== index) })}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setFormData({
+                        ...formData,
+                        options: [...formData.options, { id: crypto.randomUUID(), label: '', color: '#3B82F6' }]
+                      })}
+                      className="inline-flex items-center text-sm font-medium"
+                      style={{ color: primaryColor }}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Option
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-3">
+                {editingField && (
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={isSaving || !formData.name.trim()}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white border border-transparent rounded-md shadow-sm disabled:opacity-50"
+                  style={{ backgroundColor: primaryColor }}
+                >
+                  {isSaving ? 'Saving...' : editingField ? 'Save Field' : 'Add Field'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
@@ -179,8 +179,7 @@ export function EmailTemplateEditor({ onClose }: EmailTemplateEditorProps) {
       const result = await sendTemplateEmail(
         selectedTemplate.name as any,
         testEmail,
-        testVariables,
-        systemSettings
+        testVariables
       );
       
       if (result.success) {
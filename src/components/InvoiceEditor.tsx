@@ -0,0 +1,533 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog } from '@headlessui/react';
+import { X, RefreshCw, Plus, Trash2, Download, Send, CheckCircle, Ban, Save, Clock } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useAppContext } from '../lib/AppContext';
+import { Invoice, InvoiceGroupBy } from '../lib/types';
+import {
+  fetchInvoice,
+  refreshInvoiceTime,
+  updateInvoice,
+  addInvoiceLine,
+  removeInvoiceLine,
+  issueInvoice,
+  voidInvoice,
+  deleteInvoice,
+  sendInvoice
+} from '../lib/services/invoiceService';
+import {
+  buildInvoicePdf,
+  formatInvoicePeriod,
+  formatMoney,
+  getInvoiceFileName,
+  getInvoiceTitle,
+  getInvoiceTotals
+} from '../lib/invoices';
+import { buildInvoiceCsv, downloadBlob, downloadCsv } from '../lib/export';
+
+interface InvoiceEditorProps {
+  invoiceId: string;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export function InvoiceEditor({ invoiceId, onClose, onChanged }: InvoiceEditorProps) {
+  const { systemSettings } = useAppContext();
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [groupBy, setGroupBy] = useState<InvoiceGroupBy>('task');
+  const [discountPercent, setDiscountPercent] = useState('0');
+  const [taxPercent, setTaxPercent] = useState('0');
+  const [notes, setNotes] = useState('');
+  const [newLine, setNewLine] = useState({ description: '', quantity: '1', unitPrice: '' });
+  const [sendTo, setSendTo] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+  const branding = { companyName: systemSettings?.name || 'DragonTask', primaryColor };
+
+  useEffect(() => {
+    loadInvoice();
+  }, [invoiceId]);
+
+  const loadInvoice = async () => {
+    try {
+      setError(null);
+      const data = await fetchInvoice(invoiceId);
+      setInvoice(data);
+      setGroupBy(data.group_by);
+      setDiscountPercent(Number(data.discount_percent).toString());
+      setTaxPercent(Number(data.tax_percent).toString());
+      setNotes(data.notes || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Runs an action against the invoice, then reloads it and the list behind the modal
+  const runAction = async (action: () => Promise<unknown>, successMessage?: string) => {
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      await action();
+      await loadInvoice();
+      onChanged();
+      if (successMessage) setMessage(successMessage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSaveSettings = () => {
+    const discount = parseFloat(discountPercent);
+    const tax = parseFloat(taxPercent);
+
+    if (isNaN(discount) || isNaN(tax) || discount < 0 || discount > 100 || tax < 0) {
+      setError('Discount must be between 0 and 100% and tax cannot be negative');
+      return;
+    }
+
+    runAction(
+      () => updateInvoice(invoiceId, { group_by: groupBy, discount_percent: discount, tax_percent: tax, notes }),
+      'Invoice saved'
+    );
+  };
+
+  const handleAddLine = (e: React.FormEvent) => {
+    e.preventDefault();
+    const quantity = parseFloat(newLine.quantity);
+    const unitPrice = parseFloat(newLine.unitPrice);
+
+    if (!newLine.description.trim() || isNaN(quantity) || isNaN(unitPrice)) {
+      setError('A line needs a description, a quantity and a unit price');
+      return;
+    }
+
+    runAction(async () => {
+      await addInvoiceLine(invoiceId, newLine.description.trim(), quantity, unitPrice);
+      setNewLine({ description: '', quantity: '1', unitPrice: '' });
+    });
+  };
+
+  const handleIssue = () => {
+    if (!window.confirm('Issue this invoice? It gets the next invoice number and can no longer be changed.')) return;
+    runAction(() => issueInvoice(invoiceId), 'Invoice issued');
+  };
+
+  const handleVoid = () => {
+    if (!window.confirm('Void this invoice? Its time entries become available for a new invoice.')) return;
+    runAction(() => voidInvoice(invoiceId), 'Invoice voided');
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this draft? Its time entries become available for a new invoice.')) return;
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      await deleteInvoice(invoiceId);
+      onChanged();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      setIsWorking(false);
+    }
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invoice || !sendTo.trim()) return;
+    runAction(() => sendInvoice(invoice, sendTo.trim(), branding), `Invoice sent to ${sendTo.trim()}`);
+  };
+
+  const lines = invoice?.lines || [];
+  const totals = invoice ? getInvoiceTotals(invoice, lines) : null;
+  const isDraft = invoice?.status === 'draft';
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="mx-auto max-w-4xl w-full bg-white rounded-xl shadow-lg max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <div>
+              <Dialog.Title className="text-lg font-semibold text-gray-900">
+                {invoice ? `${getInvoiceTitle(invoice)} · ${invoice.client?.name || ''}` : 'Invoice'}
+              </Dialog.Title>
+              {invoice && (
+                <p className="text-sm text-gray-500">
+                  {formatInvoicePeriod(invoice)}
+                  {invoice.issued_at && ` · Issued ${format(parseISO(invoice.issued_at), 'MMM d, yyyy')}`}
+                  {invoice.status === 'void' && ' · Void'}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+
+            {message && (
+              <div className="rounded-md bg-green-50 p-4">
+                <div className="flex items-center text-sm text-green-700">
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  {message}
+                </div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2" style={{ borderColor: primaryColor }}></div>
+              </div>
+            ) : invoice && totals && (
+              <>
+                {isDraft && (
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                    <div>
+                      <label htmlFor="invoice_group_by" className="block text-sm font-medium text-gray-700">
+                        Group time by
+                      </label>
+                      <select
+                        id="invoice_group_by"
+                        value={groupBy}
+                        onChange={(e) => setGroupBy(e.target.value as InvoiceGroupBy)}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      >
+                        <option value="task">Task</option>
+                        <option value="user">Team member</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="invoice_discount" className="block text-sm font-medium text-gray-700">
+                        Discount (%)
+                      </label>
+                      <input
+                        type="number"
+                        id="invoice_discount"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={discountPercent}
+                        onChange={(e) => setDiscountPercent(e.target.value)}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="invoice_tax" className="block text-sm font-medium text-gray-700">
+                        Tax (%)
+                      </label>
+                      <input
+                        type="number"
+                        id="invoice_tax"
+                        min="0"
+                        step="0.01"
+                        value={taxPercent}
+                        onChange={(e) => setTaxPercent(e.target.value)}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div className="sm:col-span-3">
+                      <label htmlFor="invoice_notes" className="block text-sm font-medium text-gray-700">
+                        Notes
+                      </label>
+                      <textarea
+                        id="invoice_notes"
+                        rows={2}
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        placeholder="Payment terms, bank details..."
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div className="sm:col-span-3 flex justify-end space-x-3">
+                      <button
+                        type="button"
+                        onClick={() => runAction(() => refreshInvoiceTime(invoiceId), 'Time refreshed')}
+                        disabled={isWorking}
+                        className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                        title="Add billable time logged in the period since this draft was started"
+                      >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        Refresh Time
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleSaveSettings}
+                        disabled={isWorking}
+                        className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+                        style={{ backgroundColor: primaryColor }}
+                      >
+                        <Save className="h-4 w-4 mr-1" />
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="border border-gray-200 rounded-md overflow-hidden">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Description
+                        </th>
+                        <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Hours / Qty
+                        </th>
+                        <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Unit Price
+                        </th>
+                        <th scope="col" className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Amount
+                        </th>
+                        {isDraft && (
+                          <th scope="col" className="relative px-4 py-2">
+                            <span className="sr-only">Remove</span>
+                          </th>
+                        )}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {lines.length === 0 && (
+                        <tr>
+                          <td colSpan={isDraft ? 5 : 4} className="px-4 py-6 text-center text-sm text-gray-500">
+                            No billable time in this period yet. Add a line or refresh the time.
+                          </td>
+                        </tr>
+                      )}
+                      {lines.map(line => (
+                        <tr key={line.id}>
+                          <td className="px-4 py-2 text-sm text-gray-900">
+                            <div className="flex items-center">
+                              {line.kind === 'time' && <Clock className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />}
+                              {line.description}
+                            </div>
+                          </td>
+                          <td className="px-4 py-2 text-sm text-gray-500 text-right">{Number(line.quantity).toFixed(2)}</td>
+                          <td className="px-4 py-2 text-sm text-gray-500 text-right">{formatMoney(Number(line.unit_price))}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900 text-right">{formatMoney(Number(line.amount))}</td>
+                          {isDraft && (
+                            <td className="px-4 py-2 text-right">
+                              {line.kind === 'manual' && (
+                                <button
+                                  onClick={() => runAction(() => removeInvoiceLine(line.id))}
+                                  disabled={isWorking}
+                                  className="text-gray-400 hover:text-red-600"
+                                  title="Remove line"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              )}
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {isDraft && (
+                  <form onSubmit={handleAddLine} className="flex flex-wrap items-end gap-2">
+                    <div className="flex-1 min-w-[12rem]">
+                      <label htmlFor="line_description" className="block text-xs font-medium text-gray-700">
+                        Description
+                      </label>
+                      <input
+                        type="text"
+                        id="line_description"
+                        value={newLine.description}
+                        onChange={(e) => setNewLine({ ...newLine, description: e.target.value })}
+                        placeholder="Hosting, licences, expenses..."
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div className="w-24">
+                      <label htmlFor="line_quantity" className="block text-xs font-medium text-gray-700">
+                        Qty
+                      </label>
+                      <input
+                        type="number"
+                        id="line_quantity"
+                        step="0.01"
+                        value={newLine.quantity}
+                        onChange={(e) => setNewLine({ ...newLine, quantity: e.target.value })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div className="w-32">
+                      <label htmlFor="line_unit_price" className="block text-xs font-medium text-gray-700">
+                        Unit Price ($)
+                      </label>
+                      <input
+                        type="number"
+                        id="line_unit_price"
+                        step="0.01"
+                        value={newLine.unitPrice}
+                        onChange={(e) => setNewLine({ ...newLine, unitPrice: e.target.value })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={isWorking}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Line
+                    </button>
+                  </form>
+                )}
+
+                <div className="flex justify-end">
+                  <dl className="w-64 space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <dt className="text-gray-500">Subtotal</dt>
+                      <dd className="text-gray-900">{formatMoney(totals.subtotal)}</dd>
+                    </div>
+                    {totals.discount > 0 && (
+                      <div className="flex justify-between">
+                        <dt className="text-gray-500">Discount ({Number(invoice.discount_percent)}%)</dt>
+                        <dd className="text-gray-900">{formatMoney(-totals.discount)}</dd>
+                      </div>
+                    )}
+                    {Number(invoice.tax_percent) > 0 && (
+                      <div className="flex justify-between">
+                        <dt className="text-gray-500">Tax ({Number(invoice.tax_percent)}%)</dt>
+                        <dd className="text-gray-900">{formatMoney(totals.tax)}</dd>
+                      </div>
+                    )}
+                    <div className="flex justify-between border-t border-gray-200 pt-1 font-semibold">
+                      <dt className="text-gray-900">Total</dt>
+                      <dd className="text-gray-900">{formatMoney(totals.total)}</dd>
+                    </div>
+                  </dl>
+                </div>
+
+                {!isDraft && invoice.notes && (
+                  <p className="text-sm text-gray-500 whitespace-pre-line">{invoice.notes}</p>
+                )}
+
+                {invoice.status === 'issued' && (
+                  <form onSubmit={handleSend} className="flex items-end gap-2 border-t border-gray-200 pt-4">
+                    <div className="flex-1">
+                      <label htmlFor="invoice_send_to" className="block text-sm font-medium text-gray-700">
+                        Email to
+                      </label>
+                      <input
+                        type="email"
+                        id="invoice_send_to"
+                        value={sendTo}
+                        onChange={(e) => setSendTo(e.target.value)}
+                        placeholder="billing@client.com"
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        required
+                      />
+                      {invoice.sent_at && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          Last sent {format(parseISO(invoice.sent_at), 'MMM d, yyyy')} to {invoice.sent_to}
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={isWorking}
+                      className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+                      style={{ backgroundColor: primaryColor }}
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      {isWorking ? 'Sending...' : 'Send'}
+                    </button>
+                  </form>
+                )}
+              </>
+            )}
+          </div>
+
+          {invoice && (
+            <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 bg-gray-50">
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={() => downloadBlob(getInvoiceFileName(invoice, 'pdf'), buildInvoicePdf(invoice, lines, branding))}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  PDF
+                </button>
+                <button
+                  type="button"
+                  onClick={() => downloadCsv(getInvoiceFileName(invoice, 'csv'), buildInvoiceCsv(invoice, lines))}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  CSV
+                </button>
+              </div>
+              <div className="flex space-x-2">
+                {isDraft && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={handleDelete}
+                      disabled={isWorking}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-red-600 bg-white hover:bg-red-50 disabled:opacity-50"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete Draft
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleIssue}
+                      disabled={isWorking || lines.length === 0}
+                      className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+                      style={{ backgroundColor: primaryColor }}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Issue Invoice
+                    </button>
+                  </>
+                )}
+                {invoice.status === 'issued' && (
+                  <button
+                    type="button"
+                    onClick={handleVoid}
+                    disabled={isWorking}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-red-600 bg-white hover:bg-red-50 disabled:opacity-50"
+                  >
+                    <Ban className="h-4 w-4 mr-1" />
+                    Void
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
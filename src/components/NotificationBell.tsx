@@ -140,6 +140,8 @@ export function NotificationBell() {
       window.location.href = `/tasks?taskId=${notification.data.task_id}`;
     } else if (notification.type === 'sop_approved' && notification.data.sop_id) {
       window.location.href = `/sops/${notification.data.sop_id}`;
+    } else if (notification.type === 'timesheet_reviewed' && notification.data.week_start) {
+      window.location.href = `/timesheet?week=${notification.data.week_start}`;
     }
     handleMarkAsRead(notification.id);
   }
@@ -154,6 +156,8 @@ export function NotificationBell() {
         return '⏰';
       case 'sop_approved':
         return '✅';
+      case 'timesheet_reviewed':
+        return '🗓️';
       default:
         return '📬';
     }
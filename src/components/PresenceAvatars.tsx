@@ -0,0 +1,37 @@
+import { BoardViewer } from '../lib/hooks/useBoardSync';
+
+interface PresenceAvatarsProps {
+  viewers: BoardViewer[];
+  max?: number; // Avatars shown before the rest are summed up as "+N"
+}
+
+export function PresenceAvatars({ viewers, max = 5 }: PresenceAvatarsProps) {
+  if (viewers.length === 0) return null;
+
+  const shown = viewers.slice(0, max);
+  const hidden = viewers.slice(max);
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {shown.map(viewer => (
+        <div
+          key={viewer.user_id}
+          className="h-8 w-8 rounded-full bg-gray-200 flex items-center justify-center ring-2 ring-white"
+          title={`${viewer.email} is viewing`}
+        >
+          <span className="text-sm font-medium text-gray-600">
+            {(viewer.email[0] || '?').toUpperCase()}
+          </span>
+        </div>
+      ))}
+      {hidden.length > 0 && (
+        <div
+          className="h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center ring-2 ring-white"
+          title={hidden.map(viewer => viewer.email).join(', ')}
+        >
+          <span className="text-xs font-medium text-gray-500">+{hidden.length}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ import {
 } from 'lucide-react';
 import { useAppContext } from '../lib/AppContext';
 import { GoogleDocsPasteHandler } from './GoogleDocsPasteHandler';
+import { TaskKeyLinks } from './TaskKeyLinks';
 import { logDebugEvent, DebugLevel, DebugEventType } from '../lib/debugSystem';
 
 interface RichTextEditorProps {
@@ -72,6 +73,8 @@ export function RichTextEditor({ content, onChange, placeholder = 'Start writing
       }),
       // Add the Google Docs paste handler
       GoogleDocsPasteHandler,
+      // Link `#ACME-142` task references
+      TaskKeyLinks,
     ],
     content,
     editable: !readOnly,
@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Square, Timer } from 'lucide-react';
+import { useAppContext } from '../lib/AppContext';
+import { useRunningTimer, formatElapsed } from '../lib/runningTimer';
+import { getTaskKeyPath } from '../lib/taskKeys';
+import { TimerPrompts } from './TimerPrompts';
+
+export function RunningTimerIndicator() {
+  const { systemSettings } = useAppContext();
+  const { timer, isBusy, stop } = useRunningTimer();
+  const [now, setNow] = useState(() => new Date());
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  useEffect(() => {
+    if (!timer) return;
+
+    setNow(new Date());
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [timer?.id]);
+
+  const handleStop = async () => {
+    try {
+      setError(null);
+      await stop();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <>
+      {timer && (
+        <div
+          className="flex items-center space-x-2 rounded-full border px-3 py-1 text-sm"
+          style={{ borderColor: primaryColor }}
+          title={error || undefined}
+        >
+          <Timer className="h-4 w-4 animate-pulse" style={{ color: primaryColor }} />
+          <span className="font-mono text-gray-900">{formatElapsed(timer.start_time, now)}</span>
+          <Link
+            to={timer.task_key ? getTaskKeyPath(timer.task_key) : '/my-work'}
+            className="hidden lg:inline max-w-[12rem] truncate text-gray-600 hover:underline"
+          >
+            {timer.task_key && <span className="font-mono text-gray-500 mr-1">{timer.task_key}</span>}
+            {timer.task_title}
+          </Link>
+          <button
+            onClick={handleStop}
+            disabled={isBusy}
+            className={error ? 'text-red-600' : 'text-gray-400 hover:text-gray-600 disabled:opacity-50'}
+            title={error ? `Couldn't stop the timer: ${error}` : 'Stop timer'}
+          >
+            <Square className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      <TimerPrompts />
+    </>
+  );
+}
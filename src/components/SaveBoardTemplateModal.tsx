@@ -0,0 +1,155 @@
+import { useState, FormEvent } from 'react';
+import { Dialog } from '@headlessui/react';
+import { X, LayoutTemplate } from 'lucide-react';
+import { SopAccessLevel } from '../lib/types';
+import { useAuthStore } from '../lib/store';
+import { useAppContext } from '../lib/AppContext';
+import { createTemplateFromBoard } from '../lib/services/templateService';
+
+interface SaveBoardTemplateModalProps {
+  boardId: string;
+  clientId: string;
+  agencyId: string;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+export function SaveBoardTemplateModal({ boardId, clientId, agencyId, onClose, onSaved }: SaveBoardTemplateModalProps) {
+  const { user, role, systemId } = useAuthStore();
+  const { systemSettings } = useAppContext();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [accessLevel, setAccessLevel] = useState<SopAccessLevel>(
+    role === 'system_admin' || role === 'agency_admin' ? 'agency' : 'client'
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await createTemplateFromBoard(boardId, {
+        name: name.trim(),
+        description: description.trim() || null,
+        access_level: accessLevel,
+        system_id: systemId,
+        agency_id: agencyId,
+        client_id: clientId
+      }, user?.id);
+
+      onSaved?.();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="mx-auto max-w-md w-full bg-white rounded-xl shadow-lg">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              Save Board as Template
+            </Dialog.Title>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+
+            <p className="text-sm text-gray-500">
+              Columns, tasks, estimates, checklists and linked SOPs are saved. Task dates are stored
+              relative to the earliest date on the board.
+            </p>
+
+            <div>
+              <label htmlFor="template_name" className="block text-sm font-medium text-gray-700">
+                Template Name
+              </label>
+              <input
+                type="text"
+                id="template_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="template_description" className="block text-sm font-medium text-gray-700">
+                Description
+              </label>
+              <textarea
+                id="template_description"
+                rows={3}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="template_access_level" className="block text-sm font-medium text-gray-700">
+                Available To
+              </label>
+              <select
+                id="template_access_level"
+                value={accessLevel}
+                onChange={(e) => setAccessLevel(e.target.value as SopAccessLevel)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                {role === 'system_admin' && systemId && <option value="system">Every agency in the system</option>}
+                {(role === 'system_admin' || role === 'agency_admin') && <option value="agency">Every client in this agency</option>}
+                <option value="client">This client only</option>
+              </select>
+            </div>
+
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || !name.trim()}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white border border-transparent rounded-md shadow-sm disabled:opacity-50"
+                style={{ backgroundColor: primaryColor }}
+              >
+                <LayoutTemplate className="w-4 h-4 mr-2" />
+                {isSaving ? 'Saving...' : 'Save Template'}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
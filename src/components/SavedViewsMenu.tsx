@@ -0,0 +1,251 @@
+import { useState, useEffect, useRef, FormEvent } from 'react';
+import { Bookmark, ChevronDown, Check, Link2, Trash2, Users, Save } from 'lucide-react';
+import { BoardViewState, SavedView } from '../lib/types';
+import { useAuthStore } from '../lib/store';
+import { useAppContext } from '../lib/AppContext';
+import { isSameViewState } from '../lib/viewState';
+import { createSavedView, deleteSavedView, updateSavedView } from '../lib/services/savedViewService';
+
+interface SavedViewsMenuProps {
+  boardId: string;
+  views: SavedView[];
+  activeViewId: string | null;
+  currentState: BoardViewState;
+  onSelectView: (view: SavedView | null) => void;
+  onViewsChanged: (views: SavedView[]) => void;
+}
+
+export function SavedViewsMenu({
+  boardId,
+  views,
+  activeViewId,
+  currentState,
+  onSelectView,
+  onViewsChanged
+}: SavedViewsMenuProps) {
+  const { user } = useAuthStore();
+  const { systemSettings } = useAppContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  const activeView = views.find(view => view.id === activeViewId) || null;
+  const isModified = !!activeView && !isSameViewState(activeView.state, currentState);
+  const personalViews = views.filter(view => !view.is_shared);
+  const sharedViews = views.filter(view => view.is_shared);
+
+  // Close the menu when clicking outside of it
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const handleSaveNew = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user || !newName.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const view = await createSavedView(boardId, newName.trim(), currentState, isShared, user.id);
+      onViewsChanged([...views, view].sort((a, b) => a.name.localeCompare(b.name)));
+      onSelectView(view);
+      setNewName('');
+      setIsShared(false);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!activeView) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await updateSavedView(activeView.id, { state: currentState });
+      onViewsChanged(views.map(view => view.id === activeView.id ? { ...view, state: currentState } : view));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+
+    setError(null);
+
+    try {
+      await deleteSavedView(view.id);
+      onViewsChanged(views.filter(v => v.id !== view.id));
+      if (view.id === activeViewId) {
+        onSelectView(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  // The URL always mirrors the current slice, so sharing it works for unsaved changes too
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const renderViewList = (title: string, list: SavedView[]) => (
+    <div className="py-1">
+      <p className="px-4 py-1 text-xs font-medium text-gray-500 uppercase tracking-wider">{title}</p>
+      {list.map(view => (
+        <div key={view.id} className="flex items-center justify-between px-4 py-2 hover:bg-gray-100">
+          <button
+            type="button"
+            onClick={() => {
+              onSelectView(view);
+              setIsOpen(false);
+            }}
+            className="flex items-center min-w-0 text-sm text-gray-700 text-left"
+          >
+            {view.id === activeViewId
+              ? <Check className="h-4 w-4 mr-2 flex-shrink-0" style={{ color: primaryColor }} />
+              : <span className="w-4 mr-2 flex-shrink-0" />}
+            <span className="truncate">{view.name}</span>
+            {view.is_shared && <Users className="h-3.5 w-3.5 ml-2 text-gray-400 flex-shrink-0" />}
+          </button>
+          {view.created_by === user?.id && (
+            <button
+              type="button"
+              onClick={() => handleDelete(view)}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Delete view"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="relative" ref={menuRef}>
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="inline-flex items-center gap-x-1.5 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+        >
+          <Bookmark className="-ml-0.5 h-5 w-5 text-gray-400" />
+          {activeView ? activeView.name : 'All tasks'}
+          {isModified && <span className="text-xs font-normal text-gray-500">(edited)</span>}
+          <ChevronDown className="h-4 w-4 ml-1" />
+        </button>
+
+        {isOpen && (
+          <div className="absolute left-0 mt-2 w-72 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none z-20 divide-y divide-gray-100">
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+
+            <div className="py-1">
+              <button
+                type="button"
+                onClick={() => {
+                  onSelectView(null);
+                  setIsOpen(false);
+                }}
+                className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+              >
+                {!activeViewId
+                  ? <Check className="h-4 w-4 mr-2" style={{ color: primaryColor }} />
+                  : <span className="w-4 mr-2" />}
+                All tasks
+              </button>
+            </div>
+
+            {personalViews.length > 0 && renderViewList('My views', personalViews)}
+            {sharedViews.length > 0 && renderViewList('Shared views', sharedViews)}
+
+            {isModified && activeView?.created_by === user?.id && (
+              <div className="p-3">
+                <button
+                  type="button"
+                  onClick={handleUpdate}
+                  disabled={isSaving}
+                  className="inline-flex items-center text-sm font-medium disabled:opacity-50"
+                  style={{ color: primaryColor }}
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  Update "{activeView.name}"
+                </button>
+              </div>
+            )}
+
+            <form onSubmit={handleSaveNew} className="p-3 space-y-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Save current view as..."
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+              <div className="flex items-center justify-between">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={isShared}
+                    onChange={(e) => setIsShared(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2"
+                  />
+                  Share with everyone on this client
+                </label>
+                <button
+                  type="submit"
+                  disabled={isSaving || !newName.trim()}
+                  className="px-3 py-1 text-sm text-white rounded-md disabled:opacity-50"
+                  style={{ backgroundColor: primaryColor }}
+                >
+                  Save
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleCopyLink}
+        className="inline-flex items-center gap-x-1.5 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+        title="Copy a link to exactly this view"
+      >
+        <Link2 className="-ml-0.5 h-5 w-5 text-gray-400" />
+        {linkCopied ? 'Copied' : 'Copy link'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Dialog } from '@headlessui/react';
+import { X } from 'lucide-react';
+import { useCommands, GLOBAL_SHORTCUTS, BOARD_SHORTCUTS, Shortcut } from '../lib/commands';
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+function ShortcutList({ title, shortcuts }: { title: string; shortcuts: Shortcut[] }) {
+  return (
+    <div>
+      <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{title}</h3>
+      <dl className="space-y-2">
+        {shortcuts.map(shortcut => (
+          <div key={shortcut.description} className="flex items-center justify-between text-sm">
+            <dt className="text-gray-700">{shortcut.description}</dt>
+            <dd className="flex items-center space-x-1">
+              {shortcut.keys.map(key => (
+                <kbd
+                  key={key}
+                  className="min-w-[1.5rem] rounded border border-gray-300 bg-gray-50 px-1.5 py-0.5 text-center font-mono text-xs text-gray-700"
+                >
+                  {key === 'Ctrl' && isMac ? '⌘' : key}
+                </kbd>
+              ))}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+export function ShortcutCheatSheet() {
+  const { isCheatSheetOpen, closeCheatSheet } = useCommands();
+
+  return (
+    <Dialog
+      open={isCheatSheetOpen}
+      onClose={closeCheatSheet}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="mx-auto max-w-2xl w-full bg-white rounded-xl shadow-lg max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              Keyboard shortcuts
+            </Dialog.Title>
+            <button
+              onClick={closeCheatSheet}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 p-6 sm:grid-cols-2">
+            <ShortcutList title="Everywhere" shortcuts={GLOBAL_SHORTCUTS} />
+            <ShortcutList title="Task boards" shortcuts={BOARD_SHORTCUTS} />
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
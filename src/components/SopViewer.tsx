@@ -1,6 +1,8 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAppContext } from '../lib/AppContext';
 import { logComponentRender } from '../lib/debugSystem';
+import { linkTaskReferencesInHtml } from '../lib/taskKeys';
 
 interface SopViewerProps {
   content: string;
@@ -8,6 +10,8 @@ interface SopViewerProps {
 
 export function SopViewer({ content }: SopViewerProps) {
   const { systemSettings } = useAppContext();
+  const navigate = useNavigate();
+  const linkedContent = useMemo(() => linkTaskReferencesInHtml(content), [content]);
   
   // Get theme colors
   const primaryColor = systemSettings?.primary_color || '#EF4444';
@@ -15,6 +19,15 @@ export function SopViewer({ content }: SopViewerProps) {
   // Log component render
   logComponentRender('SopViewer', true, { contentLength: content?.length || 0 });
   
+  // Task links stay inside the app instead of reloading the page
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const link = (e.target as HTMLElement).closest<HTMLAnchorElement>('a[href^="/tasks?task="]');
+    if (link && !e.metaKey && !e.ctrlKey) {
+      e.preventDefault();
+      navigate(link.getAttribute('href')!);
+    }
+  };
+
   if (!content) {
     return (
       <div className="bg-gray-50 rounded-lg p-8 text-center">
@@ -34,7 +47,8 @@ export function SopViewer({ content }: SopViewerProps) {
       </div>
       <div 
         className="p-6 prose max-w-none overflow-auto max-h-[500px]"
-        dangerouslySetInnerHTML={{ __html: content }}
+        onClick={handleContentClick}
+        dangerouslySetInnerHTML={{ __html: linkedContent }}
       />
       <div className="p-4 bg-gray-50 border-t border-gray-200 text-xs text-gray-500">
         <p>This is a read-only view of the SOP content.</p>
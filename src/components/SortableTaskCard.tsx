@@ -1,15 +1,20 @@
 import React from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { Task } from '../lib/types';
+import { Task, BoardColumn } from '../lib/types';
 import { TaskCard } from './TaskCard';
+import { SubtaskProgress } from '../lib/subtasks';
 
 interface SortableTaskCardProps {
   task: Task;
+  column?: BoardColumn;
+  subtaskProgress?: SubtaskProgress;
+  isSelected?: boolean;
+  onSelect?: (taskId: string, e: React.MouseEvent) => void;
   onClick: (taskId: string) => void;
 }
 
-export function SortableTaskCard({ task, onClick }: SortableTaskCardProps) {
+export function SortableTaskCard({ task, column, subtaskProgress, isSelected, onSelect, onClick }: SortableTaskCardProps) {
   const {
     attributes,
     listeners,
@@ -32,9 +37,17 @@ export function SortableTaskCard({ task, onClick }: SortableTaskCardProps) {
       style={style}
       {...attributes}
       {...listeners}
-      className="touch-manipulation"
+      data-task-id={task.id}
+      className="touch-manipulation rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
     >
-      <TaskCard task={task} onClick={onClick} />
+      <TaskCard
+        task={task}
+        column={column}
+        subtaskProgress={subtaskProgress}
+        isSelected={isSelected}
+        onSelect={onSelect}
+        onClick={onClick}
+      />
     </div>
   );
 }
\ No newline at end of file
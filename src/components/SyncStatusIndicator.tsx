@@ -0,0 +1,147 @@
+import { useState, useEffect, useRef } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import clsx from 'clsx';
+import { useAuthStore } from '../lib/store';
+import { useSyncStatus, replayQueue, discardChange, retryChange, QueuedChange } from '../lib/syncQueue';
+
+export function SyncStatusIndicator() {
+  const { user } = useAuthStore();
+  const { isOnline, isSyncing, changes, lastSyncedAt } = useSyncStatus();
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyChangeId, setBusyChangeId] = useState<string | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    // Close dropdown when clicking outside
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const myChanges = changes.filter(change => change.userId === user?.id);
+  const pendingCount = myChanges.filter(change => change.status === 'pending').length;
+  const problems = myChanges.filter(change => change.status !== 'pending');
+
+  const handleAction = async (change: QueuedChange, action: 'discard' | 'retry') => {
+    setBusyChangeId(change.id);
+    try {
+      if (action === 'discard') {
+        await discardChange(change.id);
+      } else {
+        await retryChange(change.id, { force: change.status === 'conflict' });
+      }
+    } catch (err) {
+      console.error('Error resolving queued change:', err);
+    } finally {
+      setBusyChangeId(null);
+    }
+  };
+
+  let label = 'All changes saved';
+  if (isSyncing) {
+    label = `Syncing ${pendingCount} change${pendingCount === 1 ? '' : 's'}…`;
+  } else if (!isOnline) {
+    label = pendingCount > 0 ? `Offline · ${pendingCount} waiting` : 'Offline';
+  } else if (pendingCount > 0) {
+    label = `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting`;
+  }
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={clsx(
+          'relative flex items-center space-x-1 p-2 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500',
+          isOnline ? 'text-gray-400 hover:text-gray-500' : 'text-amber-600'
+        )}
+        title={label}
+        aria-label={label}
+      >
+        {isSyncing ? (
+          <RefreshCw className="h-5 w-5 animate-spin" />
+        ) : isOnline ? (
+          <Cloud className="h-5 w-5" />
+        ) : (
+          <CloudOff className="h-5 w-5" />
+        )}
+        {(pendingCount > 0 || !isOnline) && (
+          <span className="hidden sm:inline">{label}</span>
+        )}
+        {problems.length > 0 && (
+          <span className="absolute top-0 right-0 -mt-1 -mr-1 flex h-4 w-4 items-center justify-center rounded-full bg-red-500 text-xs font-bold text-white ring-2 ring-white">
+            {problems.length > 9 ? '9+' : problems.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 rounded-lg bg-white shadow-lg ring-1 ring-black ring-opacity-5 z-50">
+          <div className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-medium text-gray-900">Sync</h3>
+              {isOnline && pendingCount > 0 && !isSyncing && (
+                <button
+                  onClick={() => replayQueue()}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Sync now
+                </button>
+              )}
+            </div>
+            <p className="text-sm text-gray-500">
+              {isOnline ? label : "You're offline. Changes are saved on this device and sent when you're back online."}
+            </p>
+            {lastSyncedAt && (
+              <p className="text-xs text-gray-400 mt-1">
+                Last synced {formatDistanceToNow(new Date(lastSyncedAt), { addSuffix: true })}
+              </p>
+            )}
+
+            {problems.length > 0 && (
+              <div className="mt-4 space-y-3 max-h-80 overflow-y-auto">
+                {problems.map(change => (
+                  <div key={change.id} className="rounded-md border border-gray-200 p-3">
+                    <div className="flex items-start">
+                      <AlertTriangle className={clsx(
+                        'h-4 w-4 mt-0.5 mr-2 flex-shrink-0',
+                        change.status === 'conflict' ? 'text-amber-500' : 'text-red-500'
+                      )} />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium text-gray-900 truncate">{change.label}</p>
+                        <p className="text-xs text-gray-500">
+                          {change.lastError} · {formatDistanceToNow(new Date(change.createdAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="mt-2 flex justify-end space-x-2">
+                      <button
+                        onClick={() => handleAction(change, 'discard')}
+                        disabled={busyChangeId === change.id}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Discard
+                      </button>
+                      <button
+                        onClick={() => handleAction(change, 'retry')}
+                        disabled={busyChangeId === change.id}
+                        className="px-2 py-1 border border-transparent rounded-md text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {change.status === 'conflict' ? 'Apply anyway' : 'Retry'}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
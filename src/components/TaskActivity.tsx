@@ -1,7 +1,8 @@
 import React from 'react';
 import { format } from 'date-fns';
-import { History } from 'lucide-react';
+import { History, Zap } from 'lucide-react';
 import { TaskActivityType } from '../lib/types';
+import { getAutomationActionLabel } from '../lib/automations';
 
 interface TaskActivityProps {
   activities: TaskActivityType[];
@@ -15,8 +16,32 @@ export function TaskActivityList({ activities }: TaskActivityProps) {
       return 'Created the task';
     }
 
+    if (action === 'trashed') {
+      return 'Moved the task to the trash';
+    }
+
+    if (action === 'restored') {
+      return 'Restored the task from the trash';
+    }
+
     const changes: string[] = [];
-    
+
+    if (action === 'automation' && details.rule) {
+      changes.push(`Rule "${details.rule.name}" ran`);
+      // Field changes are listed below; the other steps leave no from/to to show
+      details.actions
+        ?.filter(type => !['assign_user', 'set_priority', 'move_to_column'].includes(type))
+        .forEach(type => changes.push(getAutomationActionLabel(type)));
+    }
+
+    if ((action === 'undo' || action === 'redo') && details.label) {
+      changes.push(`${action === 'undo' ? 'Undid' : 'Redid'} "${details.label}"`);
+    }
+
+    if (details.board_id) {
+      changes.push('Moved to another board');
+    }
+
     if (details.title) {
       changes.push(`Changed title from "${details.title.from}" to "${details.title.to}"`);
     }
@@ -64,7 +89,11 @@ export function TaskActivityList({ activities }: TaskActivityProps) {
                 <div className="relative flex space-x-3">
                   <div>
                     <span className="h-8 w-8 rounded-full bg-gray-400 flex items-center justify-center ring-8 ring-white">
-                      <History className="h-5 w-5 text-white" />
+                      {activity.action === 'automation' ? (
+                        <Zap className="h-5 w-5 text-white" />
+                      ) : (
+                        <History className="h-5 w-5 text-white" />
+                      )}
                     </span>
                   </div>
                   <div className="flex min-w-0 flex-1 justify-between space-x-4 pt-1.5">
@@ -74,7 +103,7 @@ export function TaskActivityList({ activities }: TaskActivityProps) {
                       </p>
                     </div>
                     <div className="whitespace-nowrap text-right text-sm text-gray-500">
-                      <div>{activity.user_email}</div>
+                      <div>{activity.action === 'automation' ? 'Automation' : activity.user_email}</div>
                       <div>{format(new Date(activity.created_at), 'MMM d, h:mm a')}</div>
                     </div>
                   </div>
@@ -7,8 +7,13 @@ import { ListView } from './views/ListView';
 import { ReportsView } from './views/ReportsView';
 import { TaskDetailsModal } from './TaskDetailsModal';
 import { supabase } from '../lib/supabase';
-import { Task, TaskBoardView, Board, BoardColumn } from '../lib/types';
+import { Task, Board, BoardColumn, CustomField, BoardViewState } from '../lib/types';
 import { useAppContext } from '../lib/AppContext';
+import { loadTaskDependencies } from '../lib/services/dependencyService';
+import { fetchCustomFields, loadTaskCustomFields } from '../lib/services/customFieldService';
+import { handleRecurringTaskCompleted } from '../lib/services/recurrenceService';
+import { getStatusCategory, isTaskCompleted } from '../lib/workflow';
+import { DEFAULT_VIEW_STATE } from '../lib/viewState';
 
 interface TaskBoardProps {
   clientId: string;
@@ -16,10 +21,11 @@ interface TaskBoardProps {
 }
 
 export function TaskBoard({ clientId, agencyId }: TaskBoardProps) {
-  const [view, setView] = useState<TaskBoardView>('kanban');
+  const [viewState, setViewState] = useState<BoardViewState>(DEFAULT_VIEW_STATE);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [boards, setBoards] = useState<Board[]>([]);
   const [columns, setColumns] = useState<BoardColumn[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
   const [selectedBoard, setSelectedBoard] = useState<string | null>(null);
   const [selectedTask, setSelectedTask] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -38,6 +44,7 @@ export function TaskBoard({ clientId, agencyId }: TaskBoardProps) {
     if (selectedBoard) {
       fetchTasks();
       fetchColumns();
+      fetchFields();
     }
   }, [selectedBoard]);
 
@@ -103,16 +110,28 @@ export function TaskBoard({ clientId, agencyId }: TaskBoardProps) {
     }
   }
 
+  async function fetchFields() {
+    if (!selectedBoard) return;
+
+    try {
+      setCustomFields(await fetchCustomFields(selectedBoard));
+    } catch (err) {
+      console.error('Error fetching custom fields:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  }
+
   async function fetchTasks() {
     if (!selectedBoard) return;
 
     try {
       setIsLoading(true);
-      
+
       const { data: tasksData, error: tasksError } = await supabase
         .from('tasks')
         .select('*')
         .eq('board_id', selectedBoard)
+        .is('deleted_at', null)
         .order('position');
 
       if (tasksError) throw tasksError;
@@ -138,9 +157,13 @@ export function TaskBoard({ clientId, agencyId }: TaskBoardProps) {
           assigned_to_email: task.assigned_to ? userEmailMap[task.assigned_to] : null
         }));
 
-        setTasks(tasksWithEmails);
+        const { tasks: tasksWithDependencies } = await loadTaskDependencies(tasksWithEmails);
+        setTasks(await loadTaskCustomFields(tasksWithDependencies));
       } else {
-        setTasks(tasksData.map(task => ({ ...task, assigned_to_email: null })));
+        const { tasks: tasksWithDependencies } = await loadTaskDependencies(
+          tasksData.map(task => ({ ...task, assigned_to_email: null }))
+        );
+        setTasks(await loadTaskCustomFields(tasksWithDependencies));
       }
     } catch (err) {
       console.error('Error fetching tasks:', err);
@@ -159,9 +182,36 @@ export function TaskBoard({ clientId, agencyId }: TaskBoardProps) {
 
       if (error) throw error;
 
-      setTasks(tasks.map(task =>
-        task.id === taskId ? { ...task, ...updates } : task
-      ));
+      // Keep status_category in step with the column the task now sits in
+      const statusCategory = updates.status ? getStatusCategory({ status: updates.status }, columns) : undefined;
+      const localUpdates = statusCategory ? { ...updates, status_category: statusCategory } : updates;
+
+      setTasks(tasks.map(task => {
+        if (task.id === taskId) {
+          return { ...task, ...localUpdates };
+        }
+        // Keep dependency badges on related tasks in sync with the new status
+        if (updates.status && task.dependencies?.some(dependency => dependency.task_id === taskId)) {
+          return {
+            ...task,
+            dependencies: task.dependencies.map(dependency =>
+              dependency.task_id === taskId
+                ? { ...dependency, status: updates.status!, status_category: statusCategory }
+                : dependency
+            )
+          };
+        }
+        return task;
+      }));
+
+      // Completing the latest occurrence of a recurring task schedules the next one
+      const updatedTask = tasks.find(task => task.id === taskId);
+      if (statusCategory === 'completed' && updatedTask?.recurrence_id && !isTaskCompleted(updatedTask, columns)) {
+        const nextOccurrence = await handleRecurringTaskCompleted(updatedTask);
+        if (nextOccurrence && nextOccurrence.board_id === selectedBoard) {
+          setTasks(currentTasks => [...currentTasks, { ...nextOccurrence, assigned_to_email: updatedTask.assigned_to_email }]);
+        }
+      }
     } catch (err) {
       console.error('Error updating task:', err);
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -225,12 +275,15 @@ export function TaskBoard({ clientId, agencyId }: TaskBoardProps) {
       boardId: selectedBoard,
       tasks,
       columns,
+      customFields,
+      viewState,
+      onViewStateChange: (updates: Partial<BoardViewState>) => setViewState({ ...viewState, ...updates }),
       onTaskUpdate: handleTaskUpdate,
       onColumnUpdate: handleColumnUpdate,
       onTaskClick: handleTaskClick
     };
 
-    switch (view) {
+    switch (viewState.view) {
       case 'kanban':
         return <KanbanView {...viewProps} />;
       case 'calendar':
@@ -249,8 +302,8 @@ export function TaskBoard({ clientId, agencyId }: TaskBoardProps) {
   return (
     <div className="space-y-6">
       <TaskBoardHeader
-        view={view}
-        onViewChange={setView}
+        view={viewState.view}
+        onViewChange={view => setViewState({ ...viewState, view })}
         onNewTask={handleNewTask}
       />
 
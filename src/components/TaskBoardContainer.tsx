@@ -1,8 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { X } from 'lucide-react';
 import { TaskBoardHeader } from './TaskBoardHeader';
 import { TaskDetailsModal } from './TaskDetailsModal';
-import { Task, TaskBoardView, Board, BoardColumn } from '../lib/types';
+import { SaveBoardTemplateModal } from './SaveBoardTemplateModal';
+import { CustomFieldsModal } from './CustomFieldsModal';
+import { AutomationRulesModal } from './AutomationRulesModal';
+import { TrashModal } from './TrashModal';
+import { SavedViewsMenu } from './SavedViewsMenu';
+import { Task, Board, BoardColumn, CustomField, BoardViewState, SavedView, TaskBulkChanges, TaskTag } from '../lib/types';
 import { useAppContext } from '../lib/AppContext';
+import { useAuthStore, canDeleteTasks } from '../lib/store';
+import { useUndoHistory, recordTaskEdit, describeTask } from '../lib/undoHistory';
+import { useBoardSync, BoardChange, SyncedTable } from '../lib/hooks/useBoardSync';
+import { useSyncStatus } from '../lib/syncQueue';
+import { useRunningTimer } from '../lib/runningTimer';
+import { Command } from '../lib/commands';
+import { useRegisterCommands, useBoardShortcuts } from '../lib/hooks/useCommands';
 import { 
   fetchBoards, 
   createDefaultBoard, 
@@ -11,6 +25,21 @@ import {
   updateTask,
   updateColumn
 } from './TaskBoardService';
+import { loadTaskDependencies } from '../lib/services/dependencyService';
+import { fetchCustomFields, loadTaskCustomFields } from '../lib/services/customFieldService';
+import { handleRecurringTaskCompleted } from '../lib/services/recurrenceService';
+import { fetchSavedViews } from '../lib/services/savedViewService';
+import { restoreTasks } from '../lib/services/trashService';
+import { resolveTaskKey } from '../lib/services/taskService';
+import {
+  bulkUpdateTasks,
+  deleteTasks,
+  fetchClientTaskTags,
+  loadTaskTags,
+  undoTaskBatch
+} from '../lib/services/bulkTaskService';
+import { DEFAULT_VIEW_STATE, viewStateFromSearchParams, viewStateToSearchParams } from '../lib/viewState';
+import { getStatusCategory, isTaskCompleted } from '../lib/workflow';
 import { KanbanView } from './views/KanbanView';
 import { CalendarView } from './views/CalendarView';
 import { GanttView } from './views/GanttView';
@@ -23,22 +52,47 @@ interface TaskBoardContainerProps {
 }
 
 export function TaskBoardContainer({ clientId, agencyId }: TaskBoardContainerProps) {
-  const [view, setView] = useState<TaskBoardView>('kanban');
+  const [searchParams, setSearchParams] = useSearchParams();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [boards, setBoards] = useState<Board[]>([]);
   const [columns, setColumns] = useState<BoardColumn[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [tags, setTags] = useState<TaskTag[]>([]);
   const [selectedBoard, setSelectedBoard] = useState<string | null>(null);
   const [selectedTask, setSelectedTask] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+  const [isFieldsModalOpen, setIsFieldsModalOpen] = useState(false);
+  const [isAutomationsModalOpen, setIsAutomationsModalOpen] = useState(false);
+  const [isTrashModalOpen, setIsTrashModalOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // A change that failed to save; unlike `error` it leaves the board usable
+  const [updateError, setUpdateError] = useState<string | null>(null);
+  // Latest change someone else made to the comments or checklist of the open task
+  const [openTaskChange, setOpenTaskChange] = useState<{ table: SyncedTable; at: number } | null>(null);
+  // Tasks with a save from here in flight; changes streamed in for them would be stale
+  const savingTaskIds = useRef(new Set<string>());
   const { systemSettings } = useAppContext();
+  const { role, user } = useAuthStore();
+  const undoRevision = useUndoHistory(state => state.revision);
+  const syncRevision = useSyncStatus(state => state.revision);
+  const viewers = useBoardSync(selectedBoard, isModalOpen ? selectedTask : null, handleBoardChange);
 
   // Get theme colors
   const primaryColor = systemSettings?.primary_color || '#EF4444';
 
+  // The URL is the source of truth for the current slice, so links reopen exactly what was on screen
+  const viewState = useMemo(() => viewStateFromSearchParams(searchParams), [searchParams]);
+  const activeViewId = searchParams.get('savedView');
+  const linkedTaskKey = searchParams.get('task');
+
   useEffect(() => {
     loadBoards();
+    fetchClientTaskTags(clientId)
+      .then(setTags)
+      .catch(err => console.error('Error loading task tags:', err));
   }, [clientId]);
 
   useEffect(() => {
@@ -47,6 +101,78 @@ export function TaskBoardContainer({ clientId, agencyId }: TaskBoardContainerPro
     }
   }, [selectedBoard]);
 
+  // Open the task named in the link, switching to its board when it lives on another one
+  useEffect(() => {
+    if (!linkedTaskKey || boards.length === 0) return;
+    if (isModalOpen && tasks.some(task => task.id === selectedTask && task.task_key === linkedTaskKey)) return;
+
+    let isCurrent = true;
+    resolveTaskKey(linkedTaskKey)
+      .then(match => {
+        if (!isCurrent || !match || match.client_id !== clientId) return;
+
+        if (match.board_id !== selectedBoard && boards.some(board => board.id === match.board_id)) {
+          selectBoard(match.board_id);
+        }
+        setSelectedTask(match.id);
+        setIsModalOpen(true);
+      })
+      .catch(err => console.error('Error opening linked task:', err));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [linkedTaskKey, boards]);
+
+  // Follow links to another of the client's boards, e.g. from the command palette
+  useEffect(() => {
+    const linkedBoardId = searchParams.get('board');
+    if (linkedBoardId && linkedBoardId !== selectedBoard && boards.some(board => board.id === linkedBoardId)) {
+      setSelectedBoard(linkedBoardId);
+    }
+  }, [searchParams.get('board')]);
+
+  // An undo or redo, or changes sent or dropped after being offline, may have changed anything on the board
+  useEffect(() => {
+    if ((undoRevision === 0 && syncRevision === 0) || !selectedBoard) return;
+
+    reloadTasks().catch(err => console.error('Error reloading tasks:', err));
+    fetchColumns(selectedBoard)
+      .then(setColumns)
+      .catch(err => console.error('Error reloading columns:', err));
+  }, [undoRevision, syncRevision]);
+
+  useEffect(() => {
+    if (selectedBoard && user) {
+      fetchSavedViews(selectedBoard, user.id)
+        .then(setSavedViews)
+        .catch(err => console.error('Error loading saved views:', err));
+    }
+  }, [selectedBoard, user?.id]);
+
+  const handleViewStateChange = (updates: Partial<BoardViewState>) => {
+    setSearchParams(viewStateToSearchParams({ ...viewState, ...updates }, searchParams), { replace: true });
+  };
+
+  const handleSelectSavedView = (savedView: SavedView | null) => {
+    const params = viewStateToSearchParams(savedView ? savedView.state : DEFAULT_VIEW_STATE, searchParams);
+    if (savedView) {
+      params.set('savedView', savedView.id);
+    } else {
+      params.delete('savedView');
+    }
+    setSearchParams(params);
+  };
+
+  const selectBoard = (boardId: string) => {
+    setSelectedBoard(boardId);
+    if (searchParams.get('board') !== boardId) {
+      const params = new URLSearchParams(searchParams);
+      params.set('board', boardId);
+      setSearchParams(params, { replace: true });
+    }
+  };
+
   async function loadBoards() {
     try {
       setIsLoading(true);
@@ -55,17 +181,20 @@ export function TaskBoardContainer({ clientId, agencyId }: TaskBoardContainerPro
       const boardsData = await fetchBoards(clientId);
       setBoards(boardsData);
       
-      // Set default board
+      // Use the board from the link, then the default board
+      const linkedBoard = boardsData.find(board => board.id === searchParams.get('board'));
       const defaultBoard = boardsData.find(board => board.is_default);
-      if (defaultBoard) {
-        setSelectedBoard(defaultBoard.id);
+      if (linkedBoard) {
+        selectBoard(linkedBoard.id);
+      } else if (defaultBoard) {
+        selectBoard(defaultBoard.id);
       } else if (boardsData.length > 0) {
-        setSelectedBoard(boardsData[0].id);
+        selectBoard(boardsData[0].id);
       } else {
         // Create a default board if none exists
         const newBoard = await createDefaultBoard(clientId);
         setBoards([newBoard]);
-        setSelectedBoard(newBoard.id);
+        selectBoard(newBoard.id);
       }
     } catch (err) {
       console.error('Error loading boards:', err);
@@ -80,14 +209,16 @@ export function TaskBoardContainer({ clientId, agencyId }: TaskBoardContainerPro
     
     try {
       setIsLoading(true);
-      
-      // Fetch columns and tasks in parallel
-      const [columnsData, tasksData] = await Promise.all([
+
+      // Fetch columns, custom fields and tasks in parallel
+      const [columnsData, customFieldsData, tasksData] = await Promise.all([
         fetchColumns(selectedBoard),
-        fetchTasks(selectedBoard)
+        fetchCustomFields(selectedBoard),
+        fetchBoardTasks(selectedBoard)
       ]);
-      
+
       setColumns(columnsData);
+      setCustomFields(customFieldsData);
       setTasks(tasksData);
     } catch (err) {
       console.error('Error loading tasks and columns:', err);
@@ -97,23 +228,213 @@ export function TaskBoardContainer({ clientId, agencyId }: TaskBoardContainerPro
     }
   }
 
+  // Tasks along with the dependencies, custom field values and tags the views show
+  async function fetchBoardTasks(boardId: string) {
+    const tasksData = await fetchTasks(boardId);
+    const { tasks: tasksWithDependencies } = await loadTaskDependencies(tasksData);
+    const tasksWithFields = await loadTaskCustomFields(tasksWithDependencies);
+    return loadTaskTags(tasksWithFields);
+  }
+
+  // Refresh tasks in place, without the loading state that would reset the open view
+  async function reloadTasks() {
+    if (!selectedBoard) return;
+    setTasks(await fetchBoardTasks(selectedBoard));
+  }
+
+  async function handleBulkUpdate(taskIds: string[], changes: TaskBulkChanges) {
+    const batchId = await bulkUpdateTasks(taskIds, changes);
+
+    // Completing the latest occurrence of a recurring task schedules the next one, as it does for single updates
+    if (changes.status && getStatusCategory({ status: changes.status }, columns) === 'completed') {
+      await Promise.all(
+        tasks
+          .filter(task => taskIds.includes(task.id) && task.recurrence_id && !isTaskCompleted(task, columns))
+          .map(task => handleRecurringTaskCompleted(task))
+      );
+    }
+
+    await reloadTasks();
+    if (changes.add_tags) {
+      setTags(await fetchClientTaskTags(clientId));
+    }
+
+    // Redoing applies the changes as a new batch, which is then the one to undo
+    let currentBatchId = batchId;
+    useUndoHistory.getState().record({
+      label: `Updated ${taskIds.length} task${taskIds.length === 1 ? '' : 's'}`,
+      undo: () => undoTaskBatch(currentBatchId),
+      redo: async () => {
+        currentBatchId = await bulkUpdateTasks(taskIds, changes);
+      }
+    });
+  }
+
+  async function handleBulkDelete(taskIds: string[]) {
+    await deleteTasks(taskIds);
+    await reloadTasks();
+
+    useUndoHistory.getState().record({
+      label: `Moved ${taskIds.length} task${taskIds.length === 1 ? '' : 's'} to the trash`,
+      undo: () => restoreTasks(taskIds),
+      redo: async () => {
+        await deleteTasks(taskIds);
+      }
+    });
+  }
+
+  // What an update of a task looks like in the undo toast
+  function describeTaskUpdate(task: Task, updates: Partial<Task>) {
+    if (updates.status) {
+      const column = columns.find(column => column.key === updates.status);
+      return `Moved ${describeTask(task)} to ${column?.name || updates.status}`;
+    }
+    if ('start_date' in updates || 'finish_date' in updates) {
+      return `Rescheduled ${describeTask(task)}`;
+    }
+    return `Edited ${describeTask(task)}`;
+  }
+
+  // Apply changes to a task in a task list, keeping status_category and dependency badges in step
+  function applyTaskChanges(currentTasks: Task[], taskId: string, updates: Partial<Task>) {
+    // Keep status_category in step with the column the task now sits in
+    const statusCategory = updates.status
+      ? updates.status_category || getStatusCategory({ status: updates.status }, columns)
+      : undefined;
+    const localUpdates = statusCategory ? { ...updates, status_category: statusCategory } : updates;
+
+    return currentTasks.map(task => {
+      if (task.id === taskId) {
+        return { ...task, ...localUpdates };
+      }
+      // Keep dependency badges on related tasks in sync with the new status
+      if (updates.status && task.dependencies?.some(dependency => dependency.task_id === taskId)) {
+        return {
+          ...task,
+          dependencies: task.dependencies.map(dependency =>
+            dependency.task_id === taskId
+              ? { ...dependency, status: updates.status!, status_category: statusCategory }
+              : dependency
+          )
+        };
+      }
+      return task;
+    });
+  }
+
   async function handleTaskUpdate(taskId: string, updates: Partial<Task>) {
+    const previousTask = tasks.find(task => task.id === taskId);
+    savingTaskIds.current.add(taskId);
+
+    // Show the change straight away, e.g. the card in its new column, and roll it back if the save fails
+    setTasks(currentTasks => applyTaskChanges(currentTasks, taskId, updates));
+
     try {
-      await updateTask(taskId, updates);
-      
-      // Update local state
-      setTasks(tasks.map(task =>
-        task.id === taskId ? { ...task, ...updates } : task
-      ));
+      await updateTask(taskId, updates, previousTask?.version);
+
+      // Reordering a column writes the position of every task in it, which isn't worth an undo step each
+      if (previousTask && Object.keys(updates).some(field => field !== 'position')) {
+        recordTaskEdit(previousTask, updates, describeTaskUpdate(previousTask, updates));
+      }
+
+      // Completing the latest occurrence of a recurring task schedules the next one
+      const statusCategory = updates.status ? getStatusCategory({ status: updates.status }, columns) : undefined;
+      if (statusCategory === 'completed' && previousTask?.recurrence_id && !isTaskCompleted(previousTask, columns)) {
+        const nextOccurrence = await handleRecurringTaskCompleted(previousTask);
+        if (nextOccurrence && nextOccurrence.board_id === selectedBoard) {
+          setTasks(currentTasks => [...currentTasks, { ...nextOccurrence, assigned_to_email: previousTask.assigned_to_email }]);
+        }
+      }
     } catch (err) {
       console.error('Error updating task:', err);
-      setError(err instanceof Error ? err.message : 'An error occurred');
+
+      if (previousTask) {
+        const previousValues = Object.fromEntries(
+          Object.keys(updates).map(field => [field, previousTask[field as keyof Task]])
+        ) as Partial<Task>;
+        setTasks(currentTasks => applyTaskChanges(currentTasks, taskId, previousValues));
+      }
+      setUpdateError(
+        `Couldn't save the change to ${previousTask ? describeTask(previousTask) : 'the task'}, so it was rolled back. ` +
+        (err instanceof Error ? err.message : 'An error occurred')
+      );
+    } finally {
+      savingTaskIds.current.delete(taskId);
+    }
+  }
+
+  // Merge a change someone made elsewhere. Our own saves come back through here too, with the values we already have.
+  function handleBoardChange(change: BoardChange) {
+    if (!selectedBoard) return;
+
+    if (change.table === 'tasks') {
+      if (change.eventType === 'DELETE') {
+        setTasks(currentTasks => currentTasks.filter(task => task.id !== change.old.id));
+        return;
+      }
+
+      const row = change.new as unknown as Task;
+      if (savingTaskIds.current.has(row.id)) {
+        // Only the version is news, and it's what a change queued offline is checked against
+        setTasks(currentTasks => applyTaskChanges(currentTasks, row.id, { version: row.version }));
+        return;
+      }
+
+      if (row.board_id !== selectedBoard || row.deleted_at) {
+        setTasks(currentTasks => currentTasks.filter(task => task.id !== row.id));
+        return;
+      }
+
+      const existingTask = tasks.find(task => task.id === row.id);
+      const assigneeEmail = tasks.find(task => task.assigned_to === row.assigned_to)?.assigned_to_email;
+      if (!existingTask || (row.assigned_to && !assigneeEmail)) {
+        // New tasks and new assignees need their tags, fields and emails loaded along with them
+        reloadTasks().catch(err => console.error('Error reloading tasks:', err));
+        return;
+      }
+
+      setTasks(currentTasks => applyTaskChanges(currentTasks, row.id, {
+        ...row,
+        assigned_to_email: row.assigned_to ? assigneeEmail : undefined
+      }));
+      return;
+    }
+
+    if (change.table === 'board_columns') {
+      const column = (change.eventType === 'DELETE' ? change.old : change.new) as Partial<BoardColumn>;
+      if (column.board_id === selectedBoard) {
+        fetchColumns(selectedBoard)
+          .then(setColumns)
+          .catch(err => console.error('Error reloading columns:', err));
+      }
+      return;
+    }
+
+    // Comments and checklist items only show in the open task
+    const row = (change.eventType === 'DELETE' ? change.old : change.new) as { task_id?: string };
+    if (isModalOpen && row.task_id && row.task_id === selectedTask) {
+      setOpenTaskChange({ table: change.table, at: Date.now() });
     }
   }
 
   async function handleColumnUpdate(columnId: string, updates: Partial<BoardColumn>) {
     try {
       await updateColumn(columnId, updates);
+
+      const previousColumn = columns.find(column => column.id === columnId);
+      if (previousColumn) {
+        const fields = Object.keys(updates) as (keyof BoardColumn)[];
+        const before = Object.fromEntries(fields.map(field => [field, previousColumn[field]])) as Partial<BoardColumn>;
+        useUndoHistory.getState().record({
+          label: `Edited column "${previousColumn.name}"`,
+          undo: async () => {
+            await updateColumn(columnId, before);
+          },
+          redo: async () => {
+            await updateColumn(columnId, updates);
+          }
+        });
+      }
       
       // Update local state
       setColumns(columns.map(column =>
@@ -125,9 +446,29 @@ export function TaskBoardContainer({ clientId, agencyId }: TaskBoardContainerPro
     }
   }
 
+  // Keep the open task in the URL so it can be shared
+  const setLinkedTaskKey = (taskKey: string | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (taskKey) {
+      params.set('task', taskKey);
+    } else {
+      params.delete('task');
+    }
+    setSearchParams(params, { replace: true });
+  };
+
   const handleTaskClick = (taskId: string) => {
     setSelectedTask(taskId);
     setIsModalOpen(true);
+    setLinkedTaskKey(tasks.find(task => task.id === taskId)?.task_key || null);
+  };
+
+  const handleCloseTask = () => {
+    setIsModalOpen(false);
+    setSelectedTask(null);
+    if (linkedTaskKey) {
+      setLinkedTaskKey(null);
+    }
   };
 
   const handleNewTask = () => {
@@ -135,6 +476,70 @@ export function TaskBoardContainer({ clientId, agencyId }: TaskBoardContainerPro
     setIsModalOpen(true);
   };
 
+  async function handleAssignToMe(task: Task) {
+    if (!user) return;
+    await handleTaskUpdate(task.id, { assigned_to: user.id });
+    setTasks(currentTasks => currentTasks.map(t => t.id === task.id ? { ...t, assigned_to_email: user.email } : t));
+  }
+
+  async function handleStartTimer(task: Task) {
+    try {
+      await useRunningTimer.getState().start(task.id, task.title);
+    } catch (err) {
+      setUpdateError(`Couldn't start a timer on ${describeTask(task)}. ` + (err instanceof Error ? err.message : 'An error occurred'));
+    }
+  }
+
+  useBoardShortcuts({
+    onEdit: handleTaskClick,
+    onCreate: handleNewTask,
+    onSetPriority: (taskId, priority) => handleTaskUpdate(taskId, { priority })
+  });
+
+  // Board actions for the command palette, plus actions on the task that's selected or open
+  useRegisterCommands('task-board', ({ focusedTaskId }) => {
+    const board = boards.find(b => b.id === selectedBoard);
+    if (!board) return [];
+
+    const commands: Command[] = [
+      { id: 'create-task', section: 'Board', label: `Create task in ${board.name}`, shortcut: 'c', run: handleNewTask },
+      ...boards
+        .filter(b => b.id !== board.id)
+        .map(b => ({ id: `board:${b.id}`, section: 'Board', label: `Switch to ${b.name}`, keywords: 'board', run: () => selectBoard(b.id) }))
+    ];
+
+    const task = tasks.find(t => t.id === (focusedTaskId || (isModalOpen ? selectedTask : null)));
+    if (!task) return commands;
+
+    const name = describeTask(task);
+    commands.push(
+      { id: 'edit-task', section: name, label: `Open ${name}`, keywords: 'edit', shortcut: 'e', run: () => handleTaskClick(task.id) },
+      { id: 'start-timer', section: name, label: `Start timer on ${name}`, keywords: 'time track', run: () => handleStartTimer(task) }
+    );
+    if (user && task.assigned_to !== user.id) {
+      commands.push({ id: 'assign-to-me', section: name, label: `Assign ${name} to me`, keywords: 'assignee', run: () => handleAssignToMe(task) });
+    }
+    columns
+      .filter(column => column.key !== task.status)
+      .forEach(column => commands.push({
+        id: `status:${column.key}`,
+        section: name,
+        label: `Move ${name} to ${column.name}`,
+        keywords: 'change status',
+        run: () => handleTaskUpdate(task.id, { status: column.key })
+      }));
+    (['high', 'medium', 'low'] as const)
+      .filter(priority => priority !== task.priority)
+      .forEach(priority => commands.push({
+        id: `priority:${priority}`,
+        section: name,
+        label: `Set priority of ${name} to ${priority}`,
+        shortcut: { high: '1', medium: '2', low: '3' }[priority],
+        run: () => handleTaskUpdate(task.id, { priority })
+      }));
+    return commands;
+  });
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -164,12 +569,19 @@ export function TaskBoardContainer({ clientId, agencyId }: TaskBoardContainerPro
       boardId: selectedBoard,
       tasks,
       columns,
+      customFields,
+      viewState,
+      onViewStateChange: handleViewStateChange,
+      boards,
+      tags,
       onTaskUpdate: handleTaskUpdate,
       onColumnUpdate: handleColumnUpdate,
+      onBulkUpdate: handleBulkUpdate,
+      onBulkDelete: canDeleteTasks(role) ? handleBulkDelete : undefined,
       onTaskClick: handleTaskClick
     };
 
-    switch (view) {
+    switch (viewState.view) {
       case 'kanban':
         return <KanbanView {...viewProps} />;
       case 'calendar':
@@ -188,24 +600,89 @@ export function TaskBoardContainer({ clientId, agencyId }: TaskBoardContainerPro
   return (
     <div className="space-y-6">
       <TaskBoardHeader
-        view={view}
-        onViewChange={setView}
+        view={viewState.view}
+        onViewChange={view => handleViewStateChange({ view })}
         onNewTask={handleNewTask}
+        onSaveAsTemplate={role && role !== 'client_user' ? () => setIsTemplateModalOpen(true) : undefined}
+        onManageFields={role && role !== 'client_user' ? () => setIsFieldsModalOpen(true) : undefined}
+        onManageAutomations={role && role !== 'client_user' ? () => setIsAutomationsModalOpen(true) : undefined}
+        onOpenTrash={canDeleteTasks(role) ? () => setIsTrashModalOpen(true) : undefined}
+        viewers={viewers}
       />
 
+      {selectedBoard && (
+        <SavedViewsMenu
+          boardId={selectedBoard}
+          views={savedViews}
+          activeViewId={activeViewId}
+          currentState={viewState}
+          onSelectView={handleSelectSavedView}
+          onViewsChanged={setSavedViews}
+        />
+      )}
+
+      {updateError && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex items-start justify-between">
+            <div className="text-sm text-red-700">{updateError}</div>
+            <button
+              onClick={() => setUpdateError(null)}
+              className="ml-4 text-red-400 hover:text-red-500"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {selectedBoard && renderView()}
 
+      {isTemplateModalOpen && selectedBoard && (
+        <SaveBoardTemplateModal
+          boardId={selectedBoard}
+          clientId={clientId}
+          agencyId={agencyId}
+          onClose={() => setIsTemplateModalOpen(false)}
+        />
+      )}
+
+      {isFieldsModalOpen && selectedBoard && (
+        <CustomFieldsModal
+          boardId={selectedBoard}
+          fields={customFields}
+          onClose={() => setIsFieldsModalOpen(false)}
+          onFieldsChanged={setCustomFields}
+        />
+      )}
+
+      {isAutomationsModalOpen && selectedBoard && (
+        <AutomationRulesModal
+          clientId={clientId}
+          agencyId={agencyId}
+          boardId={selectedBoard}
+          columns={columns}
+          onClose={() => setIsAutomationsModalOpen(false)}
+        />
+      )}
+
+      {isTrashModalOpen && (
+        <TrashModal
+          clientId={clientId}
+          onClose={() => setIsTrashModalOpen(false)}
+          onRestored={reloadTasks}
+        />
+      )}
+
       {isModalOpen && (
         <TaskDetailsModal
           taskId={selectedTask}
           boardId={selectedBoard!}
           clientId={clientId}
           agencyId={agencyId}
-          onClose={() => {
-            setIsModalOpen(false);
-            setSelectedTask(null);
-          }}
+          onClose={handleCloseTask}
           onTaskUpdated={() => loadTasksAndColumns()}
+          viewers={viewers.filter(viewer => viewer.task_id === selectedTask)}
+          liveChange={openTaskChange}
         />
       )}
     </div>
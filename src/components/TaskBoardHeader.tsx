@@ -1,13 +1,20 @@
 import React from 'react';
-import { Calendar, List, BarChart2, GanttChartSquare, KanbanSquare, Plus } from 'lucide-react';
+import { Calendar, List, BarChart2, GanttChartSquare, KanbanSquare, Plus, LayoutTemplate, SlidersHorizontal, Zap, Trash2 } from 'lucide-react';
 import { TaskBoardView } from '../lib/types';
 import clsx from 'clsx';
 import { useAppContext } from '../lib/AppContext';
+import { BoardViewer } from '../lib/hooks/useBoardSync';
+import { PresenceAvatars } from './PresenceAvatars';
 
 interface TaskBoardHeaderProps {
   view: TaskBoardView;
   onViewChange: (view: TaskBoardView) => void;
   onNewTask: () => void;
+  onSaveAsTemplate?: () => void;
+  onManageFields?: () => void;
+  onManageAutomations?: () => void;
+  onOpenTrash?: () => void;
+  viewers?: BoardViewer[]; // Other users with the board open
 }
 
 const views: { id: TaskBoardView; icon: typeof KanbanSquare; label: string }[] = [
@@ -18,7 +25,7 @@ const views: { id: TaskBoardView; icon: typeof KanbanSquare; label: string }[] =
   { id: 'reports', icon: BarChart2, label: 'Reports' },
 ];
 
-export function TaskBoardHeader({ view, onViewChange, onNewTask }: TaskBoardHeaderProps) {
+export function TaskBoardHeader({ view, onViewChange, onNewTask, onSaveAsTemplate, onManageFields, onManageAutomations, onOpenTrash, viewers = [] }: TaskBoardHeaderProps) {
   const { systemSettings } = useAppContext();
   
   // Get theme colors
@@ -46,17 +53,60 @@ export function TaskBoardHeader({ view, onViewChange, onNewTask }: TaskBoardHead
         ))}
       </div>
 
-      <button
-        onClick={onNewTask}
-        className="inline-flex items-center gap-x-2 rounded-md px-3.5 py-2.5 text-sm font-semibold text-white shadow-sm"
-        style={{ 
-          backgroundColor: primaryColor,
-          '&:hover': { backgroundColor: systemSettings?.secondary_color || '#B91C1C' }
-        }}
-      >
-        <Plus className="h-5 w-5" />
-        New Task
-      </button>
+      <div className="flex items-center space-x-2">
+        <PresenceAvatars viewers={viewers} />
+
+        {onManageFields && (
+          <button
+            onClick={onManageFields}
+            className="inline-flex items-center gap-x-2 rounded-md bg-white px-3.5 py-2.5 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            <SlidersHorizontal className="h-5 w-5" />
+            Fields
+          </button>
+        )}
+
+        {onManageAutomations && (
+          <button
+            onClick={onManageAutomations}
+            className="inline-flex items-center gap-x-2 rounded-md bg-white px-3.5 py-2.5 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            <Zap className="h-5 w-5" />
+            Automations
+          </button>
+        )}
+        {onOpenTrash && (
+          <button
+            onClick={onOpenTrash}
+            className="inline-flex items-center gap-x-2 rounded-md bg-white px-3.5 py-2.5 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            <Trash2 className="h-5 w-5" />
+            Trash
+          </button>
+        )}
+
+        {onSaveAsTemplate && (
+          <button
+            onClick={onSaveAsTemplate}
+            className="inline-flex items-center gap-x-2 rounded-md bg-white px-3.5 py-2.5 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            <LayoutTemplate className="h-5 w-5" />
+            Save as Template
+          </button>
+        )}
+
+        <button
+          onClick={onNewTask}
+          className="inline-flex items-center gap-x-2 rounded-md px-3.5 py-2.5 text-sm font-semibold text-white shadow-sm"
+          style={{ 
+            backgroundColor: primaryColor,
+            '&:hover': { backgroundColor: systemSettings?.secondary_color || '#B91C1C' }
+          }}
+        >
+          <Plus className="h-5 w-5" />
+          New Task
+        </button>
+      </div>
     </div>
   );
 }
\ No newline at end of file
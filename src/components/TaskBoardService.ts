@@ -1,6 +1,7 @@
 import { supabase } from '../lib/supabase';
 import { Task, Board, BoardColumn } from '../lib/types';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
+import { mutate, readThrough } from '../lib/syncQueue';
 
 export async function fetchBoards(clientId: string) {
   try {
@@ -11,11 +12,11 @@ export async function fetchBoards(clientId: string) {
       { clientId }
     );
     
-    const { data, error } = await supabase
+    const { data, error } = await readThrough(`boards:${clientId}`, supabase
       .from('boards')
       .select('*')
       .eq('client_id', clientId)
-      .order('created_at');
+      .order('created_at'));
 
     if (error) {
       logApiCall('boards.select', false, { error });
@@ -85,11 +86,11 @@ export async function fetchColumns(boardId: string) {
       { boardId }
     );
     
-    const { data, error } = await supabase
+    const { data, error } = await readThrough(`columns:${boardId}`, supabase
       .from('board_columns')
       .select('*')
       .eq('board_id', boardId)
-      .order('position');
+      .order('position'));
 
     if (error) {
       logApiCall('board_columns.select', false, { error });
@@ -120,11 +121,12 @@ export async function fetchTasks(boardId: string) {
       { boardId }
     );
     
-    const { data: tasksData, error: tasksError } = await supabase
+    const { data: tasksData, error: tasksError } = await readThrough(`tasks:${boardId}`, supabase
       .from('tasks')
       .select('*')
       .eq('board_id', boardId)
-      .order('position');
+      .is('deleted_at', null)
+      .order('position'));
 
     if (tasksError) {
       logApiCall('tasks.select', false, { error: tasksError });
@@ -138,10 +140,10 @@ export async function fetchTasks(boardId: string) {
       .filter(id => id != null);
 
     if (assignedUserIds.length > 0) {
-      const { data: userData, error: userError } = await supabase
+      const { data: userData, error: userError } = await readThrough(`task-assignees:${boardId}`, supabase
         .from('user_roles')
         .select('user_id, email')
-        .in('user_id', assignedUserIds);
+        .in('user_id', assignedUserIds));
 
       if (userError) {
         logApiCall('user_roles.select', false, { error: userError });
@@ -173,7 +175,7 @@ export async function fetchTasks(boardId: string) {
   }
 }
 
-export async function updateTask(taskId: string, updates: Partial<Task>) {
+export async function updateTask(taskId: string, updates: Partial<Task>, baseVersion?: number) {
   try {
     logDebugEvent(
       DebugLevel.INFO,
@@ -182,17 +184,17 @@ export async function updateTask(taskId: string, updates: Partial<Task>) {
       { taskId, updates }
     );
     
-    const { error } = await supabase
-      .from('tasks')
-      .update(updates)
-      .eq('id', taskId);
+    const { error, queued } = await mutate(
+      { kind: 'update', table: 'tasks', id: taskId, values: updates, baseVersion },
+      updates.title ? `Edit task "${updates.title}"` : 'Edit a task'
+    );
 
     if (error) {
       logApiCall('tasks.update', false, { error });
       throw error;
     }
     
-    logApiCall('tasks.update', true, {});
+    logApiCall('tasks.update', true, { queued });
     
     return true;
   } catch (err) {
@@ -216,17 +218,17 @@ export async function updateColumn(columnId: string, updates: Partial<BoardColum
       { columnId, updates }
     );
     
-    const { error } = await supabase
-      .from('board_columns')
-      .update(updates)
-      .eq('id', columnId);
+    const { error, queued } = await mutate(
+      { kind: 'update', table: 'board_columns', id: columnId, values: updates },
+      updates.name ? `Edit column "${updates.name}"` : 'Edit a column'
+    );
 
     if (error) {
       logApiCall('board_columns.update', false, { error });
       throw error;
     }
     
-    logApiCall('board_columns.update', true, {});
+    logApiCall('board_columns.update', true, { queued });
     
     return true;
   } catch (err) {
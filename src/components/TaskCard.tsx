@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { format, isAfter } from 'date-fns';
+import { format } from 'date-fns';
 import { 
   Clock, 
   User, 
@@ -11,21 +11,35 @@ import {
   AlertCircle,
   ChevronDown,
   ChevronUp,
-  MessageSquare
+  MessageSquare,
+  Lock,
+  Repeat,
+  ListTree,
+  CornerDownRight
 } from 'lucide-react';
 import clsx from 'clsx';
-import { Task } from '../lib/types';
+import { Task, BoardColumn } from '../lib/types';
 import { useAppContext } from '../lib/AppContext';
+import { getOpenBlockers } from '../lib/services/dependencyService';
+import { getStatusColors, getStatusLabel, isTaskCompleted, isTaskOverdue } from '../lib/workflow';
+import { SubtaskProgress } from '../lib/subtasks';
 
 interface TaskCardProps {
   task: Task;
+  column?: BoardColumn;
+  subtaskProgress?: SubtaskProgress;
+  isSelected?: boolean;
+  onSelect?: (taskId: string, e: React.MouseEvent) => void; // Enables the checkbox and shift/ctrl-click selection
   onClick: (taskId: string) => void;
 }
 
-export function TaskCard({ task, onClick }: TaskCardProps) {
+export function TaskCard({ task, column, subtaskProgress, isSelected = false, onSelect, onClick }: TaskCardProps) {
   const { systemSettings } = useAppContext();
   const [isExpanded, setIsExpanded] = useState(false);
-  const isOverdue = task.finish_date && isAfter(new Date(), new Date(task.finish_date)) && task.status !== 'done';
+  const columns = column ? [column] : undefined;
+  const isCompleted = isTaskCompleted(task, columns);
+  const isOverdue = isTaskOverdue(task, columns);
+  const openBlockers = getOpenBlockers(task);
 
   // Get theme colors
   const primaryColor = systemSettings?.primary_color || '#EF4444';
@@ -39,20 +53,26 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
     high: { bg: `rgba(${parseInt(primaryColor.slice(1, 3), 16)}, ${parseInt(primaryColor.slice(3, 5), 16)}, ${parseInt(primaryColor.slice(5, 7), 16)}, 0.1)`, text: primaryColor, icon: primaryColor }
   };
 
-  // Status colors
-  const statusColors = {
-    inbox: { bg: '#F3F4F6', text: '#4B5563', icon: '#9CA3AF' },
-    todo: { bg: '#DBEAFE', text: '#1E40AF', icon: '#3B82F6' },
-    doing: { bg: '#FEF3C7', text: '#92400E', icon: '#F59E0B' },
-    done: { bg: '#D1FAE5', text: '#065F46', icon: '#10B981' }
-  };
+  // Status colors follow the task's column, or its category when the column isn't known
+  const statusColors = getStatusColors(task, columns);
 
   const handleClick = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    if (onSelect && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+      onSelect(task.id, e);
+      return;
+    }
     onClick(task.id);
   };
 
+  const handleCardClick = (e: React.MouseEvent) => {
+    if (onSelect && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onSelect(task.id, e);
+    }
+  };
+
   const toggleExpand = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -64,6 +84,9 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
   const completedItems = checklistItems.filter(item => item.is_completed).length;
   const totalItems = checklistItems.length;
   const checklistProgress = totalItems > 0 ? Math.round((completedItems / totalItems) * 100) : 0;
+  const subtaskPercent = subtaskProgress?.total
+    ? Math.round((subtaskProgress.completed / subtaskProgress.total) * 100)
+    : 0;
 
   return (
     <div
@@ -71,26 +94,41 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
         'bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden transition-all duration-200',
         'hover:shadow-md hover:border-gray-300',
         isExpanded ? 'shadow-md' : '',
-        task.status === 'done' && 'opacity-80'
+        isCompleted && 'opacity-80'
       )}
+      style={isSelected ? { boxShadow: `0 0 0 2px ${primaryColor}` } : undefined}
+      onClick={handleCardClick}
     >
       {/* Card Header - Status and Priority */}
       <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
         <div 
           className="flex items-center space-x-2"
-          style={{ color: statusColors[task.status].icon }}
+          style={{ color: statusColors.icon }}
         >
+          {onSelect && (
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={() => {}}
+              onClick={(e) => {
+                e.stopPropagation();
+                onSelect(task.id, e);
+              }}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              aria-label={`Select ${task.title}`}
+            />
+          )}
           <span 
             className={clsx(
               "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
             )}
             style={{ 
-              backgroundColor: statusColors[task.status].bg,
-              color: statusColors[task.status].text
+              backgroundColor: statusColors.bg,
+              color: statusColors.text
             }}
           >
-            <span className="w-1.5 h-1.5 rounded-full mr-1" style={{ backgroundColor: statusColors[task.status].icon }}></span>
-            <span className="capitalize">{task.status}</span>
+            <span className="w-1.5 h-1.5 rounded-full mr-1" style={{ backgroundColor: statusColors.icon }}></span>
+            <span>{getStatusLabel(task.status, columns)}</span>
           </span>
         </div>
         <div className="flex items-center space-x-2">
@@ -116,6 +154,11 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
 
       {/* Card Body */}
       <div className="p-3">
+        {/* Task Key */}
+        {task.task_key && (
+          <div className="text-xs font-mono text-gray-400 mb-0.5">{task.task_key}</div>
+        )}
+
         {/* Title */}
         <h3 
           className="text-base font-medium text-gray-900 mb-2 line-clamp-2 hover:text-blue-600 cursor-pointer"
@@ -162,6 +205,33 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
             </div>
           )}
 
+          {/* Blocked By */}
+          {openBlockers.length > 0 && (
+            <div
+              className="flex items-center text-yellow-700"
+              title={`Blocked by ${openBlockers.map(blocker => blocker.title).join(', ')}`}
+            >
+              <Lock className="h-3.5 w-3.5 mr-1" />
+              <span>Blocked ({openBlockers.length})</span>
+            </div>
+          )}
+
+          {/* Subtask */}
+          {task.parent_task_id && (
+            <div className="flex items-center" title="Subtask">
+              <CornerDownRight className="h-3.5 w-3.5 mr-1" />
+              <span>Subtask</span>
+            </div>
+          )}
+
+          {/* Recurring */}
+          {task.recurrence_id && (
+            <div className="flex items-center" title="Recurring task">
+              <Repeat className="h-3.5 w-3.5 mr-1" />
+              {task.recurrence_index && <span>#{task.recurrence_index}</span>}
+            </div>
+          )}
+
           {/* Comments Count (if available) */}
           {task.comments_count && (
             <div className="flex items-center" title={`${task.comments_count} comments`}>
@@ -193,6 +263,28 @@ export function TaskCard({ task, onClick }: TaskCardProps) {
           </div>
         )}
 
+        {/* Subtask Progress */}
+        {subtaskProgress && subtaskProgress.total > 0 && (
+          <div className="mb-3">
+            <div className="flex items-center justify-between text-xs mb-1">
+              <div className="flex items-center text-gray-600">
+                <ListTree className="h-3.5 w-3.5 mr-1" />
+                <span>Subtasks</span>
+              </div>
+              <span className="text-gray-500">{subtaskProgress.completed}/{subtaskProgress.total}</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-1.5">
+              <div
+                className="h-1.5 rounded-full"
+                style={{
+                  width: `${subtaskPercent}%`,
+                  backgroundColor: subtaskPercent === 100 ? '#10B981' : primaryColor
+                }}
+              ></div>
+            </div>
+          </div>
+        )}
+
         {/* Tags */}
         {task.tags && task.tags.length > 0 && (
           <div className="flex flex-wrap gap-1 mb-2">
@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../lib/store';
-import { Check, Plus, Trash2, ChevronRight, ChevronDown, Grip, List, CheckSquare } from 'lucide-react';
+import { Check, Plus, Trash2, ChevronRight, ChevronDown, Grip, List, CheckSquare, ListTree } from 'lucide-react';
 import { useAppContext } from '../lib/AppContext';
 import { logDebugEvent, DebugLevel, DebugEventType } from '../lib/debugSystem';
 import { BulkChecklistImport } from './BulkChecklistImport';
+import { promoteChecklistItem } from '../lib/services/subtaskService';
+import { useUndoHistory, logUndoActivity } from '../lib/undoHistory';
+import { mutate, readThrough } from '../lib/syncQueue';
+import { putCached } from '../lib/offlineDb';
 import { 
   DndContext, 
   closestCenter, 
@@ -37,11 +41,100 @@ interface ChecklistItem {
   children?: ChecklistItem[];
 }
 
+type ChecklistItemRow = Omit<ChecklistItem, 'children'>;
+
+// An item and its sub-items as table rows, parents before their children
+function flattenChecklistItem({ children, ...row }: ChecklistItem): ChecklistItemRow[] {
+  return [row, ...(children || []).flatMap(flattenChecklistItem)];
+}
+
+// Nest rows under their parents, each level sorted by position
+function buildChecklistTree(rows: ChecklistItemRow[]): ChecklistItem[] {
+  const itemsMap = new Map<string, ChecklistItem>();
+  const rootItems: ChecklistItem[] = [];
+
+  // First pass: Create all items without children
+  rows.forEach(item => {
+    itemsMap.set(item.id, { ...item, children: [] });
+  });
+
+  // Second pass: Build relationships
+  rows.forEach(item => {
+    const currentItem = itemsMap.get(item.id);
+    if (!currentItem) return;
+
+    if (item.parent_id === null) {
+      rootItems.push(currentItem);
+    } else {
+      const parent = itemsMap.get(item.parent_id);
+      if (parent) {
+        if (!parent.children) parent.children = [];
+        parent.children.push(currentItem);
+      } else {
+        // If parent is not found, treat as root item
+        rootItems.push(currentItem);
+      }
+    }
+  });
+
+  // Sort root items by position
+  rootItems.sort((a, b) => a.position - b.position);
+
+  // Sort children by position
+  const sortChildren = (items: ChecklistItem[]) => {
+    items.forEach(item => {
+      if (item.children && item.children.length > 0) {
+        item.children.sort((a, b) => a.position - b.position);
+        sortChildren(item.children);
+      }
+    });
+  };
+  sortChildren(rootItems);
+
+  return rootItems;
+}
+
+// The writes below are queued while offline; each says whether it was
+async function insertChecklistRows(rows: ChecklistItemRow[]) {
+  let queued = false;
+  for (const row of rows) {
+    const result = await mutate(
+      { kind: 'insert', table: 'task_checklist_items', values: row },
+      `Add checklist item "${row.text}"`
+    );
+    if (result.error) throw result.error;
+    queued = queued || result.queued;
+  }
+  return queued;
+}
+
+async function deleteChecklistRow(id: string, text: string) {
+  const { error, queued } = await mutate(
+    { kind: 'delete', table: 'task_checklist_items', id },
+    `Delete checklist item "${text}"`
+  );
+
+  if (error) throw error;
+  return queued;
+}
+
+async function setChecklistItemCompleted(id: string, text: string, isCompleted: boolean) {
+  const { error, queued } = await mutate(
+    { kind: 'update', table: 'task_checklist_items', id, values: { is_completed: isCompleted } },
+    `${isCompleted ? 'Check' : 'Uncheck'} "${text}"`
+  );
+
+  if (error) throw error;
+  return queued;
+}
+
 interface TaskChecklistProps {
   taskId: string;
+  onSubtaskCreated?: () => void;
+  liveRevision?: number; // Bumped when someone else changes the checklist
 }
 
-export function TaskChecklist({ taskId }: TaskChecklistProps) {
+export function TaskChecklist({ taskId, onSubtaskCreated, liveRevision }: TaskChecklistProps) {
   const { user } = useAuthStore();
   const { systemSettings } = useAppContext();
   const [items, setItems] = useState<ChecklistItem[]>([]);
@@ -55,6 +148,7 @@ export function TaskChecklist({ taskId }: TaskChecklistProps) {
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [activeId, setActiveId] = useState<string | null>(null);
   const [activeItem, setActiveItem] = useState<ChecklistItem | null>(null);
+  const undoRevision = useUndoHistory(state => state.revision);
 
   // Get theme colors
   const primaryColor = systemSettings?.primary_color || '#EF4444';
@@ -71,9 +165,37 @@ export function TaskChecklist({ taskId }: TaskChecklistProps) {
     })
   );
 
+  // Refetch after an undo or redo, or a change made elsewhere, too
   useEffect(() => {
     fetchChecklistItems();
-  }, [taskId]);
+  }, [taskId, undoRevision, liveRevision]);
+
+  // Keep the offline copy in step with changes that are still queued
+  useEffect(() => {
+    if (!isLoading) {
+      putCached(`checklist:${taskId}`, items.flatMap(flattenChecklistItem))
+        .catch(err => console.error('Error caching checklist items:', err));
+    }
+  }, [items]);
+
+  // Show rows added while offline without waiting for the server
+  const addQueuedRow = (row: ChecklistItemRow) => {
+    setItems(prevItems => buildChecklistTree([...prevItems.flatMap(flattenChecklistItem), row]));
+  };
+
+  const recordChecklistChange = (label: string, undo: () => Promise<void>, redo: () => Promise<void>) => {
+    useUndoHistory.getState().record({
+      label,
+      undo: async () => {
+        await undo();
+        await logUndoActivity([taskId], 'undo', label);
+      },
+      redo: async () => {
+        await redo();
+        await logUndoActivity([taskId], 'redo', label);
+      }
+    });
+  };
 
   const fetchChecklistItems = async () => {
     try {
@@ -87,57 +209,15 @@ export function TaskChecklist({ taskId }: TaskChecklistProps) {
       );
       
       // Fetch all items in a single query
-      const { data, error } = await supabase
+      const { data, error } = await readThrough(`checklist:${taskId}`, supabase
         .from('task_checklist_items')
         .select('*')
         .eq('task_id', taskId)
-        .order('position');
+        .order('position'));
         
       if (error) throw error;
 
-      // Build tree structure using a more efficient approach
-      const itemsMap = new Map<string, ChecklistItem>();
-      const rootItems: ChecklistItem[] = [];
-
-      // First pass: Create all items without children
-      data?.forEach(item => {
-        itemsMap.set(item.id, { ...item, children: [] });
-      });
-
-      // Second pass: Build relationships
-      data?.forEach(item => {
-        const currentItem = itemsMap.get(item.id);
-        if (!currentItem) return;
-
-        if (item.parent_id === null) {
-          rootItems.push(currentItem);
-        } else {
-          const parent = itemsMap.get(item.parent_id);
-          if (parent) {
-            if (!parent.children) parent.children = [];
-            parent.children.push(currentItem);
-          } else {
-            // If parent is not found, treat as root item
-            rootItems.push(currentItem);
-          }
-        }
-      });
-
-      // Sort root items by position
-      rootItems.sort((a, b) => a.position - b.position);
-
-      // Sort children by position
-      const sortChildren = (items: ChecklistItem[]) => {
-        items.forEach(item => {
-          if (item.children && item.children.length > 0) {
-            item.children.sort((a, b) => a.position - b.position);
-            sortChildren(item.children);
-          }
-        });
-      };
-      sortChildren(rootItems);
-      
-      setItems(rootItems);
+      setItems(buildChecklistTree(data || []));
       
       logDebugEvent(
         DebugLevel.SUCCESS,
@@ -174,29 +254,37 @@ export function TaskChecklist({ taskId }: TaskChecklistProps) {
       // Get the highest position among root items
       const maxPosition = items.reduce((max, item) => Math.max(max, item.position), -1);
       
-      const { data, error } = await supabase
-        .from('task_checklist_items')
-        .insert([
-          {
-            task_id: taskId,
-            text: newItemText.trim(),
-            is_completed: false,
-            position: maxPosition + 1,
-            parent_id: null
-          }
-        ])
-        .select();
-        
-      if (error) throw error;
+      const now = new Date().toISOString();
+      const addedRow: ChecklistItemRow = {
+        id: crypto.randomUUID(),
+        task_id: taskId,
+        text: newItemText.trim(),
+        is_completed: false,
+        position: maxPosition + 1,
+        parent_id: null,
+        created_at: now,
+        updated_at: now
+      };
+      const queued = await insertChecklistRows([addedRow]);
+
+      recordChecklistChange(
+        `Added checklist item "${addedRow.text}"`,
+        async () => { await deleteChecklistRow(addedRow.id, addedRow.text); },
+        async () => { await insertChecklistRows([addedRow]); }
+      );
       
       setNewItemText('');
-      await fetchChecklistItems();
+      if (queued) {
+        addQueuedRow(addedRow);
+      } else {
+        await fetchChecklistItems();
+      }
       
       logDebugEvent(
         DebugLevel.SUCCESS,
         DebugEventType.API_CALL,
         'Task checklist item added successfully',
-        { taskId, itemId: data?.[0]?.id }
+        { taskId, itemId: addedRow.id, queued }
       );
     } catch (err) {
       console.error('Error adding checklist item:', err);
@@ -230,24 +318,32 @@ export function TaskChecklist({ taskId }: TaskChecklistProps) {
         ? parent.children.reduce((max, item) => Math.max(max, item.position), -1)
         : -1;
       
-      const { data, error } = await supabase
-        .from('task_checklist_items')
-        .insert([
-          {
-            task_id: taskId,
-            text: newSubItemText.trim(),
-            is_completed: false,
-            position: maxPosition + 1,
-            parent_id: parentId
-          }
-        ])
-        .select();
-        
-      if (error) throw error;
+      const now = new Date().toISOString();
+      const addedRow: ChecklistItemRow = {
+        id: crypto.randomUUID(),
+        task_id: taskId,
+        text: newSubItemText.trim(),
+        is_completed: false,
+        position: maxPosition + 1,
+        parent_id: parentId,
+        created_at: now,
+        updated_at: now
+      };
+      const queued = await insertChecklistRows([addedRow]);
+
+      recordChecklistChange(
+        `Added checklist item "${addedRow.text}"`,
+        async () => { await deleteChecklistRow(addedRow.id, addedRow.text); },
+        async () => { await insertChecklistRows([addedRow]); }
+      );
       
       setNewSubItemText('');
       setIsAddingSubItem(null);
-      await fetchChecklistItems();
+      if (queued) {
+        addQueuedRow(addedRow);
+      } else {
+        await fetchChecklistItems();
+      }
       
       setExpandedItems(prev => {
         const newSet = new Set(prev);
@@ -259,7 +355,7 @@ export function TaskChecklist({ taskId }: TaskChecklistProps) {
         DebugLevel.SUCCESS,
         DebugEventType.API_CALL,
         'Task checklist sub-item added successfully',
-        { taskId, parentId, itemId: data?.[0]?.id }
+        { taskId, parentId, itemId: addedRow.id, queued }
       );
     } catch (err) {
       console.error('Error adding checklist sub-item:', err);
@@ -283,12 +379,18 @@ export function TaskChecklist({ taskId }: TaskChecklistProps) {
         { taskId, itemId: id, isCompleted }
       );
       
-      const { error } = await supabase
-        .from('task_checklist_items')
-        .update({ is_completed: isCompleted })
-        .eq('id', id);
-        
-      if (error) throw error;
+      const item = findItemById(items, id);
+      const text = item?.text || '';
+
+      await setChecklistItemCompleted(id, text, isCompleted);
+
+      if (item) {
+        recordChecklistChange(
+          `${isCompleted ? 'Checked' : 'Unchecked'} "${item.text}"`,
+          async () => { await setChecklistItemCompleted(id, text, !isCompleted); },
+          async () => { await setChecklistItemCompleted(id, text, isCompleted); }
+        );
+      }
       
       // Update local state efficiently
       setItems(prevItems => updateItemInTree(prevItems, id, { is_completed: isCompleted }));
@@ -321,14 +423,29 @@ export function TaskChecklist({ taskId }: TaskChecklistProps) {
         { taskId, itemId: id }
       );
       
-      const { error } = await supabase
-        .from('task_checklist_items')
-        .delete()
-        .eq('id', id);
-        
-      if (error) throw error;
+      // Capture the item with its sub-items first, so undoing can put them back as they were
+      const item = findItemById(items, id);
+
+      const queued = await deleteChecklistRow(id, item?.text || '');
+
+      const deletedRows = item ? flattenChecklistItem(item) : [];
+      if (item) {
+        recordChecklistChange(
+          `Deleted checklist item "${item.text}"`,
+          async () => { await insertChecklistRows(deletedRows); },
+          async () => { await deleteChecklistRow(id, item.text); }
+        );
+      }
       
-      await fetchChecklistItems();
+      if (queued) {
+        // Sub-items go with their parent
+        const deletedIds = new Set([id, ...deletedRows.map(row => row.id)]);
+        setItems(prevItems => buildChecklistTree(
+          prevItems.flatMap(flattenChecklistItem).filter(row => !deletedIds.has(row.id))
+        ));
+      } else {
+        await fetchChecklistItems();
+      }
       
       logDebugEvent(
         DebugLevel.SUCCESS,
@@ -349,6 +466,20 @@ export function TaskChecklist({ taskId }: TaskChecklistProps) {
     }
   };
 
+  // The item's sub-items move along and become the new subtask's checklist
+  const handlePromoteItem = async (item: ChecklistItem) => {
+    try {
+      await promoteChecklistItem(item.id);
+      await fetchChecklistItems();
+
+      setSuccessMessage(`"${item.text}" is now a subtask`);
+      setTimeout(() => setSuccessMessage(null), 5000);
+      onSubtaskCreated?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
   const handleToggleExpand = (id: string) => {
     setExpandedItems(prev => {
       const newSet = new Set(prev);
@@ -623,6 +754,14 @@ export function TaskChecklist({ taskId }: TaskChecklistProps) {
               <Plus className="h-4 w-4" />
             </button>
             
+            <button
+              onClick={() => handlePromoteItem(item)}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              title="Convert to subtask"
+            >
+              <ListTree className="h-4 w-4" />
+            </button>
+            
             <button
               onClick={() => handleDeleteItem(item.id)}
               className="p-1 text-gray-400 hover:text-red-600"
@@ -4,6 +4,8 @@ import { Trash2 } from 'lucide-react';
 import { TaskComment } from '../lib/types';
 import { useAuthStore } from '../lib/store';
 import { MentionInput } from './MentionInput';
+import { TaskKeyLink } from './TaskKeyLink';
+import { splitTaskReferences } from '../lib/taskKeys';
 import { logDebugEvent, DebugLevel, DebugEventType } from '../lib/debugSystem';
 
 interface TaskCommentsProps {
@@ -43,7 +45,7 @@ export function TaskComments({ comments, onAddComment, onDeleteComment }: TaskCo
     }
   };
 
-  // Function to highlight @mentions in comment text
+  // Function to highlight @mentions and link #task keys in comment text
   function renderCommentText(text: string) {
     const parts = text.split(/(@[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g);
     return parts.map((part, index) => {
@@ -54,7 +56,11 @@ export function TaskComments({ comments, onAddComment, onDeleteComment }: TaskCo
           </span>
         );
       }
-      return part;
+      return splitTaskReferences(part).map((reference, referenceIndex) => reference.taskKey ? (
+        <TaskKeyLink key={`${index}-${referenceIndex}`} taskKey={reference.taskKey}>
+          {reference.text}
+        </TaskKeyLink>
+      ) : reference.text);
     });
   }
 
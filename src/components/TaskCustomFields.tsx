@@ -0,0 +1,171 @@
+import { CustomField, CustomFieldValue } from '../lib/types';
+import { formatCustomFieldValue, isEmptyCustomFieldValue } from '../lib/customFields';
+
+interface TaskCustomFieldsProps {
+  fields: CustomField[];
+  values: Record<string, CustomFieldValue>;
+  users: { id: string; email: string }[];
+  onChange: (fieldId: string, value: CustomFieldValue) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+
+export function TaskCustomFields({ fields, values, users, onChange, disabled = false }: TaskCustomFieldsProps) {
+  const activeFields = fields.filter(field => !field.is_archived);
+  // Archived fields are read-only but still show what was recorded while they were in use
+  const archivedFields = fields.filter(field => field.is_archived && !isEmptyCustomFieldValue(values[field.id]));
+
+  if (activeFields.length === 0 && archivedFields.length === 0) {
+    return null;
+  }
+
+  const renderInput = (field: CustomField) => {
+    const value = values[field.id];
+    const inputId = `custom_field_${field.id}`;
+
+    switch (field.field_type) {
+      case 'number':
+      case 'currency':
+        return (
+          <input
+            type="number"
+            id={inputId}
+            step={field.field_type === 'currency' ? '0.01' : 'any'}
+            value={value === undefined || value === null ? '' : String(value)}
+            onChange={(e) => onChange(field.id, e.target.value === '' ? null : parseFloat(e.target.value))}
+            className={inputClassName}
+            disabled={disabled}
+          />
+        );
+      case 'date':
+        return (
+          <input
+            type="date"
+            id={inputId}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.id, e.target.value || null)}
+            className={inputClassName}
+            disabled={disabled}
+          />
+        );
+      case 'checkbox':
+        return (
+          <div className="mt-2">
+            <input
+              type="checkbox"
+              id={inputId}
+              checked={value === true}
+              onChange={(e) => onChange(field.id, e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              disabled={disabled}
+            />
+          </div>
+        );
+      case 'single_select':
+        return (
+          <select
+            id={inputId}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.id, e.target.value || null)}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            <option value="">None</option>
+            {field.options.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        );
+      case 'multi_select': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="mt-1 flex flex-wrap gap-2">
+            {field.options.map(option => {
+              const isSelected = selected.includes(option.id);
+              return (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => onChange(
+                    field.id,
+                    isSelected ? selected.filter(id => id !== option.id) : [...selected, option.id]
+                  )}
+                  className="px-2 py-1 rounded-full text-xs font-medium border"
+                  style={isSelected
+                    ? { backgroundColor: `${option.color}20`, color: option.color, borderColor: option.color }
+                    : { borderColor: '#D1D5DB', color: '#6B7280' }}
+                  disabled={disabled}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+        );
+      }
+      case 'user': {
+        const selectedId = value && typeof value === 'object' && !Array.isArray(value) ? value.id : '';
+        return (
+          <select
+            id={inputId}
+            value={selectedId}
+            onChange={(e) => {
+              const user = users.find(u => u.id === e.target.value);
+              onChange(field.id, user ? { id: user.id, email: user.email } : null);
+            }}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            <option value="">Unassigned</option>
+            {users.map(user => (
+              <option key={user.id} value={user.id}>{user.email}</option>
+            ))}
+          </select>
+        );
+      }
+      default:
+        return (
+          <input
+            type="text"
+            id={inputId}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.id, e.target.value)}
+            className={inputClassName}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {activeFields.length > 0 && (
+        <div className="grid grid-cols-2 gap-4">
+          {activeFields.map(field => (
+            <div key={field.id} className={field.field_type === 'multi_select' || field.field_type === 'text' ? 'col-span-2' : ''}>
+              <label htmlFor={`custom_field_${field.id}`} className="block text-sm font-medium text-gray-700">
+                {field.name}
+              </label>
+              {renderInput(field)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {archivedFields.length > 0 && (
+        <div className="rounded-md bg-gray-50 p-3">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Archived Fields</p>
+          <dl className="mt-2 grid grid-cols-2 gap-2">
+            {archivedFields.map(field => (
+              <div key={field.id}>
+                <dt className="text-xs text-gray-500">{field.name}</dt>
+                <dd className="text-sm text-gray-700">{formatCustomFieldValue(field, values[field.id])}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Lock, Unlock, Plus, X, ArrowRight } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuthStore } from '../lib/store';
+import { useAppContext } from '../lib/AppContext';
+import { Task, TaskDependency, TaskDependencyLink } from '../lib/types';
+import {
+  fetchDependencyLinks,
+  addTaskDependency,
+  removeTaskDependency,
+  attachDependencies
+} from '../lib/services/dependencyService';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
+import { getStatusLabel, isTaskCompleted } from '../lib/workflow';
+
+interface TaskDependenciesProps {
+  taskId: string;
+  clientId: string;
+  onDependenciesChanged?: () => void;
+}
+
+export function TaskDependencies({ taskId, clientId, onDependenciesChanged }: TaskDependenciesProps) {
+  const { user } = useAuthStore();
+  const { systemSettings } = useAppContext();
+  const [clientTasks, setClientTasks] = useState<Task[]>([]);
+  const [links, setLinks] = useState<TaskDependencyLink[]>([]);
+  const [relation, setRelation] = useState<'blocked_by' | 'blocks'>('blocked_by');
+  const [selectedTaskId, setSelectedTaskId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  useEffect(() => {
+    fetchData();
+  }, [taskId, clientId]);
+
+  async function fetchData() {
+    try {
+      setIsLoading(true);
+
+      logDebugEvent(
+        DebugLevel.INFO,
+        DebugEventType.API_CALL,
+        'Fetching tasks for dependency picker',
+        { taskId, clientId }
+      );
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, status, status_category, board_id')
+        .eq('client_id', clientId)
+        .is('deleted_at', null)
+        .order('title');
+
+      if (error) {
+        logApiCall('tasks.select', false, { error });
+        throw error;
+      }
+
+      logApiCall('tasks.select', true, { count: data?.length });
+
+      const tasksData = (data || []) as Task[];
+      setClientTasks(tasksData);
+
+      // Load every link between this client's tasks so cycles can be caught before saving
+      setLinks(await fetchDependencyLinks(tasksData.map(task => task.id)));
+    } catch (err) {
+      console.error('Error fetching dependencies:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const currentTask = useMemo(() => {
+    const task = clientTasks.find(t => t.id === taskId);
+    return task ? attachDependencies([task], links, clientTasks)[0] : null;
+  }, [clientTasks, links, taskId]);
+
+  const blockedBy = currentTask?.dependencies?.filter(d => d.type === 'blocked_by') || [];
+  const blocks = currentTask?.dependencies?.filter(d => d.type === 'blocks') || [];
+
+  // Tasks that aren't already linked to this one
+  const availableTasks = clientTasks.filter(task =>
+    task.id !== taskId && !currentTask?.dependencies?.some(d => d.task_id === task.id)
+  );
+
+  async function handleAdd() {
+    if (!selectedTaskId) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const link = relation === 'blocked_by'
+        ? await addTaskDependency(taskId, selectedTaskId, links, user?.id)
+        : await addTaskDependency(selectedTaskId, taskId, links, user?.id);
+
+      setLinks([...links, link]);
+      setSelectedTaskId('');
+      onDependenciesChanged?.();
+    } catch (err) {
+      console.error('Error adding dependency:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleRemove(linkId: string) {
+    try {
+      setError(null);
+      await removeTaskDependency(linkId);
+      setLinks(links.filter(link => link.id !== linkId));
+      onDependenciesChanged?.();
+    } catch (err) {
+      console.error('Error removing dependency:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  }
+
+  function renderStatus(dependency: TaskDependency) {
+    return (
+      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+        isTaskCompleted(dependency) ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+      }`}>
+        {getStatusLabel(dependency.status)}
+      </span>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {/* Add dependency */}
+      <div className="flex items-end gap-2">
+        <div>
+          <label htmlFor="dependency_relation" className="block text-sm font-medium text-gray-700">
+            This task
+          </label>
+          <select
+            id="dependency_relation"
+            value={relation}
+            onChange={(e) => setRelation(e.target.value as 'blocked_by' | 'blocks')}
+            className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          >
+            <option value="blocked_by">is blocked by</option>
+            <option value="blocks">blocks</option>
+          </select>
+        </div>
+        <div className="flex-1">
+          <label htmlFor="dependency_task" className="block text-sm font-medium text-gray-700">
+            Task
+          </label>
+          <select
+            id="dependency_task"
+            value={selectedTaskId}
+            onChange={(e) => setSelectedTaskId(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          >
+            <option value="">Select a task...</option>
+            {availableTasks.map(task => (
+              <option key={task.id} value={task.id}>
+                {task.title}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleAdd}
+          disabled={!selectedTaskId || isSaving}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+          style={{ backgroundColor: primaryColor }}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </button>
+      </div>
+
+      {/* Blocked by */}
+      <div>
+        <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+          <Lock className="h-4 w-4 mr-2 text-yellow-600" />
+          Blocked by
+        </h4>
+        {blockedBy.length === 0 ? (
+          <p className="text-sm text-gray-500">This task isn't waiting on anything.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {blockedBy.map(dependency => (
+              <li key={dependency.id} className="flex items-center justify-between px-3 py-2">
+                <span className="text-sm text-gray-900 truncate">{dependency.title}</span>
+                <div className="flex items-center space-x-2">
+                  {renderStatus(dependency)}
+                  <button
+                    onClick={() => handleRemove(dependency.id)}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove dependency"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Blocks */}
+      <div>
+        <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+          <Unlock className="h-4 w-4 mr-2 text-gray-500" />
+          Blocks
+        </h4>
+        {blocks.length === 0 ? (
+          <p className="text-sm text-gray-500">No tasks are waiting on this one.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {blocks.map(dependency => (
+              <li key={dependency.id} className="flex items-center justify-between px-3 py-2">
+                <span className="flex items-center text-sm text-gray-900 truncate">
+                  <ArrowRight className="h-3.5 w-3.5 mr-1 text-gray-400" />
+                  {dependency.title}
+                </span>
+                <div className="flex items-center space-x-2">
+                  {renderStatus(dependency)}
+                  <button
+                    onClick={() => handleRemove(dependency.id)}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove dependency"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
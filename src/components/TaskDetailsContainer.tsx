@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
 import { X, Save, Trash2 } from 'lucide-react';
 import { useAuthStore } from '../lib/store';
-import { Task } from '../lib/types';
+import { Task, CustomField, CustomFieldValue } from '../lib/types';
 import { format } from 'date-fns';
 import { TaskComments } from './TaskComments';
 import { TaskAttachments } from './TaskAttachments';
@@ -11,6 +11,7 @@ import { TaskSopSelector } from './TaskSopSelector';
 import { TaskChecklist } from './TaskChecklist';
 import { useAppContext } from '../lib/AppContext';
 import { logDebugEvent, DebugLevel, DebugEventType } from '../lib/debugSystem';
+import { fetchCustomFields, fetchCustomFieldValues, saveTaskCustomFieldValues } from '../lib/services/customFieldService';
 import { 
   fetchTask, 
   fetchAssignedUserEmail, 
@@ -67,6 +68,9 @@ export function TaskDetailsContainer({
   const [activeTab, setActiveTab] = useState<'details' | 'comments' | 'attachments' | 'time' | 'sops' | 'checklist'>('details');
   const [users, setUsers] = useState<{ id: string; email: string }[]>([]);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, CustomFieldValue>>({});
+  const [customFieldChanges, setCustomFieldChanges] = useState<Record<string, CustomFieldValue>>({});
 
   // Get theme colors
   const primaryColor = systemSettings?.primary_color || '#EF4444';
@@ -78,6 +82,7 @@ export function TaskDetailsContainer({
       setIsLoading(false);
     }
     loadUsers();
+    loadCustomFields();
   }, [taskId]);
 
   async function loadTaskDetails() {
@@ -123,6 +128,25 @@ export function TaskDetailsContainer({
     }
   }
 
+  async function loadCustomFields() {
+    try {
+      const [fields, values] = await Promise.all([
+        fetchCustomFields(boardId),
+        taskId ? fetchCustomFieldValues([taskId]) : Promise.resolve([])
+      ]);
+
+      setCustomFields(fields);
+      setCustomFieldValues(Object.fromEntries(values.map(row => [row.field_id, row.value])));
+    } catch (err) {
+      console.error('Error loading custom fields:', err);
+    }
+  }
+
+  function handleCustomFieldChange(fieldId: string, value: CustomFieldValue) {
+    setCustomFieldValues(current => ({ ...current, [fieldId]: value }));
+    setCustomFieldChanges(current => ({ ...current, [fieldId]: value }));
+  }
+
   async function loadUsers() {
     try {
       const usersData = await fetchUsers();
@@ -154,7 +178,8 @@ export function TaskDetailsContainer({
         agency_id: agencyId
       };
 
-      await createOrUpdateTask(taskId, taskData);
+      const savedTaskId = await createOrUpdateTask(taskId, taskData);
+      await saveTaskCustomFieldValues(savedTaskId, customFieldChanges);
       onTaskUpdated();
       onClose();
     } catch (err) {
@@ -166,7 +191,7 @@ export function TaskDetailsContainer({
   }
 
   async function handleDeleteTask() {
-    if (!taskId || !confirm('Are you sure you want to delete this task? This action cannot be undone.')) {
+    if (!taskId || !confirm('Move this task to the trash? An admin can restore it from there.')) {
       return;
     }
 
@@ -301,6 +326,9 @@ export function TaskDetailsContainer({
                         onCancel={onClose}
                         taskId={taskId}
                         primaryColor={primaryColor}
+                        customFields={customFields}
+                        customFieldValues={customFieldValues}
+                        onCustomFieldChange={handleCustomFieldChange}
                       />
                     )}
 
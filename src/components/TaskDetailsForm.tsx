@@ -1,5 +1,7 @@
 import React from 'react';
 import { Trash2 } from 'lucide-react';
+import { CustomField, CustomFieldValue } from '../lib/types';
+import { TaskCustomFields } from './TaskCustomFields';
 
 interface TaskDetailsFormProps {
   formData: {
@@ -33,6 +35,9 @@ interface TaskDetailsFormProps {
   onCancel: () => void;
   taskId: string | null;
   primaryColor: string;
+  customFields?: CustomField[];
+  customFieldValues?: Record<string, CustomFieldValue>;
+  onCustomFieldChange?: (fieldId: string, value: CustomFieldValue) => void;
 }
 
 export function TaskDetailsForm({
@@ -46,7 +51,10 @@ export function TaskDetailsForm({
   canEdit,
   onCancel,
   taskId,
-  primaryColor
+  primaryColor,
+  customFields = [],
+  customFieldValues = {},
+  onCustomFieldChange
 }: TaskDetailsFormProps) {
   return (
     <form onSubmit={onSubmit} className="space-y-4">
@@ -191,6 +199,16 @@ export function TaskDetailsForm({
         </div>
       </div>
 
+      {onCustomFieldChange && (
+        <TaskCustomFields
+          fields={customFields}
+          values={customFieldValues}
+          users={users}
+          onChange={onCustomFieldChange}
+          disabled={!canEdit}
+        />
+      )}
+
       <div className="flex justify-between pt-4">
         <div>
           {taskId && (
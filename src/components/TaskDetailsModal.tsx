@@ -1,15 +1,31 @@
 import React, { useState, useEffect, Fragment } from 'react';
 import { Dialog, Transition } from '@headlessui/react';
-import { X, Save, Trash2, Clock, Calendar, User, Tag, FileText, Link2, CheckSquare } from 'lucide-react';
+import { X, Save, Trash2, Clock, Calendar, User, Tag, FileText, Link2, CheckSquare, Lock, Repeat, ListTree, ArrowRightLeft, History } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { useAuthStore } from '../lib/store';
-import { Task, TaskComment, TaskAttachment } from '../lib/types';
-import { format } from 'date-fns';
+import { useAuthStore, canDeleteTasks } from '../lib/store';
+import { Task, TaskComment, TaskAttachment, TaskActivityType, BoardColumn, CustomField, CustomFieldValue } from '../lib/types';
 import { TaskComments } from './TaskComments';
 import { TaskAttachments } from './TaskAttachments';
 import { TaskTimer } from './TaskTimer';
 import { TaskSopSelector } from './TaskSopSelector';
 import { TaskChecklist } from './TaskChecklist';
+import { TaskDependencies } from './TaskDependencies';
+import { TaskRecurrenceEditor } from './TaskRecurrenceEditor';
+import { TaskCustomFields } from './TaskCustomFields';
+import { TaskSubtasks } from './TaskSubtasks';
+import { TaskTransferModal } from './TaskTransferModal';
+import { TaskActivityList } from './TaskActivity';
+import { PresenceAvatars } from './PresenceAvatars';
+import { TaskMergeDialog } from './TaskMergeDialog';
+import { handleRecurringTaskCompleted, updateFutureOccurrences } from '../lib/services/recurrenceService';
+import { fetchCustomFields, fetchCustomFieldValues, saveTaskCustomFieldValues } from '../lib/services/customFieldService';
+import { fetchColumns } from './TaskBoardService';
+import { createOrUpdateTask, deleteTask, fetchTaskActivities, TaskConflictError } from '../lib/services/taskDetailsService';
+import { restoreTasks } from '../lib/services/trashService';
+import { useUndoHistory, recordTaskEdit, describeTask } from '../lib/undoHistory';
+import { BoardViewer, SyncedTable } from '../lib/hooks/useBoardSync';
+import { TaskFieldConflict, TaskFormData, mergeTaskForms, taskToFormData } from '../lib/taskMerge';
+import { getColumnForStatus, getDefaultStatus, getStatusLabel, isTaskCompleted } from '../lib/workflow';
 import { useAppContext } from '../lib/AppContext';
 import { logDebugEvent, DebugLevel, DebugEventType } from '../lib/debugSystem';
 
@@ -20,6 +36,8 @@ interface TaskDetailsModalProps {
   agencyId: string;
   onClose: () => void;
   onTaskUpdated: () => void;
+  viewers?: BoardViewer[]; // Other users with this task open
+  liveChange?: { table: SyncedTable; at: number } | null; // Latest change to this task made elsewhere
 }
 
 export function TaskDetailsModal({
@@ -28,7 +46,9 @@ export function TaskDetailsModal({
   clientId,
   agencyId,
   onClose,
-  onTaskUpdated
+  onTaskUpdated,
+  viewers = [],
+  liveChange
 }: TaskDetailsModalProps) {
   const { user, role } = useAuthStore();
   const { systemSettings } = useAppContext();
@@ -36,10 +56,11 @@ export function TaskDetailsModal({
   const [assignedUserEmail, setAssignedUserEmail] = useState<string | null>(null);
   const [comments, setComments] = useState<TaskComment[]>([]);
   const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [activities, setActivities] = useState<TaskActivityType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<TaskFormData>({
     title: '',
     description: '',
     status: 'inbox',
@@ -50,9 +71,24 @@ export function TaskDetailsModal({
     estimated_hours: '',
     estimated_cost: ''
   });
-  const [activeTab, setActiveTab] = useState<'details' | 'comments' | 'attachments' | 'time' | 'sops' | 'checklist'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'comments' | 'attachments' | 'time' | 'sops' | 'checklist' | 'subtasks' | 'dependencies' | 'recurrence' | 'activity'>('details');
   const [users, setUsers] = useState<{ id: string; email: string }[]>([]);
+  const [columns, setColumns] = useState<BoardColumn[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, CustomFieldValue>>({});
+  // Only values edited in this session are written back
+  const [customFieldChanges, setCustomFieldChanges] = useState<Record<string, CustomFieldValue>>({});
   const [isDeleting, setIsDeleting] = useState(false);
+  const [needsBoardRefresh, setNeedsBoardRefresh] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [seriesEditScope, setSeriesEditScope] = useState<'this' | 'future'>('this');
+  const [checklistRevision, setChecklistRevision] = useState(0);
+  // Fields someone else saved while this form was open, waiting for the user to pick a version
+  const [mergeConflict, setMergeConflict] = useState<{
+    serverTask: Task;
+    merged: TaskFormData;
+    conflicts: TaskFieldConflict[];
+  } | null>(null);
 
   // Get theme colors
   const primaryColor = systemSettings?.primary_color || '#EF4444';
@@ -66,8 +102,28 @@ export function TaskDetailsModal({
       setIsLoading(false);
     }
     fetchUsers();
+    fetchBoardColumns();
+    fetchCustomFieldData();
   }, [taskId]);
 
+  // Pick up comments and checklist items added elsewhere; the form is left alone so edits in progress survive
+  useEffect(() => {
+    if (liveChange?.table === 'task_comments') {
+      fetchComments();
+    } else if (liveChange?.table === 'task_checklist_items') {
+      setChecklistRevision(revision => revision + 1);
+    }
+  }, [liveChange]);
+
+  // Reload on every visit, since saves and automations add entries while the modal is open
+  useEffect(() => {
+    if (activeTab !== 'activity' || !taskId) return;
+
+    fetchTaskActivities(taskId)
+      .then(setActivities)
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'));
+  }, [activeTab, taskId]);
+
   async function fetchTask() {
     try {
       setIsLoading(true);
@@ -105,17 +161,7 @@ export function TaskDetailsModal({
       }
 
       setTask(taskData);
-      setFormData({
-        title: taskData.title || '',
-        description: taskData.description || '',
-        status: taskData.status || 'inbox',
-        priority: taskData.priority || 'medium',
-        assigned_to: taskData.assigned_to || '',
-        start_date: taskData.start_date ? format(new Date(taskData.start_date), 'yyyy-MM-dd') : '',
-        finish_date: taskData.finish_date ? format(new Date(taskData.finish_date), 'yyyy-MM-dd') : '',
-        estimated_hours: taskData.estimated_hours?.toString() || '',
-        estimated_cost: taskData.estimated_cost?.toString() || ''
-      });
+      setFormData(taskToFormData(taskData));
       
       logDebugEvent(
         DebugLevel.SUCCESS,
@@ -168,6 +214,39 @@ export function TaskDetailsModal({
     }
   }
 
+  async function fetchBoardColumns() {
+    try {
+      const data = await fetchColumns(boardId);
+      setColumns(data);
+
+      // New tasks start in the board's first backlog column
+      if (!taskId) {
+        setFormData(current => ({ ...current, status: getDefaultStatus(data) }));
+      }
+    } catch (err) {
+      console.error('Error fetching columns:', err);
+    }
+  }
+
+  async function fetchCustomFieldData() {
+    try {
+      const [fields, values] = await Promise.all([
+        fetchCustomFields(boardId),
+        taskId ? fetchCustomFieldValues([taskId]) : Promise.resolve([])
+      ]);
+
+      setCustomFields(fields);
+      setCustomFieldValues(Object.fromEntries(values.map(row => [row.field_id, row.value])));
+    } catch (err) {
+      console.error('Error fetching custom fields:', err);
+    }
+  }
+
+  const handleCustomFieldChange = (fieldId: string, value: CustomFieldValue) => {
+    setCustomFieldValues(current => ({ ...current, [fieldId]: value }));
+    setCustomFieldChanges(current => ({ ...current, [fieldId]: value }));
+  };
+
   async function fetchUsers() {
     try {
       const { data, error } = await supabase
@@ -182,6 +261,62 @@ export function TaskDetailsModal({
     }
   }
 
+  function buildTaskData(data: TaskFormData) {
+    return {
+      title: data.title,
+      description: data.description,
+      status: data.status,
+      priority: data.priority,
+      assigned_to: data.assigned_to || null,
+      start_date: data.start_date || null,
+      finish_date: data.finish_date || null,
+      estimated_hours: data.estimated_hours ? parseFloat(data.estimated_hours) : null,
+      estimated_cost: data.estimated_cost ? parseFloat(data.estimated_cost) : null,
+      board_id: boardId,
+      client_id: clientId,
+      agency_id: agencyId
+    } as Partial<Task>;
+  }
+
+  // Save the form over `baseTask`, loaded as `base`. Changes someone else saved in between are merged in;
+  // returns false when fields they changed too are left for the user to pick from.
+  async function saveExistingTask(data: TaskFormData, base: TaskFormData, baseTask: Task): Promise<boolean> {
+    const taskData = buildTaskData(data);
+
+    try {
+      await createOrUpdateTask(taskId, taskData, baseTask.version);
+    } catch (err) {
+      if (!(err instanceof TaskConflictError)) throw err;
+
+      const theirs = taskToFormData(err.serverTask);
+      const { merged, conflicts } = mergeTaskForms(base, data, theirs);
+      if (conflicts.length > 0) {
+        setMergeConflict({ serverTask: err.serverTask, merged, conflicts });
+        return false;
+      }
+      return saveExistingTask(merged, theirs, err.serverTask);
+    }
+
+    recordTaskEdit(baseTask, taskData, `Edited ${describeTask(baseTask)}`);
+
+    if (baseTask.recurrence_id) {
+      // Carry edited fields over to the rest of the series when asked to
+      if (seriesEditScope === 'future') {
+        const changedFields = Object.fromEntries(
+          Object.entries(taskData).filter(([key, value]) => baseTask[key as keyof Task] !== value)
+        );
+        await updateFutureOccurrences(baseTask, changedFields);
+      }
+
+      if (isTaskCompleted({ status: data.status }, columns) && !isTaskCompleted(baseTask, columns)) {
+        await handleRecurringTaskCompleted(baseTask);
+      }
+    }
+
+    await saveTaskCustomFieldValues(baseTask.id, customFieldChanges);
+    return true;
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setIsSaving(true);
@@ -194,37 +329,12 @@ export function TaskDetailsModal({
         taskId ? 'Updating task' : 'Creating task',
         { taskId, formData }
       );
-      
-      const taskData = {
-        title: formData.title,
-        description: formData.description,
-        status: formData.status,
-        priority: formData.priority,
-        assigned_to: formData.assigned_to || null,
-        start_date: formData.start_date || null,
-        finish_date: formData.finish_date || null,
-        estimated_hours: formData.estimated_hours ? parseFloat(formData.estimated_hours) : null,
-        estimated_cost: formData.estimated_cost ? parseFloat(formData.estimated_cost) : null,
-        board_id: boardId,
-        client_id: clientId,
-        agency_id: agencyId
-      };
-
-      if (taskId) {
-        // Update existing task
-        const { error } = await supabase
-          .from('tasks')
-          .update(taskData)
-          .eq('id', taskId);
-
-        if (error) throw error;
-      } else {
-        // Create new task
-        const { error } = await supabase
-          .from('tasks')
-          .insert([taskData]);
 
-        if (error) throw error;
+      if (taskId && task) {
+        if (!await saveExistingTask(formData, taskToFormData(task), task)) return;
+      } else {
+        const newTaskId = await createOrUpdateTask(null, buildTaskData(formData));
+        await saveTaskCustomFieldValues(newTaskId, customFieldChanges);
       }
 
       onTaskUpdated();
@@ -251,8 +361,37 @@ export function TaskDetailsModal({
     }
   }
 
+  async function handleResolveConflict(choices: Record<string, 'mine' | 'theirs'>) {
+    if (!mergeConflict) return;
+
+    const { serverTask, merged, conflicts } = mergeConflict;
+    const resolved = { ...merged };
+    conflicts.forEach(conflict => {
+      if (choices[conflict.field] === 'theirs') {
+        resolved[conflict.field] = conflict.theirs;
+      }
+    });
+
+    setMergeConflict(null);
+    setFormData(resolved);
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      if (!await saveExistingTask(resolved, taskToFormData(serverTask), serverTask)) return;
+
+      onTaskUpdated();
+      onClose();
+    } catch (err) {
+      console.error('Error saving task:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
   async function handleDeleteTask() {
-    if (!taskId || !confirm('Are you sure you want to delete this task? This action cannot be undone.')) {
+    if (!taskId || !confirm('Move this task and its subtasks to the trash? An admin can restore them from there.')) {
       return;
     }
 
@@ -266,12 +405,17 @@ export function TaskDetailsModal({
         { taskId }
       );
       
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', taskId);
+      await deleteTask(taskId);
 
-      if (error) throw error;
+      if (task) {
+        useUndoHistory.getState().record({
+          label: `Moved ${describeTask(task)} to the trash`,
+          undo: () => restoreTasks([taskId]),
+          redo: async () => {
+            await deleteTask(taskId);
+          }
+        });
+      }
 
       onTaskUpdated();
       onClose();
@@ -387,6 +531,21 @@ export function TaskDetailsModal({
     }
   }
 
+  // Refresh the board on close if dependencies or the schedule were edited from the side tabs
+  function handleClose() {
+    if (needsBoardRefresh) {
+      onTaskUpdated();
+    }
+    onClose();
+  }
+
+  // A moved task has left this board; a copy may have landed on it
+  function handleTransferred() {
+    setIsTransferOpen(false);
+    onTaskUpdated();
+    onClose();
+  }
+
   // Check if user has permission to edit
   const canEdit = ['system_admin', 'agency_admin', 'client_admin'].includes(role) || 
                  (task?.assigned_to === user?.id);
@@ -401,7 +560,7 @@ export function TaskDetailsModal({
 
   return (
     <Transition appear show={true} as={Fragment}>
-      <Dialog as="div" className="relative z-10" onClose={onClose}>
+      <Dialog as="div" className="relative z-10" onClose={handleClose}>
         <Transition.Child
           as={Fragment}
           enter="ease-out duration-300"
@@ -432,9 +591,15 @@ export function TaskDetailsModal({
                     className="text-lg font-medium leading-6 text-gray-900"
                   >
                     {taskId ? 'Edit Task' : 'Create Task'}
+                    {task?.task_key && (
+                      <span className="ml-2 text-sm font-mono font-normal text-gray-500">{task.task_key}</span>
+                    )}
                   </Dialog.Title>
+                  <div className="ml-auto mr-4">
+                    <PresenceAvatars viewers={viewers} />
+                  </div>
                   <button
-                    onClick={onClose}
+                    onClick={handleClose}
                     className="text-gray-400 hover:text-gray-500"
                   >
                     <X className="h-6 w-6" />
@@ -475,6 +640,18 @@ export function TaskDetailsModal({
                         <CheckSquare className="h-5 w-5 mr-2" />
                         Checklist
                       </button>
+                      <button
+                        onClick={() => setActiveTab('subtasks')}
+                        className={`flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                          activeTab === 'subtasks'
+                            ? 'bg-blue-50 text-blue-700'
+                            : 'text-gray-600 hover:bg-gray-50'
+                        }`}
+                        style={activeTab === 'subtasks' ? { backgroundColor: `${primaryColor}10`, color: primaryColor } : {}}
+                      >
+                        <ListTree className="h-5 w-5 mr-2" />
+                        Subtasks
+                      </button>
                       <button
                         onClick={() => setActiveTab('comments')}
                         className={`flex items-center px-3 py-2 text-sm font-medium rounded-md ${
@@ -523,6 +700,42 @@ export function TaskDetailsModal({
                         <Tag className="h-5 w-5 mr-2" />
                         SOPs
                       </button>
+                      <button
+                        onClick={() => setActiveTab('dependencies')}
+                        className={`flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                          activeTab === 'dependencies'
+                            ? 'bg-blue-50 text-blue-700'
+                            : 'text-gray-600 hover:bg-gray-50'
+                        }`}
+                        style={activeTab === 'dependencies' ? { backgroundColor: `${primaryColor}10`, color: primaryColor } : {}}
+                      >
+                        <Lock className="h-5 w-5 mr-2" />
+                        Dependencies
+                      </button>
+                      <button
+                        onClick={() => setActiveTab('recurrence')}
+                        className={`flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                          activeTab === 'recurrence'
+                            ? 'bg-blue-50 text-blue-700'
+                            : 'text-gray-600 hover:bg-gray-50'
+                        }`}
+                        style={activeTab === 'recurrence' ? { backgroundColor: `${primaryColor}10`, color: primaryColor } : {}}
+                      >
+                        <Repeat className="h-5 w-5 mr-2" />
+                        Repeat
+                      </button>
+                      <button
+                        onClick={() => setActiveTab('activity')}
+                        className={`flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                          activeTab === 'activity'
+                            ? 'bg-blue-50 text-blue-700'
+                            : 'text-gray-600 hover:bg-gray-50'
+                        }`}
+                        style={activeTab === 'activity' ? { backgroundColor: `${primaryColor}10`, color: primaryColor } : {}}
+                      >
+                        <History className="h-5 w-5 mr-2" />
+                        Activity
+                      </button>
                     </div>
                   </div>
 
@@ -568,10 +781,12 @@ export function TaskDetailsModal({
                               onChange={(e) => setFormData({ ...formData, status: e.target.value })}
                               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                             >
-                              <option value="inbox">Inbox</option>
-                              <option value="todo">To Do</option>
-                              <option value="doing">Doing</option>
-                              <option value="done">Done</option>
+                              {columns.map(column => (
+                                <option key={column.id} value={column.key}>{column.name}</option>
+                              ))}
+                              {!getColumnForStatus(columns, formData.status) && (
+                                <option value={formData.status}>{getStatusLabel(formData.status)}</option>
+                              )}
                             </select>
                           </div>
 
@@ -671,9 +886,47 @@ export function TaskDetailsModal({
                           </div>
                         </div>
 
+                        <TaskCustomFields
+                          fields={customFields}
+                          values={customFieldValues}
+                          users={users}
+                          onChange={handleCustomFieldChange}
+                        />
+
+                        {task?.recurrence_id && (
+                          <div className="rounded-md bg-gray-50 p-3">
+                            <span className="flex items-center text-sm font-medium text-gray-700">
+                              <Repeat className="h-4 w-4 mr-2" />
+                              This task repeats. Apply changes to:
+                            </span>
+                            <div className="mt-2 flex space-x-6">
+                              <label className="flex items-center text-sm text-gray-700">
+                                <input
+                                  type="radio"
+                                  name="series_edit_scope"
+                                  checked={seriesEditScope === 'this'}
+                                  onChange={() => setSeriesEditScope('this')}
+                                  className="mr-2"
+                                />
+                                This occurrence only
+                              </label>
+                              <label className="flex items-center text-sm text-gray-700">
+                                <input
+                                  type="radio"
+                                  name="series_edit_scope"
+                                  checked={seriesEditScope === 'future'}
+                                  onChange={() => setSeriesEditScope('future')}
+                                  className="mr-2"
+                                />
+                                This and all future occurrences
+                              </label>
+                            </div>
+                          </div>
+                        )}
+
                         <div className="flex justify-between pt-4">
-                          <div>
-                            {taskId && (
+                          <div className="flex space-x-3">
+                            {taskId && canDeleteTasks(role) && (
                               <button
                                 type="button"
                                 onClick={handleDeleteTask}
@@ -683,11 +936,21 @@ export function TaskDetailsModal({
                                 {isDeleting ? 'Deleting...' : 'Delete Task'}
                               </button>
                             )}
+                            {taskId && role !== 'client_user' && (
+                              <button
+                                type="button"
+                                onClick={() => setIsTransferOpen(true)}
+                                className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                              >
+                                <ArrowRightLeft className="w-4 h-4 mr-2" />
+                                Move / Copy
+                              </button>
+                            )}
                           </div>
                           <div className="flex space-x-3">
                             <button
                               type="button"
-                              onClick={onClose}
+                              onClick={handleClose}
                               className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                             >
                               Cancel
@@ -706,7 +969,21 @@ export function TaskDetailsModal({
                     )}
 
                     {activeTab === 'checklist' && taskId && (
-                      <TaskChecklist taskId={taskId} />
+                      <TaskChecklist
+                        taskId={taskId}
+                        liveRevision={checklistRevision}
+                        onSubtaskCreated={() => setNeedsBoardRefresh(true)}
+                      />
+                    )}
+
+                    {activeTab === 'subtasks' && taskId && task && (
+                      <TaskSubtasks
+                        task={task}
+                        columns={columns}
+                        clientId={clientId}
+                        agencyId={agencyId}
+                        onSubtasksChanged={() => setNeedsBoardRefresh(true)}
+                      />
                     )}
 
                     {activeTab === 'comments' && taskId && (
@@ -740,8 +1017,55 @@ export function TaskDetailsModal({
                         onClose={() => setActiveTab('details')}
                       />
                     )}
+
+                    {activeTab === 'dependencies' && taskId && (
+                      <TaskDependencies
+                        taskId={taskId}
+                        clientId={clientId}
+                        onDependenciesChanged={() => setNeedsBoardRefresh(true)}
+                      />
+                    )}
+
+                    {activeTab === 'recurrence' && taskId && task && (
+                      <TaskRecurrenceEditor
+                        task={{ ...task, client_id: clientId }}
+                        onRecurrenceChanged={() => {
+                          setNeedsBoardRefresh(true);
+                          fetchTask();
+                        }}
+                      />
+                    )}
+
+                    {activeTab === 'activity' && taskId && (
+                      activities.length > 0 ? (
+                        <TaskActivityList activities={activities} />
+                      ) : (
+                        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+                      )
+                    )}
                   </div>
                 </div>
+
+                {isTransferOpen && taskId && (
+                  <TaskTransferModal
+                    taskId={taskId}
+                    taskTitle={formData.title}
+                    boardId={boardId}
+                    clientId={clientId}
+                    onClose={() => setIsTransferOpen(false)}
+                    onTransferred={handleTransferred}
+                  />
+                )}
+
+                {mergeConflict && (
+                  <TaskMergeDialog
+                    conflicts={mergeConflict.conflicts}
+                    users={users}
+                    columns={columns}
+                    onResolve={handleResolveConflict}
+                    onCancel={() => setMergeConflict(null)}
+                  />
+                )}
               </Dialog.Panel>
             </Transition.Child>
           </div>
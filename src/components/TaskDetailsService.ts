@@ -200,11 +200,15 @@ export async function createOrUpdateTask(taskId: string | null, taskData: Partia
       }
       
       logApiCall('tasks.update', true, {});
+
+      return taskId;
     } else {
       // Create new task
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('tasks')
-        .insert([taskData]);
+        .insert([taskData])
+        .select('id')
+        .single();
 
       if (error) {
         logApiCall('tasks.insert', false, { error });
@@ -212,9 +216,9 @@ export async function createOrUpdateTask(taskId: string | null, taskData: Partia
       }
       
       logApiCall('tasks.insert', true, {});
+
+      return data.id as string;
     }
-    
-    return true;
   } catch (err) {
     console.error('Error saving task:', err);
     logDebugEvent(
@@ -236,17 +240,16 @@ export async function deleteTask(taskId: string) {
       { taskId }
     );
     
-    const { error } = await supabase
-      .from('tasks')
-      .delete()
-      .eq('id', taskId);
+    const { error } = await supabase.rpc('trash_tasks', {
+      p_task_ids: [taskId]
+    });
 
     if (error) {
-      logApiCall('tasks.delete', false, { error });
+      logApiCall('trash_tasks', false, { error });
       throw error;
     }
     
-    logApiCall('tasks.delete', true, {});
+    logApiCall('trash_tasks', true, {});
     
     return true;
   } catch (err) {
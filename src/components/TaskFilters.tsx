@@ -1,23 +1,21 @@
-import React, { useState } from 'react';
-import { Search, Filter, X, ChevronDown } from 'lucide-react';
-import { Task } from '../lib/types';
+import React, { useState, useMemo, useRef } from 'react';
+import { Search, Filter, X, ChevronDown, AlertCircle } from 'lucide-react';
+import { Task, CustomField, TaskFilterState, BoardColumn } from '../lib/types';
+import { getCustomFieldFilterOptions, isCustomFieldFilterable } from '../lib/customFields';
+import { getTaskQuerySuggestions, parseTaskQuery, TaskQuerySuggestion } from '../lib/taskQuery';
+import { useAuthStore } from '../lib/store';
 import { useAppContext } from '../lib/AppContext';
 
 interface TaskFiltersProps {
   searchTerm: string;
   onSearchChange: (term: string) => void;
-  filters: {
-    priority: string[];
-    assignee: string[];
-    dueDate: string | null;
-  };
-  onFilterChange: (filters: {
-    priority: string[];
-    assignee: string[];
-    dueDate: string | null;
-  }) => void;
+  filters: TaskFilterState;
+  onFilterChange: (filters: TaskFilterState) => void;
   users: { id: string; email: string }[];
   clearFilters: () => void;
+  customFields?: CustomField[];
+  tasks?: Task[];
+  columns?: BoardColumn[];
 }
 
 export function TaskFilters({
@@ -26,10 +24,32 @@ export function TaskFilters({
   filters,
   onFilterChange,
   users,
-  clearFilters
+  clearFilters,
+  customFields = [],
+  tasks = [],
+  columns = []
 }: TaskFiltersProps) {
   const { systemSettings } = useAppContext();
-  const [openFilter, setOpenFilter] = useState<'priority' | 'assignee' | 'dueDate' | null>(null);
+  const { user } = useAuthStore();
+  const [openFilter, setOpenFilter] = useState<'priority' | 'assignee' | 'dueDate' | `field:${string}` | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(0);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  const queryContext = useMemo(
+    () => ({ userId: user?.id, columns, customFields }),
+    [user?.id, columns, customFields]
+  );
+  const queryError = useMemo(
+    () => parseTaskQuery(searchTerm, queryContext).errors[0] || null,
+    [searchTerm, queryContext]
+  );
+  const completion = useMemo(
+    () => getTaskQuerySuggestions(searchTerm, cursor, queryContext, tasks),
+    [searchTerm, cursor, queryContext, tasks]
+  );
+  const suggestions = isSearchFocused ? completion.suggestions : [];
   
   // Get theme colors
   const primaryColor = systemSettings?.primary_color || '#EF4444';
@@ -63,11 +83,61 @@ export function TaskFilters({
     onFilterChange({ ...filters, dueDate: value });
   };
 
+  const filterableFields = customFields.filter(field => !field.is_archived && isCustomFieldFilterable(field));
+
+  const handleCustomFieldToggle = (fieldId: string, value: string) => {
+    const selected = filters.customFields[fieldId] || [];
+    const newSelected = selected.includes(value)
+      ? selected.filter(v => v !== value)
+      : [...selected, value];
+
+    onFilterChange({ ...filters, customFields: { ...filters.customFields, [fieldId]: newSelected } });
+  };
+
+  const hasCustomFieldFilters = Object.values(filters.customFields).some(selected => selected.length > 0);
+
   const hasActiveFilters = filters.priority.length > 0 || 
     filters.assignee.length > 0 || 
     filters.dueDate !== null ||
+    hasCustomFieldFilters ||
     searchTerm !== '';
 
+  const applySuggestion = (suggestion: TaskQuerySuggestion) => {
+    const newTerm = searchTerm.slice(0, completion.start) + suggestion.insert + searchTerm.slice(completion.end);
+    const newCursor = completion.start + suggestion.insert.length;
+    onSearchChange(newTerm);
+    setCursor(newCursor);
+    setHighlightedSuggestion(0);
+
+    // Keep typing where the suggestion ended
+    requestAnimationFrame(() => {
+      searchInputRef.current?.setSelectionRange(newCursor, newCursor);
+    });
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlightedSuggestion((highlightedSuggestion + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightedSuggestion((highlightedSuggestion - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        applySuggestion(suggestions[Math.min(highlightedSuggestion, suggestions.length - 1)]);
+        break;
+      case 'Escape':
+        setIsSearchFocused(false);
+        break;
+    }
+  };
+
   // Close dropdown when clicking outside
   React.useEffect(() => {
     const handleClickOutside = () => {
@@ -90,12 +160,50 @@ export function TaskFilters({
             <Search className="h-5 w-5 text-gray-400" />
           </div>
           <input
+            ref={searchInputRef}
+            data-task-search
             type="text"
             value={searchTerm}
-            onChange={(e) => onSearchChange(e.target.value)}
-            className="block w-full rounded-md border-0 py-1.5 pl-10 text-gray-900 ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6"
-            placeholder="Search tasks..."
+            onChange={(e) => {
+              onSearchChange(e.target.value);
+              setCursor(e.target.selectionStart ?? e.target.value.length);
+              setHighlightedSuggestion(0);
+            }}
+            onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
+            onFocus={() => setIsSearchFocused(true)}
+            onBlur={() => setIsSearchFocused(false)}
+            onKeyDown={handleSearchKeyDown}
+            className={`block w-full rounded-md border-0 py-1.5 pl-10 text-gray-900 ring-1 ring-inset placeholder:text-gray-400 focus:ring-2 focus:ring-inset sm:text-sm sm:leading-6 ${
+              queryError ? 'ring-red-300 focus:ring-red-500' : 'ring-gray-300 focus:ring-blue-600'
+            }`}
+            placeholder="Search or filter, e.g. assignee:me priority:high due:<7d"
           />
+          {suggestions.length > 0 && (
+            <div className="absolute left-0 mt-2 w-full rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none z-10">
+              <ul className="py-1">
+                {suggestions.map((suggestion, index) => (
+                  <li key={suggestion.insert}>
+                    <button
+                      type="button"
+                      // Keep focus in the input so the suggestion applies before blur closes the list
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        applySuggestion(suggestion);
+                      }}
+                      className={`flex w-full items-center justify-between px-4 py-2 text-sm text-gray-700 ${
+                        index === highlightedSuggestion ? 'bg-gray-100' : 'hover:bg-gray-100'
+                      }`}
+                    >
+                      <span className="font-mono">{suggestion.label}</span>
+                      {suggestion.description && (
+                        <span className="ml-4 text-xs text-gray-500 truncate">{suggestion.description}</span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Priority filter */}
@@ -223,6 +331,50 @@ export function TaskFilters({
           )}
         </div>
 
+        {/* Custom field filters */}
+        {filterableFields.map(field => {
+          const filterKey = `field:${field.id}` as const;
+          const selected = filters.customFields[field.id] || [];
+
+          return (
+            <div key={field.id} className="relative">
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setOpenFilter(openFilter === filterKey ? null : filterKey);
+                }}
+                className="inline-flex items-center gap-x-1.5 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+              >
+                <Filter className="-ml-0.5 h-5 w-5 text-gray-400" />
+                {field.name}
+                <ChevronDown className="h-4 w-4 ml-1" />
+              </button>
+              {openFilter === filterKey && (
+                <div className="absolute left-0 mt-2 w-56 rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none z-10">
+                  <div className="py-1 max-h-60 overflow-y-auto">
+                    {getCustomFieldFilterOptions(field, tasks).map(option => (
+                      <label
+                        key={option.value}
+                        className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(option.value)}
+                          onChange={() => handleCustomFieldToggle(field.id, option.value)}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-600 mr-2"
+                          style={{ color: primaryColor }}
+                        />
+                        <span className="truncate">{option.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
         {/* Clear filters */}
         {hasActiveFilters && (
           <button
@@ -235,6 +387,13 @@ export function TaskFilters({
         )}
       </div>
 
+      {queryError && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+          {queryError.message}
+        </p>
+      )}
+
       {/* Active filters summary */}
       {hasActiveFilters && (
         <div className="flex flex-wrap gap-2">
@@ -280,6 +439,23 @@ export function TaskFilters({
               </span>
             );
           })}
+          {filterableFields.flatMap(field => {
+            const options = getCustomFieldFilterOptions(field, tasks);
+            return (filters.customFields[field.id] || []).map(value => (
+              <span
+                key={`${field.id}-${value}`}
+                className="inline-flex items-center rounded-md bg-gray-50 px-2 py-1 text-xs font-medium text-gray-600 ring-1 ring-inset ring-gray-500/10"
+              >
+                {field.name}: {options.find(option => option.value === value)?.label || value}
+                <button 
+                  onClick={() => handleCustomFieldToggle(field.id, value)}
+                  className="ml-1 text-gray-400 hover:text-gray-600"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ));
+          })}
           {filters.dueDate && (
             <span className="inline-flex items-center rounded-md bg-gray-50 px-2 py-1 text-xs font-medium text-gray-600 ring-1 ring-inset ring-gray-500/10">
               Due: {dueDateOptions.find(o => o.value === filters.dueDate)?.label}
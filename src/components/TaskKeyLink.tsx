@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { TaskKeyMatch, resolveTaskKey } from '../lib/services/taskService';
+import { getTaskKeyPath } from '../lib/taskKeys';
+
+interface TaskKeyLinkProps {
+  taskKey: string;
+  children: React.ReactNode;
+}
+
+// One lookup per key per page load, however often it is referenced
+const resolvedKeys = new Map<string, Promise<TaskKeyMatch | null>>();
+
+function lookupTaskKey(taskKey: string): Promise<TaskKeyMatch | null> {
+  if (!resolvedKeys.has(taskKey)) {
+    resolvedKeys.set(taskKey, resolveTaskKey(taskKey).catch(() => null));
+  }
+  return resolvedKeys.get(taskKey)!;
+}
+
+/**
+ * A `#ACME-142` reference that links to the task and shows its title, or plain text when no task has the key
+ */
+export function TaskKeyLink({ taskKey, children }: TaskKeyLinkProps) {
+  const [match, setMatch] = useState<TaskKeyMatch | null | undefined>(undefined);
+
+  useEffect(() => {
+    let isCurrent = true;
+    lookupTaskKey(taskKey).then(result => {
+      if (isCurrent) setMatch(result);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [taskKey]);
+
+  if (match === null) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Link
+      to={getTaskKeyPath(match?.task_key || taskKey)}
+      title={match?.title}
+      className={`font-medium text-blue-600 hover:underline ${match?.status_category === 'completed' ? 'line-through' : ''}`}
+    >
+      {children}
+    </Link>
+  );
+}
@@ -0,0 +1,44 @@
+import { Extension, InputRule, markPasteRule } from '@tiptap/core';
+import { getTaskKeyPath } from '../lib/taskKeys';
+
+/**
+ * Custom extension for TipTap that turns `#ACME-142` task references into links to the task
+ * A reference is linked once it is followed by a space, or straight away when pasted
+ */
+export const TaskKeyLinks = Extension.create({
+  name: 'taskKeyLinks',
+
+  addInputRules() {
+    const linkType = this.editor.schema.marks.link;
+    if (!linkType) return [];
+
+    return [
+      new InputRule({
+        find: /(^|[^\w/#])#([A-Z][A-Z0-9]{1,9}-\d+)(\s)$/,
+        handler: ({ state, range, match }) => {
+          const [, before, taskKey, typed] = match;
+          const start = range.from + before.length;
+          const end = start + taskKey.length + 1;
+
+          // The typed space isn't in the document yet; add it after the link, unlinked
+          state.tr
+            .addMark(start, end, linkType.create({ href: getTaskKeyPath(taskKey) }))
+            .insert(end, state.schema.text(typed));
+        }
+      })
+    ];
+  },
+
+  addPasteRules() {
+    const linkType = this.editor.schema.marks.link;
+    if (!linkType) return [];
+
+    return [
+      markPasteRule({
+        find: /(?<![\w/#])#[A-Z][A-Z0-9]{1,9}-\d+\b/g,
+        type: linkType,
+        getAttributes: match => ({ href: getTaskKeyPath(match[0].slice(1)) })
+      })
+    ];
+  }
+});
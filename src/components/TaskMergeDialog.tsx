@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Dialog } from '@headlessui/react';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+import { BoardColumn } from '../lib/types';
+import { useAppContext } from '../lib/AppContext';
+import { getStatusLabel } from '../lib/workflow';
+import { TaskFieldConflict, TaskFormField, TASK_FORM_FIELD_LABELS } from '../lib/taskMerge';
+
+interface TaskMergeDialogProps {
+  conflicts: TaskFieldConflict[];
+  users: { id: string; email: string }[];
+  columns: BoardColumn[];
+  onResolve: (choices: Record<string, 'mine' | 'theirs'>) => void;
+  onCancel: () => void;
+}
+
+export function TaskMergeDialog({ conflicts, users, columns, onResolve, onCancel }: TaskMergeDialogProps) {
+  const { systemSettings } = useAppContext();
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>(
+    Object.fromEntries(conflicts.map(conflict => [conflict.field, 'mine']))
+  );
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  const formatValue = (field: TaskFormField, value: string) => {
+    if (!value) return field === 'assigned_to' ? 'Unassigned' : 'None';
+
+    switch (field) {
+      case 'status':
+        return getStatusLabel(value, columns);
+      case 'assigned_to':
+        return users.find(user => user.id === value)?.email || 'Unknown user';
+      case 'description': {
+        const text = value.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+        return text.length > 200 ? `${text.slice(0, 200)}…` : text || 'None';
+      }
+      default:
+        return value;
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onCancel}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="mx-auto max-w-2xl w-full bg-white rounded-xl shadow-lg max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              Someone else changed this task
+            </Dialog.Title>
+            <button
+              onClick={onCancel}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            <p className="text-sm text-gray-500">
+              These fields were saved by someone else while you were editing. Their other changes are kept.
+              Choose which version to keep for each field.
+            </p>
+
+            {conflicts.map(conflict => (
+              <div key={conflict.field}>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">{TASK_FORM_FIELD_LABELS[conflict.field]}</h4>
+                <div className="grid grid-cols-2 gap-3">
+                  {(['mine', 'theirs'] as const).map(side => (
+                    <button
+                      key={side}
+                      type="button"
+                      onClick={() => setChoices({ ...choices, [conflict.field]: side })}
+                      className={clsx(
+                        'text-left rounded-md border p-3 text-sm',
+                        choices[conflict.field] === side ? 'border-2' : 'border-gray-200 hover:border-gray-300'
+                      )}
+                      style={choices[conflict.field] === side ? { borderColor: primaryColor } : {}}
+                    >
+                      <span className="block text-xs font-medium text-gray-500 mb-1">
+                        {side === 'mine' ? 'Your version' : 'Their version'}
+                      </span>
+                      <span className="block text-gray-900 break-words">{formatValue(conflict.field, conflict[side])}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Keep editing
+              </button>
+              <button
+                type="button"
+                onClick={() => onResolve(choices)}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white hover:opacity-90"
+                style={{ backgroundColor: primaryColor }}
+              >
+                Save merged task
+              </button>
+            </div>
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState, useEffect } from 'react';
+import { Repeat, StopCircle } from 'lucide-react';
+import { format, getDay, parseISO } from 'date-fns';
+import { useAuthStore } from '../lib/store';
+import { useAppContext } from '../lib/AppContext';
+import { Task, TaskRecurrence, RecurrenceFrequency, RecurrenceIntervalUnit } from '../lib/types';
+import { describeRecurrence, getNextOccurrenceDate, RecurrenceRule, WEEKDAY_NAMES, MONTH_WEEK_NAMES } from '../lib/recurrence';
+import { fetchTaskRecurrence, saveTaskRecurrence, stopTaskRecurrence } from '../lib/services/recurrenceService';
+
+interface TaskRecurrenceEditorProps {
+  task: Task & { client_id: string };
+  onRecurrenceChanged: () => void;
+}
+
+type EndType = 'never' | 'date' | 'count';
+
+export function TaskRecurrenceEditor({ task, onRecurrenceChanged }: TaskRecurrenceEditorProps) {
+  const { user } = useAuthStore();
+  const { systemSettings } = useAppContext();
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const anchorDate = task.start_date || task.finish_date;
+  const anchor = anchorDate ? parseISO(anchorDate) : new Date();
+  const anchorWeek = Math.ceil(anchor.getDate() / 7);
+
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('weekly');
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [intervalUnit, setIntervalUnit] = useState<RecurrenceIntervalUnit>('day');
+  const [weekdays, setWeekdays] = useState<number[]>([getDay(anchor)]);
+  const [monthWeek, setMonthWeek] = useState<number>(anchorWeek > 4 ? -1 : anchorWeek);
+  const [monthWeekday, setMonthWeekday] = useState<number>(getDay(anchor));
+  const [endType, setEndType] = useState<EndType>('never');
+  const [endDate, setEndDate] = useState('');
+  const [maxOccurrences, setMaxOccurrences] = useState(10);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  useEffect(() => {
+    loadRecurrence();
+  }, [task.recurrence_id]);
+
+  async function loadRecurrence() {
+    try {
+      setIsLoading(true);
+      if (!task.recurrence_id) {
+        setRecurrence(null);
+        return;
+      }
+
+      const data = await fetchTaskRecurrence(task.recurrence_id);
+      setRecurrence(data);
+
+      if (data) {
+        setFrequency(data.frequency);
+        setRepeatInterval(data.interval);
+        setIntervalUnit(data.interval_unit);
+        setWeekdays(data.weekdays);
+        if (data.month_week !== null) setMonthWeek(data.month_week);
+        if (data.month_weekday !== null) setMonthWeekday(data.month_weekday);
+        setEndType(data.end_date ? 'date' : data.max_occurrences ? 'count' : 'never');
+        setEndDate(data.end_date || '');
+        setMaxOccurrences(data.max_occurrences || 10);
+      }
+    } catch (err) {
+      console.error('Error loading recurrence:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: repeatInterval,
+    interval_unit: intervalUnit,
+    weekdays: frequency === 'weekly' ? weekdays : [],
+    month_week: frequency === 'monthly' ? monthWeek : null,
+    month_weekday: frequency === 'monthly' ? monthWeekday : null,
+    end_date: endType === 'date' && endDate ? endDate : null,
+    max_occurrences: endType === 'count' ? maxOccurrences : null
+  };
+
+  const nextDate = anchorDate
+    ? getNextOccurrenceDate(rule, recurrence?.last_occurrence_date || format(anchor, 'yyyy-MM-dd'))
+    : null;
+
+  function toggleWeekday(day: number) {
+    setWeekdays(weekdays.includes(day)
+      ? weekdays.filter(d => d !== day)
+      : [...weekdays, day].sort());
+  }
+
+  async function handleSave() {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const saved = await saveTaskRecurrence(task, rule, user?.id);
+      setRecurrence(saved);
+      onRecurrenceChanged();
+    } catch (err) {
+      console.error('Error saving recurrence:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleStop() {
+    if (!recurrence || !confirm('Stop repeating this task? Existing occurrences are kept.')) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await stopTaskRecurrence(recurrence.id);
+      setRecurrence({ ...recurrence, is_active: false, next_due_date: null });
+      onRecurrenceChanged();
+    } catch (err) {
+      console.error('Error stopping recurrence:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  const inputClass = 'mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {!anchorDate && (
+        <div className="rounded-md bg-yellow-50 p-4">
+          <div className="text-sm text-yellow-800">
+            Set a start or due date on this task before making it repeat.
+          </div>
+        </div>
+      )}
+
+      {recurrence && (
+        <div className="rounded-md bg-gray-50 p-4 text-sm text-gray-700">
+          <div className="flex items-center font-medium text-gray-900">
+            <Repeat className="h-4 w-4 mr-2" />
+            {recurrence.is_active ? describeRecurrence(recurrence) : 'This series has ended'}
+          </div>
+          <div className="mt-1">
+            Occurrence {task.recurrence_index} of {recurrence.occurrences_created} created so far
+            {recurrence.next_due_date && ` · next on ${format(parseISO(recurrence.next_due_date), 'MMM d, yyyy')}`}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="recurrence_frequency" className="block text-sm font-medium text-gray-700">
+            Repeats
+          </label>
+          <select
+            id="recurrence_frequency"
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as RecurrenceFrequency)}
+            className={`${inputClass} w-full`}
+          >
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+            <option value="custom">Custom interval</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="recurrence_interval" className="block text-sm font-medium text-gray-700">
+            Every
+          </label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              id="recurrence_interval"
+              min="1"
+              value={repeatInterval}
+              onChange={(e) => setRepeatInterval(Math.max(1, parseInt(e.target.value) || 1))}
+              className={`${inputClass} w-20`}
+            />
+            {frequency === 'custom' ? (
+              <select
+                value={intervalUnit}
+                onChange={(e) => setIntervalUnit(e.target.value as RecurrenceIntervalUnit)}
+                className={inputClass}
+              >
+                <option value="day">day(s)</option>
+                <option value="week">week(s)</option>
+                <option value="month">month(s)</option>
+              </select>
+            ) : (
+              <span className="mt-1 text-sm text-gray-500">
+                {frequency === 'daily' ? 'day(s)' : frequency === 'weekly' ? 'week(s)' : 'month(s)'}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {frequency === 'weekly' && (
+        <div>
+          <span className="block text-sm font-medium text-gray-700">On</span>
+          <div className="mt-1 flex flex-wrap gap-2">
+            {WEEKDAY_NAMES.map((name, day) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={`px-2.5 py-1 text-xs font-medium rounded-md border ${
+                  weekdays.includes(day) ? 'text-white border-transparent' : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'
+                }`}
+                style={weekdays.includes(day) ? { backgroundColor: primaryColor } : {}}
+              >
+                {name.slice(0, 3)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {frequency === 'monthly' && (
+        <div>
+          <span className="block text-sm font-medium text-gray-700">On the</span>
+          <div className="flex items-center gap-2">
+            <select
+              value={monthWeek}
+              onChange={(e) => setMonthWeek(parseInt(e.target.value))}
+              className={inputClass}
+            >
+              {[1, 2, 3, 4, -1].map(week => (
+                <option key={week} value={week}>{MONTH_WEEK_NAMES[week]}</option>
+              ))}
+            </select>
+            <select
+              value={monthWeekday}
+              onChange={(e) => setMonthWeekday(parseInt(e.target.value))}
+              className={inputClass}
+            >
+              {WEEKDAY_NAMES.map((name, day) => (
+                <option key={name} value={day}>{name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700">Ends</span>
+        <div className="mt-1 space-y-2">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={endType === 'never'}
+              onChange={() => setEndType('never')}
+              className="mr-2"
+            />
+            Never
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={endType === 'date'}
+              onChange={() => setEndType('date')}
+              className="mr-2"
+            />
+            On
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => { setEndDate(e.target.value); setEndType('date'); }}
+              className={`${inputClass} ml-2 mt-0`}
+            />
+          </label>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={endType === 'count'}
+              onChange={() => setEndType('count')}
+              className="mr-2"
+            />
+            After
+            <input
+              type="number"
+              min="1"
+              value={maxOccurrences}
+              onChange={(e) => { setMaxOccurrences(Math.max(1, parseInt(e.target.value) || 1)); setEndType('count'); }}
+              className={`${inputClass} ml-2 mt-0 w-20`}
+            />
+            <span className="ml-2">occurrences</span>
+          </label>
+        </div>
+      </div>
+
+      <div className="text-sm text-gray-500">
+        {describeRecurrence(rule)}
+        {nextDate && ` · next occurrence ${format(parseISO(nextDate), 'MMM d, yyyy')}`}
+      </div>
+
+      <div className="flex justify-between pt-2">
+        <div>
+          {recurrence?.is_active && (
+            <button
+              type="button"
+              onClick={handleStop}
+              disabled={isSaving}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <StopCircle className="h-4 w-4 mr-2" />
+              Stop Repeating
+            </button>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !anchorDate || (frequency === 'weekly' && weekdays.length === 0)}
+          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+          style={{ backgroundColor: primaryColor }}
+        >
+          <Repeat className="h-4 w-4 mr-2" />
+          {isSaving ? 'Saving...' : recurrence ? 'Update Schedule' : 'Make Recurring'}
+        </button>
+      </div>
+    </div>
+  );
+}
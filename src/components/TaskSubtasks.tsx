@@ -0,0 +1,175 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Plus, ListTree } from 'lucide-react';
+import { useAppContext } from '../lib/AppContext';
+import { Task, BoardColumn } from '../lib/types';
+import { createSubtask, fetchLoggedHours, fetchSubtasks } from '../lib/services/subtaskService';
+import { getTaskRollup } from '../lib/subtasks';
+import { getDefaultStatus, getStatusColors, getStatusLabel, isTaskCompleted } from '../lib/workflow';
+
+interface TaskSubtasksProps {
+  task: Task;
+  columns: BoardColumn[];
+  clientId: string;
+  agencyId: string;
+  onSubtasksChanged?: () => void;
+}
+
+export function TaskSubtasks({ task, columns, clientId, agencyId, onSubtasksChanged }: TaskSubtasksProps) {
+  const { systemSettings } = useAppContext();
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [loggedHours, setLoggedHours] = useState<Record<string, number>>({});
+  const [newTitle, setNewTitle] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  useEffect(() => {
+    fetchData();
+  }, [task.id]);
+
+  async function fetchData() {
+    try {
+      setIsLoading(true);
+      const children = await fetchSubtasks(task.id);
+      setSubtasks(children);
+      setLoggedHours(await fetchLoggedHours([task.id, ...children.map(child => child.id)]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const subtask = await createSubtask(task, newTitle.trim(), getDefaultStatus(columns), clientId, agencyId);
+      setSubtasks([...subtasks, subtask]);
+      setNewTitle('');
+      onSubtasksChanged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (task.parent_task_id) {
+    return (
+      <p className="text-sm text-gray-500">
+        This task is a subtask. Subtasks can't have subtasks of their own; use its checklist instead.
+      </p>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900"></div>
+      </div>
+    );
+  }
+
+  const rollup = getTaskRollup(task, subtasks, loggedHours);
+  const completedCount = subtasks.filter(subtask => isTaskCompleted(subtask, columns)).length;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {/* Rollup of this task and its subtasks */}
+      <dl className="grid grid-cols-3 gap-4 rounded-md bg-gray-50 p-4">
+        <div>
+          <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Estimated Hours</dt>
+          <dd className="mt-1 text-lg font-semibold text-gray-900">{rollup.estimatedHours.toFixed(1)}</dd>
+        </div>
+        <div>
+          <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Estimated Cost</dt>
+          <dd className="mt-1 text-lg font-semibold text-gray-900">${rollup.estimatedCost.toFixed(2)}</dd>
+        </div>
+        <div>
+          <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Logged Hours</dt>
+          <dd className="mt-1 text-lg font-semibold text-gray-900">{rollup.loggedHours.toFixed(1)}</dd>
+        </div>
+      </dl>
+
+      {/* Add subtask */}
+      <form onSubmit={handleAdd} className="flex items-end gap-2">
+        <div className="flex-1">
+          <label htmlFor="subtask_title" className="block text-sm font-medium text-gray-700">
+            New subtask
+          </label>
+          <input
+            type="text"
+            id="subtask_title"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!newTitle.trim() || isSaving}
+          className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+          style={{ backgroundColor: primaryColor }}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </button>
+      </form>
+
+      {/* Subtasks */}
+      <div>
+        <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+          <ListTree className="h-4 w-4 mr-2 text-gray-500" />
+          Subtasks
+          {subtasks.length > 0 && (
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {completedCount}/{subtasks.length} completed
+            </span>
+          )}
+        </h4>
+        {subtasks.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No subtasks yet. Subtasks are tasks of their own, with assignees, dates, estimates and time entries.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {subtasks.map(subtask => {
+              const statusColors = getStatusColors(subtask, columns);
+              return (
+                <li key={subtask.id} className="flex items-center justify-between px-3 py-2">
+                  <span className={`text-sm truncate ${isTaskCompleted(subtask, columns) ? 'line-through text-gray-400' : 'text-gray-900'}`}>
+                    {subtask.title}
+                  </span>
+                  <div className="flex items-center space-x-3 text-xs text-gray-500">
+                    {!!subtask.estimated_hours && <span>{subtask.estimated_hours}h est.</span>}
+                    {!!loggedHours[subtask.id] && <span>{loggedHours[subtask.id].toFixed(1)}h logged</span>}
+                    <span
+                      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium"
+                      style={{ backgroundColor: statusColors.bg, color: statusColors.text }}
+                    >
+                      {getStatusLabel(subtask.status, columns)}
+                    </span>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
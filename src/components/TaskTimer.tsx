@@ -1,19 +1,14 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Play, Pause, Plus, Clock, X, DollarSign, Send, Check, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Play, Pause, Plus, Clock, X, DollarSign, Send, Check, AlertCircle, Lock } from 'lucide-react';
 import { format } from 'date-fns';
-import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../lib/store';
 import { TimeEntries } from './TimeEntries';
 import { logDebugEvent, DebugLevel, DebugEventType } from '../lib/debugSystem';
-
-interface TimeEntry {
-  id: string;
-  task_id: string;
-  task_title: string;
-  start_time: string;
-  duration: string;
-  description: string | null;
-}
+import { mutate } from '../lib/syncQueue';
+import { useRunningTimer, formatElapsed } from '../lib/runningTimer';
+import { fetchMyHourlyRate } from '../lib/services/billingRateService';
+import { fetchTimeLockDate } from '../lib/services/timeLockService';
+import { isTimeLocked, formatLockDate } from '../lib/timeLocks';
 
 interface TaskTimerProps {
   taskId: string;
@@ -22,10 +17,9 @@ interface TaskTimerProps {
 }
 
 export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProps) {
-  const { user } = useAuthStore();
-  const [isRunning, setIsRunning] = useState(false);
-  const [currentEntry, setCurrentEntry] = useState<TimeEntry | null>(null);
-  const [elapsedTime, setElapsedTime] = useState<string>('0:00:00');
+  const { role } = useAuthStore();
+  const { timer, isBusy, start, stop } = useRunningTimer();
+  const [now, setNow] = useState(() => new Date());
   const [description, setDescription] = useState('');
   const [isAddingManual, setIsAddingManual] = useState(false);
   const [manualEntry, setManualEntry] = useState({
@@ -39,185 +33,61 @@ export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProp
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
-  const [hourlyRate, setHourlyRate] = useState<string>('50');
-  const timerIntervalRef = useRef<number | null>(null);
-
-  useEffect(() => {
-    checkRunningTimer();
-    timerIntervalRef.current = window.setInterval(updateElapsedTime, 1000);
-    return () => {
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-      }
-    };
-  }, [currentEntry]);
-
-  async function checkRunningTimer() {
-    if (!user) return;
-
-    try {
-      logDebugEvent(
-        DebugLevel.INFO,
-        DebugEventType.API_CALL,
-        'Checking for running timer',
-        { userId: user.id, taskId }
-      );
-      
-      const { data, error } = await supabase.rpc('get_running_time_entry', {
-        p_user_id: user.id
-      });
+  const [hourlyRate, setHourlyRate] = useState<string>('');
+  const [lockDate, setLockDate] = useState<string | null>(null);
 
-      if (error) throw error;
+  const isRunning = timer?.task_id === taskId;
 
-      if (data && data.length > 0) {
-        const entry = data[0];
-        setCurrentEntry(entry);
-        setIsRunning(entry.task_id === taskId);
-        if (entry.description) {
-          setDescription(entry.description);
-        }
-        
-        logDebugEvent(
-          DebugLevel.SUCCESS,
-          DebugEventType.API_CALL,
-          'Found running timer',
-          { entryId: entry.id, taskId: entry.task_id }
-        );
-      } else {
-        logDebugEvent(
-          DebugLevel.INFO,
-          DebugEventType.API_CALL,
-          'No running timer found',
-          { userId: user.id }
-        );
-      }
-    } catch (err) {
-      console.error('Error checking running timer:', err);
-      setError(err instanceof Error ? err.message : 'An error occurred');
-      
-      logDebugEvent(
-        DebugLevel.ERROR,
-        DebugEventType.API_CALL,
-        'Error checking running timer',
-        { error: err, userId: user?.id }
-      );
+  // Pick up the description of a timer started in another tab or on another device
+  useEffect(() => {
+    if (isRunning && timer?.description) {
+      setDescription(timer.description);
     }
-  }
+  }, [timer?.id, isRunning]);
 
-  function updateElapsedTime(entry = currentEntry) {
-    if (!entry || !entry.start_time) return;
+  useEffect(() => {
+    if (!isRunning) return;
 
-    const start = new Date(entry.start_time);
-    const now = new Date();
-    const diffMs = now.getTime() - start.getTime();
-    
-    // Format as HH:MM:SS
-    const hours = Math.floor(diffMs / (1000 * 60 * 60));
-    const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-    const seconds = Math.floor((diffMs % (1000 * 60)) / 1000);
-    
-    setElapsedTime(`${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
-  }
+    setNow(new Date());
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [timer?.id, isRunning]);
 
   async function handleStartTimer() {
-    setIsLoading(true);
     setError(null);
     setSuccessMessage(null);
-    
-    try {
-      logDebugEvent(
-        DebugLevel.INFO,
-        DebugEventType.API_CALL,
-        'Starting timer',
-        { taskId, description }
-      );
-      
-      const { data, error } = await supabase.rpc('start_time_tracking', {
-        p_task_id: taskId,
-        p_description: description
-      });
 
-      if (error) throw error;
-
-      setIsRunning(true);
-      await checkRunningTimer();
-      onTimeEntryAdded();
-      
-      setSuccessMessage('Timer started successfully');
-      setTimeout(() => setSuccessMessage(null), 3000);
-      
-      logDebugEvent(
-        DebugLevel.SUCCESS,
-        DebugEventType.API_CALL,
-        'Timer started successfully',
-        { taskId }
-      );
+    try {
+      const result = await start(taskId, taskTitle, description);
+
+      // With another timer running, the prompt from the header takes it from here
+      if (result === 'started' || result === 'started_offline') {
+        onTimeEntryAdded();
+        setSuccessMessage(result === 'started_offline'
+          ? "Timer started offline. It will be saved when it's stopped and you're back online."
+          : 'Timer started successfully');
+        setTimeout(() => setSuccessMessage(null), 3000);
+      }
     } catch (err) {
       console.error('Error starting timer:', err);
       setError(err instanceof Error ? err.message : 'An error occurred');
-      
-      logDebugEvent(
-        DebugLevel.ERROR,
-        DebugEventType.API_CALL,
-        'Error starting timer',
-        { error: err, taskId }
-      );
-    } finally {
-      setIsLoading(false);
     }
   }
 
   async function handleStopTimer() {
-    if (!currentEntry) {
-      setError('No active time entry found');
-      return;
-    }
-    
-    setIsLoading(true);
     setError(null);
     setSuccessMessage(null);
-    
-    try {
-      logDebugEvent(
-        DebugLevel.INFO,
-        DebugEventType.API_CALL,
-        'Stopping timer',
-        { entryId: currentEntry.id }
-      );
-      
-      const { error } = await supabase.rpc('stop_time_tracking', {
-        p_entry_id: currentEntry.id,
-        p_description: description || currentEntry.description
-      });
 
-      if (error) throw error;
-
-      setIsRunning(false);
-      setCurrentEntry(null);
+    try {
+      const { queued } = await stop(description);
       setDescription('');
       onTimeEntryAdded();
-      
-      setSuccessMessage('Timer stopped successfully');
+
+      setSuccessMessage(queued ? 'Timer stopped. The time will be saved when you\'re back online.' : 'Timer stopped successfully');
       setTimeout(() => setSuccessMessage(null), 3000);
-      
-      logDebugEvent(
-        DebugLevel.SUCCESS,
-        DebugEventType.API_CALL,
-        'Timer stopped successfully',
-        { entryId: currentEntry.id }
-      );
     } catch (err) {
       console.error('Error stopping timer:', err);
       setError(err instanceof Error ? err.message : 'An error occurred');
-      
-      logDebugEvent(
-        DebugLevel.ERROR,
-        DebugEventType.API_CALL,
-        'Error stopping timer',
-        { error: err, entryId: currentEntry?.id }
-      );
-    } finally {
-      setIsLoading(false);
     }
   }
 
@@ -256,14 +126,21 @@ export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProp
       );
 
       // Use the updated RPC function that accepts actual_cost
-      const { error } = await supabase.rpc('add_manual_time_entry', {
-        p_task_id: taskId,
-        p_start_time: startDateTime.toISOString(),
-        p_end_time: endDateTime.toISOString(),
-        p_description: manualEntry.description,
-        p_is_billable: manualEntry.is_billable,
-        p_actual_cost: actualCost
-      });
+      const { error, queued } = await mutate(
+        {
+          kind: 'rpc',
+          fn: 'add_manual_time_entry',
+          params: {
+            p_task_id: taskId,
+            p_start_time: startDateTime.toISOString(),
+            p_end_time: endDateTime.toISOString(),
+            p_description: manualEntry.description,
+            p_is_billable: manualEntry.is_billable,
+            p_actual_cost: actualCost
+          }
+        },
+        `Time on "${taskTitle}"`
+      );
 
       if (error) throw error;
 
@@ -278,7 +155,7 @@ export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProp
       });
       onTimeEntryAdded();
       
-      setSuccessMessage('Time entry added successfully');
+      setSuccessMessage(queued ? 'Time entry saved offline. It will be added when you\'re back online.' : 'Time entry added successfully');
       setTimeout(() => setSuccessMessage(null), 3000);
       
       logDebugEvent(
@@ -322,6 +199,39 @@ export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProp
     }
   };
 
+  // Start manual entries at the billing rate in effect on their date
+  useEffect(() => {
+    if (!isAddingManual) return;
+
+    let isCurrent = true;
+    fetchMyHourlyRate(taskId, new Date(`${manualEntry.date}T12:00`))
+      .then(rate => {
+        if (!isCurrent) return;
+        setHourlyRate(rate === null ? '' : rate.toFixed(2));
+        setManualEntry(prev => ({ ...prev, actual_cost: '' }));
+      })
+      .catch(() => {
+        // Leave the rate blank; the cost is then worked out when the entry is saved
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [isAddingManual, taskId, manualEntry.date]);
+
+  useEffect(() => {
+    if (!isAddingManual) return;
+
+    fetchTimeLockDate(taskId)
+      .then(setLockDate)
+      .catch(() => {
+        // Without the lock date the database still turns away locked time when the entry is saved
+      });
+  }, [isAddingManual, taskId]);
+
+  const isManualEntryLocked = isTimeLocked(new Date(`${manualEntry.date}T${manualEntry.startTime}`), lockDate);
+  const isManualEntryBlocked = isManualEntryLocked && role !== 'system_admin';
+
   // Update cost when duration or hourly rate changes
   useEffect(() => {
     if (!manualEntry.actual_cost) {
@@ -368,15 +278,15 @@ export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProp
         </div>
         
         <div className="flex items-center gap-2">
-          <div className="text-lg font-mono">{elapsedTime}</div>
+          <div className="text-lg font-mono">{isRunning && timer ? formatElapsed(timer.start_time, now) : '0:00:00'}</div>
           
           {isRunning ? (
             <button
               onClick={handleStopTimer}
-              disabled={isLoading}
+              disabled={isBusy}
               className="inline-flex items-center gap-x-1.5 rounded-md bg-red-600 px-2.5 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-red-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-red-600 disabled:opacity-50"
             >
-              {isLoading ? (
+              {isBusy ? (
                 <>
                   <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -394,10 +304,10 @@ export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProp
           ) : (
             <button
               onClick={handleStartTimer}
-              disabled={isLoading}
+              disabled={isBusy}
               className="inline-flex items-center gap-x-1.5 rounded-md bg-blue-600 px-2.5 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-blue-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600 disabled:opacity-50"
             >
-              {isLoading ? (
+              {isBusy ? (
                 <>
                   <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -425,6 +335,12 @@ export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProp
         </div>
       </div>
 
+      {timer && !isRunning && (
+        <p className="text-sm text-gray-500">
+          Your timer is running on "{timer.task_title}". Starting one here asks what to do with it.
+        </p>
+      )}
+
       {/* Manual Time Entry Form */}
       {isAddingManual && (
         <div className="bg-gray-50 p-4 rounded-lg space-y-4">
@@ -488,7 +404,7 @@ export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProp
                     setManualEntry(prev => ({ ...prev, actual_cost: '' }));
                   }}
                   className="block w-full pl-10 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                  placeholder="50.00"
+                  placeholder="No rate set"
                 />
               </div>
             </div>
@@ -544,6 +460,15 @@ export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProp
             </label>
           </div>
 
+          {isManualEntryLocked && lockDate && (
+            <div className={`flex items-center text-sm ${isManualEntryBlocked ? 'text-red-700' : 'text-amber-700'}`}>
+              <Lock className="h-4 w-4 mr-1" />
+              {isManualEntryBlocked
+                ? `Time on or before ${formatLockDate(lockDate)} is locked. Pick a later date.`
+                : `Time on or before ${formatLockDate(lockDate)} is locked; adding this entry records an override.`}
+            </div>
+          )}
+
           <div className="flex justify-end gap-2">
             <button
               type="button"
@@ -554,7 +479,7 @@ export function TaskTimer({ taskId, taskTitle, onTimeEntryAdded }: TaskTimerProp
             </button>
             <button
               onClick={handleManualEntry}
-              disabled={isLoading || !manualEntry.duration}
+              disabled={isLoading || !manualEntry.duration || isManualEntryBlocked}
               className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
             >
               {isLoading ? (
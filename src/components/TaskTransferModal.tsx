@@ -0,0 +1,263 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Dialog } from '@headlessui/react';
+import { X, Copy, ArrowRightLeft, Plus } from 'lucide-react';
+import { useAuthStore } from '../lib/store';
+import { useAppContext } from '../lib/AppContext';
+import {
+  AttachmentCopyMode,
+  TransferClient,
+  copyTaskToBoard,
+  fetchTransferTargets,
+  moveTaskToBoard
+} from '../lib/services/taskTransferService';
+
+interface TaskTransferModalProps {
+  taskId: string;
+  taskTitle: string;
+  boardId: string;
+  clientId: string;
+  onClose: () => void;
+  onTransferred: (mode: 'move' | 'copy') => void;
+}
+
+interface Destination {
+  clientId: string;
+  boardId: string;
+}
+
+export function TaskTransferModal({ taskId, taskTitle, boardId, clientId, onClose, onTransferred }: TaskTransferModalProps) {
+  const { user, role, agencyId: userAgencyId, clientId: userClientId } = useAuthStore();
+  const { systemSettings } = useAppContext();
+  const [mode, setMode] = useState<'move' | 'copy'>('copy');
+  const [targets, setTargets] = useState<TransferClient[]>([]);
+  const [destinations, setDestinations] = useState<Destination[]>([{ clientId, boardId: '' }]);
+  const [attachmentMode, setAttachmentMode] = useState<AttachmentCopyMode>('link');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  useEffect(() => {
+    fetchTransferTargets(role, userAgencyId, userClientId)
+      .then(setTargets)
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'))
+      .finally(() => setIsLoading(false));
+  }, [role, userAgencyId, userClientId]);
+
+  // A task can't be moved onto the board it is already on
+  const getBoardOptions = (destinationClientId: string) =>
+    (targets.find(target => target.id === destinationClientId)?.boards || [])
+      .filter(board => mode === 'copy' || board.id !== boardId);
+
+  const updateDestination = (index: number, updates: Partial<Destination>) => {
+    setDestinations(destinations.map((destination, i) => i === index ? { ...destination, ...updates } : destination));
+  };
+
+  const handleModeChange = (nextMode: 'move' | 'copy') => {
+    setMode(nextMode);
+    // Moving has a single destination
+    setDestinations([{ ...destinations[0], boardId: destinations[0].boardId === boardId ? '' : destinations[0].boardId }]);
+  };
+
+  const isComplete = destinations.every(destination => destination.clientId && destination.boardId);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user || !isComplete) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    let copied = 0;
+    try {
+      if (mode === 'move') {
+        await moveTaskToBoard(taskId, destinations[0].boardId);
+      } else {
+        for (const destination of destinations) {
+          await copyTaskToBoard(taskId, destination.boardId, attachmentMode, user.id);
+          copied++;
+        }
+      }
+      onTransferred(mode);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'An error occurred';
+      // Copies made before the failure stay, so say which ones are left to retry
+      if (copied > 0) {
+        setDestinations(destinations.slice(copied));
+        setError(`Copied to ${copied} of ${destinations.length} boards. ${message}`);
+      } else {
+        setError(message);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="mx-auto max-w-lg w-full bg-white rounded-xl shadow-lg">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900 truncate">
+              Move or Copy "{taskTitle}"
+            </Dialog.Title>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+
+            <div className="flex gap-6">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={mode === 'copy'}
+                  onChange={() => handleModeChange('copy')}
+                  className="mr-2"
+                />
+                Copy
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={mode === 'move'}
+                  onChange={() => handleModeChange('move')}
+                  className="mr-2"
+                />
+                Move
+              </label>
+            </div>
+
+            <p className="text-sm text-gray-500">
+              {mode === 'copy'
+                ? 'The checklist, linked SOPs and tags are copied.'
+                : 'Subtasks, comments, time entries and attachments move with the task.'}
+              {' '}Statuses are matched to the destination board's columns, and assignees without
+              access to the destination client are unassigned.
+            </p>
+
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {destinations.map((destination, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <select
+                      value={destination.clientId}
+                      onChange={(e) => updateDestination(index, { clientId: e.target.value, boardId: '' })}
+                      className="block w-1/2 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    >
+                      <option value="">Select client...</option>
+                      {targets.map(target => (
+                        <option key={target.id} value={target.id}>{target.name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={destination.boardId}
+                      onChange={(e) => updateDestination(index, { boardId: e.target.value })}
+                      disabled={!destination.clientId}
+                      className="block w-1/2 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:opacity-50"
+                    >
+                      <option value="">Select board...</option>
+                      {getBoardOptions(destination.clientId).map(board => (
+                        <option key={board.id} value={board.id}>{board.name}</option>
+                      ))}
+                    </select>
+                    {destinations.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setDestinations(destinations.filter((_, i) => i !== index))}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Remove destination"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+
+                {mode === 'copy' && (
+                  <button
+                    type="button"
+                    onClick={() => setDestinations([...destinations, { clientId: '', boardId: '' }])}
+                    className="inline-flex items-center text-sm font-medium"
+                    style={{ color: primaryColor }}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add another destination
+                  </button>
+                )}
+              </div>
+            )}
+
+            {mode === 'copy' && (
+              <div>
+                <p className="block text-sm font-medium text-gray-700">Attachments</p>
+                <div className="mt-2 space-y-1">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={attachmentMode === 'link'}
+                      onChange={() => setAttachmentMode('link')}
+                      className="mr-2"
+                    />
+                    Link to the same files
+                  </label>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      checked={attachmentMode === 'copy'}
+                      onChange={() => setAttachmentMode('copy')}
+                      className="mr-2"
+                    />
+                    Duplicate the files
+                  </label>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || isLoading || !isComplete}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white border border-transparent rounded-md shadow-sm disabled:opacity-50"
+                style={{ backgroundColor: primaryColor }}
+              >
+                {mode === 'copy' ? <Copy className="w-4 h-4 mr-2" /> : <ArrowRightLeft className="w-4 h-4 mr-2" />}
+                {isSaving
+                  ? (mode === 'copy' ? 'Copying...' : 'Moving...')
+                  : (mode === 'copy' && destinations.length > 1 ? `Copy to ${destinations.length} boards` : mode === 'copy' ? 'Copy Task' : 'Move Task')}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { format } from 'date-fns';
-import { Trash2, Clock, DollarSign, AlertCircle, User, FileText, Check, X, Edit, Save } from 'lucide-react';
+import { Trash2, Clock, DollarSign, AlertCircle, User, FileText, Check, X, Edit, Save, Lock } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../lib/store';
 import { useAppContext } from '../lib/AppContext';
 import { logDebugEvent, DebugLevel, DebugEventType } from '../lib/debugSystem';
+import { fetchTimeLockDate } from '../lib/services/timeLockService';
+import { useRunningTimer } from '../lib/runningTimer';
+import { isTimeLocked, formatLockDate } from '../lib/timeLocks';
 
 interface TimeEntry {
   id: string;
@@ -17,6 +20,7 @@ interface TimeEntry {
   description: string | null;
   is_billable: boolean;
   actual_cost: number | null;
+  invoice_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -29,6 +33,7 @@ interface TimeEntriesProps {
 export function TimeEntries({ taskId, onEntryDeleted }: TimeEntriesProps) {
   const { user, role } = useAuthStore();
   const { systemSettings } = useAppContext();
+  const timerRevision = useRunningTimer(state => state.revision);
   const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -38,6 +43,7 @@ export function TimeEntries({ taskId, onEntryDeleted }: TimeEntriesProps) {
   const [totalHours, setTotalHours] = useState(0);
   const [totalCost, setTotalCost] = useState(0);
   const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+  const [lockDate, setLockDate] = useState<string | null>(null);
   const [editFormData, setEditFormData] = useState({
     description: '',
     is_billable: true,
@@ -49,7 +55,7 @@ export function TimeEntries({ taskId, onEntryDeleted }: TimeEntriesProps) {
 
   useEffect(() => {
     fetchTimeEntries();
-  }, [taskId]);
+  }, [taskId, timerRevision]);
 
   const fetchTimeEntries = async () => {
     try {
@@ -71,6 +77,8 @@ export function TimeEntries({ taskId, onEntryDeleted }: TimeEntriesProps) {
 
       if (error) throw error;
 
+      setLockDate(await fetchTimeLockDate(taskId));
+
       // Format the duration for each entry
       const entriesWithDuration = data?.map(entry => {
         let duration = 'In progress';
@@ -266,8 +274,18 @@ export function TimeEntries({ taskId, onEntryDeleted }: TimeEntriesProps) {
     }
   };
 
+  const isLocked = (entry: TimeEntry) => isTimeLocked(entry.start_time, lockDate);
+
+  // Locked time only changes at a system admin's hand
+  const canChangeEntry = (entry: TimeEntry) => !isLocked(entry) || role === 'system_admin';
+
   // Check if user can delete an entry
   const canDeleteEntry = (entry: TimeEntry) => {
+    // Invoiced time stays as billed until the invoice is voided or deleted
+    if (entry.invoice_id || !canChangeEntry(entry)) {
+      return false;
+    }
+
     // System admins and agency admins can delete any entry
     if (role === 'system_admin' || role === 'agency_admin') {
       return true;
@@ -328,6 +346,22 @@ export function TimeEntries({ taskId, onEntryDeleted }: TimeEntriesProps) {
         </div>
       )}
       
+      {lockDate && timeEntries.some(isLocked) && (
+        <div className="rounded-md bg-gray-50 p-4">
+          <div className="flex">
+            <Lock className="h-5 w-5 text-gray-400" />
+            <div className="ml-3">
+              <p className="text-sm text-gray-700">
+                Time on or before {formatLockDate(lockDate)} is locked.
+                {role === 'system_admin'
+                  ? ' You can still change it, and every change is recorded.'
+                  : ' Only system admins can change it.'}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {timeEntries.length === 0 ? (
         <div className="text-center py-8 bg-gray-50 rounded-lg">
           <Clock className="h-12 w-12 text-gray-400 mx-auto" />
@@ -375,6 +409,12 @@ export function TimeEntries({ taskId, onEntryDeleted }: TimeEntriesProps) {
                         <div className="text-gray-500 mt-1">
                           Duration: {entry.duration}
                         </div>
+                        {isLocked(entry) && (
+                          <div className="flex items-center text-xs text-amber-700 mt-1">
+                            <Lock className="h-3 w-3 mr-1" />
+                            Locked time; saving records an override
+                          </div>
+                        )}
                       </td>
                       <td className="px-3 py-4 text-sm text-gray-500">
                         {entry.user_email}
@@ -482,6 +522,17 @@ export function TimeEntries({ taskId, onEntryDeleted }: TimeEntriesProps) {
                             Non-billable
                           </span>
                         )}
+                        {entry.invoice_id && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            Invoiced
+                          </span>
+                        )}
+                        {isLocked(entry) && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                            <Lock className="h-3 w-3 mr-1" />
+                            Locked
+                          </span>
+                        )}
                       </td>
                       <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
                         {deleteConfirmation === entry.id ? (
@@ -490,7 +541,7 @@ export function TimeEntries({ taskId, onEntryDeleted }: TimeEntriesProps) {
                               onClick={() => handleDeleteEntry(entry.id)}
                               disabled={isDeleting}
                               className="text-red-600 hover:text-red-900"
-                              title="Confirm delete"
+                              title={isLocked(entry) ? 'Confirm delete (recorded as an override)' : 'Confirm delete'}
                             >
                               <Check className="h-5 w-5" />
                             </button>
@@ -504,7 +555,7 @@ export function TimeEntries({ taskId, onEntryDeleted }: TimeEntriesProps) {
                           </div>
                         ) : (
                           <div className="flex items-center justify-end space-x-2">
-                            {!entry.is_running && (
+                            {!entry.is_running && !entry.invoice_id && canChangeEntry(entry) && (
                               <button
                                 onClick={() => handleEditEntry(entry)}
                                 className="text-blue-600 hover:text-blue-900"
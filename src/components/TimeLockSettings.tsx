@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { Lock, Unlock, AlertCircle, ShieldAlert } from 'lucide-react';
+import { format, parseISO, subDays } from 'date-fns';
+import { TimeEntry, TimeLock, TimeLockOverride } from '../lib/types';
+import { useAppContext } from '../lib/AppContext';
+import { useAuthStore } from '../lib/store';
+import { fetchAgencyTimeLock, fetchTimeLockOverrides, setTimeLockDate } from '../lib/services/timeLockService';
+import { formatLockDate } from '../lib/timeLocks';
+
+interface TimeLockSettingsProps {
+  agencyId: string;
+}
+
+const ACTION_LABELS: Record<TimeLockOverride['action'], string> = {
+  insert: 'Added',
+  update: 'Edited',
+  delete: 'Deleted'
+};
+
+function describeEntry(entry: Partial<TimeEntry> | null) {
+  if (!entry?.start_time) return '–';
+  const start = parseISO(entry.start_time);
+  const hours = entry.end_time ? (parseISO(entry.end_time).getTime() - start.getTime()) / 3600000 : 0;
+  return `${format(start, 'MMM d, yyyy h:mm a')} · ${hours.toFixed(2)}h`;
+}
+
+export function TimeLockSettings({ agencyId }: TimeLockSettingsProps) {
+  const { systemSettings } = useAppContext();
+  const { role } = useAuthStore();
+  const [timeLock, setTimeLock] = useState<TimeLock | null>(null);
+  const [overrides, setOverrides] = useState<TimeLockOverride[]>([]);
+  const [lockDate, setLockDate] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  const yesterday = format(subDays(new Date(), 1), 'yyyy-MM-dd');
+  const isSystemAdmin = role === 'system_admin';
+
+  useEffect(() => {
+    fetchData();
+  }, [agencyId]);
+
+  const fetchData = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [lock, overridesData] = await Promise.all([
+        fetchAgencyTimeLock(agencyId),
+        fetchTimeLockOverrides(agencyId)
+      ]);
+
+      setTimeLock(lock);
+      setOverrides(overridesData);
+      setLockDate(lock.time_lock_date || '');
+    } catch (err) {
+      console.error('Error fetching time lock:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async (date: string | null) => {
+    const message = date
+      ? `Lock all time on or before ${formatLockDate(date)}? Only system admins can change it afterwards.`
+      : 'Unlock all time for this agency?';
+    if (!window.confirm(message)) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await setTimeLockDate(agencyId, date);
+      fetchData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2" style={{ borderColor: primaryColor }}></div>
+      </div>
+    );
+  }
+
+  const currentLock = timeLock?.time_lock_date || null;
+  // Agency admins can only lock more time; moving the date back is a system admin's call
+  const canSave = !!lockDate && lockDate !== currentLock && (isSystemAdmin || !currentLock || lockDate > currentLock);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Time Lock</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              Once a period is billed, lock it so its time can't be added, edited or deleted.
+              System admins can still change locked time; every change they make is recorded below.
+            </p>
+          </div>
+          {currentLock ? (
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 whitespace-nowrap">
+              <Lock className="h-3 w-3 mr-1" />
+              Locked through {formatLockDate(currentLock)}
+            </span>
+          ) : (
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 whitespace-nowrap">
+              <Unlock className="h-3 w-3 mr-1" />
+              Nothing locked
+            </span>
+          )}
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="flex">
+              <AlertCircle className="h-5 w-5 text-red-400" />
+              <div className="ml-3">
+                <h3 className="text-sm font-medium text-red-800">Error</h3>
+                <div className="mt-2 text-sm text-red-700">{error}</div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label htmlFor="time_lock_date" className="block text-sm font-medium text-gray-700">
+              Lock time on or before
+            </label>
+            <input
+              type="date"
+              id="time_lock_date"
+              value={lockDate}
+              min={isSystemAdmin ? undefined : currentLock || undefined}
+              max={yesterday}
+              onChange={(e) => setLockDate(e.target.value)}
+              className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <button
+            onClick={() => handleSave(lockDate)}
+            disabled={!canSave || isSaving}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+            style={{ backgroundColor: primaryColor }}
+          >
+            <Lock className="h-4 w-4 mr-1" />
+            {currentLock ? 'Move Lock' : 'Lock Time'}
+          </button>
+          {isSystemAdmin && currentLock && (
+            <button
+              onClick={() => handleSave(null)}
+              disabled={isSaving}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Unlock className="h-4 w-4 mr-1" />
+              Unlock All
+            </button>
+          )}
+        </div>
+
+        {timeLock?.time_lock_set_at && (
+          <p className="text-xs text-gray-500">
+            Last changed {format(parseISO(timeLock.time_lock_set_at), 'MMM d, yyyy h:mm a')}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium text-gray-900">Changes to Locked Time</h4>
+        {overrides.length === 0 ? (
+          <div className="bg-white shadow rounded-lg p-6 text-center">
+            <ShieldAlert className="h-12 w-12 text-gray-400 mx-auto" />
+            <p className="mt-2 text-sm text-gray-500">No locked time has been changed.</p>
+          </div>
+        ) : (
+          <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    When
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    By
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Change
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Before
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    After
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {overrides.map(override => (
+                  <tr key={override.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {format(parseISO(override.created_at), 'MMM d, yyyy h:mm a')}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {override.user_email || 'Unknown user'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {ACTION_LABELS[override.action]}
+                      <div className="text-xs text-gray-500">Locked through {formatLockDate(override.lock_date)}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {describeEntry(override.old_entry)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {describeEntry(override.new_entry)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
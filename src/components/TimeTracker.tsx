@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Play, Pause, Clock, DollarSign, AlertCircle } from 'lucide-react';
 import { format } from 'date-fns';
-import { useAuthStore } from '../lib/store';
 import { supabase } from '../lib/supabase';
+import { useRunningTimer } from '../lib/runningTimer';
 
 interface TimeTrackerProps {
   taskId: string;
@@ -29,9 +29,7 @@ interface TimeStats {
 }
 
 export function TimeTracker({ taskId, estimatedHours, estimatedCost, onTimeEntryAdded }: TimeTrackerProps) {
-  const { user } = useAuthStore();
-  const [isTracking, setIsTracking] = useState(false);
-  const [currentEntry, setCurrentEntry] = useState<TimeEntry | null>(null);
+  const { timer, start, stop } = useRunningTimer();
   const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
   const [stats, setStats] = useState<TimeStats>({
     total_hours: 0,
@@ -54,9 +52,16 @@ export function TimeTracker({ taskId, estimatedHours, estimatedCost, onTimeEntry
 
   useEffect(() => {
     fetchTimeEntries();
-    checkRunningTimer();
   }, [taskId]);
 
+  const isTracking = timer?.task_id === taskId;
+
+  useEffect(() => {
+    if (isTracking && timer?.description) {
+      setDescription(timer.description);
+    }
+  }, [timer?.id, isTracking]);
+
   async function fetchTimeEntries() {
     try {
       const { data, error } = await supabase
@@ -92,30 +97,6 @@ export function TimeTracker({ taskId, estimatedHours, estimatedCost, onTimeEntry
     }
   }
 
-  async function checkRunningTimer() {
-    if (!user) return;
-
-    try {
-      const { data, error } = await supabase.rpc('get_running_time_entry', {
-        p_user_id: user.id
-      });
-
-      if (error) throw error;
-
-      if (data && data.length > 0) {
-        const entry = data[0];
-        setCurrentEntry(entry);
-        setIsTracking(entry.task_id === taskId);
-        if (entry.description) {
-          setDescription(entry.description);
-        }
-      }
-    } catch (err) {
-      console.error('Error checking running timer:', err);
-      setError(err instanceof Error ? err.message : 'An error occurred');
-    }
-  }
-
   function calculateStats(entries: TimeEntry[]) {
     const totalHours = entries.reduce((sum, entry) => {
       if (!entry.end_time) return sum;
@@ -138,16 +119,9 @@ export function TimeTracker({ taskId, estimatedHours, estimatedCost, onTimeEntry
     setError(null);
     
     try {
-      const { data, error } = await supabase.rpc('start_time_tracking', {
-        p_task_id: taskId,
-        p_description: description
-      });
-
-      if (error) throw error;
-
-      setIsTracking(true);
-      await checkRunningTimer();
-      onTimeEntryAdded();
+      if (await start(taskId, '', description) === 'started') {
+        onTimeEntryAdded();
+      }
     } catch (err) {
       console.error('Error starting timer:', err);
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -157,24 +131,11 @@ export function TimeTracker({ taskId, estimatedHours, estimatedCost, onTimeEntry
   }
 
   async function handleStopTimer() {
-    if (!currentEntry) {
-      setError('No active time entry found');
-      return;
-    }
-    
     setIsLoading(true);
     setError(null);
     
     try {
-      const { error } = await supabase.rpc('stop_time_tracking', {
-        p_entry_id: currentEntry.id,
-        p_description: description || currentEntry.description
-      });
-
-      if (error) throw error;
-
-      setIsTracking(false);
-      setCurrentEntry(null);
+      await stop(description);
       setDescription('');
       onTimeEntryAdded();
     } catch (err) {
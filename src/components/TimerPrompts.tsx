@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { Dialog } from '@headlessui/react';
+import { format, formatDistanceStrict, parseISO } from 'date-fns';
+import { AlertCircle, ArrowRightLeft, Coffee, Square } from 'lucide-react';
+import { useAppContext } from '../lib/AppContext';
+import { useRunningTimer, formatElapsed } from '../lib/runningTimer';
+
+/**
+ * The questions the running timer asks: what happens to it when another one is started, and
+ * whether time the user was away counts
+ */
+export function TimerPrompts() {
+  const { systemSettings } = useAppContext();
+  const {
+    timer,
+    pendingStart,
+    idleSince,
+    isBusy,
+    switchToPending,
+    moveToPending,
+    cancelPending,
+    keepIdleTime,
+    discardIdleTime
+  } = useRunningTimer();
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleCancel = () => {
+    setError(null);
+    cancelPending();
+  };
+
+  if (!timer) return null;
+
+  const errorBlock = error && (
+    <div className="rounded-md bg-red-50 p-4">
+      <div className="flex">
+        <AlertCircle className="h-5 w-5 text-red-400" />
+        <div className="ml-3 text-sm text-red-700">{error}</div>
+      </div>
+    </div>
+  );
+
+  if (pendingStart) {
+    const newTask = pendingStart.taskTitle ? `"${pendingStart.taskTitle}"` : 'this task';
+
+    return (
+      <Dialog open={true} onClose={handleCancel} className="relative z-50">
+        <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Dialog.Panel className="mx-auto max-w-md w-full bg-white rounded-xl shadow-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <Dialog.Title className="text-lg font-semibold text-gray-900">
+                A timer is already running
+              </Dialog.Title>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-700">
+                Your timer on <span className="font-medium">"{timer.task_title}"</span> has been running
+                for {formatElapsed(timer.start_time)}. Only one timer can run at a time.
+              </p>
+
+              {errorBlock}
+
+              <div className="space-y-2">
+                <button
+                  onClick={() => runAction(switchToPending)}
+                  disabled={isBusy}
+                  className="flex w-full items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+                  style={{ backgroundColor: primaryColor }}
+                >
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop it and start timing {newTask}
+                </button>
+                <button
+                  onClick={() => runAction(moveToPending)}
+                  disabled={isBusy}
+                  className="flex w-full items-center justify-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                  title="For a timer started on the wrong task; it keeps its start time"
+                >
+                  <ArrowRightLeft className="h-4 w-4 mr-2" />
+                  Switch it to {newTask}
+                </button>
+                <button
+                  onClick={handleCancel}
+                  disabled={isBusy}
+                  className="flex w-full items-center justify-center px-4 py-2 text-sm font-medium text-gray-500 hover:text-gray-700"
+                >
+                  Keep it running
+                </button>
+              </div>
+            </div>
+          </Dialog.Panel>
+        </div>
+      </Dialog>
+    );
+  }
+
+  if (idleSince) {
+    const awayFor = formatDistanceStrict(parseISO(idleSince), new Date());
+
+    return (
+      <Dialog open={true} onClose={keepIdleTime} className="relative z-50">
+        <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <Dialog.Panel className="mx-auto max-w-md w-full bg-white rounded-xl shadow-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <Dialog.Title className="flex items-center text-lg font-semibold text-gray-900">
+                <Coffee className="h-5 w-5 mr-2 text-gray-400" />
+                You were away for {awayFor}
+              </Dialog.Title>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-700">
+                Your timer on <span className="font-medium">"{timer.task_title}"</span> kept running
+                since {format(parseISO(idleSince), 'h:mm a')}. Should that time count?
+              </p>
+
+              {errorBlock}
+
+              <div className="space-y-2">
+                <button
+                  onClick={keepIdleTime}
+                  disabled={isBusy}
+                  className="flex w-full items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+                  style={{ backgroundColor: primaryColor }}
+                >
+                  Keep the time
+                </button>
+                <button
+                  onClick={() => runAction(() => discardIdleTime(true))}
+                  disabled={isBusy}
+                  className="flex w-full items-center justify-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Discard it and keep timing from now
+                </button>
+                <button
+                  onClick={() => runAction(() => discardIdleTime(false))}
+                  disabled={isBusy}
+                  className="flex w-full items-center justify-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Discard it and stop the timer
+                </button>
+              </div>
+            </div>
+          </Dialog.Panel>
+        </div>
+      </Dialog>
+    );
+  }
+
+  return null;
+}
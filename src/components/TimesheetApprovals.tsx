@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle, XCircle, ChevronLeft, ClipboardCheck } from 'lucide-react';
+import { useAppContext } from '../lib/AppContext';
+import { TimesheetReview } from '../lib/types';
+import { TimesheetRow, buildTimesheetRows } from '../lib/timesheets';
+import {
+  fetchTimesheetsToReview,
+  fetchTimesheetEntries,
+  fetchTimesheetTasks,
+  approveTimesheet,
+  rejectTimesheet
+} from '../lib/services/timesheetService';
+import { TimesheetGrid } from './TimesheetGrid';
+
+interface TimesheetApprovalsProps {
+  onReviewed?: (remaining: number) => void;
+}
+
+export function TimesheetApprovals({ onReviewed }: TimesheetApprovalsProps) {
+  const { systemSettings } = useAppContext();
+  const [reviews, setReviews] = useState<TimesheetReview[]>([]);
+  const [selected, setSelected] = useState<TimesheetReview | null>(null);
+  const [rows, setRows] = useState<TimesheetRow[]>([]);
+  const [comment, setComment] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  useEffect(() => {
+    fetchTimesheetsToReview()
+      .then(setReviews)
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleOpen = async (review: TimesheetReview) => {
+    setSelected(review);
+    setComment('');
+    setRows([]);
+    setError(null);
+
+    try {
+      const [entries, pinnedTasks] = await Promise.all([
+        fetchTimesheetEntries(review.user_id, review.starts_at, review.ends_at),
+        fetchTimesheetTasks(review.id)
+      ]);
+      setRows(buildTimesheetRows(parseISO(review.starts_at), entries, pinnedTasks).filter(row =>
+        row.hours.some(hours => hours > 0)
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleReview = async (approve: boolean) => {
+    if (!selected) return;
+    if (!approve && !comment.trim()) {
+      setError('Add a comment saying why the week is rejected');
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+
+    try {
+      if (approve) {
+        await approveTimesheet(selected.id, comment.trim());
+      } else {
+        await rejectTimesheet(selected.id, comment.trim());
+      }
+      const remaining = reviews.filter(review => review.id !== selected.id);
+      setReviews(remaining);
+      setSelected(null);
+      onReviewed?.(remaining.length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2" style={{ borderColor: primaryColor }}></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      {selected ? (
+        <>
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => setSelected(null)}
+              className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              All timesheets
+            </button>
+            <p className="text-sm text-gray-700">
+              <span className="font-medium">{selected.user_email || 'Unknown user'}</span>
+              {' · '}Week of {format(parseISO(selected.starts_at), 'MMM d, yyyy')}
+            </p>
+          </div>
+
+          <TimesheetGrid weekStart={parseISO(selected.starts_at)} rows={rows} isEditable={false} />
+
+          <div className="bg-white shadow rounded-lg p-4 space-y-3">
+            <label htmlFor="review_comment" className="block text-sm font-medium text-gray-700">
+              Comment
+            </label>
+            <textarea
+              id="review_comment"
+              rows={2}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Required when rejecting"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => handleReview(false)}
+                disabled={isWorking}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-red-600 bg-white hover:bg-red-50 disabled:opacity-50"
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                Reject
+              </button>
+              <button
+                onClick={() => handleReview(true)}
+                disabled={isWorking}
+                className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+                style={{ backgroundColor: primaryColor }}
+              >
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Approve
+              </button>
+            </div>
+          </div>
+        </>
+      ) : reviews.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-6 text-center">
+          <ClipboardCheck className="h-12 w-12 text-gray-400 mx-auto" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Nothing to approve</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Weeks submitted by people working on your clients show up here.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          <ul className="divide-y divide-gray-200">
+            {reviews.map(review => (
+              <li key={review.id}>
+                <button
+                  onClick={() => handleOpen(review)}
+                  className="flex w-full items-center justify-between px-4 py-3 text-left hover:bg-gray-50"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{review.user_email || 'Unknown user'}</p>
+                    <p className="text-xs text-gray-500">
+                      Week of {format(parseISO(review.starts_at), 'MMM d, yyyy')}
+                      {' · '}submitted {format(parseISO(review.submitted_at), 'MMM d, h:mm a')}
+                    </p>
+                  </div>
+                  <span className="text-sm font-medium text-gray-900">{Number(review.total_hours).toFixed(2)}h</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
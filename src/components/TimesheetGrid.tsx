@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { format, isToday } from 'date-fns';
+import { X } from 'lucide-react';
+import { TimesheetRow, formatHours, getWeekDays } from '../lib/timesheets';
+import { getTaskKeyPath } from '../lib/taskKeys';
+
+interface TimesheetGridProps {
+  weekStart: Date;
+  rows: TimesheetRow[];
+  isEditable: boolean;
+  onHoursChange?: (taskId: string, day: Date, hours: number) => Promise<void>;
+  onRemoveRow?: (taskId: string) => void;
+}
+
+const cellKey = (taskId: string, dayIndex: number) => `${taskId}:${dayIndex}`;
+
+export function TimesheetGrid({ weekStart, rows, isEditable, onHoursChange, onRemoveRow }: TimesheetGridProps) {
+  const days = getWeekDays(weekStart);
+  // What's typed in each cell until it's saved
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setDrafts({});
+  }, [rows]);
+
+  const handleBlur = async (row: TimesheetRow, dayIndex: number) => {
+    const key = cellKey(row.task.id, dayIndex);
+    const draft = drafts[key];
+    if (draft === undefined || !onHoursChange) return;
+
+    const hours = draft.trim() === '' ? 0 : parseFloat(draft);
+    if (isNaN(hours) || Number(hours.toFixed(2)) === Number(row.hours[dayIndex].toFixed(2))) {
+      setDrafts(current => {
+        const next = { ...current };
+        delete next[key];
+        return next;
+      });
+      return;
+    }
+
+    await onHoursChange(row.task.id, days[dayIndex], hours);
+  };
+
+  const dayTotals = days.map((_, dayIndex) => rows.reduce((total, row) => total + row.hours[dayIndex], 0));
+  const weekTotal = dayTotals.reduce((total, hours) => total + hours, 0);
+
+  return (
+    <div className="bg-white shadow overflow-x-auto sm:rounded-lg">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Task
+            </th>
+            {days.map(day => (
+              <th
+                key={day.toISOString()}
+                scope="col"
+                className={`px-2 py-3 text-center text-xs font-medium uppercase tracking-wider ${isToday(day) ? 'text-gray-900' : 'text-gray-500'}`}
+              >
+                {format(day, 'EEE')}
+                <div className="font-normal normal-case">{format(day, 'MMM d')}</div>
+              </th>
+            ))}
+            <th scope="col" className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Total
+            </th>
+            {isEditable && <th scope="col" className="w-8" />}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={isEditable ? 10 : 9} className="px-4 py-8 text-center text-sm text-gray-500">
+                No time this week.
+              </td>
+            </tr>
+          )}
+          {rows.map(row => {
+            const rowTotal = row.hours.reduce((total, hours) => total + hours, 0);
+
+            return (
+              <tr key={row.task.id}>
+                <td className="px-4 py-2 text-sm">
+                  <Link
+                    to={row.task.task_key ? getTaskKeyPath(row.task.task_key) : '/tasks'}
+                    className="font-medium text-gray-900 hover:underline"
+                  >
+                    {row.task.task_key && <span className="font-mono text-gray-500 mr-2">{row.task.task_key}</span>}
+                    {row.task.title}
+                  </Link>
+                  {row.task.client_name && <div className="text-xs text-gray-500">{row.task.client_name}</div>}
+                </td>
+                {days.map((day, dayIndex) => {
+                  const key = cellKey(row.task.id, dayIndex);
+                  const timerHours = row.timerHours[dayIndex];
+
+                  return (
+                    <td key={key} className="px-1 py-2 text-center">
+                      {isEditable ? (
+                        <input
+                          type="number"
+                          min={Number(timerHours.toFixed(2))}
+                          max="24"
+                          step="0.25"
+                          value={drafts[key] ?? formatHours(row.hours[dayIndex])}
+                          onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+                          onBlur={() => handleBlur(row, dayIndex)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                          }}
+                          className="w-16 rounded-md border-gray-300 py-1 text-center text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          title={timerHours > 0 ? `${formatHours(timerHours)}h logged with the timer` : undefined}
+                          aria-label={`${row.task.title}, ${format(day, 'EEEE')}`}
+                        />
+                      ) : (
+                        <span className="text-sm text-gray-700">{formatHours(row.hours[dayIndex]) || '–'}</span>
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="px-4 py-2 text-right text-sm font-medium text-gray-900">
+                  {rowTotal.toFixed(2)}
+                </td>
+                {isEditable && (
+                  <td className="pr-2 text-right">
+                    {row.pinned && rowTotal === 0 && onRemoveRow && (
+                      <button
+                        onClick={() => onRemoveRow(row.task.id)}
+                        className="text-gray-400 hover:text-gray-600"
+                        title="Remove row"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot className="bg-gray-50">
+          <tr>
+            <td className="px-4 py-3 text-sm font-medium text-gray-900">Total</td>
+            {dayTotals.map((hours, dayIndex) => (
+              <td key={dayIndex} className="px-2 py-3 text-center text-sm font-medium text-gray-900">
+                {formatHours(hours) || '–'}
+              </td>
+            ))}
+            <td className="px-4 py-3 text-right text-sm font-bold text-gray-900">{weekTotal.toFixed(2)}</td>
+            {isEditable && <td />}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
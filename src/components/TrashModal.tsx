@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react';
+import { Dialog } from '@headlessui/react';
+import { addDays, format, formatDistanceToNow } from 'date-fns';
+import { X, ArchiveRestore } from 'lucide-react';
+import { useAppContext } from '../lib/AppContext';
+import {
+  TrashedTask,
+  fetchTrashedTasks,
+  fetchTrashRetention,
+  restoreTasks,
+  updateTrashRetention
+} from '../lib/services/trashService';
+
+interface TrashModalProps {
+  clientId: string;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const RETENTION_OPTIONS = [7, 30, 90, 365];
+
+export function TrashModal({ clientId, onClose, onRestored }: TrashModalProps) {
+  const { systemSettings } = useAppContext();
+  const [tasks, setTasks] = useState<TrashedTask[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  useEffect(() => {
+    Promise.all([fetchTrashedTasks(clientId), fetchTrashRetention(clientId)])
+      .then(([tasksData, retention]) => {
+        setTasks(tasksData);
+        setRetentionDays(retention);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'An error occurred'))
+      .finally(() => setIsLoading(false));
+  }, [clientId]);
+
+  // Subtasks trashed along with their parent are restored with it, so they aren't listed on their own
+  const isTrashedWithParent = (task: TrashedTask) =>
+    tasks.some(parent => parent.id === task.parent_task_id && parent.deleted_at === task.deleted_at);
+  const listedTasks = tasks.filter(task => !isTrashedWithParent(task));
+  const countSubtasks = (task: TrashedTask) =>
+    tasks.filter(subtask => subtask.parent_task_id === task.id && subtask.deleted_at === task.deleted_at).length;
+
+  const handleRestore = async (task: TrashedTask) => {
+    setRestoringId(task.id);
+    setError(null);
+
+    try {
+      await restoreTasks([task.id]);
+      setTasks(tasks.filter(t => t.id !== task.id && t.parent_task_id !== task.id));
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handleRetentionChange = async (value: string) => {
+    const days = value ? Number(value) : null;
+    setError(null);
+
+    try {
+      await updateTrashRetention(clientId, days);
+      setRetentionDays(days);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Dialog
+      open={true}
+      onClose={onClose}
+      className="relative z-50"
+    >
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="mx-auto max-w-2xl w-full bg-white rounded-xl shadow-lg max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              Trash
+            </Dialog.Title>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-500"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="rounded-md bg-red-50 p-4">
+                <div className="text-sm text-red-700">{error}</div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-500">
+                Deleted tasks of this client, across all boards. Their logged hours still count in budget reports.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+                Keep for
+                <select
+                  value={retentionDays ?? ''}
+                  onChange={(e) => handleRetentionChange(e.target.value)}
+                  disabled={isLoading}
+                  className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  {RETENTION_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days} days</option>
+                  ))}
+                  <option value="">Forever</option>
+                </select>
+              </label>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : listedTasks.length > 0 ? (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {listedTasks.map(task => {
+                  const subtaskCount = countSubtasks(task);
+
+                  return (
+                    <li key={task.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {task.task_key && <span className="font-mono text-gray-500 mr-2">{task.task_key}</span>}
+                          {task.title}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {task.board?.name && `${task.board.name} · `}
+                          Deleted {formatDistanceToNow(new Date(task.deleted_at!), { addSuffix: true })}
+                          {task.deleted_by_email && ` by ${task.deleted_by_email}`}
+                          {subtaskCount > 0 && ` · with ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'}`}
+                          {retentionDays !== null && ` · Purged on ${format(addDays(new Date(task.deleted_at!), retentionDays), 'MMM d, yyyy')}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleRestore(task)}
+                        disabled={restoringId !== null}
+                        className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white rounded-md shadow-sm hover:opacity-90 disabled:opacity-50"
+                        style={{ backgroundColor: primaryColor }}
+                      >
+                        <ArchiveRestore className="h-4 w-4 mr-1" />
+                        {restoringId === task.id ? 'Restoring...' : 'Restore'}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-4">The trash is empty.</p>
+            )}
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect } from 'react';
+import { RotateCcw, RotateCw, X } from 'lucide-react';
+import { useUndoHistory } from '../lib/undoHistory';
+
+interface UndoToastProps {
+  duration: number; // ms the toast stays on screen
+}
+
+export function UndoToast({ duration }: UndoToastProps) {
+  const { past, future, notice, error, isBusy, undo, redo, dismiss } = useUndoHistory();
+
+  // Restart the countdown whenever a new change replaces the previous one
+  useEffect(() => {
+    if (!notice && !error) return;
+    const timer = setTimeout(dismiss, duration);
+    return () => clearTimeout(timer);
+  }, [notice, error, duration, dismiss]);
+
+  if (!notice && !error) return null;
+
+  // After an undo the toast offers to redo it; otherwise to undo the latest change
+  const canRedo = notice?.kind === 'undone' && future.length > 0;
+  const canUndo = !canRedo && past.length > 0;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 rounded-md bg-gray-900 px-4 py-3 shadow-lg text-sm text-white">
+      <div className="flex items-center gap-4">
+        {notice && <span>{notice.message}</span>}
+        {canUndo && (
+          <button
+            type="button"
+            onClick={undo}
+            disabled={isBusy}
+            className="inline-flex items-center font-medium text-blue-300 hover:text-blue-200 disabled:opacity-50"
+            title="Undo (Ctrl+Z)"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            {isBusy ? 'Undoing...' : 'Undo'}
+          </button>
+        )}
+        {canRedo && (
+          <button
+            type="button"
+            onClick={redo}
+            disabled={isBusy}
+            className="inline-flex items-center font-medium text-blue-300 hover:text-blue-200 disabled:opacity-50"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <RotateCw className="h-4 w-4 mr-1" />
+            {isBusy ? 'Redoing...' : 'Redo'}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={dismiss}
+          className="text-gray-400 hover:text-gray-200"
+          title="Dismiss"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      {error && <p className="mt-1 text-red-300">{error}</p>}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { supabase } from '../lib/supabase';
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, AlertCircle } from 'lucide-react';
 import { useAppContext } from '../lib/AppContext';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
+import { getStatusColors } from '../lib/workflow';
+import { ColumnCategory } from '../lib/types';
 
 import 'react-big-calendar/lib/css/react-big-calendar.css';
 
@@ -25,6 +27,7 @@ interface Task {
   id: string;
   title: string;
   status: string;
+  status_category?: ColumnCategory;
   priority: 'low' | 'medium' | 'high';
   finish_date: string | null;
   assigned_to: string | null;
@@ -102,10 +105,12 @@ export function UpcomingTasksCalendar({ clientId, agencyId, onTaskClick }: Upcom
           id,
           title,
           status,
+          status_category,
           priority,
           finish_date,
           assigned_to
         `)
+        .is('deleted_at', null)
         .or(`finish_date.gte.${firstDay.toISOString()},finish_date.lte.${lastDay.toISOString()}`);
 
       if (clientId) {
@@ -190,23 +195,8 @@ export function UpcomingTasksCalendar({ clientId, agencyId, onTaskClick }: Upcom
   // Custom event styling based on task status and priority
   const eventStyleGetter = (event: CalendarEvent) => {
     const task = event.resource;
-    let backgroundColor = '#3B82F6'; // Default blue
-
-    // Status-based colors
-    switch (task.status) {
-      case 'inbox':
-        backgroundColor = '#94A3B8';
-        break;
-      case 'todo':
-        backgroundColor = '#3B82F6';
-        break;
-      case 'doing':
-        backgroundColor = '#EAB308';
-        break;
-      case 'done':
-        backgroundColor = '#22C55E';
-        break;
-    }
+    // Tasks span several boards, so color by workflow category
+    const backgroundColor = getStatusColors(task).icon;
 
     // Priority indicator
     let borderLeft = '4px solid';
@@ -2,13 +2,22 @@ import React, { useMemo } from 'react';
 import { Calendar, dateFnsLocalizer, Views } from 'react-big-calendar';
 import { format, parse, startOfWeek, getDay } from 'date-fns';
 import { enUS } from 'date-fns/locale';
-import { Task } from '../../lib/types';
+import { Task, BoardColumn, CustomField, BoardViewState } from '../../lib/types';
+import { getStatusColors, isTaskCompleted } from '../../lib/workflow';
+import { TaskFilters } from '../TaskFilters';
+import { filterTasks } from '../../lib/filters';
+import { useAuthStore } from '../../lib/store';
+import { DEFAULT_VIEW_STATE } from '../../lib/viewState';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
 
 interface CalendarViewProps {
   clientId: string;
   boardId: string;
   tasks: Task[];
+  columns: BoardColumn[];
+  customFields: CustomField[];
+  viewState: BoardViewState;
+  onViewStateChange: (updates: Partial<BoardViewState>) => void;
   onTaskUpdate: (taskId: string, updates: Partial<Task>) => Promise<void>;
   onTaskClick: (taskId: string) => void;
 }
@@ -25,10 +34,42 @@ const localizer = dateFnsLocalizer({
   locales,
 });
 
-export function CalendarView({ tasks, onTaskClick }: CalendarViewProps) {
+export function CalendarView({
+  tasks,
+  columns,
+  customFields,
+  viewState,
+  onViewStateChange,
+  onTaskClick
+}: CalendarViewProps) {
+  const { user } = useAuthStore();
+
+  // Get unique users for filtering
+  const users = useMemo(() => {
+    const userMap = new Map();
+    tasks.forEach(task => {
+      if (task.assigned_to && task.assigned_to_email) {
+        userMap.set(task.assigned_to, {
+          id: task.assigned_to,
+          email: task.assigned_to_email
+        });
+      }
+    });
+    return Array.from(userMap.values());
+  }, [tasks]);
+
+  // Filter tasks based on search and filters
+  const filteredTasks = useMemo(() => {
+    return filterTasks(tasks, viewState.searchTerm, viewState.filters, {
+      userId: user?.id,
+      columns,
+      customFields
+    });
+  }, [tasks, viewState.searchTerm, viewState.filters, user?.id, columns, customFields]);
+
   // Convert tasks to calendar events
   const events = useMemo(() => {
-    return tasks
+    return filteredTasks
       .filter(task => task.start_date || task.finish_date) // Only include tasks with dates
       .map(task => ({
         id: task.id,
@@ -38,28 +79,14 @@ export function CalendarView({ tasks, onTaskClick }: CalendarViewProps) {
         allDay: false,
         resource: task,
       }));
-  }, [tasks]);
+  }, [filteredTasks]);
 
   // Custom event styling based on task status and priority
   const eventStyleGetter = (event: any) => {
     const task = event.resource as Task;
-    let backgroundColor = '#3B82F6'; // Default blue
 
-    // Status-based colors
-    switch (task.status) {
-      case 'inbox':
-        backgroundColor = '#94A3B8';
-        break;
-      case 'todo':
-        backgroundColor = '#3B82F6';
-        break;
-      case 'doing':
-        backgroundColor = '#EAB308';
-        break;
-      case 'done':
-        backgroundColor = '#22C55E';
-        break;
-    }
+    // Status-based colors from the task's column
+    const backgroundColor = getStatusColors(task, columns).icon;
 
     // Priority indicator
     let borderLeft = '4px solid';
@@ -81,6 +108,7 @@ export function CalendarView({ tasks, onTaskClick }: CalendarViewProps) {
         borderLeft,
         color: '#fff',
         borderRadius: '4px',
+        opacity: isTaskCompleted(task, columns) ? 0.7 : 1,
       },
     };
   };
@@ -161,21 +189,38 @@ export function CalendarView({ tasks, onTaskClick }: CalendarViewProps) {
   };
 
   return (
-    <div className="h-[calc(100vh-16rem)] bg-white rounded-lg shadow p-6">
-      <Calendar
-        localizer={localizer}
-        events={events}
-        startAccessor="start"
-        endAccessor="end"
-        style={{ height: '100%' }}
-        onSelectEvent={(event) => onTaskClick(event.id)}
-        eventPropGetter={eventStyleGetter}
-        components={{
-          toolbar: CustomToolbar,
-        }}
-        views={[Views.MONTH, Views.WEEK, Views.DAY]}
-        defaultView={Views.MONTH}
+    <div className="space-y-6">
+      <TaskFilters
+        searchTerm={viewState.searchTerm}
+        onSearchChange={searchTerm => onViewStateChange({ searchTerm })}
+        filters={viewState.filters}
+        onFilterChange={filters => onViewStateChange({ filters })}
+        users={users}
+        customFields={customFields}
+        tasks={tasks}
+        columns={columns}
+        clearFilters={() => onViewStateChange({
+          searchTerm: DEFAULT_VIEW_STATE.searchTerm,
+          filters: DEFAULT_VIEW_STATE.filters
+        })}
       />
+
+      <div className="h-[calc(100vh-16rem)] bg-white rounded-lg shadow p-6">
+        <Calendar
+          localizer={localizer}
+          events={events}
+          startAccessor="start"
+          endAccessor="end"
+          style={{ height: '100%' }}
+          onSelectEvent={(event) => onTaskClick(event.id)}
+          eventPropGetter={eventStyleGetter}
+          components={{
+            toolbar: CustomToolbar,
+          }}
+          views={[Views.MONTH, Views.WEEK, Views.DAY]}
+          defaultView={Views.MONTH}
+        />
+      </div>
     </div>
   );
 }
\ No newline at end of file
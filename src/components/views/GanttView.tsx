@@ -1,17 +1,29 @@
 import React, { useEffect, useState, useMemo } from 'react';
-import { Task } from '../../lib/types';
+import { Task, BoardColumn, CustomField, BoardViewState } from '../../lib/types';
+import { getStatusCategory, getStatusColors } from '../../lib/workflow';
+import { TaskFilters } from '../TaskFilters';
+import { filterTasks } from '../../lib/filters';
+import { useAuthStore } from '../../lib/store';
+import { DEFAULT_VIEW_STATE } from '../../lib/viewState';
 import { format } from 'date-fns';
-import { ChevronDown, ChevronRight, AlertCircle } from 'lucide-react';
+import { ChevronDown, ChevronRight, AlertCircle, Lock } from 'lucide-react';
 import clsx from 'clsx';
 
 interface GanttViewProps {
   clientId: string;
   boardId: string;
   tasks: Task[];
+  columns: BoardColumn[];
+  customFields: CustomField[];
+  viewState: BoardViewState;
+  onViewStateChange: (updates: Partial<BoardViewState>) => void;
   onTaskUpdate: (taskId: string, updates: Partial<Task>) => Promise<void>;
   onTaskClick: (taskId: string) => void;
 }
 
+// Fixed row height so dependency arrows can be positioned against the rows
+const ROW_HEIGHT = 56;
+
 interface GanttTask {
   id: string;
   title: string;
@@ -20,10 +32,32 @@ interface GanttTask {
   progress: number;
   dependencies: string[];
   status: string;
+  isCompleted: boolean;
+  color: string;
   priority: string;
 }
 
-export function GanttView({ tasks, onTaskClick }: GanttViewProps) {
+// Task position and width as percentages of the visible timeline
+function getTaskPosition(task: GanttTask, dateRange: Date[]) {
+  const totalDays = Math.ceil((dateRange[dateRange.length - 1].getTime() - dateRange[0].getTime()) / (1000 * 60 * 60 * 24));
+  const taskStart = Math.max(task.start.getTime(), dateRange[0].getTime());
+  const taskEnd = Math.min(task.end.getTime(), dateRange[dateRange.length - 1].getTime());
+
+  const left = ((taskStart - dateRange[0].getTime()) / (totalDays * 24 * 60 * 60 * 1000)) * 100;
+  const width = ((taskEnd - taskStart) / (totalDays * 24 * 60 * 60 * 1000)) * 100;
+
+  return { left, width };
+}
+
+export function GanttView({
+  tasks,
+  columns,
+  customFields,
+  viewState,
+  onViewStateChange,
+  onTaskClick
+}: GanttViewProps) {
+  const { user } = useAuthStore();
   const [timeScale, setTimeScale] = useState<'day' | 'week' | 'month'>('week');
   const [startDate, setStartDate] = useState(() => {
     const today = new Date();
@@ -60,30 +94,56 @@ export function GanttView({ tasks, onTaskClick }: GanttViewProps) {
     return range;
   }, [startDate, timeScale]);
 
+  // Get unique users for filtering
+  const users = useMemo(() => {
+    const userMap = new Map();
+    tasks.forEach(task => {
+      if (task.assigned_to && task.assigned_to_email) {
+        userMap.set(task.assigned_to, {
+          id: task.assigned_to,
+          email: task.assigned_to_email
+        });
+      }
+    });
+    return Array.from(userMap.values());
+  }, [tasks]);
+
+  // Filter tasks based on search and filters
+  const filteredTasks = useMemo(() => {
+    return filterTasks(tasks, viewState.searchTerm, viewState.filters, {
+      userId: user?.id,
+      columns,
+      customFields
+    });
+  }, [tasks, viewState.searchTerm, viewState.filters, user?.id, columns, customFields]);
+
   // Process tasks for Gantt display
   const ganttTasks = useMemo(() => {
-    return tasks
+    return filteredTasks
       .filter(task => task.start_date || task.finish_date)
-      .map(task => ({
-        id: task.id,
-        title: task.title,
-        start: task.start_date ? new Date(task.start_date) : new Date(task.finish_date!),
-        end: task.finish_date ? new Date(task.finish_date) : new Date(task.start_date!),
-        progress: task.status === 'done' ? 100 : task.status === 'doing' ? 50 : 0,
-        dependencies: [], // TODO: Implement task dependencies
-        status: task.status,
-        priority: task.priority,
-      }));
-  }, [tasks]);
+      .map(task => {
+        const category = getStatusCategory(task, columns);
+
+        return {
+          id: task.id,
+          title: task.title,
+          start: task.start_date ? new Date(task.start_date) : new Date(task.finish_date!),
+          end: task.finish_date ? new Date(task.finish_date) : new Date(task.start_date!),
+          progress: category === 'completed' ? 100 : category === 'active' ? 50 : 0,
+          dependencies: (task.dependencies || [])
+            .filter(dependency => dependency.type === 'blocked_by')
+            .map(dependency => dependency.task_id),
+          status: task.status,
+          isCompleted: category === 'completed',
+          color: getStatusColors(task, columns).icon,
+          priority: task.priority,
+        };
+      });
+  }, [filteredTasks, columns]);
 
   // Calculate task position and width
   const getTaskStyle = (task: GanttTask) => {
-    const totalDays = Math.ceil((dateRange[dateRange.length - 1].getTime() - dateRange[0].getTime()) / (1000 * 60 * 60 * 24));
-    const taskStart = Math.max(task.start.getTime(), dateRange[0].getTime());
-    const taskEnd = Math.min(task.end.getTime(), dateRange[dateRange.length - 1].getTime());
-    
-    const left = ((taskStart - dateRange[0].getTime()) / (totalDays * 24 * 60 * 60 * 1000)) * 100;
-    const width = ((taskEnd - taskStart) / (totalDays * 24 * 60 * 60 * 1000)) * 100;
+    const { left, width } = getTaskPosition(task, dateRange);
 
     return {
       left: `${left}%`,
@@ -91,21 +151,29 @@ export function GanttView({ tasks, onTaskClick }: GanttViewProps) {
     };
   };
 
-  // Get background color based on task status
-  const getTaskColor = (task: GanttTask) => {
-    switch (task.status) {
-      case 'inbox':
-        return 'bg-gray-400';
-      case 'todo':
-        return 'bg-blue-500';
-      case 'doing':
-        return 'bg-yellow-500';
-      case 'done':
-        return 'bg-green-500';
-      default:
-        return 'bg-gray-400';
-    }
-  };
+  // Connector arrows from the end of each prerequisite to the start of the task it blocks
+  const dependencyArrows = useMemo(() => {
+    const rowIndex = new Map(ganttTasks.map((task, index) => [task.id, index]));
+
+    return ganttTasks.flatMap((task, index) =>
+      task.dependencies
+        .filter(dependencyId => rowIndex.has(dependencyId))
+        .map(dependencyId => {
+          const predecessor = ganttTasks[rowIndex.get(dependencyId)!];
+          const from = getTaskPosition(predecessor, dateRange);
+          const to = getTaskPosition(task, dateRange);
+
+          return {
+            id: `${dependencyId}-${task.id}`,
+            x1: from.left + from.width,
+            y1: rowIndex.get(dependencyId)! * ROW_HEIGHT + ROW_HEIGHT / 2,
+            x2: to.left,
+            y2: index * ROW_HEIGHT + ROW_HEIGHT / 2,
+            isBlocking: !predecessor.isCompleted
+          };
+        })
+    );
+  }, [ganttTasks, dateRange]);
 
   // Get border color based on task priority
   const getTaskBorder = (task: GanttTask) => {
@@ -122,156 +190,219 @@ export function GanttView({ tasks, onTaskClick }: GanttViewProps) {
   };
 
   return (
-    <div className="bg-white rounded-lg shadow">
-      {/* Toolbar */}
-      <div className="p-4 border-b border-gray-200">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={() => setTimeScale('day')}
-              className={clsx(
-                'px-3 py-2 text-sm font-medium rounded-md',
-                timeScale === 'day'
-                  ? 'bg-blue-50 text-blue-700'
-                  : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
-              )}
-            >
-              Day
-            </button>
-            <button
-              onClick={() => setTimeScale('week')}
-              className={clsx(
-                'px-3 py-2 text-sm font-medium rounded-md',
-                timeScale === 'week'
-                  ? 'bg-blue-50 text-blue-700'
-                  : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
-              )}
-            >
-              Week
-            </button>
-            <button
-              onClick={() => setTimeScale('month')}
-              className={clsx(
-                'px-3 py-2 text-sm font-medium rounded-md',
-                timeScale === 'month'
-                  ? 'bg-blue-50 text-blue-700'
-                  : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
-              )}
-            >
-              Month
-            </button>
-          </div>
+    <div className="space-y-6">
+      <TaskFilters
+        searchTerm={viewState.searchTerm}
+        onSearchChange={searchTerm => onViewStateChange({ searchTerm })}
+        filters={viewState.filters}
+        onFilterChange={filters => onViewStateChange({ filters })}
+        users={users}
+        customFields={customFields}
+        tasks={tasks}
+        columns={columns}
+        clearFilters={() => onViewStateChange({
+          searchTerm: DEFAULT_VIEW_STATE.searchTerm,
+          filters: DEFAULT_VIEW_STATE.filters
+        })}
+      />
+
+      <div className="bg-white rounded-lg shadow">
+        {/* Toolbar */}
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setTimeScale('day')}
+                className={clsx(
+                  'px-3 py-2 text-sm font-medium rounded-md',
+                  timeScale === 'day'
+                    ? 'bg-blue-50 text-blue-700'
+                    : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+                )}
+              >
+                Day
+              </button>
+              <button
+                onClick={() => setTimeScale('week')}
+                className={clsx(
+                  'px-3 py-2 text-sm font-medium rounded-md',
+                  timeScale === 'week'
+                    ? 'bg-blue-50 text-blue-700'
+                    : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+                )}
+              >
+                Week
+              </button>
+              <button
+                onClick={() => setTimeScale('month')}
+                className={clsx(
+                  'px-3 py-2 text-sm font-medium rounded-md',
+                  timeScale === 'month'
+                    ? 'bg-blue-50 text-blue-700'
+                    : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+                )}
+              >
+                Month
+              </button>
+            </div>
 
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={() => {
-                const newDate = new Date(startDate);
-                switch (timeScale) {
-                  case 'day':
-                    newDate.setDate(newDate.getDate() - 14);
-                    break;
-                  case 'week':
-                    newDate.setDate(newDate.getDate() - 56);
-                    break;
-                  case 'month':
-                    newDate.setMonth(newDate.getMonth() - 6);
-                    break;
-                }
-                setStartDate(newDate);
-              }}
-              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
-            >
-              Previous
-            </button>
-            <button
-              onClick={() => setStartDate(new Date())}
-              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
-            >
-              Today
-            </button>
-            <button
-              onClick={() => {
-                const newDate = new Date(startDate);
-                switch (timeScale) {
-                  case 'day':
-                    newDate.setDate(newDate.getDate() + 14);
-                    break;
-                  case 'week':
-                    newDate.setDate(newDate.getDate() + 56);
-                    break;
-                  case 'month':
-                    newDate.setMonth(newDate.getMonth() + 6);
-                    break;
-                }
-                setStartDate(newDate);
-              }}
-              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
-            >
-              Next
-            </button>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => {
+                  const newDate = new Date(startDate);
+                  switch (timeScale) {
+                    case 'day':
+                      newDate.setDate(newDate.getDate() - 14);
+                      break;
+                    case 'week':
+                      newDate.setDate(newDate.getDate() - 56);
+                      break;
+                    case 'month':
+                      newDate.setMonth(newDate.getMonth() - 6);
+                      break;
+                  }
+                  setStartDate(newDate);
+                }}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setStartDate(new Date())}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Today
+              </button>
+              <button
+                onClick={() => {
+                  const newDate = new Date(startDate);
+                  switch (timeScale) {
+                    case 'day':
+                      newDate.setDate(newDate.getDate() + 14);
+                      break;
+                    case 'week':
+                      newDate.setDate(newDate.getDate() + 56);
+                      break;
+                    case 'month':
+                      newDate.setMonth(newDate.getMonth() + 6);
+                      break;
+                  }
+                  setStartDate(newDate);
+                }}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Next
+              </button>
+            </div>
           </div>
         </div>
-      </div>
 
-      {/* Gantt Chart */}
-      <div className="overflow-x-auto">
-        <div className="inline-block min-w-full align-middle">
-          <div className="overflow-hidden">
-            <div className="min-w-full">
-              {/* Timeline Header */}
-              <div className="grid" style={{ gridTemplateColumns: '300px 1fr' }}>
-                <div className="bg-gray-50 px-6 py-3 text-left text-sm font-semibold text-gray-900">
-                  Task
-                </div>
-                <div className="bg-gray-50">
-                  <div className="flex">
-                    {dateRange.map((date, index) => (
-                      <div
-                        key={date.toISOString()}
-                        className="flex-1 px-2 py-3 text-center text-sm font-semibold text-gray-900 border-l border-gray-200"
-                      >
-                        {format(date, timeScale === 'day' ? 'MMM d' : timeScale === 'week' ? 'MMM d' : 'MMM yyyy')}
-                      </div>
-                    ))}
+        {/* Gantt Chart */}
+        <div className="overflow-x-auto">
+          <div className="inline-block min-w-full align-middle">
+            <div className="overflow-hidden">
+              <div className="min-w-full">
+                {/* Timeline Header */}
+                <div className="grid" style={{ gridTemplateColumns: '300px 1fr' }}>
+                  <div className="bg-gray-50 px-6 py-3 text-left text-sm font-semibold text-gray-900">
+                    Task
+                  </div>
+                  <div className="bg-gray-50">
+                    <div className="flex">
+                      {dateRange.map((date, index) => (
+                        <div
+                          key={date.toISOString()}
+                          className="flex-1 px-2 py-3 text-center text-sm font-semibold text-gray-900 border-l border-gray-200"
+                        >
+                          {format(date, timeScale === 'day' ? 'MMM d' : timeScale === 'week' ? 'MMM d' : 'MMM yyyy')}
+                        </div>
+                      ))}
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              {/* Tasks */}
-              <div className="divide-y divide-gray-200 bg-white">
-                {ganttTasks.length === 0 ? (
-                  <div className="px-6 py-4 text-center text-sm text-gray-500">
-                    No tasks with dates found
-                  </div>
-                ) : (
-                  ganttTasks.map((task) => (
-                    <div
-                      key={task.id}
-                      className="grid hover:bg-gray-50 cursor-pointer"
-                      style={{ gridTemplateColumns: '300px 1fr' }}
-                      onClick={() => onTaskClick(task.id)}
-                    >
-                      <div className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        <div className="flex items-center">
-                          <span className="truncate">{task.title}</span>
-                          {task.priority === 'high' && (
-                            <AlertCircle className="ml-2 h-4 w-4 text-red-500" />
-                          )}
+                {/* Tasks */}
+                <div className="relative bg-white">
+                  {ganttTasks.length === 0 ? (
+                    <div className="px-6 py-4 text-center text-sm text-gray-500">
+                      No tasks with dates found
+                    </div>
+                  ) : (
+                    ganttTasks.map((task) => (
+                      <div
+                        key={task.id}
+                        className="grid border-b border-gray-200 hover:bg-gray-50 cursor-pointer focus:outline-none focus:bg-blue-50"
+                        style={{ gridTemplateColumns: '300px 1fr', height: ROW_HEIGHT }}
+                        onClick={() => onTaskClick(task.id)}
+                        tabIndex={0}
+                        data-task-id={task.id}
+                      >
+                        <div className="px-6 flex items-center whitespace-nowrap text-sm font-medium text-gray-900">
+                          <div className="flex items-center min-w-0">
+                            <span className="truncate">{task.title}</span>
+                            {task.priority === 'high' && (
+                              <AlertCircle className="ml-2 h-4 w-4 flex-shrink-0 text-red-500" />
+                            )}
+                            {task.dependencies.length > 0 && (
+                              <Lock className="ml-2 h-4 w-4 flex-shrink-0 text-gray-400" />
+                            )}
+                          </div>
                         </div>
-                      </div>
-                      <div className="relative py-4">
-                        <div
-                          className={`absolute h-6 rounded ${getTaskColor(task)} ${getTaskBorder(task)}`}
-                          style={getTaskStyle(task)}
-                        >
-                          <div className="px-2 py-1 text-xs font-medium text-white truncate">
-                            {task.title}
+                        <div className="relative flex items-center">
+                          <div
+                            className={`absolute h-6 rounded ${getTaskBorder(task)}`}
+                            style={{ ...getTaskStyle(task), backgroundColor: task.color }}
+                          >
+                            <div className="px-2 py-1 text-xs font-medium text-white truncate">
+                              {task.title}
+                            </div>
                           </div>
                         </div>
                       </div>
-                    </div>
-                  ))
-                )}
+                    ))
+                  )}
+
+                  {/* Dependency arrows */}
+                  {dependencyArrows.length > 0 && (
+                    <svg
+                      className="absolute top-0 bottom-0 right-0 pointer-events-none overflow-visible"
+                      style={{ left: 300, height: ganttTasks.length * ROW_HEIGHT }}
+                    >
+                      <defs>
+                        <marker id="gantt-arrow" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+                          <path d="M0,0 L8,4 L0,8 z" fill="#6B7280" />
+                        </marker>
+                        <marker id="gantt-arrow-blocking" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+                          <path d="M0,0 L8,4 L0,8 z" fill="#D97706" />
+                        </marker>
+                      </defs>
+                      {dependencyArrows.map(arrow => {
+                        const stroke = arrow.isBlocking ? '#D97706' : '#6B7280';
+                        return (
+                          <g key={arrow.id}>
+                            <line
+                              x1={`${arrow.x1}%`}
+                              y1={arrow.y1}
+                              x2={`${arrow.x1}%`}
+                              y2={arrow.y2}
+                              stroke={stroke}
+                              strokeWidth={1.5}
+                            />
+                            <line
+                              x1={`${arrow.x1}%`}
+                              y1={arrow.y2}
+                              x2={`${arrow.x2}%`}
+                              y2={arrow.y2}
+                              stroke={stroke}
+                              strokeWidth={1.5}
+                              markerEnd={`url(#${arrow.isBlocking ? 'gantt-arrow-blocking' : 'gantt-arrow'})`}
+                            />
+                          </g>
+                        );
+                      })}
+                    </svg>
+                  )}
+                </div>
               </div>
             </div>
           </div>
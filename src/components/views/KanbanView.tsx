@@ -20,21 +20,35 @@ import {
 import { TaskCard } from '../TaskCard';
 import { ColumnEditorModal } from '../ColumnEditorModal';
 import { supabase } from '../../lib/supabase';
-import { Task, TaskStatus, BoardColumn } from '../../lib/types';
-import { Settings, Plus, Filter, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Task, Board, BoardColumn, CustomField, BoardViewState, TaskBulkChanges, TaskTag } from '../../lib/types';
+import { Settings, Plus, Filter, ChevronLeft, ChevronRight, Lock, X } from 'lucide-react';
 import { TaskFilters } from '../TaskFilters';
+import { BulkActionBar } from '../BulkActionBar';
 import { filterTasks } from '../../lib/filters';
 import { useAppContext } from '../../lib/AppContext';
+import { useAuthStore } from '../../lib/store';
 import { logDebugEvent, DebugLevel, DebugEventType } from '../../lib/debugSystem';
 import { SortableTaskCard } from '../SortableTaskCard';
+import { getOpenBlockers } from '../../lib/services/dependencyService';
+import { getColumnForStatus, getDefaultStatus } from '../../lib/workflow';
+import { getSubtaskProgress, SubtaskProgress } from '../../lib/subtasks';
+import { DEFAULT_VIEW_STATE } from '../../lib/viewState';
+import { useTaskSelection } from '../../lib/hooks/useTaskSelection';
 
 interface KanbanViewProps {
   clientId: string;
   boardId: string;
   tasks: Task[];
   columns: BoardColumn[];
+  customFields: CustomField[];
+  viewState: BoardViewState;
+  onViewStateChange: (updates: Partial<BoardViewState>) => void;
+  boards?: Board[];
+  tags?: TaskTag[];
   onTaskUpdate: (taskId: string, updates: Partial<Task>) => Promise<void>;
   onColumnUpdate: (columnId: string, updates: Partial<BoardColumn>) => Promise<void>;
+  onBulkUpdate?: (taskIds: string[], changes: TaskBulkChanges) => Promise<void>;
+  onBulkDelete?: (taskIds: string[]) => Promise<void>;
   onTaskClick: (taskId: string) => void;
 }
 
@@ -43,24 +57,27 @@ export function KanbanView({
   boardId,
   tasks, 
   columns,
+  customFields,
+  viewState,
+  onViewStateChange,
+  boards,
+  tags,
   onTaskUpdate,
   onColumnUpdate,
+  onBulkUpdate,
+  onBulkDelete,
   onTaskClick 
 }: KanbanViewProps) {
   const { systemSettings } = useAppContext();
+  const { user } = useAuthStore();
   const [isCreating, setIsCreating] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filters, setFilters] = useState({
-    priority: [] as string[],
-    assignee: [] as string[],
-    dueDate: null as string | null
-  });
   const [scrollPosition, setScrollPosition] = useState(0);
   const scrollContainerRef = React.useRef<HTMLDivElement>(null);
   const [activeId, setActiveId] = useState<string | null>(null);
   const [activeTask, setActiveTask] = useState<Task | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
   const [draggedOverColumn, setDraggedOverColumn] = useState<string | null>(null);
+  const [moveError, setMoveError] = useState<string | null>(null);
 
   // Get theme colors
   const primaryColor = systemSettings?.primary_color || '#EF4444';
@@ -93,8 +110,15 @@ export function KanbanView({
 
   // Filter tasks based on search and filters
   const filteredTasks = useMemo(() => {
-    return filterTasks(tasks, searchTerm, filters);
-  }, [tasks, searchTerm, filters]);
+    return filterTasks(tasks, viewState.searchTerm, viewState.filters, {
+      userId: user?.id,
+      columns,
+      customFields
+    });
+  }, [tasks, viewState.searchTerm, viewState.filters, user?.id, columns, customFields]);
+
+  // Counted over all tasks so filters don't change a parent's progress
+  const subtaskProgress = useMemo(() => getSubtaskProgress(tasks, columns), [tasks, columns]);
 
   // Group tasks by status
   const tasksByStatus = useMemo(() => {
@@ -110,11 +134,10 @@ export function KanbanView({
       if (grouped[task.status]) {
         grouped[task.status].push(task);
       } else {
-        // If the column doesn't exist, add to the first column
-        const firstColumnKey = columns[0]?.key;
-        if (firstColumnKey) {
-          grouped[firstColumnKey] = grouped[firstColumnKey] || [];
-          grouped[firstColumnKey].push(task);
+        // If the column doesn't exist, show the task where new tasks land
+        const fallbackKey = getDefaultStatus(columns);
+        if (grouped[fallbackKey]) {
+          grouped[fallbackKey].push(task);
         }
       }
     });
@@ -122,6 +145,14 @@ export function KanbanView({
     return grouped;
   }, [filteredTasks, columns]);
 
+  // Board order, column by column, so shift-click selects what's between on screen
+  const orderedTaskIds = useMemo(
+    () => columns.flatMap(column => (tasksByStatus[column.key] || []).map(task => task.id)),
+    [columns, tasksByStatus]
+  );
+  const selection = useTaskSelection(orderedTaskIds);
+  const canBulkEdit = !!onBulkUpdate;
+
   // Scroll handlers for horizontal scrolling
   const handleScrollLeft = () => {
     if (scrollContainerRef.current) {
@@ -218,6 +249,26 @@ export function KanbanView({
       
       // If the task is being moved to a different column
       if (activeTask.status !== overColumnKey) {
+        // A task can't be completed while something it depends on is still open
+        if (getColumnForStatus(columns, overColumnKey)?.category === 'completed') {
+          const openBlockers = getOpenBlockers(activeTask);
+          if (openBlockers.length > 0) {
+            setMoveError(
+              `"${activeTask.title}" is blocked by ${openBlockers.map(blocker => `"${blocker.title}"`).join(', ')}`
+            );
+
+            logDebugEvent(
+              DebugLevel.WARNING,
+              DebugEventType.USER_ACTION,
+              'Blocked task move to completed column',
+              { taskId: activeTask.id, blockers: openBlockers.map(blocker => blocker.task_id) }
+            );
+            return;
+          }
+        }
+
+        setMoveError(null);
+
         try {
           setIsUpdating(true);
           
@@ -233,7 +284,7 @@ export function KanbanView({
           );
           
           // Update the task's status
-          await onTaskUpdate(activeTask.id, { status: overColumnKey as TaskStatus });
+          await onTaskUpdate(activeTask.id, { status: overColumnKey });
           
           // If the task was dropped on another task, we might want to reorder
           if (overTask && overTask.status === overColumnKey) {
@@ -326,19 +377,18 @@ export function KanbanView({
       <div className="flex items-start justify-between gap-4">
         <div className="flex-1">
           <TaskFilters
-            searchTerm={searchTerm}
-            onSearchChange={setSearchTerm}
-            filters={filters}
-            onFilterChange={setFilters}
+            searchTerm={viewState.searchTerm}
+            onSearchChange={searchTerm => onViewStateChange({ searchTerm })}
+            filters={viewState.filters}
+            onFilterChange={filters => onViewStateChange({ filters })}
             users={users}
-            clearFilters={() => {
-              setSearchTerm('');
-              setFilters({
-                priority: [],
-                assignee: [],
-                dueDate: null
-              });
-            }}
+            customFields={customFields}
+            tasks={tasks}
+            columns={columns}
+            clearFilters={() => onViewStateChange({
+              searchTerm: DEFAULT_VIEW_STATE.searchTerm,
+              filters: DEFAULT_VIEW_STATE.filters
+            })}
           />
         </div>
         <button
@@ -351,6 +401,42 @@ export function KanbanView({
         </button>
       </div>
 
+      {canBulkEdit && selection.selectedIds.size > 0 && (
+        <BulkActionBar
+          selectedCount={selection.selectedIds.size}
+          visibleCount={orderedTaskIds.length}
+          columns={columns}
+          users={users}
+          boards={boards}
+          boardId={boardId}
+          tags={tags}
+          onSelectAll={selection.selectAll}
+          onClear={selection.clear}
+          onApply={changes => onBulkUpdate!(Array.from(selection.selectedIds), changes)}
+          onDelete={onBulkDelete && (async () => {
+            await onBulkDelete(Array.from(selection.selectedIds));
+            selection.clear();
+          })}
+        />
+      )}
+
+      {moveError && (
+        <div className="rounded-md bg-yellow-50 p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center text-sm text-yellow-800">
+              <Lock className="h-4 w-4 mr-2 flex-shrink-0" />
+              {moveError}
+            </div>
+            <button
+              onClick={() => setMoveError(null)}
+              className="text-yellow-600 hover:text-yellow-800"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Kanban Board with Horizontal Scroll Controls */}
       <div className="relative">
         {/* Left scroll button */}
@@ -381,7 +467,11 @@ export function KanbanView({
               <KanbanColumn
                 key={column.id}
                 column={column}
+                fallbackStatus={getDefaultStatus(columns.filter(c => c.id !== column.id))}
                 tasks={tasksByStatus[column.key] || []}
+                subtaskProgress={subtaskProgress}
+                selectedIds={selection.selectedIds}
+                onTaskSelect={canBulkEdit ? selection.handleSelectClick : undefined}
                 onTaskClick={onTaskClick}
                 onColumnUpdate={onColumnUpdate}
                 isOver={draggedOverColumn === column.key}
@@ -392,7 +482,12 @@ export function KanbanView({
             <DragOverlay>
               {activeTask && (
                 <div className="w-80 opacity-80">
-                  <TaskCard task={activeTask} onClick={() => {}} />
+                  <TaskCard
+                    task={activeTask}
+                    column={getColumnForStatus(columns, activeTask.status)}
+                    subtaskProgress={subtaskProgress[activeTask.id]}
+                    onClick={() => {}}
+                  />
                 </div>
               )}
             </DragOverlay>
@@ -459,7 +554,11 @@ export function KanbanView({
 
 interface KanbanColumnProps {
   column: BoardColumn;
+  fallbackStatus: string; // Where this column's tasks go if it is deleted
   tasks: Task[];
+  subtaskProgress: Record<string, SubtaskProgress>;
+  selectedIds: Set<string>;
+  onTaskSelect?: (taskId: string, e: React.MouseEvent) => void;
   onTaskClick: (taskId: string) => void;
   onColumnUpdate?: (columnId: string, updates: Partial<BoardColumn>) => Promise<void>;
   isOver?: boolean;
@@ -467,7 +566,11 @@ interface KanbanColumnProps {
 
 function KanbanColumn({
   column,
+  fallbackStatus,
   tasks,
+  subtaskProgress,
+  selectedIds,
+  onTaskSelect,
   onTaskClick,
   onColumnUpdate,
   isOver = false
@@ -540,6 +643,10 @@ function KanbanColumn({
               <SortableTaskCard
                 key={task.id}
                 task={task}
+                column={column}
+                subtaskProgress={subtaskProgress[task.id]}
+                isSelected={selectedIds.has(task.id)}
+                onSelect={onTaskSelect}
                 onClick={onTaskClick}
               />
             ))}
@@ -564,7 +671,7 @@ function KanbanColumn({
             try {
               const { error: taskError } = await supabase
                 .from('tasks')
-                .update({ status: 'inbox' as TaskStatus })
+                .update({ status: fallbackStatus })
                 .eq('board_id', column.board_id)
                 .eq('status', column.key);
 
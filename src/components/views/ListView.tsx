@@ -1,34 +1,75 @@
-import React, { useMemo, useState } from 'react';
-import { Task } from '../../lib/types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Task, Board, BoardColumn, CustomField, BoardViewState, TaskBulkChanges, TaskGroupBy, TaskSortField, TaskTag } from '../../lib/types';
 import { format } from 'date-fns';
 import { TaskFilters } from '../TaskFilters';
+import { BulkActionBar } from '../BulkActionBar';
 import { filterTasks } from '../../lib/filters';
-import { ChevronDown, ChevronUp, ChevronRight } from 'lucide-react';
+import { ChevronDown, ChevronUp, ChevronRight, Download, CornerDownRight } from 'lucide-react';
 import { useAppContext } from '../../lib/AppContext';
+import { useAuthStore } from '../../lib/store';
+import { getStatusColors, getStatusLabel, isTaskOverdue } from '../../lib/workflow';
+import { formatCustomFieldValue } from '../../lib/customFields';
+import { buildTasksCsv, downloadCsv } from '../../lib/export';
+import { getSubtaskProgress, getSubtasks, getTaskRollup, nestSubtasks } from '../../lib/subtasks';
+import { fetchLoggedHours } from '../../lib/services/subtaskService';
+import { DEFAULT_VIEW_STATE, GROUP_BY_OPTIONS, groupTasks, sortTasks } from '../../lib/viewState';
+import { useTaskSelection } from '../../lib/hooks/useTaskSelection';
 
 interface ListViewProps {
   clientId: string;
   boardId: string;
   tasks: Task[];
+  columns: BoardColumn[];
+  customFields: CustomField[];
+  viewState: BoardViewState;
+  onViewStateChange: (updates: Partial<BoardViewState>) => void;
+  boards?: Board[];
+  tags?: TaskTag[];
   onTaskUpdate: (taskId: string, updates: Partial<Task>) => Promise<void>;
+  onBulkUpdate?: (taskIds: string[], changes: TaskBulkChanges) => Promise<void>;
+  onBulkDelete?: (taskIds: string[]) => Promise<void>;
   onTaskClick: (taskId: string) => void;
 }
 
-export function ListView({ tasks, onTaskClick }: ListViewProps) {
+export function ListView({
+  boardId,
+  tasks,
+  columns,
+  customFields,
+  viewState,
+  onViewStateChange,
+  boards,
+  tags,
+  onBulkUpdate,
+  onBulkDelete,
+  onTaskClick
+}: ListViewProps) {
   const { systemSettings } = useAppContext();
-  const [searchTerm, setSearchTerm] = React.useState('');
-  const [filters, setFilters] = React.useState({
-    priority: [] as string[],
-    assignee: [] as string[],
-    dueDate: null as string | null
-  });
-  const [sortField, setSortField] = useState<'title' | 'status' | 'priority' | 'assigned_to' | 'finish_date'>('finish_date');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const { user } = useAuthStore();
+  const { searchTerm, filters, sortField, sortDirection, groupBy } = viewState;
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const [loggedHours, setLoggedHours] = useState<Record<string, number>>({});
 
   // Get theme colors
   const primaryColor = systemSettings?.primary_color || '#EF4444';
 
+  const visibleFields = useMemo(() =>
+    customFields
+      .filter(field => !field.is_archived)
+      .sort((a, b) => a.position - b.position),
+    [customFields]
+  );
+  const columnCount = 6 + visibleFields.length;
+
+  // Logged time feeds the rollups shown in expanded rows
+  useEffect(() => {
+    fetchLoggedHours(tasks.map(task => task.id))
+      .then(setLoggedHours)
+      .catch(() => setLoggedHours({}));
+  }, [tasks]);
+
+  const subtaskProgress = useMemo(() => getSubtaskProgress(tasks, columns), [tasks, columns]);
+
   // Get unique users from tasks
   const users = useMemo(() => {
     const userMap = new Map();
@@ -45,54 +86,44 @@ export function ListView({ tasks, onTaskClick }: ListViewProps) {
 
   // Filter tasks
   const filteredTasks = useMemo(() => {
-    return filterTasks(tasks, searchTerm, filters);
-  }, [tasks, searchTerm, filters]);
+    return filterTasks(tasks, searchTerm, filters, { userId: user?.id, columns, customFields });
+  }, [tasks, searchTerm, filters, user?.id, columns, customFields]);
 
   // Sort tasks
   const sortedTasks = useMemo(() => {
-    return [...filteredTasks].sort((a, b) => {
-      let valueA, valueB;
-      
-      switch (sortField) {
-        case 'title':
-          valueA = a.title.toLowerCase();
-          valueB = b.title.toLowerCase();
-          break;
-        case 'status':
-          valueA = a.status;
-          valueB = b.status;
-          break;
-        case 'priority':
-          const priorityOrder = { high: 0, medium: 1, low: 2 };
-          valueA = priorityOrder[a.priority];
-          valueB = priorityOrder[b.priority];
-          break;
-        case 'assigned_to':
-          valueA = a.assigned_to_email || '';
-          valueB = b.assigned_to_email || '';
-          break;
-        case 'finish_date':
-          valueA = a.finish_date ? new Date(a.finish_date).getTime() : Number.MAX_SAFE_INTEGER;
-          valueB = b.finish_date ? new Date(b.finish_date).getTime() : Number.MAX_SAFE_INTEGER;
-          break;
-        default:
-          valueA = a.title.toLowerCase();
-          valueB = b.title.toLowerCase();
-      }
-      
-      if (valueA < valueB) return sortDirection === 'asc' ? -1 : 1;
-      if (valueA > valueB) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
-  }, [filteredTasks, sortField, sortDirection]);
+    return sortTasks(filteredTasks, sortField, sortDirection, columns);
+  }, [filteredTasks, sortField, sortDirection, columns]);
+
+  // Subtasks are listed under their parent, in the same sort order
+  const groups = useMemo(() =>
+    groupTasks(sortedTasks, groupBy, columns).map(group => ({ ...group, rows: nestSubtasks(group.tasks) })),
+    [sortedTasks, groupBy, columns]
+  );
+  const listedRows = groups.flatMap(group => group.rows);
+
+  const orderedTaskIds = useMemo(
+    () => groups.flatMap(group => group.rows.map(row => row.task.id)),
+    [groups]
+  );
+  const selection = useTaskSelection(orderedTaskIds);
+  const canBulkEdit = !!onBulkUpdate;
+  const allSelected = orderedTaskIds.length > 0 && selection.selectedIds.size === orderedTaskIds.length;
+
+  const handleRowClick = (taskId: string, e: React.MouseEvent) => {
+    if (canBulkEdit && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      selection.handleSelectClick(taskId, e);
+      return;
+    }
+    onTaskClick(taskId);
+  };
 
   // Toggle sort direction or change sort field
-  const handleSort = (field: typeof sortField) => {
+  const handleSort = (field: TaskSortField) => {
     if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+      onViewStateChange({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortField(field);
-      setSortDirection('asc');
+      onViewStateChange({ sortField: field, sortDirection: 'asc' });
     }
   };
 
@@ -111,37 +142,96 @@ export function ListView({ tasks, onTaskClick }: ListViewProps) {
   };
 
   // Render sort indicator
-  const renderSortIcon = (field: typeof sortField) => {
+  const renderSortIcon = (field: TaskSortField) => {
     if (sortField !== field) return null;
     return sortDirection === 'asc' ? 
       <ChevronUp className="h-4 w-4 inline-block ml-1" /> : 
       <ChevronDown className="h-4 w-4 inline-block ml-1" />;
   };
 
+  // Export what's currently listed, in the current order
+  const handleExport = () => {
+    downloadCsv(
+      `tasks-${format(new Date(), 'yyyy-MM-dd')}.csv`,
+      buildTasksCsv(listedRows.map(row => row.task), columns, customFields)
+    );
+  };
+
   return (
     <div className="space-y-4">
-      <TaskFilters
-        searchTerm={searchTerm}
-        onSearchChange={setSearchTerm}
-        filters={filters}
-        onFilterChange={setFilters}
-        users={users}
-        clearFilters={() => {
-          setSearchTerm('');
-          setFilters({
-            priority: [],
-            assignee: [],
-            dueDate: null
-          });
-        }}
-      />
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1">
+          <TaskFilters
+            searchTerm={searchTerm}
+            onSearchChange={term => onViewStateChange({ searchTerm: term })}
+            filters={filters}
+            onFilterChange={newFilters => onViewStateChange({ filters: newFilters })}
+            users={users}
+            customFields={customFields}
+            tasks={tasks}
+            columns={columns}
+            clearFilters={() => onViewStateChange({
+              searchTerm: DEFAULT_VIEW_STATE.searchTerm,
+              filters: DEFAULT_VIEW_STATE.filters
+            })}
+          />
+        </div>
+        <select
+          value={groupBy}
+          onChange={(e) => onViewStateChange({ groupBy: e.target.value as TaskGroupBy })}
+          className="flex-shrink-0 rounded-md border-gray-300 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          title="Group by"
+        >
+          {GROUP_BY_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>
+              {option.id === 'none' ? option.label : `Group by ${option.label.toLowerCase()}`}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          className="flex-shrink-0 inline-flex items-center gap-x-2 rounded-md bg-white px-3.5 py-2.5 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+        >
+          <Download className="h-5 w-5" />
+          Export CSV
+        </button>
+      </div>
+
+      {canBulkEdit && selection.selectedIds.size > 0 && (
+        <BulkActionBar
+          selectedCount={selection.selectedIds.size}
+          visibleCount={orderedTaskIds.length}
+          columns={columns}
+          users={users}
+          boards={boards}
+          boardId={boardId}
+          tags={tags}
+          onSelectAll={selection.selectAll}
+          onClear={selection.clear}
+          onApply={changes => onBulkUpdate!(Array.from(selection.selectedIds), changes)}
+          onDelete={onBulkDelete && (async () => {
+            await onBulkDelete(Array.from(selection.selectedIds));
+            selection.clear();
+          })}
+        />
+      )}
 
       <div className="bg-white shadow rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="w-10 px-2 py-3"></th>
+                <th className={canBulkEdit ? 'w-16 px-2 py-3' : 'w-10 px-2 py-3'}>
+                  {canBulkEdit && (
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => (allSelected ? selection.clear() : selection.selectAll())}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      title="Select all listed tasks"
+                    />
+                  )}
+                </th>
                 <th 
                   className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
                   onClick={() => handleSort('title')}
@@ -182,105 +272,159 @@ export function ListView({ tasks, onTaskClick }: ListViewProps) {
                     Due Date {renderSortIcon('finish_date')}
                   </span>
                 </th>
+                {visibleFields.map(field => (
+                  <th
+                    key={field.id}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {field.name}
+                  </th>
+                ))}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {sortedTasks.length > 0 ? (
-                sortedTasks.map((task) => {
-                  const isOverdue = task.finish_date && new Date(task.finish_date) < new Date() && task.status !== 'done';
-                  const isExpanded = expandedRows.has(task.id);
-
-                  return (
-                    <React.Fragment key={task.id}>
-                      <tr 
-                        className="hover:bg-gray-50 cursor-pointer"
-                        onClick={() => onTaskClick(task.id)}
-                      >
-                        <td className="px-2 py-4 whitespace-nowrap">
-                          <button 
-                            onClick={(e) => toggleRowExpansion(task.id, e)}
-                            className="text-gray-400 hover:text-gray-600"
-                          >
-                            <ChevronRight className={`h-4 w-4 transition-transform ${isExpanded ? 'transform rotate-90' : ''}`} />
-                          </button>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm font-medium text-gray-900">{task.title}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize
-                            ${task.status === 'done' ? 'bg-green-100 text-green-800' :
-                              task.status === 'doing' ? 'bg-yellow-100 text-yellow-800' :
-                              task.status === 'todo' ? 'bg-blue-100 text-blue-800' :
-                              'bg-gray-100 text-gray-800'}`}
-                          >
-                            {task.status}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize
-                            ${task.priority === 'high' ? 'bg-red-100 text-red-800' :
-                              task.priority === 'medium' ? 'bg-yellow-100 text-yellow-800' :
-                              'bg-green-100 text-green-800'}`}
-                          >
-                            {task.priority}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900 truncate max-w-[150px]">
-                            {task.assigned_to_email || '-'}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className={`text-sm ${isOverdue ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
-                            {task.finish_date ? format(new Date(task.finish_date), 'MMM d, yyyy') : '-'}
-                          </div>
+              {listedRows.length > 0 ? (
+                groups.map(group => (
+                  <React.Fragment key={group.key}>
+                    {groupBy !== 'none' && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={columnCount} className="px-6 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {group.label} ({group.tasks.length})
                         </td>
                       </tr>
-                      {isExpanded && (
-                        <tr className="bg-gray-50">
-                          <td colSpan={6} className="px-6 py-4">
-                            <div className="text-sm text-gray-700">
-                              <div className="font-medium mb-2">Description:</div>
-                              <p className="whitespace-pre-wrap">{task.description || 'No description provided.'}</p>
-                              
-                              <div className="grid grid-cols-2 gap-4 mt-4">
-                                <div>
-                                  <div className="font-medium mb-1">Start Date:</div>
-                                  <p>{task.start_date ? format(new Date(task.start_date), 'MMM d, yyyy') : 'Not set'}</p>
-                                </div>
-                                <div>
-                                  <div className="font-medium mb-1">Estimated Hours:</div>
-                                  <p>{task.estimated_hours ? `${task.estimated_hours} hours` : 'Not set'}</p>
-                                </div>
-                                <div>
-                                  <div className="font-medium mb-1">Estimated Cost:</div>
-                                  <p>{task.estimated_cost ? `$${task.estimated_cost.toFixed(2)}` : 'Not set'}</p>
-                                </div>
-                              </div>
-                              
-                              <div className="mt-4 flex justify-end">
-                                <button
+                    )}
+                    {group.rows.map(({ task, isSubtask }) => {
+                      const isOverdue = isTaskOverdue(task, columns);
+                      const statusColors = getStatusColors(task, columns);
+                      const isExpanded = expandedRows.has(task.id);
+                      const progress = subtaskProgress[task.id];
+                      const rollup = getTaskRollup(task, getSubtasks(tasks, task.id), loggedHours);
+
+                      return (
+                        <React.Fragment key={task.id}>
+                          <tr 
+                            className={`cursor-pointer focus:outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 ${selection.selectedIds.has(task.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                            onClick={(e) => handleRowClick(task.id, e)}
+                            tabIndex={0}
+                            data-task-id={task.id}
+                          >
+                            <td className="px-2 py-4 whitespace-nowrap">
+                              {canBulkEdit && (
+                                <input
+                                  type="checkbox"
+                                  checked={selection.selectedIds.has(task.id)}
+                                  onChange={() => {}}
                                   onClick={(e) => {
                                     e.stopPropagation();
-                                    onTaskClick(task.id);
+                                    selection.handleSelectClick(task.id, e);
                                   }}
-                                  className="px-3 py-1 text-sm text-white rounded-md"
-                                  style={{ backgroundColor: primaryColor }}
-                                >
-                                  View Details
-                                </button>
+                                  className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                  aria-label={`Select ${task.title}`}
+                                />
+                              )}
+                              <button 
+                                onClick={(e) => toggleRowExpansion(task.id, e)}
+                                className="text-gray-400 hover:text-gray-600"
+                              >
+                                <ChevronRight className={`h-4 w-4 transition-transform ${isExpanded ? 'transform rotate-90' : ''}`} />
+                              </button>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className={`flex items-center text-sm font-medium text-gray-900 ${isSubtask ? 'pl-6' : ''}`}>
+                                {isSubtask && <CornerDownRight className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />}
+                                <span>{task.title}</span>
+                                {progress && (
+                                  <span className="ml-2 text-xs font-normal text-gray-500" title="Completed subtasks">
+                                    {progress.completed}/{progress.total}
+                                  </span>
+                                )}
+                              </div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <span
+                                className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+                                style={{ backgroundColor: statusColors.bg, color: statusColors.text }}
+                              >
+                                {getStatusLabel(task.status, columns)}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize
+                                ${task.priority === 'high' ? 'bg-red-100 text-red-800' :
+                                  task.priority === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+                                  'bg-green-100 text-green-800'}`}
+                              >
+                                {task.priority}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="text-sm text-gray-900 truncate max-w-[150px]">
+                                {task.assigned_to_email || '-'}
                               </div>
-                            </div>
-                          </td>
-                        </tr>
-                      )}
-                    </React.Fragment>
-                  );
-                })
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className={`text-sm ${isOverdue ? 'text-red-600 font-medium' : 'text-gray-900'}`}>
+                                {task.finish_date ? format(new Date(task.finish_date), 'MMM d, yyyy') : '-'}
+                              </div>
+                            </td>
+                            {visibleFields.map(field => (
+                              <td key={field.id} className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-900 truncate max-w-[200px]">
+                                  {formatCustomFieldValue(field, task.custom_fields?.[field.id]) || '-'}
+                                </div>
+                              </td>
+                            ))}
+                          </tr>
+                          {isExpanded && (
+                            <tr className="bg-gray-50">
+                              <td colSpan={columnCount} className="px-6 py-4">
+                                <div className="text-sm text-gray-700">
+                                  <div className="font-medium mb-2">Description:</div>
+                                  <p className="whitespace-pre-wrap">{task.description || 'No description provided.'}</p>
+                              
+                                  <div className="grid grid-cols-2 gap-4 mt-4">
+                                    <div>
+                                      <div className="font-medium mb-1">Start Date:</div>
+                                      <p>{task.start_date ? format(new Date(task.start_date), 'MMM d, yyyy') : 'Not set'}</p>
+                                    </div>
+                                    <div>
+                                      <div className="font-medium mb-1">Estimated Hours{progress && ' (incl. subtasks)'}:</div>
+                                      <p>{rollup.estimatedHours ? `${rollup.estimatedHours} hours` : 'Not set'}</p>
+                                    </div>
+                                    <div>
+                                      <div className="font-medium mb-1">Estimated Cost{progress && ' (incl. subtasks)'}:</div>
+                                      <p>{rollup.estimatedCost ? `$${rollup.estimatedCost.toFixed(2)}` : 'Not set'}</p>
+                                    </div>
+                                    <div>
+                                      <div className="font-medium mb-1">Logged Time{progress && ' (incl. subtasks)'}:</div>
+                                      <p>{rollup.loggedHours.toFixed(1)} hours</p>
+                                    </div>
+                                  </div>
+                              
+                                  <div className="mt-4 flex justify-end">
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        onTaskClick(task.id);
+                                      }}
+                                      className="px-3 py-1 text-sm text-white rounded-md"
+                                      style={{ backgroundColor: primaryColor }}
+                                    >
+                                      View Details
+                                    </button>
+                                  </div>
+                                </div>
+                              </td>
+                            </tr>
+                          )}
+                        </React.Fragment>
+                      );
+                    })}
+                  </React.Fragment>
+                ))
               ) : (
                 <tr>
-                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                  <td colSpan={columnCount} className="px-6 py-4 text-center text-sm text-gray-500">
                     No tasks found
                   </td>
                 </tr>
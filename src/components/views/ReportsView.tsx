@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Task, TimeEntry } from '../../lib/types';
+import { Task, TimeEntry, BoardColumn } from '../../lib/types';
+import { isTaskCompleted } from '../../lib/workflow';
 import { format, startOfDay, endOfDay, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
 import { supabase } from '../../lib/supabase';
 import { BarChart2, Clock, DollarSign, CheckSquare, AlertCircle } from 'lucide-react';
@@ -9,7 +10,7 @@ interface ReportsViewProps {
   clientId: string;
   boardId: string;
   tasks: Task[];
-  columns: any[];
+  columns: BoardColumn[];
   onTaskUpdate: (taskId: string, updates: Partial<Task>) => Promise<void>;
   onTaskClick: (taskId: string) => void;
 }
@@ -216,7 +217,7 @@ export function ReportsView({ tasks, columns, onTaskClick }: ReportsViewProps) {
       const user = userMap.get(task.assigned_to)!;
       user.tasks_assigned++;
       
-      if (task.status === 'done') {
+      if (isTaskCompleted(task, columns)) {
         user.tasks_completed++;
       }
     });
@@ -234,7 +235,7 @@ export function ReportsView({ tasks, columns, onTaskClick }: ReportsViewProps) {
     
     return Array.from(userMap.values())
       .sort((a, b) => b.hours_completed - a.hours_completed);
-  }, [timeEntries, tasks]);
+  }, [timeEntries, tasks, columns]);
 
   // Calculate daily hours
   const dailyHours = useMemo(() => {
@@ -427,14 +428,14 @@ export function ReportsView({ tasks, columns, onTaskClick }: ReportsViewProps) {
             <div className="relative overflow-hidden rounded-lg bg-white px-4 py-5 shadow sm:px-6">
               <dt className="truncate text-sm font-medium text-gray-500">Task Completion</dt>
               <dd className="mt-1 text-3xl font-semibold tracking-tight text-gray-900">
-                {tasks.filter(t => t.status === 'done').length} / {tasks.length}
+                {tasks.filter(t => isTaskCompleted(t, columns)).length} / {tasks.length}
               </dd>
               <div className="mt-2 w-full bg-gray-200 rounded-full h-2.5">
                 <div 
                   className="bg-blue-600 h-2.5 rounded-full"
                   style={{ 
                     width: `${tasks.length > 0 
-                      ? (tasks.filter(t => t.status === 'done').length / tasks.length) * 100 
+                      ? (tasks.filter(t => isTaskCompleted(t, columns)).length / tasks.length) * 100 
                       : 0}%` 
                   }}
                 ></div>
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from './supabase';
 import { checkAndProcessNotificationEmails, setupNotificationEmailProcessor } from './emailNotifications';
+import { startOfflineSync } from './syncQueue';
+import { applyManifest } from './pwa';
 import { logDebugEvent, DebugLevel, DebugEventType } from './debugSystem';
 
 interface SystemSettings {
@@ -72,6 +74,9 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
       
       favicon.href = url;
     }
+
+    // An installed app gets the same name, logo and colors
+    applyManifest(settings);
   };
 
   const fetchSystemSettings = async () => {
@@ -133,6 +138,9 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     
     // Check for pending notification emails on startup
     checkAndProcessNotificationEmails();
+
+    // Send changes made offline once the connection is back
+    const stopOfflineSync = startOfflineSync();
     
     logDebugEvent(
       DebugLevel.INFO,
@@ -144,6 +152,7 @@ export function AppProvider({ children }: { children: React.ReactNode }) {
     return () => {
       supabase.removeChannel(channel);
       cleanupNotificationProcessor();
+      stopOfflineSync();
     };
   }, []);
 
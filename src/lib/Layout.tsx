@@ -4,17 +4,31 @@ import { useAuthStore } from './store';
 import { 
   Building2, Users, Briefcase, CheckSquare, LogOut, Settings, 
   Shield, Hexagon as Dragon, FileText, BarChart2, Menu, X, 
-  ChevronRight, ChevronDown
+  ChevronRight, ChevronDown, LayoutTemplate, Inbox, CalendarClock, Search, Keyboard
 } from 'lucide-react';
 import { supabase } from './supabase';
 import { NotificationBell } from '../components/NotificationBell';
+import { SyncStatusIndicator } from '../components/SyncStatusIndicator';
+import { RunningTimerIndicator } from '../components/RunningTimerIndicator';
 import { Breadcrumbs } from '../components/Breadcrumbs';
+import { UndoToast } from '../components/UndoToast';
+import { CommandPalette } from '../components/CommandPalette';
+import { ShortcutCheatSheet } from '../components/ShortcutCheatSheet';
+import { useUndoShortcuts } from './hooks/useUndoShortcuts';
+import { useCommandShortcuts } from './hooks/useCommands';
+import { useRunningTimerSync } from './hooks/useRunningTimerSync';
+import { useCommands } from './commands';
+import { useUndoHistory } from './undoHistory';
+import { clearCache } from './offlineDb';
 import { useAppContext } from './AppContext';
 import clsx from 'clsx';
 import { PermissionGate } from '../components/PermissionGate';
 import { PermissionType } from './permissionChecker';
 import { logComponentRender, logNavigation, DebugLevel, DebugEventType, logDebugEvent } from './debugSystem';
 
+// How long the undo toast stays after a change
+const UNDO_TOAST_MS = 10000;
+
 interface Agency {
   id: string;
   name: string;
@@ -27,8 +41,11 @@ const navigation = {
     { name: 'Systems', href: '/systems', icon: Building2, permission: PermissionType.VIEW_SYSTEM },
     { name: 'Agencies', href: '/agencies', icon: Briefcase, permission: PermissionType.VIEW_AGENCY },
     { name: 'Clients', href: '/clients', icon: Users, permission: PermissionType.VIEW_CLIENT },
+    { name: 'My Work', href: '/my-work', icon: Inbox, permission: PermissionType.VIEW_TASKS },
+    { name: 'Timesheet', href: '/timesheet', icon: CalendarClock, permission: PermissionType.VIEW_TASKS },
     { name: 'Tasks', href: '/tasks', icon: CheckSquare, permission: PermissionType.VIEW_TASKS },
     { name: 'SOPs', href: '/sops', icon: FileText, permission: PermissionType.VIEW_SOPS },
+    { name: 'Templates', href: '/templates', icon: LayoutTemplate, permission: PermissionType.MANAGE_TASKS },
     { name: 'Reports', href: '/reports', icon: BarChart2, permission: PermissionType.VIEW_REPORTS },
     { name: 'Users', href: '/users', icon: Users, permission: PermissionType.VIEW_USERS },
     { name: 'Settings', href: '/settings', icon: Settings, permission: PermissionType.MANAGE_SETTINGS },
@@ -36,20 +53,28 @@ const navigation = {
   agency_admin: [
     { name: 'Dashboard', href: '/', icon: Briefcase, permission: PermissionType.VIEW_TASKS },
     { name: 'Clients', href: '/clients', icon: Users, permission: PermissionType.VIEW_CLIENT },
+    { name: 'My Work', href: '/my-work', icon: Inbox, permission: PermissionType.VIEW_TASKS },
+    { name: 'Timesheet', href: '/timesheet', icon: CalendarClock, permission: PermissionType.VIEW_TASKS },
     { name: 'Tasks', href: '/tasks', icon: CheckSquare, permission: PermissionType.VIEW_TASKS },
     { name: 'SOPs', href: '/sops', icon: FileText, permission: PermissionType.VIEW_SOPS },
+    { name: 'Templates', href: '/templates', icon: LayoutTemplate, permission: PermissionType.MANAGE_TASKS },
     { name: 'Reports', href: '/reports', icon: BarChart2, permission: PermissionType.VIEW_REPORTS },
     { name: 'Users', href: '/users', icon: Users, permission: PermissionType.VIEW_USERS },
   ],
   client_admin: [
     { name: 'Dashboard', href: '/', icon: Briefcase, permission: PermissionType.VIEW_TASKS },
+    { name: 'My Work', href: '/my-work', icon: Inbox, permission: PermissionType.VIEW_TASKS },
+    { name: 'Timesheet', href: '/timesheet', icon: CalendarClock, permission: PermissionType.VIEW_TASKS },
     { name: 'Tasks', href: '/tasks', icon: CheckSquare, permission: PermissionType.VIEW_TASKS },
     { name: 'SOPs', href: '/sops', icon: FileText, permission: PermissionType.VIEW_SOPS },
+    { name: 'Templates', href: '/templates', icon: LayoutTemplate, permission: PermissionType.MANAGE_TASKS },
     { name: 'Reports', href: '/reports', icon: BarChart2, permission: PermissionType.VIEW_REPORTS },
     { name: 'Users', href: '/users', icon: Users, permission: PermissionType.VIEW_USERS },
   ],
   client_user: [
     { name: 'Dashboard', href: '/', icon: Briefcase, permission: PermissionType.VIEW_TASKS },
+    { name: 'My Work', href: '/my-work', icon: Inbox, permission: PermissionType.VIEW_TASKS },
+    { name: 'Timesheet', href: '/timesheet', icon: CalendarClock, permission: PermissionType.VIEW_TASKS },
     { name: 'Tasks', href: '/tasks', icon: CheckSquare, permission: PermissionType.VIEW_TASKS },
     { name: 'SOPs', href: '/sops', icon: FileText, permission: PermissionType.VIEW_SOPS },
     { name: 'Reports', href: '/reports', icon: BarChart2, permission: PermissionType.VIEW_REPORTS },
@@ -71,6 +96,11 @@ export function Layout() {
   const [availableClients, setAvailableClients] = useState<{id: string, name: string}[]>([]);
   const [isLoadingContext, setIsLoadingContext] = useState(false);
 
+  useUndoShortcuts();
+  useCommandShortcuts();
+  useRunningTimerSync();
+  const { openPalette, openCheatSheet } = useCommands();
+
   const currentNavigation = role ? navigation[role] : [];
 
   useEffect(() => {
@@ -720,6 +750,8 @@ export function Layout() {
                       'User logged out',
                       { userId: user?.id }
                     );
+                    useUndoHistory.getState().clear();
+                    clearCache().catch(err => console.error('Error clearing offline cache:', err));
                     logout();
                   }}
                   className="p-1 text-gray-400 hover:text-gray-500"
@@ -755,6 +787,24 @@ export function Layout() {
             </div>
             
             <div className="flex items-center space-x-4">
+              <button
+                onClick={openPalette}
+                className="flex items-center space-x-2 rounded-md border border-gray-200 px-2 py-1.5 text-sm text-gray-400 hover:text-gray-500 hover:border-gray-300"
+                title="Search or run a command (Ctrl+K)"
+              >
+                <Search className="h-4 w-4" />
+                <span className="hidden lg:inline">Search…</span>
+                <kbd className="hidden lg:inline font-mono text-xs">Ctrl K</kbd>
+              </button>
+              <button
+                onClick={openCheatSheet}
+                className="hidden md:block p-2 rounded-full text-gray-400 hover:text-gray-500"
+                title="Keyboard shortcuts (?)"
+              >
+                <Keyboard className="h-5 w-5" />
+              </button>
+              <RunningTimerIndicator />
+              <SyncStatusIndicator />
               <div className="hidden md:block">
                 <NotificationBell />
               </div>
@@ -774,6 +824,10 @@ export function Layout() {
             <Outlet />
           </div>
         </main>
+
+        <UndoToast duration={UNDO_TOAST_MS} />
+        <CommandPalette pages={currentNavigation} />
+        <ShortcutCheatSheet />
       </div>
     </div>
   );
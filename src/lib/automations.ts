@@ -0,0 +1,85 @@
+import { AutomationAction, AutomationActionType, AutomationRule, AutomationTriggerType, BoardColumn } from './types';
+
+export const AUTOMATION_TRIGGERS: { id: AutomationTriggerType; label: string }[] = [
+  { id: 'status_changed', label: 'Status changes' },
+  { id: 'task_created', label: 'Task is created' },
+  { id: 'due_date_passed', label: 'Due date passes' },
+  { id: 'checklist_completed', label: 'Checklist is completed' },
+  { id: 'time_exceeds_estimate', label: 'Time logged exceeds the estimate' }
+];
+
+export const AUTOMATION_ACTIONS: { id: AutomationActionType; label: string }[] = [
+  { id: 'assign_user', label: 'Assign to' },
+  { id: 'set_priority', label: 'Set priority' },
+  { id: 'move_to_column', label: 'Move to column' },
+  { id: 'add_checklist', label: 'Add checklist' },
+  { id: 'link_sop', label: 'Link SOP' },
+  { id: 'post_comment', label: 'Post a comment' },
+  { id: 'notify', label: 'Send a notification' }
+];
+
+/**
+ * A new action of a type, with empty settings for the rule editor to fill in
+ */
+export function createAutomationAction(type: AutomationActionType): AutomationAction {
+  switch (type) {
+    case 'assign_user':
+      return { type, user_id: '' };
+    case 'set_priority':
+      return { type, priority: 'high' };
+    case 'move_to_column':
+      return { type, status: '' };
+    case 'add_checklist':
+      return { type, items: [] };
+    case 'link_sop':
+      return { type, sop_id: '' };
+    case 'post_comment':
+      return { type, content: '' };
+    case 'notify':
+      return { type, user_id: null, message: '' };
+  }
+}
+
+/**
+ * Whether an action has everything it needs to run
+ */
+export function isAutomationActionComplete(action: AutomationAction): boolean {
+  switch (action.type) {
+    case 'assign_user':
+      return !!action.user_id;
+    case 'set_priority':
+      return !!action.priority;
+    case 'move_to_column':
+      return !!action.status;
+    case 'add_checklist':
+      return action.items.some(item => item.trim());
+    case 'link_sop':
+      return !!action.sop_id;
+    case 'post_comment':
+      return !!action.content.trim();
+    case 'notify':
+      return !!action.message.trim();
+  }
+}
+
+/**
+ * One line summary of a rule's trigger, e.g. "When status changes to Done"
+ */
+export function describeAutomationTrigger(rule: Pick<AutomationRule, 'trigger_type' | 'trigger_config'>, columns: BoardColumn[]): string {
+  const label = AUTOMATION_TRIGGERS.find(trigger => trigger.id === rule.trigger_type)?.label || rule.trigger_type;
+
+  if (rule.trigger_type === 'status_changed' && rule.trigger_config.status) {
+    const column = columns.find(c => c.key === rule.trigger_config.status);
+    return `When status changes to ${column?.name || rule.trigger_config.status}`;
+  }
+
+  if (rule.trigger_type === 'task_created' && rule.trigger_config.tag) {
+    return `When a task is created with the tag "${rule.trigger_config.tag}"`;
+  }
+
+  return `When ${label.charAt(0).toLowerCase()}${label.slice(1)}`;
+}
+
+export function getAutomationActionLabel(type: AutomationActionType): string {
+  return AUTOMATION_ACTIONS.find(action => action.id === type)?.label || type;
+}
@@ -0,0 +1,30 @@
+import { BillingRate, BillingRateScope } from './types';
+
+// Scopes in order of precedence: the first that matches a piece of work sets its rate
+export const SCOPE_LABELS: Record<BillingRateScope, string> = {
+  task: 'Task override',
+  client_user: 'Client and user',
+  client: 'Client',
+  user: 'User',
+  role: 'Role',
+  agency: 'Agency default'
+};
+
+// Roles a rate can be set for; system admins don't log time against agencies
+export const RATE_ROLE_LABELS: Record<string, string> = {
+  agency_admin: 'Agency admins',
+  client_admin: 'Client admins',
+  client_user: 'Client users'
+};
+
+/**
+ * Which kind of rate a row is, from most to least specific
+ */
+export function getBillingRateScope(rate: Pick<BillingRate, 'task_id' | 'client_id' | 'user_id' | 'role'>): BillingRateScope {
+  if (rate.task_id) return 'task';
+  if (rate.client_id && rate.user_id) return 'client_user';
+  if (rate.client_id) return 'client';
+  if (rate.user_id) return 'user';
+  if (rate.role) return 'role';
+  return 'agency';
+}
@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+
+export interface Command {
+  id: string;
+  label: string; // e.g. "Move ACME-12 to Done"
+  section: string; // Heading the command is listed under in the palette
+  keywords?: string; // Extra words the command can be found by
+  shortcut?: string; // Key that does the same thing outside the palette
+  run: () => void | Promise<void>;
+}
+
+// What the palette was opened over, so commands can act on it
+export interface CommandContext {
+  focusedTaskId: string | null;
+}
+
+type CommandSource = (context: CommandContext) => Command[];
+
+export interface Shortcut {
+  keys: string[];
+  description: string;
+}
+
+export const GLOBAL_SHORTCUTS: Shortcut[] = [
+  { keys: ['Ctrl', 'K'], description: 'Open the command palette' },
+  { keys: ['?'], description: 'Show keyboard shortcuts' },
+  { keys: ['Ctrl', 'Z'], description: 'Undo' },
+  { keys: ['Ctrl', 'Shift', 'Z'], description: 'Redo' }
+];
+
+export const BOARD_SHORTCUTS: Shortcut[] = [
+  { keys: ['j'], description: 'Next task' },
+  { keys: ['k'], description: 'Previous task' },
+  { keys: ['e'], description: 'Edit the selected task' },
+  { keys: ['c'], description: 'Create a task' },
+  { keys: ['1'], description: 'Set priority to high' },
+  { keys: ['2'], description: 'Set priority to medium' },
+  { keys: ['3'], description: 'Set priority to low' },
+  { keys: ['/'], description: 'Search tasks' }
+];
+
+interface CommandState {
+  isPaletteOpen: boolean;
+  isCheatSheetOpen: boolean;
+  context: CommandContext;
+  sources: Record<string, CommandSource>;
+  openPalette: () => void;
+  closePalette: () => void;
+  openCheatSheet: () => void;
+  closeCheatSheet: () => void;
+  register: (sourceId: string, source: CommandSource) => void;
+  unregister: (sourceId: string) => void;
+  getCommands: () => Command[];
+}
+
+/**
+ * The task a keyboard user has moved to, i.e. the focused element marked with `data-task-id`
+ */
+export function getFocusedTaskId(): string | null {
+  const element = document.activeElement as HTMLElement | null;
+  return element?.closest<HTMLElement>('[data-task-id]')?.dataset.taskId || null;
+}
+
+/**
+ * Commands for the palette. Pages register a source of commands while they're mounted; sources
+ * are asked for their commands when the palette opens, so they always reflect what's on screen.
+ */
+export const useCommands = create<CommandState>((set, get) => ({
+  isPaletteOpen: false,
+  isCheatSheetOpen: false,
+  context: { focusedTaskId: null },
+  sources: {},
+
+  openPalette: () => set({
+    isPaletteOpen: true,
+    isCheatSheetOpen: false,
+    context: { focusedTaskId: getFocusedTaskId() }
+  }),
+
+  closePalette: () => set({ isPaletteOpen: false }),
+
+  openCheatSheet: () => set({ isCheatSheetOpen: true, isPaletteOpen: false }),
+
+  closeCheatSheet: () => set({ isCheatSheetOpen: false }),
+
+  register: (sourceId, source) => set(state => ({ sources: { ...state.sources, [sourceId]: source } })),
+
+  unregister: (sourceId) => set(state => {
+    const sources = { ...state.sources };
+    delete sources[sourceId];
+    return { sources };
+  }),
+
+  getCommands: () => {
+    const { sources, context } = get();
+    return Object.values(sources).flatMap(source => source(context));
+  }
+}));
@@ -0,0 +1,102 @@
+import { CustomField, CustomFieldType, CustomFieldUser, CustomFieldValue, Task } from './types';
+import { format, parseISO } from 'date-fns';
+
+export const CUSTOM_FIELD_TYPES: { id: CustomFieldType; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'number', label: 'Number' },
+  { id: 'currency', label: 'Currency' },
+  { id: 'date', label: 'Date' },
+  { id: 'single_select', label: 'Single Select' },
+  { id: 'multi_select', label: 'Multi Select' },
+  { id: 'user', label: 'User' },
+  { id: 'checkbox', label: 'Checkbox' }
+];
+
+// Types whose values come from a known set, so they can be filtered with checkboxes
+const FILTERABLE_TYPES: CustomFieldType[] = ['single_select', 'multi_select', 'user', 'checkbox'];
+
+export function hasFieldOptions(type: CustomFieldType): boolean {
+  return type === 'single_select' || type === 'multi_select';
+}
+
+export function isCustomFieldFilterable(field: CustomField): boolean {
+  return FILTERABLE_TYPES.includes(field.field_type);
+}
+
+function isCustomFieldUser(value: CustomFieldValue | undefined): value is CustomFieldUser {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isEmptyCustomFieldValue(value: CustomFieldValue | undefined): boolean {
+  return value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Human readable value, used by the list view and exports
+ */
+export function formatCustomFieldValue(field: CustomField, value: CustomFieldValue | undefined): string {
+  if (isEmptyCustomFieldValue(value)) {
+    return field.field_type === 'checkbox' ? 'No' : '';
+  }
+
+  switch (field.field_type) {
+    case 'number':
+      return Number(value).toLocaleString();
+    case 'currency':
+      return `$${Number(value).toFixed(2)}`;
+    case 'date':
+      return format(parseISO(String(value)), 'MMM d, yyyy');
+    case 'checkbox':
+      return value === true ? 'Yes' : 'No';
+    case 'single_select':
+    case 'multi_select': {
+      const ids = Array.isArray(value) ? value : [String(value)];
+      // Options removed from the field since the value was saved show as their raw id
+      return ids
+        .map(id => field.options.find(option => option.id === id)?.label || id)
+        .join(', ');
+    }
+    case 'user':
+      return isCustomFieldUser(value) ? value.email : String(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Values a filter compares against: option ids, the user id or 'true' for a ticked checkbox
+ */
+export function getCustomFieldFilterValues(value: CustomFieldValue | undefined): string[] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value;
+  if (isCustomFieldUser(value)) return [value.id];
+  return [String(value)];
+}
+
+/**
+ * Choices offered when filtering on a field. User fields list the users found on the tasks.
+ */
+export function getCustomFieldFilterOptions(field: CustomField, tasks: Task[]): { value: string; label: string }[] {
+  switch (field.field_type) {
+    case 'single_select':
+    case 'multi_select':
+      return field.options.map(option => ({ value: option.id, label: option.label }));
+    case 'checkbox':
+      return [{ value: 'true', label: 'Checked' }];
+    case 'user': {
+      const users = new Map<string, string>();
+      tasks.forEach(task => {
+        const value = task.custom_fields?.[field.id];
+        if (value && isCustomFieldUser(value)) {
+          users.set(value.id, value.email);
+        }
+      });
+      return Array.from(users, ([value, label]) => ({ value, label }));
+    }
+    default:
+      return [];
+  }
+}
@@ -81,6 +81,28 @@ export async function saveEmailSettings(settings: EmailSettings): Promise<boolea
   }
 }
 
+// Blobs don't survive JSON, so attachments go to the Edge Function base64 encoded
+async function encodeAttachments(attachments: EmailOptions['attachments']) {
+  if (!attachments) return undefined;
+
+  return Promise.all(attachments.map(async attachment => {
+    if (!(attachment.content instanceof Blob)) return attachment;
+
+    const bytes = new Uint8Array(await attachment.content.arrayBuffer());
+    let binary = '';
+    bytes.forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+
+    return {
+      filename: attachment.filename,
+      content: btoa(binary),
+      contentType: attachment.contentType || attachment.content.type,
+      encoding: 'base64'
+    };
+  }));
+}
+
 export async function sendEmail(options: EmailOptions): Promise<{ success: boolean; message?: string; id?: string }> {
   try {
     const settings = await getEmailSettings();
@@ -115,7 +137,7 @@ export async function sendEmail(options: EmailOptions): Promise<{ success: boole
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
         },
-        body: JSON.stringify(options)
+        body: JSON.stringify({ ...options, attachments: await encodeAttachments(options.attachments) })
       });
 
       if (!response.ok) {
@@ -279,9 +301,10 @@ export async function sendEmail(options: EmailOptions): Promise<{ success: boole
 
 // Template-based email sending
 export async function sendTemplateEmail(
-  templateName: 'Welcome Email' | 'Password Reset' | 'Task Assignment' | 'Task Due Soon' | 'SOP Approval' | 'Notification',
+  templateName: 'Welcome Email' | 'Password Reset' | 'Task Assignment' | 'Task Due Soon' | 'SOP Approval' | 'Notification' | 'Invoice',
   to: string | string[],
-  data: Record<string, any>
+  data: Record<string, any>,
+  attachments?: EmailOptions['attachments']
 ): Promise<{ success: boolean; message?: string; id?: string }> {
   try {
     // Get template from database
@@ -299,7 +322,8 @@ export async function sendTemplateEmail(
       to,
       subject: processedTemplate.subject,
       html: processedTemplate.html,
-      text: processedTemplate.text
+      text: processedTemplate.text,
+      attachments
     });
   } catch (err) {
     logDebugEvent(
@@ -202,18 +202,7 @@ export function processTemplate(
 export async function ensureDefaultEmailTemplates(): Promise<void> {
   try {
     const templates = await getEmailTemplates();
-    
-    // If we already have templates, don't create defaults
-    if (templates.length > 0) {
-      return;
-    }
-    
-    logDebugEvent(
-      DebugLevel.INFO,
-      DebugEventType.SYSTEM,
-      'No email templates found, creating defaults',
-      {}
-    );
+    const existingNames = new Set(templates.map(template => template.name));
     
     // Create default templates
     const defaultTemplates = [
@@ -467,8 +456,52 @@ export async function ensureDefaultEmailTemplates(): Promise<void> {
         description: 'Generic notification email template',
         variables: ['userName', 'notificationType', 'notificationTitle', 'notificationContent', 'mentionedBy', 'clientName', 'actionUrl', 'companyName'],
         is_default: true
+      },
+      {
+        name: 'Invoice',
+        subject: 'Invoice {{invoiceNumber}} from {{companyName}}',
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #3B82F6;">Invoice {{invoiceNumber}}</h2>
+            <p>Hello {{clientName}},</p>
+            <p>Please find attached invoice {{invoiceNumber}} for work from {{invoicePeriod}}.</p>
+            <div style="background-color: #f9fafb; border: 1px solid #e5e7eb; border-radius: 4px; padding: 16px; margin: 16px 0;">
+              <p style="margin-bottom: 8px;"><strong>Invoice:</strong> {{invoiceNumber}}</p>
+              <p style="margin-bottom: 8px;"><strong>Date:</strong> {{invoiceDate}}</p>
+              <p style="margin-bottom: 8px;"><strong>Period:</strong> {{invoicePeriod}}</p>
+              <p style="margin-bottom: 0;"><strong>Amount Due:</strong> {{invoiceTotal}}</p>
+            </div>
+            <p>{{#if invoiceNotes}}{{invoiceNotes}}{{/if}}</p>
+            <p>Thank you,<br>DragonTask Team</p>
+          </div>
+        `,
+        text: `
+          Invoice {{invoiceNumber}}
+          
+          Hello {{clientName}},
+          
+          Please find attached invoice {{invoiceNumber}} for work from {{invoicePeriod}}.
+          
+          Invoice: {{invoiceNumber}}
+          Date: {{invoiceDate}}
+          Period: {{invoicePeriod}}
+          Amount Due: {{invoiceTotal}}
+          
+          {{#if invoiceNotes}}{{invoiceNotes}}{{/if}}
+          
+          Thank you,
+          DragonTask Team
+        `,
+        description: 'Sent to a client with an invoice attached',
+        variables: ['clientName', 'invoiceNumber', 'invoiceDate', 'invoicePeriod', 'invoiceTotal', 'invoiceNotes', 'companyName'],
+        is_default: true
       }
-    ];
+    ].filter(template => !existingNames.has(template.name));
+    
+    // Templates added in later releases are created alongside the ones already customised
+    if (defaultTemplates.length === 0) {
+      return;
+    }
     
     // Insert default templates
     for (const template of defaultTemplates) {
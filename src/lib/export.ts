@@ -0,0 +1,101 @@
+import { BoardColumn, CustomField, Invoice, InvoiceLine, Task } from './types';
+import { formatCustomFieldValue, isEmptyCustomFieldValue } from './customFields';
+import { getStatusLabel } from './workflow';
+import { getInvoiceTitle, getInvoiceTotals } from './invoices';
+
+function escapeCsvValue(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Build a CSV of tasks with one column per custom field. Archived fields are included
+ * whenever one of the tasks still has a value for them.
+ */
+export function buildTasksCsv(tasks: Task[], columns: BoardColumn[], customFields: CustomField[]): string {
+  const fields = [...customFields]
+    .sort((a, b) => a.position - b.position)
+    .filter(field =>
+      !field.is_archived || tasks.some(task => !isEmptyCustomFieldValue(task.custom_fields?.[field.id]))
+    );
+
+  const header = [
+    'Title',
+    'Status',
+    'Priority',
+    'Assigned To',
+    'Start Date',
+    'Due Date',
+    'Estimated Hours',
+    'Estimated Cost',
+    'Description',
+    ...fields.map(field => field.name)
+  ];
+
+  const rows = tasks.map(task => [
+    task.title,
+    getStatusLabel(task.status, columns),
+    task.priority,
+    task.assigned_to_email || '',
+    task.start_date || '',
+    task.finish_date || '',
+    task.estimated_hours?.toString() || '',
+    task.estimated_cost?.toString() || '',
+    task.description || '',
+    ...fields.map(field => formatCustomFieldValue(field, task.custom_fields?.[field.id]))
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\n');
+}
+
+/**
+ * Build a CSV of an invoice's lines followed by its totals
+ */
+export function buildInvoiceCsv(invoice: Invoice, lines: InvoiceLine[]): string {
+  const totals = getInvoiceTotals(invoice, lines);
+  const money = (value: number) => value.toFixed(2);
+
+  const rows = [
+    ['Invoice', getInvoiceTitle(invoice)],
+    ['Client', invoice.client?.name || ''],
+    ['Period', `${invoice.period_start} to ${invoice.period_end}`],
+    [],
+    ['Description', 'Type', 'Quantity', 'Unit Price', 'Amount'],
+    ...lines.map(line => [
+      line.description,
+      line.kind === 'time' ? 'Time' : 'Item',
+      line.quantity.toString(),
+      money(line.unit_price),
+      money(line.amount)
+    ]),
+    [],
+    ['Subtotal', '', '', '', money(totals.subtotal)],
+    [`Discount (${invoice.discount_percent}%)`, '', '', '', money(-totals.discount)],
+    [`Tax (${invoice.tax_percent}%)`, '', '', '', money(totals.tax)],
+    ['Total', '', '', '', money(totals.total)]
+  ];
+
+  return rows
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\n');
+}
+
+/**
+ * Offer a file for download
+ */
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Offer a CSV string as a file download
+ */
+export function downloadCsv(filename: string, content: string) {
+  downloadBlob(filename, new Blob([content], { type: 'text/csv;charset=utf-8' }));
+}
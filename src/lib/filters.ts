@@ -1,4 +1,6 @@
 import { Task } from './types';
+import { getCustomFieldFilterValues } from './customFields';
+import { matchesTaskQuery, parseTaskQuery, TaskQueryContext } from './taskQuery';
 import { isAfter, isBefore, startOfDay, endOfDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
 
 export function filterTasks(
@@ -8,16 +10,16 @@ export function filterTasks(
     priority: string[];
     assignee: string[];
     dueDate: string | null;
-  }
+    customFields?: Record<string, string[]>; // Selected values keyed by custom field id
+  },
+  context: TaskQueryContext = {}
 ): Task[] {
+  // The search term is a task query; plain words still search titles and descriptions
+  const query = parseTaskQuery(searchTerm, context);
+
   return tasks.filter(task => {
-    // Search filter
-    if (searchTerm) {
-      const searchLower = searchTerm.toLowerCase();
-      if (!task.title.toLowerCase().includes(searchLower) && 
-          !task.description?.toLowerCase().includes(searchLower)) {
-        return false;
-      }
+    if (!matchesTaskQuery(task, query)) {
+      return false;
     }
 
     // Priority filter
@@ -54,6 +56,16 @@ export function filterTasks(
       }
     }
 
+    // Custom field filters: the task needs one of the selected values for every filtered field
+    if (filters.customFields) {
+      for (const [fieldId, selected] of Object.entries(filters.customFields)) {
+        if (selected.length === 0) continue;
+
+        const values = getCustomFieldFilterValues(task.custom_fields?.[fieldId]);
+        if (!values.some(value => selected.includes(value))) return false;
+      }
+    }
+
     return true;
   });
 }
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { useAuthStore } from '../store';
+import { logDebugEvent, DebugLevel, DebugEventType } from '../debugSystem';
+
+// Tables whose changes are streamed to an open board
+const SYNCED_TABLES = ['tasks', 'board_columns', 'task_comments', 'task_checklist_items'] as const;
+
+export type SyncedTable = typeof SYNCED_TABLES[number];
+
+export type BoardChange = RealtimePostgresChangesPayload<Record<string, unknown>> & { table: SyncedTable };
+
+// Someone else with the board open, and the task they have open if any
+export interface BoardViewer {
+  user_id: string;
+  email: string;
+  task_id: string | null;
+}
+
+/**
+ * Hook that streams changes made by anyone to the open board, and tracks who else is viewing it.
+ * Changes to comments and checklist items arrive for every task; it's up to `onChange` to pick
+ * out the ones on this board.
+ */
+export function useBoardSync(boardId: string | null, openTaskId: string | null, onChange: (change: BoardChange) => void) {
+  const { user } = useAuthStore();
+  const [viewers, setViewers] = useState<BoardViewer[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // Presence is sent again whenever the open task changes
+  const presenceRef = useRef<BoardViewer | null>(null);
+  presenceRef.current = user ? { user_id: user.id, email: user.email || '', task_id: openTaskId } : null;
+
+  useEffect(() => {
+    if (!boardId || !user) return;
+
+    const channel = supabase.channel(`board:${boardId}`, {
+      config: { presence: { key: user.id } }
+    });
+
+    SYNCED_TABLES.forEach(table => {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table },
+        (payload) => onChangeRef.current({ ...payload, table } as BoardChange)
+      );
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<BoardViewer>();
+        setViewers(
+          Object.values(state)
+            .map(presences => presences[0])
+            .filter(viewer => viewer && viewer.user_id !== user.id)
+        );
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED' && presenceRef.current) {
+          channel.track(presenceRef.current);
+        } else if (status === 'CHANNEL_ERROR') {
+          logDebugEvent(
+            DebugLevel.WARNING,
+            DebugEventType.API_CALL,
+            'Board sync channel error',
+            { boardId }
+          );
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      setViewers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [boardId, user?.id]);
+
+  useEffect(() => {
+    if (channelRef.current && presenceRef.current) {
+      channelRef.current.track(presenceRef.current);
+    }
+  }, [openTaskId]);
+
+  return viewers;
+}
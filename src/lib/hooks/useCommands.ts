@@ -0,0 +1,123 @@
+import { useEffect, useRef } from 'react';
+import { Command, CommandContext, getFocusedTaskId, useCommands } from '../commands';
+
+/**
+ * Hook for offering commands in the palette while a component is mounted. `getCommands` is
+ * called each time the palette opens, so it can close over the component's current state.
+ */
+export function useRegisterCommands(sourceId: string, getCommands: (context: CommandContext) => Command[]) {
+  const getCommandsRef = useRef(getCommands);
+  getCommandsRef.current = getCommands;
+
+  useEffect(() => {
+    const { register, unregister } = useCommands.getState();
+    register(sourceId, context => getCommandsRef.current(context));
+    return () => unregister(sourceId);
+  }, [sourceId]);
+}
+
+function isTyping(target: EventTarget | null) {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+}
+
+/**
+ * Hook for the app-wide shortcuts: Ctrl+K (Cmd+K on macOS) toggles the command palette, even
+ * from a text field, and ? shows the shortcut cheat sheet.
+ */
+export function useCommandShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { isPaletteOpen, openPalette, closePalette, openCheatSheet } = useCommands.getState();
+
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        if (isPaletteOpen) {
+          closePalette();
+        } else {
+          openPalette();
+        }
+        return;
+      }
+
+      if (event.key === '?' && !event.ctrlKey && !event.metaKey && !isTyping(event.target)) {
+        event.preventDefault();
+        openCheatSheet();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
+
+interface BoardShortcutHandlers {
+  onEdit: (taskId: string) => void;
+  onCreate: () => void;
+  onSetPriority: (taskId: string, priority: 'low' | 'medium' | 'high') => void;
+}
+
+const PRIORITY_KEYS: Record<string, 'low' | 'medium' | 'high'> = { '1': 'high', '2': 'medium', '3': 'low' };
+
+/**
+ * Hook for the single-key board shortcuts. j/k move focus between the tasks on screen, in the
+ * order the current view shows them; e edits, 1-3 set the priority of the focused task; c creates
+ * a task and / jumps to the search box. Keys are left alone while typing or while a dialog is open.
+ */
+export function useBoardShortcuts({ onEdit, onCreate, onSetPriority }: BoardShortcutHandlers) {
+  const handlersRef = useRef({ onEdit, onCreate, onSetPriority });
+  handlersRef.current = { onEdit, onCreate, onSetPriority };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return;
+      if (document.querySelector('[role="dialog"]')) return;
+
+      const handlers = handlersRef.current;
+      const focusedTaskId = getFocusedTaskId();
+
+      switch (event.key) {
+        case 'j':
+        case 'k': {
+          const taskElements = Array.from(document.querySelectorAll<HTMLElement>('[data-task-id]'));
+          if (taskElements.length === 0) return;
+
+          const current = taskElements.findIndex(element => element.dataset.taskId === focusedTaskId);
+          const next = current === -1
+            ? 0
+            : Math.min(Math.max(current + (event.key === 'j' ? 1 : -1), 0), taskElements.length - 1);
+          event.preventDefault();
+          taskElements[next].focus();
+          taskElements[next].scrollIntoView({ block: 'nearest', inline: 'nearest' });
+          break;
+        }
+        case 'e':
+          if (!focusedTaskId) return;
+          event.preventDefault();
+          handlers.onEdit(focusedTaskId);
+          break;
+        case 'c':
+          event.preventDefault();
+          handlers.onCreate();
+          break;
+        case '1':
+        case '2':
+        case '3':
+          if (!focusedTaskId) return;
+          event.preventDefault();
+          handlers.onSetPriority(focusedTaskId, PRIORITY_KEYS[event.key]);
+          break;
+        case '/': {
+          const searchInput = document.querySelector<HTMLInputElement>('[data-task-search]');
+          if (!searchInput) return;
+          event.preventDefault();
+          searchInput.focus();
+          break;
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '../supabase';
+import { useAuthStore } from '../store';
+import { useRunningTimer, onTimerTabMessage } from '../runningTimer';
+import { logDebugEvent, DebugLevel, DebugEventType } from '../debugSystem';
+
+// Time away with a timer running after which the user is asked whether it counts
+const IDLE_THRESHOLD_MS = 10 * 60 * 1000;
+// Activity closer together than this is treated as one, to keep mouse moves cheap
+const ACTIVITY_INTERVAL_MS = 5000;
+// Shared by the app's tabs, so working in one doesn't make the others think the user was away
+const LAST_ACTIVITY_KEY = 'running-timer:last-activity';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
+function readLastActivity(): number {
+  try {
+    return Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function writeLastActivity(at: number) {
+  try {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(at));
+  } catch {
+    // Without storage each tab only goes by its own activity
+  }
+}
+
+/**
+ * Hook that keeps the running timer up to date with other tabs and devices, and notices when the
+ * user comes back to a running timer after being away. Mounted once, in the layout.
+ */
+export function useRunningTimerSync() {
+  const { user } = useAuthStore();
+  const timer = useRunningTimer(state => state.timer);
+  // Opening the app counts as activity
+  const lastActivityRef = useRef(Date.now());
+
+  useEffect(() => {
+    if (!user) return;
+
+    const { load } = useRunningTimer.getState();
+    load();
+
+    const channel = supabase
+      .channel(`running-timer:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'task_time_entries', filter: `user_id=eq.${user.id}` },
+        () => load()
+      )
+      .subscribe(status => {
+        if (status === 'CHANNEL_ERROR') {
+          logDebugEvent(
+            DebugLevel.WARNING,
+            DebugEventType.API_CALL,
+            'Running timer channel error',
+            { userId: user.id }
+          );
+        }
+      });
+
+    const stopListening = onTimerTabMessage(message => {
+      if (message.type === 'changed') {
+        load();
+      } else {
+        useRunningTimer.setState({ idleSince: null });
+      }
+    });
+
+    // Realtime drops while a laptop sleeps; catch up when the tab is looked at again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') load();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      stopListening();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!timer) return;
+
+    const startedAt = new Date(timer.start_time).getTime();
+
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastActivityRef.current < ACTIVITY_INTERVAL_MS) return;
+
+      const lastActivity = Math.max(lastActivityRef.current, readLastActivity(), startedAt);
+      if (now - lastActivity >= IDLE_THRESHOLD_MS) {
+        useRunningTimer.getState().markIdle(new Date(lastActivity).toISOString());
+      }
+
+      lastActivityRef.current = now;
+      writeLastActivity(now);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [timer?.id, timer?.start_time]);
+}
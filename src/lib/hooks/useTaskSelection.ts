@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState, MouseEvent } from 'react';
+
+/**
+ * Hook for multi-selecting tasks. `orderedIds` is the on-screen order, used for shift-click ranges.
+ * Tasks that drop out of `orderedIds` (filtered away, deleted) are deselected.
+ */
+export function useTaskSelection(orderedIds: string[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    setSelectedIds(current => {
+      const visible = new Set(orderedIds);
+      const kept = Array.from(current).filter(id => visible.has(id));
+      return kept.length === current.size ? current : new Set(kept);
+    });
+  }, [orderedIds]);
+
+  const toggle = useCallback((taskId: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+    anchorRef.current = taskId;
+  }, []);
+
+  // Shift selects the range from the last clicked task; ctrl/cmd or a checkbox toggles one task
+  const handleSelectClick = useCallback((taskId: string, e: MouseEvent) => {
+    const anchorIndex = anchorRef.current ? orderedIds.indexOf(anchorRef.current) : -1;
+
+    if (e.shiftKey && anchorIndex !== -1) {
+      const index = orderedIds.indexOf(taskId);
+      const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      setSelectedIds(current => new Set([...current, ...orderedIds.slice(from, to + 1)]));
+      return;
+    }
+
+    toggle(taskId);
+  }, [orderedIds, toggle]);
+
+  const selectAll = useCallback(() => {
+    setSelectedIds(new Set(orderedIds));
+  }, [orderedIds]);
+
+  const clear = useCallback(() => {
+    setSelectedIds(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  return { selectedIds, handleSelectClick, toggle, selectAll, clear };
+}
@@ -0,0 +1,139 @@
+import { format, parseISO } from 'date-fns';
+import { Invoice, InvoiceLine } from './types';
+import { createPdfDocument, fitText, hexToPdfColor } from './pdf';
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discount: number;
+  tax: number; // On the subtotal after the discount
+  total: number;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export function formatMoney(value: number): string {
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+}
+
+export function formatInvoiceNumber(invoiceNumber: number): string {
+  return `INV-${invoiceNumber.toString().padStart(4, '0')}`;
+}
+
+/**
+ * The invoice's number, or "Draft" until it's issued
+ */
+export function getInvoiceTitle(invoice: Pick<Invoice, 'invoice_number'>): string {
+  return invoice.invoice_number ? formatInvoiceNumber(invoice.invoice_number) : 'Draft';
+}
+
+export function getInvoiceFileName(invoice: Invoice, extension: 'pdf' | 'csv'): string {
+  const client = (invoice.client?.name || 'client').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  const name = invoice.invoice_number
+    ? formatInvoiceNumber(invoice.invoice_number)
+    : `draft-${invoice.period_start}`;
+  return `${name}-${client}.${extension}`;
+}
+
+export function formatInvoicePeriod(invoice: Pick<Invoice, 'period_start' | 'period_end'>): string {
+  return `${format(parseISO(invoice.period_start), 'MMM d, yyyy')} – ${format(parseISO(invoice.period_end), 'MMM d, yyyy')}`;
+}
+
+export function getInvoiceTotals(invoice: Pick<Invoice, 'discount_percent' | 'tax_percent'>, lines: InvoiceLine[]): InvoiceTotals {
+  const subtotal = roundMoney(lines.reduce((total, line) => total + Number(line.amount), 0));
+  const discount = roundMoney(subtotal * Number(invoice.discount_percent) / 100);
+  const tax = roundMoney((subtotal - discount) * Number(invoice.tax_percent) / 100);
+  return { subtotal, discount, tax, total: roundMoney(subtotal - discount + tax) };
+}
+
+interface InvoicePdfBranding {
+  companyName: string;
+  primaryColor: string;
+}
+
+/**
+ * Lay an invoice out as a PDF. Drafts are marked as such, since they have no number yet.
+ */
+export function buildInvoicePdf(invoice: Invoice, lines: InvoiceLine[], branding: InvoicePdfBranding): Blob {
+  const pdf = createPdfDocument();
+  const accent = hexToPdfColor(branding.primaryColor);
+  const gray: [number, number, number] = [0.42, 0.45, 0.5];
+  const left = 50;
+  const right = pdf.pageWidth - 50;
+  const columns = { quantity: 370, unitPrice: 460, amount: right };
+  const totals = getInvoiceTotals(invoice, lines);
+
+  pdf.text(branding.companyName, left, 70, { size: 20, bold: true, color: accent });
+  pdf.text(invoice.status === 'draft' ? 'DRAFT INVOICE' : 'INVOICE', right, 70, { size: 16, bold: true, align: 'right' });
+  if (invoice.status === 'void') {
+    pdf.text('VOID', right, 90, { size: 12, bold: true, align: 'right', color: [0.86, 0.15, 0.15] });
+  }
+
+  let y = 120;
+  const details: [string, string][] = [
+    ['Invoice', getInvoiceTitle(invoice)],
+    ['Date', format(invoice.issued_at ? parseISO(invoice.issued_at) : new Date(), 'MMM d, yyyy')],
+    ['Period', formatInvoicePeriod(invoice)],
+    ['Bill to', invoice.client?.name || '']
+  ];
+  details.forEach(([label, value]) => {
+    pdf.text(label, left, y, { size: 10, color: gray });
+    pdf.text(value, left + 70, y, { size: 10, bold: label === 'Invoice' });
+    y += 16;
+  });
+
+  const drawHeader = () => {
+    pdf.rect(left, y - 13, right - left, 20, accent);
+    pdf.text('Description', left + 6, y, { size: 9, bold: true, color: [1, 1, 1] });
+    pdf.text('Hours / Qty', columns.quantity, y, { size: 9, bold: true, color: [1, 1, 1], align: 'right' });
+    pdf.text('Unit Price', columns.unitPrice, y, { size: 9, bold: true, color: [1, 1, 1], align: 'right' });
+    pdf.text('Amount', columns.amount - 6, y, { size: 9, bold: true, color: [1, 1, 1], align: 'right' });
+    y += 22;
+  };
+
+  y += 20;
+  drawHeader();
+
+  lines.forEach(line => {
+    if (y > pdf.pageHeight - 80) {
+      pdf.addPage();
+      y = 60;
+      drawHeader();
+    }
+    pdf.text(fitText(line.description, columns.quantity - left - 60, 10), left + 6, y, { size: 10 });
+    pdf.text(Number(line.quantity).toFixed(2), columns.quantity, y, { size: 10, align: 'right' });
+    pdf.text(formatMoney(Number(line.unit_price)), columns.unitPrice, y, { size: 10, align: 'right' });
+    pdf.text(formatMoney(Number(line.amount)), columns.amount - 6, y, { size: 10, align: 'right' });
+    pdf.line(left, y + 6, right, y + 6);
+    y += 20;
+  });
+
+  if (y > pdf.pageHeight - 160) {
+    pdf.addPage();
+    y = 60;
+  }
+
+  y += 10;
+  const totalRows: [string, number][] = [['Subtotal', totals.subtotal]];
+  if (totals.discount > 0) totalRows.push([`Discount (${Number(invoice.discount_percent)}%)`, -totals.discount]);
+  if (Number(invoice.tax_percent) > 0) totalRows.push([`Tax (${Number(invoice.tax_percent)}%)`, totals.tax]);
+  totalRows.forEach(([label, value]) => {
+    pdf.text(label, columns.unitPrice, y, { size: 10, color: gray, align: 'right' });
+    pdf.text(formatMoney(value), columns.amount - 6, y, { size: 10, align: 'right' });
+    y += 16;
+  });
+  pdf.line(columns.quantity, y - 8, right, y - 8, accent);
+  y += 6;
+  pdf.text('Total', columns.unitPrice, y, { size: 12, bold: true, align: 'right' });
+  pdf.text(formatMoney(totals.total), columns.amount - 6, y, { size: 12, bold: true, align: 'right' });
+
+  if (invoice.notes) {
+    y += 40;
+    pdf.text('Notes', left, y, { size: 10, bold: true });
+    invoice.notes.split('\n').forEach(note => {
+      y += 14;
+      pdf.text(fitText(note, right - left, 10), left, y, { size: 10, color: gray });
+    });
+  }
+
+  return pdf.toBlob();
+}
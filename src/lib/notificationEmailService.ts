@@ -1,6 +1,12 @@
 import { supabase } from './supabase';
 import { sendTemplateEmail } from './emailService';
 import { logDebugEvent, DebugLevel, DebugEventType } from './debugSystem';
+import { formatTaskTitle, getTaskKeyPath } from './taskKeys';
+
+// Link to a task by its key, falling back to the id for tasks that predate keys
+function getTaskActionUrl(taskKey: string | null, taskId: string): string {
+  return `${window.location.origin}${taskKey ? getTaskKeyPath(taskKey) : `/tasks?taskId=${taskId}`}`;
+}
 
 // Process notifications that should trigger emails
 export async function processNotificationEmails(): Promise<void> {
@@ -192,7 +198,7 @@ async function processMentionNotification(
       // Get task details
       const { data: taskData } = await supabase
         .from('tasks')
-        .select('title, client_id')
+        .select('title, task_key, client_id')
         .eq('id', notification.data.task_id)
         .single();
       
@@ -221,11 +227,11 @@ async function processMentionNotification(
         {
           userName,
           notificationType: 'Task Mention',
-          notificationTitle: `You were mentioned in a comment on task "${taskData.title}"`,
+          notificationTitle: `You were mentioned in a comment on task "${formatTaskTitle(taskData.title, taskData.task_key)}"`,
           notificationContent: commentData.content,
           mentionedBy: commentData.user_email,
           clientName: clientData?.name || 'Unknown Client',
-          actionUrl: `${window.location.origin}/tasks?taskId=${notification.data.task_id}`,
+          actionUrl: getTaskActionUrl(taskData.task_key, notification.data.task_id),
           companyName
         }
       );
@@ -267,7 +273,7 @@ async function processTaskAssignedNotification(
     // Get task details
     const { data: taskData } = await supabase
       .from('tasks')
-      .select('title, description, status, priority, finish_date, client_id')
+      .select('title, task_key, description, status, priority, finish_date, client_id')
       .eq('id', notification.data.task_id)
       .single();
     
@@ -295,14 +301,14 @@ async function processTaskAssignedNotification(
       userEmail,
       {
         userName,
-        taskTitle: taskData.title,
+        taskTitle: formatTaskTitle(taskData.title, taskData.task_key),
         taskStatus: taskData.status,
         taskPriority: taskData.priority,
         taskDueDate: taskData.finish_date ? new Date(taskData.finish_date).toLocaleDateString() : 'Not set',
         taskDescription: taskData.description || 'No description provided',
         assignedBy: assignerData?.email || 'A team member',
         clientName: clientData?.name || 'Unknown Client',
-        actionUrl: `${window.location.origin}/tasks?taskId=${notification.data.task_id}`,
+        actionUrl: getTaskActionUrl(taskData.task_key, notification.data.task_id),
         companyName
       }
     );
@@ -328,7 +334,7 @@ async function processTaskDueSoonNotification(
     // Get task details
     const { data: taskData } = await supabase
       .from('tasks')
-      .select('title, description, status, priority, finish_date, client_id')
+      .select('title, task_key, description, status, priority, finish_date, client_id')
       .eq('id', notification.data.task_id)
       .single();
     
@@ -349,13 +355,13 @@ async function processTaskDueSoonNotification(
       userEmail,
       {
         userName,
-        taskTitle: taskData.title,
+        taskTitle: formatTaskTitle(taskData.title, taskData.task_key),
         taskStatus: taskData.status,
         taskPriority: taskData.priority,
         taskDueDate: taskData.finish_date ? new Date(taskData.finish_date).toLocaleDateString() : 'Not set',
         taskDescription: taskData.description || 'No description provided',
         clientName: clientData?.name || 'Unknown Client',
-        actionUrl: `${window.location.origin}/tasks?taskId=${notification.data.task_id}`,
+        actionUrl: getTaskActionUrl(taskData.task_key, notification.data.task_id),
         companyName
       }
     );
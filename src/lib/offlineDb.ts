@@ -0,0 +1,77 @@
+// IndexedDB storage for working offline: a cache of what was last read, and the queue of
+// changes waiting to be sent
+const DB_NAME = 'taskmaster-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const QUEUE_STORE = 'queue';
+
+interface CachedValue<T> {
+  key: string;
+  value: T;
+  cachedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getCached<T>(key: string): Promise<CachedValue<T> | undefined> {
+  return runRequest<CachedValue<T> | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+}
+
+export async function putCached<T>(key: string, value: T) {
+  const entry: CachedValue<T> = { key, value, cachedAt: new Date().toISOString() };
+  await runRequest(CACHE_STORE, 'readwrite', store => store.put(entry));
+}
+
+export async function deleteCached(key: string) {
+  await runRequest(CACHE_STORE, 'readwrite', store => store.delete(key));
+}
+
+export async function clearCache() {
+  await runRequest(CACHE_STORE, 'readwrite', store => store.clear());
+}
+
+export async function listQueued<T extends { id: string }>(): Promise<T[]> {
+  return runRequest<T[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+}
+
+export async function putQueued<T extends { id: string }>(entry: T) {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.put(entry));
+}
+
+export async function deleteQueued(id: string) {
+  await runRequest(QUEUE_STORE, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,182 @@
+// A small PDF writer for generated documents such as invoices. It only knows the two built-in
+// Helvetica faces, lines and filled rectangles, which keeps it free of dependencies. Coordinates are
+// in points from the top-left corner of an A4 page.
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+export type PdfColor = [number, number, number]; // Red, green and blue from 0 to 1
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+  color?: PdfColor;
+}
+
+export interface PdfDocument {
+  pageWidth: number;
+  pageHeight: number;
+  addPage: () => void;
+  text: (text: string, x: number, y: number, options?: PdfTextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, color?: PdfColor) => void;
+  rect: (x: number, y: number, width: number, height: number, color: PdfColor) => void;
+  toBlob: () => Blob;
+}
+
+// Glyph widths of characters 32-126 in thousandths of the font size, from the standard font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const REPLACEMENTS: Record<string, string> = {
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '…': '...'
+};
+
+// The standard fonts only cover Latin-1, so anything else is swapped for a look-alike or a ?
+function toLatin1(text: string): string {
+  return Array.from(text)
+    .map(char => REPLACEMENTS[char] ?? (char.charCodeAt(0) < 256 ? char : '?'))
+    .join('');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function measureText(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = Array.from(toLatin1(text)).reduce((total, char) => {
+    const code = char.charCodeAt(0);
+    return total + (code >= 32 && code <= 126 ? widths[code - 32] : 556);
+  }, 0);
+  return (units * size) / 1000;
+}
+
+/**
+ * Shorten text with an ellipsis until it fits a width
+ */
+export function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (measureText(text, size, bold) <= maxWidth) return text;
+
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+/**
+ * Turn a #RRGGBB color into a PDF color
+ */
+export function hexToPdfColor(hex: string): PdfColor {
+  const value = parseInt(hex.replace('#', ''), 16);
+  if (isNaN(value)) return [0, 0, 0];
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+}
+
+/**
+ * Start a PDF with one blank page
+ */
+export function createPdfDocument(): PdfDocument {
+  const pages: string[][] = [[]];
+  const current = () => pages[pages.length - 1];
+  const toPdfY = (y: number) => formatNumber(PAGE_HEIGHT - y);
+  const colorOperands = (color: PdfColor) => color.map(formatNumber).join(' ');
+
+  return {
+    pageWidth: PAGE_WIDTH,
+    pageHeight: PAGE_HEIGHT,
+
+    addPage: () => {
+      pages.push([]);
+    },
+
+    text: (text, x, y, options = {}) => {
+      const size = options.size ?? 10;
+      const bold = options.bold ?? false;
+      const left = options.align === 'right' ? x - measureText(text, size, bold) : x;
+      current().push(
+        `BT ${colorOperands(options.color ?? [0, 0, 0])} rg /${bold ? 'F2' : 'F1'} ${size} Tf ` +
+        `${formatNumber(left)} ${toPdfY(y)} Td (${escapeText(toLatin1(text))}) Tj ET`
+      );
+    },
+
+    line: (x1, y1, x2, y2, color = [0.8, 0.8, 0.8]) => {
+      current().push(
+        `${colorOperands(color)} RG 0.75 w ${formatNumber(x1)} ${toPdfY(y1)} m ${formatNumber(x2)} ${toPdfY(y2)} l S`
+      );
+    },
+
+    rect: (x, y, width, height, color) => {
+      current().push(
+        `${colorOperands(color)} rg ${formatNumber(x)} ${toPdfY(y + height)} ${formatNumber(width)} ${formatNumber(height)} re f`
+      );
+    },
+
+    toBlob: () => {
+      // Objects 1-4 are the catalog, page tree and fonts; each page then adds itself and its content
+      const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+      ];
+
+      pages.forEach((operations, index) => {
+        const content = operations.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+          `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+        );
+      });
+
+      let output = '%PDF-1.4\n';
+      const offsets = objects.map((object, index) => {
+        const offset = output.length;
+        output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+      });
+
+      const xrefOffset = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+      // Every character is Latin-1 by now, so each one is a single byte
+      const bytes = new Uint8Array(output.length);
+      for (let i = 0; i < output.length; i++) {
+        bytes[i] = output.charCodeAt(i);
+      }
+      return new Blob([bytes], { type: 'application/pdf' });
+    }
+  };
+}
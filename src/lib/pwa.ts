@@ -0,0 +1,101 @@
+import { logDebugEvent, DebugLevel, DebugEventType } from './debugSystem';
+
+// Tag of the background sync that sends queued changes, shared with public/sw.js
+export const FLUSH_QUEUE_TAG = 'flush-queue';
+
+// Where the installed app opens when launched from the home screen
+export const PWA_START_PATH = '/my-tasks';
+
+interface ManifestSettings {
+  name: string;
+  logo_url: string | null;
+  primary_color: string;
+}
+
+// Background sync isn't in the DOM typings yet
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+let manifestUrl: string | null = null;
+
+/**
+ * Register the service worker. Skipped in development, where a cached app shell would get in the way of reloading.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      console.error('Error registering service worker:', err);
+      logDebugEvent(
+        DebugLevel.ERROR,
+        DebugEventType.SYSTEM,
+        'Error registering service worker',
+        { error: err }
+      );
+    });
+  });
+}
+
+/**
+ * Ask the service worker to wake the app when the connection is back, even if it's in the background.
+ * Browsers without background sync rely on the online event instead.
+ */
+export async function requestBackgroundSync() {
+  if (!('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration() as SyncRegistration | undefined;
+    await registration?.sync?.register(FLUSH_QUEUE_TAG);
+  } catch (err) {
+    console.error('Error requesting background sync:', err);
+  }
+}
+
+/**
+ * Call `onFlush` when the service worker's background sync fires. Returns a cleanup function.
+ */
+export function onBackgroundSync(onFlush: () => void) {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === FLUSH_QUEUE_TAG) onFlush();
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Point the page at a manifest with the current name, logo and colors, so installing the app brands it the same way
+ */
+export function applyManifest(settings: ManifestSettings) {
+  const origin = window.location.origin;
+  const icons: { src: string; sizes: string; type?: string }[] = [
+    { src: `${origin}/dragon-icon.svg`, sizes: 'any', type: 'image/svg+xml' }
+  ];
+  if (settings.logo_url) {
+    icons.unshift({ src: new URL(settings.logo_url, origin).href, sizes: 'any' });
+  }
+
+  const manifest = {
+    id: '/',
+    name: settings.name,
+    short_name: settings.name,
+    start_url: `${origin}${PWA_START_PATH}`,
+    scope: `${origin}/`,
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: settings.primary_color,
+    icons
+  };
+
+  if (manifestUrl) URL.revokeObjectURL(manifestUrl);
+  manifestUrl = URL.createObjectURL(new Blob([JSON.stringify(manifest)], { type: 'application/manifest+json' }));
+
+  const link = document.querySelector('link[rel="manifest"]') as HTMLLinkElement | null;
+  if (link) link.href = manifestUrl;
+
+  const themeColor = document.querySelector('meta[name="theme-color"]') as HTMLMetaElement | null;
+  if (themeColor) themeColor.content = settings.primary_color;
+}
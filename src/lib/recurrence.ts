@@ -0,0 +1,131 @@
+import { TaskRecurrence } from './types';
+import {
+  addDays,
+  addWeeks,
+  addMonths,
+  differenceInCalendarWeeks,
+  format,
+  getDay,
+  isAfter,
+  lastDayOfMonth,
+  parseISO,
+  startOfMonth
+} from 'date-fns';
+
+export type RecurrenceRule = Pick<
+  TaskRecurrence,
+  'frequency' | 'interval' | 'interval_unit' | 'weekdays' | 'month_week' | 'month_weekday' | 'end_date' | 'max_occurrences'
+>;
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+export const MONTH_WEEK_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+// Find the nth (or last, when week is -1) given weekday of the month containing `month`
+function nthWeekdayOfMonth(month: Date, week: number, weekday: number): Date {
+  if (week === -1) {
+    const last = lastDayOfMonth(month);
+    return addDays(last, -((getDay(last) - weekday + 7) % 7));
+  }
+
+  const first = startOfMonth(month);
+  const offset = (weekday - getDay(first) + 7) % 7;
+  return addDays(first, offset + (week - 1) * 7);
+}
+
+/**
+ * Calculate the occurrence date that follows `after` (yyyy-MM-dd).
+ * Returns null once the schedule's end date has passed.
+ * The database's get_next_occurrence_date does the same; keep the two in step.
+ */
+export function getNextOccurrenceDate(rule: RecurrenceRule, after: string): string | null {
+  const from = parseISO(after);
+  const interval = Math.max(1, rule.interval || 1);
+  let next: Date;
+
+  switch (rule.frequency) {
+    case 'daily':
+      next = addDays(from, interval);
+      break;
+
+    case 'weekly': {
+      const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [getDay(from)];
+      // Step day by day; a day matches when it's a selected weekday in an "on" week
+      let candidate = addDays(from, 1);
+      while (
+        !weekdays.includes(getDay(candidate)) ||
+        differenceInCalendarWeeks(candidate, from) % interval !== 0
+      ) {
+        candidate = addDays(candidate, 1);
+      }
+      next = candidate;
+      break;
+    }
+
+    case 'monthly':
+      if (rule.month_week !== null && rule.month_weekday !== null) {
+        next = nthWeekdayOfMonth(addMonths(from, interval), rule.month_week, rule.month_weekday);
+      } else {
+        next = addMonths(from, interval);
+      }
+      break;
+
+    case 'custom':
+      if (rule.interval_unit === 'week') {
+        next = addWeeks(from, interval);
+      } else if (rule.interval_unit === 'month') {
+        next = addMonths(from, interval);
+      } else {
+        next = addDays(from, interval);
+      }
+      break;
+
+    default:
+      return null;
+  }
+
+  if (rule.end_date && isAfter(next, parseISO(rule.end_date))) {
+    return null;
+  }
+
+  return format(next, 'yyyy-MM-dd');
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Monday, Thursday until Dec 31, 2025"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  let description: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      description = interval === 1 ? 'Every day' : `Every ${interval} days`;
+      break;
+    case 'weekly': {
+      const base = interval === 1 ? 'Every week' : `Every ${interval} weeks`;
+      const days = [...rule.weekdays].sort().map(day => WEEKDAY_NAMES[day]);
+      description = days.length > 0 ? `${base} on ${days.join(', ')}` : base;
+      break;
+    }
+    case 'monthly': {
+      const base = interval === 1 ? 'Every month' : `Every ${interval} months`;
+      description = rule.month_week !== null && rule.month_weekday !== null
+        ? `${base} on the ${MONTH_WEEK_NAMES[rule.month_week]} ${WEEKDAY_NAMES[rule.month_weekday]}`
+        : base;
+      break;
+    }
+    case 'custom':
+      description = `Every ${interval} ${rule.interval_unit}${interval === 1 ? '' : 's'}`;
+      break;
+    default:
+      description = 'Does not repeat';
+  }
+
+  if (rule.end_date) {
+    description += ` until ${format(parseISO(rule.end_date), 'MMM d, yyyy')}`;
+  } else if (rule.max_occurrences) {
+    description += `, ${rule.max_occurrences} times`;
+  }
+
+  return description;
+}
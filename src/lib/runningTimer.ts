@@ -0,0 +1,307 @@
+import { create } from 'zustand';
+import { RunningTimer } from './types';
+import { useAuthStore } from './store';
+import { isNetworkError, mutate } from './syncQueue';
+import { getCached, putCached, deleteCached } from './offlineDb';
+import { fetchRunningTimeEntry, startTimeTracking, stopTimeTracking } from './services/timeTrackingService';
+import { logDebugEvent, DebugLevel, DebugEventType } from './debugSystem';
+
+// Other tabs hear about timer changes here; other devices hear through realtime
+export type TimerTabMessage = { type: 'changed' } | { type: 'idle-resolved' };
+
+const tabChannel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel('running-timer');
+
+// A start asked for while another timer runs, waiting for the user to say what happens to that one
+export interface PendingTimerStart {
+  taskId: string;
+  taskTitle: string;
+  description: string;
+}
+
+export type TimerStartResult = 'started' | 'started_offline' | 'already_running' | 'needs_confirmation';
+
+interface RunningTimerState {
+  timer: RunningTimer | null;
+  isLoaded: boolean;
+  isBusy: boolean;
+  pendingStart: PendingTimerStart | null;
+  idleSince: string | null; // Set when the user comes back to a running timer after being away
+  revision: number; // Bumped whenever a timer starts or stops, so open lists of time entries reload
+  load: () => Promise<void>;
+  start: (taskId: string, taskTitle?: string, description?: string) => Promise<TimerStartResult>;
+  stop: (description?: string) => Promise<{ queued: boolean }>;
+  switchToPending: () => Promise<void>;
+  moveToPending: () => Promise<void>;
+  cancelPending: () => void;
+  markIdle: (since: string) => void;
+  keepIdleTime: () => void;
+  discardIdleTime: (keepTiming: boolean) => Promise<void>;
+}
+
+const offlineTimerKey = (userId: string) => `offline-timer:${userId}`;
+
+function currentUserId(): string | null {
+  return useAuthStore.getState().user?.id || null;
+}
+
+export function onTimerTabMessage(listener: (message: TimerTabMessage) => void) {
+  if (!tabChannel) return () => {};
+
+  const handleMessage = (event: MessageEvent<TimerTabMessage>) => listener(event.data);
+  tabChannel.addEventListener('message', handleMessage);
+  return () => tabChannel.removeEventListener('message', handleMessage);
+}
+
+function notifyTabs(message: TimerTabMessage) {
+  tabChannel?.postMessage(message);
+}
+
+/**
+ * Time since a timer started, as H:MM:SS
+ */
+export function formatElapsed(startTime: string, now: Date = new Date()): string {
+  const diffMs = Math.max(0, now.getTime() - new Date(startTime).getTime());
+  const hours = Math.floor(diffMs / (1000 * 60 * 60));
+  const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
+  const seconds = Math.floor((diffMs % (1000 * 60)) / 1000);
+
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
+
+function timerStopped(state: RunningTimerState): Partial<RunningTimerState> {
+  return { timer: null, idleSince: null, revision: state.revision + 1 };
+}
+
+async function begin({ taskId, taskTitle, description }: PendingTimerStart): Promise<TimerStartResult> {
+  const userId = currentUserId();
+
+  try {
+    await startTimeTracking(taskId, description);
+  } catch (err) {
+    if (!isNetworkError(err) || !userId) throw err;
+
+    // Offline: time it here, and send it as a finished entry once it's stopped
+    const timer: RunningTimer = {
+      id: crypto.randomUUID(),
+      task_id: taskId,
+      task_title: taskTitle,
+      task_key: null,
+      start_time: new Date().toISOString(),
+      description: description || null,
+      started_offline: true
+    };
+    await putCached(offlineTimerKey(userId), timer);
+    useRunningTimer.setState(state => ({ timer, idleSince: null, revision: state.revision + 1 }));
+    notifyTabs({ type: 'changed' });
+    return 'started_offline';
+  }
+
+  await useRunningTimer.getState().load();
+  notifyTabs({ type: 'changed' });
+  return 'started';
+}
+
+/**
+ * Stop a timer, now or at `endTime`. Resolves to whether the stop is waiting to be sent.
+ */
+async function finish(timer: RunningTimer, description?: string, endTime?: string): Promise<boolean> {
+  const userId = currentUserId();
+  const stoppedAt = endTime || new Date().toISOString();
+  const finalDescription = description || timer.description;
+
+  if (timer.started_offline) {
+    const result = await mutate(
+      {
+        kind: 'rpc',
+        fn: 'add_manual_time_entry',
+        params: {
+          p_task_id: timer.task_id,
+          p_start_time: timer.start_time,
+          p_end_time: stoppedAt,
+          p_description: finalDescription,
+          p_is_billable: true,
+          p_actual_cost: null
+        }
+      },
+      `Time on "${timer.task_title || 'a task'}"`
+    );
+    if (result.error) throw result.error;
+    if (userId) await deleteCached(offlineTimerKey(userId));
+    return result.queued;
+  }
+
+  if (!endTime) {
+    try {
+      await stopTimeTracking(timer.id, finalDescription);
+      return false;
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+
+  // Saves when the timer was stopped, so neither time spent offline nor discarded idle time counts
+  const result = await mutate(
+    {
+      kind: 'update',
+      table: 'task_time_entries',
+      id: timer.id,
+      values: {
+        end_time: stoppedAt,
+        is_running: false,
+        description: finalDescription
+      }
+    },
+    `Stop timer on "${timer.task_title}"`
+  );
+  if (result.error) throw result.error;
+  if (result.queued && userId) await putCached(`running-timer:${userId}`, []);
+  return result.queued;
+}
+
+async function whileBusy<T>(action: () => Promise<T>): Promise<T> {
+  useRunningTimer.setState({ isBusy: true });
+  try {
+    return await action();
+  } finally {
+    useRunningTimer.setState({ isBusy: false });
+  }
+}
+
+/**
+ * The signed-in user's one running timer. Every timer control in the app goes through here, so
+ * starting a timer while another runs asks the user what to do with that one first.
+ */
+export const useRunningTimer = create<RunningTimerState>((set, get) => ({
+  timer: null,
+  isLoaded: false,
+  isBusy: false,
+  pendingStart: null,
+  idleSince: null,
+  revision: 0,
+
+  load: async () => {
+    const userId = currentUserId();
+    if (!userId) {
+      set({ timer: null, isLoaded: true, pendingStart: null, idleSince: null });
+      return;
+    }
+
+    try {
+      const offlineTimer = await getCached<RunningTimer>(offlineTimerKey(userId));
+      const timer = offlineTimer ? offlineTimer.value : await fetchRunningTimeEntry(userId);
+
+      set(state => {
+        const isSameTimer = timer?.id === state.timer?.id && timer?.task_id === state.timer?.task_id;
+        return {
+          timer,
+          isLoaded: true,
+          idleSince: isSameTimer ? state.idleSince : null,
+          revision: isSameTimer ? state.revision : state.revision + 1
+        };
+      });
+    } catch (err) {
+      logDebugEvent(
+        DebugLevel.ERROR,
+        DebugEventType.API_CALL,
+        'Error loading running timer',
+        { error: err, userId }
+      );
+      set({ isLoaded: true });
+    }
+  },
+
+  start: async (taskId, taskTitle = '', description = '') => {
+    // Another tab or device may have started one since this tab last heard
+    await get().load();
+
+    const { timer } = get();
+    if (timer?.task_id === taskId) return 'already_running';
+    if (timer) {
+      set({ pendingStart: { taskId, taskTitle, description } });
+      return 'needs_confirmation';
+    }
+
+    return whileBusy(() => begin({ taskId, taskTitle, description }));
+  },
+
+  stop: async (description) => {
+    const { timer } = get();
+    if (!timer) return { queued: false };
+
+    return whileBusy(async () => {
+      const queued = await finish(timer, description);
+      set(timerStopped);
+      notifyTabs({ type: 'changed' });
+      return { queued };
+    });
+  },
+
+  switchToPending: async () => {
+    const { timer, pendingStart } = get();
+    if (!pendingStart) return;
+
+    await whileBusy(async () => {
+      if (timer) {
+        await finish(timer);
+        set(timerStopped);
+      }
+      set({ pendingStart: null });
+      await begin(pendingStart);
+    });
+  },
+
+  // For a timer started on the wrong task: keep it running from when it started, on the new task
+  moveToPending: async () => {
+    const { timer, pendingStart } = get();
+    if (!timer || !pendingStart) return;
+
+    await whileBusy(async () => {
+      const userId = currentUserId();
+
+      if (timer.started_offline && userId) {
+        await putCached(offlineTimerKey(userId), { ...timer, task_id: pendingStart.taskId, task_title: pendingStart.taskTitle });
+      } else {
+        const result = await mutate(
+          { kind: 'update', table: 'task_time_entries', id: timer.id, values: { task_id: pendingStart.taskId } },
+          `Move timer to "${pendingStart.taskTitle || 'a task'}"`
+        );
+        if (result.error) throw result.error;
+      }
+
+      set({ pendingStart: null });
+      await get().load();
+      notifyTabs({ type: 'changed' });
+    });
+  },
+
+  cancelPending: () => set({ pendingStart: null }),
+
+  markIdle: (since) => {
+    const { timer, idleSince } = get();
+    if (timer && !idleSince) {
+      set({ idleSince: since });
+    }
+  },
+
+  keepIdleTime: () => {
+    set({ idleSince: null });
+    notifyTabs({ type: 'idle-resolved' });
+  },
+
+  discardIdleTime: async (keepTiming) => {
+    const { timer, idleSince } = get();
+    if (!timer || !idleSince) return;
+
+    await whileBusy(async () => {
+      await finish(timer, undefined, idleSince);
+      set(timerStopped);
+      notifyTabs({ type: 'idle-resolved' });
+
+      if (keepTiming) {
+        await begin({ taskId: timer.task_id, taskTitle: timer.task_title, description: timer.description || '' });
+      } else {
+        notifyTabs({ type: 'changed' });
+      }
+    });
+  }
+}));
@@ -0,0 +1,204 @@
+import { supabase } from '../supabase';
+import { AutomationRule, AutomationRuleRun } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+
+export type AutomationRuleDetails = Pick<AutomationRule, 'name' | 'trigger_type' | 'trigger_config' | 'actions'>;
+
+/**
+ * Fetch the rules that apply to a board: its own plus the client-wide ones
+ */
+export async function fetchAutomationRules(clientId: string, boardId: string): Promise<AutomationRule[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching automation rules',
+      { clientId, boardId }
+    );
+
+    const { data, error } = await supabase
+      .from('automation_rules')
+      .select('*')
+      .eq('client_id', clientId)
+      .or(`board_id.is.null,board_id.eq.${boardId}`)
+      .order('created_at');
+
+    if (error) {
+      logApiCall('automation_rules.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('automation_rules.select', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching automation rules:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching automation rules',
+      { error: err, clientId, boardId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Create a rule for one board, or for every board of the client when `boardId` is null
+ */
+export async function createAutomationRule(
+  clientId: string,
+  boardId: string | null,
+  details: AutomationRuleDetails,
+  userId?: string
+): Promise<AutomationRule> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Creating automation rule',
+      { clientId, boardId, name: details.name, triggerType: details.trigger_type }
+    );
+
+    const { data, error } = await supabase
+      .from('automation_rules')
+      .insert([{
+        client_id: clientId,
+        board_id: boardId,
+        ...details,
+        created_by: userId
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logApiCall('automation_rules.insert', false, { error });
+      throw error;
+    }
+
+    logApiCall('automation_rules.insert', true, {});
+
+    return data;
+  } catch (err) {
+    console.error('Error creating automation rule:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error creating automation rule',
+      { error: err, clientId, boardId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Update a rule's definition, scope or enabled state
+ */
+export async function updateAutomationRule(
+  ruleId: string,
+  updates: Partial<AutomationRuleDetails & Pick<AutomationRule, 'board_id' | 'is_enabled'>>
+) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Updating automation rule',
+      { ruleId, updates }
+    );
+
+    const { error } = await supabase
+      .from('automation_rules')
+      .update(updates)
+      .eq('id', ruleId);
+
+    if (error) {
+      logApiCall('automation_rules.update', false, { error });
+      throw error;
+    }
+
+    logApiCall('automation_rules.update', true, {});
+  } catch (err) {
+    console.error('Error updating automation rule:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error updating automation rule',
+      { error: err, ruleId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Delete a rule along with its execution log
+ */
+export async function deleteAutomationRule(ruleId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Deleting automation rule',
+      { ruleId }
+    );
+
+    const { error } = await supabase
+      .from('automation_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) {
+      logApiCall('automation_rules.delete', false, { error });
+      throw error;
+    }
+
+    logApiCall('automation_rules.delete', true, {});
+  } catch (err) {
+    console.error('Error deleting automation rule:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error deleting automation rule',
+      { error: err, ruleId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch the latest runs of a rule, newest first
+ */
+export async function fetchAutomationRuleRuns(ruleId: string, limit = 20): Promise<AutomationRuleRun[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching automation rule runs',
+      { ruleId, limit }
+    );
+
+    const { data, error } = await supabase
+      .from('automation_rule_runs')
+      .select('*, task:tasks(title)')
+      .eq('rule_id', ruleId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logApiCall('automation_rule_runs.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('automation_rule_runs.select', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching automation rule runs:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching automation rule runs',
+      { error: err, ruleId }
+    );
+    throw err;
+  }
+}
@@ -0,0 +1,161 @@
+import { supabase } from '../supabase';
+import { BillingRate } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { readThrough } from '../syncQueue';
+
+export interface BillingRateInput {
+  hourly_rate: number;
+  effective_from: string; // yyyy-MM-dd
+  task_id?: string | null;
+  client_id?: string | null;
+  user_id?: string | null;
+  role?: string | null;
+}
+
+/**
+ * Fetch every billing rate of an agency, past and current
+ */
+export async function fetchBillingRates(agencyId: string): Promise<BillingRate[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching billing rates',
+      { agencyId }
+    );
+
+    const { data, error } = await supabase.rpc('get_billing_rates', { p_agency_id: agencyId });
+
+    if (error) {
+      logApiCall('get_billing_rates', false, { error });
+      throw error;
+    }
+
+    logApiCall('get_billing_rates', true, { count: data?.length });
+
+    return (data || []) as BillingRate[];
+  } catch (err) {
+    console.error('Error fetching billing rates:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching billing rates',
+      { error: err, agencyId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Set an agency's rate for a scope from a date onwards; the rate it replaces ends the day before
+ */
+export async function setBillingRate(agencyId: string, input: BillingRateInput): Promise<string> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Setting billing rate',
+      { agencyId, input }
+    );
+
+    const { data, error } = await supabase.rpc('set_billing_rate', {
+      p_agency_id: agencyId,
+      p_hourly_rate: input.hourly_rate,
+      p_effective_from: input.effective_from,
+      p_task_id: input.task_id || null,
+      p_client_id: input.client_id || null,
+      p_user_id: input.user_id || null,
+      p_role: input.role || null
+    });
+
+    if (error) {
+      logApiCall('set_billing_rate', false, { error });
+      throw error;
+    }
+
+    logApiCall('set_billing_rate', true, { rateId: data });
+
+    return data as string;
+  } catch (err) {
+    console.error('Error setting billing rate:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error setting billing rate',
+      { error: err, agencyId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Stop a billing rate applying after a date (yyyy-MM-dd)
+ */
+export async function endBillingRate(rateId: string, effectiveTo: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Ending billing rate',
+      { rateId, effectiveTo }
+    );
+
+    const { error } = await supabase.rpc('end_billing_rate', {
+      p_rate_id: rateId,
+      p_effective_to: effectiveTo
+    });
+
+    if (error) {
+      logApiCall('end_billing_rate', false, { error });
+      throw error;
+    }
+
+    logApiCall('end_billing_rate', true, { rateId });
+  } catch (err) {
+    console.error('Error ending billing rate:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error ending billing rate',
+      { error: err, rateId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * The current user's hourly rate for a task at a point in time, or null if no rate applies
+ */
+export async function fetchMyHourlyRate(taskId: string, at: Date = new Date()): Promise<number | null> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching hourly rate',
+      { taskId, at }
+    );
+
+    const { data, error } = await readThrough(
+      `hourly-rate:${taskId}:${at.toISOString().slice(0, 10)}`,
+      supabase.rpc('get_my_hourly_rate', { p_task_id: taskId, p_at: at.toISOString() })
+    );
+
+    if (error) {
+      logApiCall('get_my_hourly_rate', false, { error });
+      throw error;
+    }
+
+    logApiCall('get_my_hourly_rate', true, { taskId, rate: data });
+
+    return data === null || data === undefined ? null : Number(data);
+  } catch (err) {
+    console.error('Error fetching hourly rate:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching hourly rate',
+      { error: err, taskId }
+    );
+    throw err;
+  }
+}
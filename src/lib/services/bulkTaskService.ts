@@ -0,0 +1,195 @@
+import { supabase } from '../supabase';
+import { Task, TaskBulkChanges, TaskTag } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+
+/**
+ * Apply one set of changes to many tasks at once. Returns the batch id to undo it with.
+ */
+export async function bulkUpdateTasks(taskIds: string[], changes: TaskBulkChanges): Promise<string> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Bulk updating tasks',
+      { count: taskIds.length, changes }
+    );
+
+    const { data, error } = await supabase.rpc('bulk_update_tasks', {
+      p_task_ids: taskIds,
+      p_changes: changes
+    });
+
+    if (error) {
+      logApiCall('bulk_update_tasks', false, { error });
+      throw error;
+    }
+
+    logApiCall('bulk_update_tasks', true, { batchId: data });
+
+    return data;
+  } catch (err) {
+    console.error('Error bulk updating tasks:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error bulk updating tasks',
+      { error: err, taskIds }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Revert every task touched by a bulk change
+ */
+export async function undoTaskBatch(batchId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Undoing bulk task change',
+      { batchId }
+    );
+
+    const { error } = await supabase.rpc('undo_task_batch', {
+      p_batch_id: batchId
+    });
+
+    if (error) {
+      logApiCall('undo_task_batch', false, { error });
+      throw error;
+    }
+
+    logApiCall('undo_task_batch', true, {});
+  } catch (err) {
+    console.error('Error undoing bulk task change:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error undoing bulk task change',
+      { error: err, batchId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Move many tasks, and their subtasks, to the trash in one request
+ */
+export async function deleteTasks(taskIds: string[]) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Deleting tasks',
+      { count: taskIds.length }
+    );
+
+    const { error } = await supabase.rpc('trash_tasks', {
+      p_task_ids: taskIds
+    });
+
+    if (error) {
+      logApiCall('trash_tasks', false, { error });
+      throw error;
+    }
+
+    logApiCall('trash_tasks', true, { count: taskIds.length });
+  } catch (err) {
+    console.error('Error deleting tasks:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error deleting tasks',
+      { error: err, taskIds }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch the tags a client's tasks use, A-Z
+ */
+export async function fetchClientTaskTags(clientId: string): Promise<TaskTag[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching task tags',
+      { clientId }
+    );
+
+    const { data, error } = await supabase
+      .from('task_tags')
+      .select('id, name, color')
+      .eq('client_id', clientId)
+      .order('name');
+
+    if (error) {
+      logApiCall('task_tags.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_tags.select', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching task tags:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching task tags',
+      { error: err, clientId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Attach each task's tags
+ */
+export async function loadTaskTags(tasks: Task[]): Promise<Task[]> {
+  if (tasks.length === 0) return tasks;
+
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Loading task tags',
+      { count: tasks.length }
+    );
+
+    const { data, error } = await supabase
+      .from('task_tag_assignments')
+      .select('task_id, tag:task_tags(id, name, color)')
+      .in('task_id', tasks.map(task => task.id));
+
+    if (error) {
+      logApiCall('task_tag_assignments.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_tag_assignments.select', true, { count: data?.length });
+
+    const tagsByTask = new Map<string, TaskTag[]>();
+    (data || []).forEach(row => {
+      const tag = row.tag as unknown as TaskTag | null;
+      if (!tag) return;
+      tagsByTask.set(row.task_id, [...(tagsByTask.get(row.task_id) || []), tag]);
+    });
+
+    return tasks.map(task => ({
+      ...task,
+      tags: (tagsByTask.get(task.id) || []).sort((a, b) => a.name.localeCompare(b.name))
+    }));
+  } catch (err) {
+    console.error('Error loading task tags:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error loading task tags',
+      { error: err }
+    );
+    throw err;
+  }
+}
@@ -0,0 +1,252 @@
+import { supabase } from '../supabase';
+import { CustomField, CustomFieldValue, Task, TaskCustomFieldValue } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { isEmptyCustomFieldValue } from '../customFields';
+
+export type CustomFieldDetails = Pick<CustomField, 'name' | 'field_type' | 'options'>;
+
+/**
+ * Fetch the custom field definitions of a board, archived ones included
+ */
+export async function fetchCustomFields(boardId: string): Promise<CustomField[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching custom fields',
+      { boardId }
+    );
+
+    const { data, error } = await supabase
+      .from('custom_fields')
+      .select('*')
+      .eq('board_id', boardId)
+      .order('position');
+
+    if (error) {
+      logApiCall('custom_fields.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('custom_fields.select', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching custom fields:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching custom fields',
+      { error: err, boardId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Add a custom field to the end of a board's field list
+ */
+export async function createCustomField(
+  boardId: string,
+  details: CustomFieldDetails,
+  position: number,
+  userId?: string
+): Promise<CustomField> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Creating custom field',
+      { boardId, name: details.name, fieldType: details.field_type }
+    );
+
+    const { data, error } = await supabase
+      .from('custom_fields')
+      .insert([{
+        board_id: boardId,
+        name: details.name,
+        field_type: details.field_type,
+        options: details.options,
+        position,
+        created_by: userId || null
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logApiCall('custom_fields.insert', false, { error });
+      throw error;
+    }
+
+    logApiCall('custom_fields.insert', true, {});
+
+    return data;
+  } catch (err) {
+    console.error('Error creating custom field:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error creating custom field',
+      { error: err, boardId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Update a custom field. The type can't change once values may have been recorded against it.
+ */
+export async function updateCustomField(
+  fieldId: string,
+  updates: Partial<Pick<CustomField, 'name' | 'options' | 'position' | 'is_archived'>>
+) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Updating custom field',
+      { fieldId, updates }
+    );
+
+    const { error } = await supabase
+      .from('custom_fields')
+      .update(updates)
+      .eq('id', fieldId);
+
+    if (error) {
+      logApiCall('custom_fields.update', false, { error });
+      throw error;
+    }
+
+    logApiCall('custom_fields.update', true, {});
+  } catch (err) {
+    console.error('Error updating custom field:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error updating custom field',
+      { error: err, fieldId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Persist a new field order; `fieldIds` lists every field of the board in its new order
+ */
+export async function reorderCustomFields(fieldIds: string[]) {
+  await Promise.all(fieldIds.map((fieldId, index) => updateCustomField(fieldId, { position: index })));
+}
+
+/**
+ * Fetch the stored custom field values of a set of tasks
+ */
+export async function fetchCustomFieldValues(taskIds: string[]): Promise<TaskCustomFieldValue[]> {
+  if (taskIds.length === 0) return [];
+
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching custom field values',
+      { taskCount: taskIds.length }
+    );
+
+    const { data, error } = await supabase
+      .from('task_custom_field_values')
+      .select('*')
+      .in('task_id', taskIds);
+
+    if (error) {
+      logApiCall('task_custom_field_values.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_custom_field_values.select', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching custom field values:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching custom field values',
+      { error: err }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Load custom field values for a set of tasks and attach them to each task as `custom_fields`
+ */
+export async function loadTaskCustomFields(tasks: Task[]): Promise<Task[]> {
+  const values = await fetchCustomFieldValues(tasks.map(task => task.id));
+
+  const valuesByTask = new Map<string, Record<string, CustomFieldValue>>();
+  values.forEach(row => {
+    const taskValues = valuesByTask.get(row.task_id) || {};
+    taskValues[row.field_id] = row.value;
+    valuesByTask.set(row.task_id, taskValues);
+  });
+
+  return tasks.map(task => ({ ...task, custom_fields: valuesByTask.get(task.id) || {} }));
+}
+
+/**
+ * Save a task's custom field values. Cleared values are removed rather than stored empty.
+ */
+export async function saveTaskCustomFieldValues(taskId: string, values: Record<string, CustomFieldValue>) {
+  const entries = Object.entries(values);
+  const filled = entries.filter(([, value]) => !isEmptyCustomFieldValue(value));
+  const clearedIds = entries.filter(([, value]) => isEmptyCustomFieldValue(value)).map(([fieldId]) => fieldId);
+
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Saving custom field values',
+      { taskId, filled: filled.length, cleared: clearedIds.length }
+    );
+
+    if (filled.length > 0) {
+      const { error } = await supabase
+        .from('task_custom_field_values')
+        .upsert(
+          filled.map(([fieldId, value]) => ({ task_id: taskId, field_id: fieldId, value })),
+          { onConflict: 'task_id,field_id' }
+        );
+
+      if (error) {
+        logApiCall('task_custom_field_values.upsert', false, { error });
+        throw error;
+      }
+
+      logApiCall('task_custom_field_values.upsert', true, { count: filled.length });
+    }
+
+    if (clearedIds.length > 0) {
+      const { error } = await supabase
+        .from('task_custom_field_values')
+        .delete()
+        .eq('task_id', taskId)
+        .in('field_id', clearedIds);
+
+      if (error) {
+        logApiCall('task_custom_field_values.delete', false, { error });
+        throw error;
+      }
+
+      logApiCall('task_custom_field_values.delete', true, { count: clearedIds.length });
+    }
+  } catch (err) {
+    console.error('Error saving custom field values:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error saving custom field values',
+      { error: err, taskId }
+    );
+    throw err;
+  }
+}
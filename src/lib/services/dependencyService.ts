@@ -0,0 +1,250 @@
+import { supabase } from '../supabase';
+import { Task, TaskDependency, TaskDependencyLink } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { isTaskCompleted } from '../workflow';
+
+/**
+ * Fetch every dependency link touching the given tasks
+ */
+export async function fetchDependencyLinks(taskIds: string[]): Promise<TaskDependencyLink[]> {
+  if (taskIds.length === 0) return [];
+
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching task dependencies',
+      { taskCount: taskIds.length }
+    );
+
+    const idList = taskIds.join(',');
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .select('*')
+      .or(`task_id.in.(${idList}),depends_on_task_id.in.(${idList})`);
+
+    if (error) {
+      logApiCall('task_dependencies.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_dependencies.select', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching task dependencies:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching task dependencies',
+      { error: err }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Load dependency links for a set of tasks and attach them to each task
+ */
+export async function loadTaskDependencies(tasks: Task[]) {
+  const links = await fetchDependencyLinks(tasks.map(task => task.id));
+
+  // Links can point at tasks on other boards; fetch those so titles and statuses resolve
+  const knownIds = new Set(tasks.map(task => task.id));
+  const missingIds = Array.from(new Set(
+    links.flatMap(link => [link.task_id, link.depends_on_task_id])
+  )).filter(id => !knownIds.has(id));
+
+  let lookup = tasks;
+  if (missingIds.length > 0) {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id, title, status, status_category')
+      .in('id', missingIds)
+      .is('deleted_at', null);
+
+    if (error) {
+      logApiCall('tasks.select', false, { error });
+      throw error;
+    }
+
+    lookup = [...tasks, ...((data || []) as Task[])];
+  }
+
+  return {
+    links,
+    tasks: attachDependencies(tasks, links, lookup)
+  };
+}
+
+/**
+ * Mark `taskId` as blocked by `dependsOnTaskId`
+ */
+export async function addTaskDependency(
+  taskId: string,
+  dependsOnTaskId: string,
+  existingLinks: TaskDependencyLink[],
+  userId?: string
+): Promise<TaskDependencyLink> {
+  if (taskId === dependsOnTaskId) {
+    throw new Error('A task cannot depend on itself');
+  }
+
+  if (existingLinks.some(link => link.task_id === taskId && link.depends_on_task_id === dependsOnTaskId)) {
+    throw new Error('This dependency already exists');
+  }
+
+  if (wouldCreateCycle(existingLinks, taskId, dependsOnTaskId)) {
+    throw new Error('This dependency would create a circular chain of tasks');
+  }
+
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Adding task dependency',
+      { taskId, dependsOnTaskId }
+    );
+
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .insert([{
+        task_id: taskId,
+        depends_on_task_id: dependsOnTaskId,
+        created_by: userId || null
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logApiCall('task_dependencies.insert', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_dependencies.insert', true, {});
+
+    return data;
+  } catch (err) {
+    console.error('Error adding task dependency:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error adding task dependency',
+      { error: err, taskId, dependsOnTaskId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Remove a dependency link
+ */
+export async function removeTaskDependency(linkId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Removing task dependency',
+      { linkId }
+    );
+
+    const { error } = await supabase
+      .from('task_dependencies')
+      .delete()
+      .eq('id', linkId);
+
+    if (error) {
+      logApiCall('task_dependencies.delete', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_dependencies.delete', true, {});
+
+    return true;
+  } catch (err) {
+    console.error('Error removing task dependency:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error removing task dependency',
+      { error: err, linkId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Check whether adding "taskId is blocked by dependsOnTaskId" would close a loop
+ */
+export function wouldCreateCycle(
+  links: TaskDependencyLink[],
+  taskId: string,
+  dependsOnTaskId: string
+): boolean {
+  // Follow the prerequisites of dependsOnTaskId; reaching taskId means a cycle
+  const visited = new Set<string>();
+  const stack = [dependsOnTaskId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    links
+      .filter(link => link.task_id === current)
+      .forEach(link => stack.push(link.depends_on_task_id));
+  }
+
+  return false;
+}
+
+/**
+ * Resolve raw links into the `dependencies` array of each task
+ */
+export function attachDependencies(tasks: Task[], links: TaskDependencyLink[], lookup: Task[] = tasks): Task[] {
+  const taskMap = new Map(lookup.map(task => [task.id, task]));
+
+  return tasks.map(task => {
+    const dependencies: TaskDependency[] = [];
+
+    links.forEach(link => {
+      if (link.task_id === task.id) {
+        const other = taskMap.get(link.depends_on_task_id);
+        if (other) {
+          dependencies.push({
+            id: link.id,
+            task_id: other.id,
+            title: other.title,
+            status: other.status,
+            status_category: other.status_category,
+            type: 'blocked_by'
+          });
+        }
+      } else if (link.depends_on_task_id === task.id) {
+        const other = taskMap.get(link.task_id);
+        if (other) {
+          dependencies.push({
+            id: link.id,
+            task_id: other.id,
+            title: other.title,
+            status: other.status,
+            status_category: other.status_category,
+            type: 'blocks'
+          });
+        }
+      }
+    });
+
+    return { ...task, dependencies };
+  });
+}
+
+/**
+ * Get the prerequisites of a task that are not completed yet
+ */
+export function getOpenBlockers(task: Task): TaskDependency[] {
+  return (task.dependencies || []).filter(
+    dependency => dependency.type === 'blocked_by' && !isTaskCompleted(dependency)
+  );
+}
@@ -0,0 +1,446 @@
+import { supabase } from '../supabase';
+import { Invoice, InvoiceGroupBy } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { sendTemplateEmail } from '../emailService';
+import { ensureDefaultEmailTemplates } from '../emailTemplates';
+import {
+  buildInvoicePdf,
+  formatInvoicePeriod,
+  formatMoney,
+  getInvoiceFileName,
+  getInvoiceTitle,
+  getInvoiceTotals
+} from '../invoices';
+import { format, parseISO } from 'date-fns';
+
+export interface InvoiceSettings {
+  group_by: InvoiceGroupBy;
+  discount_percent: number;
+  tax_percent: number;
+  notes: string;
+}
+
+const INVOICE_SELECT = '*, client:clients(name), lines:invoice_lines(*)';
+
+function sortLines(invoice: Invoice): Invoice {
+  return { ...invoice, lines: [...(invoice.lines || [])].sort((a, b) => a.position - b.position) };
+}
+
+/**
+ * Fetch a client's invoices with their lines, newest period first
+ */
+export async function fetchClientInvoices(clientId: string): Promise<Invoice[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching invoices',
+      { clientId }
+    );
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .select(INVOICE_SELECT)
+      .eq('client_id', clientId)
+      .order('period_start', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logApiCall('invoices.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('invoices.select', true, { count: data?.length });
+
+    return ((data || []) as Invoice[]).map(sortLines);
+  } catch (err) {
+    console.error('Error fetching invoices:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching invoices',
+      { error: err, clientId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch one invoice with its lines
+ */
+export async function fetchInvoice(invoiceId: string): Promise<Invoice> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching invoice',
+      { invoiceId }
+    );
+
+    const { data, error } = await supabase
+      .from('invoices')
+      .select(INVOICE_SELECT)
+      .eq('id', invoiceId)
+      .single();
+
+    if (error) {
+      logApiCall('invoices.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('invoices.select', true, { invoiceId });
+
+    return sortLines(data as Invoice);
+  } catch (err) {
+    console.error('Error fetching invoice:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching invoice',
+      { error: err, invoiceId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Start a draft invoice from a client's uninvoiced billable time in a period (yyyy-MM-dd, inclusive)
+ */
+export async function createInvoice(clientId: string, periodStart: string, periodEnd: string, groupBy: InvoiceGroupBy): Promise<string> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Creating invoice',
+      { clientId, periodStart, periodEnd }
+    );
+
+    const { data, error } = await supabase.rpc('create_invoice', {
+      p_client_id: clientId,
+      p_period_start: periodStart,
+      p_period_end: periodEnd,
+      p_group_by: groupBy
+    });
+
+    if (error) {
+      logApiCall('create_invoice', false, { error });
+      throw error;
+    }
+
+    logApiCall('create_invoice', true, { invoiceId: data });
+
+    return data as string;
+  } catch (err) {
+    console.error('Error creating invoice:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error creating invoice',
+      { error: err, clientId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Pull time logged since the draft was started onto it
+ */
+export async function refreshInvoiceTime(invoiceId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Refreshing invoice time',
+      { invoiceId }
+    );
+
+    const { error } = await supabase.rpc('refresh_invoice_time', { p_invoice_id: invoiceId });
+
+    if (error) {
+      logApiCall('refresh_invoice_time', false, { error });
+      throw error;
+    }
+
+    logApiCall('refresh_invoice_time', true, { invoiceId });
+  } catch (err) {
+    console.error('Error refreshing invoice time:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error refreshing invoice time',
+      { error: err, invoiceId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Change a draft's grouping, discount, tax and notes
+ */
+export async function updateInvoice(invoiceId: string, settings: InvoiceSettings) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Updating invoice',
+      { invoiceId, settings }
+    );
+
+    const { error } = await supabase.rpc('update_invoice', {
+      p_invoice_id: invoiceId,
+      p_group_by: settings.group_by,
+      p_discount_percent: settings.discount_percent,
+      p_tax_percent: settings.tax_percent,
+      p_notes: settings.notes
+    });
+
+    if (error) {
+      logApiCall('update_invoice', false, { error });
+      throw error;
+    }
+
+    logApiCall('update_invoice', true, { invoiceId });
+  } catch (err) {
+    console.error('Error updating invoice:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error updating invoice',
+      { error: err, invoiceId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Add a typed-in line to a draft
+ */
+export async function addInvoiceLine(invoiceId: string, description: string, quantity: number, unitPrice: number): Promise<string> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Adding invoice line',
+      { invoiceId, description }
+    );
+
+    const { data, error } = await supabase.rpc('add_invoice_line', {
+      p_invoice_id: invoiceId,
+      p_description: description,
+      p_quantity: quantity,
+      p_unit_price: unitPrice
+    });
+
+    if (error) {
+      logApiCall('add_invoice_line', false, { error });
+      throw error;
+    }
+
+    logApiCall('add_invoice_line', true, { lineId: data });
+
+    return data as string;
+  } catch (err) {
+    console.error('Error adding invoice line:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error adding invoice line',
+      { error: err, invoiceId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Remove a typed-in line from a draft
+ */
+export async function removeInvoiceLine(lineId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Removing invoice line',
+      { lineId }
+    );
+
+    const { error } = await supabase.rpc('remove_invoice_line', { p_line_id: lineId });
+
+    if (error) {
+      logApiCall('remove_invoice_line', false, { error });
+      throw error;
+    }
+
+    logApiCall('remove_invoice_line', true, { lineId });
+  } catch (err) {
+    console.error('Error removing invoice line:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error removing invoice line',
+      { error: err, lineId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Give a draft the agency's next invoice number and freeze it. Returns the number.
+ */
+export async function issueInvoice(invoiceId: string): Promise<number> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Issuing invoice',
+      { invoiceId }
+    );
+
+    const { data, error } = await supabase.rpc('issue_invoice', { p_invoice_id: invoiceId });
+
+    if (error) {
+      logApiCall('issue_invoice', false, { error });
+      throw error;
+    }
+
+    logApiCall('issue_invoice', true, { invoiceId, invoiceNumber: data });
+
+    return data as number;
+  } catch (err) {
+    console.error('Error issuing invoice:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error issuing invoice',
+      { error: err, invoiceId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Cancel an issued invoice and release its time for another invoice
+ */
+export async function voidInvoice(invoiceId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Voiding invoice',
+      { invoiceId }
+    );
+
+    const { error } = await supabase.rpc('void_invoice', { p_invoice_id: invoiceId });
+
+    if (error) {
+      logApiCall('void_invoice', false, { error });
+      throw error;
+    }
+
+    logApiCall('void_invoice', true, { invoiceId });
+  } catch (err) {
+    console.error('Error voiding invoice:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error voiding invoice',
+      { error: err, invoiceId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Throw away a draft and release its time
+ */
+export async function deleteInvoice(invoiceId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Deleting invoice',
+      { invoiceId }
+    );
+
+    const { error } = await supabase.rpc('delete_invoice', { p_invoice_id: invoiceId });
+
+    if (error) {
+      logApiCall('delete_invoice', false, { error });
+      throw error;
+    }
+
+    logApiCall('delete_invoice', true, { invoiceId });
+  } catch (err) {
+    console.error('Error deleting invoice:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error deleting invoice',
+      { error: err, invoiceId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Email an issued invoice with its PDF attached, using the Invoice email template
+ */
+export async function sendInvoice(invoice: Invoice, to: string, branding: { companyName: string; primaryColor: string }) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Sending invoice',
+      { invoiceId: invoice.id, to }
+    );
+
+    if (invoice.status !== 'issued') {
+      throw new Error('Only issued invoices can be sent');
+    }
+
+    const lines = invoice.lines || [];
+    const totals = getInvoiceTotals(invoice, lines);
+
+    await ensureDefaultEmailTemplates();
+
+    const result = await sendTemplateEmail(
+      'Invoice',
+      to,
+      {
+        clientName: invoice.client?.name || '',
+        invoiceNumber: getInvoiceTitle(invoice),
+        invoiceDate: format(invoice.issued_at ? parseISO(invoice.issued_at) : new Date(), 'MMM d, yyyy'),
+        invoicePeriod: formatInvoicePeriod(invoice),
+        invoiceTotal: formatMoney(totals.total),
+        invoiceNotes: invoice.notes || '',
+        companyName: branding.companyName
+      },
+      [{
+        filename: getInvoiceFileName(invoice, 'pdf'),
+        content: buildInvoicePdf(invoice, lines, branding),
+        contentType: 'application/pdf'
+      }]
+    );
+
+    if (!result.success) {
+      throw new Error(result.message || 'The invoice could not be sent');
+    }
+
+    const { error } = await supabase.rpc('mark_invoice_sent', { p_invoice_id: invoice.id, p_sent_to: to });
+
+    if (error) {
+      logApiCall('mark_invoice_sent', false, { error });
+      throw error;
+    }
+
+    logApiCall('mark_invoice_sent', true, { invoiceId: invoice.id, to });
+  } catch (err) {
+    console.error('Error sending invoice:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error sending invoice',
+      { error: err, invoiceId: invoice.id }
+    );
+    throw err;
+  }
+}
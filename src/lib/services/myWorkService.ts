@@ -0,0 +1,92 @@
+import { supabase } from '../supabase';
+import { BoardColumn, MyWorkTask } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { mutate, readThrough } from '../syncQueue';
+
+/**
+ * Fetch the open tasks assigned to a user on every client they can access, with the columns of their boards
+ */
+export async function fetchMyWork(userId: string): Promise<{ tasks: MyWorkTask[]; columns: BoardColumn[] }> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching my work',
+      { userId }
+    );
+
+    const { data, error } = await readThrough(`my-work:${userId}`, supabase.rpc('get_my_work'));
+
+    if (error) {
+      logApiCall('get_my_work', false, { error });
+      throw error;
+    }
+
+    const tasks = (data || []) as MyWorkTask[];
+    logApiCall('get_my_work', true, { count: tasks.length });
+
+    const boardIds = [...new Set(tasks.map(task => task.board_id))];
+    if (boardIds.length === 0) {
+      return { tasks, columns: [] };
+    }
+
+    const { data: columns, error: columnsError } = await readThrough(`my-work-columns:${userId}`, supabase
+      .from('board_columns')
+      .select('*')
+      .in('board_id', boardIds)
+      .order('position'));
+
+    if (columnsError) {
+      logApiCall('board_columns.select', false, { error: columnsError });
+      throw columnsError;
+    }
+
+    logApiCall('board_columns.select', true, { count: columns?.length });
+
+    return { tasks, columns: columns || [] };
+  } catch (err) {
+    console.error('Error fetching my work:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching my work',
+      { error: err, userId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Hide a task from the current user's My Work until a time, or bring it back with null
+ */
+export async function snoozeTask(taskId: string, until: Date | null) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      until ? 'Snoozing task' : 'Unsnoozing task',
+      { taskId, until }
+    );
+
+    const { error, queued } = await mutate(
+      { kind: 'rpc', fn: 'snooze_task', params: { p_task_id: taskId, p_until: until?.toISOString() ?? null } },
+      until ? 'Snooze a task' : 'Unsnooze a task'
+    );
+
+    if (error) {
+      logApiCall('snooze_task', false, { error });
+      throw error;
+    }
+
+    logApiCall('snooze_task', true, { queued });
+  } catch (err) {
+    console.error('Error snoozing task:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error snoozing task',
+      { error: err, taskId }
+    );
+    throw err;
+  }
+}
@@ -0,0 +1,299 @@
+import { supabase } from '../supabase';
+import { Task, TaskRecurrence } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { getNextOccurrenceDate, RecurrenceRule } from '../recurrence';
+import { format, parseISO } from 'date-fns';
+
+// Fields that belong to a single occurrence and never get copied to the rest of the series
+const PER_OCCURRENCE_FIELDS = ['id', 'status', 'start_date', 'finish_date', 'position', 'recurrence_index', 'created_at', 'updated_at'];
+
+// The date a task's schedule is anchored on
+function getAnchorDate(task: Pick<Task, 'start_date' | 'finish_date'>): string | null {
+  const date = task.start_date || task.finish_date;
+  return date ? format(parseISO(date), 'yyyy-MM-dd') : null;
+}
+
+/**
+ * Fetch a recurrence by ID
+ */
+export async function fetchTaskRecurrence(recurrenceId: string): Promise<TaskRecurrence | null> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching task recurrence',
+      { recurrenceId }
+    );
+
+    const { data, error } = await supabase
+      .from('task_recurrences')
+      .select('*')
+      .eq('id', recurrenceId)
+      .maybeSingle();
+
+    if (error) {
+      logApiCall('task_recurrences.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_recurrences.select', true, {});
+
+    return data;
+  } catch (err) {
+    console.error('Error fetching task recurrence:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching task recurrence',
+      { error: err, recurrenceId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Create or update the recurrence of a task
+ */
+export async function saveTaskRecurrence(
+  task: Task & { client_id: string },
+  rule: RecurrenceRule,
+  userId?: string
+): Promise<TaskRecurrence> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Saving task recurrence',
+      { taskId: task.id, rule }
+    );
+
+    if (task.recurrence_id) {
+      const existing = await fetchTaskRecurrence(task.recurrence_id);
+      if (existing) {
+        const { data, error } = await supabase
+          .from('task_recurrences')
+          .update({
+            ...rule,
+            is_active: true,
+            next_due_date: getNextOccurrenceDate(rule, existing.last_occurrence_date)
+          })
+          .eq('id', existing.id)
+          .select()
+          .single();
+
+        if (error) {
+          logApiCall('task_recurrences.update', false, { error });
+          throw error;
+        }
+
+        logApiCall('task_recurrences.update', true, {});
+        return data;
+      }
+    }
+
+    const anchorDate = getAnchorDate(task);
+    if (!anchorDate) {
+      throw new Error('Set a start or due date before making this task repeat');
+    }
+
+    const { data, error } = await supabase
+      .from('task_recurrences')
+      .insert([{
+        ...rule,
+        task_id: task.id,
+        board_id: task.board_id,
+        client_id: task.client_id,
+        occurrences_created: 1,
+        last_occurrence_date: anchorDate,
+        next_due_date: getNextOccurrenceDate(rule, anchorDate),
+        created_by: userId || null
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logApiCall('task_recurrences.insert', false, { error });
+      throw error;
+    }
+
+    const { error: taskError } = await supabase
+      .from('tasks')
+      .update({ recurrence_id: data.id, recurrence_index: 1 })
+      .eq('id', task.id);
+
+    if (taskError) {
+      logApiCall('tasks.update', false, { error: taskError });
+      throw taskError;
+    }
+
+    logApiCall('task_recurrences.insert', true, {});
+
+    return data;
+  } catch (err) {
+    console.error('Error saving task recurrence:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error saving task recurrence',
+      { error: err, taskId: task.id }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Stop a series from generating further occurrences; existing tasks are kept
+ */
+export async function stopTaskRecurrence(recurrenceId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Stopping task recurrence',
+      { recurrenceId }
+    );
+
+    const { error } = await supabase
+      .from('task_recurrences')
+      .update({ is_active: false, next_due_date: null })
+      .eq('id', recurrenceId);
+
+    if (error) {
+      logApiCall('task_recurrences.update', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_recurrences.update', true, {});
+
+    return true;
+  } catch (err) {
+    console.error('Error stopping task recurrence:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error stopping task recurrence',
+      { error: err, recurrenceId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Create the next task in a series, copying the latest occurrence with shifted dates,
+ * its checklist and its linked SOPs. Returns null when the series has ended or the
+ * occurrence was already created by someone else.
+ */
+export async function generateNextOccurrence(recurrence: TaskRecurrence) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Generating next recurring task',
+      { recurrenceId: recurrence.id }
+    );
+
+    // The database works out the dates and locks the series, so tabs and devices can't both create it
+    const { data: taskId, error } = await supabase.rpc('generate_next_recurrence', {
+      p_recurrence_id: recurrence.id,
+      p_occurrence_index: recurrence.occurrences_created + 1
+    });
+
+    if (error) {
+      logApiCall('generate_next_recurrence', false, { error });
+      throw error;
+    }
+
+    logApiCall('generate_next_recurrence', true, { recurrenceId: recurrence.id, taskId });
+
+    if (!taskId) return null;
+
+    const { data: newTask, error: taskError } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('id', taskId)
+      .single();
+
+    if (taskError) {
+      logApiCall('tasks.select', false, { error: taskError });
+      throw taskError;
+    }
+
+    return newTask;
+  } catch (err) {
+    console.error('Error generating recurring task:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error generating recurring task',
+      { error: err, recurrenceId: recurrence.id }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Generate the next occurrence when the latest one in a series is completed
+ */
+export async function handleRecurringTaskCompleted(task: Pick<Task, 'id' | 'recurrence_id' | 'recurrence_index'>) {
+  if (!task.recurrence_id) return null;
+
+  const recurrence = await fetchTaskRecurrence(task.recurrence_id);
+
+  // Only the newest occurrence advances the series; older ones were already superseded
+  if (!recurrence || !recurrence.is_active || task.recurrence_index !== recurrence.occurrences_created) {
+    return null;
+  }
+
+  return generateNextOccurrence(recurrence);
+}
+
+/**
+ * Apply edits to every open occurrence that comes after the given one
+ */
+export async function updateFutureOccurrences(
+  task: Pick<Task, 'recurrence_id' | 'recurrence_index'>,
+  updates: Record<string, unknown>
+) {
+  if (!task.recurrence_id || task.recurrence_index == null) return 0;
+
+  const sharedUpdates = Object.fromEntries(
+    Object.entries(updates).filter(([key]) => !PER_OCCURRENCE_FIELDS.includes(key))
+  );
+
+  if (Object.keys(sharedUpdates).length === 0) return 0;
+
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Updating future occurrences',
+      { recurrenceId: task.recurrence_id, fromIndex: task.recurrence_index, updates: sharedUpdates }
+    );
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(sharedUpdates)
+      .eq('recurrence_id', task.recurrence_id)
+      .gt('recurrence_index', task.recurrence_index)
+      .neq('status_category', 'completed')
+      .select('id');
+
+    if (error) {
+      logApiCall('tasks.update', false, { error });
+      throw error;
+    }
+
+    logApiCall('tasks.update', true, { count: data?.length });
+
+    return data?.length || 0;
+  } catch (err) {
+    console.error('Error updating future occurrences:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error updating future occurrences',
+      { error: err, recurrenceId: task.recurrence_id }
+    );
+    throw err;
+  }
+}
@@ -0,0 +1,166 @@
+import { supabase } from '../supabase';
+import { BoardViewState, SavedView } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { normalizeViewState } from '../viewState';
+
+/**
+ * Fetch the views of a board a user can pick from: their own plus everything shared
+ */
+export async function fetchSavedViews(boardId: string, userId: string): Promise<SavedView[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching saved views',
+      { boardId, userId }
+    );
+
+    const { data, error } = await supabase
+      .from('saved_views')
+      .select('*')
+      .eq('board_id', boardId)
+      .or(`is_shared.eq.true,created_by.eq.${userId}`)
+      .order('name');
+
+    if (error) {
+      logApiCall('saved_views.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('saved_views.select', true, { count: data?.length });
+
+    return (data || []).map(view => ({ ...view, state: normalizeViewState(view.state) }));
+  } catch (err) {
+    console.error('Error fetching saved views:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching saved views',
+      { error: err, boardId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Save the current slice of a board under a name
+ */
+export async function createSavedView(
+  boardId: string,
+  name: string,
+  state: BoardViewState,
+  isShared: boolean,
+  userId: string
+): Promise<SavedView> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Creating saved view',
+      { boardId, name, isShared }
+    );
+
+    const { data, error } = await supabase
+      .from('saved_views')
+      .insert([{
+        board_id: boardId,
+        name,
+        state,
+        is_shared: isShared,
+        created_by: userId
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logApiCall('saved_views.insert', false, { error });
+      throw error;
+    }
+
+    logApiCall('saved_views.insert', true, {});
+
+    return { ...data, state: normalizeViewState(data.state) };
+  } catch (err) {
+    console.error('Error creating saved view:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error creating saved view',
+      { error: err, boardId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Update a saved view's name, sharing or captured state
+ */
+export async function updateSavedView(
+  viewId: string,
+  updates: Partial<Pick<SavedView, 'name' | 'state' | 'is_shared'>>
+) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Updating saved view',
+      { viewId, updates }
+    );
+
+    const { error } = await supabase
+      .from('saved_views')
+      .update(updates)
+      .eq('id', viewId);
+
+    if (error) {
+      logApiCall('saved_views.update', false, { error });
+      throw error;
+    }
+
+    logApiCall('saved_views.update', true, {});
+  } catch (err) {
+    console.error('Error updating saved view:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error updating saved view',
+      { error: err, viewId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Delete a saved view
+ */
+export async function deleteSavedView(viewId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Deleting saved view',
+      { viewId }
+    );
+
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('id', viewId);
+
+    if (error) {
+      logApiCall('saved_views.delete', false, { error });
+      throw error;
+    }
+
+    logApiCall('saved_views.delete', true, {});
+  } catch (err) {
+    console.error('Error deleting saved view:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error deleting saved view',
+      { error: err, viewId }
+    );
+    throw err;
+  }
+}
@@ -0,0 +1,52 @@
+import { supabase } from '../supabase';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+
+export type SearchResultKind = 'client' | 'board' | 'task' | 'sop' | 'user';
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string;
+  title: string;
+  subtitle: string | null; // Client and board of a task, client of a board, access level of an SOP, email of a user
+  client_id: string | null;
+  board_id: string | null;
+  task_key: string | null;
+}
+
+/**
+ * Find clients, boards, tasks, SOPs and users matching a search, among those the current user can open
+ */
+export async function searchEverything(query: string, limit = 5): Promise<SearchResult[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Searching everything',
+      { query }
+    );
+
+    const { data, error } = await supabase.rpc('search_everything', {
+      p_query: query,
+      p_limit: limit
+    });
+
+    if (error) {
+      logApiCall('search_everything', false, { error });
+      throw error;
+    }
+
+    logApiCall('search_everything', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error searching:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error searching everything',
+      { error: err, query }
+    );
+    throw err;
+  }
+}
+
@@ -1,6 +1,7 @@
 import { supabase } from '../supabase';
 import { SOP, SopTag, SopVersion, SopComment, SopReference, SopStatusHistory, SopAccessLevel } from '../types';
 import { logDebugEvent, DebugLevel, DebugEventType } from '../debugSystem';
+import { readThrough } from '../syncQueue';
 
 /**
  * Fetch SOPs with filtering options
@@ -56,7 +57,7 @@ export async function fetchSOPs(options: {
       query = query.or(`title.ilike.%${options.searchTerm}%,description.ilike.%${options.searchTerm}%`);
     }
     
-    const { data, error } = await query.order('updated_at', { ascending: false });
+    const { data, error } = await readThrough(`sops:${JSON.stringify(options)}`, query.order('updated_at', { ascending: false }));
     
     if (error) throw error;
     
@@ -100,7 +101,7 @@ export async function fetchSOP(id: string) {
       { sopId: id }
     );
     
-    const { data, error } = await supabase
+    const { data, error } = await readThrough(`sop:${id}`, supabase
       .from('sops')
       .select(`
         *,
@@ -109,7 +110,7 @@ export async function fetchSOP(id: string) {
         )
       `)
       .eq('id', id)
-      .single();
+      .single());
 
     if (error) throw error;
     
@@ -0,0 +1,177 @@
+import { supabase } from '../supabase';
+import { Task } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+
+/**
+ * Fetch the subtasks of a task in board order
+ */
+export async function fetchSubtasks(parentTaskId: string): Promise<Task[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching subtasks',
+      { parentTaskId }
+    );
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('parent_task_id', parentTaskId)
+      .is('deleted_at', null)
+      .order('position');
+
+    if (error) {
+      logApiCall('tasks.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('tasks.select', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching subtasks:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching subtasks',
+      { error: err, parentTaskId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Create a subtask on its parent's board
+ */
+export async function createSubtask(
+  parentTask: Pick<Task, 'id' | 'board_id'>,
+  title: string,
+  status: string,
+  clientId: string,
+  agencyId: string
+): Promise<Task> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Creating subtask',
+      { parentTaskId: parentTask.id, title }
+    );
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .insert([{
+        title,
+        description: '',
+        status,
+        priority: 'medium',
+        board_id: parentTask.board_id,
+        client_id: clientId,
+        agency_id: agencyId,
+        parent_task_id: parentTask.id
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      logApiCall('tasks.insert', false, { error });
+      throw error;
+    }
+
+    logApiCall('tasks.insert', true, {});
+
+    return data;
+  } catch (err) {
+    console.error('Error creating subtask:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error creating subtask',
+      { error: err, parentTaskId: parentTask.id }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Turn a checklist item into a subtask of its task. Returns the new subtask's id.
+ */
+export async function promoteChecklistItem(itemId: string): Promise<string> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Promoting checklist item to subtask',
+      { itemId }
+    );
+
+    const { data, error } = await supabase.rpc('promote_checklist_item_to_subtask', {
+      p_item_id: itemId
+    });
+
+    if (error) {
+      logApiCall('promote_checklist_item_to_subtask', false, { error });
+      throw error;
+    }
+
+    logApiCall('promote_checklist_item_to_subtask', true, { taskId: data });
+
+    return data;
+  } catch (err) {
+    console.error('Error promoting checklist item:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error promoting checklist item',
+      { error: err, itemId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Hours logged on each task through finished time entries, keyed by task id
+ */
+export async function fetchLoggedHours(taskIds: string[]): Promise<Record<string, number>> {
+  if (taskIds.length === 0) return {};
+
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching logged hours',
+      { taskCount: taskIds.length }
+    );
+
+    const { data, error } = await supabase
+      .from('task_time_entries')
+      .select('task_id, start_time, end_time')
+      .in('task_id', taskIds)
+      .not('end_time', 'is', null);
+
+    if (error) {
+      logApiCall('task_time_entries.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_time_entries.select', true, { count: data?.length });
+
+    const hours: Record<string, number> = {};
+    (data || []).forEach(entry => {
+      const duration = (new Date(entry.end_time).getTime() - new Date(entry.start_time).getTime()) / (1000 * 60 * 60);
+      hours[entry.task_id] = (hours[entry.task_id] || 0) + duration;
+    });
+
+    return hours;
+  } catch (err) {
+    console.error('Error fetching logged hours:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching logged hours',
+      { error: err }
+    );
+    throw err;
+  }
+}
@@ -1,5 +1,5 @@
 import { supabase } from '../supabase';
-import { Task, TaskComment, TaskAttachment } from '../types';
+import { Task, TaskComment, TaskAttachment, TaskActivityType } from '../types';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
 
 /**
@@ -156,6 +156,90 @@ export async function fetchAttachments(taskId: string) {
   }
 }
 
+/**
+ * Fetch the activity history of a task, newest first
+ */
+export async function fetchTaskActivities(taskId: string): Promise<TaskActivityType[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching task activities',
+      { taskId }
+    );
+
+    const { data, error } = await supabase
+      .from('task_activities')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logApiCall('task_activities.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_activities.select', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching task activities:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching task activities',
+      { error: err, taskId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Add an entry to a task's activity history
+ */
+export async function logTaskActivity(
+  taskId: string,
+  userId: string,
+  userEmail: string,
+  action: string,
+  details: TaskActivityType['details'] = {}
+) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Logging task activity',
+      { taskId, action }
+    );
+
+    const { error } = await supabase
+      .from('task_activities')
+      .insert([{
+        task_id: taskId,
+        user_id: userId,
+        user_email: userEmail,
+        action,
+        details
+      }]);
+
+    if (error) {
+      logApiCall('task_activities.insert', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_activities.insert', true, { action });
+  } catch (err) {
+    console.error('Error logging task activity:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error logging task activity',
+      { error: err, taskId, action }
+    );
+    throw err;
+  }
+}
+
 /**
  * Fetch users for task assignment
  */
@@ -193,36 +277,60 @@ export async function fetchUsers() {
   }
 }
 
+// Thrown when a task was changed by someone else since the version being saved over was loaded
+export class TaskConflictError extends Error {
+  constructor(public serverTask: Task) {
+    super('This task was changed by someone else while you were editing it');
+  }
+}
+
 /**
- * Create or update a task
+ * Create or update a task. Given the version the edit started from, the update only goes
+ * through if the task is still at that version, and throws a TaskConflictError otherwise.
  */
-export async function createOrUpdateTask(taskId: string | null, taskData: Partial<Task>) {
+export async function createOrUpdateTask(taskId: string | null, taskData: Partial<Task>, expectedVersion?: number) {
   try {
     logDebugEvent(
       DebugLevel.INFO,
       DebugEventType.API_CALL,
       taskId ? 'Updating task' : 'Creating task',
-      { taskId, taskData }
+      { taskId, taskData, expectedVersion }
     );
     
     if (taskId) {
       // Update existing task
-      const { error } = await supabase
+      let query = supabase
         .from('tasks')
         .update(taskData)
         .eq('id', taskId);
 
+      if (expectedVersion !== undefined) {
+        query = query.eq('version', expectedVersion);
+      }
+
+      const { data, error } = await query.select('id');
+
       if (error) {
         logApiCall('tasks.update', false, { error });
         throw error;
       }
+
+      if (expectedVersion !== undefined && data.length === 0) {
+        const serverTask = await fetchTask(taskId);
+        logApiCall('tasks.update', false, { conflict: true, expectedVersion, serverVersion: serverTask.version });
+        throw new TaskConflictError(serverTask);
+      }
       
       logApiCall('tasks.update', true, {});
+      
+      return taskId;
     } else {
       // Create new task
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('tasks')
-        .insert([taskData]);
+        .insert([taskData])
+        .select('id')
+        .single();
 
       if (error) {
         logApiCall('tasks.insert', false, { error });
@@ -230,10 +338,12 @@ export async function createOrUpdateTask(taskId: string | null, taskData: Partia
       }
       
       logApiCall('tasks.insert', true, {});
+
+      return data.id as string;
     }
-    
-    return true;
   } catch (err) {
+    if (err instanceof TaskConflictError) throw err;
+
     console.error('Error saving task:', err);
     logDebugEvent(
       DebugLevel.ERROR,
@@ -246,7 +356,7 @@ export async function createOrUpdateTask(taskId: string | null, taskData: Partia
 }
 
 /**
- * Delete a task
+ * Move a task to the trash
  */
 export async function deleteTask(taskId: string) {
   try {
@@ -257,17 +367,16 @@ export async function deleteTask(taskId: string) {
       { taskId }
     );
     
-    const { error } = await supabase
-      .from('tasks')
-      .delete()
-      .eq('id', taskId);
+    const { error } = await supabase.rpc('trash_tasks', {
+      p_task_ids: [taskId]
+    });
 
     if (error) {
-      logApiCall('tasks.delete', false, { error });
+      logApiCall('trash_tasks', false, { error });
       throw error;
     }
     
-    logApiCall('tasks.delete', true, {});
+    logApiCall('trash_tasks', true, {});
     
     return true;
   } catch (err) {
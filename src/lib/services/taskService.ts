@@ -1,6 +1,7 @@
 import { supabase } from '../supabase';
 import { Task, BoardColumn } from '../types';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { mutate, readThrough } from '../syncQueue';
 
 /**
  * Fetch boards for a client
@@ -14,11 +15,11 @@ export async function fetchBoards(clientId: string) {
       { clientId }
     );
     
-    const { data, error } = await supabase
+    const { data, error } = await readThrough(`boards:${clientId}`, supabase
       .from('boards')
       .select('*')
       .eq('client_id', clientId)
-      .order('created_at');
+      .order('created_at'));
 
     if (error) {
       logApiCall('boards.select', false, { error });
@@ -94,11 +95,11 @@ export async function fetchColumns(boardId: string) {
       { boardId }
     );
     
-    const { data, error } = await supabase
+    const { data, error } = await readThrough(`columns:${boardId}`, supabase
       .from('board_columns')
       .select('*')
       .eq('board_id', boardId)
-      .order('position');
+      .order('position'));
 
     if (error) {
       logApiCall('board_columns.select', false, { error });
@@ -132,11 +133,12 @@ export async function fetchTasks(boardId: string) {
       { boardId }
     );
     
-    const { data: tasksData, error: tasksError } = await supabase
+    const { data: tasksData, error: tasksError } = await readThrough(`tasks:${boardId}`, supabase
       .from('tasks')
       .select('*')
       .eq('board_id', boardId)
-      .order('position');
+      .is('deleted_at', null)
+      .order('position'));
 
     if (tasksError) {
       logApiCall('tasks.select', false, { error: tasksError });
@@ -150,10 +152,10 @@ export async function fetchTasks(boardId: string) {
       .filter(id => id != null);
 
     if (assignedUserIds.length > 0) {
-      const { data: userData, error: userError } = await supabase
+      const { data: userData, error: userError } = await readThrough(`task-assignees:${boardId}`, supabase
         .from('user_roles')
         .select('user_id, email')
-        .in('user_id', assignedUserIds);
+        .in('user_id', assignedUserIds));
 
       if (userError) {
         logApiCall('user_roles.select', false, { error: userError });
@@ -188,7 +190,7 @@ export async function fetchTasks(boardId: string) {
 /**
  * Update a task
  */
-export async function updateTask(taskId: string, updates: Partial<Task>) {
+export async function updateTask(taskId: string, updates: Partial<Task>, baseVersion?: number) {
   try {
     logDebugEvent(
       DebugLevel.INFO,
@@ -197,17 +199,17 @@ export async function updateTask(taskId: string, updates: Partial<Task>) {
       { taskId, updates }
     );
     
-    const { error } = await supabase
-      .from('tasks')
-      .update(updates)
-      .eq('id', taskId);
+    const { error, queued } = await mutate(
+      { kind: 'update', table: 'tasks', id: taskId, values: updates, baseVersion },
+      updates.title ? `Edit task "${updates.title}"` : 'Edit a task'
+    );
 
     if (error) {
       logApiCall('tasks.update', false, { error });
       throw error;
     }
     
-    logApiCall('tasks.update', true, {});
+    logApiCall('tasks.update', true, { queued });
     
     return true;
   } catch (err) {
@@ -234,17 +236,17 @@ export async function updateColumn(columnId: string, updates: Partial<BoardColum
       { columnId, updates }
     );
     
-    const { error } = await supabase
-      .from('board_columns')
-      .update(updates)
-      .eq('id', columnId);
+    const { error, queued } = await mutate(
+      { kind: 'update', table: 'board_columns', id: columnId, values: updates },
+      updates.name ? `Edit column "${updates.name}"` : 'Edit a column'
+    );
 
     if (error) {
       logApiCall('board_columns.update', false, { error });
       throw error;
     }
     
-    logApiCall('board_columns.update', true, {});
+    logApiCall('board_columns.update', true, { queued });
     
     return true;
   } catch (err) {
@@ -271,20 +273,21 @@ export async function createTask(taskData: Partial<Task>) {
       { taskData }
     );
     
-    const { data, error } = await supabase
-      .from('tasks')
-      .insert([taskData])
-      .select()
-      .single();
+    // The id is made here so a task created offline can be saved later under the same id
+    const values = { ...taskData, id: taskData.id || crypto.randomUUID() };
+    const { data, error, queued } = await mutate(
+      { kind: 'insert', table: 'tasks', values },
+      `Create task "${taskData.title || 'Untitled'}"`
+    );
 
     if (error) {
       logApiCall('tasks.insert', false, { error });
       throw error;
     }
     
-    logApiCall('tasks.insert', true, {});
+    logApiCall('tasks.insert', true, { queued });
     
-    return data;
+    return (data || values) as Task;
   } catch (err) {
     console.error('Error creating task:', err);
     logDebugEvent(
@@ -298,7 +301,7 @@ export async function createTask(taskData: Partial<Task>) {
 }
 
 /**
- * Delete a task
+ * Move a task to the trash
  */
 export async function deleteTask(taskId: string) {
   try {
@@ -309,17 +312,17 @@ export async function deleteTask(taskId: string) {
       { taskId }
     );
     
-    const { error } = await supabase
-      .from('tasks')
-      .delete()
-      .eq('id', taskId);
+    const { error, queued } = await mutate(
+      { kind: 'rpc', fn: 'trash_tasks', params: { p_task_ids: [taskId] } },
+      'Move a task to the trash'
+    );
 
     if (error) {
-      logApiCall('tasks.delete', false, { error });
+      logApiCall('trash_tasks', false, { error });
       throw error;
     }
     
-    logApiCall('tasks.delete', true, {});
+    logApiCall('trash_tasks', true, { queued });
     
     return true;
   } catch (err) {
@@ -332,4 +335,161 @@ export async function deleteTask(taskId: string) {
     );
     throw err;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Copy checklist items from one task to another, keeping nesting and resetting completion
+ */
+export async function copyTaskChecklist(sourceTaskId: string, targetTaskId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Copying task checklist',
+      { sourceTaskId, targetTaskId }
+    );
+    
+    const { data: items, error } = await supabase
+      .from('task_checklist_items')
+      .select('*')
+      .eq('task_id', sourceTaskId)
+      .order('position');
+
+    if (error) {
+      logApiCall('task_checklist_items.select', false, { error });
+      throw error;
+    }
+
+    // Insert level by level so children can point at their copied parents
+    const idMap = new Map<string, string>();
+    let level = (items || []).filter(item => item.parent_id === null);
+    
+    while (level.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('task_checklist_items')
+        .insert(level.map(item => ({
+          task_id: targetTaskId,
+          text: item.text,
+          is_completed: false,
+          position: item.position,
+          parent_id: item.parent_id ? idMap.get(item.parent_id) : null
+        })))
+        .select('id');
+
+      if (insertError) {
+        logApiCall('task_checklist_items.insert', false, { error: insertError });
+        throw insertError;
+      }
+
+      level.forEach((item, index) => idMap.set(item.id, inserted[index].id));
+      level = (items || []).filter(item => item.parent_id && idMap.has(item.parent_id) && !idMap.has(item.id));
+    }
+    
+    logApiCall('task_checklist_items.insert', true, { count: idMap.size });
+    
+    return idMap.size;
+  } catch (err) {
+    console.error('Error copying task checklist:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error copying task checklist',
+      { error: err, sourceTaskId, targetTaskId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Copy linked SOPs from one task to another
+ */
+export async function copyTaskSops(sourceTaskId: string, targetTaskId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Copying task SOP links',
+      { sourceTaskId, targetTaskId }
+    );
+    
+    const { data, error } = await supabase
+      .from('task_sops')
+      .select('sop_id')
+      .eq('task_id', sourceTaskId);
+
+    if (error) {
+      logApiCall('task_sops.select', false, { error });
+      throw error;
+    }
+
+    if (data && data.length > 0) {
+      const { error: insertError } = await supabase
+        .from('task_sops')
+        .insert(data.map(link => ({ task_id: targetTaskId, sop_id: link.sop_id })));
+
+      if (insertError) {
+        logApiCall('task_sops.insert', false, { error: insertError });
+        throw insertError;
+      }
+    }
+    
+    logApiCall('task_sops.insert', true, { count: data?.length });
+    
+    return data?.length || 0;
+  } catch (err) {
+    console.error('Error copying task SOP links:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error copying task SOP links',
+      { error: err, sourceTaskId, targetTaskId }
+    );
+    throw err;
+  }
+}
+
+export interface TaskKeyMatch {
+  id: string;
+  task_key: string;
+  title: string;
+  status_category: string | null;
+  board_id: string;
+  client_id: string;
+}
+
+/**
+ * Find a task by its key, e.g. ACME-142. Former keys of moved or renamed tasks resolve too.
+ */
+export async function resolveTaskKey(taskKey: string): Promise<TaskKeyMatch | null> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Resolving task key',
+      { taskKey }
+    );
+
+    const { data, error } = await supabase.rpc('resolve_task_key', {
+      p_task_key: taskKey
+    });
+
+    if (error) {
+      logApiCall('resolve_task_key', false, { error });
+      throw error;
+    }
+
+    const matches = data as TaskKeyMatch[] | null;
+    logApiCall('resolve_task_key', true, { found: !!matches?.length });
+
+    return matches?.[0] || null;
+  } catch (err) {
+    console.error('Error resolving task key:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error resolving task key',
+      { error: err, taskKey }
+    );
+    throw err;
+  }
+}
@@ -0,0 +1,218 @@
+import { supabase } from '../supabase';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+
+export interface TransferClient {
+  id: string;
+  name: string;
+  boards: { id: string; name: string }[];
+}
+
+export type AttachmentCopyMode = 'link' | 'copy';
+
+/**
+ * Fetch the clients, with their boards, that a user can move or copy tasks to
+ */
+export async function fetchTransferTargets(
+  role: string | null,
+  agencyId: string | null,
+  clientId: string | null
+): Promise<TransferClient[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching task transfer targets',
+      { role, agencyId, clientId }
+    );
+
+    // Same scoping as the task board's client picker; the server re-checks every move and copy
+    let query = supabase.from('clients').select('id, name');
+
+    if (role === 'agency_admin' && agencyId) {
+      query = query.eq('agency_id', agencyId);
+    } else if (role === 'client_admin' && clientId) {
+      query = query.eq('id', clientId);
+    } else if (role !== 'system_admin') {
+      return [];
+    }
+
+    const { data: clients, error } = await query.order('name');
+
+    if (error) {
+      logApiCall('clients.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('clients.select', true, { count: clients?.length });
+
+    if (!clients || clients.length === 0) return [];
+
+    const { data: boards, error: boardsError } = await supabase
+      .from('boards')
+      .select('id, name, client_id')
+      .in('client_id', clients.map(client => client.id))
+      .order('name');
+
+    if (boardsError) {
+      logApiCall('boards.select', false, { error: boardsError });
+      throw boardsError;
+    }
+
+    logApiCall('boards.select', true, { count: boards?.length });
+
+    return clients
+      .map(client => ({
+        id: client.id,
+        name: client.name,
+        boards: (boards || [])
+          .filter(board => board.client_id === client.id)
+          .map(board => ({ id: board.id, name: board.name }))
+      }))
+      .filter(client => client.boards.length > 0);
+  } catch (err) {
+    console.error('Error fetching task transfer targets:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching task transfer targets',
+      { error: err }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Move a task and its subtasks to another board, remapping statuses to the board's columns
+ */
+export async function moveTaskToBoard(taskId: string, boardId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Moving task to board',
+      { taskId, boardId }
+    );
+
+    const { error } = await supabase.rpc('move_task_to_board', {
+      p_task_id: taskId,
+      p_board_id: boardId
+    });
+
+    if (error) {
+      logApiCall('move_task_to_board', false, { error });
+      throw error;
+    }
+
+    logApiCall('move_task_to_board', true, {});
+  } catch (err) {
+    console.error('Error moving task:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error moving task',
+      { error: err, taskId, boardId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Copy a task to a board with its checklist, SOP links, tags and attachments. Returns the copy's id.
+ */
+export async function copyTaskToBoard(
+  taskId: string,
+  boardId: string,
+  attachmentMode: AttachmentCopyMode,
+  userId: string
+): Promise<string> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Copying task to board',
+      { taskId, boardId, attachmentMode }
+    );
+
+    const { data, error } = await supabase.rpc('copy_task_to_board', {
+      p_task_id: taskId,
+      p_board_id: boardId,
+      p_link_attachments: attachmentMode === 'link'
+    });
+
+    if (error) {
+      logApiCall('copy_task_to_board', false, { error });
+      throw error;
+    }
+
+    logApiCall('copy_task_to_board', true, { taskId: data });
+
+    if (attachmentMode === 'copy') {
+      await copyTaskAttachmentFiles(taskId, data, userId);
+    }
+
+    return data;
+  } catch (err) {
+    console.error('Error copying task:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error copying task',
+      { error: err, taskId, boardId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Duplicate the stored files of a task's attachments onto another task, so either can be cleaned up alone
+ */
+async function copyTaskAttachmentFiles(sourceTaskId: string, targetTaskId: string, userId: string) {
+  const { data: attachments, error } = await supabase
+    .from('task_attachments')
+    .select('name, size, type, url')
+    .eq('task_id', sourceTaskId);
+
+  if (error) {
+    logApiCall('task_attachments.select', false, { error });
+    throw error;
+  }
+
+  for (const [index, attachment] of (attachments || []).entries()) {
+    const sourcePath = attachment.url.split('/task-attachments/')[1];
+    if (!sourcePath) continue;
+
+    const fileExt = attachment.name.split('.').pop();
+    const targetPath = `files/${targetTaskId}-${Date.now()}-${index}.${fileExt}`;
+
+    const { error: copyError } = await supabase.storage
+      .from('task-attachments')
+      .copy(sourcePath, targetPath);
+
+    if (copyError) {
+      logApiCall('storage.copy', false, { error: copyError });
+      throw copyError;
+    }
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('task-attachments')
+      .getPublicUrl(targetPath);
+
+    const { error: insertError } = await supabase
+      .from('task_attachments')
+      .insert([{
+        task_id: targetTaskId,
+        user_id: userId,
+        name: attachment.name,
+        size: attachment.size,
+        type: attachment.type,
+        url: publicUrl
+      }]);
+
+    if (insertError) {
+      logApiCall('task_attachments.insert', false, { error: insertError });
+      throw insertError;
+    }
+  }
+
+  logApiCall('storage.copy', true, { count: attachments?.length });
+}
@@ -0,0 +1,444 @@
+import { supabase } from '../supabase';
+import { BoardTemplate, BoardTemplateChecklistItem, BoardTemplateTask, SopAccessLevel } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { getDefaultStatus } from '../workflow';
+
+interface ChecklistRow {
+  id: string;
+  task_id: string;
+  text: string;
+  position: number;
+  parent_id: string | null;
+}
+
+export interface BoardTemplateDetails {
+  name: string;
+  description: string | null;
+  access_level: SopAccessLevel;
+  system_id?: string | null;
+  agency_id?: string | null;
+  client_id?: string | null;
+}
+
+// Flatten a task's checklist parents-first so apply_board_template can resolve parent_ref in one pass
+function buildChecklistSnapshot(items: ChecklistRow[]): BoardTemplateChecklistItem[] {
+  const refs = new Map<string, number>();
+  const snapshot: BoardTemplateChecklistItem[] = [];
+  let level = items.filter(item => item.parent_id === null);
+
+  while (level.length > 0) {
+    level.forEach(item => {
+      refs.set(item.id, snapshot.length);
+      snapshot.push({
+        ref: snapshot.length,
+        parent_ref: item.parent_id ? refs.get(item.parent_id) ?? null : null,
+        text: item.text,
+        position: item.position
+      });
+    });
+    level = items.filter(item => item.parent_id && refs.has(item.parent_id) && !refs.has(item.id));
+  }
+
+  return snapshot;
+}
+
+/**
+ * Fetch the templates visible from a system, agency or client
+ */
+export async function fetchBoardTemplates(scope: {
+  systemId?: string | null;
+  agencyId?: string | null;
+  clientId?: string | null;
+}) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching board templates',
+      scope
+    );
+
+    let query = supabase
+      .from('board_templates')
+      .select('*, tasks:board_template_tasks(id)');
+
+    // System admins see everything; everyone else sees system templates plus their own agency and client
+    if (!scope.systemId) {
+      const filters = ['access_level.eq.system'];
+      if (scope.agencyId) filters.push(`and(access_level.eq.agency,agency_id.eq.${scope.agencyId})`);
+      if (scope.clientId) filters.push(`and(access_level.eq.client,client_id.eq.${scope.clientId})`);
+      query = query.or(filters.join(','));
+    }
+
+    const { data, error } = await query.order('name');
+
+    if (error) {
+      logApiCall('board_templates.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('board_templates.select', true, { count: data?.length });
+
+    return (data || []) as BoardTemplate[];
+  } catch (err) {
+    console.error('Error fetching board templates:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching board templates',
+      { error: err, ...scope }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch a template with its tasks
+ */
+export async function fetchBoardTemplate(templateId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching board template',
+      { templateId }
+    );
+
+    const { data, error } = await supabase
+      .from('board_templates')
+      .select('*, tasks:board_template_tasks(*)')
+      .eq('id', templateId)
+      .single();
+
+    if (error) {
+      logApiCall('board_templates.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('board_templates.select', true, {});
+
+    return {
+      ...data,
+      tasks: (data.tasks || []).sort((a: BoardTemplateTask, b: BoardTemplateTask) => a.position - b.position)
+    } as BoardTemplate;
+  } catch (err) {
+    console.error('Error fetching board template:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching board template',
+      { error: err, templateId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Save a board's columns and tasks as a new template. Task dates become offsets from
+ * the earliest date on the board, which is treated as the kickoff date.
+ */
+export async function createTemplateFromBoard(boardId: string, details: BoardTemplateDetails, userId?: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Creating board template',
+      { boardId, name: details.name, accessLevel: details.access_level }
+    );
+
+    const [columnsResult, tasksResult] = await Promise.all([
+      supabase.from('board_columns').select('*').eq('board_id', boardId).order('position'),
+      supabase.from('tasks').select('*').eq('board_id', boardId).is('deleted_at', null).order('position')
+    ]);
+
+    if (columnsResult.error) throw columnsResult.error;
+    if (tasksResult.error) throw tasksResult.error;
+
+    const columns = columnsResult.data || [];
+    const startStatus = getDefaultStatus(columns);
+    const tasks = tasksResult.data || [];
+    const taskIds = tasks.map(task => task.id);
+
+    let checklistItems: ChecklistRow[] = [];
+    let sopLinks: { task_id: string; sop_id: string }[] = [];
+
+    if (taskIds.length > 0) {
+      const [checklistResult, sopsResult] = await Promise.all([
+        supabase.from('task_checklist_items').select('id, task_id, text, position, parent_id').in('task_id', taskIds).order('position'),
+        supabase.from('task_sops').select('task_id, sop_id').in('task_id', taskIds)
+      ]);
+
+      if (checklistResult.error) throw checklistResult.error;
+      if (sopsResult.error) throw sopsResult.error;
+
+      checklistItems = checklistResult.data || [];
+      sopLinks = sopsResult.data || [];
+    }
+
+    const dates = tasks
+      .flatMap(task => [task.start_date, task.finish_date])
+      .filter((date): date is string => !!date)
+      .map(date => parseISO(date));
+    const kickoff = dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : null;
+    const toOffset = (date: string | null) =>
+      date && kickoff ? differenceInCalendarDays(parseISO(date), kickoff) : null;
+
+    const { data: template, error: templateError } = await supabase
+      .from('board_templates')
+      .insert([{
+        name: details.name,
+        description: details.description,
+        access_level: details.access_level,
+        system_id: details.access_level === 'system' ? details.system_id : null,
+        agency_id: details.access_level === 'agency' ? details.agency_id : null,
+        client_id: details.access_level === 'client' ? details.client_id : null,
+        columns: columns.map(({ name, key, color, icon, category }) => ({ name, key, color, icon, category })),
+        created_by: userId || null
+      }])
+      .select()
+      .single();
+
+    if (templateError) {
+      logApiCall('board_templates.insert', false, { error: templateError });
+      throw templateError;
+    }
+
+    if (tasks.length > 0) {
+      const { error: tasksError } = await supabase
+        .from('board_template_tasks')
+        .insert(tasks.map((task, index) => ({
+          template_id: template.id,
+          title: task.title,
+          description: task.description,
+          // Finished work starts over when the template is applied
+          status: task.status_category === 'completed' ? startStatus : task.status,
+          priority: task.priority,
+          start_offset_days: toOffset(task.start_date),
+          finish_offset_days: toOffset(task.finish_date),
+          estimated_hours: task.estimated_hours,
+          estimated_cost: task.estimated_cost,
+          checklist: buildChecklistSnapshot(checklistItems.filter(item => item.task_id === task.id)),
+          sop_ids: sopLinks.filter(link => link.task_id === task.id).map(link => link.sop_id),
+          position: index
+        })));
+
+      if (tasksError) {
+        logApiCall('board_template_tasks.insert', false, { error: tasksError });
+        // Don't leave a template behind without its tasks
+        await supabase.from('board_templates').delete().eq('id', template.id);
+        throw tasksError;
+      }
+    }
+
+    logApiCall('board_templates.insert', true, { taskCount: tasks.length });
+
+    return template as BoardTemplate;
+  } catch (err) {
+    console.error('Error creating board template:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error creating board template',
+      { error: err, boardId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Update a template's name or description
+ */
+export async function updateBoardTemplate(templateId: string, updates: Partial<Pick<BoardTemplate, 'name' | 'description'>>) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Updating board template',
+      { templateId, updates }
+    );
+
+    const { error } = await supabase
+      .from('board_templates')
+      .update(updates)
+      .eq('id', templateId);
+
+    if (error) {
+      logApiCall('board_templates.update', false, { error });
+      throw error;
+    }
+
+    logApiCall('board_templates.update', true, {});
+
+    return true;
+  } catch (err) {
+    console.error('Error updating board template:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error updating board template',
+      { error: err, templateId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Delete a template and its tasks
+ */
+export async function deleteBoardTemplate(templateId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Deleting board template',
+      { templateId }
+    );
+
+    const { error } = await supabase
+      .from('board_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      logApiCall('board_templates.delete', false, { error });
+      throw error;
+    }
+
+    logApiCall('board_templates.delete', true, {});
+
+    return true;
+  } catch (err) {
+    console.error('Error deleting board template:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error deleting board template',
+      { error: err, templateId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Update a single task of a template
+ */
+export async function updateTemplateTask(
+  templateTaskId: string,
+  updates: Partial<Pick<BoardTemplateTask, 'title' | 'priority' | 'start_offset_days' | 'finish_offset_days' | 'estimated_hours' | 'estimated_cost'>>
+) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Updating template task',
+      { templateTaskId, updates }
+    );
+
+    const { error } = await supabase
+      .from('board_template_tasks')
+      .update(updates)
+      .eq('id', templateTaskId);
+
+    if (error) {
+      logApiCall('board_template_tasks.update', false, { error });
+      throw error;
+    }
+
+    logApiCall('board_template_tasks.update', true, {});
+
+    return true;
+  } catch (err) {
+    console.error('Error updating template task:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error updating template task',
+      { error: err, templateTaskId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Remove a task from a template
+ */
+export async function deleteTemplateTask(templateTaskId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Deleting template task',
+      { templateTaskId }
+    );
+
+    const { error } = await supabase
+      .from('board_template_tasks')
+      .delete()
+      .eq('id', templateTaskId);
+
+    if (error) {
+      logApiCall('board_template_tasks.delete', false, { error });
+      throw error;
+    }
+
+    logApiCall('board_template_tasks.delete', true, {});
+
+    return true;
+  } catch (err) {
+    console.error('Error deleting template task:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error deleting template task',
+      { error: err, templateTaskId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Build a new board for a client from a template, with task dates anchored to the kickoff date.
+ * Returns the ID of the new board.
+ */
+export async function applyBoardTemplate(
+  templateId: string,
+  clientId: string,
+  kickoffDate: string,
+  options: { boardName?: string; isDefault?: boolean } = {}
+): Promise<string> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Applying board template',
+      { templateId, clientId, kickoffDate, ...options }
+    );
+
+    const { data, error } = await supabase.rpc('apply_board_template', {
+      p_template_id: templateId,
+      p_client_id: clientId,
+      p_kickoff_date: kickoffDate,
+      p_board_name: options.boardName || null,
+      p_is_default: options.isDefault || false
+    });
+
+    if (error) {
+      logApiCall('apply_board_template', false, { error });
+      throw error;
+    }
+
+    logApiCall('apply_board_template', true, { boardId: data });
+
+    return data;
+  } catch (err) {
+    console.error('Error applying board template:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error applying board template',
+      { error: err, templateId, clientId }
+    );
+    throw err;
+  }
+}
@@ -0,0 +1,148 @@
+import { supabase } from '../supabase';
+import { TimeLock, TimeLockOverride } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { readThrough } from '../syncQueue';
+
+/**
+ * Fetch an agency's lock date and who last moved it
+ */
+export async function fetchAgencyTimeLock(agencyId: string): Promise<TimeLock> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching agency time lock',
+      { agencyId }
+    );
+
+    const { data, error } = await supabase
+      .from('agencies')
+      .select('time_lock_date, time_lock_set_by, time_lock_set_at')
+      .eq('id', agencyId)
+      .single();
+
+    if (error) {
+      logApiCall('agencies.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('agencies.select', true, { agencyId, lockDate: data?.time_lock_date });
+
+    return data as TimeLock;
+  } catch (err) {
+    console.error('Error fetching agency time lock:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching agency time lock',
+      { error: err, agencyId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Lock an agency's time up to and including a day (yyyy-MM-dd), or unlock it all with null
+ */
+export async function setTimeLockDate(agencyId: string, lockDate: string | null) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Setting time lock date',
+      { agencyId, lockDate }
+    );
+
+    const { error } = await supabase.rpc('set_time_lock_date', {
+      p_agency_id: agencyId,
+      p_lock_date: lockDate
+    });
+
+    if (error) {
+      logApiCall('set_time_lock_date', false, { error });
+      throw error;
+    }
+
+    logApiCall('set_time_lock_date', true, { agencyId, lockDate });
+  } catch (err) {
+    console.error('Error setting time lock date:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error setting time lock date',
+      { error: err, agencyId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch the changes system admins made to an agency's locked time, newest first
+ */
+export async function fetchTimeLockOverrides(agencyId: string): Promise<TimeLockOverride[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching time lock overrides',
+      { agencyId }
+    );
+
+    const { data, error } = await supabase.rpc('get_time_lock_overrides', { p_agency_id: agencyId });
+
+    if (error) {
+      logApiCall('get_time_lock_overrides', false, { error });
+      throw error;
+    }
+
+    logApiCall('get_time_lock_overrides', true, { count: data?.length });
+
+    return (data || []) as TimeLockOverride[];
+  } catch (err) {
+    console.error('Error fetching time lock overrides:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching time lock overrides',
+      { error: err, agencyId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * The lock date (yyyy-MM-dd) that applies to a task's time, or null if none of it is locked
+ */
+export async function fetchTimeLockDate(taskId: string): Promise<string | null> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching time lock date',
+      { taskId }
+    );
+
+    const { data, error } = await readThrough(
+      `time-lock:${taskId}`,
+      supabase.rpc('get_time_lock_date', { p_task_id: taskId })
+    );
+
+    if (error) {
+      logApiCall('get_time_lock_date', false, { error });
+      throw error;
+    }
+
+    logApiCall('get_time_lock_date', true, { taskId, lockDate: data });
+
+    return (data as string | null) || null;
+  } catch (err) {
+    console.error('Error fetching time lock date:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching time lock date',
+      { error: err, taskId }
+    );
+    throw err;
+  }
+}
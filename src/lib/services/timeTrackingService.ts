@@ -0,0 +1,130 @@
+import { supabase } from '../supabase';
+import { RunningTimer } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { readThrough } from '../syncQueue';
+
+/**
+ * Start the current user's timer on a task
+ */
+export async function startTimeTracking(taskId: string, description = '') {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Starting timer',
+      { taskId }
+    );
+
+    const { error } = await supabase.rpc('start_time_tracking', {
+      p_task_id: taskId,
+      p_description: description
+    });
+
+    if (error) {
+      logApiCall('start_time_tracking', false, { error });
+      throw error;
+    }
+
+    logApiCall('start_time_tracking', true, { taskId });
+  } catch (err) {
+    console.error('Error starting timer:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error starting timer',
+      { error: err, taskId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch the current user's running timer, or null if none is running
+ */
+export async function fetchRunningTimeEntry(userId: string): Promise<RunningTimer | null> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Checking for running timer',
+      { userId }
+    );
+
+    const { data, error } = await readThrough(
+      `running-timer:${userId}`,
+      supabase.rpc('get_running_time_entry', { p_user_id: userId })
+    );
+
+    if (error) {
+      logApiCall('get_running_time_entry', false, { error });
+      throw error;
+    }
+
+    const entry = (data as Omit<RunningTimer, 'task_key'>[] | null)?.[0];
+    if (!entry) {
+      logApiCall('get_running_time_entry', true, { running: false });
+      return null;
+    }
+
+    // The header links to the task by its key
+    const { data: task } = await readThrough(
+      `task-key:${entry.task_id}`,
+      supabase.from('tasks').select('task_key').eq('id', entry.task_id).maybeSingle()
+    );
+
+    logApiCall('get_running_time_entry', true, { entryId: entry.id, taskId: entry.task_id });
+
+    return {
+      id: entry.id,
+      task_id: entry.task_id,
+      task_title: entry.task_title,
+      task_key: task?.task_key || null,
+      start_time: entry.start_time,
+      description: entry.description || null
+    };
+  } catch (err) {
+    console.error('Error checking running timer:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error checking running timer',
+      { error: err, userId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Stop a running timer now
+ */
+export async function stopTimeTracking(entryId: string, description: string | null) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Stopping timer',
+      { entryId }
+    );
+
+    const { error } = await supabase.rpc('stop_time_tracking', {
+      p_entry_id: entryId,
+      p_description: description
+    });
+
+    if (error) {
+      logApiCall('stop_time_tracking', false, { error });
+      throw error;
+    }
+
+    logApiCall('stop_time_tracking', true, { entryId });
+  } catch (err) {
+    console.error('Error stopping timer:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error stopping timer',
+      { error: err, entryId }
+    );
+    throw err;
+  }
+}
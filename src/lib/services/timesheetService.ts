@@ -0,0 +1,494 @@
+import { supabase } from '../supabase';
+import { Timesheet, TimesheetReview } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+import { TimesheetEntry, TimesheetTaskInfo, getWeekRange } from '../timesheets';
+
+const TASK_INFO_SELECT = 'id, task_key, title, client:clients(name)';
+
+type TaskInfoRow = { id: string; task_key: string | null; title: string; client: { name: string } | null };
+
+const toTaskInfo = (task: TaskInfoRow): TimesheetTaskInfo => ({
+  id: task.id,
+  task_key: task.task_key,
+  title: task.title,
+  client_name: task.client?.name || null
+});
+
+/**
+ * Fetch a user's timesheet for the week starting on a Monday (yyyy-MM-dd), or null if there is none yet
+ */
+export async function fetchTimesheet(userId: string, weekStart: string): Promise<Timesheet | null> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching timesheet',
+      { userId, weekStart }
+    );
+
+    const { data, error } = await supabase
+      .from('timesheets')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('week_start', weekStart)
+      .maybeSingle();
+
+    if (error) {
+      logApiCall('timesheets.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('timesheets.select', true, { found: !!data });
+
+    return data as Timesheet | null;
+  } catch (err) {
+    console.error('Error fetching timesheet:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching timesheet',
+      { error: err, userId, weekStart }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch a user's time between two moments, with the task each entry is on
+ */
+export async function fetchTimesheetEntries(userId: string, startsAt: string, endsAt: string): Promise<TimesheetEntry[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching timesheet entries',
+      { userId, startsAt, endsAt }
+    );
+
+    const { data, error } = await supabase
+      .from('task_time_entries')
+      .select(`task_id, start_time, end_time, timesheet_id, task:tasks(${TASK_INFO_SELECT})`)
+      .eq('user_id', userId)
+      .gte('start_time', startsAt)
+      .lt('start_time', endsAt)
+      .order('start_time');
+
+    if (error) {
+      logApiCall('task_time_entries.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('task_time_entries.select', true, { count: data?.length });
+
+    return (data || []).map(entry => ({
+      ...entry,
+      task: toTaskInfo(entry.task as unknown as TaskInfoRow)
+    })) as TimesheetEntry[];
+  } catch (err) {
+    console.error('Error fetching timesheet entries:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching timesheet entries',
+      { error: err, userId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch the tasks pinned to a timesheet, in the order they were added
+ */
+export async function fetchTimesheetTasks(timesheetId: string): Promise<TimesheetTaskInfo[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching timesheet tasks',
+      { timesheetId }
+    );
+
+    const { data, error } = await supabase
+      .from('timesheet_tasks')
+      .select(`task:tasks(${TASK_INFO_SELECT})`)
+      .eq('timesheet_id', timesheetId)
+      .order('created_at');
+
+    if (error) {
+      logApiCall('timesheet_tasks.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('timesheet_tasks.select', true, { count: data?.length });
+
+    return (data || [])
+      .filter(row => row.task)
+      .map(row => toTaskInfo(row.task as unknown as TaskInfoRow));
+  } catch (err) {
+    console.error('Error fetching timesheet tasks:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching timesheet tasks',
+      { error: err, timesheetId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * The current user's timesheet for the week starting on a Monday, created if it doesn't exist yet
+ */
+export async function ensureTimesheet(weekStart: Date): Promise<string> {
+  const range = getWeekRange(weekStart);
+
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Ensuring timesheet',
+      range
+    );
+
+    const { data, error } = await supabase.rpc('ensure_timesheet', {
+      p_week_start: range.weekStart,
+      p_starts_at: range.startsAt,
+      p_ends_at: range.endsAt
+    });
+
+    if (error) {
+      logApiCall('ensure_timesheet', false, { error });
+      throw error;
+    }
+
+    logApiCall('ensure_timesheet', true, { timesheetId: data });
+
+    return data as string;
+  } catch (err) {
+    console.error('Error ensuring timesheet:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error ensuring timesheet',
+      { error: err, weekStart: range.weekStart }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Pin a task to a week's grid
+ */
+export async function addTimesheetTask(timesheetId: string, taskId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Adding timesheet task',
+      { timesheetId, taskId }
+    );
+
+    const { error } = await supabase.rpc('add_timesheet_task', {
+      p_timesheet_id: timesheetId,
+      p_task_id: taskId
+    });
+
+    if (error) {
+      logApiCall('add_timesheet_task', false, { error });
+      throw error;
+    }
+
+    logApiCall('add_timesheet_task', true, { timesheetId, taskId });
+  } catch (err) {
+    console.error('Error adding timesheet task:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error adding timesheet task',
+      { error: err, timesheetId, taskId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Unpin a task from a week's grid
+ */
+export async function removeTimesheetTask(timesheetId: string, taskId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Removing timesheet task',
+      { timesheetId, taskId }
+    );
+
+    const { error } = await supabase.rpc('remove_timesheet_task', {
+      p_timesheet_id: timesheetId,
+      p_task_id: taskId
+    });
+
+    if (error) {
+      logApiCall('remove_timesheet_task', false, { error });
+      throw error;
+    }
+
+    logApiCall('remove_timesheet_task', true, { timesheetId, taskId });
+  } catch (err) {
+    console.error('Error removing timesheet task:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error removing timesheet task',
+      { error: err, timesheetId, taskId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Pin last week's tasks to a timesheet. Returns how many rows were added.
+ */
+export async function copyPreviousTimesheetTasks(timesheetId: string): Promise<number> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Copying last week\'s timesheet rows',
+      { timesheetId }
+    );
+
+    const { data, error } = await supabase.rpc('copy_previous_timesheet_tasks', { p_timesheet_id: timesheetId });
+
+    if (error) {
+      logApiCall('copy_previous_timesheet_tasks', false, { error });
+      throw error;
+    }
+
+    logApiCall('copy_previous_timesheet_tasks', true, { timesheetId, count: data });
+
+    return data as number;
+  } catch (err) {
+    console.error('Error copying last week\'s timesheet rows:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error copying last week\'s timesheet rows',
+      { error: err, timesheetId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Set the hours of a task on a day of the timesheet's week
+ */
+export async function setTimesheetHours(timesheetId: string, taskId: string, day: Date, hours: number) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Setting timesheet hours',
+      { timesheetId, taskId, day, hours }
+    );
+
+    const { error } = await supabase.rpc('set_timesheet_hours', {
+      p_timesheet_id: timesheetId,
+      p_task_id: taskId,
+      p_day_start: day.toISOString(),
+      p_hours: hours
+    });
+
+    if (error) {
+      logApiCall('set_timesheet_hours', false, { error });
+      throw error;
+    }
+
+    logApiCall('set_timesheet_hours', true, { timesheetId, taskId, hours });
+  } catch (err) {
+    console.error('Error setting timesheet hours:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error setting timesheet hours',
+      { error: err, timesheetId, taskId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Send a week for approval
+ */
+export async function submitTimesheet(timesheetId: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Submitting timesheet',
+      { timesheetId }
+    );
+
+    const { error } = await supabase.rpc('submit_timesheet', { p_timesheet_id: timesheetId });
+
+    if (error) {
+      logApiCall('submit_timesheet', false, { error });
+      throw error;
+    }
+
+    logApiCall('submit_timesheet', true, { timesheetId });
+  } catch (err) {
+    console.error('Error submitting timesheet:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error submitting timesheet',
+      { error: err, timesheetId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch the submitted weeks the current user can approve or reject
+ */
+export async function fetchTimesheetsToReview(): Promise<TimesheetReview[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching timesheets to review',
+      {}
+    );
+
+    const { data, error } = await supabase.rpc('get_timesheets_to_review');
+
+    if (error) {
+      logApiCall('get_timesheets_to_review', false, { error });
+      throw error;
+    }
+
+    logApiCall('get_timesheets_to_review', true, { count: data?.length });
+
+    return (data || []) as TimesheetReview[];
+  } catch (err) {
+    console.error('Error fetching timesheets to review:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching timesheets to review',
+      { error: err }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Approve a submitted week, which makes its time read-only for good
+ */
+export async function approveTimesheet(timesheetId: string, comment: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Approving timesheet',
+      { timesheetId }
+    );
+
+    const { error } = await supabase.rpc('approve_timesheet', {
+      p_timesheet_id: timesheetId,
+      p_comment: comment
+    });
+
+    if (error) {
+      logApiCall('approve_timesheet', false, { error });
+      throw error;
+    }
+
+    logApiCall('approve_timesheet', true, { timesheetId });
+  } catch (err) {
+    console.error('Error approving timesheet:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error approving timesheet',
+      { error: err, timesheetId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Send a submitted week back to its owner with the reason
+ */
+export async function rejectTimesheet(timesheetId: string, comment: string) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Rejecting timesheet',
+      { timesheetId }
+    );
+
+    const { error } = await supabase.rpc('reject_timesheet', {
+      p_timesheet_id: timesheetId,
+      p_comment: comment
+    });
+
+    if (error) {
+      logApiCall('reject_timesheet', false, { error });
+      throw error;
+    }
+
+    logApiCall('reject_timesheet', true, { timesheetId });
+  } catch (err) {
+    console.error('Error rejecting timesheet:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error rejecting timesheet',
+      { error: err, timesheetId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch the approved weeks of some users, to tell approved time apart
+ */
+export async function fetchApprovedWeeks(userIds: string[]): Promise<Pick<Timesheet, 'user_id' | 'starts_at' | 'ends_at'>[]> {
+  if (userIds.length === 0) return [];
+
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching approved weeks',
+      { count: userIds.length }
+    );
+
+    const { data, error } = await supabase
+      .from('timesheets')
+      .select('user_id, starts_at, ends_at')
+      .eq('status', 'approved')
+      .in('user_id', userIds);
+
+    if (error) {
+      logApiCall('timesheets.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('timesheets.select', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching approved weeks:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching approved weeks',
+      { error: err }
+    );
+    throw err;
+  }
+}
@@ -0,0 +1,151 @@
+import { supabase } from '../supabase';
+import { Task } from '../types';
+import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../debugSystem';
+
+export type TrashedTask = Task & { board?: { name: string } | null };
+
+/**
+ * Fetch a client's trashed tasks, most recently deleted first
+ */
+export async function fetchTrashedTasks(clientId: string): Promise<TrashedTask[]> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching trashed tasks',
+      { clientId }
+    );
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*, board:boards(name)')
+      .eq('client_id', clientId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false });
+
+    if (error) {
+      logApiCall('tasks.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('tasks.select', true, { count: data?.length });
+
+    return data || [];
+  } catch (err) {
+    console.error('Error fetching trashed tasks:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching trashed tasks',
+      { error: err, clientId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Restore trashed tasks, with the subtasks that were trashed along with them
+ */
+export async function restoreTasks(taskIds: string[]) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Restoring tasks',
+      { count: taskIds.length }
+    );
+
+    const { error } = await supabase.rpc('restore_tasks', {
+      p_task_ids: taskIds
+    });
+
+    if (error) {
+      logApiCall('restore_tasks', false, { error });
+      throw error;
+    }
+
+    logApiCall('restore_tasks', true, { count: taskIds.length });
+  } catch (err) {
+    console.error('Error restoring tasks:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error restoring tasks',
+      { error: err, taskIds }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Fetch how many days a client keeps trashed tasks; null keeps them until restored
+ */
+export async function fetchTrashRetention(clientId: string): Promise<number | null> {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Fetching trash retention',
+      { clientId }
+    );
+
+    const { data, error } = await supabase
+      .from('clients')
+      .select('trash_retention_days')
+      .eq('id', clientId)
+      .single();
+
+    if (error) {
+      logApiCall('clients.select', false, { error });
+      throw error;
+    }
+
+    logApiCall('clients.select', true, {});
+
+    return data?.trash_retention_days ?? null;
+  } catch (err) {
+    console.error('Error fetching trash retention:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error fetching trash retention',
+      { error: err, clientId }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Set how many days a client keeps trashed tasks before they are purged
+ */
+export async function updateTrashRetention(clientId: string, days: number | null) {
+  try {
+    logDebugEvent(
+      DebugLevel.INFO,
+      DebugEventType.API_CALL,
+      'Updating trash retention',
+      { clientId, days }
+    );
+
+    const { error } = await supabase
+      .from('clients')
+      .update({ trash_retention_days: days })
+      .eq('id', clientId);
+
+    if (error) {
+      logApiCall('clients.update', false, { error });
+      throw error;
+    }
+
+    logApiCall('clients.update', true, { days });
+  } catch (err) {
+    console.error('Error updating trash retention:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error updating trash retention',
+      { error: err, clientId, days }
+    );
+    throw err;
+  }
+}
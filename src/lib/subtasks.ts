@@ -0,0 +1,68 @@
+import { BoardColumn, Task } from './types';
+import { isTaskCompleted } from './workflow';
+
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+}
+
+export interface TaskRollup {
+  estimatedHours: number;
+  estimatedCost: number;
+  loggedHours: number;
+}
+
+export function getSubtasks(tasks: Task[], parentId: string): Task[] {
+  return tasks
+    .filter(task => task.parent_task_id === parentId)
+    .sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Completed and total subtask counts, keyed by parent task id
+ */
+export function getSubtaskProgress(tasks: Task[], columns?: BoardColumn[]): Record<string, SubtaskProgress> {
+  const progress: Record<string, SubtaskProgress> = {};
+
+  tasks.forEach(task => {
+    if (!task.parent_task_id) return;
+
+    const parentProgress = progress[task.parent_task_id] || { completed: 0, total: 0 };
+    parentProgress.total += 1;
+    if (isTaskCompleted(task, columns)) {
+      parentProgress.completed += 1;
+    }
+    progress[task.parent_task_id] = parentProgress;
+  });
+
+  return progress;
+}
+
+/**
+ * Add a task's subtasks to its own estimates and logged time. `loggedHours` is keyed by task id.
+ */
+export function getTaskRollup(task: Task, subtasks: Task[], loggedHours: Record<string, number>): TaskRollup {
+  return [task, ...subtasks].reduce<TaskRollup>((rollup, current) => ({
+    estimatedHours: rollup.estimatedHours + (current.estimated_hours || 0),
+    estimatedCost: rollup.estimatedCost + (current.estimated_cost || 0),
+    loggedHours: rollup.loggedHours + (loggedHours[current.id] || 0)
+  }), { estimatedHours: 0, estimatedCost: 0, loggedHours: 0 });
+}
+
+/**
+ * Place each subtask directly under its parent, keeping the given order within both levels.
+ * Subtasks whose parent isn't in the list (e.g. filtered out) stay at the top level.
+ */
+export function nestSubtasks(tasks: Task[]): { task: Task; isSubtask: boolean }[] {
+  const listedIds = new Set(tasks.map(task => task.id));
+  const isNested = (task: Task) => !!task.parent_task_id && listedIds.has(task.parent_task_id);
+
+  return tasks
+    .filter(task => !isNested(task))
+    .flatMap(task => [
+      { task, isSubtask: !!task.parent_task_id },
+      ...tasks
+        .filter(child => child.parent_task_id === task.id)
+        .map(child => ({ task: child, isSubtask: true }))
+    ]);
+}
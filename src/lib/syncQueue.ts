@@ -0,0 +1,344 @@
+import { create } from 'zustand';
+import { supabase } from './supabase';
+import { useAuthStore } from './store';
+import { getCached, putCached, listQueued, putQueued, deleteQueued } from './offlineDb';
+import { logDebugEvent, DebugLevel, DebugEventType } from './debugSystem';
+import { onBackgroundSync, requestBackgroundSync } from './pwa';
+
+// How often the queue is retried while changes are waiting, on top of the browser's online event
+const RETRY_INTERVAL_MS = 30000;
+// Attempts before a change that the server keeps rejecting is set aside for the user to look at
+const MAX_ATTEMPTS = 5;
+
+type Row = Record<string, unknown>;
+
+// A write as it will be sent to the server. Inserts carry their own id so replaying one twice is harmless.
+export type QueuedMutation =
+  | { kind: 'insert'; table: string; values: Row & { id: string } }
+  | { kind: 'update'; table: string; id: string; values: Row; baseVersion?: number }
+  | { kind: 'delete'; table: string; id: string }
+  | { kind: 'rpc'; fn: string; params: Row };
+
+export type QueuedChangeStatus = 'pending' | 'conflict' | 'failed';
+
+export interface QueuedChange {
+  id: string;
+  userId: string;
+  label: string;
+  mutation: QueuedMutation;
+  createdAt: string;
+  attempts: number;
+  status: QueuedChangeStatus;
+  lastError: string | null;
+}
+
+interface SyncStatusState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  changes: QueuedChange[];
+  lastSyncedAt: string | null;
+  revision: number; // Bumped when replaying or discarding changes may have changed what's on screen
+}
+
+// The queued change replayQueue is sending right now, which mustn't be merged into
+let sendingChangeId: string | null = null;
+
+export const useSyncStatus = create<SyncStatusState>(() => ({
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  isSyncing: false,
+  changes: [],
+  lastSyncedAt: null,
+  revision: 0
+}));
+
+/**
+ * Whether an error means the server couldn't be reached, rather than that it refused the change.
+ * supabase-js reports a failed fetch as an error object carrying the TypeError's message.
+ */
+export function isNetworkError(error: unknown) {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+
+  const message = error && typeof error === 'object' && 'message' in error ? String(error.message) : '';
+  return /Failed to fetch|NetworkError|Load failed/i.test(message);
+}
+
+function errorMessage(error: unknown) {
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return 'An error occurred';
+}
+
+function currentUserId(): string | null {
+  return useAuthStore.getState().user?.id || null;
+}
+
+function setChanges(update: (changes: QueuedChange[]) => QueuedChange[]) {
+  useSyncStatus.setState(state => ({ changes: update(state.changes) }));
+}
+
+function touchesRow(mutation: QueuedMutation, table: string, id: string) {
+  if (mutation.kind === 'rpc') return false;
+  const rowId = mutation.kind === 'insert' ? mutation.values.id : mutation.id;
+  return mutation.table === table && rowId === id;
+}
+
+async function send(mutation: QueuedMutation): Promise<{ data: unknown; error: unknown; conflict?: boolean }> {
+  switch (mutation.kind) {
+    case 'insert': {
+      const { data, error } = await supabase.from(mutation.table).upsert(mutation.values).select();
+      return { data: data?.[0] ?? null, error };
+    }
+    case 'update': {
+      let query = supabase.from(mutation.table).update(mutation.values).eq('id', mutation.id);
+      if (mutation.baseVersion !== undefined) {
+        query = query.eq('version', mutation.baseVersion);
+      }
+      const { data, error } = await query.select('id');
+      return { data: null, error, conflict: !error && mutation.baseVersion !== undefined && !data?.length };
+    }
+    case 'delete': {
+      const { error } = await supabase.from(mutation.table).delete().eq('id', mutation.id);
+      return { data: null, error };
+    }
+    case 'rpc': {
+      const { data, error } = await supabase.rpc(mutation.fn, mutation.params);
+      return { data, error };
+    }
+  }
+}
+
+async function enqueue(mutation: QueuedMutation, label: string, userId: string) {
+  const { changes } = useSyncStatus.getState();
+
+  // Several edits of the same row while offline go out as one, e.g. a card dragged twice
+  if (mutation.kind === 'update') {
+    const latest = [...changes].reverse().find(change => touchesRow(change.mutation, mutation.table, mutation.id));
+    if (latest?.status === 'pending' && latest.id !== sendingChangeId && (latest.mutation.kind === 'update' || latest.mutation.kind === 'insert')) {
+      const merged: QueuedChange = {
+        ...latest,
+        label,
+        mutation: { ...latest.mutation, values: { ...latest.mutation.values, ...mutation.values } } as QueuedMutation
+      };
+      await putQueued(merged);
+      setChanges(current => current.map(change => change.id === merged.id ? merged : change));
+      return;
+    }
+  }
+
+  const change: QueuedChange = {
+    id: crypto.randomUUID(),
+    userId,
+    label,
+    mutation,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    status: 'pending',
+    lastError: null
+  };
+  await putQueued(change);
+  setChanges(current => [...current, change]);
+  requestBackgroundSync();
+
+  logDebugEvent(
+    DebugLevel.INFO,
+    DebugEventType.API_CALL,
+    'Queued change for when back online',
+    { label, mutation }
+  );
+}
+
+/**
+ * Send a change to the server, or queue it if the server can't be reached. Changes are also
+ * queued while earlier ones are still waiting, so they reach the server in the order they were made.
+ * `error` is only set when the server refused the change.
+ */
+export async function mutate(mutation: QueuedMutation, label: string): Promise<{ data: unknown; error: unknown; queued: boolean }> {
+  const userId = currentUserId();
+  // Only replayed changes are checked against a version; live edits go straight through as before
+  const live = mutation.kind === 'update' ? { ...mutation, baseVersion: undefined } : mutation;
+
+  if (!userId) {
+    const { data, error } = await send(live);
+    return { data, error, queued: false };
+  }
+
+  const hasPending = useSyncStatus.getState().changes.some(change => change.userId === userId && change.status === 'pending');
+  if (!hasPending) {
+    const { data, error } = await send(live);
+    if (!error) {
+      useSyncStatus.setState({ isOnline: true });
+      return { data, error: null, queued: false };
+    }
+    if (!isNetworkError(error)) {
+      return { data: null, error, queued: false };
+    }
+    useSyncStatus.setState({ isOnline: false });
+  }
+
+  await enqueue(mutation, label, userId);
+  if (hasPending) {
+    replayQueue();
+  }
+  return { data: null, error: null, queued: true };
+}
+
+/**
+ * Send queued changes of the signed-in user in order. Stops at the first one that can't reach the
+ * server; changes the server refuses are retried up to MAX_ATTEMPTS times, and a change to a task
+ * someone else has saved since is held back as a conflict.
+ */
+export async function replayQueue() {
+  const userId = currentUserId();
+  if (!userId || useSyncStatus.getState().isSyncing) return;
+
+  // Changes queued while replaying are picked up in the same run
+  const attempted = new Set<string>();
+  const nextPending = () => useSyncStatus.getState().changes.find(change =>
+    change.userId === userId && change.status === 'pending' && !attempted.has(change.id)
+  );
+  if (!nextPending()) return;
+
+  useSyncStatus.setState({ isSyncing: true });
+  let applied = 0;
+
+  try {
+    for (;;) {
+      const change = nextPending();
+      if (!change) break;
+      attempted.add(change.id);
+      sendingChangeId = change.id;
+      const { error, conflict } = await send(change.mutation);
+
+      if (!error && !conflict) {
+        await deleteQueued(change.id);
+        setChanges(current => current.filter(queued => queued.id !== change.id));
+        applied++;
+        continue;
+      }
+
+      if (error && isNetworkError(error)) {
+        useSyncStatus.setState({ isOnline: false });
+        break;
+      }
+
+      const attempts = change.attempts + 1;
+      const updated: QueuedChange = {
+        ...change,
+        attempts,
+        status: conflict ? 'conflict' : attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        lastError: conflict ? 'Someone else changed this task while you were offline' : errorMessage(error)
+      };
+      await putQueued(updated);
+      setChanges(current => current.map(queued => queued.id === change.id ? updated : queued));
+
+      logDebugEvent(
+        DebugLevel.WARNING,
+        DebugEventType.API_CALL,
+        'Queued change was not applied',
+        { label: change.label, status: updated.status, error }
+      );
+    }
+
+    if (applied > 0) {
+      useSyncStatus.setState(state => ({
+        isOnline: true,
+        lastSyncedAt: new Date().toISOString(),
+        revision: state.revision + 1
+      }));
+    }
+  } catch (err) {
+    console.error('Error replaying queued changes:', err);
+    logDebugEvent(
+      DebugLevel.ERROR,
+      DebugEventType.API_CALL,
+      'Error replaying queued changes',
+      { error: err }
+    );
+  } finally {
+    sendingChangeId = null;
+    useSyncStatus.setState({ isSyncing: false });
+  }
+}
+
+/**
+ * Drop a queued change without sending it
+ */
+export async function discardChange(changeId: string) {
+  await deleteQueued(changeId);
+  setChanges(current => current.filter(change => change.id !== changeId));
+  useSyncStatus.setState(state => ({ revision: state.revision + 1 }));
+}
+
+/**
+ * Put a conflicting or failed change back in the queue. With `force`, a conflicting update
+ * overwrites whatever was saved since.
+ */
+export async function retryChange(changeId: string, { force = false } = {}) {
+  const change = useSyncStatus.getState().changes.find(queued => queued.id === changeId);
+  if (!change) return;
+
+  const mutation = force && change.mutation.kind === 'update'
+    ? { ...change.mutation, baseVersion: undefined }
+    : change.mutation;
+  const updated: QueuedChange = { ...change, mutation, status: 'pending', attempts: 0, lastError: null };
+
+  await putQueued(updated);
+  setChanges(current => current.map(queued => queued.id === changeId ? updated : queued));
+  await replayQueue();
+}
+
+/**
+ * Run a read and keep a copy of what it returned, so the same read can be answered from that copy
+ * while offline. Takes and returns a supabase response, so callers check `error` as usual.
+ */
+export async function readThrough<R extends { data: unknown; error: unknown }>(key: string, query: PromiseLike<R>): Promise<R> {
+  const response = await query;
+
+  if (!response.error) {
+    putCached(key, response.data).catch(err => console.error('Error caching response:', err));
+    return response;
+  }
+
+  if (!isNetworkError(response.error)) return response;
+
+  useSyncStatus.setState({ isOnline: false });
+  const cached = await getCached<R['data']>(key).catch(() => undefined);
+  return cached ? { ...response, data: cached.value, error: null } : response;
+}
+
+async function loadQueue() {
+  const changes = await listQueued<QueuedChange>();
+  changes.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  useSyncStatus.setState({ changes });
+}
+
+/**
+ * Load queued changes and replay them whenever the connection comes back. Returns a cleanup function.
+ */
+export function startOfflineSync() {
+  const handleOnline = () => {
+    useSyncStatus.setState({ isOnline: true });
+    replayQueue();
+  };
+  const handleOffline = () => useSyncStatus.setState({ isOnline: false });
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+
+  loadQueue()
+    .then(() => replayQueue())
+    .catch(err => console.error('Error loading queued changes:', err));
+
+  const interval = window.setInterval(() => {
+    if (navigator.onLine) replayQueue();
+  }, RETRY_INTERVAL_MS);
+
+  const stopBackgroundSync = onBackgroundSync(handleOnline);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    clearInterval(interval);
+    stopBackgroundSync();
+  };
+}
@@ -0,0 +1,84 @@
+// A task key such as ACME-142: the client's prefix and the task's number
+export const TASK_KEY_PATTERN = /^[A-Z][A-Z0-9]{1,9}-\d+$/;
+
+// A `#ACME-142` reference in free text; not part of a longer word or path
+const TASK_REFERENCE_PATTERN = /(?<![\w/#])#([A-Z][A-Z0-9]{1,9}-\d+)\b/g;
+
+export function isTaskKey(value: string): boolean {
+  return TASK_KEY_PATTERN.test(value.toUpperCase());
+}
+
+/**
+ * App path that opens a task by its key
+ */
+export function getTaskKeyPath(taskKey: string): string {
+  return `/tasks?task=${encodeURIComponent(taskKey)}`;
+}
+
+/**
+ * Title prefixed with the key, for places that only show one line such as email subjects
+ */
+export function formatTaskTitle(title: string, taskKey?: string | null): string {
+  return taskKey ? `[${taskKey}] ${title}` : title;
+}
+
+/**
+ * Split text into plain parts and `#KEY` references, in order
+ */
+export function splitTaskReferences(text: string): { text: string; taskKey?: string }[] {
+  const parts: { text: string; taskKey?: string }[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TASK_REFERENCE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, index) });
+    }
+    parts.push({ text: match[0], taskKey: match[1] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex) });
+  }
+
+  return parts;
+}
+
+/**
+ * Turn `#KEY` references in rendered HTML into links, leaving existing links and code alone
+ */
+export function linkTaskReferencesInHtml(html: string): string {
+  if (!html || !html.includes('#')) return html;
+
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    if (!node.parentElement?.closest('a, code, pre')) {
+      textNodes.push(node);
+    }
+  }
+
+  textNodes.forEach(node => {
+    const parts = splitTaskReferences(node.data);
+    if (!parts.some(part => part.taskKey)) return;
+
+    const fragment = doc.createDocumentFragment();
+    parts.forEach(part => {
+      if (part.taskKey) {
+        const link = doc.createElement('a');
+        link.href = getTaskKeyPath(part.taskKey);
+        link.textContent = part.text;
+        fragment.appendChild(link);
+      } else {
+        fragment.appendChild(doc.createTextNode(part.text));
+      }
+    });
+    node.replaceWith(fragment);
+  });
+
+  return doc.body.innerHTML;
+}
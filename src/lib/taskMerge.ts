@@ -0,0 +1,73 @@
+import { format } from 'date-fns';
+import { Task } from './types';
+
+// The task fields as edited in the task details form
+export interface TaskFormData {
+  title: string;
+  description: string;
+  status: string;
+  priority: string;
+  assigned_to: string;
+  start_date: string;
+  finish_date: string;
+  estimated_hours: string;
+  estimated_cost: string;
+}
+
+export type TaskFormField = keyof TaskFormData;
+
+// A field both this editor and someone else changed, to different values
+export interface TaskFieldConflict {
+  field: TaskFormField;
+  mine: string;
+  theirs: string;
+}
+
+export const TASK_FORM_FIELD_LABELS: Record<TaskFormField, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  assigned_to: 'Assigned to',
+  start_date: 'Start date',
+  finish_date: 'Finish date',
+  estimated_hours: 'Estimated hours',
+  estimated_cost: 'Estimated cost'
+};
+
+export function taskToFormData(task: Task): TaskFormData {
+  return {
+    title: task.title || '',
+    description: task.description || '',
+    status: task.status || 'inbox',
+    priority: task.priority || 'medium',
+    assigned_to: task.assigned_to || '',
+    start_date: task.start_date ? format(new Date(task.start_date), 'yyyy-MM-dd') : '',
+    finish_date: task.finish_date ? format(new Date(task.finish_date), 'yyyy-MM-dd') : '',
+    estimated_hours: task.estimated_hours?.toString() || '',
+    estimated_cost: task.estimated_cost?.toString() || ''
+  };
+}
+
+/**
+ * Three-way merge of a form against the server copy saved since it was loaded from `base`.
+ * Changes on either side are kept; fields both sides changed differently are conflicts, and
+ * keep this editor's value in `merged` until resolved.
+ */
+export function mergeTaskForms(base: TaskFormData, mine: TaskFormData, theirs: TaskFormData) {
+  const merged = { ...mine };
+  const conflicts: TaskFieldConflict[] = [];
+
+  (Object.keys(base) as TaskFormField[]).forEach(field => {
+    const mineChanged = mine[field] !== base[field];
+    const theirsChanged = theirs[field] !== base[field];
+
+    if (theirsChanged && !mineChanged) {
+      merged[field] = theirs[field];
+    } else if (theirsChanged && mine[field] !== theirs[field]) {
+      conflicts.push({ field, mine: mine[field], theirs: theirs[field] });
+    }
+  });
+
+  return { merged, conflicts };
+}
@@ -0,0 +1,545 @@
+import { addDays, addMonths, addWeeks, isValid, parseISO, startOfDay } from 'date-fns';
+import { BoardColumn, CustomField, Task } from './types';
+import { getStatusCategory, isTaskCompleted, isTaskOverdue } from './workflow';
+import { getCustomFieldFilterValues, formatCustomFieldValue, isEmptyCustomFieldValue } from './customFields';
+import { getOpenBlockers } from './services/dependencyService';
+
+/*
+  Task query language used by the search box of every task view, e.g.
+
+    assignee:me priority:high,medium due:<7d status:!done tag:seo "landing page"
+
+  - `field:value` filters on a field; `field:a,b` matches either value
+  - `-field:value` or `field:!value` excludes matches
+  - `due`, `start`, `estimate` and number/date custom fields take <, <=, >, >= (`due:<7d`, `estimate:>=4`)
+  - Dates are `today`, `tomorrow`, `yesterday`, an offset from today (`7d`, `-2w`, `3m`) or `YYYY-MM-DD`
+  - Anything else is free text matched against the key, title and description; quote phrases
+  - Custom fields are addressed by name in lowercase with underscores, e.g. `client_tier:gold`
+*/
+
+export interface TaskQueryContext {
+  userId?: string;
+  columns?: BoardColumn[];
+  customFields?: CustomField[];
+}
+
+export interface TaskQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedTaskQuery {
+  clauses: { negated: boolean; matches: (task: Task) => boolean }[];
+  errors: TaskQueryError[];
+}
+
+export interface TaskQuerySuggestion {
+  label: string;
+  description?: string;
+  insert: string; // Replaces the text between `start` and `end`
+}
+
+type Comparator = '=' | '<' | '<=' | '>' | '>=';
+
+interface Term {
+  field: string | null; // null for free text
+  negated: boolean;
+  comparator: Comparator;
+  values: string[];
+  start: number;
+  end: number;
+}
+
+interface FieldDefinition {
+  name: string;
+  description: string;
+  comparable?: boolean;
+  suggest: (context: TaskQueryContext, tasks: Task[]) => string[];
+  compile: (value: string, comparator: Comparator, context: TaskQueryContext) => (task: Task) => boolean;
+}
+
+class QueryValueError extends Error {}
+
+const PRIORITY_RANK: Record<Task['priority'], number> = { low: 0, medium: 1, high: 2 };
+const IS_VALUES = ['completed', 'open', 'overdue', 'blocked', 'subtask', 'recurring', 'unassigned'];
+const DATE_SUGGESTIONS = ['today', 'tomorrow', '<7d', '<14d', '<30d', 'none'];
+const MAX_SUGGESTIONS = 8;
+
+function compare(a: number, b: number, comparator: Comparator): boolean {
+  switch (comparator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+    default: return a === b;
+  }
+}
+
+/**
+ * Resolve a date value to the start of its day
+ */
+function parseDateValue(value: string): Date {
+  const today = startOfDay(new Date());
+  if (value === 'today') return today;
+  if (value === 'tomorrow') return addDays(today, 1);
+  if (value === 'yesterday') return addDays(today, -1);
+
+  const offset = value.match(/^(-?\d+)([dwm])$/);
+  if (offset) {
+    const amount = parseInt(offset[1], 10);
+    if (offset[2] === 'w') return addWeeks(today, amount);
+    if (offset[2] === 'm') return addMonths(today, amount);
+    return addDays(today, amount);
+  }
+
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseISO(value) : null;
+  if (!date || !isValid(date)) {
+    throw new QueryValueError(`"${value}" isn't a date. Use today, tomorrow, an offset like 7d, -2w or 3m, or YYYY-MM-DD`);
+  }
+  return date;
+}
+
+function compileDate(getDate: (task: Task) => string | null, value: string, comparator: Comparator) {
+  if (value === 'none') {
+    return (task: Task) => !getDate(task);
+  }
+
+  const target = parseDateValue(value).getTime();
+  return (task: Task) => {
+    const date = getDate(task);
+    return !!date && compare(startOfDay(new Date(date)).getTime(), target, comparator);
+  };
+}
+
+function parseNumberValue(value: string): number {
+  const number = parseFloat(value);
+  if (isNaN(number) || !/^-?\d*\.?\d+$/.test(value)) {
+    throw new QueryValueError(`"${value}" isn't a number`);
+  }
+  return number;
+}
+
+/**
+ * Lowercase name with underscores, used to address statuses and custom fields in queries
+ */
+export function toQueryName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function quoteIfNeeded(value: string): string {
+  return /[\s,"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
+
+const BUILT_IN_FIELDS: FieldDefinition[] = [
+  {
+    name: 'assignee',
+    description: 'me, none or an email',
+    suggest: (_context, tasks) => ['me', 'none', ...unique(tasks.map(task => task.assigned_to_email || ''))],
+    compile: (value, _comparator, context) => {
+      if (value === 'none') return task => !task.assigned_to;
+      if (value === 'me') {
+        if (!context.userId) throw new QueryValueError('assignee:me needs a signed in user');
+        return task => task.assigned_to === context.userId;
+      }
+      return task => !!task.assigned_to_email?.toLowerCase().includes(value);
+    }
+  },
+  {
+    name: 'priority',
+    description: 'low, medium or high',
+    comparable: true,
+    suggest: () => ['high', 'medium', 'low'],
+    compile: (value, comparator) => {
+      if (!(value in PRIORITY_RANK)) {
+        throw new QueryValueError(`Unknown priority "${value}". Use low, medium or high`);
+      }
+      const rank = PRIORITY_RANK[value as Task['priority']];
+      return task => compare(PRIORITY_RANK[task.priority], rank, comparator);
+    }
+  },
+  {
+    name: 'status',
+    description: 'a column or backlog, active, completed',
+    suggest: context => [
+      ...(context.columns || []).map(column => column.key),
+      'backlog',
+      'active',
+      'completed'
+    ],
+    compile: (value, _comparator, context) => {
+      if (['backlog', 'active', 'completed'].includes(value)) {
+        return task => getStatusCategory(task, context.columns) === value;
+      }
+
+      const columns = context.columns || [];
+      const column = columns.find(c => c.key.toLowerCase() === value || toQueryName(c.name) === value);
+      if (column) return task => task.status === column.key;
+      if (columns.length === 0) return task => task.status.toLowerCase() === value;
+
+      throw new QueryValueError(
+        `Unknown status "${value}". Use one of ${[...columns.map(c => c.key), 'backlog', 'active', 'completed'].join(', ')}`
+      );
+    }
+  },
+  {
+    name: 'due',
+    description: 'overdue, none or a date, e.g. <7d',
+    comparable: true,
+    suggest: () => ['overdue', ...DATE_SUGGESTIONS],
+    compile: (value, comparator, context) => {
+      if (value === 'overdue') return task => isTaskOverdue(task, context.columns);
+      return compileDate(task => task.finish_date, value, comparator);
+    }
+  },
+  {
+    name: 'start',
+    description: 'none or a date, e.g. >=today',
+    comparable: true,
+    suggest: () => DATE_SUGGESTIONS,
+    compile: (value, comparator) => compileDate(task => task.start_date, value, comparator)
+  },
+  {
+    name: 'estimate',
+    description: 'estimated hours, e.g. >4',
+    comparable: true,
+    suggest: () => ['none'],
+    compile: (value, comparator) => {
+      if (value === 'none') return task => !task.estimated_hours;
+      const hours = parseNumberValue(value);
+      return task => task.estimated_hours !== null && compare(task.estimated_hours, hours, comparator);
+    }
+  },
+  {
+    name: 'tag',
+    description: 'a tag name',
+    suggest: (_context, tasks) => unique(tasks.flatMap(task => (task.tags || []).map(tag => tag.name.toLowerCase()))),
+    compile: value => task => !!task.tags?.some(tag => tag.name.toLowerCase() === value)
+  },
+  {
+    name: 'is',
+    description: IS_VALUES.join(', '),
+    suggest: () => IS_VALUES,
+    compile: (value, _comparator, context) => {
+      switch (value) {
+        case 'completed': return task => isTaskCompleted(task, context.columns);
+        case 'open': return task => !isTaskCompleted(task, context.columns);
+        case 'overdue': return task => isTaskOverdue(task, context.columns);
+        case 'blocked': return task => getOpenBlockers(task).length > 0;
+        case 'subtask': return task => !!task.parent_task_id;
+        case 'recurring': return task => !!task.recurrence_id;
+        case 'unassigned': return task => !task.assigned_to;
+        default:
+          throw new QueryValueError(`Unknown value "${value}" for is. Use one of ${IS_VALUES.join(', ')}`);
+      }
+    }
+  },
+  {
+    name: 'title',
+    description: 'text in the title',
+    suggest: () => [],
+    compile: value => task => task.title.toLowerCase().includes(value)
+  }
+];
+
+function customFieldDefinition(field: CustomField): FieldDefinition {
+  const isComparable = ['number', 'currency', 'date'].includes(field.field_type);
+
+  return {
+    name: toQueryName(field.name),
+    description: `${field.name} (custom field)`,
+    comparable: isComparable,
+    suggest: (_context, tasks) => {
+      switch (field.field_type) {
+        case 'single_select':
+        case 'multi_select':
+          return field.options.map(option => option.label.toLowerCase());
+        case 'checkbox':
+          return ['yes', 'no'];
+        case 'user':
+          return ['me', 'none', ...unique(tasks.map(task => formatCustomFieldValue(field, task.custom_fields?.[field.id])))];
+        case 'date':
+          return DATE_SUGGESTIONS;
+        default:
+          return ['none'];
+      }
+    },
+    compile: (value, comparator, context) => {
+      const getValue = (task: Task) => task.custom_fields?.[field.id];
+
+      if (value === 'none') return task => isEmptyCustomFieldValue(getValue(task));
+
+      switch (field.field_type) {
+        case 'single_select':
+        case 'multi_select': {
+          const option = field.options.find(o => o.label.toLowerCase() === value || o.id === value);
+          if (!option) {
+            throw new QueryValueError(
+              `Unknown option "${value}" for ${field.name}. Use one of ${field.options.map(o => o.label.toLowerCase()).join(', ')}`
+            );
+          }
+          return task => getCustomFieldFilterValues(getValue(task)).includes(option.id);
+        }
+        case 'checkbox':
+          if (!['yes', 'no', 'true', 'false'].includes(value)) {
+            throw new QueryValueError(`${field.name} is a checkbox. Use yes or no`);
+          }
+          return task => (getValue(task) === true) === (value === 'yes' || value === 'true');
+        case 'user':
+          if (value === 'me') {
+            return task => getCustomFieldFilterValues(getValue(task)).includes(context.userId || '');
+          }
+          return task => formatCustomFieldValue(field, getValue(task)).toLowerCase().includes(value);
+        case 'number':
+        case 'currency': {
+          const number = parseNumberValue(value);
+          return task => {
+            const current = getValue(task);
+            return typeof current === 'number' && compare(current, number, comparator);
+          };
+        }
+        case 'date':
+          return compileDate(task => {
+            const current = getValue(task);
+            return typeof current === 'string' ? current : null;
+          }, value, comparator);
+        default:
+          return task => formatCustomFieldValue(field, getValue(task)).toLowerCase().includes(value);
+      }
+    }
+  };
+}
+
+function getFieldDefinitions(context: TaskQueryContext): FieldDefinition[] {
+  const builtInNames = BUILT_IN_FIELDS.map(field => field.name);
+  const customFields = (context.customFields || [])
+    .filter(field => !field.is_archived)
+    .map(customFieldDefinition)
+    .filter(field => field.name && !builtInNames.includes(field.name));
+
+  return [...BUILT_IN_FIELDS, ...customFields];
+}
+
+function editDistance(a: string, b: string): number {
+  const distances = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = distances[0];
+    distances[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = distances[j];
+      distances[j] = Math.min(
+        distances[j] + 1,
+        distances[j - 1] + 1,
+        previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      previous = current;
+    }
+  }
+  return distances[b.length];
+}
+
+/**
+ * Split a query into terms. Errors are collected rather than thrown so the rest of the query still applies.
+ */
+function tokenize(query: string, errors: TaskQueryError[]): Term[] {
+  const terms: Term[] = [];
+  let i = 0;
+
+  const readQuoted = (): string | null => {
+    const close = query.indexOf('"', i + 1);
+    if (close === -1) {
+      errors.push({ message: 'Missing closing quote', start: i, end: query.length });
+      const text = query.slice(i + 1);
+      i = query.length;
+      return text;
+    }
+    const text = query.slice(i + 1, close);
+    i = close + 1;
+    return text;
+  };
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let negated = false;
+    if (query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    if (query[i] === '"') {
+      const text = readQuoted();
+      if (text) {
+        terms.push({ field: null, negated, comparator: '=', values: [text.toLowerCase()], start, end: i });
+      }
+      continue;
+    }
+
+    const field = query.slice(i).match(/^([a-zA-Z_][\w]*):/);
+    if (!field) {
+      const wordEnd = query.slice(i).search(/\s/);
+      const end = wordEnd === -1 ? query.length : i + wordEnd;
+      terms.push({ field: null, negated, comparator: '=', values: [query.slice(i, end).toLowerCase()], start, end });
+      i = end;
+      continue;
+    }
+
+    i += field[0].length;
+    if (query[i] === '!') {
+      negated = !negated;
+      i++;
+    }
+
+    const comparator = query.slice(i).match(/^(<=|>=|<|>|=)/)?.[0] as Comparator | undefined;
+    i += comparator?.length || 0;
+
+    const values: string[] = [];
+    while (i < query.length && !/\s/.test(query[i])) {
+      if (query[i] === '"') {
+        const text = readQuoted();
+        if (text) values.push(text.toLowerCase());
+      } else {
+        const valueEnd = query.slice(i).search(/[\s,"]/);
+        const end = valueEnd === -1 ? query.length : i + valueEnd;
+        if (end > i) values.push(query.slice(i, end).toLowerCase());
+        i = end;
+      }
+      if (query[i] === ',') i++;
+    }
+
+    terms.push({
+      field: field[1].toLowerCase(),
+      negated,
+      comparator: comparator || '=',
+      values,
+      start,
+      end: i
+    });
+  }
+
+  return terms;
+}
+
+/**
+ * Parse a query into clauses that can be matched against tasks. Invalid terms are reported in
+ * `errors` and left out, so a typo in one term doesn't hide every task.
+ */
+export function parseTaskQuery(query: string, context: TaskQueryContext = {}): ParsedTaskQuery {
+  const errors: TaskQueryError[] = [];
+  const clauses: ParsedTaskQuery['clauses'] = [];
+  const fields = getFieldDefinitions(context);
+
+  tokenize(query, errors).forEach(term => {
+    if (term.field === null) {
+      const text = term.values[0];
+      // `#ACME-142` is how keys are written in comments, so the hash is optional here
+      const key = text.replace(/^#/, '');
+      clauses.push({
+        negated: term.negated,
+        matches: task => task.title.toLowerCase().includes(text) ||
+          !!task.description?.toLowerCase().includes(text) ||
+          !!task.task_key?.toLowerCase().includes(key)
+      });
+      return;
+    }
+
+    const error = (message: string) => errors.push({ message, start: term.start, end: term.end });
+    const definition = fields.find(field => field.name === term.field);
+
+    if (!definition) {
+      const closest = fields
+        .map(field => ({ name: field.name, distance: editDistance(term.field!, field.name) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      error(closest && closest.distance <= 2
+        ? `Unknown field "${term.field}". Did you mean "${closest.name}"?`
+        : `Unknown field "${term.field}". Try ${BUILT_IN_FIELDS.map(field => field.name).join(', ')}`);
+      return;
+    }
+
+    if (term.values.length === 0) {
+      error(`${definition.name}: needs a value (${definition.description})`);
+      return;
+    }
+
+    if (term.comparator !== '=' && !definition.comparable) {
+      error(`${definition.name} can't be compared with ${term.comparator}`);
+      return;
+    }
+
+    try {
+      const matchers = term.values.map(value => definition.compile(value, term.comparator, context));
+      clauses.push({ negated: term.negated, matches: task => matchers.some(matches => matches(task)) });
+    } catch (err) {
+      if (!(err instanceof QueryValueError)) throw err;
+      error(err.message);
+    }
+  });
+
+  return { clauses, errors };
+}
+
+export function matchesTaskQuery(task: Task, query: ParsedTaskQuery): boolean {
+  return query.clauses.every(clause => clause.matches(task) !== clause.negated);
+}
+
+/**
+ * Suggestions for the term under the cursor: field names while typing a name, values after the colon.
+ */
+export function getTaskQuerySuggestions(
+  query: string,
+  cursor: number,
+  context: TaskQueryContext,
+  tasks: Task[]
+): { start: number; end: number; suggestions: TaskQuerySuggestion[] } {
+  const before = query.slice(0, cursor);
+  const start = before.search(/\S*$/);
+  const afterEnd = query.slice(cursor).search(/\s/);
+  const end = afterEnd === -1 ? query.length : cursor + afterEnd;
+  const token = query.slice(start, cursor);
+  const fields = getFieldDefinitions(context);
+
+  if (token.startsWith('"')) {
+    return { start, end, suggestions: [] };
+  }
+
+  const field = token.match(/^(-?)([a-zA-Z_]\w*):(!?(?:<=|>=|<|>|=)?)(.*)$/);
+  if (field) {
+    const [, negation, name, modifiers, valueText] = field;
+    const definition = fields.find(f => f.name === name.toLowerCase());
+    if (!definition) return { start, end, suggestions: [] };
+
+    const previousValues = valueText.slice(0, valueText.lastIndexOf(',') + 1);
+    const partial = valueText.slice(previousValues.length).replace(/^"/, '').toLowerCase();
+    const prefix = `${negation}${name}:${modifiers}${previousValues}`;
+
+    // A typed comparator already covers the one some suggestions start with
+    const values = definition.suggest(context, tasks)
+      .map(value => modifiers.replace('!', '') ? value.replace(/^(<=|>=|<|>)/, '') : value);
+
+    const suggestions = unique(values)
+      .filter(value => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(value => ({ label: value, insert: `${prefix}${quoteIfNeeded(value)} ` }));
+
+    return { start, end, suggestions };
+  }
+
+  const negation = token.startsWith('-') ? '-' : '';
+  const partial = token.slice(negation.length).toLowerCase();
+  if (!partial) return { start, end, suggestions: [] };
+
+  const suggestions = fields
+    .filter(f => f.name.startsWith(partial))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(f => ({ label: `${f.name}:`, description: f.description, insert: `${negation}${f.name}:` }));
+
+  return { start, end, suggestions };
+}
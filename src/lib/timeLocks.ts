@@ -0,0 +1,16 @@
+import { format, parseISO } from 'date-fns';
+
+/**
+ * Whether time starting at an instant falls on or before a lock date. The database compares UTC
+ * days, so this does too
+ */
+export function isTimeLocked(startTime: string | Date, lockDate: string | null | undefined): boolean {
+  if (!lockDate) return false;
+  const start = typeof startTime === 'string' ? parseISO(startTime) : startTime;
+  if (isNaN(start.getTime())) return false;
+  return start.toISOString().slice(0, 10) <= lockDate;
+}
+
+export function formatLockDate(lockDate: string): string {
+  return format(parseISO(lockDate), 'MMM d, yyyy');
+}
@@ -0,0 +1,113 @@
+import { addDays, addWeeks, format, isBefore, parseISO, startOfWeek } from 'date-fns';
+import { TimesheetStatus } from './types';
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  open: 'Open',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+export const TIMESHEET_STATUS_STYLES: Record<TimesheetStatus, string> = {
+  open: 'bg-gray-100 text-gray-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+export interface TimesheetTaskInfo {
+  id: string;
+  task_key: string | null;
+  title: string;
+  client_name: string | null;
+}
+
+export interface TimesheetEntry {
+  task_id: string;
+  start_time: string;
+  end_time: string | null;
+  timesheet_id: string | null;
+  task: TimesheetTaskInfo;
+}
+
+export interface TimesheetRow {
+  task: TimesheetTaskInfo;
+  hours: number[]; // One per day of the week, everything logged that day
+  timerHours: number[]; // The part of each day logged with the timer, which the cell can't go below
+  pinned: boolean;
+}
+
+// Weeks run from Monday, as on the rest of the app
+export function getWeekStart(date: Date): Date {
+  return startOfWeek(date, { weekStartsOn: 1 });
+}
+
+/**
+ * The local midnights that bound a week, which is how the database places time in it
+ */
+export function getWeekRange(weekStart: Date): { weekStart: string; startsAt: string; endsAt: string } {
+  return {
+    weekStart: format(weekStart, 'yyyy-MM-dd'),
+    startsAt: weekStart.toISOString(),
+    endsAt: addWeeks(weekStart, 1).toISOString()
+  };
+}
+
+export function getWeekDays(weekStart: Date): Date[] {
+  return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+}
+
+export function formatHours(hours: number): string {
+  return hours ? Number(hours.toFixed(2)).toString() : '';
+}
+
+const entryHours = (entry: TimesheetEntry) =>
+  entry.end_time ? (parseISO(entry.end_time).getTime() - parseISO(entry.start_time).getTime()) / 3600000 : 0;
+
+/**
+ * One row per task with time or pinned in the week, pinned tasks in the order given and the rest after
+ */
+export function buildTimesheetRows(weekStart: Date, entries: TimesheetEntry[], pinnedTasks: TimesheetTaskInfo[]): TimesheetRow[] {
+  const days = getWeekDays(weekStart);
+  const rows = new Map<string, TimesheetRow>();
+  const rowFor = (task: TimesheetTaskInfo, pinned: boolean) => {
+    let row = rows.get(task.id);
+    if (!row) {
+      row = { task, hours: days.map(() => 0), timerHours: days.map(() => 0), pinned };
+      rows.set(task.id, row);
+    }
+    return row;
+  };
+
+  pinnedTasks.forEach(task => rowFor(task, true));
+
+  entries.forEach(entry => {
+    const start = parseISO(entry.start_time);
+    const dayIndex = days.findIndex((day, index) => !isBefore(start, day) && (index === 6 || isBefore(start, days[index + 1])));
+    if (dayIndex === -1) return;
+
+    const row = rowFor(entry.task, false);
+    const hours = entryHours(entry);
+    row.hours[dayIndex] += hours;
+    if (!entry.timesheet_id) {
+      row.timerHours[dayIndex] += hours;
+    }
+  });
+
+  return Array.from(rows.values());
+}
+
+/**
+ * Whether time started inside one of a user's approved weeks
+ */
+export function isInApprovedWeek(
+  entry: { user_id: string; start_time: string },
+  approvedWeeks: { user_id: string; starts_at: string; ends_at: string }[]
+): boolean {
+  const start = parseISO(entry.start_time).getTime();
+  return approvedWeeks.some(week =>
+    week.user_id === entry.user_id &&
+    parseISO(week.starts_at).getTime() <= start &&
+    parseISO(week.ends_at).getTime() > start
+  );
+}
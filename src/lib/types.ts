@@ -1,15 +1,20 @@
 import { DraggableAttributes } from '@dnd-kit/core';
 import { SyntheticListenerMap } from '@dnd-kit/core/dist/hooks/utilities';
 
-export type TaskStatus = 'inbox' | 'todo' | 'doing' | 'done';
+// Key of a column on the task's board; see BoardColumn.category for what it means
+export type TaskStatus = string;
+export type ColumnCategory = 'backlog' | 'active' | 'completed';
 export type SopStatus = 'draft' | 'review' | 'approved' | 'archived';
 export type SopAccessLevel = 'system' | 'agency' | 'client';
 
 export interface Task {
   id: string;
   title: string;
+  task_key?: string | null; // e.g. ACME-142, unique across clients
+  task_number?: number | null;
   description: string;
   status: TaskStatus;
+  status_category?: ColumnCategory;
   assigned_to: string;
   assigned_to_email?: string;
   start_date: string | null;
@@ -23,6 +28,22 @@ export interface Task {
   updated_at: string;
   tags?: TaskTag[];
   dependencies?: TaskDependency[];
+  recurrence_id?: string | null;
+  recurrence_index?: number | null;
+  parent_task_id?: string | null; // Set on subtasks
+  custom_fields?: Record<string, CustomFieldValue>; // Keyed by custom field id
+  deleted_at?: string | null; // Set while the task is in the trash
+  deleted_by?: string | null;
+  deleted_by_email?: string | null;
+  version?: number; // Goes up on every update; saves check it to catch concurrent edits
+}
+
+// A task in the current user's My Work inbox, which spans clients and boards
+export interface MyWorkTask extends Task {
+  board_name: string;
+  client_id: string;
+  client_name: string;
+  snoozed_until: string | null; // The user has hidden the task until then
 }
 
 export interface TaskTag {
@@ -32,12 +53,49 @@ export interface TaskTag {
 }
 
 export interface TaskDependency {
+  id: string;
   task_id: string;
   title: string;
   status: string;
+  status_category?: ColumnCategory;
   type: 'blocks' | 'blocked_by';
 }
 
+// Row in task_dependencies: task_id is blocked by depends_on_task_id
+export interface TaskDependencyLink {
+  id: string;
+  task_id: string;
+  depends_on_task_id: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Recurrence Types
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+export type RecurrenceIntervalUnit = 'day' | 'week' | 'month';
+
+export interface TaskRecurrence {
+  id: string;
+  task_id: string; // First task of the series
+  board_id: string;
+  client_id: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  interval_unit: RecurrenceIntervalUnit; // Only used by 'custom'
+  weekdays: number[]; // 0 = Sunday, only used by 'weekly'
+  month_week: number | null; // 1-4, or -1 for the last week, only used by 'monthly'
+  month_weekday: number | null; // 0 = Sunday, only used by 'monthly'
+  end_date: string | null;
+  max_occurrences: number | null;
+  occurrences_created: number;
+  last_occurrence_date: string;
+  next_due_date: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface TaskComment {
   id: string;
   task_id: string;
@@ -78,10 +136,29 @@ export interface TaskActivityType {
     estimated_hours?: { from: number; to: number };
     estimated_cost?: { from: number; to: number };
     tags?: { from: string[]; to: string[] };
+    board_id?: { from: string; to: string };
+    parent_task_id?: { from: string | null; to: string | null };
+    rule?: { id: string; name: string }; // The automation rule behind an `automation` entry
+    actions?: AutomationActionType[];
+    label?: string; // The change an `undo` or `redo` entry reverted or reapplied
   };
+  batch_id?: string | null; // Shared by the entries of one bulk change
   created_at: string;
 }
 
+// One set of changes applied to every selected task by a bulk edit
+export interface TaskBulkChanges {
+  status?: TaskStatus;
+  priority?: Task['priority'];
+  assigned_to?: string | null;
+  start_date?: string | null;
+  finish_date?: string | null;
+  shift_days?: number; // Moves both dates by this many days
+  board_id?: string;
+  add_tags?: string[]; // Tag names
+  remove_tags?: string[];
+}
+
 export interface Board {
   id: string;
   client_id: string;
@@ -99,11 +176,111 @@ export interface BoardColumn {
   key: string;
   color: string;
   icon: string;
+  category: ColumnCategory;
   position: number;
   created_at?: string;
   updated_at?: string;
 }
 
+// Custom Field Types
+export type CustomFieldType =
+  | 'text'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'single_select'
+  | 'multi_select'
+  | 'user'
+  | 'checkbox';
+
+export interface CustomFieldOption {
+  id: string;
+  label: string;
+  color: string;
+}
+
+// The user is stored with their email so the value can be shown without another lookup
+export interface CustomFieldUser {
+  id: string;
+  email: string;
+}
+
+// text and date (yyyy-MM-dd) are strings, number and currency are numbers, single_select holds an
+// option id and multi_select a list of option ids
+export type CustomFieldValue = string | number | boolean | string[] | CustomFieldUser | null;
+
+export interface CustomField {
+  id: string;
+  board_id: string;
+  name: string;
+  field_type: CustomFieldType;
+  options: CustomFieldOption[];
+  position: number;
+  is_archived: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskCustomFieldValue {
+  id: string;
+  task_id: string;
+  field_id: string;
+  value: CustomFieldValue;
+  created_at: string;
+  updated_at: string;
+}
+
+// Template Types
+export interface BoardTemplateColumn {
+  name: string;
+  key: string;
+  color: string;
+  icon: string;
+  category: ColumnCategory;
+}
+
+// Checklist items are stored flat, parents before children; parent_ref points at another item's ref
+export interface BoardTemplateChecklistItem {
+  ref: number;
+  parent_ref: number | null;
+  text: string;
+  position: number;
+}
+
+export interface BoardTemplateTask {
+  id: string;
+  template_id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: 'low' | 'medium' | 'high';
+  start_offset_days: number | null; // Days after the kickoff date
+  finish_offset_days: number | null;
+  estimated_hours: number | null;
+  estimated_cost: number | null;
+  checklist: BoardTemplateChecklistItem[];
+  sop_ids: string[];
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BoardTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  access_level: SopAccessLevel;
+  system_id: string | null;
+  agency_id: string | null;
+  client_id: string | null;
+  columns: BoardTemplateColumn[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  tasks?: BoardTemplateTask[];
+}
+
 export interface DraggableTaskCardProps {
   task: Task;
   attributes?: DraggableAttributes;
@@ -115,6 +292,87 @@ export interface DraggableTaskCardProps {
 
 export type TaskBoardView = 'kanban' | 'calendar' | 'gantt' | 'list' | 'reports';
 
+export interface TaskFilterState {
+  priority: string[];
+  assignee: string[];
+  dueDate: string | null;
+  customFields: Record<string, string[]>; // Selected values keyed by custom field id
+}
+
+export type TaskSortField = 'title' | 'status' | 'priority' | 'assigned_to' | 'finish_date';
+
+export type TaskGroupBy = 'none' | 'status' | 'priority' | 'assignee' | 'due';
+
+// Everything that defines a slice of a board; saved in views and mirrored in the URL
+export interface BoardViewState {
+  view: TaskBoardView;
+  searchTerm: string;
+  filters: TaskFilterState;
+  sortField: TaskSortField;
+  sortDirection: 'asc' | 'desc';
+  groupBy: TaskGroupBy;
+}
+
+export interface SavedView {
+  id: string;
+  board_id: string;
+  name: string;
+  state: BoardViewState;
+  is_shared: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Automation Types
+export type AutomationTriggerType =
+  | 'status_changed'
+  | 'task_created'
+  | 'due_date_passed'
+  | 'checklist_completed'
+  | 'time_exceeds_estimate';
+
+export interface AutomationTriggerConfig {
+  status?: string; // Column key a status change must land in; any column when unset
+  tag?: string; // Tag name a new task must carry; any task when unset
+}
+
+export type AutomationAction =
+  | { type: 'assign_user'; user_id: string }
+  | { type: 'set_priority'; priority: Task['priority'] }
+  | { type: 'move_to_column'; status: string }
+  | { type: 'add_checklist'; items: string[] }
+  | { type: 'link_sop'; sop_id: string }
+  | { type: 'post_comment'; content: string }
+  | { type: 'notify'; user_id: string | null; message: string }; // No user notifies the assignee
+
+export type AutomationActionType = AutomationAction['type'];
+
+export interface AutomationRule {
+  id: string;
+  client_id: string;
+  board_id: string | null; // Client-wide when null
+  name: string;
+  trigger_type: AutomationTriggerType;
+  trigger_config: AutomationTriggerConfig;
+  actions: AutomationAction[];
+  is_enabled: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AutomationRuleRun {
+  id: string;
+  rule_id: string;
+  task_id: string | null;
+  task?: { title: string } | null;
+  trigger_key: string | null;
+  status: 'success' | 'error';
+  message: string | null;
+  created_at: string;
+}
+
 export interface TimeEntry {
   id: string;
   task_id: string;
@@ -126,10 +384,23 @@ export interface TimeEntry {
   description: string | null;
   is_billable: boolean;
   actual_cost: number | null;
+  invoice_id?: string | null; // Set once the entry is billed; invoiced entries can't change
+  timesheet_id?: string | null; // Set on the entry holding hours typed into a timesheet cell
   created_at: string;
   updated_at: string;
 }
 
+// A user has at most one timer running, across every task, tab and device
+export interface RunningTimer {
+  id: string;
+  task_id: string;
+  task_title: string;
+  task_key: string | null;
+  start_time: string;
+  description: string | null;
+  started_offline?: boolean; // Only kept on this device until it's stopped
+}
+
 // SOP Types
 export interface SOP {
   id: string;
@@ -226,6 +497,114 @@ export interface BudgetReport {
   estimated_hours_percentage?: number;
 }
 
+// Billing Rate Types
+export type BillingRateScope = 'task' | 'client_user' | 'client' | 'user' | 'role' | 'agency';
+
+export interface BillingRate {
+  id: string;
+  agency_id: string;
+  task_id: string | null;
+  task_key: string | null;
+  task_title: string | null;
+  client_id: string | null;
+  client_name: string | null;
+  user_id: string | null;
+  user_email: string | null;
+  role: string | null;
+  hourly_rate: number;
+  effective_from: string; // yyyy-MM-dd
+  effective_to: string | null; // yyyy-MM-dd, inclusive; null while open-ended
+  created_at: string;
+}
+
+// Invoice Types
+export type InvoiceStatus = 'draft' | 'issued' | 'void';
+export type InvoiceGroupBy = 'task' | 'user';
+
+export interface InvoiceLine {
+  id: string;
+  invoice_id: string;
+  kind: 'time' | 'manual'; // time lines are built from the invoice's time entries
+  description: string;
+  quantity: number; // Hours on time lines
+  unit_price: number;
+  amount: number;
+  task_id: string | null;
+  user_id: string | null;
+  position: number;
+  created_at: string;
+}
+
+export interface Invoice {
+  id: string;
+  agency_id: string;
+  client_id: string;
+  invoice_number: number | null; // Given when the invoice is issued
+  status: InvoiceStatus;
+  period_start: string; // yyyy-MM-dd
+  period_end: string;
+  group_by: InvoiceGroupBy;
+  discount_percent: number;
+  tax_percent: number;
+  notes: string | null;
+  issued_at: string | null;
+  sent_at: string | null;
+  sent_to: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  client?: { name: string };
+  lines?: InvoiceLine[];
+}
+
+// Timesheet Types
+export type TimesheetStatus = 'open' | 'submitted' | 'approved' | 'rejected';
+
+export interface Timesheet {
+  id: string;
+  user_id: string;
+  week_start: string; // yyyy-MM-dd, a Monday
+  starts_at: string; // The user's local midnights around the week
+  ends_at: string;
+  status: TimesheetStatus;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TimesheetReview {
+  id: string;
+  user_id: string;
+  user_email: string | null;
+  week_start: string;
+  starts_at: string;
+  ends_at: string;
+  submitted_at: string;
+  total_hours: number;
+}
+
+// Time Lock Types
+export interface TimeLock {
+  time_lock_date: string | null; // yyyy-MM-dd; time starting on or before this UTC day is locked
+  time_lock_set_by: string | null;
+  time_lock_set_at: string | null;
+}
+
+export interface TimeLockOverride {
+  id: string;
+  time_entry_id: string;
+  user_id: string | null;
+  user_email: string | null;
+  action: 'insert' | 'update' | 'delete';
+  lock_date: string;
+  old_entry: Partial<TimeEntry> | null;
+  new_entry: Partial<TimeEntry> | null;
+  created_at: string;
+}
+
 // Project Manager Types
 export interface ProjectManager {
   id: string;
@@ -0,0 +1,168 @@
+import { create } from 'zustand';
+import { logDebugEvent, DebugLevel, DebugEventType } from './debugSystem';
+import { useAuthStore } from './store';
+import { Task, TaskActivityType } from './types';
+import { updateTask } from './services/taskService';
+import { logTaskActivity } from './services/taskDetailsService';
+
+// How many changes are kept for undo
+const HISTORY_LIMIT = 50;
+
+export interface UndoEntry {
+  label: string; // What was done, e.g. "Moved ACME-12 to Done"
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+interface UndoNotice {
+  message: string;
+  kind: 'done' | 'undone' | 'redone';
+}
+
+interface UndoHistoryState {
+  past: UndoEntry[];
+  future: UndoEntry[];
+  notice: UndoNotice | null; // Shown in the undo toast
+  error: string | null;
+  isBusy: boolean;
+  revision: number; // Bumped after every undo and redo, so open views know to reload
+  record: (entry: UndoEntry) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  dismiss: () => void;
+  clear: () => void;
+}
+
+/**
+ * App-wide undo/redo history. Changes record how to revert and reapply themselves;
+ * recording a new change clears what could be redone.
+ */
+export const useUndoHistory = create<UndoHistoryState>((set, get) => ({
+  past: [],
+  future: [],
+  notice: null,
+  error: null,
+  isBusy: false,
+  revision: 0,
+
+  record: (entry) => set(state => ({
+    past: [...state.past, entry].slice(-HISTORY_LIMIT),
+    future: [],
+    notice: { message: entry.label, kind: 'done' },
+    error: null
+  })),
+
+  undo: async () => {
+    const { past, isBusy } = get();
+    const entry = past[past.length - 1];
+    if (!entry || isBusy) return;
+
+    set({ isBusy: true, error: null });
+
+    try {
+      await entry.undo();
+      set(state => ({
+        past: state.past.slice(0, -1),
+        future: [...state.future, entry],
+        notice: { message: `Undid: ${entry.label}`, kind: 'undone' },
+        revision: state.revision + 1
+      }));
+    } catch (err) {
+      logDebugEvent(
+        DebugLevel.ERROR,
+        DebugEventType.USER_ACTION,
+        'Error undoing change',
+        { error: err, label: entry.label }
+      );
+      // A change that can't be undone now won't be undoable later either
+      set(state => ({
+        past: state.past.slice(0, -1),
+        error: err instanceof Error ? err.message : 'An error occurred'
+      }));
+    } finally {
+      set({ isBusy: false });
+    }
+  },
+
+  redo: async () => {
+    const { future, isBusy } = get();
+    const entry = future[future.length - 1];
+    if (!entry || isBusy) return;
+
+    set({ isBusy: true, error: null });
+
+    try {
+      await entry.redo();
+      set(state => ({
+        past: [...state.past, entry],
+        future: state.future.slice(0, -1),
+        notice: { message: `Redid: ${entry.label}`, kind: 'redone' },
+        revision: state.revision + 1
+      }));
+    } catch (err) {
+      logDebugEvent(
+        DebugLevel.ERROR,
+        DebugEventType.USER_ACTION,
+        'Error redoing change',
+        { error: err, label: entry.label }
+      );
+      set(state => ({
+        future: state.future.slice(0, -1),
+        error: err instanceof Error ? err.message : 'An error occurred'
+      }));
+    } finally {
+      set({ isBusy: false });
+    }
+  },
+
+  dismiss: () => set({ notice: null, error: null }),
+
+  clear: () => set({ past: [], future: [], notice: null, error: null })
+}));
+
+/**
+ * How a task is named in undo labels: its key, or its title for tasks from before keys
+ */
+export function describeTask(task: Pick<Task, 'title' | 'task_key'>): string {
+  return task.task_key || `"${task.title}"`;
+}
+
+/**
+ * Log an undo or redo in the activity of the tasks it touched
+ */
+export async function logUndoActivity(
+  taskIds: string[],
+  action: 'undo' | 'redo',
+  label: string,
+  details: TaskActivityType['details'] = {}
+) {
+  const { user } = useAuthStore.getState();
+  if (!user) return;
+
+  await Promise.all(
+    taskIds.map(taskId => logTaskActivity(taskId, user.id, user.email || '', action, { ...details, label }))
+  );
+}
+
+/**
+ * Record an edit of a task's fields. Undo writes the previous values back and redo the new ones.
+ */
+export function recordTaskEdit(task: Task, updates: Partial<Task>, label: string) {
+  const fields = (Object.keys(updates) as (keyof Task)[]).filter(field => (task[field] ?? null) !== (updates[field] ?? null));
+  if (fields.length === 0) return;
+
+  const before = Object.fromEntries(fields.map(field => [field, task[field] ?? null])) as Partial<Task>;
+  const after = Object.fromEntries(fields.map(field => [field, updates[field] ?? null])) as Partial<Task>;
+
+  const apply = async (from: Partial<Task>, to: Partial<Task>, action: 'undo' | 'redo') => {
+    await updateTask(task.id, to);
+    const changes = Object.fromEntries(fields.map(field => [field, { from: from[field], to: to[field] }]));
+    await logUndoActivity([task.id], action, label, changes);
+  };
+
+  useUndoHistory.getState().record({
+    label,
+    undo: () => apply(after, before, 'undo'),
+    redo: () => apply(before, after, 'redo')
+  });
+}
@@ -0,0 +1,239 @@
+import { isBefore, isToday, startOfDay, endOfWeek } from 'date-fns';
+import { BoardColumn, BoardViewState, Task, TaskBoardView, TaskGroupBy, TaskSortField } from './types';
+import { getColumnForStatus, getStatusLabel, isTaskCompleted } from './workflow';
+
+export const DEFAULT_VIEW_STATE: BoardViewState = {
+  view: 'kanban',
+  searchTerm: '',
+  filters: {
+    priority: [],
+    assignee: [],
+    dueDate: null,
+    customFields: {}
+  },
+  sortField: 'finish_date',
+  sortDirection: 'asc',
+  groupBy: 'none'
+};
+
+export const GROUP_BY_OPTIONS: { id: TaskGroupBy; label: string }[] = [
+  { id: 'none', label: 'No grouping' },
+  { id: 'status', label: 'Status' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'assignee', label: 'Assignee' },
+  { id: 'due', label: 'Due date' }
+];
+
+const VIEWS: TaskBoardView[] = ['kanban', 'calendar', 'gantt', 'list', 'reports'];
+const SORT_FIELDS: TaskSortField[] = ['title', 'status', 'priority', 'assigned_to', 'finish_date'];
+const CUSTOM_FIELD_PREFIX = 'cf_';
+
+// Every search param owned by the view state, so unrelated params (client, board, ...) are left alone
+const VIEW_STATE_PARAMS = ['view', 'q', 'priority', 'assignee', 'due', 'sort', 'group'];
+
+function splitList(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
+/**
+ * Read a view state from URL search params, falling back to the defaults for anything missing or invalid
+ */
+export function viewStateFromSearchParams(params: URLSearchParams): BoardViewState {
+  const view = params.get('view') as TaskBoardView;
+  const [sortField, sortDirection] = (params.get('sort') || '').split('.') as [TaskSortField, string];
+  const groupBy = params.get('group') as TaskGroupBy;
+
+  const customFields: Record<string, string[]> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(CUSTOM_FIELD_PREFIX)) {
+      customFields[key.slice(CUSTOM_FIELD_PREFIX.length)] = splitList(value);
+    }
+  });
+
+  return {
+    view: VIEWS.includes(view) ? view : DEFAULT_VIEW_STATE.view,
+    searchTerm: params.get('q') || '',
+    filters: {
+      priority: splitList(params.get('priority')),
+      assignee: splitList(params.get('assignee')),
+      dueDate: params.get('due'),
+      customFields
+    },
+    sortField: SORT_FIELDS.includes(sortField) ? sortField : DEFAULT_VIEW_STATE.sortField,
+    sortDirection: sortDirection === 'desc' ? 'desc' : 'asc',
+    groupBy: GROUP_BY_OPTIONS.some(option => option.id === groupBy) ? groupBy : DEFAULT_VIEW_STATE.groupBy
+  };
+}
+
+/**
+ * Write a view state into a copy of the given search params. Defaults are omitted to keep links short.
+ */
+export function viewStateToSearchParams(state: BoardViewState, current: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams(current);
+  VIEW_STATE_PARAMS.forEach(key => params.delete(key));
+  Array.from(params.keys())
+    .filter(key => key.startsWith(CUSTOM_FIELD_PREFIX))
+    .forEach(key => params.delete(key));
+
+  if (state.view !== DEFAULT_VIEW_STATE.view) params.set('view', state.view);
+  if (state.searchTerm) params.set('q', state.searchTerm);
+  if (state.filters.priority.length > 0) params.set('priority', state.filters.priority.join(','));
+  if (state.filters.assignee.length > 0) params.set('assignee', state.filters.assignee.join(','));
+  if (state.filters.dueDate) params.set('due', state.filters.dueDate);
+  Object.entries(state.filters.customFields).forEach(([fieldId, values]) => {
+    if (values.length > 0) params.set(`${CUSTOM_FIELD_PREFIX}${fieldId}`, values.join(','));
+  });
+  if (state.sortField !== DEFAULT_VIEW_STATE.sortField || state.sortDirection !== DEFAULT_VIEW_STATE.sortDirection) {
+    params.set('sort', `${state.sortField}.${state.sortDirection}`);
+  }
+  if (state.groupBy !== DEFAULT_VIEW_STATE.groupBy) params.set('group', state.groupBy);
+
+  return params;
+}
+
+/**
+ * Fill in anything a stored view is missing, e.g. settings added after it was saved
+ */
+export function normalizeViewState(state: Partial<BoardViewState> | null | undefined): BoardViewState {
+  return {
+    ...DEFAULT_VIEW_STATE,
+    ...state,
+    filters: { ...DEFAULT_VIEW_STATE.filters, ...state?.filters }
+  };
+}
+
+/**
+ * Whether two view states show the same slice of work; used to flag unsaved changes to a view
+ */
+export function isSameViewState(a: BoardViewState, b: BoardViewState): boolean {
+  const [paramsA, paramsB] = [a, b].map(state => viewStateToSearchParams(state, new URLSearchParams()));
+  paramsA.sort();
+  paramsB.sort();
+  return paramsA.toString() === paramsB.toString();
+}
+
+const PRIORITY_ORDER: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Sort a copy of tasks by one field. Status follows the board's workflow order rather than the
+ * alphabet, and tasks without a due date come last.
+ */
+export function sortTasks(
+  tasks: Task[],
+  sortField: TaskSortField,
+  sortDirection: 'asc' | 'desc',
+  columns: BoardColumn[]
+): Task[] {
+  return [...tasks].sort((a, b) => {
+    let valueA, valueB;
+    
+    switch (sortField) {
+      case 'title':
+        valueA = a.title.toLowerCase();
+        valueB = b.title.toLowerCase();
+        break;
+      case 'status':
+        valueA = getColumnForStatus(columns, a.status)?.position ?? Number.MAX_SAFE_INTEGER;
+        valueB = getColumnForStatus(columns, b.status)?.position ?? Number.MAX_SAFE_INTEGER;
+        break;
+      case 'priority':
+        valueA = PRIORITY_ORDER[a.priority];
+        valueB = PRIORITY_ORDER[b.priority];
+        break;
+      case 'assigned_to':
+        valueA = a.assigned_to_email || '';
+        valueB = b.assigned_to_email || '';
+        break;
+      case 'finish_date':
+        valueA = a.finish_date ? new Date(a.finish_date).getTime() : Number.MAX_SAFE_INTEGER;
+        valueB = b.finish_date ? new Date(b.finish_date).getTime() : Number.MAX_SAFE_INTEGER;
+        break;
+      default:
+        valueA = a.title.toLowerCase();
+        valueB = b.title.toLowerCase();
+    }
+    
+    if (valueA < valueB) return sortDirection === 'asc' ? -1 : 1;
+    if (valueA > valueB) return sortDirection === 'asc' ? 1 : -1;
+    return 0;
+  });
+}
+
+const DUE_GROUPS = [
+  { key: 'overdue', label: 'Overdue' },
+  { key: 'today', label: 'Today' },
+  { key: 'week', label: 'This week' },
+  { key: 'later', label: 'Later' },
+  { key: 'none', label: 'No date' },
+  { key: 'earlier', label: 'Done, due earlier' }
+] as const;
+
+type DueGroupKey = typeof DUE_GROUPS[number]['key'];
+
+// Which due date group a task falls in; finished tasks are never overdue
+function getDueGroup(task: Task, columns: BoardColumn[], now: Date): DueGroupKey {
+  if (!task.finish_date) return 'none';
+
+  const due = new Date(task.finish_date);
+  if (isBefore(due, startOfDay(now))) {
+    return isTaskCompleted(task, columns) ? 'earlier' : 'overdue';
+  }
+  if (isToday(due)) return 'today';
+  if (!isBefore(endOfWeek(now), due)) return 'week';
+  return 'later';
+}
+
+const PRIORITY_GROUPS: { key: Task['priority']; label: string }[] = [
+  { key: 'high', label: 'High' },
+  { key: 'medium', label: 'Medium' },
+  { key: 'low', label: 'Low' }
+];
+
+/**
+ * Split tasks into labelled groups, keeping their order within each group. Groups follow
+ * the board's column order for status, high to low for priority, A-Z for assignee and
+ * soonest first for due date.
+ */
+export function groupTasks(
+  tasks: Task[],
+  groupBy: TaskGroupBy,
+  columns: BoardColumn[]
+): { key: string; label: string; tasks: Task[] }[] {
+  switch (groupBy) {
+    case 'status': {
+      const keys = [
+        ...[...columns].sort((a, b) => a.position - b.position).map(column => column.key),
+        ...tasks.map(task => task.status)
+      ];
+      return Array.from(new Set(keys))
+        .map(key => ({
+          key,
+          label: getStatusLabel(key, columns),
+          tasks: tasks.filter(task => task.status === key)
+        }))
+        .filter(group => group.tasks.length > 0);
+    }
+    case 'priority':
+      return PRIORITY_GROUPS
+        .map(({ key, label }) => ({ key, label, tasks: tasks.filter(task => task.priority === key) }))
+        .filter(group => group.tasks.length > 0);
+    case 'assignee': {
+      const emails = Array.from(new Set(tasks.map(task => task.assigned_to_email || '')))
+        .sort((a, b) => (a ? 0 : 1) - (b ? 0 : 1) || a.localeCompare(b));
+      return emails.map(email => ({
+        key: email || 'unassigned',
+        label: email || 'Unassigned',
+        tasks: tasks.filter(task => (task.assigned_to_email || '') === email)
+      }));
+    }
+    case 'due': {
+      const now = new Date();
+      const dueGroups = new Map(tasks.map(task => [task.id, getDueGroup(task, columns, now)]));
+      return DUE_GROUPS
+        .map(({ key, label }) => ({ key, label, tasks: tasks.filter(task => dueGroups.get(task.id) === key) }))
+        .filter(group => group.tasks.length > 0);
+    }
+    default:
+      return [{ key: 'all', label: '', tasks }];
+  }
+}
@@ -0,0 +1,77 @@
+import { BoardColumn, ColumnCategory, Task } from './types';
+
+export const COLUMN_CATEGORIES: { id: ColumnCategory; label: string; description: string }[] = [
+  { id: 'backlog', label: 'Backlog', description: 'Work that has not started yet' },
+  { id: 'active', label: 'Active', description: 'Work in progress' },
+  { id: 'completed', label: 'Completed', description: 'Finished work' }
+];
+
+export const CATEGORY_COLORS: Record<ColumnCategory, { bg: string; text: string; icon: string }> = {
+  backlog: { bg: '#DBEAFE', text: '#1E40AF', icon: '#3B82F6' },
+  active: { bg: '#FEF3C7', text: '#92400E', icon: '#F59E0B' },
+  completed: { bg: '#D1FAE5', text: '#065F46', icon: '#10B981' }
+};
+
+// Categories of the stock columns, used for tasks loaded without their board's columns
+const STOCK_CATEGORIES: Record<string, ColumnCategory> = {
+  inbox: 'backlog',
+  todo: 'backlog',
+  doing: 'active',
+  done: 'completed'
+};
+
+type StatusFields = Pick<Task, 'status' | 'status_category'>;
+
+/**
+ * Find the column a status belongs to
+ */
+export function getColumnForStatus(columns: BoardColumn[] | undefined, status: string): BoardColumn | undefined {
+  return columns?.find(column => column.key === status);
+}
+
+/**
+ * Resolve the category of a task's status. The board's columns win over the stored
+ * status_category because they reflect moves that haven't been reloaded yet.
+ */
+export function getStatusCategory(task: StatusFields, columns?: BoardColumn[]): ColumnCategory {
+  return getColumnForStatus(columns, task.status)?.category
+    || task.status_category
+    || STOCK_CATEGORIES[task.status]
+    || 'active';
+}
+
+export function isTaskCompleted(task: StatusFields, columns?: BoardColumn[]): boolean {
+  return getStatusCategory(task, columns) === 'completed';
+}
+
+export function isTaskOverdue(task: StatusFields & Pick<Task, 'finish_date'>, columns?: BoardColumn[]): boolean {
+  return !!task.finish_date && new Date(task.finish_date) < new Date() && !isTaskCompleted(task, columns);
+}
+
+/**
+ * Display name of a status, e.g. the column name "In Review" for key "in_review"
+ */
+export function getStatusLabel(status: string, columns?: BoardColumn[]): string {
+  const column = getColumnForStatus(columns, status);
+  if (column) return column.name;
+  return status.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Badge colors for a status, taken from its column's color when the board is known
+ */
+export function getStatusColors(task: StatusFields, columns?: BoardColumn[]) {
+  const column = getColumnForStatus(columns, task.status);
+  if (column?.color) {
+    return { bg: `${column.color}20`, text: column.color, icon: column.color };
+  }
+  return CATEGORY_COLORS[getStatusCategory(task, columns)];
+}
+
+/**
+ * Status for new tasks: the first backlog column, or the first column of the board
+ */
+export function getDefaultStatus(columns: BoardColumn[]): string {
+  const sorted = [...columns].sort((a, b) => a.position - b.position);
+  return sorted.find(column => column.category === 'backlog')?.key || sorted[0]?.key || 'inbox';
+}
@@ -4,6 +4,9 @@ import App from './App.tsx';
 import './index.css';
 import { AppProvider } from './lib/AppContext.tsx';
 import { ThemeColorProvider } from './components/ThemeColorProvider.tsx';
+import { registerServiceWorker } from './lib/pwa';
+
+registerServiceWorker();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
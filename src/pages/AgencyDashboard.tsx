@@ -2,10 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../lib/store';
-import { Building2, Users, Briefcase, ArrowLeft, BarChart2, Calendar, Clock, CheckCircle, AlertCircle, CheckSquare } from 'lucide-react';
+import { Building2, Users, Briefcase, ArrowLeft, BarChart2, Calendar, Clock, CheckCircle, AlertCircle, CheckSquare, DollarSign } from 'lucide-react';
 import { AgencyReportsDashboard } from '../components/AgencyReportsDashboard';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
 import { UpcomingTasksCalendar } from '../components/UpcomingTasksCalendar';
+import { BillingRatesManager } from '../components/BillingRatesManager';
+import { TimeLockSettings } from '../components/TimeLockSettings';
+import { getStatusColors, getStatusLabel, isTaskCompleted, isTaskOverdue } from '../lib/workflow';
+import { ColumnCategory } from '../lib/types';
 
 interface Agency {
   id: string;
@@ -30,6 +34,7 @@ interface RecentTask {
   id: string;
   title: string;
   status: string;
+  status_category?: ColumnCategory;
   priority: string;
   finish_date: string | null;
   assigned_to_email: string | null;
@@ -46,7 +51,7 @@ export function AgencyDashboard() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showReports, setShowReports] = useState(false);
-  const [activeView, setActiveView] = useState<'overview' | 'calendar' | 'tasks'>('overview');
+  const [activeView, setActiveView] = useState<'overview' | 'calendar' | 'tasks' | 'rates'>('overview');
 
   // Check if the URL has a view=reports query parameter
   useEffect(() => {
@@ -115,8 +120,9 @@ export function AgencyDashboard() {
 
         const { data: tasksData, error: tasksError } = await supabase
           .from('tasks')
-          .select('id, status, finish_date', { count: 'exact' })
-          .eq('agency_id', id);
+          .select('id, status, status_category, finish_date', { count: 'exact' })
+          .eq('agency_id', id)
+          .is('deleted_at', null);
 
         if (tasksError) {
           logApiCall('tasks.select', false, { error: tasksError });
@@ -126,14 +132,9 @@ export function AgencyDashboard() {
         logApiCall('tasks.select', true, { count: tasksData?.length });
 
         // Calculate task statistics
-        const now = new Date();
-        const activeTasks = tasksData?.filter(t => t.status !== 'done') || [];
-        const completedTasks = tasksData?.filter(t => t.status === 'done') || [];
-        const overdueTasks = tasksData?.filter(t => 
-          t.status !== 'done' && 
-          t.finish_date && 
-          new Date(t.finish_date) < now
-        ) || [];
+        const activeTasks = tasksData?.filter(t => !isTaskCompleted(t)) || [];
+        const completedTasks = tasksData?.filter(t => isTaskCompleted(t)) || [];
+        const overdueTasks = tasksData?.filter(t => isTaskOverdue(t)) || [];
 
         setStats({
           total_clients: clientsData?.length || 0,
@@ -151,11 +152,13 @@ export function AgencyDashboard() {
             id,
             title,
             status,
+            status_category,
             priority,
             finish_date,
             assigned_to
           `)
           .eq('agency_id', id)
+          .is('deleted_at', null)
           .order('created_at', { ascending: false })
           .limit(5);
 
@@ -351,6 +354,18 @@ export function AgencyDashboard() {
             <CheckSquare className="h-4 w-4 mr-1" />
             Tasks
           </button>
+          <button
+            onClick={() => setActiveView('rates')}
+            className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+              activeView === 'rates' 
+                ? 'bg-primary text-white' 
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+            style={activeView === 'rates' ? { backgroundColor: themeColors.primary } : {}}
+          >
+            <DollarSign className="h-4 w-4 mr-1" />
+            Rates
+          </button>
           <button
             onClick={() => setShowReports(true)}
             className="inline-flex items-center px-3 py-2 text-sm font-medium rounded-md bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
@@ -516,17 +531,16 @@ export function AgencyDashboard() {
               <ul role="list" className="divide-y divide-gray-200">
                 {recentTasks.length > 0 ? (
                   recentTasks.map((task) => {
-                    const isOverdue = task.finish_date && new Date(task.finish_date) < new Date() && task.status !== 'done';
+                    const isOverdue = isTaskOverdue(task);
                     
                     return (
                       <li key={task.id} className="px-4 py-4 sm:px-6 hover:bg-gray-50 cursor-pointer" onClick={() => handleTaskClick(task.id)}>
                         <div className="flex items-center justify-between">
                           <div className="flex items-center">
-                            <div className={`flex-shrink-0 h-4 w-4 rounded-full ${
-                              task.status === 'done' ? 'bg-green-500' :
-                              task.status === 'doing' ? 'bg-yellow-500' :
-                              'bg-blue-500'
-                            }`}></div>
+                            <div
+                              className="flex-shrink-0 h-4 w-4 rounded-full"
+                              style={{ backgroundColor: getStatusColors(task).icon }}
+                            ></div>
                             <p className="ml-3 text-sm font-medium text-gray-900">{task.title}</p>
                           </div>
                           <div className="flex items-center">
@@ -623,6 +637,14 @@ export function AgencyDashboard() {
         </div>
       )}
 
+      {/* Billing Rates View */}
+      {activeView === 'rates' && id && (
+        <div className="space-y-8">
+          <TimeLockSettings agencyId={id} />
+          <BillingRatesManager agencyId={id} />
+        </div>
+      )}
+
       {/* Tasks View */}
       {activeView === 'tasks' && (
         <div className="space-y-4">
@@ -652,7 +674,7 @@ export function AgencyDashboard() {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {recentTasks.length > 0 ? (
                     recentTasks.map((task) => {
-                      const isOverdue = task.finish_date && new Date(task.finish_date) < new Date() && task.status !== 'done';
+                      const isOverdue = isTaskOverdue(task);
                       
                       return (
                         <tr 
@@ -664,15 +686,11 @@ export function AgencyDashboard() {
                             {task.title}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                              task.status === 'done' ? 'bg-green-100 text-green-800' :
-                              task.status === 'doing' ? 'bg-yellow-100 text-yellow-800' :
-                              task.status === 'todo' ? 'bg-blue-100 text-blue-800' :
-                              'bg-gray-100 text-gray-800'
-                            }`}>
-                              {task.status === 'done' ? 'Completed' :
-                               task.status === 'doing' ? 'In Progress' :
-                               task.status === 'todo' ? 'To Do' : 'Inbox'}
+                            <span
+                              className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full"
+                              style={{ backgroundColor: getStatusColors(task).bg, color: getStatusColors(task).text }}
+                            >
+                              {getStatusLabel(task.status)}
                             </span>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
@@ -2,12 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../lib/store';
-import { Users, CheckSquare, ArrowLeft, Calendar, Clock, CheckCircle, AlertCircle, BarChart2, DollarSign } from 'lucide-react';
+import { Users, CheckSquare, ArrowLeft, Calendar, Clock, CheckCircle, AlertCircle, BarChart2, DollarSign, FileText } from 'lucide-react';
 import { TaskBoard } from '../components/TaskBoard';
 import { UpcomingTasksCalendar } from '../components/UpcomingTasksCalendar';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
+import { getStatusColors, isTaskOverdue } from '../lib/workflow';
+import { ColumnCategory } from '../lib/types';
 import { ClientBudgetManager } from '../components/ClientBudgetManager';
 import { ClientBudgetReport } from '../components/ClientBudgetReport';
+import { ClientInvoices } from '../components/ClientInvoices';
 
 interface Client {
   id: string;
@@ -37,6 +40,7 @@ interface RecentTask {
   id: string;
   title: string;
   status: string;
+  status_category?: ColumnCategory;
   priority: string;
   finish_date: string | null;
   assigned_to_email: string | null;
@@ -51,7 +55,8 @@ export function ClientDashboard() {
   const [recentTasks, setRecentTasks] = useState<RecentTask[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeView, setActiveView] = useState<'board' | 'calendar' | 'list' | 'budget'>('board');
+  const [activeView, setActiveView] = useState<'board' | 'calendar' | 'list' | 'budget' | 'invoices'>('board');
+  const canManageInvoices = role === 'system_admin' || role === 'agency_admin';
 
   useEffect(() => {
     async function fetchClientData() {
@@ -100,7 +105,8 @@ export function ClientDashboard() {
           .from('tasks')
           .select('*', { count: 'exact' })
           .eq('client_id', id)
-          .neq('status', 'done');
+          .is('deleted_at', null)
+          .neq('status_category', 'completed');
 
         if (activeTasksError) {
           logApiCall('tasks.select (active)', false, { error: activeTasksError });
@@ -112,7 +118,8 @@ export function ClientDashboard() {
           .from('tasks')
           .select('*', { count: 'exact' })
           .eq('client_id', id)
-          .eq('status', 'done');
+          .is('deleted_at', null)
+          .eq('status_category', 'completed');
 
         if (completedTasksError) {
           logApiCall('tasks.select (completed)', false, { error: completedTasksError });
@@ -189,11 +196,13 @@ export function ClientDashboard() {
             id,
             title,
             status,
+            status_category,
             priority,
             finish_date,
             assigned_to
           `)
           .eq('client_id', id)
+          .is('deleted_at', null)
           .order('created_at', { ascending: false })
           .limit(5);
 
@@ -357,6 +366,20 @@ export function ClientDashboard() {
             <DollarSign className="h-4 w-4 mr-1" />
             Budget
           </button>
+          {canManageInvoices && (
+            <button
+              type="button"
+              onClick={() => setActiveView('invoices')}
+              className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                activeView === 'invoices' 
+                  ? 'bg-blue-600 text-white' 
+                  : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <FileText className="h-4 w-4 mr-1" />
+              Invoices
+            </button>
+          )}
           <button
             type="button"
             onClick={() => setActiveView('list')}
@@ -480,17 +503,16 @@ export function ClientDashboard() {
             <ul role="list" className="divide-y divide-gray-200">
               {recentTasks.length > 0 ? (
                 recentTasks.map((task) => {
-                  const isOverdue = task.finish_date && new Date(task.finish_date) < new Date() && task.status !== 'done';
+                  const isOverdue = isTaskOverdue(task);
                   
                   return (
                     <li key={task.id} className="px-4 py-4 sm:px-6 hover:bg-gray-50 cursor-pointer" onClick={() => handleTaskClick(task.id)}>
                       <div className="flex items-center justify-between">
                         <div className="flex items-center">
-                          <div className={`flex-shrink-0 h-4 w-4 rounded-full ${
-                            task.status === 'done' ? 'bg-green-500' :
-                            task.status === 'doing' ? 'bg-yellow-500' :
-                            'bg-blue-500'
-                          }`}></div>
+                          <div
+                            className="flex-shrink-0 h-4 w-4 rounded-full"
+                            style={{ backgroundColor: getStatusColors(task).icon }}
+                          ></div>
                           <p className="ml-3 text-sm font-medium text-gray-900">{task.title}</p>
                         </div>
                         <div className="flex items-center">
@@ -558,6 +580,11 @@ export function ClientDashboard() {
           <ClientBudgetReport clientId={id} />
         </div>
       )}
+
+      {/* Invoices View */}
+      {activeView === 'invoices' && canManageInvoices && id && (
+        <ClientInvoices clientId={id} />
+      )}
     </div>
   );
 }
\ No newline at end of file
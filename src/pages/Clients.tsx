@@ -5,6 +5,9 @@ import { useAuthStore } from '../lib/store';
 import { LogoUpload } from '../components/LogoUpload';
 import { useNavigate } from 'react-router-dom';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
+import { BoardTemplate } from '../lib/types';
+import { fetchBoardTemplates, applyBoardTemplate } from '../lib/services/templateService';
+import { format } from 'date-fns';
 
 interface Client {
   id: string;
@@ -14,6 +17,7 @@ interface Client {
   updated_at: string;
   is_suspended?: boolean;
   project_manager_id?: string;
+  task_prefix?: string;
   agency?: {
     name: string;
   };
@@ -29,6 +33,12 @@ interface ClientFormData {
   name: string;
   agency_id: string;
   project_manager_id?: string;
+  task_prefix?: string;
+}
+
+interface OnboardingData {
+  template_id: string;
+  kickoff_date: string;
 }
 
 interface Agency {
@@ -56,6 +66,12 @@ export function Clients() {
     name: '',
     agency_id: '',
     project_manager_id: '',
+    task_prefix: '',
+  });
+  const [templates, setTemplates] = useState<BoardTemplate[]>([]);
+  const [onboarding, setOnboarding] = useState<OnboardingData>({
+    template_id: '',
+    kickoff_date: format(new Date(), 'yyyy-MM-dd')
   });
 
   useEffect(() => {
@@ -66,6 +82,12 @@ export function Clients() {
     fetchProjectManagers();
   }, [systemId, agencyId, clientId, role]);
 
+  useEffect(() => {
+    if (isCreating && !editingId) {
+      fetchTemplates();
+    }
+  }, [isCreating, editingId]);
+
   async function fetchClients() {
     try {
       setIsLoading(true);
@@ -138,14 +160,16 @@ export function Clients() {
         .from('tasks')
         .select('*', { count: 'exact' })
         .eq('client_id', clientId)
-        .neq('status', 'done');
+        .is('deleted_at', null)
+        .neq('status_category', 'completed');
       
       // Fetch completed tasks count
       const { count: completedTasksCount } = await supabase
         .from('tasks')
         .select('*', { count: 'exact' })
         .eq('client_id', clientId)
-        .eq('status', 'done');
+        .is('deleted_at', null)
+        .eq('status_category', 'completed');
       
       // Get current month budget
       const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
@@ -302,6 +326,19 @@ export function Clients() {
     }
   }
 
+  async function fetchTemplates() {
+    try {
+      const data = await fetchBoardTemplates({
+        systemId: role === 'system_admin' ? systemId : null,
+        agencyId
+      });
+      // Client templates belong to existing clients, so only system and agency ones apply to a new client
+      setTemplates(data.filter(template => template.access_level !== 'client'));
+    } catch (err) {
+      console.error('Error fetching templates:', err);
+    }
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     try {
@@ -315,7 +352,9 @@ export function Clients() {
       const clientData = {
         ...formData,
         agency_id: role === 'agency_admin' ? agencyId : formData.agency_id,
-        project_manager_id: formData.project_manager_id || null
+        project_manager_id: formData.project_manager_id || null,
+        // Left blank, a new client gets a prefix made from its name and an existing one keeps its own
+        task_prefix: formData.task_prefix?.trim() || undefined
       };
 
       if (editingId) {
@@ -331,9 +370,11 @@ export function Clients() {
         
         logApiCall('clients.update', true, {});
       } else {
-        const { error } = await supabase
+        const { data: newClient, error } = await supabase
           .from('clients')
-          .insert([clientData]);
+          .insert([clientData])
+          .select()
+          .single();
 
         if (error) {
           logApiCall('clients.insert', false, { error });
@@ -341,9 +382,15 @@ export function Clients() {
         }
         
         logApiCall('clients.insert', true, {});
+
+        // Build the client's first board from the chosen template
+        if (onboarding.template_id) {
+          await applyBoardTemplate(onboarding.template_id, newClient.id, onboarding.kickoff_date, { isDefault: true });
+        }
       }
 
-      setFormData({ name: '', agency_id: '', project_manager_id: '' });
+      setFormData({ name: '', agency_id: '', project_manager_id: '', task_prefix: '' });
+      setOnboarding({ template_id: '', kickoff_date: format(new Date(), 'yyyy-MM-dd') });
       setEditingId(null);
       setIsCreating(false);
       await fetchClients();
@@ -536,6 +583,7 @@ export function Clients() {
       name: client.name,
       agency_id: client.agency_id,
       project_manager_id: client.project_manager_id || '',
+      task_prefix: client.task_prefix || '',
     });
     setEditingId(client.id);
     setIsCreating(true);
@@ -549,7 +597,8 @@ export function Clients() {
       {}
     );
     
-    setFormData({ name: '', agency_id: '', project_manager_id: '' });
+    setFormData({ name: '', agency_id: '', project_manager_id: '', task_prefix: '' });
+    setOnboarding({ template_id: '', kickoff_date: format(new Date(), 'yyyy-MM-dd') });
     setEditingId(null);
     setIsCreating(false);
   }
@@ -630,6 +679,31 @@ export function Clients() {
                 </div>
               </div>
 
+              <div>
+                <label htmlFor="task_prefix" className="block text-sm font-medium leading-6 text-gray-900">
+                  Task Key Prefix
+                </label>
+                <div className="mt-2">
+                  <input
+                    type="text"
+                    name="task_prefix"
+                    id="task_prefix"
+                    value={formData.task_prefix || ''}
+                    onChange={(e) => setFormData({ ...formData, task_prefix: e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '') })}
+                    className="block w-full rounded-md border-0 py-1.5 font-mono text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6"
+                    placeholder="e.g. ACME"
+                    maxLength={10}
+                    pattern="[A-Z][A-Z0-9]{1,9}"
+                    title="2 to 10 letters or digits, starting with a letter"
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {editingId
+                    ? 'Changing the prefix renames every task key of this client; old keys keep working.'
+                    : 'Tasks are numbered like ACME-1. Leave blank to make one from the client name.'}
+                </p>
+              </div>
+
               {role === 'system_admin' && (
                 <div>
                   <label htmlFor="agency_id" className="block text-sm font-medium leading-6 text-gray-900">
@@ -677,6 +751,53 @@ export function Clients() {
                 </div>
               </div>
 
+              {!editingId && (
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div>
+                    <label htmlFor="template_id" className="block text-sm font-medium leading-6 text-gray-900">
+                      Board Template
+                    </label>
+                    <div className="mt-2">
+                      <select
+                        id="template_id"
+                        name="template_id"
+                        value={onboarding.template_id}
+                        onChange={(e) => setOnboarding({ ...onboarding, template_id: e.target.value })}
+                        className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6"
+                      >
+                        <option value="">Empty default board</option>
+                        {templates
+                          .filter(template => template.access_level === 'system' || role !== 'system_admin' || template.agency_id === formData.agency_id)
+                          .map((template) => (
+                            <option key={template.id} value={template.id}>
+                              {template.name} ({template.tasks?.length || 0} tasks)
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {onboarding.template_id && (
+                    <div>
+                      <label htmlFor="kickoff_date" className="block text-sm font-medium leading-6 text-gray-900">
+                        Kickoff Date
+                      </label>
+                      <div className="mt-2">
+                        <input
+                          type="date"
+                          id="kickoff_date"
+                          name="kickoff_date"
+                          value={onboarding.kickoff_date}
+                          onChange={(e) => setOnboarding({ ...onboarding, kickoff_date: e.target.value })}
+                          className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-blue-600 sm:text-sm sm:leading-6"
+                          required
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="flex gap-x-3">
                 <button
                   type="submit"
@@ -0,0 +1,378 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { format, addDays, startOfDay, startOfWeek, addWeeks, setHours } from 'date-fns';
+import { AlarmClock, Timer, ChevronDown, ChevronUp } from 'lucide-react';
+import { useAuthStore } from '../lib/store';
+import { useAppContext } from '../lib/AppContext';
+import { BoardColumn, BoardViewState, MyWorkTask, Task, TaskSortField } from '../lib/types';
+import { TaskFilters } from '../components/TaskFilters';
+import { TaskTimer } from '../components/TaskTimer';
+import { filterTasks } from '../lib/filters';
+import { DEFAULT_VIEW_STATE, groupTasks, sortTasks, viewStateFromSearchParams, viewStateToSearchParams } from '../lib/viewState';
+import { getStatusCategory, getStatusColors, isTaskCompleted } from '../lib/workflow';
+import { getTaskKeyPath } from '../lib/taskKeys';
+import { fetchMyWork, snoozeTask } from '../lib/services/myWorkService';
+import { updateTask } from '../components/TaskBoardService';
+import { handleRecurringTaskCompleted } from '../lib/services/recurrenceService';
+import { useUndoHistory, recordTaskEdit, describeTask } from '../lib/undoHistory';
+import { useSyncStatus } from '../lib/syncQueue';
+
+const SORT_OPTIONS: { id: TaskSortField; label: string }[] = [
+  { id: 'finish_date', label: 'Due date' },
+  { id: 'priority', label: 'Priority' },
+  { id: 'status', label: 'Status' },
+  { id: 'title', label: 'Title' }
+];
+
+// Snoozed tasks come back at the start of the working day
+const WAKE_HOUR = 8;
+
+export function MyWork() {
+  const { user } = useAuthStore();
+  const { systemSettings } = useAppContext();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [tasks, setTasks] = useState<MyWorkTask[]>([]);
+  const [columns, setColumns] = useState<BoardColumn[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showSnoozed, setShowSnoozed] = useState(false);
+  const [timerTaskId, setTimerTaskId] = useState<string | null>(null);
+  const [snoozeMenuTaskId, setSnoozeMenuTaskId] = useState<string | null>(null);
+  const [snoozeDate, setSnoozeDate] = useState('');
+  const snoozeMenuRef = useRef<HTMLDivElement>(null);
+  const undoRevision = useUndoHistory(state => state.revision);
+  const syncRevision = useSyncStatus(state => state.revision);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  // Filters and sort live in the URL like on the board, so a filtered inbox can be bookmarked
+  const viewState = useMemo(() => viewStateFromSearchParams(searchParams), [searchParams]);
+  const { searchTerm, filters, sortField, sortDirection } = viewState;
+
+  const handleViewStateChange = (updates: Partial<BoardViewState>) => {
+    setSearchParams(viewStateToSearchParams({ ...viewState, ...updates }, searchParams), { replace: true });
+  };
+
+  useEffect(() => {
+    if (user?.id) loadMyWork();
+  }, [user?.id, undoRevision, syncRevision]);
+
+  useEffect(() => {
+    // Close the snooze menu when clicking outside
+    const handleClickOutside = (event: MouseEvent) => {
+      if (snoozeMenuRef.current && !snoozeMenuRef.current.contains(event.target as Node)) {
+        setSnoozeMenuTaskId(null);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  async function loadMyWork() {
+    if (!user?.id) return;
+
+    try {
+      setError(null);
+      const data = await fetchMyWork(user.id);
+      setTasks(data.tasks);
+      setColumns(data.columns);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const boardColumns = (boardId: string) => columns.filter(column => column.board_id === boardId);
+
+  const users = useMemo(() => (user ? [{ id: user.id, email: user.email || '' }] : []), [user]);
+
+  const now = new Date();
+  const snoozedCount = tasks.filter(task => task.snoozed_until && new Date(task.snoozed_until) > now).length;
+
+  const groups = useMemo(() => {
+    const visibleTasks = showSnoozed
+      ? tasks
+      : tasks.filter(task => !task.snoozed_until || new Date(task.snoozed_until) <= new Date());
+    const filteredTasks = filterTasks(visibleTasks, searchTerm, filters, { userId: user?.id, columns });
+    const sortedTasks = sortTasks(filteredTasks, sortField, sortDirection, columns) as MyWorkTask[];
+    return groupTasks(sortedTasks, 'due', columns) as { key: string; label: string; tasks: MyWorkTask[] }[];
+  }, [tasks, showSnoozed, searchTerm, filters, sortField, sortDirection, user?.id, columns]);
+
+  async function handleStatusChange(task: MyWorkTask, status: string) {
+    const taskColumns = boardColumns(task.board_id);
+    const updates: Partial<Task> = { status };
+    const statusCategory = getStatusCategory({ status }, taskColumns);
+
+    // Finished tasks leave the inbox; anything else just shows its new status
+    setTasks(current => statusCategory === 'completed'
+      ? current.filter(t => t.id !== task.id)
+      : current.map(t => t.id === task.id ? { ...t, status, status_category: statusCategory } : t)
+    );
+
+    try {
+      await updateTask(task.id, updates, task.version);
+      const column = taskColumns.find(column => column.key === status);
+      recordTaskEdit(task, updates, `Moved ${describeTask(task)} to ${column?.name || status}`);
+
+      // Completing a recurring task schedules its next occurrence, which may be ours too
+      if (statusCategory === 'completed' && task.recurrence_id && !isTaskCompleted(task, taskColumns)) {
+        const nextOccurrence = await handleRecurringTaskCompleted(task);
+        if (nextOccurrence) loadMyWork();
+      }
+    } catch (err) {
+      console.error('Error updating task:', err);
+      setTasks(current => current.some(t => t.id === task.id)
+        ? current.map(t => t.id === task.id ? task : t)
+        : [...current, task]
+      );
+      setError(
+        `Couldn't save the change to ${describeTask(task)}, so it was rolled back. ` +
+        (err instanceof Error ? err.message : 'An error occurred')
+      );
+    }
+  }
+
+  async function handleSnooze(task: MyWorkTask, until: Date | null) {
+    setSnoozeMenuTaskId(null);
+    setSnoozeDate('');
+    setTasks(current => current.map(t => t.id === task.id ? { ...t, snoozed_until: until?.toISOString() ?? null } : t));
+
+    try {
+      await snoozeTask(task.id, until);
+    } catch (err) {
+      setTasks(current => current.map(t => t.id === task.id ? task : t));
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  }
+
+  const handleSort = (field: TaskSortField) => {
+    if (sortField === field) {
+      handleViewStateChange({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
+    } else {
+      handleViewStateChange({ sortField: field, sortDirection: 'asc' });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const today = startOfDay(new Date());
+  const snoozeOptions = [
+    { label: 'Tomorrow', until: setHours(addDays(today, 1), WAKE_HOUR) },
+    { label: 'Next week', until: setHours(startOfWeek(addWeeks(today, 1), { weekStartsOn: 1 }), WAKE_HOUR) }
+  ];
+  const taskCount = groups.reduce((count, group) => count + group.tasks.length, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            My Work
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Open tasks assigned to you on every client and board.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error</h3>
+              <div className="mt-2 text-sm text-red-700">{error}</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1">
+          <TaskFilters
+            searchTerm={searchTerm}
+            onSearchChange={term => handleViewStateChange({ searchTerm: term })}
+            filters={filters}
+            onFilterChange={newFilters => handleViewStateChange({ filters: newFilters })}
+            users={users}
+            tasks={tasks}
+            columns={columns}
+            clearFilters={() => handleViewStateChange({
+              searchTerm: DEFAULT_VIEW_STATE.searchTerm,
+              filters: DEFAULT_VIEW_STATE.filters
+            })}
+          />
+        </div>
+        <div className="flex flex-shrink-0 items-center">
+          <select
+            value={sortField}
+            onChange={(e) => handleSort(e.target.value as TaskSortField)}
+            className="rounded-l-md border-gray-300 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            title="Sort by"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.id} value={option.id}>Sort by {option.label.toLowerCase()}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => handleSort(sortField)}
+            className="-ml-px rounded-r-md border border-gray-300 bg-white p-2 text-gray-500 shadow-sm hover:bg-gray-50"
+            title={sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {sortDirection === 'asc' ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+          </button>
+        </div>
+      </div>
+
+      {snoozedCount > 0 && (
+        <label className="flex items-center text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showSnoozed}
+            onChange={(e) => setShowSnoozed(e.target.checked)}
+            className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Show {snoozedCount} snoozed task{snoozedCount === 1 ? '' : 's'}
+        </label>
+      )}
+
+      {taskCount === 0 ? (
+        <div className="bg-white shadow rounded-lg p-8 text-center text-sm text-gray-500">
+          {tasks.length === 0 ? 'Nothing assigned to you right now.' : 'No tasks match the current filters.'}
+        </div>
+      ) : (
+        groups.map(group => (
+          <div key={group.key} className="bg-white shadow rounded-lg">
+            <div className="px-4 py-2 bg-gray-50 rounded-t-lg text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {group.label} ({group.tasks.length})
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {group.tasks.map(task => {
+                const taskColumns = boardColumns(task.board_id);
+                const statusColors = getStatusColors(task, taskColumns);
+                const isSnoozed = !!task.snoozed_until && new Date(task.snoozed_until) > now;
+
+                return (
+                  <li key={task.id} className="px-4 py-3">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <div className="min-w-0 flex-1">
+                        <Link
+                          to={task.task_key ? getTaskKeyPath(task.task_key) : `/tasks?client=${task.client_id}&board=${task.board_id}`}
+                          className="text-sm font-medium text-gray-900 hover:underline"
+                        >
+                          {task.task_key && <span className="font-mono text-gray-500 mr-2">{task.task_key}</span>}
+                          {task.title}
+                        </Link>
+                        <div className="mt-1 flex flex-wrap items-center gap-x-3 text-xs text-gray-500">
+                          <span>{task.client_name} · {task.board_name}</span>
+                          {task.finish_date && <span>Due {format(new Date(task.finish_date), 'MMM d, yyyy')}</span>}
+                          {isSnoozed && (
+                            <span className="text-amber-600">
+                              Snoozed until {format(new Date(task.snoozed_until!), 'MMM d, h:mm a')}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize
+                        ${task.priority === 'high' ? 'bg-red-100 text-red-800' :
+                          task.priority === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+                          'bg-green-100 text-green-800'}`}
+                      >
+                        {task.priority}
+                      </span>
+
+                      <select
+                        value={task.status}
+                        onChange={(e) => handleStatusChange(task, e.target.value)}
+                        className="rounded-md border-gray-300 py-1 text-xs font-medium shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                        style={{ backgroundColor: statusColors.bg, color: statusColors.text }}
+                        title="Status"
+                      >
+                        {taskColumns.map(column => (
+                          <option key={column.id} value={column.key}>{column.name}</option>
+                        ))}
+                      </select>
+
+                      <button
+                        onClick={() => setTimerTaskId(timerTaskId === task.id ? null : task.id)}
+                        className="p-1.5 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+                        style={timerTaskId === task.id ? { color: primaryColor } : {}}
+                        title="Track time"
+                      >
+                        <Timer className="h-5 w-5" />
+                      </button>
+
+                      <div className="relative" ref={snoozeMenuTaskId === task.id ? snoozeMenuRef : undefined}>
+                        <button
+                          onClick={() => setSnoozeMenuTaskId(snoozeMenuTaskId === task.id ? null : task.id)}
+                          className="p-1.5 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100"
+                          title="Snooze"
+                        >
+                          <AlarmClock className="h-5 w-5" />
+                        </button>
+                        {snoozeMenuTaskId === task.id && (
+                          <div className="absolute right-0 mt-2 w-56 rounded-lg bg-white shadow-lg ring-1 ring-black ring-opacity-5 z-50 py-1">
+                            {snoozeOptions.map(option => (
+                              <button
+                                key={option.label}
+                                onClick={() => handleSnooze(task, option.until)}
+                                className="flex w-full justify-between px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                              >
+                                <span>{option.label}</span>
+                                <span className="text-gray-400">{format(option.until, 'EEE d MMM')}</span>
+                              </button>
+                            ))}
+                            <div className="flex items-center gap-2 px-4 py-2">
+                              <input
+                                type="date"
+                                value={snoozeDate}
+                                min={format(addDays(today, 1), 'yyyy-MM-dd')}
+                                onChange={(e) => setSnoozeDate(e.target.value)}
+                                className="min-w-0 flex-1 rounded-md border-gray-300 py-1 text-sm shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                              />
+                              <button
+                                onClick={() => handleSnooze(task, setHours(new Date(`${snoozeDate}T00:00`), WAKE_HOUR))}
+                                disabled={!snoozeDate}
+                                className="text-sm font-medium disabled:opacity-50"
+                                style={{ color: primaryColor }}
+                              >
+                                Snooze
+                              </button>
+                            </div>
+                            {task.snoozed_until && (
+                              <button
+                                onClick={() => handleSnooze(task, null)}
+                                className="w-full border-t border-gray-100 px-4 py-2 text-left text-sm text-gray-700 hover:bg-gray-50"
+                              >
+                                Unsnooze
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+
+                    {timerTaskId === task.id && (
+                      <div className="mt-3">
+                        <TaskTimer taskId={task.id} taskTitle={task.title} onTimeEntryAdded={() => {}} />
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { useAppContext } from '../lib/AppContext';
 import clsx from 'clsx';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
 import { ClientBudgetReport } from '../components/ClientBudgetReport';
+import { COLUMN_CATEGORIES, getStatusCategory, isTaskCompleted } from '../lib/workflow';
 
 export function Reports() {
   const navigate = useNavigate();
@@ -138,11 +139,13 @@ export function Reports() {
               estimated_hours,
               estimated_cost,
               status,
+              status_category,
               finish_date,
               start_date,
               client:clients(name)
             `)
             .eq('agency_id', agencyId)
+            .is('deleted_at', null)
             .gte('created_at', startDate.toISOString())
             .lte('created_at', endDate.toISOString());
 
@@ -153,7 +156,7 @@ export function Reports() {
           
           logApiCall('tasks.select', true, { count: tasksData?.length });
 
-          // Fetch time entries
+          // Fetch time entries; hours logged on trashed tasks still count
           const { data: timeEntries, error: timeError } = await supabase
             .from('task_time_entries')
             .select(`
@@ -163,6 +166,7 @@ export function Reports() {
               start_time,
               end_time,
               is_billable,
+              actual_cost,
               task:tasks!inner(
                 id,
                 title,
@@ -170,7 +174,8 @@ export function Reports() {
                 agency_id,
                 estimated_hours,
                 estimated_cost,
-                status
+                status,
+                status_category
               )
             `)
             .eq('task.agency_id', agencyId)
@@ -199,10 +204,12 @@ export function Reports() {
               estimated_hours,
               estimated_cost,
               status,
+              status_category,
               finish_date,
               start_date
             `)
             .eq('client_id', selectedClientId)
+            .is('deleted_at', null)
             .gte('created_at', startDate.toISOString())
             .lte('created_at', endDate.toISOString());
 
@@ -213,7 +220,7 @@ export function Reports() {
           
           logApiCall('tasks.select', true, { count: tasksData?.length });
 
-          // Fetch time entries
+          // Fetch time entries; hours logged on trashed tasks still count
           const { data: timeEntries, error: timeError } = await supabase
             .from('task_time_entries')
             .select(`
@@ -223,13 +230,15 @@ export function Reports() {
               start_time,
               end_time,
               is_billable,
+              actual_cost,
               task:tasks!inner(
                 id,
                 title,
                 client_id,
                 estimated_hours,
                 estimated_cost,
-                status
+                status,
+                status_category
               )
             `)
             .eq('task.client_id', selectedClientId)
@@ -285,13 +294,8 @@ export function Reports() {
       return acc + duration;
     }, 0);
     
-    const hourlyRate = 50; // Assuming $50/hour as a default rate
-    const actualCost = timeEntries.reduce((acc, entry) => {
-      const duration = entry.end_time 
-        ? (new Date(entry.end_time).getTime() - new Date(entry.start_time).getTime()) / (1000 * 60 * 60)
-        : 0;
-      return acc + (duration * hourlyRate);
-    }, 0);
+    // Each entry was priced at the billing rate in effect when it was logged
+    const actualCost = timeEntries.reduce((acc, entry) => acc + (entry.actual_cost || 0), 0);
 
     const estimatedHours = tasks.reduce((acc, task) => {
       return acc + (task.estimated_hours || 0);
@@ -346,7 +350,7 @@ export function Reports() {
       client.total_hours_estimated += task.estimated_hours || 0;
       client.total_cost_estimated += task.estimated_cost || 0;
       
-      if (task.status === 'done') {
+      if (isTaskCompleted(task)) {
         client.completed_tasks++;
       }
     });
@@ -372,7 +376,7 @@ export function Reports() {
           : 0;
         
         client.total_hours_completed += duration;
-        client.total_cost_actual += (duration * hourlyRate); // Calculate cost based on duration
+        client.total_cost_actual += (entry.actual_cost || 0);
       }
     });
 
@@ -387,7 +391,7 @@ export function Reports() {
       const existing = dailyData.get(date) || { hours: 0, cost: 0 };
       dailyData.set(date, {
         hours: existing.hours + duration,
-        cost: existing.cost + (duration * hourlyRate), // Calculate cost based on duration
+        cost: existing.cost + (entry.actual_cost || 0),
       });
     });
 
@@ -424,7 +428,7 @@ export function Reports() {
         : 0;
       
       user.total_hours += duration;
-      user.total_cost += (duration * hourlyRate); // Calculate cost based on duration
+      user.total_cost += (entry.actual_cost || 0);
     });
 
     // Get user emails
@@ -451,7 +455,7 @@ export function Reports() {
         const user = userMap.get(task.assigned_to);
         user.assigned_tasks++;
         
-        if (task.status === 'done') {
+        if (isTaskCompleted(task)) {
           user.completed_tasks++;
         }
       }
@@ -484,13 +488,8 @@ export function Reports() {
       return acc + duration;
     }, 0);
     
-    const hourlyRate = 50; // Assuming $50/hour as a default rate
-    const actualCost = timeEntries.reduce((acc, entry) => {
-      const duration = entry.end_time 
-        ? (new Date(entry.end_time).getTime() - new Date(entry.start_time).getTime()) / (1000 * 60 * 60)
-        : 0;
-      return acc + (duration * hourlyRate);
-    }, 0);
+    // Each entry was priced at the billing rate in effect when it was logged
+    const actualCost = timeEntries.reduce((acc, entry) => acc + (entry.actual_cost || 0), 0);
 
     const estimatedHours = tasks.reduce((acc, task) => {
       return acc + (task.estimated_hours || 0);
@@ -519,7 +518,7 @@ export function Reports() {
       const existing = dailyData.get(date) || { hours: 0, cost: 0 };
       dailyData.set(date, {
         hours: existing.hours + duration,
-        cost: existing.cost + (duration * hourlyRate),
+        cost: existing.cost + (entry.actual_cost || 0),
       });
     });
 
@@ -556,7 +555,7 @@ export function Reports() {
         : 0;
       
       user.total_hours += duration;
-      user.total_cost += (duration * hourlyRate);
+      user.total_cost += (entry.actual_cost || 0);
     });
 
     // Get user emails
@@ -592,20 +591,14 @@ export function Reports() {
     };
   };
 
-  // Calculate status statistics
+  // Calculate status statistics, grouped by workflow category since boards name their columns differently
   const calculateStatusStats = (tasks: any[]) => {
-    const statusCounts: Record<string, number> = {};
     const total = tasks.length;
     
-    // Count tasks by status
-    tasks.forEach(task => {
-      statusCounts[task.status] = (statusCounts[task.status] || 0) + 1;
-    });
-    
-    // Convert to array with percentages
-    return Object.entries(statusCounts).map(([status, count]) => {
+    return COLUMN_CATEGORIES.map(category => {
+      const count = tasks.filter(task => getStatusCategory(task) === category.id).length;
       return {
-        status,
+        status: category.id,
         count,
         percentage: total > 0 ? (count / total) * 100 : 0
       };
@@ -864,7 +857,7 @@ export function Reports() {
                     <div className="text-2xl font-semibold text-gray-900">
                       {stats.clientStats ? 
                         `${stats.clientStats.reduce((sum: number, client: any) => sum + client.completed_tasks, 0)} / ${stats.clientStats.reduce((sum: number, client: any) => sum + client.task_count, 0)}` :
-                        `${stats.statusStats.find((s: any) => s.status === 'done')?.count || 0} / ${stats.statusStats.reduce((sum: number, stat: any) => sum + stat.count, 0)}`
+                        `${stats.statusStats.find((s: any) => s.status === 'completed')?.count || 0} / ${stats.statusStats.reduce((sum: number, stat: any) => sum + stat.count, 0)}`
                       }
                     </div>
                   </dd>
@@ -878,7 +871,7 @@ export function Reports() {
                                  stats.clientStats.reduce((sum: number, client: any) => sum + client.task_count, 0)) * 100 
                               : 0}%` 
                           : `${stats.statusStats.reduce((sum: number, stat: any) => sum + stat.count, 0) > 0
-                              ? (stats.statusStats.find((s: any) => s.status === 'done')?.count || 0) / 
+                              ? (stats.statusStats.find((s: any) => s.status === 'completed')?.count || 0) / 
                                 stats.statusStats.reduce((sum: number, stat: any) => sum + stat.count, 0) * 100
                               : 0}%`
                       }}
@@ -7,6 +7,7 @@ import { SOP, SopTag, SopAccessLevel } from '../lib/types';
 import { useAppContext } from '../lib/AppContext';
 import { format } from 'date-fns';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
+import { readThrough } from '../lib/syncQueue';
 
 interface Client {
   id: string;
@@ -123,7 +124,8 @@ export function SOPs() {
       }
       // System admins can see all SOPs, so no additional filters needed
 
-      const { data: sopsData, error: sopsError } = await query;
+      // Which SOPs come back depends on who's asking, so the offline copy is per user
+      const { data: sopsData, error: sopsError } = await readThrough(`sop-list:${user?.id}`, query);
 
       if (sopsError) {
         logApiCall('sops.select', false, { error: sopsError });
@@ -136,10 +138,10 @@ export function SOPs() {
       const creatorIds = [...new Set((sopsData || []).map(sop => sop.created_by))];
 
       // Fetch creator emails in a single query
-      const { data: userRoles, error: userRolesError } = await supabase
+      const { data: userRoles, error: userRolesError } = await readThrough(`sop-creators:${user?.id}`, supabase
         .from('user_roles')
         .select('user_id, email')
-        .in('user_id', creatorIds);
+        .in('user_id', creatorIds));
 
       if (userRolesError) {
         logApiCall('user_roles.select', false, { error: userRolesError });
@@ -154,12 +156,12 @@ export function SOPs() {
       // Fetch tags for each SOP and add creator emails
       const sopsWithTagsAndCreator = await Promise.all(
         (sopsData || []).map(async (sop) => {
-          const { data: tagAssignments } = await supabase
+          const { data: tagAssignments } = await readThrough(`sop-tags:${sop.id}`, supabase
             .from('sop_tag_assignments')
             .select(`
               tag:sop_tags(id, name, color, access_level)
             `)
-            .eq('sop_id', sop.id);
+            .eq('sop_id', sop.id));
 
           return {
             ...sop,
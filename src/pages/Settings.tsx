@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuthStore } from '../lib/store';
 import { supabase } from '../lib/supabase';
 import { Check, X, Upload, Hexagon as Dragon, Mail, BarChart, FileText, ExternalLink } from 'lucide-react';
@@ -26,6 +27,9 @@ interface SystemSettings {
   };
 }
 
+const SETTINGS_TABS = ['general', 'email', 'email-logs', 'email-templates', 'email-testing'] as const;
+type SettingsTab = typeof SETTINGS_TABS[number];
+
 export function Settings() {
   const { role, systemId } = useAuthStore();
   const { systemSettings: contextSettings, refreshSettings, applyTheme } = useAppContext();
@@ -41,7 +45,11 @@ export function Settings() {
   });
   const [isEditing, setIsEditing] = useState(false);
   const [previewTheme, setPreviewTheme] = useState(false);
-  const [activeTab, setActiveTab] = useState<'general' | 'email' | 'email-logs' | 'email-templates' | 'email-testing'>('general');
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The tab is kept in the URL so it can be linked to, e.g. from the command palette
+  const activeTab = SETTINGS_TABS.find(tab => tab === searchParams.get('tab')) || 'general';
+  const setActiveTab = (tab: SettingsTab) => setSearchParams(tab === 'general' ? {} : { tab }, { replace: true });
 
   useEffect(() => {
     if (role === 'system_admin') {
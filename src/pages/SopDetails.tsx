@@ -17,6 +17,7 @@ import { useAppContext } from '../lib/AppContext';
 import { extractLinksFromHtml } from '../lib/supabase';
 import { GoogleDocsImportButton } from '../components/GoogleDocsImportButton';
 import { logDebugEvent, DebugLevel, DebugEventType } from '../lib/debugSystem';
+import { readThrough } from '../lib/syncQueue';
 
 export function SopDetails() {
   const { id } = useParams<{ id: string }>();
@@ -65,7 +66,7 @@ export function SopDetails() {
         { sopId: id }
       );
       
-      const { data, error } = await supabase
+      const { data, error } = await readThrough(`sop:${id}`, supabase
         .from('sops')
         .select(`
           *,
@@ -74,7 +75,7 @@ export function SopDetails() {
           )
         `)
         .eq('id', id)
-        .single();
+        .single());
 
       if (error) throw error;
       
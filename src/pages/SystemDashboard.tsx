@@ -6,6 +6,8 @@ import { Building2, Users, Briefcase, ArrowRight, CheckSquare, FileText, BarChar
 import { useAppContext } from '../lib/AppContext';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
 import { UpcomingTasksCalendar } from '../components/UpcomingTasksCalendar';
+import { getStatusColors, getStatusLabel } from '../lib/workflow';
+import { ColumnCategory } from '../lib/types';
 
 interface SystemStats {
   total_agencies: number;
@@ -28,6 +30,7 @@ interface SystemStats {
     id: string;
     title: string;
     status: string;
+    status_category?: ColumnCategory;
     created_at: string;
   }>;
 }
@@ -124,8 +127,9 @@ export function SystemDashboard() {
       // Fetch tasks
       const { data: tasksData, error: tasksError } = await supabase
         .from('tasks')
-        .select('id, title, status, created_at')
+        .select('id, title, status, status_category, created_at')
         .in('agency_id', agenciesData?.map(a => a.id) || [])
+        .is('deleted_at', null)
         .order('created_at', { ascending: false })
         .limit(5);
 
@@ -491,20 +495,18 @@ export function SystemDashboard() {
                 <li key={task.id} className="px-4 py-4 sm:px-6 hover:bg-gray-50 cursor-pointer" onClick={() => navigate(`/tasks?taskId=${task.id}`)}>
                   <div className="flex items-center justify-between">
                     <div className="flex items-center">
-                      <div className={`flex-shrink-0 h-4 w-4 rounded-full ${
-                        task.status === 'done' ? 'bg-green-500' :
-                        task.status === 'doing' ? 'bg-yellow-500' :
-                        'bg-blue-500'
-                      }`}></div>
+                      <div
+                        className="flex-shrink-0 h-4 w-4 rounded-full"
+                        style={{ backgroundColor: getStatusColors(task).icon }}
+                      ></div>
                       <p className="ml-3 text-sm font-medium text-gray-900">{task.title}</p>
                     </div>
                     <div className="flex items-center">
-                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                        task.status === 'done' ? 'bg-green-100 text-green-800' :
-                        task.status === 'doing' ? 'bg-yellow-100 text-yellow-800' :
-                        'bg-blue-100 text-blue-800'
-                      }`}>
-                        {task.status}
+                      <span
+                        className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full"
+                        style={{ backgroundColor: getStatusColors(task).bg, color: getStatusColors(task).text }}
+                      >
+                        {getStatusLabel(task.status)}
                       </span>
                       <span className="ml-2 text-xs text-gray-500">
                         {new Date(task.created_at).toLocaleDateString()}
@@ -1,18 +1,21 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../lib/store';
 import { TaskBoardContainer } from '../components/TaskBoardContainer';
 import { useAppContext } from '../lib/AppContext';
+import { resolveTaskKey } from '../lib/services/taskService';
 import { Search } from 'lucide-react';
 import { logDebugEvent, DebugLevel, DebugEventType, logApiCall } from '../lib/debugSystem';
 
 export function Tasks() {
   const { user, agencyId, clientId, role } = useAuthStore();
   const { systemSettings } = useAppContext();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [clients, setClients] = useState<any[]>([]);
-  const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
+  const [selectedClientId, setSelectedClientId] = useState<string | null>(searchParams.get('client'));
   const [searchTerm, setSearchTerm] = useState('');
   const [filteredClients, setFilteredClients] = useState<any[]>([]);
 
@@ -30,6 +33,40 @@ export function Tasks() {
     }
   }, [role, clientId]);
 
+  // Keep the client in the URL so board links open for the right client
+  useEffect(() => {
+    if (selectedClientId && searchParams.get('client') !== selectedClientId) {
+      const params = new URLSearchParams(searchParams);
+      params.set('client', selectedClientId);
+      setSearchParams(params, { replace: true });
+    }
+  }, [selectedClientId]);
+
+  // Follow links to another client's board, e.g. one picked in the command palette
+  useEffect(() => {
+    const linkedClientId = searchParams.get('client');
+    if (!linkedClientId || linkedClientId === selectedClientId) return;
+    if (role === 'client_admin' || role === 'client_user') return;
+
+    setSelectedClientId(linkedClientId);
+  }, [searchParams.get('client')]);
+
+  // A task link can point at another client's board; follow it there
+  useEffect(() => {
+    const taskKey = searchParams.get('task');
+    if (!taskKey) return;
+
+    resolveTaskKey(taskKey)
+      .then(match => {
+        if (!match || match.client_id === selectedClientId) return;
+        if ((role === 'client_admin' || role === 'client_user') && match.client_id !== clientId) return;
+
+        setSearchParams({ client: match.client_id, board: match.board_id, task: match.task_key }, { replace: true });
+        setSelectedClientId(match.client_id);
+      })
+      .catch(err => console.error('Error resolving task key:', err));
+  }, [searchParams.get('task')]);
+
   // Filter clients based on search term
   useEffect(() => {
     if (searchTerm.trim() === '') {
@@ -101,6 +138,8 @@ export function Tasks() {
   }
 
   const handleClientChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    // Boards, views and filters belong to the previous client
+    setSearchParams(e.target.value ? { client: e.target.value } : {});
     setSelectedClientId(e.target.value);
     
     logDebugEvent(
@@ -0,0 +1,513 @@
+import { useState, useEffect } from 'react';
+import { LayoutTemplate, Trash2, Save, Play, Building2, Briefcase, Users, CheckSquare, FileText } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuthStore } from '../lib/store';
+import { useAppContext } from '../lib/AppContext';
+import { BoardTemplate, BoardTemplateTask } from '../lib/types';
+import {
+  fetchBoardTemplates,
+  fetchBoardTemplate,
+  updateBoardTemplate,
+  deleteBoardTemplate,
+  updateTemplateTask,
+  deleteTemplateTask,
+  applyBoardTemplate
+} from '../lib/services/templateService';
+import { logDebugEvent, DebugLevel, DebugEventType } from '../lib/debugSystem';
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+const accessLevelIcons = {
+  system: Building2,
+  agency: Briefcase,
+  client: Users
+};
+
+export function Templates() {
+  const { role, systemId, agencyId, clientId, getClients } = useAuthStore();
+  const { systemSettings } = useAppContext();
+  const [templates, setTemplates] = useState<BoardTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<BoardTemplate | null>(null);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [applyClientId, setApplyClientId] = useState('');
+  const [kickoffDate, setKickoffDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [boardName, setBoardName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  useEffect(() => {
+    loadTemplates();
+    loadClients();
+  }, [role, systemId, agencyId, clientId]);
+
+  async function loadTemplates() {
+    try {
+      setIsLoading(true);
+      const data = await fetchBoardTemplates({
+        systemId: role === 'system_admin' ? systemId : null,
+        agencyId,
+        clientId
+      });
+      setTemplates(data);
+    } catch (err) {
+      console.error('Error loading templates:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function loadClients() {
+    try {
+      const data = await getClients();
+      setClients(data.map(client => ({ id: client.id, name: client.name })));
+      if (data.length === 1) {
+        setApplyClientId(data[0].id);
+      }
+    } catch (err) {
+      console.error('Error loading clients:', err);
+    }
+  }
+
+  async function handleSelectTemplate(templateId: string) {
+    try {
+      setError(null);
+      setSuccess(null);
+      const template = await fetchBoardTemplate(templateId);
+      setSelectedTemplate(template);
+      setName(template.name);
+      setDescription(template.description || '');
+      setBoardName(template.name);
+    } catch (err) {
+      console.error('Error loading template:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  }
+
+  // Templates can be changed by the level that owns them or anyone above it
+  function canEditTemplate(template: BoardTemplate) {
+    if (role === 'system_admin') return true;
+    if (role === 'agency_admin') return template.access_level !== 'system';
+    if (role === 'client_admin') return template.access_level === 'client';
+    return false;
+  }
+
+  async function handleSaveDetails() {
+    if (!selectedTemplate) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await updateBoardTemplate(selectedTemplate.id, {
+        name: name.trim(),
+        description: description.trim() || null
+      });
+      setTemplates(templates.map(template =>
+        template.id === selectedTemplate.id ? { ...template, name: name.trim() } : template
+      ));
+      setSuccess('Template saved');
+    } catch (err) {
+      console.error('Error saving template:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDeleteTemplate() {
+    if (!selectedTemplate || !confirm(`Delete the "${selectedTemplate.name}" template? Boards created from it are not affected.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await deleteBoardTemplate(selectedTemplate.id);
+      setTemplates(templates.filter(template => template.id !== selectedTemplate.id));
+      setSelectedTemplate(null);
+    } catch (err) {
+      console.error('Error deleting template:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  }
+
+  async function handleTaskChange(task: BoardTemplateTask, updates: Partial<BoardTemplateTask>) {
+    if (!selectedTemplate) return;
+
+    try {
+      setError(null);
+      await updateTemplateTask(task.id, updates);
+      setSelectedTemplate({
+        ...selectedTemplate,
+        tasks: selectedTemplate.tasks?.map(t => t.id === task.id ? { ...t, ...updates } : t)
+      });
+    } catch (err) {
+      console.error('Error updating template task:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  }
+
+  async function handleDeleteTask(task: BoardTemplateTask) {
+    if (!selectedTemplate) return;
+
+    try {
+      setError(null);
+      await deleteTemplateTask(task.id);
+      setSelectedTemplate({
+        ...selectedTemplate,
+        tasks: selectedTemplate.tasks?.filter(t => t.id !== task.id)
+      });
+    } catch (err) {
+      console.error('Error deleting template task:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  }
+
+  async function handleApply() {
+    if (!selectedTemplate || !applyClientId) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      setSuccess(null);
+
+      await applyBoardTemplate(selectedTemplate.id, applyClientId, kickoffDate, { boardName });
+
+      const clientName = clients.find(client => client.id === applyClientId)?.name;
+      setSuccess(`Board "${boardName || selectedTemplate.name}" created for ${clientName}`);
+
+      logDebugEvent(
+        DebugLevel.SUCCESS,
+        DebugEventType.USER_ACTION,
+        'Board created from template',
+        { templateId: selectedTemplate.id, clientId: applyClientId, kickoffDate }
+      );
+    } catch (err) {
+      console.error('Error applying template:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // Offsets are edited as 1-based "day N" of the project, stored 0-based
+  const parseDay = (value: string) => value === '' ? null : Math.max(1, parseInt(value) || 1) - 1;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const isEditable = selectedTemplate ? canEditTemplate(selectedTemplate) : false;
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Templates
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Save a board as a template from its task board, then apply it here or when adding a client.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error</h3>
+              <div className="mt-2 text-sm text-red-700">{error}</div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {success && (
+        <div className="rounded-md bg-green-50 p-4">
+          <div className="text-sm text-green-700">{success}</div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        {/* Template List */}
+        <div className="bg-white shadow rounded-lg">
+          {templates.length === 0 ? (
+            <div className="p-6 text-center text-sm text-gray-500">
+              <LayoutTemplate className="mx-auto h-8 w-8 text-gray-400 mb-2" />
+              No templates yet
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {templates.map(template => {
+                const Icon = accessLevelIcons[template.access_level];
+                return (
+                  <li key={template.id}>
+                    <button
+                      onClick={() => handleSelectTemplate(template.id)}
+                      className="w-full px-4 py-3 text-left hover:bg-gray-50"
+                      style={selectedTemplate?.id === template.id ? { backgroundColor: `${primaryColor}10` } : {}}
+                    >
+                      <div className="text-sm font-medium text-gray-900">{template.name}</div>
+                      <div className="mt-1 flex items-center text-xs text-gray-500">
+                        <Icon className="h-3.5 w-3.5 mr-1" />
+                        <span className="capitalize">{template.access_level}</span>
+                        <span className="mx-2">·</span>
+                        {template.tasks?.length || 0} tasks
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Template Details */}
+        {selectedTemplate && (
+          <div className="lg:col-span-2 space-y-6">
+            <div className="bg-white shadow rounded-lg p-6 space-y-4">
+              <div>
+                <label htmlFor="template_name" className="block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  id="template_name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={!isEditable}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-50"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="template_description" className="block text-sm font-medium text-gray-700">
+                  Description
+                </label>
+                <textarea
+                  id="template_description"
+                  rows={2}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  disabled={!isEditable}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-50"
+                />
+              </div>
+
+              <div>
+                <span className="block text-sm font-medium text-gray-700">Columns</span>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {selectedTemplate.columns.length === 0 ? (
+                    <span className="text-sm text-gray-500">Stock columns</span>
+                  ) : (
+                    selectedTemplate.columns.map(column => (
+                      <span
+                        key={column.key}
+                        className="inline-flex items-center rounded-md px-2 py-1 text-xs font-medium text-gray-700 bg-gray-100 border-t-2"
+                        style={{ borderTopColor: column.color }}
+                      >
+                        <span className="mr-1">{column.icon}</span>
+                        {column.name}
+                      </span>
+                    ))
+                  )}
+                </div>
+              </div>
+
+              {isEditable && (
+                <div className="flex justify-between pt-2">
+                  <button
+                    type="button"
+                    onClick={handleDeleteTemplate}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Template
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSaveDetails}
+                    disabled={isSaving || !name.trim()}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+                    style={{ backgroundColor: primaryColor }}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Tasks */}
+            <div className="bg-white shadow rounded-lg overflow-hidden">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Task</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Start Day</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Due Day</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Est. Hours</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Includes</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {selectedTemplate.tasks?.map(task => (
+                    <tr key={task.id}>
+                      <td className="px-4 py-3 text-sm text-gray-900">{task.title}</td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          min="1"
+                          defaultValue={task.start_offset_days !== null ? task.start_offset_days + 1 : ''}
+                          disabled={!isEditable}
+                          onBlur={(e) => {
+                            const value = parseDay(e.target.value);
+                            if (value !== task.start_offset_days) handleTaskChange(task, { start_offset_days: value });
+                          }}
+                          className="w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-50"
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          min="1"
+                          defaultValue={task.finish_offset_days !== null ? task.finish_offset_days + 1 : ''}
+                          disabled={!isEditable}
+                          onBlur={(e) => {
+                            const value = parseDay(e.target.value);
+                            if (value !== task.finish_offset_days) handleTaskChange(task, { finish_offset_days: value });
+                          }}
+                          className="w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-50"
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.25"
+                          defaultValue={task.estimated_hours ?? ''}
+                          disabled={!isEditable}
+                          onBlur={(e) => {
+                            const value = e.target.value === '' ? null : parseFloat(e.target.value);
+                            if (value !== task.estimated_hours) handleTaskChange(task, { estimated_hours: value });
+                          }}
+                          className="w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-50"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-xs text-gray-500">
+                        <div className="flex items-center space-x-3">
+                          <span className="flex items-center" title="Checklist items">
+                            <CheckSquare className="h-3.5 w-3.5 mr-1" />
+                            {task.checklist.length}
+                          </span>
+                          <span className="flex items-center" title="Linked SOPs">
+                            <FileText className="h-3.5 w-3.5 mr-1" />
+                            {task.sop_ids.length}
+                          </span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {isEditable && (
+                          <button
+                            onClick={() => handleDeleteTask(task)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Remove from template"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {(selectedTemplate.tasks?.length || 0) === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-6 text-center text-sm text-gray-500">
+                        This template has no tasks
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Apply */}
+            {role !== 'client_user' && (
+              <div className="bg-white shadow rounded-lg p-6">
+                <h3 className="text-lg font-medium text-gray-900">Create a Board from this Template</h3>
+                <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+                  <div>
+                    <label htmlFor="apply_client" className="block text-sm font-medium text-gray-700">
+                      Client
+                    </label>
+                    <select
+                      id="apply_client"
+                      value={applyClientId}
+                      onChange={(e) => setApplyClientId(e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    >
+                      <option value="">Select a client</option>
+                      {clients.map(client => (
+                        <option key={client.id} value={client.id}>{client.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="apply_kickoff" className="block text-sm font-medium text-gray-700">
+                      Kickoff Date
+                    </label>
+                    <input
+                      type="date"
+                      id="apply_kickoff"
+                      value={kickoffDate}
+                      onChange={(e) => setKickoffDate(e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="apply_board_name" className="block text-sm font-medium text-gray-700">
+                      Board Name
+                    </label>
+                    <input
+                      type="text"
+                      id="apply_board_name"
+                      value={boardName}
+                      onChange={(e) => setBoardName(e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+                </div>
+                <div className="mt-4 flex justify-end">
+                  <button
+                    type="button"
+                    onClick={handleApply}
+                    disabled={isSaving || !applyClientId || !kickoffDate}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+                    style={{ backgroundColor: primaryColor }}
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    {isSaving ? 'Creating...' : 'Create Board'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format, addWeeks, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, Copy, Plus, Send, CheckCircle, AlertCircle } from 'lucide-react';
+import { useAuthStore } from '../lib/store';
+import { useAppContext } from '../lib/AppContext';
+import { Timesheet as TimesheetRecord } from '../lib/types';
+import {
+  TIMESHEET_STATUS_LABELS,
+  TIMESHEET_STATUS_STYLES,
+  TimesheetRow,
+  buildTimesheetRows,
+  getWeekRange,
+  getWeekStart
+} from '../lib/timesheets';
+import {
+  fetchTimesheet,
+  fetchTimesheetEntries,
+  fetchTimesheetTasks,
+  fetchTimesheetsToReview,
+  ensureTimesheet,
+  addTimesheetTask,
+  removeTimesheetTask,
+  copyPreviousTimesheetTasks,
+  setTimesheetHours,
+  submitTimesheet
+} from '../lib/services/timesheetService';
+import { searchEverything, SearchResult } from '../lib/services/searchService';
+import { TimesheetGrid } from '../components/TimesheetGrid';
+import { TimesheetApprovals } from '../components/TimesheetApprovals';
+
+const SEARCH_DELAY_MS = 200;
+
+export function Timesheet() {
+  const { user, role } = useAuthStore();
+  const { systemSettings } = useAppContext();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [timesheet, setTimesheet] = useState<TimesheetRecord | null>(null);
+  const [rows, setRows] = useState<TimesheetRow[]>([]);
+  const [reviewCount, setReviewCount] = useState(0);
+  const [taskSearch, setTaskSearch] = useState('');
+  const [taskResults, setTaskResults] = useState<SearchResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Get theme colors
+  const primaryColor = systemSettings?.primary_color || '#EF4444';
+
+  // The week and tab live in the URL, so timesheet notifications can link straight to a week
+  const weekParam = searchParams.get('week');
+  const weekStart = getWeekStart(weekParam ? parseISO(weekParam) : new Date());
+  const weekKey = format(weekStart, 'yyyy-MM-dd');
+  const showApprovals = searchParams.get('view') === 'approvals';
+  const canReview = role === 'system_admin' || role === 'agency_admin' || reviewCount > 0;
+  const isEditable = !timesheet || timesheet.status === 'open' || timesheet.status === 'rejected';
+
+  useEffect(() => {
+    fetchTimesheetsToReview()
+      .then(reviews => setReviewCount(reviews.length))
+      .catch(() => setReviewCount(0));
+  }, []);
+
+  useEffect(() => {
+    if (user?.id) loadWeek();
+  }, [user?.id, weekKey]);
+
+  useEffect(() => {
+    const term = taskSearch.trim();
+    if (term.length < 2) {
+      setTaskResults([]);
+      return;
+    }
+
+    let isCurrent = true;
+    const timeout = window.setTimeout(() => {
+      searchEverything(term, 8)
+        .then(results => {
+          if (isCurrent) setTaskResults(results.filter(result => result.kind === 'task'));
+        })
+        .catch(() => {
+          if (isCurrent) setTaskResults([]);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      isCurrent = false;
+      window.clearTimeout(timeout);
+    };
+  }, [taskSearch]);
+
+  async function loadWeek() {
+    if (!user?.id) return;
+
+    try {
+      setError(null);
+      const sheet = await fetchTimesheet(user.id, weekKey);
+      const range = getWeekRange(weekStart);
+      const [entries, pinnedTasks] = await Promise.all([
+        fetchTimesheetEntries(user.id, sheet?.starts_at || range.startsAt, sheet?.ends_at || range.endsAt),
+        sheet ? fetchTimesheetTasks(sheet.id) : Promise.resolve([])
+      ]);
+      setTimesheet(sheet);
+      setRows(buildTimesheetRows(weekStart, entries, pinnedTasks));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Runs a change against this week's timesheet, creating it first if needed, then reloads the week
+  const runAction = async (action: (timesheetId: string) => Promise<string | void>) => {
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const timesheetId = timesheet?.id || await ensureTimesheet(weekStart);
+      const successMessage = await action(timesheetId);
+      if (successMessage) setMessage(successMessage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      await loadWeek();
+      setIsWorking(false);
+    }
+  };
+
+  const changeWeek = (weeks: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('week', format(addWeeks(weekStart, weeks), 'yyyy-MM-dd'));
+    setSearchParams(next);
+    setMessage(null);
+  };
+
+  const showCurrentWeek = () => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('week');
+    setSearchParams(next);
+    setMessage(null);
+  };
+
+  const showView = (approvals: boolean) => {
+    const next = new URLSearchParams(searchParams);
+    if (approvals) {
+      next.set('view', 'approvals');
+    } else {
+      next.delete('view');
+    }
+    setSearchParams(next);
+  };
+
+  const handleAddTask = (task: SearchResult) => {
+    setTaskSearch('');
+    setTaskResults([]);
+    runAction(timesheetId => addTimesheetTask(timesheetId, task.id));
+  };
+
+  const handleCopyLastWeek = () => {
+    runAction(async timesheetId => {
+      const count = await copyPreviousTimesheetTasks(timesheetId);
+      return count > 0 ? `Copied ${count} row${count === 1 ? '' : 's'} from last week` : 'Last week has no rows to copy';
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!window.confirm('Submit this week for approval? You can\'t change it unless it is rejected.')) return;
+    runAction(async timesheetId => {
+      await submitTimesheet(timesheetId);
+      return 'Week submitted for approval';
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2" style={{ borderColor: primaryColor }}></div>
+      </div>
+    );
+  }
+
+  const status = timesheet?.status || 'open';
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Timesheet
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Your hours for the week, per task and day. Time logged with the timer shows up here too.
+          </p>
+        </div>
+        {canReview && (
+          <div className="mt-4 flex md:ml-4 md:mt-0 space-x-2">
+            <button
+              type="button"
+              onClick={() => showView(false)}
+              className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                !showApprovals
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              My Week
+            </button>
+            <button
+              type="button"
+              onClick={() => showView(true)}
+              className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-md ${
+                showApprovals
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              Approvals{reviewCount > 0 && ` (${reviewCount})`}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showApprovals && canReview ? (
+        <TimesheetApprovals onReviewed={setReviewCount} />
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center space-x-2">
+              <button
+                type="button"
+                onClick={() => changeWeek(-1)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <span className="text-sm font-medium">
+                Week of {format(weekStart, 'MMM d, yyyy')}
+              </span>
+              <button
+                type="button"
+                onClick={() => changeWeek(1)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+              {weekKey !== format(getWeekStart(new Date()), 'yyyy-MM-dd') && (
+                <button
+                  type="button"
+                  onClick={showCurrentWeek}
+                  className="text-sm font-medium"
+                  style={{ color: primaryColor }}
+                >
+                  This week
+                </button>
+              )}
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${TIMESHEET_STATUS_STYLES[status]}`}>
+                {TIMESHEET_STATUS_LABELS[status]}
+              </span>
+            </div>
+
+            {isEditable && (
+              <div className="flex items-center space-x-2">
+                <button
+                  type="button"
+                  onClick={handleCopyLastWeek}
+                  disabled={isWorking}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy Last Week
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSubmit}
+                  disabled={isWorking || rows.every(row => row.hours.every(hours => hours === 0))}
+                  className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white disabled:opacity-50"
+                  style={{ backgroundColor: primaryColor }}
+                >
+                  <Send className="h-4 w-4 mr-1" />
+                  Submit Week
+                </button>
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-red-50 p-4">
+              <div className="flex">
+                <AlertCircle className="h-5 w-5 text-red-400" />
+                <div className="ml-3 text-sm text-red-700">{error}</div>
+              </div>
+            </div>
+          )}
+
+          {message && (
+            <div className="rounded-md bg-green-50 p-4">
+              <div className="flex items-center text-sm text-green-700">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                {message}
+              </div>
+            </div>
+          )}
+
+          {timesheet?.review_comment && (status === 'rejected' || status === 'approved') && (
+            <div className={`rounded-md p-4 text-sm ${status === 'rejected' ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+              <span className="font-medium">{status === 'rejected' ? 'Rejected' : 'Approved'}:</span> {timesheet.review_comment}
+            </div>
+          )}
+
+          <TimesheetGrid
+            weekStart={weekStart}
+            rows={rows}
+            isEditable={isEditable && !isWorking}
+            onHoursChange={(taskId, day, hours) => runAction(timesheetId => setTimesheetHours(timesheetId, taskId, day, hours))}
+            onRemoveRow={(taskId) => runAction(timesheetId => removeTimesheetTask(timesheetId, taskId))}
+          />
+
+          {isEditable && (
+            <div className="relative max-w-md">
+              <div className="flex items-center">
+                <Plus className="h-4 w-4 mr-2 text-gray-400" />
+                <input
+                  type="text"
+                  value={taskSearch}
+                  onChange={(e) => setTaskSearch(e.target.value)}
+                  placeholder="Add a task row..."
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              {taskResults.length > 0 && (
+                <ul className="absolute z-10 mt-1 w-full rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 py-1">
+                  {taskResults.map(task => (
+                    <li key={task.id}>
+                      <button
+                        onClick={() => handleAddTask(task)}
+                        className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50"
+                      >
+                        {task.task_key && <span className="font-mono text-gray-500 mr-2">{task.task_key}</span>}
+                        <span className="text-gray-900">{task.title}</span>
+                        {task.subtitle && <div className="text-xs text-gray-500">{task.subtitle}</div>}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
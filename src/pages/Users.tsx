@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Plus, Pencil, Trash2, Check, X, Ban, Play } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuthStore } from '../lib/store';
@@ -28,11 +29,20 @@ export function Users() {
   const [isCreating, setIsCreating] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const linkedUserId = searchParams.get('user');
 
   useEffect(() => {
     fetchUsers();
   }, [systemId, agencyId, clientId]);
 
+  // Bring a linked user into view, e.g. one picked in the command palette
+  useEffect(() => {
+    if (linkedUserId && users.length > 0) {
+      document.getElementById(`user-${linkedUserId}`)?.scrollIntoView({ block: 'center' });
+    }
+  }, [linkedUserId, users]);
+
   async function fetchUsers() {
     try {
       setIsLoading(true);
@@ -345,7 +355,11 @@ export function Users() {
           </thead>
           <tbody className="divide-y divide-gray-200">
             {users.map((user) => (
-              <tr key={user.id} className={user.is_suspended ? 'bg-gray-50' : ''}>
+              <tr
+                key={user.id}
+                id={`user-${user.id}`}
+                className={clsx(user.is_suspended && 'bg-gray-50', user.id === linkedUserId && 'bg-yellow-50')}
+              >
                 <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-900 sm:pl-6">
                   {user.username}
                 </td>
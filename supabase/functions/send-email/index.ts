@@ -142,6 +142,20 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Attachments arrive as text, or base64 when they are binary files
+    if (Array.isArray(attachments)) {
+      attachments.forEach((attachment: { filename: string; content: string; contentType?: string; encoding?: string }) => {
+        const bytes = attachment.encoding === "base64"
+          ? Uint8Array.from(atob(attachment.content), (char) => char.charCodeAt(0))
+          : new TextEncoder().encode(attachment.content);
+        formData.append(
+          "attachment",
+          new Blob([bytes], { type: attachment.contentType || "application/octet-stream" }),
+          attachment.filename
+        );
+      });
+    }
+
     const mailgunUrl = `https://api.mailgun.net/v3/${emailSettings.domain}/messages`;
     
     // Log the API request details (excluding sensitive data)
@@ -0,0 +1,106 @@
+/*
+  # Add task dependencies
+
+  1. New Tables
+    - `task_dependencies` stores a "blocked by" relation between two tasks
+      - `task_id` is the task that is blocked
+      - `depends_on_task_id` is the task that has to be finished first
+
+  2. Changes
+    - Reject self references and duplicate links
+    - Reject links that would create a circular dependency
+    - Prevent a task from moving to `done` while a task it depends on is still open
+*/
+
+-- Create task_dependencies table if it doesn't exist
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  depends_on_task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT task_dependencies_not_self CHECK (task_id <> depends_on_task_id),
+  CONSTRAINT task_dependencies_unique UNIQUE (task_id, depends_on_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_task_id ON task_dependencies(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON task_dependencies(depends_on_task_id);
+
+-- Function to reject dependency links that would close a cycle
+CREATE OR REPLACE FUNCTION check_task_dependency_cycle()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_has_cycle BOOLEAN;
+BEGIN
+  -- Walk everything the new prerequisite depends on; if we reach the
+  -- dependent task again the new link would close a loop
+  WITH RECURSIVE upstream AS (
+    SELECT depends_on_task_id AS id
+    FROM task_dependencies
+    WHERE task_id = NEW.depends_on_task_id
+    UNION
+    SELECT td.depends_on_task_id
+    FROM task_dependencies td
+    JOIN upstream u ON td.task_id = u.id
+  )
+  SELECT EXISTS(
+    SELECT 1 FROM upstream WHERE id = NEW.task_id
+  ) INTO v_has_cycle;
+
+  IF v_has_cycle THEN
+    RAISE EXCEPTION 'Circular dependency: this task is already a prerequisite of the selected task';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'check_task_dependency_cycle_trigger'
+  ) THEN
+    CREATE TRIGGER check_task_dependency_cycle_trigger
+    BEFORE INSERT OR UPDATE
+    ON task_dependencies
+    FOR EACH ROW
+    EXECUTE FUNCTION check_task_dependency_cycle();
+  END IF;
+END $$;
+
+-- Function to block completing a task while its prerequisites are open
+CREATE OR REPLACE FUNCTION check_task_blockers_before_done()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_open_count INTEGER;
+BEGIN
+  IF NEW.status = 'done' AND OLD.status IS DISTINCT FROM 'done' THEN
+    SELECT COUNT(*) INTO v_open_count
+    FROM task_dependencies td
+    JOIN tasks t ON t.id = td.depends_on_task_id
+    WHERE td.task_id = NEW.id
+      AND t.status <> 'done';
+
+    IF v_open_count > 0 THEN
+      RAISE EXCEPTION 'Task is blocked by % open task(s)', v_open_count;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'check_task_blockers_before_done_trigger'
+  ) THEN
+    CREATE TRIGGER check_task_blockers_before_done_trigger
+    BEFORE UPDATE OF status
+    ON tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION check_task_blockers_before_done();
+  END IF;
+END $$;
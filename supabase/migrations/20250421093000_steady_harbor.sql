@@ -0,0 +1,82 @@
+/*
+  # Add recurring tasks
+
+  1. New Tables
+    - `task_recurrences` stores the schedule of a recurring task series
+      - daily, weekly on given weekdays, monthly on the nth weekday, or a custom interval
+      - ends on a date, after a number of occurrences, or never
+
+  2. Changes
+    - Add `recurrence_id` and `recurrence_index` to `tasks` so every generated
+      instance knows which series it belongs to and its position in it
+*/
+
+-- Create task_recurrences table if it doesn't exist
+CREATE TABLE IF NOT EXISTS task_recurrences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'custom')),
+  interval INTEGER NOT NULL DEFAULT 1 CHECK (interval > 0),
+  interval_unit TEXT NOT NULL DEFAULT 'day' CHECK (interval_unit IN ('day', 'week', 'month')),
+  weekdays INTEGER[] NOT NULL DEFAULT '{}',
+  month_week INTEGER CHECK (month_week IN (-1, 1, 2, 3, 4)),
+  month_weekday INTEGER CHECK (month_weekday BETWEEN 0 AND 6),
+  end_date DATE,
+  max_occurrences INTEGER CHECK (max_occurrences > 0),
+  occurrences_created INTEGER NOT NULL DEFAULT 1,
+  last_occurrence_date DATE NOT NULL,
+  next_due_date DATE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_recurrences_board_due
+  ON task_recurrences(board_id, next_due_date)
+  WHERE is_active;
+
+-- Link tasks to their recurrence series
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'recurrence_id'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN recurrence_id UUID REFERENCES task_recurrences(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'recurrence_index'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN recurrence_index INTEGER;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_id ON tasks(recurrence_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_task_recurrences_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_task_recurrences_updated_at_trigger'
+  ) THEN
+    CREATE TRIGGER update_task_recurrences_updated_at_trigger
+    BEFORE UPDATE
+    ON task_recurrences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_task_recurrences_updated_at();
+  END IF;
+END $$;
@@ -0,0 +1,211 @@
+/*
+  # Add board and task templates
+
+  1. New Tables
+    - `board_templates` captures a board's columns, scoped to a system, agency or client like SOPs
+    - `board_template_tasks` stores the tasks of a template
+      - start and finish dates are day offsets from the kickoff date
+      - estimates, checklist items and linked SOPs are copied onto every task created from it
+
+  2. New Functions
+    - `apply_board_template` builds a complete board for a client from a template in one
+      transaction, anchoring every task date to the chosen kickoff date
+*/
+
+-- Create board_templates table if it doesn't exist
+CREATE TABLE IF NOT EXISTS board_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  access_level TEXT NOT NULL CHECK (access_level IN ('system', 'agency', 'client')),
+  system_id UUID REFERENCES systems(id) ON DELETE CASCADE,
+  agency_id UUID REFERENCES agencies(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  columns JSONB NOT NULL DEFAULT '[]',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT board_templates_scope CHECK (
+    (access_level = 'system' AND system_id IS NOT NULL) OR
+    (access_level = 'agency' AND agency_id IS NOT NULL) OR
+    (access_level = 'client' AND client_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_templates_agency_id ON board_templates(agency_id);
+CREATE INDEX IF NOT EXISTS idx_board_templates_client_id ON board_templates(client_id);
+
+-- Create board_template_tasks table if it doesn't exist
+CREATE TABLE IF NOT EXISTS board_template_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES board_templates(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'inbox',
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  start_offset_days INTEGER,
+  finish_offset_days INTEGER,
+  estimated_hours NUMERIC(10,2),
+  estimated_cost NUMERIC(10,2),
+  checklist JSONB NOT NULL DEFAULT '[]',
+  sop_ids UUID[] NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT board_template_tasks_offsets CHECK (
+    start_offset_days IS NULL OR finish_offset_days IS NULL OR finish_offset_days >= start_offset_days
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_template_tasks_template_id ON board_template_tasks(template_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_board_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_board_templates_updated_at_trigger'
+  ) THEN
+    CREATE TRIGGER update_board_templates_updated_at_trigger
+    BEFORE UPDATE
+    ON board_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_board_templates_updated_at();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_board_template_tasks_updated_at_trigger'
+  ) THEN
+    CREATE TRIGGER update_board_template_tasks_updated_at_trigger
+    BEFORE UPDATE
+    ON board_template_tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_board_templates_updated_at();
+  END IF;
+END $$;
+
+-- Build a client board from a template
+CREATE OR REPLACE FUNCTION apply_board_template(
+  p_template_id UUID,
+  p_client_id UUID,
+  p_kickoff_date DATE,
+  p_board_name TEXT DEFAULT NULL,
+  p_is_default BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+  v_template board_templates%ROWTYPE;
+  v_template_task board_template_tasks%ROWTYPE;
+  v_agency_id UUID;
+  v_board_id UUID;
+  v_task_id UUID;
+  v_column JSONB;
+  v_position INTEGER := 0;
+  v_item JSONB;
+  v_item_id UUID;
+  v_item_ids JSONB;
+BEGIN
+  SELECT * INTO v_template FROM board_templates WHERE id = p_template_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  SELECT agency_id INTO v_agency_id FROM clients WHERE id = p_client_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  INSERT INTO boards (client_id, name, description, is_default)
+  VALUES (
+    p_client_id,
+    COALESCE(NULLIF(TRIM(p_board_name), ''), v_template.name),
+    v_template.description,
+    p_is_default
+  )
+  RETURNING id INTO v_board_id;
+
+  -- Replace any stock columns the new board was given with the template's own
+  IF jsonb_array_length(v_template.columns) > 0 THEN
+    DELETE FROM board_columns WHERE board_id = v_board_id;
+
+    FOR v_column IN SELECT * FROM jsonb_array_elements(v_template.columns) LOOP
+      INSERT INTO board_columns (board_id, name, key, color, icon, position)
+      VALUES (
+        v_board_id,
+        v_column->>'name',
+        v_column->>'key',
+        COALESCE(v_column->>'color', '#94A3B8'),
+        COALESCE(v_column->>'icon', '📋'),
+        v_position
+      );
+      v_position := v_position + 1;
+    END LOOP;
+  END IF;
+
+  FOR v_template_task IN
+    SELECT * FROM board_template_tasks WHERE template_id = p_template_id ORDER BY position
+  LOOP
+    INSERT INTO tasks (
+      title,
+      description,
+      status,
+      priority,
+      start_date,
+      finish_date,
+      estimated_hours,
+      estimated_cost,
+      position,
+      board_id,
+      client_id,
+      agency_id
+    ) VALUES (
+      v_template_task.title,
+      v_template_task.description,
+      v_template_task.status,
+      v_template_task.priority,
+      p_kickoff_date + v_template_task.start_offset_days,
+      p_kickoff_date + v_template_task.finish_offset_days,
+      v_template_task.estimated_hours,
+      v_template_task.estimated_cost,
+      v_template_task.position,
+      v_board_id,
+      p_client_id,
+      v_agency_id
+    )
+    RETURNING id INTO v_task_id;
+
+    -- Checklist items are stored parents first, so a parent's new id is known before its children
+    v_item_ids := '{}'::JSONB;
+    FOR v_item IN SELECT * FROM jsonb_array_elements(v_template_task.checklist) LOOP
+      INSERT INTO task_checklist_items (task_id, text, is_completed, position, parent_id)
+      VALUES (
+        v_task_id,
+        v_item->>'text',
+        FALSE,
+        COALESCE((v_item->>'position')::INTEGER, 0),
+        (v_item_ids->>(v_item->>'parent_ref'))::UUID
+      )
+      RETURNING id INTO v_item_id;
+
+      v_item_ids := v_item_ids || jsonb_build_object(v_item->>'ref', v_item_id);
+    END LOOP;
+
+    -- Skip SOPs that have been deleted since the template was saved
+    INSERT INTO task_sops (task_id, sop_id)
+    SELECT v_task_id, s.sop_id
+    FROM unnest(v_template_task.sop_ids) AS s(sop_id)
+    WHERE EXISTS (SELECT 1 FROM sops WHERE sops.id = s.sop_id);
+  END LOOP;
+
+  RETURN v_board_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
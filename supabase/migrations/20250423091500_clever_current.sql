@@ -0,0 +1,287 @@
+/*
+  # Per-board workflows
+
+  1. Changes
+    - Add `category` to `board_columns` (backlog, active or completed) so any custom column
+      can be understood by reports, overdue checks and calendars
+    - Add `status_category` to `tasks`, kept in sync with the category of the task's column
+    - Dependency blocking now applies to any completed column instead of the `done` key
+    - Board templates carry column categories
+
+  2. Data Migration
+    - Existing stock columns are categorised by key (`inbox`/`todo` backlog, `doing` active,
+      `done` completed); other custom columns default to active
+    - Boards without any columns get the stock columns
+    - Tasks whose status doesn't match a column on their board are moved to its first backlog column
+*/
+
+-- Add category to board columns
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'board_columns' AND column_name = 'category'
+  ) THEN
+    ALTER TABLE board_columns ADD COLUMN category TEXT NOT NULL DEFAULT 'active'
+      CHECK (category IN ('backlog', 'active', 'completed'));
+
+    UPDATE board_columns
+    SET category = CASE key
+      WHEN 'inbox' THEN 'backlog'
+      WHEN 'todo' THEN 'backlog'
+      WHEN 'done' THEN 'completed'
+      ELSE 'active'
+    END;
+  END IF;
+END $$;
+
+-- Give boards without columns the stock workflow
+INSERT INTO board_columns (board_id, name, key, color, icon, position, category)
+SELECT b.id, stock.name, stock.key, stock.color, stock.icon, stock.position, stock.category
+FROM boards b
+CROSS JOIN (
+  VALUES
+    ('Inbox', 'inbox', '#94A3B8', '📥', 0, 'backlog'),
+    ('To Do', 'todo', '#3B82F6', '📋', 1, 'backlog'),
+    ('Doing', 'doing', '#F59E0B', '🔨', 2, 'active'),
+    ('Done', 'done', '#10B981', '✅', 3, 'completed')
+) AS stock(name, key, color, icon, position, category)
+WHERE NOT EXISTS (SELECT 1 FROM board_columns bc WHERE bc.board_id = b.id);
+
+-- Add status_category to tasks
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'status_category'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN status_category TEXT
+      CHECK (status_category IN ('backlog', 'active', 'completed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_status_category ON tasks(status_category);
+
+-- Resolve a task's status against its board's columns
+CREATE OR REPLACE FUNCTION assign_task_status_category()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_category TEXT;
+  v_key TEXT;
+BEGIN
+  SELECT category INTO v_category
+  FROM board_columns
+  WHERE board_id = NEW.board_id AND key = NEW.status;
+
+  -- Unknown status for this board (deleted column, moved task, old data): use the first backlog column
+  IF v_category IS NULL THEN
+    SELECT key, category INTO v_key, v_category
+    FROM board_columns
+    WHERE board_id = NEW.board_id
+    ORDER BY (category = 'backlog') DESC, position
+    LIMIT 1;
+
+    IF v_key IS NOT NULL THEN
+      NEW.status := v_key;
+    END IF;
+  END IF;
+
+  NEW.status_category := COALESCE(v_category, 'backlog');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named so it fires before check_task_blockers_before_done_trigger, which relies on status_category
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'assign_task_status_category_trigger'
+  ) THEN
+    CREATE TRIGGER assign_task_status_category_trigger
+    BEFORE INSERT OR UPDATE OF status, board_id
+    ON tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_task_status_category();
+  END IF;
+END $$;
+
+-- Keep tasks in sync when a column is recategorised or renamed
+CREATE OR REPLACE FUNCTION sync_task_status_category()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.category IS DISTINCT FROM OLD.category OR NEW.key IS DISTINCT FROM OLD.key THEN
+    UPDATE tasks
+    SET status = NEW.key,
+        status_category = NEW.category
+    WHERE board_id = NEW.board_id
+      AND status = OLD.key;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'sync_task_status_category_trigger'
+  ) THEN
+    CREATE TRIGGER sync_task_status_category_trigger
+    AFTER UPDATE OF category, key
+    ON board_columns
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_task_status_category();
+  END IF;
+END $$;
+
+-- Backfill existing tasks through the trigger
+UPDATE tasks SET status = status WHERE status_category IS NULL;
+
+-- Block moving into any completed column while prerequisites are open
+CREATE OR REPLACE FUNCTION check_task_blockers_before_done()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_open_count INTEGER;
+BEGIN
+  IF NEW.status_category = 'completed' AND OLD.status_category IS DISTINCT FROM 'completed' THEN
+    SELECT COUNT(*) INTO v_open_count
+    FROM task_dependencies td
+    JOIN tasks t ON t.id = td.depends_on_task_id
+    WHERE td.task_id = NEW.id
+      AND t.status_category IS DISTINCT FROM 'completed';
+
+    IF v_open_count > 0 THEN
+      RAISE EXCEPTION 'Task is blocked by % open task(s)', v_open_count;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Build a client board from a template, including column categories
+CREATE OR REPLACE FUNCTION apply_board_template(
+  p_template_id UUID,
+  p_client_id UUID,
+  p_kickoff_date DATE,
+  p_board_name TEXT DEFAULT NULL,
+  p_is_default BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+  v_template board_templates%ROWTYPE;
+  v_template_task board_template_tasks%ROWTYPE;
+  v_agency_id UUID;
+  v_board_id UUID;
+  v_task_id UUID;
+  v_column JSONB;
+  v_position INTEGER := 0;
+  v_item JSONB;
+  v_item_id UUID;
+  v_item_ids JSONB;
+BEGIN
+  SELECT * INTO v_template FROM board_templates WHERE id = p_template_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  SELECT agency_id INTO v_agency_id FROM clients WHERE id = p_client_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  INSERT INTO boards (client_id, name, description, is_default)
+  VALUES (
+    p_client_id,
+    COALESCE(NULLIF(TRIM(p_board_name), ''), v_template.name),
+    v_template.description,
+    p_is_default
+  )
+  RETURNING id INTO v_board_id;
+
+  -- Replace any stock columns the new board was given with the template's own
+  IF jsonb_array_length(v_template.columns) > 0 THEN
+    DELETE FROM board_columns WHERE board_id = v_board_id;
+
+    FOR v_column IN SELECT * FROM jsonb_array_elements(v_template.columns) LOOP
+      INSERT INTO board_columns (board_id, name, key, color, icon, position, category)
+      VALUES (
+        v_board_id,
+        v_column->>'name',
+        v_column->>'key',
+        COALESCE(v_column->>'color', '#94A3B8'),
+        COALESCE(v_column->>'icon', '📋'),
+        v_position,
+        COALESCE(v_column->>'category', 'active')
+      );
+      v_position := v_position + 1;
+    END LOOP;
+  ELSIF NOT EXISTS (SELECT 1 FROM board_columns WHERE board_id = v_board_id) THEN
+    INSERT INTO board_columns (board_id, name, key, color, icon, position, category)
+    VALUES
+      (v_board_id, 'Inbox', 'inbox', '#94A3B8', '📥', 0, 'backlog'),
+      (v_board_id, 'To Do', 'todo', '#3B82F6', '📋', 1, 'backlog'),
+      (v_board_id, 'Doing', 'doing', '#F59E0B', '🔨', 2, 'active'),
+      (v_board_id, 'Done', 'done', '#10B981', '✅', 3, 'completed');
+  END IF;
+
+  FOR v_template_task IN
+    SELECT * FROM board_template_tasks WHERE template_id = p_template_id ORDER BY position
+  LOOP
+    INSERT INTO tasks (
+      title,
+      description,
+      status,
+      priority,
+      start_date,
+      finish_date,
+      estimated_hours,
+      estimated_cost,
+      position,
+      board_id,
+      client_id,
+      agency_id
+    ) VALUES (
+      v_template_task.title,
+      v_template_task.description,
+      v_template_task.status,
+      v_template_task.priority,
+      p_kickoff_date + v_template_task.start_offset_days,
+      p_kickoff_date + v_template_task.finish_offset_days,
+      v_template_task.estimated_hours,
+      v_template_task.estimated_cost,
+      v_template_task.position,
+      v_board_id,
+      p_client_id,
+      v_agency_id
+    )
+    RETURNING id INTO v_task_id;
+
+    -- Checklist items are stored parents first, so a parent's new id is known before its children
+    v_item_ids := '{}'::JSONB;
+    FOR v_item IN SELECT * FROM jsonb_array_elements(v_template_task.checklist) LOOP
+      INSERT INTO task_checklist_items (task_id, text, is_completed, position, parent_id)
+      VALUES (
+        v_task_id,
+        v_item->>'text',
+        FALSE,
+        COALESCE((v_item->>'position')::INTEGER, 0),
+        (v_item_ids->>(v_item->>'parent_ref'))::UUID
+      )
+      RETURNING id INTO v_item_id;
+
+      v_item_ids := v_item_ids || jsonb_build_object(v_item->>'ref', v_item_id);
+    END LOOP;
+
+    -- Skip SOPs that have been deleted since the template was saved
+    INSERT INTO task_sops (task_id, sop_id)
+    SELECT v_task_id, s.sop_id
+    FROM unnest(v_template_task.sop_ids) AS s(sop_id)
+    WHERE EXISTS (SELECT 1 FROM sops WHERE sops.id = s.sop_id);
+  END LOOP;
+
+  RETURN v_board_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
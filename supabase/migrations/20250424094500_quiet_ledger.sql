@@ -0,0 +1,80 @@
+/*
+  # Add custom fields on tasks
+
+  1. New Tables
+    - `custom_fields` holds the field definitions of a board
+      - `field_type` is one of text, number, currency, date, single_select, multi_select, user, checkbox
+      - `options` lists the choices of select fields as `{ id, label, color }`
+      - `position` orders the fields in forms and list columns
+      - `is_archived` hides a field without dropping the values already recorded
+    - `task_custom_field_values` stores one JSONB value per task and field
+
+  2. Changes
+    - Archived fields keep their values; only deleting the board or task removes them
+*/
+
+-- Create custom_fields table if it doesn't exist
+CREATE TABLE IF NOT EXISTS custom_fields (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  field_type TEXT NOT NULL CHECK (
+    field_type IN ('text', 'number', 'currency', 'date', 'single_select', 'multi_select', 'user', 'checkbox')
+  ),
+  options JSONB NOT NULL DEFAULT '[]'::JSONB,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_fields_board_id ON custom_fields(board_id);
+
+-- Create task_custom_field_values table if it doesn't exist
+CREATE TABLE IF NOT EXISTS task_custom_field_values (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  field_id UUID NOT NULL REFERENCES custom_fields(id) ON DELETE CASCADE,
+  value JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT task_custom_field_values_unique UNIQUE (task_id, field_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_custom_field_values_task_id ON task_custom_field_values(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_custom_field_values_field_id ON task_custom_field_values(field_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_custom_fields_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_custom_fields_updated_at_trigger'
+  ) THEN
+    CREATE TRIGGER update_custom_fields_updated_at_trigger
+    BEFORE UPDATE
+    ON custom_fields
+    FOR EACH ROW
+    EXECUTE FUNCTION update_custom_fields_updated_at();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_task_custom_field_values_updated_at_trigger'
+  ) THEN
+    CREATE TRIGGER update_task_custom_field_values_updated_at_trigger
+    BEFORE UPDATE
+    ON task_custom_field_values
+    FOR EACH ROW
+    EXECUTE FUNCTION update_custom_fields_updated_at();
+  END IF;
+END $$;
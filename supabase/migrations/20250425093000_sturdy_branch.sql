@@ -0,0 +1,145 @@
+/*
+  # Add subtasks
+
+  1. Changes
+    - Add `parent_task_id` to `tasks` so a task can be the subtask of another task on the same board
+    - Subtasks are one level deep: a subtask can't have subtasks of its own
+    - Deleting a parent task deletes its subtasks
+
+  2. New Functions
+    - `promote_checklist_item_to_subtask` turns a checklist item into a subtask of the item's task.
+      The item's own sub-items become the new subtask's checklist.
+*/
+
+-- Add parent_task_id to tasks
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'parent_task_id'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN parent_task_id UUID REFERENCES tasks(id) ON DELETE CASCADE
+      CHECK (parent_task_id <> id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON tasks(parent_task_id);
+
+-- Keep subtasks one level deep and on their parent's board
+CREATE OR REPLACE FUNCTION check_task_parent()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_parent tasks%ROWTYPE;
+BEGIN
+  IF NEW.parent_task_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM tasks WHERE id = NEW.parent_task_id;
+
+  IF v_parent.parent_task_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A subtask cannot have subtasks of its own';
+  END IF;
+
+  IF v_parent.board_id IS DISTINCT FROM NEW.board_id THEN
+    RAISE EXCEPTION 'A subtask must be on the same board as its parent task';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND EXISTS (SELECT 1 FROM tasks WHERE parent_task_id = NEW.id) THEN
+    RAISE EXCEPTION 'A task with subtasks cannot become a subtask';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'check_task_parent_trigger'
+  ) THEN
+    CREATE TRIGGER check_task_parent_trigger
+    BEFORE INSERT OR UPDATE OF parent_task_id, board_id
+    ON tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION check_task_parent();
+  END IF;
+END $$;
+
+-- Turn a checklist item into a subtask of the item's task
+CREATE OR REPLACE FUNCTION promote_checklist_item_to_subtask(p_item_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_item task_checklist_items%ROWTYPE;
+  v_parent tasks%ROWTYPE;
+  v_status TEXT;
+  v_position INTEGER;
+  v_task_id UUID;
+BEGIN
+  SELECT * INTO v_item FROM task_checklist_items WHERE id = p_item_id;
+
+  IF v_item.id IS NULL THEN
+    RAISE EXCEPTION 'Checklist item not found';
+  END IF;
+
+  SELECT * INTO v_parent FROM tasks WHERE id = v_item.task_id;
+
+  -- Items on a subtask become siblings rather than a second level of subtasks
+  IF v_parent.parent_task_id IS NOT NULL THEN
+    SELECT * INTO v_parent FROM tasks WHERE id = v_parent.parent_task_id;
+  END IF;
+
+  -- New subtasks start in the board's first backlog column, like any new task
+  SELECT key INTO v_status
+  FROM board_columns
+  WHERE board_id = v_parent.board_id
+  ORDER BY (category = 'backlog') DESC, position
+  LIMIT 1;
+
+  SELECT COALESCE(MAX(position) + 1, 0) INTO v_position
+  FROM tasks
+  WHERE board_id = v_parent.board_id AND status = COALESCE(v_status, 'inbox');
+
+  INSERT INTO tasks (
+    title,
+    description,
+    status,
+    priority,
+    position,
+    board_id,
+    client_id,
+    agency_id,
+    parent_task_id
+  ) VALUES (
+    v_item.text,
+    '',
+    COALESCE(v_status, 'inbox'),
+    'medium',
+    v_position,
+    v_parent.board_id,
+    v_parent.client_id,
+    v_parent.agency_id,
+    v_parent.id
+  )
+  RETURNING id INTO v_task_id;
+
+  -- The item's sub-items become the new subtask's checklist
+  WITH RECURSIVE descendants AS (
+    SELECT id FROM task_checklist_items WHERE parent_id = p_item_id
+    UNION ALL
+    SELECT i.id FROM task_checklist_items i JOIN descendants d ON i.parent_id = d.id
+  )
+  UPDATE task_checklist_items
+  SET task_id = v_task_id
+  WHERE id IN (SELECT id FROM descendants);
+
+  UPDATE task_checklist_items
+  SET parent_id = NULL
+  WHERE parent_id = p_item_id;
+
+  DELETE FROM task_checklist_items WHERE id = p_item_id;
+
+  RETURN v_task_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
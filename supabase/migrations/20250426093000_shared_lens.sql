@@ -0,0 +1,50 @@
+/*
+  # Add saved board views
+
+  1. New Tables
+    - `saved_views` stores named slices of a board
+      - `state` holds the view type, search term, filters, sort and grouping
+      - `is_shared` views are listed for everyone with access to the board's client;
+        other views are only listed for the user who created them
+
+  2. Changes
+    - Views are deleted with their board
+*/
+
+-- Create saved_views table if it doesn't exist
+CREATE TABLE IF NOT EXISTS saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  board_id UUID NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  state JSONB NOT NULL DEFAULT '{}'::JSONB,
+  is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_views_board_id ON saved_views(board_id);
+CREATE INDEX IF NOT EXISTS idx_saved_views_created_by ON saved_views(created_by);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_saved_views_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_saved_views_updated_at_trigger'
+  ) THEN
+    CREATE TRIGGER update_saved_views_updated_at_trigger
+    BEFORE UPDATE
+    ON saved_views
+    FOR EACH ROW
+    EXECUTE FUNCTION update_saved_views_updated_at();
+  END IF;
+END $$;
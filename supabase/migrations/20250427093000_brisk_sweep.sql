@@ -0,0 +1,267 @@
+/*
+  # Add bulk task editing
+
+  1. New Tables
+    - `task_activities` records who changed what on a task
+      - `details` holds `{ field: { from, to } }` for every changed field
+      - `batch_id` groups the entries written by one bulk change so it can be undone as a whole
+    - `task_tags` holds each client's task tags
+    - `task_tag_assignments` links tags to tasks
+
+  2. New Functions
+    - `bulk_update_tasks` applies one set of changes to many tasks in a single transaction and
+      records one activity per changed task. Moving a parent task to another board takes its
+      subtasks along; a subtask moved without its parent becomes a top-level task.
+    - `undo_task_batch` reverts a bulk change from its activity entries, for a short while after it was made
+*/
+
+-- Create task_activities table if it doesn't exist
+CREATE TABLE IF NOT EXISTS task_activities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_email TEXT,
+  action TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::JSONB,
+  batch_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_activities_task_id ON task_activities(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_activities_batch_id ON task_activities(batch_id);
+
+-- Create task_tags table if it doesn't exist
+CREATE TABLE IF NOT EXISTS task_tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#6B7280',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (client_id, name)
+);
+
+-- Create task_tag_assignments table if it doesn't exist
+CREATE TABLE IF NOT EXISTS task_tag_assignments (
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES task_tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (task_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_tag_assignments_tag_id ON task_tag_assignments(tag_id);
+
+-- Tag names on a task, sorted so before and after lists compare cleanly
+CREATE OR REPLACE FUNCTION get_task_tag_names(p_task_id UUID)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(tt.name ORDER BY tt.name), '{}')
+  FROM task_tag_assignments tta
+  JOIN task_tags tt ON tt.id = tta.tag_id
+  WHERE tta.task_id = p_task_id;
+$$ LANGUAGE sql STABLE;
+
+-- Replace a task's tags with the given names, creating any tags the client doesn't have yet
+CREATE OR REPLACE FUNCTION set_task_tag_names(p_task_id UUID, p_names TEXT[])
+RETURNS VOID AS $$
+DECLARE
+  v_client_id UUID;
+BEGIN
+  SELECT client_id INTO v_client_id FROM tasks WHERE id = p_task_id;
+
+  INSERT INTO task_tags (client_id, name)
+  SELECT v_client_id, name FROM unnest(p_names) AS name
+  ON CONFLICT (client_id, name) DO NOTHING;
+
+  DELETE FROM task_tag_assignments WHERE task_id = p_task_id;
+
+  INSERT INTO task_tag_assignments (task_id, tag_id)
+  SELECT p_task_id, id FROM task_tags
+  WHERE client_id = v_client_id AND name = ANY(p_names);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Apply one set of changes to many tasks and return the batch id to undo it with
+CREATE OR REPLACE FUNCTION bulk_update_tasks(p_task_ids UUID[], p_changes JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_batch_id UUID := gen_random_uuid();
+  v_user_email TEXT;
+  v_task tasks%ROWTYPE;
+  v_new tasks%ROWTYPE;
+  v_field TEXT;
+  v_details JSONB;
+  v_shift INTERVAL;
+  v_tags_from TEXT[];
+  v_tags_to TEXT[];
+BEGIN
+  SELECT email INTO v_user_email FROM user_roles WHERE user_id = auth.uid() LIMIT 1;
+
+  IF p_changes ? 'shift_days' THEN
+    v_shift := make_interval(days => (p_changes->>'shift_days')::INTEGER);
+  END IF;
+
+  -- Parents go first so their subtasks can follow them to another board
+  FOR v_task IN
+    SELECT * FROM tasks
+    WHERE id = ANY(p_task_ids)
+      OR (p_changes ? 'board_id' AND parent_task_id = ANY(p_task_ids))
+    ORDER BY parent_task_id NULLS FIRST
+  LOOP
+    v_new := v_task;
+
+    IF p_changes ? 'status' THEN
+      v_new.status := p_changes->>'status';
+    END IF;
+
+    IF p_changes ? 'priority' THEN
+      v_new.priority := p_changes->>'priority';
+    END IF;
+
+    IF p_changes ? 'assigned_to' THEN
+      v_new.assigned_to := (p_changes->>'assigned_to')::UUID;
+    END IF;
+
+    IF p_changes ? 'start_date' THEN
+      v_new.start_date := (p_changes->>'start_date')::TIMESTAMPTZ;
+    END IF;
+
+    IF p_changes ? 'finish_date' THEN
+      v_new.finish_date := (p_changes->>'finish_date')::TIMESTAMPTZ;
+    END IF;
+
+    IF v_shift IS NOT NULL THEN
+      v_new.start_date := v_new.start_date + v_shift;
+      v_new.finish_date := v_new.finish_date + v_shift;
+    END IF;
+
+    IF p_changes ? 'board_id' THEN
+      v_new.board_id := (p_changes->>'board_id')::UUID;
+
+      IF v_task.parent_task_id IS NOT NULL AND NOT v_task.parent_task_id = ANY(p_task_ids) THEN
+        v_new.parent_task_id := NULL;
+      END IF;
+    END IF;
+
+    -- Status triggers may adjust the new values (e.g. an unknown status on the target board), so log what was stored
+    UPDATE tasks
+    SET status = v_new.status,
+        priority = v_new.priority,
+        assigned_to = v_new.assigned_to,
+        start_date = v_new.start_date,
+        finish_date = v_new.finish_date,
+        board_id = v_new.board_id,
+        parent_task_id = v_new.parent_task_id,
+        updated_at = NOW()
+    WHERE id = v_task.id
+    RETURNING * INTO v_new;
+
+    v_details := '{}'::JSONB;
+    FOREACH v_field IN ARRAY ARRAY['status', 'priority', 'assigned_to', 'start_date', 'finish_date', 'board_id', 'parent_task_id'] LOOP
+      IF to_jsonb(v_task)->v_field IS DISTINCT FROM to_jsonb(v_new)->v_field THEN
+        v_details := v_details || jsonb_build_object(
+          v_field,
+          jsonb_build_object('from', to_jsonb(v_task)->v_field, 'to', to_jsonb(v_new)->v_field)
+        );
+      END IF;
+    END LOOP;
+
+    IF p_changes ? 'add_tags' OR p_changes ? 'remove_tags' THEN
+      v_tags_from := get_task_tag_names(v_task.id);
+
+      SELECT COALESCE(array_agg(DISTINCT name ORDER BY name), '{}') INTO v_tags_to
+      FROM (
+        SELECT unnest(v_tags_from) AS name
+        UNION
+        SELECT jsonb_array_elements_text(COALESCE(p_changes->'add_tags', '[]'::JSONB))
+      ) names
+      WHERE name NOT IN (SELECT jsonb_array_elements_text(COALESCE(p_changes->'remove_tags', '[]'::JSONB)));
+
+      IF v_tags_to IS DISTINCT FROM v_tags_from THEN
+        PERFORM set_task_tag_names(v_task.id, v_tags_to);
+        v_details := v_details || jsonb_build_object(
+          'tags',
+          jsonb_build_object('from', to_jsonb(v_tags_from), 'to', to_jsonb(v_tags_to))
+        );
+      END IF;
+    END IF;
+
+    IF v_details <> '{}'::JSONB THEN
+      INSERT INTO task_activities (task_id, user_id, user_email, action, details, batch_id)
+      VALUES (v_task.id, auth.uid(), v_user_email, 'bulk_updated', v_details, v_batch_id);
+    END IF;
+  END LOOP;
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Put every task touched by a bulk change back the way it was
+CREATE OR REPLACE FUNCTION undo_task_batch(p_batch_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_user_email TEXT;
+  v_activity task_activities%ROWTYPE;
+  v_task tasks%ROWTYPE;
+  v_restored tasks%ROWTYPE;
+  v_undone_details JSONB;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM task_activities
+    WHERE batch_id = p_batch_id AND action = 'bulk_undone'
+  ) THEN
+    RAISE EXCEPTION 'This change has already been undone';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM task_activities
+    WHERE batch_id = p_batch_id AND created_at < NOW() - INTERVAL '10 minutes'
+  ) THEN
+    RAISE EXCEPTION 'This change can no longer be undone';
+  END IF;
+
+  SELECT email INTO v_user_email FROM user_roles WHERE user_id = auth.uid() LIMIT 1;
+
+  -- Parents go back first so detached subtasks can rejoin them
+  FOR v_activity IN
+    SELECT ta.* FROM task_activities ta
+    JOIN tasks t ON t.id = ta.task_id
+    WHERE ta.batch_id = p_batch_id AND ta.action = 'bulk_updated'
+    ORDER BY COALESCE(ta.details->'parent_task_id'->>'from', t.parent_task_id::TEXT) NULLS FIRST
+  LOOP
+    SELECT * INTO v_task FROM tasks WHERE id = v_activity.task_id;
+
+    SELECT * INTO v_restored
+    FROM jsonb_populate_record(
+      v_task,
+      COALESCE(
+        (SELECT jsonb_object_agg(key, value->'from') FROM jsonb_each(v_activity.details) WHERE key <> 'tags'),
+        '{}'::JSONB
+      )
+    );
+
+    UPDATE tasks
+    SET status = v_restored.status,
+        priority = v_restored.priority,
+        assigned_to = v_restored.assigned_to,
+        start_date = v_restored.start_date,
+        finish_date = v_restored.finish_date,
+        board_id = v_restored.board_id,
+        parent_task_id = v_restored.parent_task_id,
+        updated_at = NOW()
+    WHERE id = v_task.id;
+
+    IF v_activity.details ? 'tags' THEN
+      PERFORM set_task_tag_names(
+        v_task.id,
+        ARRAY(SELECT jsonb_array_elements_text(v_activity.details->'tags'->'from'))
+      );
+    END IF;
+
+    SELECT jsonb_object_agg(key, jsonb_build_object('from', value->'to', 'to', value->'from'))
+    INTO v_undone_details
+    FROM jsonb_each(v_activity.details);
+
+    INSERT INTO task_activities (task_id, user_id, user_email, action, details, batch_id)
+    VALUES (v_task.id, auth.uid(), v_user_email, 'bulk_undone', v_undone_details, p_batch_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,263 @@
+/*
+  # Move and copy tasks across boards and clients
+
+  1. New Functions
+    - `can_access_client` and `can_manage_client_tasks` check a user's role against a client.
+      Managing tasks needs an admin role with access to the client.
+    - `map_task_status` picks the column on a board that best matches a task's status: the same
+      key, then the first column of the same category, then the first backlog column
+    - `move_task_to_board` moves a task and its subtasks to another board, of the same or another client
+    - `copy_task_to_board` copies a task with its checklist, SOP links, tags and optionally its
+      attachments (linked to the same files) to another board
+
+  2. Notes
+    - Both sides of a move or copy must be manageable by the current user
+    - Assignees who can't access the destination client are unassigned
+    - Tags belong to a client, so they are matched by name on the destination client
+    - Custom field values are kept on move, like archived fields, and copied only within a board
+*/
+
+-- Whether a user can see a client's work, based on their role
+CREATE OR REPLACE FUNCTION can_access_client(p_user_id UUID, p_client_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN clients c ON c.id = p_client_id
+    LEFT JOIN agencies a ON a.id = c.agency_id
+    WHERE ur.user_id = p_user_id
+      AND (
+        (ur.role = 'system_admin' AND (ur.system_id IS NULL OR ur.system_id = a.system_id))
+        OR (ur.role = 'agency_admin' AND ur.agency_id = c.agency_id)
+        OR (ur.role IN ('client_admin', 'client_user') AND ur.client_id = p_client_id)
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether a user can create and move tasks on a client's boards
+CREATE OR REPLACE FUNCTION can_manage_client_tasks(p_user_id UUID, p_client_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT can_access_client(p_user_id, p_client_id)
+    AND EXISTS (SELECT 1 FROM user_roles WHERE user_id = p_user_id AND role <> 'client_user');
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The column key on a board that best matches a status from another board
+CREATE OR REPLACE FUNCTION map_task_status(p_board_id UUID, p_status TEXT, p_category TEXT)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (
+      SELECT key
+      FROM board_columns
+      WHERE board_id = p_board_id
+      ORDER BY (key = p_status) DESC, (category = p_category) DESC, (category = 'backlog') DESC, position
+      LIMIT 1
+    ),
+    p_status
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Move a task and its subtasks to another board
+CREATE OR REPLACE FUNCTION move_task_to_board(p_task_id UUID, p_board_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_board boards%ROWTYPE;
+  v_agency_id UUID;
+  v_user_email TEXT;
+  v_moved tasks%ROWTYPE;
+  v_new tasks%ROWTYPE;
+  v_status TEXT;
+  v_tags TEXT[];
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  SELECT * INTO v_board FROM boards WHERE id = p_board_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Board not found';
+  END IF;
+
+  IF NOT can_manage_client_tasks(auth.uid(), v_task.client_id)
+    OR NOT can_manage_client_tasks(auth.uid(), v_board.client_id) THEN
+    RAISE EXCEPTION 'You do not have permission to move tasks to this client';
+  END IF;
+
+  IF v_task.board_id = p_board_id THEN
+    RETURN;
+  END IF;
+
+  SELECT agency_id INTO v_agency_id FROM clients WHERE id = v_board.client_id;
+  SELECT email INTO v_user_email FROM user_roles WHERE user_id = auth.uid() LIMIT 1;
+
+  -- The task goes first so its subtasks can follow it to the new board
+  FOR v_moved IN
+    SELECT * FROM tasks
+    WHERE id = p_task_id OR parent_task_id = p_task_id
+    ORDER BY (id = p_task_id) DESC
+  LOOP
+    v_tags := get_task_tag_names(v_moved.id);
+    v_status := map_task_status(p_board_id, v_moved.status, v_moved.status_category);
+
+    UPDATE tasks
+    SET board_id = p_board_id,
+        client_id = v_board.client_id,
+        agency_id = v_agency_id,
+        status = v_status,
+        position = (
+          SELECT COALESCE(MAX(position) + 1, 0) FROM tasks
+          WHERE board_id = p_board_id AND status = v_status
+        ),
+        -- A subtask moved on its own leaves its parent behind
+        parent_task_id = CASE WHEN v_moved.id = p_task_id THEN NULL ELSE v_moved.parent_task_id END,
+        assigned_to = CASE
+          WHEN can_access_client(v_moved.assigned_to, v_board.client_id) THEN v_moved.assigned_to
+        END,
+        updated_at = NOW()
+    WHERE id = v_moved.id
+    RETURNING * INTO v_new;
+
+    IF v_board.client_id <> v_moved.client_id THEN
+      PERFORM set_task_tag_names(v_moved.id, v_tags);
+    END IF;
+
+    INSERT INTO task_activities (task_id, user_id, user_email, action, details)
+    VALUES (
+      v_moved.id,
+      auth.uid(),
+      v_user_email,
+      'moved',
+      jsonb_build_object('board_id', jsonb_build_object('from', v_moved.board_id, 'to', p_board_id))
+        || CASE WHEN v_new.status IS DISTINCT FROM v_moved.status
+             THEN jsonb_build_object('status', jsonb_build_object('from', v_moved.status, 'to', v_new.status))
+             ELSE '{}'::JSONB
+           END
+        || CASE WHEN v_new.assigned_to IS DISTINCT FROM v_moved.assigned_to
+             THEN jsonb_build_object('assigned_to', jsonb_build_object('from', v_moved.assigned_to, 'to', v_new.assigned_to))
+             ELSE '{}'::JSONB
+           END
+    );
+  END LOOP;
+
+  -- A recurring series keeps creating occurrences where its task now lives
+  UPDATE task_recurrences
+  SET board_id = p_board_id,
+      client_id = v_board.client_id,
+      updated_at = NOW()
+  WHERE id = v_task.recurrence_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Copy a task to a board and return the copy's id
+CREATE OR REPLACE FUNCTION copy_task_to_board(
+  p_task_id UUID,
+  p_board_id UUID,
+  p_link_attachments BOOLEAN DEFAULT TRUE
+)
+RETURNS UUID AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_board boards%ROWTYPE;
+  v_agency_id UUID;
+  v_status TEXT;
+  v_task_id UUID;
+  v_item RECORD;
+  v_item_id UUID;
+  v_item_ids JSONB := '{}'::JSONB;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  SELECT * INTO v_board FROM boards WHERE id = p_board_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Board not found';
+  END IF;
+
+  IF NOT can_access_client(auth.uid(), v_task.client_id)
+    OR NOT can_manage_client_tasks(auth.uid(), v_board.client_id) THEN
+    RAISE EXCEPTION 'You do not have permission to copy tasks to this client';
+  END IF;
+
+  SELECT agency_id INTO v_agency_id FROM clients WHERE id = v_board.client_id;
+  v_status := map_task_status(p_board_id, v_task.status, v_task.status_category);
+
+  INSERT INTO tasks (
+    title,
+    description,
+    status,
+    priority,
+    assigned_to,
+    start_date,
+    finish_date,
+    estimated_hours,
+    estimated_cost,
+    position,
+    board_id,
+    client_id,
+    agency_id
+  ) VALUES (
+    v_task.title,
+    v_task.description,
+    v_status,
+    v_task.priority,
+    CASE WHEN can_access_client(v_task.assigned_to, v_board.client_id) THEN v_task.assigned_to END,
+    v_task.start_date,
+    v_task.finish_date,
+    v_task.estimated_hours,
+    v_task.estimated_cost,
+    (SELECT COALESCE(MAX(position) + 1, 0) FROM tasks WHERE board_id = p_board_id AND status = v_status),
+    p_board_id,
+    v_board.client_id,
+    v_agency_id
+  )
+  RETURNING id INTO v_task_id;
+
+  -- Checklist items go in parents first, so a parent's new id is known before its children
+  FOR v_item IN
+    WITH RECURSIVE tree AS (
+      SELECT i.*, 0 AS depth FROM task_checklist_items i
+      WHERE i.task_id = p_task_id AND i.parent_id IS NULL
+      UNION ALL
+      SELECT i.*, tree.depth + 1 FROM task_checklist_items i
+      JOIN tree ON i.parent_id = tree.id
+    )
+    SELECT * FROM tree ORDER BY depth, position
+  LOOP
+    INSERT INTO task_checklist_items (task_id, text, is_completed, position, parent_id)
+    VALUES (
+      v_task_id,
+      v_item.text,
+      FALSE,
+      v_item.position,
+      (v_item_ids->>(v_item.parent_id::TEXT))::UUID
+    )
+    RETURNING id INTO v_item_id;
+
+    v_item_ids := v_item_ids || jsonb_build_object(v_item.id::TEXT, v_item_id);
+  END LOOP;
+
+  INSERT INTO task_sops (task_id, sop_id)
+  SELECT v_task_id, sop_id FROM task_sops WHERE task_id = p_task_id;
+
+  PERFORM set_task_tag_names(v_task_id, get_task_tag_names(p_task_id));
+
+  -- Field ids belong to one board, so values only carry over within it
+  INSERT INTO task_custom_field_values (task_id, field_id, value)
+  SELECT v_task_id, field_id, value
+  FROM task_custom_field_values
+  WHERE task_id = p_task_id
+    AND field_id IN (SELECT id FROM custom_fields WHERE board_id = p_board_id);
+
+  IF p_link_attachments THEN
+    INSERT INTO task_attachments (task_id, user_id, name, size, type, url)
+    SELECT v_task_id, user_id, name, size, type, url
+    FROM task_attachments
+    WHERE task_id = p_task_id;
+  END IF;
+
+  RETURN v_task_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
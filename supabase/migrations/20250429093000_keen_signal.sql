@@ -0,0 +1,404 @@
+/*
+  # Add board automation rules
+
+  1. New Tables
+    - `automation_rules` holds "when X then Y" rules for one board, or for every board of a client
+      - `trigger_type` is what sets the rule off; `trigger_config` narrows it down, e.g. the column
+        a status change must land in or the tag a new task must carry
+      - `actions` is the ordered list of `{ type, ... }` steps the rule takes
+    - `automation_rule_runs` is the execution log of each rule, one row per task it ran on
+
+  2. New Functions
+    - `run_automation_rules` runs the enabled rules of a task's board and client for a trigger.
+      It is called by triggers on `tasks`, `task_checklist_items` and `task_time_entries`.
+    - `run_due_date_automations` runs the due date rules of overdue tasks. It is scheduled every
+      15 minutes where pg_cron is installed.
+
+  3. Notes
+    - Changes made by a rule don't set off other rules, so rules can't loop
+    - A failing rule is logged and skipped; it never blocks the change that set it off
+    - Due date and time estimate rules fire once per task, until the date or estimate changes
+    - Every successful run records an `automation` entry in `task_activities`
+*/
+
+-- Create automation_rules table if it doesn't exist
+CREATE TABLE IF NOT EXISTS automation_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  board_id UUID REFERENCES boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  trigger_type TEXT NOT NULL CHECK (trigger_type IN (
+    'status_changed',
+    'task_created',
+    'due_date_passed',
+    'checklist_completed',
+    'time_exceeds_estimate'
+  )),
+  trigger_config JSONB NOT NULL DEFAULT '{}'::JSONB,
+  actions JSONB NOT NULL DEFAULT '[]'::JSONB,
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rules_client_id ON automation_rules(client_id);
+CREATE INDEX IF NOT EXISTS idx_automation_rules_board_id ON automation_rules(board_id);
+
+-- Create automation_rule_runs table if it doesn't exist
+CREATE TABLE IF NOT EXISTS automation_rule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID NOT NULL REFERENCES automation_rules(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  trigger_key TEXT,
+  status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+  message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rule_runs_rule_id ON automation_rule_runs(rule_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_automation_rule_runs_task_id ON automation_rule_runs(task_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_automation_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'update_automation_rules_updated_at_trigger'
+  ) THEN
+    CREATE TRIGGER update_automation_rules_updated_at_trigger
+    BEFORE UPDATE
+    ON automation_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_automation_rules_updated_at();
+  END IF;
+END $$;
+
+-- Carry out one step of a rule on a task
+CREATE OR REPLACE FUNCTION apply_automation_action(p_rule automation_rules, p_task_id UUID, p_action JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_position INTEGER;
+  v_recipient UUID;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id;
+
+  CASE p_action->>'type'
+    WHEN 'assign_user' THEN
+      UPDATE tasks
+      SET assigned_to = (p_action->>'user_id')::UUID,
+          updated_at = NOW()
+      WHERE id = p_task_id;
+
+    WHEN 'set_priority' THEN
+      UPDATE tasks
+      SET priority = p_action->>'priority',
+          updated_at = NOW()
+      WHERE id = p_task_id;
+
+    WHEN 'move_to_column' THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM board_columns
+        WHERE board_id = v_task.board_id AND key = p_action->>'status'
+      ) THEN
+        RAISE EXCEPTION 'Column % is not on the task''s board', p_action->>'status';
+      END IF;
+
+      IF v_task.status IS DISTINCT FROM p_action->>'status' THEN
+        UPDATE tasks
+        SET status = p_action->>'status',
+            position = (
+              SELECT COALESCE(MAX(position) + 1, 0) FROM tasks
+              WHERE board_id = v_task.board_id AND status = p_action->>'status'
+            ),
+            updated_at = NOW()
+        WHERE id = p_task_id;
+      END IF;
+
+    WHEN 'add_checklist' THEN
+      SELECT COALESCE(MAX(position) + 1, 0) INTO v_position
+      FROM task_checklist_items
+      WHERE task_id = p_task_id AND parent_id IS NULL;
+
+      INSERT INTO task_checklist_items (task_id, text, is_completed, position)
+      SELECT p_task_id, item.text, FALSE, v_position + item.index - 1
+      FROM jsonb_array_elements_text(p_action->'items') WITH ORDINALITY AS item(text, index);
+
+    WHEN 'link_sop' THEN
+      INSERT INTO task_sops (task_id, sop_id)
+      SELECT p_task_id, (p_action->>'sop_id')::UUID
+      WHERE NOT EXISTS (
+        SELECT 1 FROM task_sops
+        WHERE task_id = p_task_id AND sop_id = (p_action->>'sop_id')::UUID
+      );
+
+    WHEN 'post_comment' THEN
+      -- Comments need an author, so rules post as the person who created them
+      IF p_rule.created_by IS NULL THEN
+        RAISE EXCEPTION 'The rule''s author no longer exists, so it can''t post comments';
+      END IF;
+
+      INSERT INTO task_comments (task_id, user_id, content)
+      VALUES (p_task_id, p_rule.created_by, p_action->>'content');
+
+    WHEN 'notify' THEN
+      -- Without a user the notification goes to whoever the task is assigned to
+      v_recipient := COALESCE((p_action->>'user_id')::UUID, v_task.assigned_to);
+
+      IF v_recipient IS NOT NULL THEN
+        INSERT INTO notifications (user_id, type, content, data)
+        VALUES (
+          v_recipient,
+          'automation',
+          p_action->>'message',
+          jsonb_build_object('task_id', p_task_id, 'task_title', v_task.title, 'rule_id', p_rule.id)
+        );
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown automation action %', p_action->>'type';
+  END CASE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Run the enabled rules of a task's board and client for a trigger
+CREATE OR REPLACE FUNCTION run_automation_rules(p_task_id UUID, p_trigger TEXT, p_trigger_key TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_new tasks%ROWTYPE;
+  v_rule automation_rules%ROWTYPE;
+  v_action JSONB;
+  v_field TEXT;
+  v_details JSONB;
+BEGIN
+  -- Changes made by rules don't set off further rules
+  IF current_setting('app.running_automations', TRUE) = 'on' THEN
+    RETURN;
+  END IF;
+
+  FOR v_rule IN
+    SELECT r.* FROM automation_rules r
+    JOIN tasks t ON t.id = p_task_id
+    WHERE r.is_enabled
+      AND r.trigger_type = p_trigger
+      AND r.client_id = t.client_id
+      AND (r.board_id IS NULL OR r.board_id = t.board_id)
+    ORDER BY r.created_at
+  LOOP
+    -- An earlier rule may have changed the task
+    SELECT * INTO v_task FROM tasks WHERE id = p_task_id;
+
+    CONTINUE WHEN p_trigger = 'status_changed'
+      AND COALESCE(v_rule.trigger_config->>'status', '') NOT IN ('', v_task.status);
+
+    CONTINUE WHEN p_trigger = 'task_created'
+      AND COALESCE(v_rule.trigger_config->>'tag', '') <> ''
+      AND NOT EXISTS (
+        SELECT 1 FROM unnest(get_task_tag_names(p_task_id)) AS tag(name)
+        WHERE lower(tag.name) = lower(v_rule.trigger_config->>'tag')
+      );
+
+    CONTINUE WHEN p_trigger_key IS NOT NULL AND EXISTS (
+      SELECT 1 FROM automation_rule_runs
+      WHERE rule_id = v_rule.id AND task_id = p_task_id AND trigger_key = p_trigger_key
+    );
+
+    BEGIN
+      PERFORM set_config('app.running_automations', 'on', TRUE);
+
+      FOR v_action IN SELECT * FROM jsonb_array_elements(v_rule.actions) LOOP
+        PERFORM apply_automation_action(v_rule, p_task_id, v_action);
+      END LOOP;
+
+      PERFORM set_config('app.running_automations', 'off', TRUE);
+
+      SELECT * INTO v_new FROM tasks WHERE id = p_task_id;
+
+      v_details := jsonb_build_object(
+        'rule', jsonb_build_object('id', v_rule.id, 'name', v_rule.name),
+        'actions', (SELECT COALESCE(jsonb_agg(a->>'type'), '[]'::JSONB) FROM jsonb_array_elements(v_rule.actions) a)
+      );
+      FOREACH v_field IN ARRAY ARRAY['status', 'priority', 'assigned_to'] LOOP
+        IF to_jsonb(v_task)->v_field IS DISTINCT FROM to_jsonb(v_new)->v_field THEN
+          v_details := v_details || jsonb_build_object(
+            v_field,
+            jsonb_build_object('from', to_jsonb(v_task)->v_field, 'to', to_jsonb(v_new)->v_field)
+          );
+        END IF;
+      END LOOP;
+
+      INSERT INTO task_activities (task_id, user_id, user_email, action, details)
+      VALUES (p_task_id, NULL, NULL, 'automation', v_details);
+
+      INSERT INTO automation_rule_runs (rule_id, task_id, trigger_key, status)
+      VALUES (v_rule.id, p_task_id, p_trigger_key, 'success');
+    EXCEPTION WHEN OTHERS THEN
+      -- The rule's changes are rolled back, the change that set it off goes ahead
+      INSERT INTO automation_rule_runs (rule_id, task_id, trigger_key, status, message)
+      VALUES (v_rule.id, p_task_id, p_trigger_key, 'error', SQLERRM);
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Run rules for new tasks and status changes
+CREATE OR REPLACE FUNCTION run_task_automations()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM run_automation_rules(NEW.id, 'task_created');
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM run_automation_rules(NEW.id, 'status_changed');
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- New tasks are checked at commit, once tags added in the same transaction are in place
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'run_task_created_automations_trigger'
+  ) THEN
+    CREATE CONSTRAINT TRIGGER run_task_created_automations_trigger
+    AFTER INSERT
+    ON tasks
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW
+    EXECUTE FUNCTION run_task_automations();
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'run_task_status_automations_trigger'
+  ) THEN
+    CREATE TRIGGER run_task_status_automations_trigger
+    AFTER UPDATE OF status
+    ON tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION run_task_automations();
+  END IF;
+END $$;
+
+-- Run rules once per task when an update ticks off its last open checklist item
+CREATE OR REPLACE FUNCTION run_checklist_automations()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_task_id UUID;
+BEGIN
+  FOR v_task_id IN
+    SELECT DISTINCT n.task_id
+    FROM new_items n
+    JOIN old_items o ON o.id = n.id
+    WHERE n.is_completed
+      AND NOT o.is_completed
+      AND NOT EXISTS (
+        SELECT 1 FROM task_checklist_items i
+        WHERE i.task_id = n.task_id AND NOT i.is_completed
+      )
+  LOOP
+    PERFORM run_automation_rules(v_task_id, 'checklist_completed');
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'run_checklist_automations_trigger'
+  ) THEN
+    CREATE TRIGGER run_checklist_automations_trigger
+    AFTER UPDATE
+    ON task_checklist_items
+    REFERENCING OLD TABLE AS old_items NEW TABLE AS new_items
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION run_checklist_automations();
+  END IF;
+END $$;
+
+-- Run rules when the time logged on a task goes over its estimate
+CREATE OR REPLACE FUNCTION run_time_entry_automations()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_estimate NUMERIC;
+  v_hours NUMERIC;
+BEGIN
+  SELECT estimated_hours INTO v_estimate FROM tasks WHERE id = NEW.task_id;
+
+  IF v_estimate IS NULL OR v_estimate <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (end_time - start_time)) / 3600), 0) INTO v_hours
+  FROM task_time_entries
+  WHERE task_id = NEW.task_id AND end_time IS NOT NULL;
+
+  IF v_hours > v_estimate THEN
+    PERFORM run_automation_rules(NEW.task_id, 'time_exceeds_estimate', 'estimate:' || v_estimate);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'run_time_entry_automations_trigger'
+  ) THEN
+    CREATE TRIGGER run_time_entry_automations_trigger
+    AFTER INSERT OR UPDATE OF end_time
+    ON task_time_entries
+    FOR EACH ROW
+    WHEN (NEW.end_time IS NOT NULL)
+    EXECUTE FUNCTION run_time_entry_automations();
+  END IF;
+END $$;
+
+-- Run due date rules for open tasks whose due date has passed
+CREATE OR REPLACE FUNCTION run_due_date_automations()
+RETURNS VOID AS $$
+DECLARE
+  v_task RECORD;
+BEGIN
+  FOR v_task IN
+    SELECT DISTINCT t.id, t.finish_date
+    FROM tasks t
+    JOIN automation_rules r
+      ON r.client_id = t.client_id
+      AND (r.board_id IS NULL OR r.board_id = t.board_id)
+    WHERE r.is_enabled
+      AND r.trigger_type = 'due_date_passed'
+      AND t.finish_date < NOW()
+      AND t.status_category IS DISTINCT FROM 'completed'
+  LOOP
+    PERFORM run_automation_rules(v_task.id, 'due_date_passed', 'due:' || v_task.finish_date);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('run-due-date-automations', '*/15 * * * *', 'SELECT run_due_date_automations()');
+  END IF;
+END $$;
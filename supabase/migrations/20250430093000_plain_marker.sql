@@ -0,0 +1,255 @@
+/*
+  # Add human-readable task keys
+
+  1. Changes
+    - `clients.task_prefix` is a short unique prefix such as `ACME`. It is made from the client's
+      name when none is given.
+    - `clients.task_counter` is the last task number handed out for the client
+    - `tasks.task_number` and `tasks.task_key` (e.g. `ACME-142`) name a task within its client
+
+  2. New Tables
+    - `task_key_aliases` keeps the keys a task had before, so old links keep working after the task
+      moves to another client or the client's prefix changes
+
+  3. New Functions
+    - `resolve_task_key` finds a task by its current or a former key
+
+  4. Notes
+    - Existing tasks are numbered per client in the order they were created
+*/
+
+-- Add task key columns if they don't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'clients' AND column_name = 'task_prefix'
+  ) THEN
+    ALTER TABLE clients ADD COLUMN task_prefix TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'clients' AND column_name = 'task_counter'
+  ) THEN
+    ALTER TABLE clients ADD COLUMN task_counter INTEGER NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'task_number'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN task_number INTEGER;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'task_key'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN task_key TEXT;
+  END IF;
+END $$;
+
+-- Create task_key_aliases table if it doesn't exist
+CREATE TABLE IF NOT EXISTS task_key_aliases (
+  task_key TEXT PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_key_aliases_task_id ON task_key_aliases(task_id);
+
+-- A free prefix made from a client's name: up to four letters and digits, numbered when taken
+CREATE OR REPLACE FUNCTION generate_client_task_prefix(p_name TEXT, p_client_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_base TEXT;
+  v_prefix TEXT;
+  v_suffix INTEGER := 1;
+BEGIN
+  -- Keys start with a letter and have at least two characters
+  v_base := regexp_replace(regexp_replace(upper(COALESCE(p_name, '')), '[^A-Z0-9]', '', 'g'), '^[0-9]+', '');
+  v_base := left(v_base, 4);
+  v_base := left(v_base || 'CL', GREATEST(length(v_base), 2));
+
+  v_prefix := v_base;
+  WHILE EXISTS (SELECT 1 FROM clients WHERE task_prefix = v_prefix AND id <> p_client_id) LOOP
+    v_suffix := v_suffix + 1;
+    v_prefix := v_base || v_suffix;
+  END LOOP;
+
+  RETURN v_prefix;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill prefixes one client at a time, so each sees the ones taken before it
+DO $$
+DECLARE
+  v_client RECORD;
+BEGIN
+  FOR v_client IN SELECT id, name FROM clients WHERE task_prefix IS NULL ORDER BY created_at LOOP
+    UPDATE clients
+    SET task_prefix = generate_client_task_prefix(v_client.name, v_client.id)
+    WHERE id = v_client.id;
+  END LOOP;
+END $$;
+
+-- Number existing tasks per client in creation order
+UPDATE tasks t
+SET task_number = numbered.task_number
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY client_id ORDER BY created_at, id) AS task_number
+  FROM tasks
+  WHERE client_id IS NOT NULL
+) numbered
+WHERE t.id = numbered.id AND t.task_number IS NULL;
+
+UPDATE tasks t
+SET task_key = c.task_prefix || '-' || t.task_number
+FROM clients c
+WHERE c.id = t.client_id AND t.task_number IS NOT NULL AND t.task_key IS NULL;
+
+UPDATE clients c
+SET task_counter = COALESCE((SELECT MAX(task_number) FROM tasks WHERE client_id = c.id), 0);
+
+DO $$
+BEGIN
+  ALTER TABLE clients ALTER COLUMN task_prefix SET NOT NULL;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'clients_task_prefix_key'
+  ) THEN
+    ALTER TABLE clients ADD CONSTRAINT clients_task_prefix_key UNIQUE (task_prefix);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'clients_task_prefix_format'
+  ) THEN
+    ALTER TABLE clients ADD CONSTRAINT clients_task_prefix_format
+      CHECK (task_prefix ~ '^[A-Z][A-Z0-9]{1,9}$');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'tasks_task_key_key'
+  ) THEN
+    ALTER TABLE tasks ADD CONSTRAINT tasks_task_key_key UNIQUE (task_key);
+  END IF;
+END $$;
+
+-- Tidy a typed prefix, or make one from the name when it is left blank
+CREATE OR REPLACE FUNCTION set_client_task_prefix()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.task_prefix := NULLIF(regexp_replace(upper(COALESCE(NEW.task_prefix, '')), '[^A-Z0-9]', '', 'g'), '');
+
+  IF NEW.task_prefix IS NULL THEN
+    NEW.task_prefix := generate_client_task_prefix(NEW.name, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'set_client_task_prefix_trigger'
+  ) THEN
+    CREATE TRIGGER set_client_task_prefix_trigger
+    BEFORE INSERT OR UPDATE OF task_prefix
+    ON clients
+    FOR EACH ROW
+    EXECUTE FUNCTION set_client_task_prefix();
+  END IF;
+END $$;
+
+-- Rename every key of a client when its prefix changes, keeping the old ones as aliases
+CREATE OR REPLACE FUNCTION rename_client_task_keys()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.task_prefix IS DISTINCT FROM OLD.task_prefix THEN
+    INSERT INTO task_key_aliases (task_key, task_id)
+    SELECT task_key, id FROM tasks
+    WHERE client_id = NEW.id AND task_key IS NOT NULL
+    ON CONFLICT (task_key) DO UPDATE SET task_id = EXCLUDED.task_id;
+
+    UPDATE tasks
+    SET task_key = NEW.task_prefix || '-' || task_number
+    WHERE client_id = NEW.id AND task_number IS NOT NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'rename_client_task_keys_trigger'
+  ) THEN
+    CREATE TRIGGER rename_client_task_keys_trigger
+    AFTER UPDATE OF task_prefix
+    ON clients
+    FOR EACH ROW
+    EXECUTE FUNCTION rename_client_task_keys();
+  END IF;
+END $$;
+
+-- Give new tasks the client's next number, and moved tasks a number from their new client
+CREATE OR REPLACE FUNCTION assign_task_key()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.client_id IS NOT DISTINCT FROM OLD.client_id THEN
+      RETURN NEW;
+    END IF;
+
+    IF OLD.task_key IS NOT NULL THEN
+      INSERT INTO task_key_aliases (task_key, task_id)
+      VALUES (OLD.task_key, OLD.id)
+      ON CONFLICT (task_key) DO UPDATE SET task_id = EXCLUDED.task_id;
+    END IF;
+  END IF;
+
+  NEW.task_number := NULL;
+  NEW.task_key := NULL;
+
+  -- The row lock on the client hands out each number once
+  UPDATE clients
+  SET task_counter = task_counter + 1
+  WHERE id = NEW.client_id
+  RETURNING task_counter, task_prefix || '-' || task_counter INTO NEW.task_number, NEW.task_key;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'assign_task_key_trigger'
+  ) THEN
+    CREATE TRIGGER assign_task_key_trigger
+    BEFORE INSERT OR UPDATE OF client_id
+    ON tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_task_key();
+  END IF;
+END $$;
+
+-- Find a task by its key; a current key wins over an alias that happens to match
+CREATE OR REPLACE FUNCTION resolve_task_key(p_task_key TEXT)
+RETURNS TABLE (id UUID, task_key TEXT, title TEXT, status_category TEXT, board_id UUID, client_id UUID) AS $$
+  SELECT t.id, t.task_key, t.title, t.status_category, t.board_id, t.client_id
+  FROM tasks t
+  WHERE t.task_key = upper(p_task_key)
+     OR t.id = (SELECT a.task_id FROM task_key_aliases a WHERE a.task_key = upper(p_task_key))
+  ORDER BY (t.task_key = upper(p_task_key)) DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
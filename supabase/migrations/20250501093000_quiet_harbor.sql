@@ -0,0 +1,221 @@
+/*
+  # Add a task trash
+
+  1. Changes
+    - `tasks.deleted_at`, `tasks.deleted_by` and `tasks.deleted_by_email` mark a task as in its client's
+      trash and record who put it there. Trashed tasks keep their comments, attachments and time
+      entries, so their hours still count in budget reports.
+    - `clients.trash_retention_days` is how long trashed tasks are kept before they are purged;
+      NULL keeps them until they are restored
+
+  2. New Functions
+    - `trash_tasks` moves tasks and their subtasks to the trash
+    - `restore_tasks` brings trashed tasks back to their board
+    - `purge_trashed_tasks` deletes trashed tasks older than their client's retention, daily where
+      pg_cron is installed
+
+  3. Security
+    - Only roles that can delete tasks (system, agency and client admins with access to the client)
+      can trash and restore
+*/
+
+-- Add trash columns if they don't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'deleted_at'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN deleted_at TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'deleted_by'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'deleted_by_email'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN deleted_by_email TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'clients' AND column_name = 'trash_retention_days'
+  ) THEN
+    ALTER TABLE clients ADD COLUMN trash_retention_days INTEGER DEFAULT 30
+      CHECK (trash_retention_days IS NULL OR trash_retention_days > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_trash ON tasks(client_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Whether a user can delete, and so trash and restore, a client's tasks
+CREATE OR REPLACE FUNCTION can_delete_client_tasks(p_user_id UUID, p_client_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT can_access_client(p_user_id, p_client_id)
+    AND EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_id = p_user_id AND role IN ('system_admin', 'agency_admin', 'client_admin')
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Move tasks to the trash; subtasks go with their parent. Returns how many tasks were trashed.
+CREATE OR REPLACE FUNCTION trash_tasks(p_task_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  v_now TIMESTAMPTZ := NOW();
+  v_user_email TEXT;
+  v_client_id UUID;
+  v_count INTEGER;
+BEGIN
+  FOR v_client_id IN
+    SELECT DISTINCT client_id FROM tasks WHERE id = ANY(p_task_ids)
+  LOOP
+    IF NOT can_delete_client_tasks(auth.uid(), v_client_id) THEN
+      RAISE EXCEPTION 'You do not have permission to delete these tasks';
+    END IF;
+  END LOOP;
+
+  SELECT email INTO v_user_email FROM user_roles WHERE user_id = auth.uid() LIMIT 1;
+
+  WITH trashed AS (
+    UPDATE tasks
+    SET deleted_at = v_now,
+        deleted_by = auth.uid(),
+        deleted_by_email = v_user_email
+    WHERE (id = ANY(p_task_ids) OR parent_task_id = ANY(p_task_ids))
+      AND deleted_at IS NULL
+    RETURNING id
+  ), logged AS (
+    INSERT INTO task_activities (task_id, user_id, user_email, action)
+    SELECT id, auth.uid(), v_user_email, 'trashed' FROM trashed
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_count FROM logged;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Bring trashed tasks back, with the subtasks that were trashed along with them
+CREATE OR REPLACE FUNCTION restore_tasks(p_task_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  v_user_email TEXT;
+  v_client_id UUID;
+  v_task tasks%ROWTYPE;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_client_id IN
+    SELECT DISTINCT client_id FROM tasks WHERE id = ANY(p_task_ids)
+  LOOP
+    IF NOT can_delete_client_tasks(auth.uid(), v_client_id) THEN
+      RAISE EXCEPTION 'You do not have permission to restore these tasks';
+    END IF;
+  END LOOP;
+
+  SELECT email INTO v_user_email FROM user_roles WHERE user_id = auth.uid() LIMIT 1;
+
+  -- Parents go first so their subtasks see them restored
+  FOR v_task IN
+    SELECT t.* FROM tasks t
+    WHERE t.deleted_at IS NOT NULL
+      AND (
+        t.id = ANY(p_task_ids)
+        OR EXISTS (
+          SELECT 1 FROM tasks p
+          WHERE p.id = t.parent_task_id AND p.id = ANY(p_task_ids) AND p.deleted_at = t.deleted_at
+        )
+      )
+    ORDER BY (t.parent_task_id IS NULL) DESC
+  LOOP
+    UPDATE tasks
+    SET deleted_at = NULL,
+        deleted_by = NULL,
+        deleted_by_email = NULL,
+        -- The column may have been removed while the task was in the trash
+        status = map_task_status(v_task.board_id, v_task.status, v_task.status_category),
+        -- A subtask whose parent is still in the trash comes back as a task of its own
+        parent_task_id = CASE
+          WHEN EXISTS (SELECT 1 FROM tasks WHERE id = v_task.parent_task_id AND deleted_at IS NULL)
+            THEN v_task.parent_task_id
+        END,
+        updated_at = NOW()
+    WHERE id = v_task.id;
+
+    INSERT INTO task_activities (task_id, user_id, user_email, action)
+    VALUES (v_task.id, auth.uid(), v_user_email, 'restored');
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Delete trashed tasks that have been kept for their client's retention period
+CREATE OR REPLACE FUNCTION purge_trashed_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM tasks t
+  USING clients c
+  WHERE c.id = t.client_id
+    AND t.deleted_at IS NOT NULL
+    AND c.trash_retention_days IS NOT NULL
+    AND t.deleted_at < NOW() - make_interval(days => c.trash_retention_days);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('purge-trashed-tasks', '0 3 * * *', 'SELECT purge_trashed_tasks()');
+  END IF;
+END $$;
+
+-- Trashed tasks don't resolve from links
+CREATE OR REPLACE FUNCTION resolve_task_key(p_task_key TEXT)
+RETURNS TABLE (id UUID, task_key TEXT, title TEXT, status_category TEXT, board_id UUID, client_id UUID) AS $$
+  SELECT t.id, t.task_key, t.title, t.status_category, t.board_id, t.client_id
+  FROM tasks t
+  WHERE (
+      t.task_key = upper(p_task_key)
+      OR t.id = (SELECT a.task_id FROM task_key_aliases a WHERE a.task_key = upper(p_task_key))
+    )
+    AND t.deleted_at IS NULL
+  ORDER BY (t.task_key = upper(p_task_key)) DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Due date rules skip trashed tasks
+CREATE OR REPLACE FUNCTION run_due_date_automations()
+RETURNS VOID AS $$
+DECLARE
+  v_task RECORD;
+BEGIN
+  FOR v_task IN
+    SELECT DISTINCT t.id, t.finish_date
+    FROM tasks t
+    JOIN automation_rules r
+      ON r.client_id = t.client_id
+      AND (r.board_id IS NULL OR r.board_id = t.board_id)
+    WHERE r.is_enabled
+      AND r.trigger_type = 'due_date_passed'
+      AND t.finish_date < NOW()
+      AND t.status_category IS DISTINCT FROM 'completed'
+      AND t.deleted_at IS NULL
+  LOOP
+    PERFORM run_automation_rules(v_task.id, 'due_date_passed', 'due:' || v_task.finish_date);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
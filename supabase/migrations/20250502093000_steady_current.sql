@@ -0,0 +1,30 @@
+/*
+  # Stream board changes to open boards
+
+  1. Changes
+    - `tasks`, `board_columns`, `task_comments` and `task_checklist_items` are published to Supabase
+      Realtime, so boards and task details pick up other users' changes without a reload
+    - `board_columns`, `task_comments` and `task_checklist_items` log full rows on delete, so a
+      deleted row still says which board or task it belonged to
+*/
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH v_table IN ARRAY ARRAY['tasks', 'board_columns', 'task_comments', 'task_checklist_items']
+    LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', v_table);
+      END IF;
+    END LOOP;
+  END IF;
+END $$;
+
+ALTER TABLE board_columns REPLICA IDENTITY FULL;
+ALTER TABLE task_comments REPLICA IDENTITY FULL;
+ALTER TABLE task_checklist_items REPLICA IDENTITY FULL;
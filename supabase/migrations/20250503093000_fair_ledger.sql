@@ -0,0 +1,43 @@
+/*
+  # Add task versions for conflict detection
+
+  1. Changes
+    - `tasks.version` goes up by one on every update of a task, whoever makes it. An editor saves
+      with the version it loaded and only succeeds if it is still current, so two people editing
+      the same task can't silently overwrite each other.
+    - `tasks.updated_at` is kept current by the same trigger
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tasks' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE tasks ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  END IF;
+END $$;
+
+-- Every update is a new version
+CREATE OR REPLACE FUNCTION bump_task_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'bump_task_version_trigger'
+  ) THEN
+    CREATE TRIGGER bump_task_version_trigger
+    BEFORE UPDATE
+    ON tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION bump_task_version();
+  END IF;
+END $$;
@@ -0,0 +1,91 @@
+/*
+  # Add the My Work inbox
+
+  1. New Tables
+    - `task_snoozes`: when a user has snoozed a task out of their inbox until. Snoozing is personal,
+      so it's kept apart from the task and doesn't count as an edit of it.
+
+  2. New Functions
+    - `get_my_work` lists the open tasks assigned to the current user on every client they can
+      access, with the board and client names and when the user snoozed them until
+    - `snooze_task` snoozes a task for the current user until a time, or wakes it with NULL
+*/
+
+CREATE TABLE IF NOT EXISTS task_snoozes (
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  snoozed_until TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (task_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_snoozes_user_id ON task_snoozes(user_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_assigned_open ON tasks(assigned_to)
+  WHERE deleted_at IS NULL AND status_category IS DISTINCT FROM 'completed';
+
+-- Open tasks assigned to the current user, across clients
+CREATE OR REPLACE FUNCTION get_my_work()
+RETURNS TABLE (
+  id UUID,
+  task_key TEXT,
+  title TEXT,
+  description TEXT,
+  status TEXT,
+  status_category TEXT,
+  priority TEXT,
+  assigned_to UUID,
+  start_date TIMESTAMPTZ,
+  finish_date TIMESTAMPTZ,
+  estimated_hours NUMERIC,
+  estimated_cost NUMERIC,
+  position INTEGER,
+  parent_task_id UUID,
+  recurrence_id UUID,
+  recurrence_index INTEGER,
+  version INTEGER,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  board_id UUID,
+  board_name TEXT,
+  client_id UUID,
+  client_name TEXT,
+  snoozed_until TIMESTAMPTZ
+) AS $$
+  SELECT
+    t.id, t.task_key::TEXT, t.title::TEXT, t.description::TEXT, t.status::TEXT, t.status_category::TEXT,
+    t.priority::TEXT, t.assigned_to, t.start_date::TIMESTAMPTZ, t.finish_date::TIMESTAMPTZ,
+    t.estimated_hours::NUMERIC, t.estimated_cost::NUMERIC, t.position::INTEGER,
+    t.parent_task_id, t.recurrence_id, t.recurrence_index::INTEGER, t.version, t.created_at, t.updated_at,
+    t.board_id, b.name::TEXT, t.client_id, c.name::TEXT, s.snoozed_until
+  FROM tasks t
+  JOIN boards b ON b.id = t.board_id
+  JOIN clients c ON c.id = t.client_id
+  LEFT JOIN task_snoozes s ON s.task_id = t.id AND s.user_id = auth.uid()
+  WHERE t.assigned_to = auth.uid()
+    AND t.deleted_at IS NULL
+    AND t.status_category IS DISTINCT FROM 'completed'
+    AND can_access_client(auth.uid(), t.client_id)
+  ORDER BY t.finish_date NULLS LAST, t.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Snooze a task for the current user, or wake it when p_until is NULL
+CREATE OR REPLACE FUNCTION snooze_task(p_task_id UUID, p_until TIMESTAMPTZ)
+RETURNS VOID AS $$
+BEGIN
+  IF p_until IS NULL THEN
+    DELETE FROM task_snoozes WHERE task_id = p_task_id AND user_id = auth.uid();
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tasks
+    WHERE id = p_task_id AND can_access_client(auth.uid(), client_id)
+  ) THEN
+    RAISE EXCEPTION 'You do not have access to this task';
+  END IF;
+
+  INSERT INTO task_snoozes (task_id, user_id, snoozed_until)
+  VALUES (p_task_id, auth.uid(), p_until)
+  ON CONFLICT (task_id, user_id) DO UPDATE SET snoozed_until = EXCLUDED.snoozed_until;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
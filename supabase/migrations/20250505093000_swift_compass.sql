@@ -0,0 +1,76 @@
+/*
+  # Search for the command palette
+
+  1. New Functions
+    - `search_everything` finds clients, boards, tasks, SOPs and users whose name matches a search,
+      limited to what the current user can open. Tasks also match on the start of their key.
+*/
+
+CREATE OR REPLACE FUNCTION search_everything(p_query TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  title TEXT,
+  subtitle TEXT,
+  client_id UUID,
+  board_id UUID,
+  task_key TEXT
+) AS $$
+  (
+    SELECT 'client', c.id, c.name::TEXT, NULL::TEXT, c.id, NULL::UUID, NULL::TEXT
+    FROM clients c
+    WHERE c.name ILIKE '%' || p_query || '%'
+      AND can_access_client(auth.uid(), c.id)
+    ORDER BY c.name
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'board', b.id, b.name::TEXT, c.name::TEXT, b.client_id, b.id, NULL::TEXT
+    FROM boards b
+    JOIN clients c ON c.id = b.client_id
+    WHERE b.name ILIKE '%' || p_query || '%'
+      AND can_access_client(auth.uid(), b.client_id)
+    ORDER BY b.name
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'task', t.id, t.title::TEXT, c.name || ' · ' || b.name, t.client_id, t.board_id, t.task_key::TEXT
+    FROM tasks t
+    JOIN boards b ON b.id = t.board_id
+    JOIN clients c ON c.id = t.client_id
+    WHERE (t.task_key ILIKE p_query || '%' OR t.title ILIKE '%' || p_query || '%')
+      AND t.deleted_at IS NULL
+      AND can_access_client(auth.uid(), t.client_id)
+    ORDER BY (t.task_key = upper(p_query)) DESC, t.updated_at DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'sop', s.id, s.title::TEXT, s.access_level::TEXT, s.client_id, NULL::UUID, NULL::TEXT
+    FROM sops s
+    WHERE s.title ILIKE '%' || p_query || '%'
+      AND (
+        s.access_level = 'system'
+        OR (s.client_id IS NOT NULL AND can_access_client(auth.uid(), s.client_id))
+        OR EXISTS (
+          SELECT 1 FROM user_roles ur
+          WHERE ur.user_id = auth.uid()
+            AND (ur.role = 'system_admin' OR (s.agency_id IS NOT NULL AND ur.agency_id = s.agency_id))
+        )
+      )
+    ORDER BY s.updated_at DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    -- Client users don't manage users, so they don't look them up either
+    SELECT 'user', ur.user_id, COALESCE(ur.username, ur.email)::TEXT, ur.email::TEXT, NULL::UUID, NULL::UUID, NULL::TEXT
+    FROM user_roles ur
+    WHERE (ur.email ILIKE '%' || p_query || '%' OR ur.username ILIKE '%' || p_query || '%')
+      AND EXISTS (SELECT 1 FROM user_roles me WHERE me.user_id = auth.uid() AND me.role <> 'client_user')
+    ORDER BY ur.email
+    LIMIT p_limit
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,251 @@
+/*
+  # Configurable billing rates
+
+  1. New Tables
+    - `billing_rates`
+      - An hourly rate for an agency, optionally narrowed to a task, a client, a user, a role,
+        or a client and user together
+      - `effective_from` / `effective_to` bound the days the rate applies to (inclusive), so
+        changing a rate doesn't change what earlier work cost
+
+  2. New Functions
+    - `can_manage_agency_billing` checks whether a user can see and change an agency's rates
+    - `resolve_hourly_rate` picks the rate that applies to a user's work on a task at a point in time.
+      The most specific rate wins: task, then client and user, then client, then user, then role,
+      then the agency default
+    - `get_my_hourly_rate` resolves the current user's rate for a task
+    - `get_billing_rates`, `set_billing_rate` and `end_billing_rate` list and manage an agency's rates
+
+  3. Changes
+    - `calculate_time_entry_cost` uses the resolved rate instead of a flat $50/hour. Entries with no
+      rate to resolve are left without a cost
+    - Every agency gets a $50/hour default so existing costs stay the same until rates are set up
+*/
+
+CREATE TABLE IF NOT EXISTS billing_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT,
+  hourly_rate NUMERIC(10,2) NOT NULL CHECK (hourly_rate >= 0),
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  effective_to DATE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from),
+  CHECK (
+    (task_id IS NOT NULL AND client_id IS NULL AND user_id IS NULL AND role IS NULL)
+    OR (task_id IS NULL AND role IS NULL)
+    OR (task_id IS NULL AND client_id IS NULL AND user_id IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_rates_agency ON billing_rates(agency_id, effective_from);
+CREATE INDEX IF NOT EXISTS idx_billing_rates_task ON billing_rates(task_id) WHERE task_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_billing_rates_client ON billing_rates(client_id) WHERE client_id IS NOT NULL;
+
+-- Whether a user can see and change an agency's billing rates
+CREATE OR REPLACE FUNCTION can_manage_agency_billing(p_user_id UUID, p_agency_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    LEFT JOIN agencies a ON a.id = p_agency_id
+    WHERE ur.user_id = p_user_id
+      AND (
+        (ur.role = 'system_admin' AND (ur.system_id IS NULL OR ur.system_id = a.system_id))
+        OR (ur.role = 'agency_admin' AND ur.agency_id = p_agency_id)
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The hourly rate for a user's work on a task on the day of p_at, or NULL if none applies
+CREATE OR REPLACE FUNCTION resolve_hourly_rate(p_task_id UUID, p_user_id UUID, p_at TIMESTAMPTZ DEFAULT now())
+RETURNS NUMERIC AS $$
+  SELECT br.hourly_rate
+  FROM tasks t
+  JOIN clients c ON c.id = t.client_id
+  JOIN billing_rates br ON br.agency_id = c.agency_id
+  WHERE t.id = p_task_id
+    AND br.effective_from <= p_at::DATE
+    AND (br.effective_to IS NULL OR br.effective_to >= p_at::DATE)
+    AND (br.task_id IS NULL OR br.task_id = t.id)
+    AND (br.client_id IS NULL OR br.client_id = t.client_id)
+    AND (br.user_id IS NULL OR br.user_id = p_user_id)
+    AND (
+      br.role IS NULL
+      OR EXISTS (SELECT 1 FROM user_roles ur WHERE ur.user_id = p_user_id AND ur.role = br.role)
+    )
+  ORDER BY
+    CASE
+      WHEN br.task_id IS NOT NULL THEN 1
+      WHEN br.client_id IS NOT NULL AND br.user_id IS NOT NULL THEN 2
+      WHEN br.client_id IS NOT NULL THEN 3
+      WHEN br.user_id IS NOT NULL THEN 4
+      WHEN br.role IS NOT NULL THEN 5
+      ELSE 6
+    END,
+    br.effective_from DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The current user's rate for a task, for pricing manual time entries
+CREATE OR REPLACE FUNCTION get_my_hourly_rate(p_task_id UUID, p_at TIMESTAMPTZ DEFAULT now())
+RETURNS NUMERIC AS $$
+  SELECT resolve_hourly_rate(t.id, auth.uid(), p_at)
+  FROM tasks t
+  WHERE t.id = p_task_id
+    AND can_access_client(auth.uid(), t.client_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Price completed time entries at the rate in effect when the work started
+CREATE OR REPLACE FUNCTION calculate_time_entry_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_rate NUMERIC;
+BEGIN
+  IF NEW.actual_cost IS NULL AND NEW.end_time IS NOT NULL THEN
+    v_rate := resolve_hourly_rate(NEW.task_id, NEW.user_id, NEW.start_time);
+    IF v_rate IS NOT NULL THEN
+      NEW.actual_cost := (EXTRACT(EPOCH FROM (NEW.end_time - NEW.start_time)) / 3600) * v_rate;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Keep the old flat rate as each agency's default until it sets its own
+INSERT INTO billing_rates (agency_id, hourly_rate, effective_from)
+SELECT a.id, 50, DATE '2000-01-01'
+FROM agencies a
+WHERE NOT EXISTS (SELECT 1 FROM billing_rates br WHERE br.agency_id = a.id);
+
+-- An agency's rates, newest first within each scope
+CREATE OR REPLACE FUNCTION get_billing_rates(p_agency_id UUID)
+RETURNS TABLE (
+  id UUID,
+  agency_id UUID,
+  task_id UUID,
+  task_key TEXT,
+  task_title TEXT,
+  client_id UUID,
+  client_name TEXT,
+  user_id UUID,
+  user_email TEXT,
+  role TEXT,
+  hourly_rate NUMERIC,
+  effective_from DATE,
+  effective_to DATE,
+  created_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    br.id,
+    br.agency_id,
+    br.task_id,
+    t.task_key::TEXT,
+    t.title::TEXT,
+    br.client_id,
+    c.name::TEXT,
+    br.user_id,
+    (SELECT ur.email FROM user_roles ur WHERE ur.user_id = br.user_id LIMIT 1)::TEXT,
+    br.role,
+    br.hourly_rate,
+    br.effective_from,
+    br.effective_to,
+    br.created_at
+  FROM billing_rates br
+  LEFT JOIN tasks t ON t.id = br.task_id
+  LEFT JOIN clients c ON c.id = br.client_id
+  WHERE br.agency_id = p_agency_id
+    AND can_manage_agency_billing(auth.uid(), p_agency_id)
+  ORDER BY br.task_id NULLS FIRST, c.name NULLS FIRST, br.user_id NULLS FIRST, br.role NULLS FIRST,
+    br.effective_from DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Set a rate from a date onwards. The rate it replaces for the same scope ends the day before
+CREATE OR REPLACE FUNCTION set_billing_rate(
+  p_agency_id UUID,
+  p_hourly_rate NUMERIC,
+  p_effective_from DATE DEFAULT CURRENT_DATE,
+  p_task_id UUID DEFAULT NULL,
+  p_client_id UUID DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_role TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_rate_id UUID;
+BEGIN
+  IF NOT can_manage_agency_billing(auth.uid(), p_agency_id) THEN
+    RAISE EXCEPTION 'You do not have permission to manage billing rates for this agency';
+  END IF;
+
+  IF p_task_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM tasks t JOIN clients c ON c.id = t.client_id
+    WHERE t.id = p_task_id AND c.agency_id = p_agency_id
+  ) THEN
+    RAISE EXCEPTION 'Task not found in this agency';
+  END IF;
+
+  IF p_client_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM clients WHERE id = p_client_id AND agency_id = p_agency_id
+  ) THEN
+    RAISE EXCEPTION 'Client not found in this agency';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM billing_rates
+    WHERE agency_id = p_agency_id
+      AND task_id IS NOT DISTINCT FROM p_task_id
+      AND client_id IS NOT DISTINCT FROM p_client_id
+      AND user_id IS NOT DISTINCT FROM p_user_id
+      AND role IS NOT DISTINCT FROM p_role
+      AND effective_from >= p_effective_from
+  ) THEN
+    RAISE EXCEPTION 'A rate for this scope already starts on or after %', p_effective_from;
+  END IF;
+
+  UPDATE billing_rates
+  SET effective_to = p_effective_from - 1
+  WHERE agency_id = p_agency_id
+    AND task_id IS NOT DISTINCT FROM p_task_id
+    AND client_id IS NOT DISTINCT FROM p_client_id
+    AND user_id IS NOT DISTINCT FROM p_user_id
+    AND role IS NOT DISTINCT FROM p_role
+    AND (effective_to IS NULL OR effective_to >= p_effective_from);
+
+  INSERT INTO billing_rates (
+    agency_id, task_id, client_id, user_id, role, hourly_rate, effective_from, created_by
+  ) VALUES (
+    p_agency_id, p_task_id, p_client_id, p_user_id, p_role, p_hourly_rate, p_effective_from, auth.uid()
+  )
+  RETURNING id INTO v_rate_id;
+
+  RETURN v_rate_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Stop a rate applying after a date
+CREATE OR REPLACE FUNCTION end_billing_rate(p_rate_id UUID, p_effective_to DATE DEFAULT CURRENT_DATE)
+RETURNS VOID AS $$
+DECLARE
+  v_rate billing_rates%ROWTYPE;
+BEGIN
+  SELECT * INTO v_rate FROM billing_rates WHERE id = p_rate_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Billing rate not found';
+  END IF;
+
+  IF NOT can_manage_agency_billing(auth.uid(), v_rate.agency_id) THEN
+    RAISE EXCEPTION 'You do not have permission to manage billing rates for this agency';
+  END IF;
+
+  IF p_effective_to < v_rate.effective_from THEN
+    RAISE EXCEPTION 'A rate can''t end before it starts';
+  END IF;
+
+  UPDATE billing_rates SET effective_to = p_effective_to WHERE id = p_rate_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,413 @@
+/*
+  # Invoices from billable time
+
+  1. New Tables
+    - `invoices`
+      - A client's invoice for a period. Drafts can still change; issuing one gives it the agency's
+        next invoice number and freezes it. Voiding an issued invoice releases its time
+    - `invoice_lines`
+      - `time` lines sum the invoice's time entries per task or per user, `manual` lines are typed in
+
+  2. Changes
+    - `task_time_entries.invoice_id` records the invoice a billable entry was billed on. Entries on
+      an invoice can't be edited or deleted until the invoice lets go of them
+    - `purge_trashed_tasks` keeps trashed tasks whose time has been invoiced
+
+  3. New Functions
+    - `create_invoice`, `refresh_invoice_time`, `update_invoice`, `add_invoice_line`,
+      `remove_invoice_line`, `issue_invoice`, `mark_invoice_sent`, `void_invoice` and
+      `delete_invoice` manage invoices, for users who can manage the client's agency billing
+*/
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  invoice_number INTEGER,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'issued', 'void')),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  group_by TEXT NOT NULL DEFAULT 'task' CHECK (group_by IN ('task', 'user')),
+  discount_percent NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (discount_percent BETWEEN 0 AND 100),
+  tax_percent NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (tax_percent >= 0),
+  notes TEXT,
+  issued_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+  sent_to TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (period_end >= period_start),
+  UNIQUE (agency_id, invoice_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_client ON invoices(client_id, period_start DESC);
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('time', 'manual')),
+  description TEXT NOT NULL,
+  quantity NUMERIC(10,2) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(10,2) NOT NULL DEFAULT 0,
+  amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice ON invoice_lines(invoice_id, position);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'task_time_entries' AND column_name = 'invoice_id'
+  ) THEN
+    ALTER TABLE task_time_entries ADD COLUMN invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_task_time_entries_invoice ON task_time_entries(invoice_id) WHERE invoice_id IS NOT NULL;
+
+-- Invoiced time is frozen. The invoice functions flag their own changes so they can attach and release it
+CREATE OR REPLACE FUNCTION prevent_invoiced_time_entry_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.invoice_id IS NOT NULL AND COALESCE(current_setting('app.updating_invoice', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'This time entry has been invoiced and can''t be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'prevent_invoiced_time_entry_changes_trigger'
+  ) THEN
+    CREATE TRIGGER prevent_invoiced_time_entry_changes_trigger
+    BEFORE UPDATE OR DELETE
+    ON task_time_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_invoiced_time_entry_changes();
+  END IF;
+END $$;
+
+-- Trashed tasks with invoiced time stay until the invoice is voided
+CREATE OR REPLACE FUNCTION purge_trashed_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM tasks t
+  USING clients c
+  WHERE c.id = t.client_id
+    AND t.deleted_at IS NOT NULL
+    AND c.trash_retention_days IS NOT NULL
+    AND t.deleted_at < NOW() - make_interval(days => c.trash_retention_days)
+    AND NOT EXISTS (
+      SELECT 1 FROM task_time_entries e
+      WHERE e.task_id = t.id AND e.invoice_id IS NOT NULL
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Load a draft invoice the current user may change, or fail
+CREATE OR REPLACE FUNCTION get_editable_invoice(p_invoice_id UUID)
+RETURNS invoices AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT can_manage_agency_billing(auth.uid(), v_invoice.agency_id) THEN
+    RAISE EXCEPTION 'You do not have permission to manage invoices for this client';
+  END IF;
+
+  IF v_invoice.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft invoices can be changed';
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Attach the client's uninvoiced billable time in the invoice's period and rebuild its time lines
+CREATE OR REPLACE FUNCTION refresh_invoice_time(p_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  v_invoice := get_editable_invoice(p_invoice_id);
+
+  PERFORM set_config('app.updating_invoice', 'on', true);
+
+  UPDATE task_time_entries e
+  SET invoice_id = v_invoice.id
+  FROM tasks t
+  WHERE t.id = e.task_id
+    AND t.client_id = v_invoice.client_id
+    AND e.invoice_id IS NULL
+    AND e.is_billable
+    AND e.end_time IS NOT NULL
+    AND e.start_time::DATE BETWEEN v_invoice.period_start AND v_invoice.period_end;
+
+  DELETE FROM invoice_lines WHERE invoice_id = v_invoice.id AND kind = 'time';
+
+  INSERT INTO invoice_lines (invoice_id, kind, description, quantity, unit_price, amount, task_id, user_id, position)
+  SELECT
+    v_invoice.id,
+    'time',
+    grouped.description,
+    ROUND(grouped.hours, 2),
+    CASE WHEN grouped.hours > 0 THEN ROUND(grouped.cost / grouped.hours, 2) ELSE 0 END,
+    ROUND(grouped.cost, 2),
+    grouped.task_id,
+    grouped.user_id,
+    ROW_NUMBER() OVER (ORDER BY grouped.description) - 1
+  FROM (
+    SELECT
+      CASE WHEN v_invoice.group_by = 'task'
+        THEN COALESCE(t.task_key || ' ', '') || t.title
+        ELSE COALESCE((SELECT ur.email FROM user_roles ur WHERE ur.user_id = e.user_id LIMIT 1), 'Unknown user')
+      END AS description,
+      SUM(EXTRACT(EPOCH FROM (e.end_time - e.start_time)) / 3600) AS hours,
+      SUM(COALESCE(e.actual_cost, 0)) AS cost,
+      CASE WHEN v_invoice.group_by = 'task' THEN e.task_id END AS task_id,
+      CASE WHEN v_invoice.group_by = 'user' THEN e.user_id END AS user_id
+    FROM task_time_entries e
+    JOIN tasks t ON t.id = e.task_id
+    WHERE e.invoice_id = v_invoice.id
+    GROUP BY 1, 4, 5
+  ) grouped;
+
+  -- Manual lines stay after the time
+  UPDATE invoice_lines l
+  SET position = numbered.position
+  FROM (
+    SELECT id, (SELECT COUNT(*) FROM invoice_lines WHERE invoice_id = v_invoice.id AND kind = 'time')
+      + ROW_NUMBER() OVER (ORDER BY position, created_at) - 1 AS position
+    FROM invoice_lines
+    WHERE invoice_id = v_invoice.id AND kind = 'manual'
+  ) numbered
+  WHERE l.id = numbered.id;
+
+  UPDATE invoices SET updated_at = now() WHERE id = v_invoice.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Start a draft invoice for a client's billable time in a period
+CREATE OR REPLACE FUNCTION create_invoice(
+  p_client_id UUID,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_group_by TEXT DEFAULT 'task'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_agency_id UUID;
+  v_invoice_id UUID;
+BEGIN
+  SELECT agency_id INTO v_agency_id FROM clients WHERE id = p_client_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  IF NOT can_manage_agency_billing(auth.uid(), v_agency_id) THEN
+    RAISE EXCEPTION 'You do not have permission to manage invoices for this client';
+  END IF;
+
+  INSERT INTO invoices (agency_id, client_id, period_start, period_end, group_by, created_by)
+  VALUES (v_agency_id, p_client_id, p_period_start, p_period_end, p_group_by, auth.uid())
+  RETURNING id INTO v_invoice_id;
+
+  PERFORM refresh_invoice_time(v_invoice_id);
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Change a draft's grouping, discount, tax or notes
+CREATE OR REPLACE FUNCTION update_invoice(
+  p_invoice_id UUID,
+  p_group_by TEXT,
+  p_discount_percent NUMERIC,
+  p_tax_percent NUMERIC,
+  p_notes TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  v_invoice := get_editable_invoice(p_invoice_id);
+
+  UPDATE invoices
+  SET group_by = p_group_by,
+      discount_percent = p_discount_percent,
+      tax_percent = p_tax_percent,
+      notes = NULLIF(p_notes, ''),
+      updated_at = now()
+  WHERE id = p_invoice_id;
+
+  IF p_group_by <> v_invoice.group_by THEN
+    PERFORM refresh_invoice_time(p_invoice_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add a typed-in line to a draft
+CREATE OR REPLACE FUNCTION add_invoice_line(
+  p_invoice_id UUID,
+  p_description TEXT,
+  p_quantity NUMERIC,
+  p_unit_price NUMERIC
+)
+RETURNS UUID AS $$
+DECLARE
+  v_line_id UUID;
+BEGIN
+  PERFORM get_editable_invoice(p_invoice_id);
+
+  INSERT INTO invoice_lines (invoice_id, kind, description, quantity, unit_price, amount, position)
+  VALUES (
+    p_invoice_id,
+    'manual',
+    p_description,
+    p_quantity,
+    p_unit_price,
+    ROUND(p_quantity * p_unit_price, 2),
+    (SELECT COALESCE(MAX(position) + 1, 0) FROM invoice_lines WHERE invoice_id = p_invoice_id)
+  )
+  RETURNING id INTO v_line_id;
+
+  UPDATE invoices SET updated_at = now() WHERE id = p_invoice_id;
+
+  RETURN v_line_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Remove a typed-in line from a draft; time lines go by leaving the time off the invoice
+CREATE OR REPLACE FUNCTION remove_invoice_line(p_line_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_line invoice_lines%ROWTYPE;
+BEGIN
+  SELECT * INTO v_line FROM invoice_lines WHERE id = p_line_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice line not found';
+  END IF;
+
+  PERFORM get_editable_invoice(v_line.invoice_id);
+
+  IF v_line.kind <> 'manual' THEN
+    RAISE EXCEPTION 'Time lines can''t be removed; mark the time as non-billable before invoicing instead';
+  END IF;
+
+  DELETE FROM invoice_lines WHERE id = p_line_id;
+  UPDATE invoices SET updated_at = now() WHERE id = v_line.invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Number and freeze a draft. Numbers run on per agency, in the order invoices are issued
+CREATE OR REPLACE FUNCTION issue_invoice(p_invoice_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_number INTEGER;
+BEGIN
+  v_invoice := get_editable_invoice(p_invoice_id);
+
+  IF NOT EXISTS (SELECT 1 FROM invoice_lines WHERE invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION 'An invoice needs at least one line before it can be issued';
+  END IF;
+
+  -- Serialise numbering within the agency
+  PERFORM pg_advisory_xact_lock(hashtext('invoice_number:' || v_invoice.agency_id::TEXT));
+
+  SELECT COALESCE(MAX(invoice_number), 0) + 1 INTO v_number
+  FROM invoices
+  WHERE agency_id = v_invoice.agency_id;
+
+  UPDATE invoices
+  SET status = 'issued',
+      invoice_number = v_number,
+      issued_at = now(),
+      updated_at = now()
+  WHERE id = p_invoice_id;
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record that an issued invoice was emailed
+CREATE OR REPLACE FUNCTION mark_invoice_sent(p_invoice_id UUID, p_sent_to TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT can_manage_agency_billing(auth.uid(), v_invoice.agency_id) THEN
+    RAISE EXCEPTION 'You do not have permission to manage invoices for this client';
+  END IF;
+
+  UPDATE invoices
+  SET sent_at = now(), sent_to = p_sent_to, updated_at = now()
+  WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cancel an issued invoice. It keeps its number; its time can go on another invoice
+CREATE OR REPLACE FUNCTION void_invoice(p_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE id = p_invoice_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT can_manage_agency_billing(auth.uid(), v_invoice.agency_id) THEN
+    RAISE EXCEPTION 'You do not have permission to manage invoices for this client';
+  END IF;
+
+  IF v_invoice.status <> 'issued' THEN
+    RAISE EXCEPTION 'Only issued invoices can be voided';
+  END IF;
+
+  PERFORM set_config('app.updating_invoice', 'on', true);
+  UPDATE task_time_entries SET invoice_id = NULL WHERE invoice_id = p_invoice_id;
+
+  UPDATE invoices SET status = 'void', updated_at = now() WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Throw away a draft and release its time
+CREATE OR REPLACE FUNCTION delete_invoice(p_invoice_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM get_editable_invoice(p_invoice_id);
+
+  PERFORM set_config('app.updating_invoice', 'on', true);
+  UPDATE task_time_entries SET invoice_id = NULL WHERE invoice_id = p_invoice_id;
+
+  DELETE FROM invoices WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
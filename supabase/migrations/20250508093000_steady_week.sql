@@ -0,0 +1,522 @@
+/*
+  # Weekly timesheets
+
+  1. New Tables
+    - `timesheets`
+      - A user's week of time, from Monday. `starts_at` and `ends_at` are the user's local midnights
+        that bound the week, so every entry can be placed in exactly one week
+      - Open weeks can be edited and submitted. An agency admin or the client's project manager then
+        approves the week or rejects it with a comment, which opens it again
+    - `timesheet_tasks`
+      - Tasks pinned to a week's grid, so a row shows before any time is logged on it
+
+  2. Changes
+    - `task_time_entries.timesheet_id` marks the entry that holds the hours typed into a timesheet cell.
+      Each task has at most one such entry per day, on top of any time logged with the timer
+    - Time in a submitted or approved week can't be added, changed or deleted. Attaching it to an
+      invoice is still allowed
+    - `purge_trashed_tasks` keeps trashed tasks with time in a submitted or approved week
+    - `get_client_budget_report` can count approved time only
+
+  3. New Functions
+    - `ensure_timesheet`, `add_timesheet_task`, `remove_timesheet_task`, `copy_previous_timesheet_tasks`,
+      `set_timesheet_hours` and `submit_timesheet` for the week's owner
+    - `get_timesheets_to_review`, `approve_timesheet` and `reject_timesheet` for reviewers
+*/
+
+CREATE TABLE IF NOT EXISTS timesheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'submitted', 'approved', 'rejected')),
+  submitted_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at),
+  UNIQUE (user_id, week_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_timesheets_user_range ON timesheets(user_id, starts_at, ends_at);
+CREATE INDEX IF NOT EXISTS idx_timesheets_submitted ON timesheets(status) WHERE status = 'submitted';
+
+CREATE TABLE IF NOT EXISTS timesheet_tasks (
+  timesheet_id UUID NOT NULL REFERENCES timesheets(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (timesheet_id, task_id)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'task_time_entries' AND column_name = 'timesheet_id'
+  ) THEN
+    ALTER TABLE task_time_entries ADD COLUMN timesheet_id UUID REFERENCES timesheets(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_task_time_entries_user_start ON task_time_entries(user_id, start_time);
+
+-- Whether a user's time at a moment falls in a week of theirs with one of the given statuses
+CREATE OR REPLACE FUNCTION timesheet_week_has_status(p_user_id UUID, p_at TIMESTAMPTZ, p_statuses TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM timesheets ts
+    WHERE ts.user_id = p_user_id
+      AND ts.starts_at <= p_at
+      AND ts.ends_at > p_at
+      AND ts.status = ANY(p_statuses)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Submitted and approved weeks are frozen. Changes that leave the logged time alone, such as invoicing it, pass
+CREATE OR REPLACE FUNCTION prevent_locked_timesheet_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.task_id, NEW.user_id, NEW.start_time, NEW.end_time, NEW.is_billable, NEW.description, NEW.actual_cost)
+      IS NOT DISTINCT FROM
+      (OLD.task_id, OLD.user_id, OLD.start_time, OLD.end_time, OLD.is_billable, OLD.description, OLD.actual_cost)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND timesheet_week_has_status(OLD.user_id, OLD.start_time, ARRAY['submitted', 'approved']) THEN
+    RAISE EXCEPTION 'This time is in a submitted or approved timesheet and can''t be changed';
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND timesheet_week_has_status(NEW.user_id, NEW.start_time, ARRAY['submitted', 'approved']) THEN
+    RAISE EXCEPTION 'This time is in a submitted or approved timesheet and can''t be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'prevent_locked_timesheet_changes_trigger'
+  ) THEN
+    CREATE TRIGGER prevent_locked_timesheet_changes_trigger
+    BEFORE INSERT OR UPDATE OR DELETE
+    ON task_time_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_locked_timesheet_changes();
+  END IF;
+END $$;
+
+-- Trashed tasks with invoiced time, or time in a submitted or approved week, stay
+CREATE OR REPLACE FUNCTION purge_trashed_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM tasks t
+  USING clients c
+  WHERE c.id = t.client_id
+    AND t.deleted_at IS NOT NULL
+    AND c.trash_retention_days IS NOT NULL
+    AND t.deleted_at < NOW() - make_interval(days => c.trash_retention_days)
+    AND NOT EXISTS (
+      SELECT 1 FROM task_time_entries e
+      WHERE e.task_id = t.id
+        AND (
+          e.invoice_id IS NOT NULL
+          OR timesheet_week_has_status(e.user_id, e.start_time, ARRAY['submitted', 'approved'])
+        )
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Whether a user may approve or reject a timesheet: an agency admin, or the project manager, of a
+-- client with time in the week. Nobody reviews their own week
+CREATE OR REPLACE FUNCTION can_review_timesheet(p_user_id UUID, p_timesheet_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM timesheets ts
+    JOIN task_time_entries e ON e.user_id = ts.user_id
+      AND e.start_time >= ts.starts_at
+      AND e.start_time < ts.ends_at
+    JOIN tasks t ON t.id = e.task_id
+    JOIN clients c ON c.id = t.client_id
+    WHERE ts.id = p_timesheet_id
+      AND ts.user_id <> p_user_id
+      AND (
+        can_manage_agency_billing(p_user_id, c.agency_id)
+        OR EXISTS (
+          SELECT 1
+          FROM client_project_managers cpm
+          JOIN project_managers pm ON pm.id = cpm.pm_id
+          WHERE cpm.client_id = c.id AND pm.user_id = p_user_id
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Load a timesheet the current user owns and can still change, or fail
+CREATE OR REPLACE FUNCTION get_editable_timesheet(p_timesheet_id UUID)
+RETURNS timesheets AS $$
+DECLARE
+  v_timesheet timesheets%ROWTYPE;
+BEGIN
+  SELECT * INTO v_timesheet FROM timesheets WHERE id = p_timesheet_id;
+  IF NOT FOUND OR v_timesheet.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Timesheet not found';
+  END IF;
+
+  IF v_timesheet.status NOT IN ('open', 'rejected') THEN
+    RAISE EXCEPTION 'This week has been submitted and can''t be changed';
+  END IF;
+
+  RETURN v_timesheet;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The current user's timesheet for a week, created on first use
+CREATE OR REPLACE FUNCTION ensure_timesheet(p_week_start DATE, p_starts_at TIMESTAMPTZ, p_ends_at TIMESTAMPTZ)
+RETURNS UUID AS $$
+DECLARE
+  v_timesheet_id UUID;
+BEGIN
+  IF EXTRACT(ISODOW FROM p_week_start) <> 1 THEN
+    RAISE EXCEPTION 'A timesheet week starts on a Monday';
+  END IF;
+
+  INSERT INTO timesheets (user_id, week_start, starts_at, ends_at)
+  VALUES (auth.uid(), p_week_start, p_starts_at, p_ends_at)
+  ON CONFLICT (user_id, week_start) DO NOTHING;
+
+  SELECT id INTO v_timesheet_id
+  FROM timesheets
+  WHERE user_id = auth.uid() AND week_start = p_week_start;
+
+  RETURN v_timesheet_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pin a task to a week's grid
+CREATE OR REPLACE FUNCTION add_timesheet_task(p_timesheet_id UUID, p_task_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM get_editable_timesheet(p_timesheet_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tasks
+    WHERE id = p_task_id AND deleted_at IS NULL AND can_access_client(auth.uid(), client_id)
+  ) THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  INSERT INTO timesheet_tasks (timesheet_id, task_id)
+  VALUES (p_timesheet_id, p_task_id)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Unpin a task. Time already logged on it keeps its row
+CREATE OR REPLACE FUNCTION remove_timesheet_task(p_timesheet_id UUID, p_task_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM get_editable_timesheet(p_timesheet_id);
+
+  DELETE FROM timesheet_tasks
+  WHERE timesheet_id = p_timesheet_id AND task_id = p_task_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pin the tasks of the week before: its pinned tasks and those with time. Returns how many were added
+CREATE OR REPLACE FUNCTION copy_previous_timesheet_tasks(p_timesheet_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_timesheet timesheets%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  v_timesheet := get_editable_timesheet(p_timesheet_id);
+
+  INSERT INTO timesheet_tasks (timesheet_id, task_id)
+  SELECT DISTINCT p_timesheet_id, previous.task_id
+  FROM (
+    SELECT tt.task_id
+    FROM timesheets ts
+    JOIN timesheet_tasks tt ON tt.timesheet_id = ts.id
+    WHERE ts.user_id = v_timesheet.user_id AND ts.week_start = v_timesheet.week_start - 7
+    UNION
+    SELECT e.task_id
+    FROM task_time_entries e
+    WHERE e.user_id = v_timesheet.user_id
+      AND e.start_time >= v_timesheet.starts_at - INTERVAL '7 days'
+      AND e.start_time < v_timesheet.starts_at
+  ) previous
+  JOIN tasks t ON t.id = previous.task_id
+  WHERE t.deleted_at IS NULL
+    AND can_access_client(v_timesheet.user_id, t.client_id)
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Set the hours of a task on a day of the week (p_day_start is the user's local midnight). Time logged
+-- with the timer counts towards the cell, so the timesheet entry only holds the rest
+CREATE OR REPLACE FUNCTION set_timesheet_hours(
+  p_timesheet_id UUID,
+  p_task_id UUID,
+  p_day_start TIMESTAMPTZ,
+  p_hours NUMERIC
+)
+RETURNS VOID AS $$
+DECLARE
+  v_timesheet timesheets%ROWTYPE;
+  v_day_end TIMESTAMPTZ := p_day_start + INTERVAL '1 day';
+  v_logged NUMERIC;
+  v_hours NUMERIC;
+  v_start TIMESTAMPTZ;
+BEGIN
+  v_timesheet := get_editable_timesheet(p_timesheet_id);
+
+  IF p_day_start < v_timesheet.starts_at OR p_day_start >= v_timesheet.ends_at THEN
+    RAISE EXCEPTION 'That day isn''t in this week';
+  END IF;
+
+  IF p_hours < 0 OR p_hours > 24 THEN
+    RAISE EXCEPTION 'Hours must be between 0 and 24';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tasks
+    WHERE id = p_task_id AND deleted_at IS NULL AND can_access_client(auth.uid(), client_id)
+  ) THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (end_time - start_time)) / 3600), 0) INTO v_logged
+  FROM task_time_entries
+  WHERE task_id = p_task_id
+    AND user_id = auth.uid()
+    AND start_time >= p_day_start
+    AND start_time < v_day_end
+    AND end_time IS NOT NULL
+    AND timesheet_id IS DISTINCT FROM p_timesheet_id;
+
+  v_hours := ROUND(p_hours - v_logged, 2);
+  IF v_hours < 0 THEN
+    RAISE EXCEPTION '% h were logged with the timer that day; change those entries on the task instead',
+      ROUND(v_logged, 2);
+  END IF;
+
+  DELETE FROM task_time_entries
+  WHERE task_id = p_task_id
+    AND user_id = auth.uid()
+    AND timesheet_id = p_timesheet_id
+    AND start_time >= p_day_start
+    AND start_time < v_day_end;
+
+  IF v_hours > 0 THEN
+    -- Start the working day at 9, earlier if the hours wouldn't fit in the day otherwise
+    v_start := p_day_start + LEAST(INTERVAL '9 hours', INTERVAL '24 hours' - make_interval(secs => v_hours * 3600));
+
+    INSERT INTO task_time_entries (task_id, user_id, start_time, end_time, is_billable, is_running, timesheet_id)
+    VALUES (p_task_id, auth.uid(), v_start, v_start + make_interval(secs => v_hours * 3600), TRUE, FALSE, p_timesheet_id);
+  END IF;
+
+  INSERT INTO timesheet_tasks (timesheet_id, task_id)
+  VALUES (p_timesheet_id, p_task_id)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Send a week for approval. It's frozen until it's rejected
+CREATE OR REPLACE FUNCTION submit_timesheet(p_timesheet_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_timesheet timesheets%ROWTYPE;
+BEGIN
+  v_timesheet := get_editable_timesheet(p_timesheet_id);
+
+  IF EXISTS (
+    SELECT 1 FROM task_time_entries
+    WHERE user_id = v_timesheet.user_id
+      AND start_time >= v_timesheet.starts_at
+      AND start_time < v_timesheet.ends_at
+      AND end_time IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Stop the running timer before submitting this week';
+  END IF;
+
+  UPDATE timesheets
+  SET status = 'submitted',
+      submitted_at = now(),
+      updated_at = now()
+  WHERE id = p_timesheet_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Submitted weeks the current user can review, oldest first
+CREATE OR REPLACE FUNCTION get_timesheets_to_review()
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  user_email TEXT,
+  week_start DATE,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  submitted_at TIMESTAMPTZ,
+  total_hours NUMERIC
+) AS $$
+  SELECT
+    ts.id,
+    ts.user_id,
+    (SELECT ur.email FROM user_roles ur WHERE ur.user_id = ts.user_id LIMIT 1)::TEXT,
+    ts.week_start,
+    ts.starts_at,
+    ts.ends_at,
+    ts.submitted_at,
+    (
+      SELECT ROUND(COALESCE(SUM(EXTRACT(EPOCH FROM (e.end_time - e.start_time)) / 3600), 0), 2)
+      FROM task_time_entries e
+      WHERE e.user_id = ts.user_id
+        AND e.start_time >= ts.starts_at
+        AND e.start_time < ts.ends_at
+        AND e.end_time IS NOT NULL
+    )
+  FROM timesheets ts
+  WHERE ts.status = 'submitted'
+    AND can_review_timesheet(auth.uid(), ts.id)
+  ORDER BY ts.week_start, ts.submitted_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Record a review and tell the week's owner about it
+CREATE OR REPLACE FUNCTION review_timesheet(p_timesheet_id UUID, p_status TEXT, p_comment TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_timesheet timesheets%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'A review approves or rejects a timesheet';
+  END IF;
+
+  SELECT * INTO v_timesheet FROM timesheets WHERE id = p_timesheet_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Timesheet not found';
+  END IF;
+
+  IF NOT can_review_timesheet(auth.uid(), p_timesheet_id) THEN
+    RAISE EXCEPTION 'You do not have permission to review this timesheet';
+  END IF;
+
+  IF v_timesheet.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only submitted timesheets can be reviewed';
+  END IF;
+
+  UPDATE timesheets
+  SET status = p_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = NULLIF(TRIM(p_comment), ''),
+      updated_at = now()
+  WHERE id = p_timesheet_id;
+
+  INSERT INTO notifications (user_id, type, content, data)
+  VALUES (
+    v_timesheet.user_id,
+    'timesheet_reviewed',
+    format(
+      'Your timesheet for the week of %s was %s%s',
+      to_char(v_timesheet.week_start, 'Mon FMDD'),
+      p_status,
+      COALESCE(': ' || NULLIF(TRIM(p_comment), ''), '')
+    ),
+    jsonb_build_object('timesheet_id', p_timesheet_id, 'week_start', v_timesheet.week_start, 'status', p_status)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION approve_timesheet(p_timesheet_id UUID, p_comment TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM review_timesheet(p_timesheet_id, 'approved', p_comment);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Send a week back to its owner, who can change it and submit it again
+CREATE OR REPLACE FUNCTION reject_timesheet(p_timesheet_id UUID, p_comment TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NULLIF(TRIM(p_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'Say why the timesheet is rejected';
+  END IF;
+
+  PERFORM review_timesheet(p_timesheet_id, 'rejected', p_comment);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Monthly hours and cost against budget. With p_approved_only, only time in approved weeks counts
+DROP FUNCTION IF EXISTS get_client_budget_report(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION get_client_budget_report(
+  p_client_id UUID,
+  p_start_month TEXT,
+  p_end_month TEXT,
+  p_approved_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  month TEXT,
+  hours_budget NUMERIC,
+  hours_used NUMERIC,
+  hours_remaining NUMERIC,
+  hours_percentage NUMERIC,
+  cost_budget NUMERIC,
+  cost_used NUMERIC,
+  cost_remaining NUMERIC,
+  cost_percentage NUMERIC
+) AS $$
+  WITH months AS (
+    SELECT to_char(m, 'YYYY-MM') AS month, m AS month_start, m + INTERVAL '1 month' AS month_end
+    FROM generate_series((p_start_month || '-01')::DATE, (p_end_month || '-01')::DATE, INTERVAL '1 month') m
+  ),
+  used AS (
+    SELECT
+      months.month,
+      COALESCE(SUM(EXTRACT(EPOCH FROM (e.end_time - e.start_time)) / 3600), 0) AS hours,
+      COALESCE(SUM(e.actual_cost), 0) AS cost
+    FROM months
+    LEFT JOIN tasks t ON t.client_id = p_client_id
+    LEFT JOIN task_time_entries e ON e.task_id = t.id
+      AND e.start_time >= months.month_start
+      AND e.start_time < months.month_end
+      AND e.end_time IS NOT NULL
+      AND (NOT p_approved_only OR timesheet_week_has_status(e.user_id, e.start_time, ARRAY['approved']))
+    GROUP BY months.month
+  )
+  SELECT
+    months.month,
+    COALESCE(b.hours_budget, 0)::NUMERIC,
+    ROUND(used.hours, 2),
+    ROUND(COALESCE(b.hours_budget, 0) - used.hours, 2),
+    CASE WHEN COALESCE(b.hours_budget, 0) > 0 THEN ROUND(used.hours / b.hours_budget * 100, 2) ELSE 0 END,
+    COALESCE(b.cost_budget, 0)::NUMERIC,
+    ROUND(used.cost, 2),
+    ROUND(COALESCE(b.cost_budget, 0) - used.cost, 2),
+    CASE WHEN COALESCE(b.cost_budget, 0) > 0 THEN ROUND(used.cost / b.cost_budget * 100, 2) ELSE 0 END
+  FROM months
+  JOIN used ON used.month = months.month
+  LEFT JOIN client_budgets b ON b.client_id = p_client_id AND b.month = months.month
+  WHERE can_access_client(auth.uid(), p_client_id)
+  ORDER BY months.month;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
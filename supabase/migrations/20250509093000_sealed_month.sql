@@ -0,0 +1,231 @@
+/*
+  # Lock time entries up to a date
+
+  1. New Tables
+    - `time_lock_overrides`
+      - One row per change a system admin made to locked time: who, when, what, and the entry before
+        and after
+
+  2. Changes
+    - `agencies.time_lock_date`: time that starts on or before this day (UTC) can't be added, edited or
+      deleted on the agency's clients, except by system admins. `time_lock_set_by` and
+      `time_lock_set_at` record the last change to it
+    - `purge_trashed_tasks` keeps trashed tasks with locked time
+
+  3. New Functions
+    - `get_time_lock_date` returns the lock date that applies to a task
+    - `set_time_lock_date` moves an agency's lock date. Agency admins can only move it forward;
+      unlocking time again takes a system admin
+    - `get_time_lock_overrides` lists an agency's overrides, newest first
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'agencies' AND column_name = 'time_lock_date'
+  ) THEN
+    ALTER TABLE agencies ADD COLUMN time_lock_date DATE;
+    ALTER TABLE agencies ADD COLUMN time_lock_set_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+    ALTER TABLE agencies ADD COLUMN time_lock_set_at TIMESTAMPTZ;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS time_lock_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agency_id UUID NOT NULL REFERENCES agencies(id) ON DELETE CASCADE,
+  time_entry_id UUID NOT NULL, -- Not a reference: deleted entries keep their record
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  lock_date DATE NOT NULL,
+  old_entry JSONB,
+  new_entry JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_lock_overrides_agency ON time_lock_overrides(agency_id, created_at DESC);
+
+-- Whether a user is a system admin over an agency
+CREATE OR REPLACE FUNCTION is_system_admin_of_agency(p_user_id UUID, p_agency_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    JOIN agencies a ON a.id = p_agency_id
+    WHERE ur.user_id = p_user_id
+      AND ur.role = 'system_admin'
+      AND (ur.system_id IS NULL OR ur.system_id = a.system_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The lock date of the agency a task's client belongs to, or NULL if its time isn't locked
+CREATE OR REPLACE FUNCTION get_time_lock_date(p_task_id UUID)
+RETURNS DATE AS $$
+  SELECT a.time_lock_date
+  FROM tasks t
+  JOIN clients c ON c.id = t.client_id
+  JOIN agencies a ON a.id = c.agency_id
+  WHERE t.id = p_task_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Locked time only changes at a system admin's hand, and every such change is recorded.
+-- Changes that leave the logged time alone, such as invoicing it, pass
+CREATE OR REPLACE FUNCTION enforce_time_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old_lock DATE;
+  v_new_lock DATE;
+  v_lock_date DATE;
+  v_agency_id UUID;
+  v_action TEXT := lower(TG_OP);
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.task_id, NEW.user_id, NEW.start_time, NEW.end_time, NEW.is_billable, NEW.description, NEW.actual_cost)
+      IS NOT DISTINCT FROM
+      (OLD.task_id, OLD.user_id, OLD.start_time, OLD.end_time, OLD.is_billable, OLD.description, OLD.actual_cost)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    v_old_lock := get_time_lock_date(OLD.task_id);
+    IF v_old_lock IS NOT NULL AND (OLD.start_time AT TIME ZONE 'UTC')::DATE <= v_old_lock THEN
+      v_lock_date := v_old_lock;
+      v_agency_id := (SELECT c.agency_id FROM tasks t JOIN clients c ON c.id = t.client_id WHERE t.id = OLD.task_id);
+    END IF;
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND v_lock_date IS NULL THEN
+    v_new_lock := get_time_lock_date(NEW.task_id);
+    IF v_new_lock IS NOT NULL AND (NEW.start_time AT TIME ZONE 'UTC')::DATE <= v_new_lock THEN
+      v_lock_date := v_new_lock;
+      v_agency_id := (SELECT c.agency_id FROM tasks t JOIN clients c ON c.id = t.client_id WHERE t.id = NEW.task_id);
+    END IF;
+  END IF;
+
+  IF v_lock_date IS NOT NULL THEN
+    IF NOT is_system_admin_of_agency(auth.uid(), v_agency_id) THEN
+      RAISE EXCEPTION 'Time on or before % is locked and can''t be changed', to_char(v_lock_date, 'Mon FMDD, YYYY');
+    END IF;
+
+    INSERT INTO time_lock_overrides (agency_id, time_entry_id, user_id, action, lock_date, old_entry, new_entry)
+    VALUES (
+      v_agency_id,
+      CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+      auth.uid(),
+      v_action,
+      v_lock_date,
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+      CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+    );
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'enforce_time_lock_trigger'
+  ) THEN
+    CREATE TRIGGER enforce_time_lock_trigger
+    BEFORE INSERT OR UPDATE OR DELETE
+    ON task_time_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_time_lock();
+  END IF;
+END $$;
+
+-- Trashed tasks with invoiced time, time in a submitted or approved week, or locked time stay
+CREATE OR REPLACE FUNCTION purge_trashed_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM tasks t
+  USING clients c
+  JOIN agencies a ON a.id = c.agency_id
+  WHERE c.id = t.client_id
+    AND t.deleted_at IS NOT NULL
+    AND c.trash_retention_days IS NOT NULL
+    AND t.deleted_at < NOW() - make_interval(days => c.trash_retention_days)
+    AND NOT EXISTS (
+      SELECT 1 FROM task_time_entries e
+      WHERE e.task_id = t.id
+        AND (
+          e.invoice_id IS NOT NULL
+          OR timesheet_week_has_status(e.user_id, e.start_time, ARRAY['submitted', 'approved'])
+          OR (e.start_time AT TIME ZONE 'UTC')::DATE <= a.time_lock_date
+        )
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move an agency's lock date. NULL unlocks all of its time
+CREATE OR REPLACE FUNCTION set_time_lock_date(p_agency_id UUID, p_lock_date DATE)
+RETURNS VOID AS $$
+DECLARE
+  v_current DATE;
+BEGIN
+  IF NOT can_manage_agency_billing(auth.uid(), p_agency_id) THEN
+    RAISE EXCEPTION 'You do not have permission to lock time for this agency';
+  END IF;
+
+  IF p_lock_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'Time can only be locked up to today';
+  END IF;
+
+  SELECT time_lock_date INTO v_current FROM agencies WHERE id = p_agency_id;
+
+  IF v_current IS NOT NULL
+    AND (p_lock_date IS NULL OR p_lock_date < v_current)
+    AND NOT is_system_admin_of_agency(auth.uid(), p_agency_id)
+  THEN
+    RAISE EXCEPTION 'Only system admins can unlock time that is already locked';
+  END IF;
+
+  UPDATE agencies
+  SET time_lock_date = p_lock_date,
+      time_lock_set_by = auth.uid(),
+      time_lock_set_at = now()
+  WHERE id = p_agency_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- An agency's recorded overrides of locked time, newest first
+CREATE OR REPLACE FUNCTION get_time_lock_overrides(p_agency_id UUID, p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  id UUID,
+  time_entry_id UUID,
+  user_id UUID,
+  user_email TEXT,
+  action TEXT,
+  lock_date DATE,
+  old_entry JSONB,
+  new_entry JSONB,
+  created_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    o.id,
+    o.time_entry_id,
+    o.user_id,
+    (SELECT ur.email FROM user_roles ur WHERE ur.user_id = o.user_id LIMIT 1)::TEXT,
+    o.action,
+    o.lock_date,
+    o.old_entry,
+    o.new_entry,
+    o.created_at
+  FROM time_lock_overrides o
+  WHERE o.agency_id = p_agency_id
+    AND can_manage_agency_billing(auth.uid(), p_agency_id)
+  ORDER BY o.created_at DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
@@ -0,0 +1,49 @@
+/*
+  # One running timer per user
+
+  1. Changes
+    - Users with several timers running keep the newest; each older one is stopped when the next
+      one started
+    - A unique index on running entries stops a second timer from starting, whichever tab or device
+      starts it
+    - `task_time_entries` is published to Supabase Realtime, so the running timer shows up on all
+      of a user's devices. Deletes log full rows so they still say whose entry went
+*/
+
+-- Stopping these is a correction rather than someone editing locked or submitted time
+ALTER TABLE task_time_entries DISABLE TRIGGER enforce_time_lock_trigger;
+ALTER TABLE task_time_entries DISABLE TRIGGER prevent_locked_timesheet_changes_trigger;
+
+UPDATE task_time_entries e
+SET end_time = next_running.start_time,
+    is_running = false
+FROM (
+  SELECT
+    id,
+    LEAD(start_time) OVER (PARTITION BY user_id ORDER BY start_time) AS start_time
+  FROM task_time_entries
+  WHERE is_running
+) next_running
+WHERE e.id = next_running.id
+  AND next_running.start_time IS NOT NULL;
+
+ALTER TABLE task_time_entries ENABLE TRIGGER enforce_time_lock_trigger;
+ALTER TABLE task_time_entries ENABLE TRIGGER prevent_locked_timesheet_changes_trigger;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_time_entries_one_running
+  ON task_time_entries(user_id)
+  WHERE is_running;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'task_time_entries'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE task_time_entries;
+  END IF;
+END $$;
+
+ALTER TABLE task_time_entries REPLICA IDENTITY FULL;
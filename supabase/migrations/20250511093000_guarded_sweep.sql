@@ -0,0 +1,238 @@
+/*
+  # Check permissions on bulk task changes
+
+  1. Changes
+    - `bulk_update_tasks` needs the caller to manage the client of every task it changes. A new
+      board must belong to the tasks' own client, and the caller must be able to manage it
+    - `undo_task_batch` only undoes changes the caller made
+*/
+
+-- Apply one set of changes to many tasks and return the batch id to undo it with
+CREATE OR REPLACE FUNCTION bulk_update_tasks(p_task_ids UUID[], p_changes JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_batch_id UUID := gen_random_uuid();
+  v_user_email TEXT;
+  v_task tasks%ROWTYPE;
+  v_new tasks%ROWTYPE;
+  v_field TEXT;
+  v_details JSONB;
+  v_shift INTERVAL;
+  v_tags_from TEXT[];
+  v_tags_to TEXT[];
+  v_board boards%ROWTYPE;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM tasks
+    WHERE id = ANY(p_task_ids)
+      AND NOT can_manage_client_tasks(auth.uid(), client_id)
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to change some of these tasks';
+  END IF;
+
+  -- Bulk moves stay within a client; moving to another client's board goes through move_task_to_board
+  IF p_changes ? 'board_id' THEN
+    SELECT * INTO v_board FROM boards WHERE id = (p_changes->>'board_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Board not found';
+    END IF;
+
+    IF NOT can_manage_client_tasks(auth.uid(), v_board.client_id) THEN
+      RAISE EXCEPTION 'You do not have permission to move tasks to this board';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM tasks
+      WHERE (id = ANY(p_task_ids) OR parent_task_id = ANY(p_task_ids))
+        AND client_id <> v_board.client_id
+    ) THEN
+      RAISE EXCEPTION 'Tasks can only be moved to a board of their own client';
+    END IF;
+  END IF;
+
+  SELECT email INTO v_user_email FROM user_roles WHERE user_id = auth.uid() LIMIT 1;
+
+  IF p_changes ? 'shift_days' THEN
+    v_shift := make_interval(days => (p_changes->>'shift_days')::INTEGER);
+  END IF;
+
+  -- Parents go first so their subtasks can follow them to another board
+  FOR v_task IN
+    SELECT * FROM tasks
+    WHERE id = ANY(p_task_ids)
+      OR (p_changes ? 'board_id' AND parent_task_id = ANY(p_task_ids))
+    ORDER BY parent_task_id NULLS FIRST
+  LOOP
+    v_new := v_task;
+
+    IF p_changes ? 'status' THEN
+      v_new.status := p_changes->>'status';
+    END IF;
+
+    IF p_changes ? 'priority' THEN
+      v_new.priority := p_changes->>'priority';
+    END IF;
+
+    IF p_changes ? 'assigned_to' THEN
+      v_new.assigned_to := (p_changes->>'assigned_to')::UUID;
+    END IF;
+
+    IF p_changes ? 'start_date' THEN
+      v_new.start_date := (p_changes->>'start_date')::TIMESTAMPTZ;
+    END IF;
+
+    IF p_changes ? 'finish_date' THEN
+      v_new.finish_date := (p_changes->>'finish_date')::TIMESTAMPTZ;
+    END IF;
+
+    IF v_shift IS NOT NULL THEN
+      v_new.start_date := v_new.start_date + v_shift;
+      v_new.finish_date := v_new.finish_date + v_shift;
+    END IF;
+
+    IF p_changes ? 'board_id' THEN
+      v_new.board_id := (p_changes->>'board_id')::UUID;
+
+      IF v_task.parent_task_id IS NOT NULL AND NOT v_task.parent_task_id = ANY(p_task_ids) THEN
+        v_new.parent_task_id := NULL;
+      END IF;
+    END IF;
+
+    -- Status triggers may adjust the new values (e.g. an unknown status on the target board), so log what was stored
+    UPDATE tasks
+    SET status = v_new.status,
+        priority = v_new.priority,
+        assigned_to = v_new.assigned_to,
+        start_date = v_new.start_date,
+        finish_date = v_new.finish_date,
+        board_id = v_new.board_id,
+        parent_task_id = v_new.parent_task_id,
+        updated_at = NOW()
+    WHERE id = v_task.id
+    RETURNING * INTO v_new;
+
+    v_details := '{}'::JSONB;
+    FOREACH v_field IN ARRAY ARRAY['status', 'priority', 'assigned_to', 'start_date', 'finish_date', 'board_id', 'parent_task_id'] LOOP
+      IF to_jsonb(v_task)->v_field IS DISTINCT FROM to_jsonb(v_new)->v_field THEN
+        v_details := v_details || jsonb_build_object(
+          v_field,
+          jsonb_build_object('from', to_jsonb(v_task)->v_field, 'to', to_jsonb(v_new)->v_field)
+        );
+      END IF;
+    END LOOP;
+
+    IF p_changes ? 'add_tags' OR p_changes ? 'remove_tags' THEN
+      v_tags_from := get_task_tag_names(v_task.id);
+
+      SELECT COALESCE(array_agg(DISTINCT name ORDER BY name), '{}') INTO v_tags_to
+      FROM (
+        SELECT unnest(v_tags_from) AS name
+        UNION
+        SELECT jsonb_array_elements_text(COALESCE(p_changes->'add_tags', '[]'::JSONB))
+      ) names
+      WHERE name NOT IN (SELECT jsonb_array_elements_text(COALESCE(p_changes->'remove_tags', '[]'::JSONB)));
+
+      IF v_tags_to IS DISTINCT FROM v_tags_from THEN
+        PERFORM set_task_tag_names(v_task.id, v_tags_to);
+        v_details := v_details || jsonb_build_object(
+          'tags',
+          jsonb_build_object('from', to_jsonb(v_tags_from), 'to', to_jsonb(v_tags_to))
+        );
+      END IF;
+    END IF;
+
+    IF v_details <> '{}'::JSONB THEN
+      INSERT INTO task_activities (task_id, user_id, user_email, action, details, batch_id)
+      VALUES (v_task.id, auth.uid(), v_user_email, 'bulk_updated', v_details, v_batch_id);
+    END IF;
+  END LOOP;
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Put every task touched by a bulk change back the way it was
+CREATE OR REPLACE FUNCTION undo_task_batch(p_batch_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_user_email TEXT;
+  v_activity task_activities%ROWTYPE;
+  v_task tasks%ROWTYPE;
+  v_restored tasks%ROWTYPE;
+  v_undone_details JSONB;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM task_activities
+    WHERE batch_id = p_batch_id AND action = 'bulk_updated'
+  ) THEN
+    RAISE EXCEPTION 'Change not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM task_activities
+    WHERE batch_id = p_batch_id AND action = 'bulk_updated' AND user_id IS DISTINCT FROM auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the person who made a change can undo it';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM task_activities
+    WHERE batch_id = p_batch_id AND action = 'bulk_undone'
+  ) THEN
+    RAISE EXCEPTION 'This change has already been undone';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM task_activities
+    WHERE batch_id = p_batch_id AND created_at < NOW() - INTERVAL '10 minutes'
+  ) THEN
+    RAISE EXCEPTION 'This change can no longer be undone';
+  END IF;
+
+  SELECT email INTO v_user_email FROM user_roles WHERE user_id = auth.uid() LIMIT 1;
+
+  -- Parents go back first so detached subtasks can rejoin them
+  FOR v_activity IN
+    SELECT ta.* FROM task_activities ta
+    JOIN tasks t ON t.id = ta.task_id
+    WHERE ta.batch_id = p_batch_id AND ta.action = 'bulk_updated'
+    ORDER BY COALESCE(ta.details->'parent_task_id'->>'from', t.parent_task_id::TEXT) NULLS FIRST
+  LOOP
+    SELECT * INTO v_task FROM tasks WHERE id = v_activity.task_id;
+
+    SELECT * INTO v_restored
+    FROM jsonb_populate_record(
+      v_task,
+      COALESCE(
+        (SELECT jsonb_object_agg(key, value->'from') FROM jsonb_each(v_activity.details) WHERE key <> 'tags'),
+        '{}'::JSONB
+      )
+    );
+
+    UPDATE tasks
+    SET status = v_restored.status,
+        priority = v_restored.priority,
+        assigned_to = v_restored.assigned_to,
+        start_date = v_restored.start_date,
+        finish_date = v_restored.finish_date,
+        board_id = v_restored.board_id,
+        parent_task_id = v_restored.parent_task_id,
+        updated_at = NOW()
+    WHERE id = v_task.id;
+
+    IF v_activity.details ? 'tags' THEN
+      PERFORM set_task_tag_names(
+        v_task.id,
+        ARRAY(SELECT jsonb_array_elements_text(v_activity.details->'tags'->'from'))
+      );
+    END IF;
+
+    SELECT jsonb_object_agg(key, jsonb_build_object('from', value->'to', 'to', value->'from'))
+    INTO v_undone_details
+    FROM jsonb_each(v_activity.details);
+
+    INSERT INTO task_activities (task_id, user_id, user_email, action, details, batch_id)
+    VALUES (v_task.id, auth.uid(), v_user_email, 'bulk_undone', v_undone_details, p_batch_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
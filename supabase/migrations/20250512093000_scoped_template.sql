@@ -0,0 +1,168 @@
+/*
+  # Check permissions when building a board from a template
+
+  1. New Functions
+    - `can_view_board_template` checks that a template's scope is one the user belongs to: system
+      templates of their system, their agency's templates and their clients' templates
+
+  2. Changes
+    - `apply_board_template` needs the caller to manage the client's tasks and to be able to see
+      the template
+*/
+
+-- Whether a user can see a board template, based on its scope and the user's roles
+CREATE OR REPLACE FUNCTION can_view_board_template(p_user_id UUID, p_template_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM board_templates bt
+    JOIN user_roles ur ON ur.user_id = p_user_id
+    LEFT JOIN clients uc ON uc.id = ur.client_id
+    LEFT JOIN agencies ua ON ua.id = COALESCE(ur.agency_id, uc.agency_id)
+    LEFT JOIN agencies ta ON ta.id = bt.agency_id
+    WHERE bt.id = p_template_id
+      AND CASE bt.access_level
+        WHEN 'system' THEN
+          (ur.role = 'system_admin' AND (ur.system_id IS NULL OR ur.system_id = bt.system_id))
+          OR ua.system_id = bt.system_id
+        WHEN 'agency' THEN
+          (ur.role = 'system_admin' AND (ur.system_id IS NULL OR ur.system_id = ta.system_id))
+          OR ua.id = bt.agency_id
+        ELSE
+          can_access_client(p_user_id, bt.client_id)
+      END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Build a client board from a template, including column categories
+CREATE OR REPLACE FUNCTION apply_board_template(
+  p_template_id UUID,
+  p_client_id UUID,
+  p_kickoff_date DATE,
+  p_board_name TEXT DEFAULT NULL,
+  p_is_default BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID AS $$
+DECLARE
+  v_template board_templates%ROWTYPE;
+  v_template_task board_template_tasks%ROWTYPE;
+  v_agency_id UUID;
+  v_board_id UUID;
+  v_task_id UUID;
+  v_column JSONB;
+  v_position INTEGER := 0;
+  v_item JSONB;
+  v_item_id UUID;
+  v_item_ids JSONB;
+BEGIN
+  SELECT * INTO v_template FROM board_templates WHERE id = p_template_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  SELECT agency_id INTO v_agency_id FROM clients WHERE id = p_client_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  IF NOT can_manage_client_tasks(auth.uid(), p_client_id) THEN
+    RAISE EXCEPTION 'You do not have permission to add boards for this client';
+  END IF;
+
+  IF NOT can_view_board_template(auth.uid(), p_template_id) THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  INSERT INTO boards (client_id, name, description, is_default)
+  VALUES (
+    p_client_id,
+    COALESCE(NULLIF(TRIM(p_board_name), ''), v_template.name),
+    v_template.description,
+    p_is_default
+  )
+  RETURNING id INTO v_board_id;
+
+  -- Replace any stock columns the new board was given with the template's own
+  IF jsonb_array_length(v_template.columns) > 0 THEN
+    DELETE FROM board_columns WHERE board_id = v_board_id;
+
+    FOR v_column IN SELECT * FROM jsonb_array_elements(v_template.columns) LOOP
+      INSERT INTO board_columns (board_id, name, key, color, icon, position, category)
+      VALUES (
+        v_board_id,
+        v_column->>'name',
+        v_column->>'key',
+        COALESCE(v_column->>'color', '#94A3B8'),
+        COALESCE(v_column->>'icon', '📋'),
+        v_position,
+        COALESCE(v_column->>'category', 'active')
+      );
+      v_position := v_position + 1;
+    END LOOP;
+  ELSIF NOT EXISTS (SELECT 1 FROM board_columns WHERE board_id = v_board_id) THEN
+    INSERT INTO board_columns (board_id, name, key, color, icon, position, category)
+    VALUES
+      (v_board_id, 'Inbox', 'inbox', '#94A3B8', '📥', 0, 'backlog'),
+      (v_board_id, 'To Do', 'todo', '#3B82F6', '📋', 1, 'backlog'),
+      (v_board_id, 'Doing', 'doing', '#F59E0B', '🔨', 2, 'active'),
+      (v_board_id, 'Done', 'done', '#10B981', '✅', 3, 'completed');
+  END IF;
+
+  FOR v_template_task IN
+    SELECT * FROM board_template_tasks WHERE template_id = p_template_id ORDER BY position
+  LOOP
+    INSERT INTO tasks (
+      title,
+      description,
+      status,
+      priority,
+      start_date,
+      finish_date,
+      estimated_hours,
+      estimated_cost,
+      position,
+      board_id,
+      client_id,
+      agency_id
+    ) VALUES (
+      v_template_task.title,
+      v_template_task.description,
+      v_template_task.status,
+      v_template_task.priority,
+      p_kickoff_date + v_template_task.start_offset_days,
+      p_kickoff_date + v_template_task.finish_offset_days,
+      v_template_task.estimated_hours,
+      v_template_task.estimated_cost,
+      v_template_task.position,
+      v_board_id,
+      p_client_id,
+      v_agency_id
+    )
+    RETURNING id INTO v_task_id;
+
+    -- Checklist items are stored parents first, so a parent's new id is known before its children
+    v_item_ids := '{}'::JSONB;
+    FOR v_item IN SELECT * FROM jsonb_array_elements(v_template_task.checklist) LOOP
+      INSERT INTO task_checklist_items (task_id, text, is_completed, position, parent_id)
+      VALUES (
+        v_task_id,
+        v_item->>'text',
+        FALSE,
+        COALESCE((v_item->>'position')::INTEGER, 0),
+        (v_item_ids->>(v_item->>'parent_ref'))::UUID
+      )
+      RETURNING id INTO v_item_id;
+
+      v_item_ids := v_item_ids || jsonb_build_object(v_item->>'ref', v_item_id);
+    END LOOP;
+
+    -- Skip SOPs that have been deleted since the template was saved
+    INSERT INTO task_sops (task_id, sop_id)
+    SELECT v_task_id, s.sop_id
+    FROM unnest(v_template_task.sop_ids) AS s(sop_id)
+    WHERE EXISTS (SELECT 1 FROM sops WHERE sops.id = s.sop_id);
+  END LOOP;
+
+  RETURN v_board_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,87 @@
+/*
+  # Check permissions when promoting a checklist item
+
+  1. Changes
+    - `promote_checklist_item_to_subtask` needs the caller to manage the tasks of the item's client
+*/
+
+-- Turn a checklist item into a subtask of the item's task
+CREATE OR REPLACE FUNCTION promote_checklist_item_to_subtask(p_item_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_item task_checklist_items%ROWTYPE;
+  v_parent tasks%ROWTYPE;
+  v_status TEXT;
+  v_position INTEGER;
+  v_task_id UUID;
+BEGIN
+  SELECT * INTO v_item FROM task_checklist_items WHERE id = p_item_id;
+
+  IF v_item.id IS NULL THEN
+    RAISE EXCEPTION 'Checklist item not found';
+  END IF;
+
+  SELECT * INTO v_parent FROM tasks WHERE id = v_item.task_id;
+
+  IF NOT can_manage_client_tasks(auth.uid(), v_parent.client_id) THEN
+    RAISE EXCEPTION 'You do not have permission to add subtasks to this task';
+  END IF;
+
+  -- Items on a subtask become siblings rather than a second level of subtasks
+  IF v_parent.parent_task_id IS NOT NULL THEN
+    SELECT * INTO v_parent FROM tasks WHERE id = v_parent.parent_task_id;
+  END IF;
+
+  -- New subtasks start in the board's first backlog column, like any new task
+  SELECT key INTO v_status
+  FROM board_columns
+  WHERE board_id = v_parent.board_id
+  ORDER BY (category = 'backlog') DESC, position
+  LIMIT 1;
+
+  SELECT COALESCE(MAX(position) + 1, 0) INTO v_position
+  FROM tasks
+  WHERE board_id = v_parent.board_id AND status = COALESCE(v_status, 'inbox');
+
+  INSERT INTO tasks (
+    title,
+    description,
+    status,
+    priority,
+    position,
+    board_id,
+    client_id,
+    agency_id,
+    parent_task_id
+  ) VALUES (
+    v_item.text,
+    '',
+    COALESCE(v_status, 'inbox'),
+    'medium',
+    v_position,
+    v_parent.board_id,
+    v_parent.client_id,
+    v_parent.agency_id,
+    v_parent.id
+  )
+  RETURNING id INTO v_task_id;
+
+  -- The item's sub-items become the new subtask's checklist
+  WITH RECURSIVE descendants AS (
+    SELECT id FROM task_checklist_items WHERE parent_id = p_item_id
+    UNION ALL
+    SELECT i.id FROM task_checklist_items i JOIN descendants d ON i.parent_id = d.id
+  )
+  UPDATE task_checklist_items
+  SET task_id = v_task_id
+  WHERE id IN (SELECT id FROM descendants);
+
+  UPDATE task_checklist_items
+  SET parent_id = NULL
+  WHERE parent_id = p_item_id;
+
+  DELETE FROM task_checklist_items WHERE id = p_item_id;
+
+  RETURN v_task_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,173 @@
+/*
+  # Generate recurring task occurrences in the database
+
+  1. Changes
+    - Add `generate_next_recurrence`, which creates the next task of a series together with its
+      checklist and SOP links. It locks the series row first, so two tabs or devices loading the
+      same board can't both create the same occurrence
+    - Occurrences created twice before this change keep the oldest one in the series; the others
+      stay on the board as standalone tasks
+    - Add a unique index on (`recurrence_id`, `recurrence_index`) so a series can't hold the same
+      occurrence twice
+*/
+
+UPDATE tasks t
+SET recurrence_id = NULL,
+    recurrence_index = NULL
+FROM (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (PARTITION BY recurrence_id, recurrence_index ORDER BY created_at, id) AS copy_number
+  FROM tasks
+  WHERE recurrence_id IS NOT NULL
+    AND recurrence_index IS NOT NULL
+) duplicates
+WHERE t.id = duplicates.id
+  AND duplicates.copy_number > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_recurrence_occurrence
+  ON tasks(recurrence_id, recurrence_index);
+
+-- The schedule itself is worked out by the app; p_occurrence_index is the occurrence the caller
+-- expects to create, so a caller that read the series before someone else advanced it does nothing
+CREATE OR REPLACE FUNCTION generate_next_recurrence(
+  p_recurrence_id UUID,
+  p_occurrence_index INTEGER,
+  p_occurrence_date DATE,
+  p_next_due_date DATE
+)
+RETURNS UUID AS $$
+DECLARE
+  v_recurrence task_recurrences%ROWTYPE;
+  v_latest tasks%ROWTYPE;
+  v_offset INTEGER;
+  v_status TEXT;
+  v_task_id UUID;
+  v_item RECORD;
+  v_item_id UUID;
+  v_item_ids JSONB := '{}'::JSONB;
+BEGIN
+  SELECT * INTO v_recurrence
+  FROM task_recurrences
+  WHERE id = p_recurrence_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring task not found';
+  END IF;
+
+  IF NOT can_access_client(auth.uid(), v_recurrence.client_id) THEN
+    RAISE EXCEPTION 'You do not have permission to view this client';
+  END IF;
+
+  IF NOT v_recurrence.is_active OR v_recurrence.occurrences_created <> p_occurrence_index - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  -- The most recent occurrence carries any "all future occurrences" edits
+  SELECT * INTO v_latest
+  FROM tasks
+  WHERE recurrence_id = p_recurrence_id
+  ORDER BY recurrence_index DESC NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    UPDATE task_recurrences
+    SET is_active = FALSE,
+        next_due_date = NULL
+    WHERE id = p_recurrence_id;
+
+    RETURN NULL;
+  END IF;
+
+  v_offset := p_occurrence_date - COALESCE(
+    COALESCE(v_latest.start_date, v_latest.finish_date)::DATE,
+    v_recurrence.last_occurrence_date
+  );
+
+  -- New occurrences start in the board's first backlog column
+  SELECT key INTO v_status
+  FROM board_columns
+  WHERE board_id = v_latest.board_id
+  ORDER BY (category = 'backlog') DESC, position
+  LIMIT 1;
+
+  INSERT INTO tasks (
+    title,
+    description,
+    status,
+    priority,
+    assigned_to,
+    start_date,
+    finish_date,
+    estimated_hours,
+    estimated_cost,
+    board_id,
+    client_id,
+    agency_id,
+    recurrence_id,
+    recurrence_index
+  )
+  VALUES (
+    v_latest.title,
+    v_latest.description,
+    COALESCE(v_status, 'inbox'),
+    v_latest.priority,
+    v_latest.assigned_to,
+    v_latest.start_date::DATE + v_offset,
+    v_latest.finish_date::DATE + v_offset,
+    v_latest.estimated_hours,
+    v_latest.estimated_cost,
+    v_latest.board_id,
+    v_latest.client_id,
+    v_latest.agency_id,
+    p_recurrence_id,
+    p_occurrence_index
+  )
+  ON CONFLICT (recurrence_id, recurrence_index) DO NOTHING
+  RETURNING id INTO v_task_id;
+
+  -- If the occurrence already exists only the series needs catching up
+  IF v_task_id IS NOT NULL THEN
+    -- Parents are copied before their children, so a parent's new id is known when it's needed
+    FOR v_item IN
+      WITH RECURSIVE checklist AS (
+        SELECT i.*, 0 AS depth
+        FROM task_checklist_items i
+        WHERE i.task_id = v_latest.id AND i.parent_id IS NULL
+        UNION ALL
+        SELECT i.*, c.depth + 1
+        FROM task_checklist_items i
+        JOIN checklist c ON i.parent_id = c.id
+      )
+      SELECT * FROM checklist ORDER BY depth, position
+    LOOP
+      INSERT INTO task_checklist_items (task_id, text, is_completed, position, parent_id)
+      VALUES (
+        v_task_id,
+        v_item.text,
+        FALSE,
+        v_item.position,
+        (v_item_ids->>v_item.parent_id::TEXT)::UUID
+      )
+      RETURNING id INTO v_item_id;
+
+      v_item_ids := v_item_ids || jsonb_build_object(v_item.id::TEXT, v_item_id);
+    END LOOP;
+
+    INSERT INTO task_sops (task_id, sop_id)
+    SELECT v_task_id, sop_id
+    FROM task_sops
+    WHERE task_id = v_latest.id;
+  END IF;
+
+  UPDATE task_recurrences
+  SET occurrences_created = p_occurrence_index,
+      last_occurrence_date = p_occurrence_date,
+      next_due_date = p_next_due_date,
+      is_active = p_next_due_date IS NOT NULL
+  WHERE id = p_recurrence_id;
+
+  RETURN v_task_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
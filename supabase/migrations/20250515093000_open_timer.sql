@@ -0,0 +1,109 @@
+/*
+  # Let running timers stop in locked time
+
+  1. Changes
+    - `enforce_time_lock` lets a running timer be stopped after its day was locked. Nothing else
+      about the entry may change
+    - `set_time_lock_date` only locks up to yesterday, so time still being logged today stays open
+*/
+
+-- Locked time only changes at a system admin's hand, and every such change is recorded.
+-- Changes that leave the logged time alone, such as invoicing it, pass, and so does stopping a timer
+CREATE OR REPLACE FUNCTION enforce_time_lock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old_lock DATE;
+  v_new_lock DATE;
+  v_lock_date DATE;
+  v_agency_id UUID;
+  v_action TEXT := lower(TG_OP);
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (NEW.task_id, NEW.user_id, NEW.start_time, NEW.end_time, NEW.is_billable, NEW.description, NEW.actual_cost)
+      IS NOT DISTINCT FROM
+      (OLD.task_id, OLD.user_id, OLD.start_time, OLD.end_time, OLD.is_billable, OLD.description, OLD.actual_cost)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- Stopping a timer that was started before the lock date only records when it ended
+  IF TG_OP = 'UPDATE'
+    AND OLD.end_time IS NULL
+    AND NEW.end_time IS NOT NULL
+    AND (NEW.task_id, NEW.user_id, NEW.start_time, NEW.is_billable, NEW.description)
+      IS NOT DISTINCT FROM
+      (OLD.task_id, OLD.user_id, OLD.start_time, OLD.is_billable, OLD.description)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    v_old_lock := get_time_lock_date(OLD.task_id);
+    IF v_old_lock IS NOT NULL AND (OLD.start_time AT TIME ZONE 'UTC')::DATE <= v_old_lock THEN
+      v_lock_date := v_old_lock;
+      v_agency_id := (SELECT c.agency_id FROM tasks t JOIN clients c ON c.id = t.client_id WHERE t.id = OLD.task_id);
+    END IF;
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND v_lock_date IS NULL THEN
+    v_new_lock := get_time_lock_date(NEW.task_id);
+    IF v_new_lock IS NOT NULL AND (NEW.start_time AT TIME ZONE 'UTC')::DATE <= v_new_lock THEN
+      v_lock_date := v_new_lock;
+      v_agency_id := (SELECT c.agency_id FROM tasks t JOIN clients c ON c.id = t.client_id WHERE t.id = NEW.task_id);
+    END IF;
+  END IF;
+
+  IF v_lock_date IS NOT NULL THEN
+    IF NOT is_system_admin_of_agency(auth.uid(), v_agency_id) THEN
+      RAISE EXCEPTION 'Time on or before % is locked and can''t be changed', to_char(v_lock_date, 'Mon FMDD, YYYY');
+    END IF;
+
+    INSERT INTO time_lock_overrides (agency_id, time_entry_id, user_id, action, lock_date, old_entry, new_entry)
+    VALUES (
+      v_agency_id,
+      CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END,
+      auth.uid(),
+      v_action,
+      v_lock_date,
+      CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+      CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+    );
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Move an agency's lock date. NULL unlocks all of its time
+CREATE OR REPLACE FUNCTION set_time_lock_date(p_agency_id UUID, p_lock_date DATE)
+RETURNS VOID AS $$
+DECLARE
+  v_current DATE;
+BEGIN
+  IF NOT can_manage_agency_billing(auth.uid(), p_agency_id) THEN
+    RAISE EXCEPTION 'You do not have permission to lock time for this agency';
+  END IF;
+
+  IF p_lock_date >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Time can only be locked up to yesterday';
+  END IF;
+
+  SELECT time_lock_date INTO v_current FROM agencies WHERE id = p_agency_id;
+
+  IF v_current IS NOT NULL
+    AND (p_lock_date IS NULL OR p_lock_date < v_current)
+    AND NOT is_system_admin_of_agency(auth.uid(), p_agency_id)
+  THEN
+    RAISE EXCEPTION 'Only system admins can unlock time that is already locked';
+  END IF;
+
+  UPDATE agencies
+  SET time_lock_date = p_lock_date,
+      time_lock_set_by = auth.uid(),
+      time_lock_set_at = now()
+  WHERE id = p_agency_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,41 @@
+/*
+  # Close off rate lookups and give new agencies a default rate
+
+  1. Changes
+    - `resolve_hourly_rate` can no longer be called directly; it looks up any user's rate on any
+      task. Pricing time entries and `get_my_hourly_rate`, which checks access first, still use it
+    - Agencies get the $50/hour default when they're created, like existing agencies did when rates
+      were added. Agencies created since then without any rate get it now
+*/
+
+REVOKE EXECUTE ON FUNCTION resolve_hourly_rate(UUID, UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Start every new agency on the default rate until it sets its own
+CREATE OR REPLACE FUNCTION add_default_billing_rate()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO billing_rates (agency_id, hourly_rate, effective_from)
+  VALUES (NEW.id, 50, DATE '2000-01-01');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'add_default_billing_rate_trigger'
+  ) THEN
+    CREATE TRIGGER add_default_billing_rate_trigger
+    AFTER INSERT
+    ON agencies
+    FOR EACH ROW
+    EXECUTE FUNCTION add_default_billing_rate();
+  END IF;
+END $$;
+
+INSERT INTO billing_rates (agency_id, hourly_rate, effective_from)
+SELECT a.id, 50, DATE '2000-01-01'
+FROM agencies a
+WHERE NOT EXISTS (SELECT 1 FROM billing_rates br WHERE br.agency_id = a.id);
@@ -0,0 +1,30 @@
+/*
+  # Recategorise columns without moving their tasks
+
+  1. Changes
+    - Changing a column's category only changes its tasks' `status_category`. Their status stays
+      put, so making a column completed no longer trips the blocked task check on every task in it
+    - Renaming a column's key still moves its tasks to the new key, after their category is updated
+*/
+
+-- Keep tasks in sync when a column is recategorised or renamed
+CREATE OR REPLACE FUNCTION sync_task_status_category()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    UPDATE tasks
+    SET status_category = NEW.category
+    WHERE board_id = NEW.board_id
+      AND status = OLD.key;
+  END IF;
+
+  IF NEW.key IS DISTINCT FROM OLD.key THEN
+    UPDATE tasks
+    SET status = NEW.key
+    WHERE board_id = NEW.board_id
+      AND status = OLD.key;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
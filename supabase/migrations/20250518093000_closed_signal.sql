@@ -0,0 +1,18 @@
+/*
+  # Only run automations from their triggers
+
+  1. Changes
+    - `run_automation_rules`, `apply_automation_action` and `run_due_date_automations` can no longer
+      be called directly. They act on any task without checking who asks, so only the task,
+      checklist and time entry triggers and the scheduled due date job run them
+    - The automation trigger functions run as their owner, so they can still call
+      `run_automation_rules` whoever's change fires them
+*/
+
+ALTER FUNCTION run_task_automations() SECURITY DEFINER;
+ALTER FUNCTION run_checklist_automations() SECURITY DEFINER;
+ALTER FUNCTION run_time_entry_automations() SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION run_automation_rules(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_automation_action(automation_rules, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION run_due_date_automations() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,74 @@
+/*
+  # Row level security for task dependencies
+
+  1. Security
+    - Enable RLS on `task_dependencies`
+    - Users see the links of tasks they can access, and can only link two tasks when they can
+      access both of them
+    - The cycle and blocker checks run as their owner, so they still see every link, including
+      ones the current user can't
+*/
+
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_dependencies' AND policyname = 'Users can view dependencies of their tasks'
+  ) THEN
+    CREATE POLICY "Users can view dependencies of their tasks"
+    ON task_dependencies
+    FOR SELECT
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_dependencies.task_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_dependencies' AND policyname = 'Users can link tasks they can access'
+  ) THEN
+    CREATE POLICY "Users can link tasks they can access"
+    ON task_dependencies
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_dependencies.task_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+      AND EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_dependencies.depends_on_task_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_dependencies' AND policyname = 'Users can unlink tasks they can access'
+  ) THEN
+    CREATE POLICY "Users can unlink tasks they can access"
+    ON task_dependencies
+    FOR DELETE
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_dependencies.task_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+    );
+  END IF;
+END $$;
+
+ALTER FUNCTION check_task_dependency_cycle() SECURITY DEFINER;
+ALTER FUNCTION check_task_blockers_before_done() SECURITY DEFINER;
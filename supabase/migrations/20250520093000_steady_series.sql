@@ -0,0 +1,331 @@
+/*
+  # Generate due recurring tasks on a schedule
+
+  1. New Functions
+    - `get_next_occurrence_date` works out when a series repeats next, the same way the app does
+    - `create_next_occurrence` creates the next task of a series and moves the series on. It is
+      only run by `generate_next_recurrence` and `generate_due_recurrences`
+    - `generate_due_recurrences` creates the occurrences whose date has arrived on every board,
+      whether or not anyone opens it. It is scheduled every hour when pg_cron is available
+
+  2. Changes
+    - `generate_next_recurrence` works out the dates itself and only takes the occurrence the caller
+      expects to create
+    - Trashed occurrences are no longer copied; the next task copies the latest one still on the board
+
+  3. Security
+    - Enable RLS on `task_recurrences`. Users see and change the series of clients they can access
+*/
+
+-- Mirrors getNextOccurrenceDate in src/lib/recurrence.ts. Returns NULL once the end date has passed
+CREATE OR REPLACE FUNCTION get_next_occurrence_date(p_recurrence task_recurrences, p_after DATE)
+RETURNS DATE AS $$
+DECLARE
+  v_interval INTEGER := GREATEST(1, COALESCE(p_recurrence."interval", 1));
+  v_weekdays INTEGER[];
+  v_month DATE;
+  v_next DATE;
+BEGIN
+  CASE p_recurrence.frequency
+    WHEN 'daily' THEN
+      v_next := p_after + v_interval;
+
+    WHEN 'weekly' THEN
+      v_weekdays := ARRAY(SELECT d FROM unnest(p_recurrence.weekdays) AS d WHERE d BETWEEN 0 AND 6);
+      IF cardinality(v_weekdays) = 0 THEN
+        v_weekdays := ARRAY[EXTRACT(DOW FROM p_after)::INTEGER];
+      END IF;
+
+      -- Step day by day; a day matches when it's a selected weekday in an "on" week (weeks start on Sunday)
+      v_next := p_after + 1;
+      WHILE NOT EXTRACT(DOW FROM v_next)::INTEGER = ANY(v_weekdays)
+        OR ((v_next - EXTRACT(DOW FROM v_next)::INTEGER) - (p_after - EXTRACT(DOW FROM p_after)::INTEGER)) / 7 % v_interval <> 0
+      LOOP
+        v_next := v_next + 1;
+      END LOOP;
+
+    WHEN 'monthly' THEN
+      v_month := (p_after + make_interval(months => v_interval))::DATE;
+
+      IF p_recurrence.month_week = -1 AND p_recurrence.month_weekday IS NOT NULL THEN
+        v_next := (date_trunc('month', v_month) + INTERVAL '1 month - 1 day')::DATE;
+        v_next := v_next - (EXTRACT(DOW FROM v_next)::INTEGER - p_recurrence.month_weekday + 7) % 7;
+      ELSIF p_recurrence.month_week IS NOT NULL AND p_recurrence.month_weekday IS NOT NULL THEN
+        v_next := date_trunc('month', v_month)::DATE;
+        v_next := v_next
+          + (p_recurrence.month_weekday - EXTRACT(DOW FROM v_next)::INTEGER + 7) % 7
+          + (p_recurrence.month_week - 1) * 7;
+      ELSE
+        v_next := v_month;
+      END IF;
+
+    WHEN 'custom' THEN
+      v_next := CASE p_recurrence.interval_unit
+        WHEN 'week' THEN p_after + v_interval * 7
+        WHEN 'month' THEN (p_after + make_interval(months => v_interval))::DATE
+        ELSE p_after + v_interval
+      END;
+
+    ELSE
+      RETURN NULL;
+  END CASE;
+
+  IF p_recurrence.end_date IS NOT NULL AND v_next > p_recurrence.end_date THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_next;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Create occurrence p_occurrence_index of a series, copying the latest occurrence with shifted dates,
+-- its checklist and its linked SOPs. The series row is locked first, so a caller that read the
+-- series before someone else moved it on does nothing. Returns NULL when nothing was created.
+CREATE OR REPLACE FUNCTION create_next_occurrence(p_recurrence_id UUID, p_occurrence_index INTEGER)
+RETURNS UUID AS $$
+DECLARE
+  v_recurrence task_recurrences%ROWTYPE;
+  v_latest tasks%ROWTYPE;
+  v_occurrence_date DATE;
+  v_next_due_date DATE;
+  v_offset INTEGER;
+  v_status TEXT;
+  v_task_id UUID;
+  v_item RECORD;
+  v_item_id UUID;
+  v_item_ids JSONB := '{}'::JSONB;
+BEGIN
+  SELECT * INTO v_recurrence
+  FROM task_recurrences
+  WHERE id = p_recurrence_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_recurrence.is_active OR v_recurrence.occurrences_created <> p_occurrence_index - 1 THEN
+    RETURN NULL;
+  END IF;
+
+  v_occurrence_date := get_next_occurrence_date(v_recurrence, v_recurrence.last_occurrence_date);
+
+  -- The most recent occurrence on the board carries any "all future occurrences" edits
+  SELECT * INTO v_latest
+  FROM tasks
+  WHERE recurrence_id = p_recurrence_id
+    AND deleted_at IS NULL
+  ORDER BY recurrence_index DESC NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND
+    OR v_occurrence_date IS NULL
+    OR (v_recurrence.max_occurrences IS NOT NULL AND v_recurrence.occurrences_created >= v_recurrence.max_occurrences)
+  THEN
+    UPDATE task_recurrences
+    SET is_active = FALSE,
+        next_due_date = NULL
+    WHERE id = p_recurrence_id;
+
+    RETURN NULL;
+  END IF;
+
+  v_offset := v_occurrence_date - COALESCE(
+    COALESCE(v_latest.start_date, v_latest.finish_date)::DATE,
+    v_recurrence.last_occurrence_date
+  );
+
+  -- New occurrences start in the board's first backlog column
+  SELECT key INTO v_status
+  FROM board_columns
+  WHERE board_id = v_latest.board_id
+  ORDER BY (category = 'backlog') DESC, position
+  LIMIT 1;
+
+  INSERT INTO tasks (
+    title,
+    description,
+    status,
+    priority,
+    assigned_to,
+    start_date,
+    finish_date,
+    estimated_hours,
+    estimated_cost,
+    board_id,
+    client_id,
+    agency_id,
+    recurrence_id,
+    recurrence_index
+  )
+  VALUES (
+    v_latest.title,
+    v_latest.description,
+    COALESCE(v_status, 'inbox'),
+    v_latest.priority,
+    v_latest.assigned_to,
+    v_latest.start_date::DATE + v_offset,
+    v_latest.finish_date::DATE + v_offset,
+    v_latest.estimated_hours,
+    v_latest.estimated_cost,
+    v_latest.board_id,
+    v_latest.client_id,
+    v_latest.agency_id,
+    p_recurrence_id,
+    p_occurrence_index
+  )
+  ON CONFLICT (recurrence_id, recurrence_index) DO NOTHING
+  RETURNING id INTO v_task_id;
+
+  -- If the occurrence already exists only the series needs catching up
+  IF v_task_id IS NOT NULL THEN
+    -- Parents are copied before their children, so a parent's new id is known when it's needed
+    FOR v_item IN
+      WITH RECURSIVE checklist AS (
+        SELECT i.*, 0 AS depth
+        FROM task_checklist_items i
+        WHERE i.task_id = v_latest.id AND i.parent_id IS NULL
+        UNION ALL
+        SELECT i.*, c.depth + 1
+        FROM task_checklist_items i
+        JOIN checklist c ON i.parent_id = c.id
+      )
+      SELECT * FROM checklist ORDER BY depth, position
+    LOOP
+      INSERT INTO task_checklist_items (task_id, text, is_completed, position, parent_id)
+      VALUES (
+        v_task_id,
+        v_item.text,
+        FALSE,
+        v_item.position,
+        (v_item_ids->>v_item.parent_id::TEXT)::UUID
+      )
+      RETURNING id INTO v_item_id;
+
+      v_item_ids := v_item_ids || jsonb_build_object(v_item.id::TEXT, v_item_id);
+    END LOOP;
+
+    INSERT INTO task_sops (task_id, sop_id)
+    SELECT v_task_id, sop_id
+    FROM task_sops
+    WHERE task_id = v_latest.id;
+  END IF;
+
+  IF v_recurrence.max_occurrences IS NULL OR p_occurrence_index < v_recurrence.max_occurrences THEN
+    v_next_due_date := get_next_occurrence_date(v_recurrence, v_occurrence_date);
+  END IF;
+
+  UPDATE task_recurrences
+  SET occurrences_created = p_occurrence_index,
+      last_occurrence_date = v_occurrence_date,
+      next_due_date = v_next_due_date,
+      is_active = v_next_due_date IS NOT NULL
+  WHERE id = p_recurrence_id;
+
+  RETURN v_task_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_next_occurrence(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS generate_next_recurrence(UUID, INTEGER, DATE, DATE);
+
+-- Create the next occurrence of a series for the current user, e.g. when the latest one is completed
+CREATE OR REPLACE FUNCTION generate_next_recurrence(p_recurrence_id UUID, p_occurrence_index INTEGER)
+RETURNS UUID AS $$
+DECLARE
+  v_client_id UUID;
+BEGIN
+  SELECT client_id INTO v_client_id FROM task_recurrences WHERE id = p_recurrence_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring task not found';
+  END IF;
+
+  IF NOT can_access_client(auth.uid(), v_client_id) THEN
+    RAISE EXCEPTION 'You do not have permission to view this client';
+  END IF;
+
+  RETURN create_next_occurrence(p_recurrence_id, p_occurrence_index);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create every occurrence whose date has arrived. A series catches up at most 10 occurrences per run,
+-- so a long-overdue daily schedule can't flood a board in one go
+CREATE OR REPLACE FUNCTION generate_due_recurrences()
+RETURNS INTEGER AS $$
+DECLARE
+  v_recurrence task_recurrences%ROWTYPE;
+  v_index INTEGER;
+  v_next_due_date DATE;
+  v_generated INTEGER;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_recurrence IN
+    SELECT * FROM task_recurrences
+    WHERE is_active
+      AND next_due_date <= CURRENT_DATE
+  LOOP
+    v_index := v_recurrence.occurrences_created;
+    v_generated := 0;
+
+    WHILE v_generated < 10 LOOP
+      EXIT WHEN create_next_occurrence(v_recurrence.id, v_index + 1) IS NULL;
+
+      v_index := v_index + 1;
+      v_generated := v_generated + 1;
+
+      SELECT next_due_date INTO v_next_due_date FROM task_recurrences WHERE id = v_recurrence.id;
+      EXIT WHEN v_next_due_date IS NULL OR v_next_due_date > CURRENT_DATE;
+    END LOOP;
+
+    v_count := v_count + v_generated;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION generate_due_recurrences() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('generate-due-recurrences', '0 * * * *', 'SELECT generate_due_recurrences()');
+  END IF;
+END $$;
+
+ALTER TABLE task_recurrences ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_recurrences' AND policyname = 'Users can view recurring tasks of their clients'
+  ) THEN
+    CREATE POLICY "Users can view recurring tasks of their clients"
+    ON task_recurrences
+    FOR SELECT
+    TO authenticated
+    USING (can_access_client(auth.uid(), client_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_recurrences' AND policyname = 'Users can make tasks of their clients repeat'
+  ) THEN
+    CREATE POLICY "Users can make tasks of their clients repeat"
+    ON task_recurrences
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (can_access_client(auth.uid(), client_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_recurrences' AND policyname = 'Users can change recurring tasks of their clients'
+  ) THEN
+    CREATE POLICY "Users can change recurring tasks of their clients"
+    ON task_recurrences
+    FOR UPDATE
+    TO authenticated
+    USING (can_access_client(auth.uid(), client_id))
+    WITH CHECK (can_access_client(auth.uid(), client_id));
+  END IF;
+END $$;
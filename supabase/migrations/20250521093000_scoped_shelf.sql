@@ -0,0 +1,179 @@
+/*
+  # Row level security for board templates
+
+  1. New Functions
+    - `can_view_board_template_scope` and `can_edit_board_template_scope` check a user's roles
+      against a template's scope. System templates are changed by system admins, agency templates
+      by their agency's admins and client templates by those who manage the client's tasks
+    - `can_view_board_template` now uses `can_view_board_template_scope`
+
+  2. Security
+    - Enable RLS on `board_templates` and `board_template_tasks`
+    - Users see the templates whose scope they belong to, and add, change and delete the ones
+      whose scope they can edit. Template tasks follow their template
+*/
+
+-- Whether a user can see templates of a scope: their system, their agency or their clients
+CREATE OR REPLACE FUNCTION can_view_board_template_scope(
+  p_user_id UUID,
+  p_access_level TEXT,
+  p_system_id UUID,
+  p_agency_id UUID,
+  p_client_id UUID
+)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles ur
+    LEFT JOIN clients uc ON uc.id = ur.client_id
+    LEFT JOIN agencies ua ON ua.id = COALESCE(ur.agency_id, uc.agency_id)
+    LEFT JOIN agencies ta ON ta.id = p_agency_id
+    WHERE ur.user_id = p_user_id
+      AND CASE p_access_level
+        WHEN 'system' THEN
+          (ur.role = 'system_admin' AND (ur.system_id IS NULL OR ur.system_id = p_system_id))
+          OR ua.system_id = p_system_id
+        WHEN 'agency' THEN
+          (ur.role = 'system_admin' AND (ur.system_id IS NULL OR ur.system_id = ta.system_id))
+          OR ua.id = p_agency_id
+        ELSE
+          can_access_client(p_user_id, p_client_id)
+      END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether a user can add and change templates of a scope: the level that owns it or anyone above it
+CREATE OR REPLACE FUNCTION can_edit_board_template_scope(
+  p_user_id UUID,
+  p_access_level TEXT,
+  p_system_id UUID,
+  p_agency_id UUID,
+  p_client_id UUID
+)
+RETURNS BOOLEAN AS $$
+  SELECT CASE p_access_level
+    WHEN 'system' THEN EXISTS (
+      SELECT 1 FROM user_roles ur
+      WHERE ur.user_id = p_user_id
+        AND ur.role = 'system_admin'
+        AND (ur.system_id IS NULL OR ur.system_id = p_system_id)
+    )
+    WHEN 'agency' THEN EXISTS (
+      SELECT 1
+      FROM user_roles ur
+      LEFT JOIN agencies a ON a.id = p_agency_id
+      WHERE ur.user_id = p_user_id
+        AND (
+          (ur.role = 'system_admin' AND (ur.system_id IS NULL OR ur.system_id = a.system_id))
+          OR (ur.role = 'agency_admin' AND ur.agency_id = p_agency_id)
+        )
+    )
+    ELSE can_manage_client_tasks(p_user_id, p_client_id)
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether a user can see a board template, based on its scope and the user's roles
+CREATE OR REPLACE FUNCTION can_view_board_template(p_user_id UUID, p_template_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM board_templates bt
+    WHERE bt.id = p_template_id
+      AND can_view_board_template_scope(p_user_id, bt.access_level, bt.system_id, bt.agency_id, bt.client_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+ALTER TABLE board_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE board_template_tasks ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'board_templates' AND policyname = 'Users can view templates of their scope'
+  ) THEN
+    CREATE POLICY "Users can view templates of their scope"
+    ON board_templates
+    FOR SELECT
+    TO authenticated
+    USING (can_view_board_template_scope(auth.uid(), access_level, system_id, agency_id, client_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'board_templates' AND policyname = 'Users can add templates to scopes they edit'
+  ) THEN
+    CREATE POLICY "Users can add templates to scopes they edit"
+    ON board_templates
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (can_edit_board_template_scope(auth.uid(), access_level, system_id, agency_id, client_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'board_templates' AND policyname = 'Users can change templates of scopes they edit'
+  ) THEN
+    CREATE POLICY "Users can change templates of scopes they edit"
+    ON board_templates
+    FOR UPDATE
+    TO authenticated
+    USING (can_edit_board_template_scope(auth.uid(), access_level, system_id, agency_id, client_id))
+    WITH CHECK (can_edit_board_template_scope(auth.uid(), access_level, system_id, agency_id, client_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'board_templates' AND policyname = 'Users can delete templates of scopes they edit'
+  ) THEN
+    CREATE POLICY "Users can delete templates of scopes they edit"
+    ON board_templates
+    FOR DELETE
+    TO authenticated
+    USING (can_edit_board_template_scope(auth.uid(), access_level, system_id, agency_id, client_id));
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'board_template_tasks' AND policyname = 'Users can view tasks of templates they see'
+  ) THEN
+    CREATE POLICY "Users can view tasks of templates they see"
+    ON board_template_tasks
+    FOR SELECT
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM board_templates bt
+        WHERE bt.id = board_template_tasks.template_id
+          AND can_view_board_template_scope(auth.uid(), bt.access_level, bt.system_id, bt.agency_id, bt.client_id)
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'board_template_tasks' AND policyname = 'Users can change tasks of templates they edit'
+  ) THEN
+    CREATE POLICY "Users can change tasks of templates they edit"
+    ON board_template_tasks
+    FOR ALL
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM board_templates bt
+        WHERE bt.id = board_template_tasks.template_id
+          AND can_edit_board_template_scope(auth.uid(), bt.access_level, bt.system_id, bt.agency_id, bt.client_id)
+      )
+    )
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM board_templates bt
+        WHERE bt.id = board_template_tasks.template_id
+          AND can_edit_board_template_scope(auth.uid(), bt.access_level, bt.system_id, bt.agency_id, bt.client_id)
+      )
+    );
+  END IF;
+END $$;
@@ -0,0 +1,104 @@
+/*
+  # Row level security for custom fields
+
+  1. Security
+    - Enable RLS on `custom_fields` and `task_custom_field_values`
+    - Users see the fields of boards of clients they can access; those who manage the client's tasks
+      add and change them
+    - Users see and fill in the values of tasks they can access, only with fields of the task's client
+*/
+
+ALTER TABLE custom_fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_custom_field_values ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'custom_fields' AND policyname = 'Users can view fields of their boards'
+  ) THEN
+    CREATE POLICY "Users can view fields of their boards"
+    ON custom_fields
+    FOR SELECT
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM boards b
+        WHERE b.id = custom_fields.board_id
+          AND can_access_client(auth.uid(), b.client_id)
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'custom_fields' AND policyname = 'Task managers can change fields of their boards'
+  ) THEN
+    CREATE POLICY "Task managers can change fields of their boards"
+    ON custom_fields
+    FOR ALL
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM boards b
+        WHERE b.id = custom_fields.board_id
+          AND can_manage_client_tasks(auth.uid(), b.client_id)
+      )
+    )
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM boards b
+        WHERE b.id = custom_fields.board_id
+          AND can_manage_client_tasks(auth.uid(), b.client_id)
+      )
+    );
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_custom_field_values' AND policyname = 'Users can view field values of their tasks'
+  ) THEN
+    CREATE POLICY "Users can view field values of their tasks"
+    ON task_custom_field_values
+    FOR SELECT
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_custom_field_values.task_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_custom_field_values' AND policyname = 'Users can fill in fields of their tasks'
+  ) THEN
+    CREATE POLICY "Users can fill in fields of their tasks"
+    ON task_custom_field_values
+    FOR ALL
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_custom_field_values.task_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+    )
+    WITH CHECK (
+      EXISTS (
+        SELECT 1
+        FROM tasks t
+        JOIN custom_fields cf ON cf.id = task_custom_field_values.field_id
+        JOIN boards b ON b.id = cf.board_id
+        WHERE t.id = task_custom_field_values.task_id
+          AND b.client_id = t.client_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+    );
+  END IF;
+END $$;
@@ -0,0 +1,83 @@
+/*
+  # Row level security for saved views
+
+  1. Security
+    - Enable RLS on `saved_views`
+    - Users see their own views and the shared views of boards of clients they can access
+    - Only the user who created a view can change or delete it, and views can only be saved on
+      boards of clients the user can access
+*/
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'saved_views' AND policyname = 'Users can view their own and shared views'
+  ) THEN
+    CREATE POLICY "Users can view their own and shared views"
+    ON saved_views
+    FOR SELECT
+    TO authenticated
+    USING (
+      created_by = auth.uid()
+      OR (
+        is_shared
+        AND EXISTS (
+          SELECT 1 FROM boards b
+          WHERE b.id = saved_views.board_id
+            AND can_access_client(auth.uid(), b.client_id)
+        )
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'saved_views' AND policyname = 'Users can save views of their boards'
+  ) THEN
+    CREATE POLICY "Users can save views of their boards"
+    ON saved_views
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+      created_by = auth.uid()
+      AND EXISTS (
+        SELECT 1 FROM boards b
+        WHERE b.id = saved_views.board_id
+          AND can_access_client(auth.uid(), b.client_id)
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'saved_views' AND policyname = 'Users can change their own views'
+  ) THEN
+    CREATE POLICY "Users can change their own views"
+    ON saved_views
+    FOR UPDATE
+    TO authenticated
+    USING (created_by = auth.uid())
+    WITH CHECK (
+      created_by = auth.uid()
+      AND EXISTS (
+        SELECT 1 FROM boards b
+        WHERE b.id = saved_views.board_id
+          AND can_access_client(auth.uid(), b.client_id)
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'saved_views' AND policyname = 'Users can delete their own views'
+  ) THEN
+    CREATE POLICY "Users can delete their own views"
+    ON saved_views
+    FOR DELETE
+    TO authenticated
+    USING (created_by = auth.uid());
+  END IF;
+END $$;
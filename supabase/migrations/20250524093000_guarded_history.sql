@@ -0,0 +1,84 @@
+/*
+  # Row level security for task activity and tags
+
+  1. Security
+    - Enable RLS on `task_activities`, `task_tags` and `task_tag_assignments`
+    - Users see the activity and tags of clients they can access
+    - Users can add activity in their own name to tasks they can access. Activity is never changed
+      or deleted directly, so the history and the undo of bulk changes can be relied on
+    - Tags are only changed by the functions that edit, move and copy tasks
+*/
+
+ALTER TABLE task_activities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_tag_assignments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_activities' AND policyname = 'Users can view activity of their tasks'
+  ) THEN
+    CREATE POLICY "Users can view activity of their tasks"
+    ON task_activities
+    FOR SELECT
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_activities.task_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_activities' AND policyname = 'Users can record their own activity on their tasks'
+  ) THEN
+    CREATE POLICY "Users can record their own activity on their tasks"
+    ON task_activities
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+      user_id = auth.uid()
+      AND batch_id IS NULL
+      AND EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_activities.task_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+    );
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_tags' AND policyname = 'Users can view tags of their clients'
+  ) THEN
+    CREATE POLICY "Users can view tags of their clients"
+    ON task_tags
+    FOR SELECT
+    TO authenticated
+    USING (can_access_client(auth.uid(), client_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_tag_assignments' AND policyname = 'Users can view tags of their tasks'
+  ) THEN
+    CREATE POLICY "Users can view tags of their tasks"
+    ON task_tag_assignments
+    FOR SELECT
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_tag_assignments.task_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+    );
+  END IF;
+END $$;
@@ -0,0 +1,219 @@
+/*
+  # Keep automation rules within their client
+
+  1. New Functions
+    - `can_client_use_sop` checks that a SOP is one of a client's: its own, its agency's or its system's
+
+  2. Changes
+    - `created_by` of a rule is always the user who last saved it, so rules post comments as a real
+      person with access to the client
+    - `apply_automation_action` won't assign, notify or post comments as users who can't access the
+      rule's client, nor link SOPs that aren't available to it
+
+  3. Security
+    - Enable RLS on `automation_rules` and `automation_rule_runs`. Only users who manage a client's
+      tasks see and change its rules and their log; the log is only written by the rules themselves
+*/
+
+-- Whether a SOP is available to a client: its own SOPs, its agency's and its system's
+CREATE OR REPLACE FUNCTION can_client_use_sop(p_client_id UUID, p_sop_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM sops s
+    JOIN clients c ON c.id = p_client_id
+    LEFT JOIN agencies a ON a.id = c.agency_id
+    WHERE s.id = p_sop_id
+      AND CASE s.access_level
+        WHEN 'system' THEN s.system_id IS NULL OR s.system_id = a.system_id
+        WHEN 'agency' THEN s.agency_id = c.agency_id
+        ELSE s.client_id = c.id
+      END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Rules act in the name of the user who saved them last
+CREATE OR REPLACE FUNCTION set_automation_rule_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.created_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'set_automation_rule_author_trigger'
+  ) THEN
+    CREATE TRIGGER set_automation_rule_author_trigger
+    BEFORE INSERT OR UPDATE
+    ON automation_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION set_automation_rule_author();
+  END IF;
+END $$;
+
+-- Carry out one step of a rule on a task
+CREATE OR REPLACE FUNCTION apply_automation_action(p_rule automation_rules, p_task_id UUID, p_action JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_position INTEGER;
+  v_recipient UUID;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id;
+
+  CASE p_action->>'type'
+    WHEN 'assign_user' THEN
+      IF p_action->>'user_id' IS NOT NULL AND NOT can_access_client((p_action->>'user_id')::UUID, p_rule.client_id) THEN
+        RAISE EXCEPTION 'The user to assign can''t access this client';
+      END IF;
+
+      UPDATE tasks
+      SET assigned_to = (p_action->>'user_id')::UUID,
+          updated_at = NOW()
+      WHERE id = p_task_id;
+
+    WHEN 'set_priority' THEN
+      UPDATE tasks
+      SET priority = p_action->>'priority',
+          updated_at = NOW()
+      WHERE id = p_task_id;
+
+    WHEN 'move_to_column' THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM board_columns
+        WHERE board_id = v_task.board_id AND key = p_action->>'status'
+      ) THEN
+        RAISE EXCEPTION 'Column % is not on the task''s board', p_action->>'status';
+      END IF;
+
+      IF v_task.status IS DISTINCT FROM p_action->>'status' THEN
+        UPDATE tasks
+        SET status = p_action->>'status',
+            position = (
+              SELECT COALESCE(MAX(position) + 1, 0) FROM tasks
+              WHERE board_id = v_task.board_id AND status = p_action->>'status'
+            ),
+            updated_at = NOW()
+        WHERE id = p_task_id;
+      END IF;
+
+    WHEN 'add_checklist' THEN
+      SELECT COALESCE(MAX(position) + 1, 0) INTO v_position
+      FROM task_checklist_items
+      WHERE task_id = p_task_id AND parent_id IS NULL;
+
+      INSERT INTO task_checklist_items (task_id, text, is_completed, position)
+      SELECT p_task_id, item.text, FALSE, v_position + item.index - 1
+      FROM jsonb_array_elements_text(p_action->'items') WITH ORDINALITY AS item(text, index);
+
+    WHEN 'link_sop' THEN
+      IF NOT can_client_use_sop(p_rule.client_id, (p_action->>'sop_id')::UUID) THEN
+        RAISE EXCEPTION 'The SOP to link isn''t available to this client';
+      END IF;
+
+      INSERT INTO task_sops (task_id, sop_id)
+      SELECT p_task_id, (p_action->>'sop_id')::UUID
+      WHERE NOT EXISTS (
+        SELECT 1 FROM task_sops
+        WHERE task_id = p_task_id AND sop_id = (p_action->>'sop_id')::UUID
+      );
+
+    WHEN 'post_comment' THEN
+      -- Comments need an author, so rules post as the person who last saved them
+      IF p_rule.created_by IS NULL THEN
+        RAISE EXCEPTION 'The rule''s author no longer exists, so it can''t post comments';
+      END IF;
+
+      IF NOT can_access_client(p_rule.created_by, p_rule.client_id) THEN
+        RAISE EXCEPTION 'The rule''s author can no longer access this client, so it can''t post comments';
+      END IF;
+
+      INSERT INTO task_comments (task_id, user_id, content)
+      VALUES (p_task_id, p_rule.created_by, p_action->>'content');
+
+    WHEN 'notify' THEN
+      -- Without a user the notification goes to whoever the task is assigned to
+      v_recipient := COALESCE((p_action->>'user_id')::UUID, v_task.assigned_to);
+
+      IF v_recipient IS NOT NULL AND NOT can_access_client(v_recipient, p_rule.client_id) THEN
+        RAISE EXCEPTION 'The user to notify can''t access this client';
+      END IF;
+
+      IF v_recipient IS NOT NULL THEN
+        INSERT INTO notifications (user_id, type, content, data)
+        VALUES (
+          v_recipient,
+          'automation',
+          p_action->>'message',
+          jsonb_build_object('task_id', p_task_id, 'task_title', v_task.title, 'rule_id', p_rule.id)
+        );
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown automation action %', p_action->>'type';
+  END CASE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE automation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE automation_rule_runs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'automation_rules' AND policyname = 'Task managers can view rules of their clients'
+  ) THEN
+    CREATE POLICY "Task managers can view rules of their clients"
+    ON automation_rules
+    FOR SELECT
+    TO authenticated
+    USING (can_manage_client_tasks(auth.uid(), client_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'automation_rules' AND policyname = 'Task managers can change rules of their clients'
+  ) THEN
+    CREATE POLICY "Task managers can change rules of their clients"
+    ON automation_rules
+    FOR ALL
+    TO authenticated
+    USING (can_manage_client_tasks(auth.uid(), client_id))
+    WITH CHECK (
+      can_manage_client_tasks(auth.uid(), client_id)
+      AND (
+        board_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM boards b
+          WHERE b.id = automation_rules.board_id
+            AND b.client_id = automation_rules.client_id
+        )
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'automation_rule_runs' AND policyname = 'Task managers can view runs of their rules'
+  ) THEN
+    CREATE POLICY "Task managers can view runs of their rules"
+    ON automation_rule_runs
+    FOR SELECT
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM automation_rules r
+        WHERE r.id = automation_rule_runs.rule_id
+          AND can_manage_client_tasks(auth.uid(), r.client_id)
+      )
+    );
+  END IF;
+END $$;
@@ -0,0 +1,9 @@
+/*
+  # Hand out task keys whoever creates the task
+
+  1. Changes
+    - `assign_task_key` runs as its owner. It bumps the client's task counter, which users who
+      can't update clients, such as client users, couldn't do, leaving their tasks without a key
+*/
+
+ALTER FUNCTION assign_task_key() SECURITY DEFINER;
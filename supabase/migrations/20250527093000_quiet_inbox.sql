@@ -0,0 +1,31 @@
+/*
+  # Row level security for task snoozes
+
+  1. Security
+    - Enable RLS on `task_snoozes`
+    - Users only see their own snoozes, of tasks they can still access. Snoozes are only changed
+      through `snooze_task`
+*/
+
+ALTER TABLE task_snoozes ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'task_snoozes' AND policyname = 'Users can view their own snoozes'
+  ) THEN
+    CREATE POLICY "Users can view their own snoozes"
+    ON task_snoozes
+    FOR SELECT
+    TO authenticated
+    USING (
+      user_id = auth.uid()
+      AND EXISTS (
+        SELECT 1 FROM tasks t
+        WHERE t.id = task_snoozes.task_id
+          AND can_access_client(auth.uid(), t.client_id)
+      )
+    );
+  END IF;
+END $$;
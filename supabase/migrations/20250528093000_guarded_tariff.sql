@@ -0,0 +1,24 @@
+/*
+  # Row level security for billing rates
+
+  1. Security
+    - Enable RLS on `billing_rates`
+    - Only users who manage an agency's billing see its rates. Rates are only changed through
+      `set_billing_rate` and `end_billing_rate`, so nobody can add a rate that prices their own work
+*/
+
+ALTER TABLE billing_rates ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'billing_rates' AND policyname = 'Billing managers can view their agency''s rates'
+  ) THEN
+    CREATE POLICY "Billing managers can view their agency's rates"
+    ON billing_rates
+    FOR SELECT
+    TO authenticated
+    USING (can_manage_agency_billing(auth.uid(), agency_id));
+  END IF;
+END $$;
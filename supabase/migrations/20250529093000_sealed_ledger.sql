@@ -0,0 +1,43 @@
+/*
+  # Row level security for invoices
+
+  1. Security
+    - Enable RLS on `invoices` and `invoice_lines`
+    - Only users who manage an agency's billing see its invoices and their lines
+    - Invoices are only created and changed through the invoice functions, which check the draft
+      status and keep the totals and invoiced time in step
+*/
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'invoices' AND policyname = 'Billing managers can view their agency''s invoices'
+  ) THEN
+    CREATE POLICY "Billing managers can view their agency's invoices"
+    ON invoices
+    FOR SELECT
+    TO authenticated
+    USING (can_manage_agency_billing(auth.uid(), agency_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'invoice_lines' AND policyname = 'Billing managers can view lines of their agency''s invoices'
+  ) THEN
+    CREATE POLICY "Billing managers can view lines of their agency's invoices"
+    ON invoice_lines
+    FOR SELECT
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM invoices i
+        WHERE i.id = invoice_lines.invoice_id
+          AND can_manage_agency_billing(auth.uid(), i.agency_id)
+      )
+    );
+  END IF;
+END $$;
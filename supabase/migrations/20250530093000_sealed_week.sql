@@ -0,0 +1,43 @@
+/*
+  # Row level security for timesheets
+
+  1. Security
+    - Enable RLS on `timesheets` and `timesheet_tasks`
+    - Users see their own timesheets and the ones they can review, along with their tasks
+    - Timesheets are only created, filled in, submitted and reviewed through the timesheet functions,
+      so nobody can approve their own week or change a week that has been submitted
+*/
+
+ALTER TABLE timesheets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE timesheet_tasks ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'timesheets' AND policyname = 'Users can view their own and reviewable timesheets'
+  ) THEN
+    CREATE POLICY "Users can view their own and reviewable timesheets"
+    ON timesheets
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid() OR can_review_timesheet(auth.uid(), id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'timesheet_tasks' AND policyname = 'Users can view tasks of timesheets they see'
+  ) THEN
+    CREATE POLICY "Users can view tasks of timesheets they see"
+    ON timesheet_tasks
+    FOR SELECT
+    TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM timesheets ts
+        WHERE ts.id = timesheet_tasks.timesheet_id
+          AND (ts.user_id = auth.uid() OR can_review_timesheet(auth.uid(), ts.id))
+      )
+    );
+  END IF;
+END $$;
@@ -0,0 +1,101 @@
+/*
+  # Row level security for time locks
+
+  1. New Functions
+    - `prevent_time_lock_changes` stops an agency's lock date from being set anywhere but
+      `set_time_lock_date`, which flags its own changes
+
+  2. Changes
+    - `set_time_lock_date` flags its update of the agency so the lock columns can change
+
+  3. Security
+    - Enable RLS on `time_lock_overrides`
+    - Only users who manage an agency's billing see its overrides. They are only recorded by the
+      time lock itself, so the record can't be edited or cleared
+*/
+
+-- Lock dates only move through set_time_lock_date, which checks who may lock and unlock time
+CREATE OR REPLACE FUNCTION prevent_time_lock_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('app.setting_time_lock', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.time_lock_date IS NOT NULL OR NEW.time_lock_set_by IS NOT NULL OR NEW.time_lock_set_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Time can only be locked with set_time_lock_date';
+    END IF;
+  ELSIF (NEW.time_lock_date, NEW.time_lock_set_by, NEW.time_lock_set_at)
+    IS DISTINCT FROM
+    (OLD.time_lock_date, OLD.time_lock_set_by, OLD.time_lock_set_at)
+  THEN
+    RAISE EXCEPTION 'Time can only be locked with set_time_lock_date';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger
+    WHERE tgname = 'prevent_time_lock_changes_trigger'
+  ) THEN
+    CREATE TRIGGER prevent_time_lock_changes_trigger
+    BEFORE INSERT OR UPDATE
+    ON agencies
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_time_lock_changes();
+  END IF;
+END $$;
+
+-- Move an agency's lock date. NULL unlocks all of its time
+CREATE OR REPLACE FUNCTION set_time_lock_date(p_agency_id UUID, p_lock_date DATE)
+RETURNS VOID AS $$
+DECLARE
+  v_current DATE;
+BEGIN
+  IF NOT can_manage_agency_billing(auth.uid(), p_agency_id) THEN
+    RAISE EXCEPTION 'You do not have permission to lock time for this agency';
+  END IF;
+
+  IF p_lock_date >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Time can only be locked up to yesterday';
+  END IF;
+
+  SELECT time_lock_date INTO v_current FROM agencies WHERE id = p_agency_id;
+
+  IF v_current IS NOT NULL
+    AND (p_lock_date IS NULL OR p_lock_date < v_current)
+    AND NOT is_system_admin_of_agency(auth.uid(), p_agency_id)
+  THEN
+    RAISE EXCEPTION 'Only system admins can unlock time that is already locked';
+  END IF;
+
+  PERFORM set_config('app.setting_time_lock', 'on', true);
+
+  UPDATE agencies
+  SET time_lock_date = p_lock_date,
+      time_lock_set_by = auth.uid(),
+      time_lock_set_at = now()
+  WHERE id = p_agency_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+ALTER TABLE time_lock_overrides ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'time_lock_overrides' AND policyname = 'Billing managers can view their agency''s overrides'
+  ) THEN
+    CREATE POLICY "Billing managers can view their agency's overrides"
+    ON time_lock_overrides
+    FOR SELECT
+    TO authenticated
+    USING (can_manage_agency_billing(auth.uid(), agency_id));
+  END IF;
+END $$;